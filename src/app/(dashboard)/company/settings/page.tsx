@@ -0,0 +1,389 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+import { DashboardHeader } from '@/components/layout/dashboard-layout'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { CompanyProfileForm } from '@/components/company/company-profile-form'
+import { DocumentTemplateForm } from '@/components/company/document-template-form'
+import { DocumentSequenceForm } from '@/components/company/document-sequence-form'
+import { ApprovalPolicyForm } from '@/components/pos/approval-policy-form'
+import { SupervisorPinForm } from '@/components/pos/supervisor-pin-form'
+import { QrisSettingsForm } from '@/components/pos/qris-settings-form'
+
+import {
+  getCompanyName,
+  getCompanyProfile,
+  getDocumentTemplates,
+  updateCompanyProfile,
+  updateDocumentTemplate,
+} from '@/lib/company/api'
+import {
+  getPosSettings,
+  setSupervisorPin,
+  updatePosSettings,
+} from '@/lib/pos/api'
+import {
+  getDocumentSequences,
+  updateDocumentSequence,
+} from '@/lib/numbering/api'
+import { BRANDED_DOCUMENT_TYPES, formatNpwp } from '@/lib/company/utils'
+import { DOCUMENT_TYPES } from '@/lib/numbering/utils'
+import type {
+  CompanyProfileFormData,
+  DocumentTemplateFormData,
+} from '@/lib/company/validation'
+import type { DocumentSequenceFormData } from '@/lib/numbering/validation'
+import type {
+  ApprovalPolicyFormData,
+  QrisSettingsFormData,
+  SupervisorPinFormData,
+} from '@/lib/pos/validation'
+import type {
+  BrandedDocumentType,
+  CompanyProfile,
+  DocumentTemplate,
+} from '@/types/company'
+import type { DocumentSequence, DocumentType } from '@/types/numbering'
+import type { PosSettings } from '@/types/pos'
+
+/**
+ * Company Settings Page
+ * Owners edit the company profile, the templates that brand printed
+ * receipts and invoices, how documents are numbered, and which register
+ * actions need their approval
+ */
+export default function CompanySettingsPage() {
+  const [companyName, setCompanyName] = useState('')
+  const [profile, setProfile] = useState<CompanyProfile | null>(null)
+  const [templates, setTemplates] = useState<DocumentTemplate[]>([])
+  const [documentType, setDocumentType] =
+    useState<BrandedDocumentType>('receipt')
+  const [isLoading, setIsLoading] = useState(true)
+  const [savingProfile, setSavingProfile] = useState(false)
+  const [savingTemplate, setSavingTemplate] = useState(false)
+  const [sequences, setSequences] = useState<DocumentSequence[]>([])
+  const [sequenceType, setSequenceType] =
+    useState<DocumentType>('sales_invoice')
+  const [savingSequence, setSavingSequence] = useState(false)
+  const [posSettings, setPosSettings] = useState<PosSettings | null>(null)
+  const [savingPolicy, setSavingPolicy] = useState(false)
+  const [savingPin, setSavingPin] = useState(false)
+  const [savingQris, setSavingQris] = useState(false)
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      try {
+        setIsLoading(true)
+        const [
+          name,
+          profileData,
+          templatesData,
+          sequencesData,
+          posSettingsData,
+        ] = await Promise.all([
+          getCompanyName(),
+          getCompanyProfile(),
+          getDocumentTemplates(),
+          getDocumentSequences(),
+          getPosSettings(),
+        ])
+        setCompanyName(name)
+        setProfile(profileData)
+        setTemplates(templatesData)
+        setSequences(sequencesData)
+        setPosSettings(posSettingsData)
+      } catch (error) {
+        toast.error(
+          error instanceof Error ? error.message : 'Failed to load settings'
+        )
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadSettings()
+  }, [])
+
+  const handleSaveProfile = async (data: CompanyProfileFormData) => {
+    try {
+      setSavingProfile(true)
+      const saved = await updateCompanyProfile({
+        legal_name: data.legal_name.trim() || null,
+        npwp: data.npwp ? formatNpwp(data.npwp) : null,
+        address: data.address.trim() || null,
+        phone: data.phone.trim() || null,
+        email: data.email || null,
+        logo_url: data.logo_url || null,
+        footer_message: data.footer_message.trim() || null,
+        return_policy: data.return_policy.trim() || null,
+        time_zone: data.time_zone,
+      })
+      setProfile(saved)
+      toast.success('Company profile saved')
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to save profile'
+      )
+    } finally {
+      setSavingProfile(false)
+    }
+  }
+
+  const handleSaveTemplate = async (data: DocumentTemplateFormData) => {
+    try {
+      setSavingTemplate(true)
+      const saved = await updateDocumentTemplate(documentType, {
+        title: data.title.trim() || null,
+        header_text: data.header_text.trim() || null,
+        footer_text: data.footer_text.trim() || null,
+        terms_text: data.terms_text.trim() || null,
+        show_logo: data.show_logo,
+        show_npwp: data.show_npwp,
+        show_return_policy: data.show_return_policy,
+      })
+      setTemplates(current => [
+        ...current.filter(template => template.document_type !== documentType),
+        saved,
+      ])
+      toast.success('Document template saved')
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to save template'
+      )
+    } finally {
+      setSavingTemplate(false)
+    }
+  }
+
+  const handleSaveSequence = async (data: DocumentSequenceFormData) => {
+    try {
+      setSavingSequence(true)
+      const saved = await updateDocumentSequence(sequenceType, data)
+      setSequences(current => [
+        ...current.filter(sequence => sequence.document_type !== sequenceType),
+        saved,
+      ])
+      toast.success('Document numbering saved')
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to save numbering'
+      )
+    } finally {
+      setSavingSequence(false)
+    }
+  }
+
+  const handleSavePolicy = async (data: ApprovalPolicyFormData) => {
+    try {
+      setSavingPolicy(true)
+      const saved = await updatePosSettings(data)
+      setPosSettings(saved)
+      toast.success('Approval policy saved')
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to save policy'
+      )
+    } finally {
+      setSavingPolicy(false)
+    }
+  }
+
+  const handleSavePin = async (data: SupervisorPinFormData) => {
+    try {
+      setSavingPin(true)
+      await setSupervisorPin(data.pin)
+      toast.success('Supervisor PIN set')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to set PIN')
+    } finally {
+      setSavingPin(false)
+    }
+  }
+
+  const handleSaveQris = async (data: QrisSettingsFormData) => {
+    try {
+      setSavingQris(true)
+      const saved = await updatePosSettings({
+        qris_payload: data.qris_payload.trim() || null,
+        payment_gateway:
+          data.payment_gateway === 'none' ? null : data.payment_gateway,
+        qris_expiry_minutes: data.qris_expiry_minutes,
+      })
+      setPosSettings(saved)
+      toast.success('QRIS settings saved')
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to save QRIS'
+      )
+    } finally {
+      setSavingQris(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  const template =
+    templates.find(item => item.document_type === documentType) || null
+  const sequence =
+    sequences.find(item => item.document_type === sequenceType) || null
+
+  return (
+    <div className="space-y-6">
+      <DashboardHeader
+        title="Company Settings"
+        description="Company profile and printed document branding"
+      />
+
+      <CompanyProfileForm
+        profile={profile}
+        companyName={companyName}
+        onSubmit={handleSaveProfile}
+        isLoading={savingProfile}
+      />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Document Templates</CardTitle>
+          <CardDescription>
+            Title, texts and sections printed on each document type
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2 max-w-xs">
+            <Label htmlFor="document-type">Document</Label>
+            <Select
+              value={documentType}
+              onValueChange={value =>
+                setDocumentType(value as BrandedDocumentType)
+              }
+            >
+              <SelectTrigger id="document-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BRANDED_DOCUMENT_TYPES.map(type => (
+                  <SelectItem key={type.value} value={type.value}>
+                    {type.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <DocumentTemplateForm
+            documentType={documentType}
+            template={template}
+            onSubmit={handleSaveTemplate}
+            isLoading={savingTemplate}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Document Numbering</CardTitle>
+          <CardDescription>
+            Numbers are issued by the server when a document is saved, in the
+            company&apos;s time zone
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2 max-w-xs">
+            <Label htmlFor="sequence-type">Document</Label>
+            <Select
+              value={sequenceType}
+              onValueChange={value => setSequenceType(value as DocumentType)}
+            >
+              <SelectTrigger id="sequence-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DOCUMENT_TYPES.map(type => (
+                  <SelectItem key={type.value} value={type.value}>
+                    {type.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <DocumentSequenceForm
+            documentType={sequenceType}
+            sequence={sequence}
+            onSubmit={handleSaveSequence}
+            isLoading={savingSequence}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>POS Approvals</CardTitle>
+          <CardDescription>
+            Register actions that need a supervisor to enter their PIN
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ApprovalPolicyForm
+            settings={posSettings}
+            onSubmit={handleSavePolicy}
+            isLoading={savingPolicy}
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Supervisor PIN</CardTitle>
+          <CardDescription>
+            Your PIN for approving discounts, price overrides, voids and refunds
+            at the register
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <SupervisorPinForm onSubmit={handleSavePin} isLoading={savingPin} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>QRIS Payments</CardTitle>
+          <CardDescription>
+            The code on the customer display and the gateway that collects
+            e-wallet payments
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <QrisSettingsForm
+            settings={posSettings}
+            onSubmit={handleSaveQris}
+            isLoading={savingQris}
+          />
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
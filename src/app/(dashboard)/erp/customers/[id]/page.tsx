@@ -9,6 +9,7 @@ import {
   Phone,
   MapPin,
   CreditCard,
+  Printer,
   Trash2,
 } from 'lucide-react'
 import { toast } from 'sonner'
@@ -25,8 +26,16 @@ import { Badge } from '@/components/ui/badge'
 import { Separator } from '@/components/ui/separator'
 import { DetailLayout } from '@/components/layouts'
 
-import { getCustomerById, deleteCustomer } from '@/lib/customers/api'
-import type { Customer } from '@/types/customers'
+import {
+  getCustomerById,
+  getCustomerReceivables,
+  deleteCustomer,
+} from '@/lib/customers/api'
+import { getSalesInvoiceById, getSalesInvoiceLines } from '@/lib/sales/api'
+import { getDocumentBranding } from '@/lib/company/api'
+import { printDocumentInNewTab } from '@/lib/company/documents'
+import { buildSalesInvoiceDocument } from '@/lib/sales/documents'
+import type { Customer, CustomerReceivables } from '@/types/customers'
 
 /**
  * Customer Detail Page (View Only)
@@ -43,8 +52,14 @@ export default function CustomerDetailPage() {
   const customerId = params.id as string
 
   const [customer, setCustomer] = useState<Customer | null>(null)
+  const [receivables, setReceivables] = useState<CustomerReceivables | null>(
+    null
+  )
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [printingInvoiceId, setPrintingInvoiceId] = useState<string | null>(
+    null
+  )
 
   // Load customer data
   useEffect(() => {
@@ -52,8 +67,12 @@ export default function CustomerDetailPage() {
       try {
         setIsLoading(true)
         setError(null)
-        const data = await getCustomerById(customerId)
+        const [data, receivablesData] = await Promise.all([
+          getCustomerById(customerId),
+          getCustomerReceivables(customerId),
+        ])
         setCustomer(data)
+        setReceivables(receivablesData)
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Failed to load customer')
         toast.error('Failed to load customer')
@@ -89,6 +108,27 @@ export default function CustomerDetailPage() {
     }
   }
 
+  // Print an invoice with the company's invoice branding
+  const handlePrintInvoice = async (invoiceId: string) => {
+    try {
+      setPrintingInvoiceId(invoiceId)
+      const invoice = await getSalesInvoiceById(invoiceId)
+      if (!invoice) throw new Error('Invoice not found')
+
+      const [lines, branding] = await Promise.all([
+        getSalesInvoiceLines(invoice),
+        getDocumentBranding('sales_invoice'),
+      ])
+      printDocumentInNewTab(branding, buildSalesInvoiceDocument(invoice, lines))
+    } catch (err) {
+      toast.error(
+        err instanceof Error ? err.message : 'Failed to print invoice'
+      )
+    } finally {
+      setPrintingInvoiceId(null)
+    }
+  }
+
   // Format currency
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('id-ID', {
@@ -98,6 +138,13 @@ export default function CustomerDetailPage() {
     }).format(amount)
   }
 
+  // Format date only
+  const formatShortDate = (dateString: string) => {
+    return new Intl.DateTimeFormat('id-ID', {
+      dateStyle: 'medium',
+    }).format(new Date(dateString))
+  }
+
   // Format date
   const formatDate = (dateString: string) => {
     return new Intl.DateTimeFormat('id-ID', {
@@ -266,7 +313,9 @@ export default function CustomerDetailPage() {
         <Card>
           <CardHeader>
             <CardTitle>Financial Information</CardTitle>
-            <CardDescription>Credit limit and payment terms</CardDescription>
+            <CardDescription>
+              Credit limit and outstanding balance
+            </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
             <div className="flex items-start gap-3">
@@ -280,6 +329,31 @@ export default function CustomerDetailPage() {
                 </p>
               </div>
             </div>
+
+            {receivables && (
+              <>
+                <Separator />
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-muted-foreground">
+                      Outstanding
+                    </p>
+                    <p className="text-base font-semibold">
+                      {formatCurrency(receivables.outstanding)}
+                    </p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium text-muted-foreground">
+                      Available Credit
+                    </p>
+                    <p className="text-base font-semibold">
+                      {formatCurrency(receivables.available_credit)}
+                    </p>
+                  </div>
+                </div>
+              </>
+            )}
           </CardContent>
         </Card>
 
@@ -309,6 +383,108 @@ export default function CustomerDetailPage() {
         </Card>
       </div>
 
+      {/* Receivables Aging */}
+      {receivables && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Receivables Aging</CardTitle>
+            <CardDescription>
+              Open invoices grouped by days past due
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-4 md:grid-cols-5">
+              {receivables.aging.map(bucket => (
+                <div key={bucket.label} className="rounded-lg border p-3">
+                  <p className="text-xs text-muted-foreground">
+                    {bucket.label}
+                  </p>
+                  <p
+                    className={`font-semibold ${
+                      bucket.min_days > 0 && bucket.amount > 0
+                        ? 'text-red-600'
+                        : ''
+                    }`}
+                  >
+                    {formatCurrency(bucket.amount)}
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            {receivables.invoices.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No outstanding invoices
+              </p>
+            ) : (
+              <div className="border rounded-md overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted/50">
+                    <tr className="border-b">
+                      <th className="px-4 py-2 text-left font-medium">
+                        Invoice
+                      </th>
+                      <th className="px-4 py-2 text-left font-medium">Date</th>
+                      <th className="px-4 py-2 text-left font-medium">
+                        Due Date
+                      </th>
+                      <th className="px-4 py-2 text-right font-medium">
+                        Total
+                      </th>
+                      <th className="px-4 py-2 text-right font-medium">
+                        Remaining
+                      </th>
+                      <th className="px-4 py-2" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {receivables.invoices.map(invoice => (
+                      <tr key={invoice.id} className="border-b">
+                        <td className="px-4 py-2 font-mono">
+                          {invoice.invoice_number}
+                          {invoice.pos_transaction_id && (
+                            <Badge variant="outline" className="ml-2">
+                              POS
+                            </Badge>
+                          )}
+                        </td>
+                        <td className="px-4 py-2">
+                          {formatShortDate(invoice.invoice_date)}
+                        </td>
+                        <td className="px-4 py-2">
+                          {formatShortDate(invoice.due_date)}
+                          {invoice.days_overdue > 0 && (
+                            <Badge variant="destructive" className="ml-2">
+                              {invoice.days_overdue}d overdue
+                            </Badge>
+                          )}
+                        </td>
+                        <td className="px-4 py-2 text-right">
+                          {formatCurrency(invoice.grand_total)}
+                        </td>
+                        <td className="px-4 py-2 text-right font-medium">
+                          {formatCurrency(invoice.remaining_amount)}
+                        </td>
+                        <td className="px-4 py-2 text-right">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handlePrintInvoice(invoice.id)}
+                            disabled={printingInvoiceId === invoice.id}
+                          >
+                            <Printer className="h-4 w-4" />
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Action Buttons */}
       <div className="flex justify-end">
         <Button variant="outline" onClick={() => router.push('/erp/customers')}>
@@ -34,6 +34,7 @@ export default function NewCustomerPage() {
         address: data.address || undefined,
         category_id: data.category_id,
         credit_limit: data.credit_limit,
+        is_tax_exempt: data.is_tax_exempt,
         status: data.status,
       })
 
@@ -16,6 +16,14 @@ import {
   ChevronsUpDown,
   History,
   Percent,
+  CloudOff,
+  RefreshCw,
+  ScanBarcode,
+  PauseCircle,
+  Printer,
+  Tag,
+  Wallet,
+  Monitor,
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
@@ -55,37 +63,130 @@ import { toast } from 'sonner'
 import { createClientSupabase } from '@/lib/supabase/client'
 import {
   getCurrentShift,
+  getRegisterById,
   openShift,
   createTransaction,
   getTransactionById,
+  getPosSettings,
+  getParkedCarts,
+  parkCart,
+  recallParkedCart,
+  cancelParkedCart,
 } from '@/lib/pos/api'
 import { getProducts } from '@/lib/inventory/api'
-import { getPromotions } from '@/lib/promotions/api'
-import { getCustomers } from '@/lib/customers/api'
-import { printReceiptInNewTab } from '@/lib/pos/print-utils'
+import {
+  getActivePromotionsWithTargets,
+  getPromotionUsage,
+  getVoucherByCode,
+} from '@/lib/promotions/api'
+import { getVoucherStatus } from '@/lib/promotions/utils'
+import { getCustomerReceivables, getCustomers } from '@/lib/customers/api'
+import {
+  openCashDrawer,
+  printReceipt,
+  setRegisterPrinterDefaults,
+} from '@/lib/pos/printer'
+import {
+  DEFAULT_RECEIPT_BRANDING,
+  applyRegisterReceiptSettings,
+} from '@/lib/pos/receipt'
+import { parseQuantityPrefix, resolveBarcode } from '@/lib/pos/barcode'
+import { useBarcodeScanner } from '@/hooks/use-barcode-scanner'
+import { useSupervisorApproval } from '@/hooks/use-supervisor-approval'
+import { useCustomerDisplay } from '@/hooks/use-customer-display'
+import {
+  openCustomerDisplayWindow,
+  toCustomerDisplayLines,
+} from '@/lib/pos/customer-display'
+import { qrisPayloadWithAmount } from '@/lib/pos/qris'
+import { applyCartPromotions, discountNeedsApproval } from '@/lib/pos/utils'
+import {
+  acceptOfflineConflict,
+  cachePosData,
+  getCachedPosData,
+  getOfflineTransactions,
+  isNetworkError,
+  queueOfflineTransaction,
+  removeOfflineTransaction,
+  syncOfflineTransactions,
+} from '@/lib/pos/offline'
+import { getTaxSettings } from '@/lib/tax/api'
+import { getCompanyProfile, getDocumentBranding } from '@/lib/company/api'
+import { calculatePricing } from '@/lib/pricing/utils'
+import { formatTaxLabel } from '@/lib/tax/utils'
 import { PaymentDialog } from '@/components/pos/payment-dialog'
+import { QrisPaymentDialog } from '@/components/pos/qris-payment-dialog'
+import { ReceivablePaymentDialog } from '@/components/pos/receivable-payment-dialog'
 import { CloseShiftDialog } from '@/components/pos/close-shift-dialog'
 import { OpenShiftDialog } from '@/components/pos/open-shift-dialog'
+import { OfflineQueueDialog } from '@/components/pos/offline-queue-dialog'
+import { ParkedCartsDialog } from '@/components/pos/parked-carts-dialog'
+import { PrinterSettingsDialog } from '@/components/pos/printer-settings-dialog'
+import { CashMovementDialog } from '@/components/pos/cash-movement-dialog'
+import { SupervisorApprovalDialog } from '@/components/pos/supervisor-approval-dialog'
 import type {
   PosShift,
+  PosRegister,
+  PosSettings,
+  PosTransaction,
   CreateTransactionInput,
   PosTransactionWithRelations,
+  OfflineTransaction,
+  PosParkedCartWithRelations,
+  PosPayment,
+  PosQrisCharge,
 } from '@/types/pos'
 import type { Product } from '@/types/inventory'
-import type { Promotion } from '@/types/promotions'
+import type {
+  PromotionContext,
+  PromotionUsage,
+  PromotionWithTargets,
+} from '@/types/promotions'
 import type { Customer } from '@/types/customers'
+import type { TaxSettings } from '@/types/tax'
+import type { CompanyTimeZone, DocumentBranding } from '@/types/company'
 import type { CartItem } from '@/types/pos'
 
 export default function POSPage() {
   const [currentShift, setCurrentShift] = useState<PosShift | null>(null)
+  const [currentRegister, setCurrentRegister] = useState<PosRegister | null>(
+    null
+  )
+  const [posSettings, setPosSettings] = useState<PosSettings | null>(null)
+  const [taxSettings, setTaxSettings] = useState<TaxSettings | null>(null)
+  const [receiptBranding, setReceiptBranding] =
+    useState<DocumentBranding | null>(null)
   const [products, setProducts] = useState<Product[]>([])
-  const [promotions, setPromotions] = useState<Promotion[]>([])
+  const [promotions, setPromotions] = useState<PromotionWithTargets[]>([])
+  // Promotion periods and windows follow the company's clock
+  const [companyTimeZone, setCompanyTimeZone] =
+    useState<CompanyTimeZone | null>(null)
   const [customers, setCustomers] = useState<Customer[]>([])
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(
     null
   )
   const [customerSearchOpen, setCustomerSearchOpen] = useState(false)
-  const [cart, setCart] = useState<CartItem[]>([])
+  const [availableCredit, setAvailableCredit] = useState<number | null>(null)
+  const [receivableDialogOpen, setReceivableDialogOpen] = useState(false)
+  const [cartLines, setCart] = useState<CartItem[]>([])
+  const [couponCodes, setCouponCodes] = useState<string[]>([])
+  const [voucherPromotions, setVoucherPromotions] = useState<
+    Record<string, string>
+  >({})
+  const [promotionUsage, setPromotionUsage] = useState<
+    Record<string, PromotionUsage>
+  >({})
+  // Lines with the active promotions applied, re-evaluated on every change
+  const promotionContext: PromotionContext = {
+    customer_segment: selectedCustomer?.category?.name,
+    customer_id: selectedCustomer?.id,
+    time_zone: companyTimeZone,
+    coupon_codes: couponCodes,
+    vouchers: voucherPromotions,
+    usage: promotionUsage,
+  }
+  const { items: cart, calculations: promotionCalculations } =
+    applyCartPromotions(cartLines, promotions, products, promotionContext)
   const [searchQuery, setSearchQuery] = useState('')
   const [customerSearchQuery, setCustomerSearchQuery] = useState('')
   const [loading, setLoading] = useState(true)
@@ -102,11 +203,193 @@ export default function POSPage() {
     'percentage'
   )
   const [discountValue, setDiscountValue] = useState<string>('')
+  const [priceItemIndex, setPriceItemIndex] = useState<number | null>(null)
+  const [priceValue, setPriceValue] = useState<string>('')
+  const {
+    request: approvalRequest,
+    requestApproval,
+    resolveApproval,
+  } = useSupervisorApproval()
+  const [isOnline, setIsOnline] = useState(true)
+  const [offlineTransactions, setOfflineTransactions] = useState<
+    OfflineTransaction[]
+  >([])
+  const [offlineQueueOpen, setOfflineQueueOpen] = useState(false)
+  const [syncing, setSyncing] = useState(false)
+  const [scanMode, setScanMode] = useState(true)
+  const [cartNotes, setCartNotes] = useState<string>('')
+  const [parkedCarts, setParkedCarts] = useState<PosParkedCartWithRelations[]>(
+    []
+  )
+  const [parkedCartsOpen, setParkedCartsOpen] = useState(false)
+  const [parkingCart, setParkingCart] = useState(false)
+  const [printerSettingsOpen, setPrinterSettingsOpen] = useState(false)
+  const [cashMovementOpen, setCashMovementOpen] = useState(false)
+  const [completedSale, setCompletedSale] = useState<{
+    total: number
+    change_amount: number
+  } | null>(null)
+  // Sale awaiting its QRIS payment at the gateway
+  const [qrisSale, setQrisSale] = useState<{
+    transaction: PosTransactionWithRelations
+    payment: PosPayment
+    shouldPrint: boolean
+  } | null>(null)
+  const [qrisCharge, setQrisCharge] = useState<PosQrisCharge | null>(null)
 
   useEffect(() => {
     loadData()
   }, [])
 
+  // Track connectivity and replay queued sales when it returns
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true)
+      syncOffline()
+    }
+    const handleOffline = () => setIsOnline(false)
+
+    setIsOnline(navigator.onLine)
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+    refreshOfflineQueue()
+    if (navigator.onLine) syncOffline()
+
+    return () => {
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  const refreshOfflineQueue = async () => {
+    try {
+      setOfflineTransactions(await getOfflineTransactions())
+    } catch (error) {
+      console.error('Error loading offline queue:', error)
+    }
+  }
+
+  const syncOffline = async () => {
+    try {
+      setSyncing(true)
+      const result = await syncOfflineTransactions()
+      if (result.synced > 0) {
+        toast.success(`${result.synced} offline sale(s) synced`)
+      }
+      if (result.conflicts > 0 || result.failed > 0) {
+        toast.error(
+          `${result.conflicts + result.failed} offline sale(s) need attention`
+        )
+      }
+    } catch (error) {
+      console.error('Error syncing offline sales:', error)
+    } finally {
+      setSyncing(false)
+      refreshOfflineQueue()
+    }
+  }
+
+  const handleAcceptConflict = async (transaction: OfflineTransaction) => {
+    // Going over a promotion's usage limit, or selling without stock where
+    // cashiers may not override it, needs a supervisor
+    let approvalId: string | undefined
+    const approvalAction =
+      transaction.conflict_type === 'promotion'
+        ? 'promotion_limit'
+        : transaction.conflict_type === 'stock' &&
+            !posSettings?.allow_stock_override
+          ? 'stock_override'
+          : null
+    if (approvalAction) {
+      const approval = await requestApproval({
+        action: approvalAction,
+        shift_id: transaction.shift_id,
+        new_value: transaction.total,
+        description: `Sync offline sale ${transaction.offline_number} despite: ${transaction.error}`,
+      })
+      if (!approval) return
+      approvalId = approval.id
+    }
+
+    await acceptOfflineConflict(transaction.local_id, approvalId)
+    await syncOffline()
+  }
+
+  const handleRemoveOffline = async (transaction: OfflineTransaction) => {
+    if (
+      transaction.status !== 'synced' &&
+      !confirm(
+        `Discard offline sale ${transaction.offline_number}? It will not be recorded.`
+      )
+    ) {
+      return
+    }
+    await removeOfflineTransaction(transaction.local_id)
+    refreshOfflineQueue()
+  }
+
+  const pendingSyncCount = offlineTransactions.filter(
+    transaction => transaction.status !== 'synced'
+  ).length
+
+  useEffect(() => {
+    loadAvailableCredit(selectedCustomer)
+  }, [selectedCustomer])
+
+  useEffect(() => {
+    loadPromotionUsage(promotions, selectedCustomer)
+  }, [promotions, selectedCustomer])
+
+  // Parked carts are shared by every register, so refresh on each open
+  useEffect(() => {
+    if (currentShift) loadParkedCarts()
+  }, [currentShift, parkedCartsOpen])
+
+  const loadParkedCarts = async () => {
+    if (!navigator.onLine) return
+
+    try {
+      setParkedCarts(await getParkedCarts())
+    } catch (error) {
+      console.error('Error loading parked carts:', error)
+    }
+  }
+
+  const loadAvailableCredit = async (customer: Customer | null) => {
+    if (!customer) {
+      setAvailableCredit(null)
+      return
+    }
+
+    try {
+      const receivables = await getCustomerReceivables(customer.id)
+      setAvailableCredit(receivables.available_credit)
+    } catch (error) {
+      console.error('Error loading customer credit:', error)
+      setAvailableCredit(0)
+    }
+  }
+
+  // How often limited promotions were used, so spent ones leave the cart.
+  // The database enforces the limits when the sale is saved.
+  const loadPromotionUsage = async (
+    promotionList: PromotionWithTargets[],
+    customer: Customer | null
+  ) => {
+    const limitedIds = promotionList
+      .filter(
+        promotion => promotion.usage_limit || promotion.usage_limit_per_customer
+      )
+      .map(promotion => promotion.id)
+
+    try {
+      setPromotionUsage(await getPromotionUsage(limitedIds, customer?.id))
+    } catch (error) {
+      console.error('Error loading promotion usage:', error)
+    }
+  }
+
   const loadData = async () => {
     try {
       setLoading(true)
@@ -118,24 +401,95 @@ export default function POSPage() {
       } = await supabase.auth.getUser()
 
       if (!user) {
+        // getUser needs the server; offline we carry on with the cache
+        if (!navigator.onLine) throw new Error('Offline')
         toast.error('Not authenticated')
         setLoading(false)
         return
       }
 
-      const [shiftData, productsData, promotionsData, customersResponse] =
-        await Promise.all([
-          getCurrentShift(user.id),
-          getProducts(),
-          getPromotions({ status: 'active' }),
-          getCustomers({ status: 'active' }, { limit: 100 }),
-        ])
+      const [
+        shiftData,
+        productsData,
+        promotionsData,
+        customersResponse,
+        settingsData,
+        taxSettingsData,
+        brandingData,
+        profileData,
+      ] = await Promise.all([
+        getCurrentShift(user.id),
+        getProducts(),
+        getActivePromotionsWithTargets(),
+        getCustomers({ status: 'active' }, { limit: 100 }),
+        getPosSettings(),
+        getTaxSettings(),
+        // Receipts fall back to the default branding
+        getDocumentBranding('receipt').catch(error => {
+          console.error('Error loading receipt branding:', error)
+          return null
+        }),
+        getCompanyProfile().catch(error => {
+          console.error('Error loading company profile:', error)
+          return null
+        }),
+      ])
+
+      // The register's printer and receipt texts apply while its shift is open
+      const registerData = shiftData?.register_id
+        ? await getRegisterById(shiftData.register_id).catch(error => {
+            console.error('Error loading register:', error)
+            return null
+          })
+        : null
+      const receiptBrandingData = registerData
+        ? applyRegisterReceiptSettings(
+            brandingData || DEFAULT_RECEIPT_BRANDING,
+            registerData
+          )
+        : brandingData
+      setRegisterPrinterDefaults(registerData?.printer_settings || null)
+
       setCurrentShift(shiftData)
+      setCurrentRegister(registerData)
+      setPosSettings(settingsData)
+      setTaxSettings(taxSettingsData)
+      setReceiptBranding(receiptBrandingData)
       setProducts(productsData)
       setPromotions(promotionsData)
+      setCompanyTimeZone(profileData?.time_zone || null)
       setCustomers(customersResponse.data)
+
+      // Keep a copy for selling through a network drop
+      cachePosData({
+        shift: shiftData,
+        settings: settingsData,
+        products: productsData,
+        promotions: promotionsData,
+        customers: customersResponse.data,
+        tax_settings: taxSettingsData,
+        receipt_branding: receiptBrandingData,
+        time_zone: profileData?.time_zone || null,
+      }).catch(error => console.error('Error caching POS data:', error))
     } catch (error) {
       console.error('Error loading POS data:', error)
+
+      // Fall back to the cached catalog when the server is unreachable
+      const cached = await getCachedPosData().catch(() => null)
+      if (cached) {
+        setCurrentShift(cached.shift)
+        setPosSettings(cached.settings)
+        setTaxSettings(cached.tax_settings)
+        setReceiptBranding(cached.receipt_branding || null)
+        setProducts(cached.products)
+        setPromotions(cached.promotions)
+        setCompanyTimeZone(cached.time_zone || null)
+        setCustomers(cached.customers)
+        toast.warning(
+          'Offline: using catalog cached at ' +
+            new Date(cached.cached_at).toLocaleString('id-ID')
+        )
+      }
     } finally {
       setLoading(false)
     }
@@ -146,6 +500,168 @@ export default function POSPage() {
     loadData() // Reload data to get fresh shift info
   }
 
+  const queueOfflineSale = async (input: CreateTransactionInput) => {
+    if (!currentShift) return
+
+    // Credit needs the customer's live balance
+    if (input.payments?.some(payment => payment.payment_method === 'credit')) {
+      throw new Error('Credit sales are not available offline')
+    }
+
+    const offlineTransaction = await queueOfflineTransaction(
+      { ...input, shift_id: currentShift.id },
+      total
+    )
+
+    toast.success(`Saved offline as ${offlineTransaction.offline_number}`, {
+      description: 'It will be synced when the connection returns',
+    })
+    setCart([])
+    setCartNotes('')
+    setCouponCodes([])
+    setPaymentDialogOpen(false)
+    refreshOfflineQueue()
+  }
+
+  const handleParkCart = async (notes: string) => {
+    if (!currentShift || cart.length === 0) return
+
+    try {
+      setParkingCart(true)
+      await parkCart({
+        shift_id: currentShift.id,
+        customer_id: selectedCustomer?.id,
+        items: cart,
+        total,
+        notes: notes.trim() || undefined,
+      })
+
+      toast.success('Cart parked', {
+        description: selectedCustomer?.name || notes.trim() || undefined,
+      })
+      setCart([])
+      setSelectedCustomer(null)
+      setCartNotes('')
+      setCouponCodes([])
+      setParkedCartsOpen(false)
+      loadParkedCarts()
+    } catch (error) {
+      console.error('Error parking cart:', error)
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to park cart'
+      )
+    } finally {
+      setParkingCart(false)
+    }
+  }
+
+  const handleRecallCart = async (parked: PosParkedCartWithRelations) => {
+    if (!currentShift) return
+    if (cart.length > 0) {
+      toast.error('Park or clear the current cart first')
+      return
+    }
+
+    try {
+      setParkingCart(true)
+      const recalled = await recallParkedCart(parked.id, currentShift.id)
+
+      setCart(recalled.items)
+      setSelectedCustomer(recalled.customer || null)
+      setCartNotes(recalled.notes || '')
+      setParkedCartsOpen(false)
+      toast.success('Cart recalled')
+    } catch (error) {
+      console.error('Error recalling cart:', error)
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to recall cart'
+      )
+    } finally {
+      setParkingCart(false)
+      loadParkedCarts()
+    }
+  }
+
+  const handleCancelParkedCart = async (parked: PosParkedCartWithRelations) => {
+    if (!confirm('Cancel this parked cart? Its items will be discarded.')) {
+      return
+    }
+
+    try {
+      await cancelParkedCart(parked.id)
+      loadParkedCarts()
+    } catch (error) {
+      console.error('Error cancelling parked cart:', error)
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to cancel parked cart'
+      )
+    }
+  }
+
+  const refreshShift = async () => {
+    const supabase = createClientSupabase()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+    if (user) {
+      const updatedShift = await getCurrentShift(user.id)
+      setCurrentShift(updatedShift)
+    }
+  }
+
+  /**
+   * Wrap up a paid sale: thank the customer, clear the cart, then print the
+   * receipt or open the drawer for cash
+   */
+  const finishSale = async (
+    transaction: PosTransaction,
+    shouldPrint: boolean,
+    hasCash: boolean
+  ) => {
+    // Fetch full transaction details with relations for receipt
+    const transactionWithRelations = await getTransactionById(transaction.id)
+
+    // Success!
+    toast.success(
+      `Transaction ${transaction.transaction_number} completed successfully`,
+      Number(transaction.change_amount) > 0
+        ? {
+            description: `Change: Rp ${Number(transaction.change_amount).toLocaleString('id-ID')}`,
+          }
+        : undefined
+    )
+
+    // Clear cart and close payment dialog
+    setCompletedSale({
+      total: Number(transaction.total),
+      change_amount: Number(transaction.change_amount) || 0,
+    })
+    setCart([])
+    setCartNotes('')
+    setCouponCodes([])
+    setPaymentDialogOpen(false)
+    if (
+      transaction.payment_method === 'split' ||
+      transaction.payment_method === 'credit'
+    ) {
+      loadAvailableCredit(selectedCustomer)
+    }
+    loadPromotionUsage(promotions, selectedCustomer)
+
+    // Print on the register's printer (thermal, or HTML in a new tab);
+    // without a receipt the drawer still opens for cash
+    if (shouldPrint && transactionWithRelations) {
+      printReceipt(transactionWithRelations, receiptBranding || undefined)
+    } else if (hasCash) {
+      openCashDrawer().catch(error =>
+        console.error('Error opening cash drawer:', error)
+      )
+    }
+
+    // Optionally refresh shift data to update transaction count
+    await refreshShift()
+  }
+
   const handlePayment = async (
     payments: Array<{
       method: 'cash' | 'card' | 'transfer' | 'e-wallet' | 'credit' | 'split'
@@ -181,98 +697,213 @@ export default function POSPage() {
           unit_price: item.unit_price,
           discount_amount: item.discount_amount,
           promotion_id: item.promotion_id || undefined,
+          discounted_units: item.discounted_units || null,
+          redemptions: item.redemptions || [],
         })),
+        approval_ids: cart.flatMap(item => item.approval_ids || []),
         payments: payments.map(payment => ({
           payment_method: payment.method,
           amount: payment.amount,
           reference_number: payment.reference,
         })),
+        notes: cartNotes || undefined,
       }
 
-      // Create transaction
-      const transaction = await createTransaction(transactionInput)
+      // Without a connection the sale is queued under a local number
+      if (!navigator.onLine) {
+        await queueOfflineSale(transactionInput)
+        return
+      }
 
-      // Fetch full transaction details with relations for receipt
-      const transactionWithRelations = await getTransactionById(transaction.id)
+      // Online, e-wallet lines are collected as a gateway QRIS and stay
+      // pending until the customer has paid
+      const saleInput: CreateTransactionInput = posSettings?.payment_gateway
+        ? {
+            ...transactionInput,
+            payments: transactionInput.payments?.map(payment =>
+              payment.payment_method === 'e-wallet'
+                ? { ...payment, status: 'pending' }
+                : payment
+            ),
+          }
+        : transactionInput
 
-      // Success!
-      toast.success(
-        `Transaction ${transaction.transaction_number} completed successfully`
-      )
+      // Create transaction
+      let transaction: PosTransaction
+      try {
+        transaction = await createTransaction(saleInput)
+      } catch (error) {
+        if (isNetworkError(error)) {
+          await queueOfflineSale(transactionInput)
+          return
+        }
 
-      // Clear cart and close payment dialog
-      setCart([])
-      setPaymentDialogOpen(false)
-
-      // If shouldPrint, open print in new tab (no modal)
-      if (shouldPrint && transactionWithRelations) {
-        printReceiptInNewTab(transactionWithRelations, {
-          name: 'ERPINDO COMPANY',
-          address: 'Jl. Bisnis No. 123, Jakarta',
-          phone: '+62 21 1234 5678',
-        })
+        // Let the cashier confirm selling beyond stock when the company allows it
+        if (
+          posSettings?.allow_stock_override &&
+          error instanceof Error &&
+          error.message.includes('Insufficient stock') &&
+          confirm(`${error.message}\n\nContinue the sale anyway?`)
+        ) {
+          transaction = await createTransaction({
+            ...saleInput,
+            override_stock: true,
+          })
+        } else {
+          throw error
+        }
       }
-      // No else - modal dihapus karena print langsung ke tab baru
 
-      // Optionally refresh shift data to update transaction count
-      const supabase = createClientSupabase()
-      const {
-        data: { user },
-      } = await supabase.auth.getUser()
-      if (user) {
-        const updatedShift = await getCurrentShift(user.id)
-        setCurrentShift(updatedShift)
+      if (transaction.payment_status === 'pending') {
+        const pendingSale = await getTransactionById(transaction.id)
+        const pendingPayment = pendingSale?.payments.find(
+          payment => payment.status === 'pending'
+        )
+        if (pendingSale && pendingPayment) {
+          setPaymentDialogOpen(false)
+          setQrisSale({
+            transaction: pendingSale,
+            payment: pendingPayment,
+            shouldPrint,
+          })
+          return
+        }
       }
+
+      await finishSale(
+        transaction,
+        shouldPrint,
+        payments.some(payment => payment.method === 'cash')
+      )
     } catch (error) {
       console.error('Error processing payment:', error)
-      toast.error('Failed to process payment')
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to process payment'
+      )
     } finally {
       setProcessingPayment(false)
     }
   }
 
-  const handleCloseShift = () => {
-    setCloseShiftDialogOpen(true)
+  const handleQrisPaid = async () => {
+    if (!qrisSale) return
+
+    try {
+      await finishSale(
+        qrisSale.transaction,
+        qrisSale.shouldPrint,
+        qrisSale.transaction.payments.some(
+          payment => payment.payment_method === 'cash'
+        )
+      )
+    } catch (error) {
+      console.error('Error completing QRIS sale:', error)
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to complete the sale'
+      )
+    } finally {
+      setQrisSale(null)
+    }
   }
 
-  const handleAddToCart = (product: Product) => {
+  // The sale exists with its stock taken, so the cart moves on either way
+  const handleQrisLeftPending = () => {
+    if (!qrisSale) return
+
+    toast.warning(
+      `Transaction ${qrisSale.transaction.transaction_number} is pending payment`,
+      {
+        description: 'Charge it again or void it from the transaction details',
+      }
+    )
+    setQrisSale(null)
+    setCart([])
+    setCartNotes('')
+    setCouponCodes([])
+    refreshShift().catch(error =>
+      console.error('Error refreshing shift:', error)
+    )
+  }
+
+  const handleAddToCart = (product: Product, quantity: number = 1) => {
     if (!product.selling_price) {
       toast.error('Product has no selling price')
       return
     }
+    const unitPrice = product.selling_price
 
-    const existingItem = cart.find(item => item.product_id === product.id)
+    // Functional update so back-to-back scans do not overwrite each other
+    setCart(prev => {
+      const existingItem = prev.find(item => item.product_id === product.id)
 
-    if (existingItem) {
-      // Update quantity if already in cart
-      setCart(
-        cart.map(item =>
+      if (existingItem) {
+        // Update quantity if already in cart
+        return prev.map(item =>
           item.product_id === product.id
             ? {
                 ...item,
-                quantity: item.quantity + 1,
-                subtotal: (item.quantity + 1) * item.unit_price,
+                quantity: item.quantity + quantity,
+                subtotal: (item.quantity + quantity) * item.unit_price,
               }
             : item
         )
-      )
-    } else {
+      }
+
       // Add new item to cart
       const newItem: CartItem = {
         product_id: product.id,
         product_name: product.name,
         product_sku: product.sku,
-        quantity: 1,
-        unit_price: product.selling_price,
-        subtotal: product.selling_price,
+        quantity,
+        unit_price: unitPrice,
+        subtotal: quantity * unitPrice,
         discount_amount: 0,
         promotion_id: null,
+        tax_category: product.tax_category,
       }
-      setCart([...cart, newItem])
+      return [...prev, newItem]
+    })
+    toast.success(
+      quantity === 1
+        ? `${product.name} added to cart`
+        : `${quantity} × ${product.name} added to cart`
+    )
+  }
+
+  const handleScan = (code: string, prefix: string) => {
+    // Scanner keystrokes also land in the search box when it has focus
+    setSearchQuery(query => (query.includes(code) ? '' : query))
+
+    const match = resolveBarcode(
+      code,
+      products,
+      parseQuantityPrefix(prefix) ?? 1
+    )
+    if (!match) {
+      toast.error(`Unknown barcode: ${code}`, {
+        description: 'No product has this barcode',
+        duration: 6000,
+      })
+      return
     }
-    toast.success(`${product.name} added to cart`)
+
+    handleAddToCart(match.product, match.quantity)
   }
 
+  useBarcodeScanner(handleScan, {
+    enabled:
+      scanMode &&
+      !!currentShift &&
+      !paymentDialogOpen &&
+      !closeShiftDialogOpen &&
+      !parkedCartsOpen &&
+      !printerSettingsOpen &&
+      !cashMovementOpen &&
+      discountItemIndex === null &&
+      priceItemIndex === null &&
+      !approvalRequest,
+  })
+
   const handleUpdateQuantity = (index: number, newQuantity: number) => {
     if (newQuantity <= 0) {
       handleRemoveFromCart(index)
@@ -296,32 +927,37 @@ export default function POSPage() {
     toast.success('Item removed from cart')
   }
 
-  const handleApplyDiscount = (
-    index: number,
+  const calculateLineDiscount = (
+    item: CartItem,
     discountType: 'amount' | 'percentage',
     discountValue: number
   ) => {
-    setCart(
-      cart.map((item, i) => {
-        if (i === index) {
-          const maxDiscount = item.subtotal
-          let discountAmount = 0
-
-          if (discountType === 'amount') {
-            discountAmount = Math.min(discountValue, maxDiscount)
-          } else {
-            // percentage
-            const percentage = Math.min(Math.max(discountValue, 0), 100)
-            discountAmount = (item.subtotal * percentage) / 100
-          }
+    if (discountType === 'amount') {
+      return Math.min(discountValue, item.subtotal)
+    }
+    // percentage
+    const percentage = Math.min(Math.max(discountValue, 0), 100)
+    return (item.subtotal * percentage) / 100
+  }
 
-          return {
-            ...item,
-            discount_amount: discountAmount,
-          }
-        }
-        return item
-      })
+  const handleApplyDiscount = (
+    index: number,
+    discountAmount: number,
+    approvalId?: string
+  ) => {
+    setCart(current =>
+      current.map((item, i) =>
+        i === index
+          ? {
+              ...item,
+              discount_amount: discountAmount,
+              manual_discount: true,
+              approval_ids: approvalId
+                ? [...(item.approval_ids || []), approvalId]
+                : item.approval_ids,
+            }
+          : item
+      )
     )
     toast.success('Discount applied')
   }
@@ -346,7 +982,7 @@ export default function POSPage() {
     }
   }
 
-  const handleConfirmDiscount = () => {
+  const handleConfirmDiscount = async () => {
     if (discountItemIndex === null) return
 
     const value = parseFloat(discountValue) || 0
@@ -355,18 +991,182 @@ export default function POSPage() {
       return
     }
 
-    handleApplyDiscount(discountItemIndex, discountType, value)
+    const item = cart[discountItemIndex]
+    const discountAmount = calculateLineDiscount(item, discountType, value)
+
+    // Discounts above the policy limit need a supervisor
+    let approvalId: string | undefined
+    if (
+      discountNeedsApproval(posSettings, item.subtotal, discountAmount) &&
+      discountAmount > item.discount_amount
+    ) {
+      const approval = await requestApproval({
+        action: 'discount',
+        shift_id: currentShift?.id,
+        product_id: item.product_id,
+        original_value: item.discount_amount,
+        new_value: discountAmount,
+        description: `Discount of Rp ${discountAmount.toLocaleString('id-ID')} (${Math.round((discountAmount / item.subtotal) * 100)}%) on ${item.product_name}`,
+      })
+      if (!approval) return
+      approvalId = approval.id
+    }
+
+    handleApplyDiscount(discountItemIndex, discountAmount, approvalId)
     setDiscountItemIndex(null)
     setDiscountValue('')
   }
 
+  const handleOpenPriceDialog = (index: number) => {
+    setPriceItemIndex(index)
+    setPriceValue(cart[index].unit_price.toString())
+  }
+
+  const handleConfirmPriceOverride = async () => {
+    if (priceItemIndex === null) return
+
+    const newPrice = parseFloat(priceValue)
+    if (isNaN(newPrice) || newPrice < 0) {
+      toast.error('Please enter a valid price')
+      return
+    }
+
+    const item = cart[priceItemIndex]
+    if (newPrice === item.unit_price) {
+      setPriceItemIndex(null)
+      return
+    }
+
+    let approvalId: string | undefined
+    if (posSettings?.approval_price_override) {
+      const approval = await requestApproval({
+        action: 'price_override',
+        shift_id: currentShift?.id,
+        product_id: item.product_id,
+        original_value: item.unit_price,
+        new_value: newPrice,
+        description: `Price of ${item.product_name} from Rp ${item.unit_price.toLocaleString('id-ID')} to Rp ${newPrice.toLocaleString('id-ID')}`,
+      })
+      if (!approval) return
+      approvalId = approval.id
+    }
+
+    const index = priceItemIndex
+    setCart(current =>
+      current.map((line, i) => {
+        if (i !== index) return line
+        const subtotal = line.quantity * newPrice
+        return {
+          ...line,
+          list_price: line.list_price ?? line.unit_price,
+          unit_price: newPrice,
+          subtotal,
+          discount_amount: Math.min(line.discount_amount, subtotal),
+          approval_ids: approvalId
+            ? [...(line.approval_ids || []), approvalId]
+            : line.approval_ids,
+        }
+      })
+    )
+    setPriceItemIndex(null)
+    setPriceValue('')
+    toast.success('Price updated')
+  }
+
+  // Removing a promotion keeps it off the line; a manual discount hands the
+  // line back to the promotions
   const handleRemoveDiscount = (index: number) => {
+    const promoted = !!cart[index].promotion_id
     setCart(
       cart.map((item, i) =>
-        i === index ? { ...item, discount_amount: 0 } : item
+        i === index
+          ? { ...item, discount_amount: 0, manual_discount: promoted }
+          : item
+      )
+    )
+    toast.success(promoted ? 'Promotion removed' : 'Discount removed')
+  }
+
+  // A coupon unlocks its promotion; whether it then applies is up to the
+  // resolver, whose verdict is shown right away
+  const handleApplyCoupon = async (code: string) => {
+    const normalized = code.trim().toUpperCase()
+    if (couponCodes.includes(normalized)) {
+      toast.error('This coupon is already applied')
+      return false
+    }
+
+    let promotion = promotions.find(
+      item =>
+        item.requires_code &&
+        !item.uses_vouchers &&
+        item.code.toUpperCase() === normalized
+    )
+    let vouchers = voucherPromotions
+    if (!promotion) {
+      // Not a shared code, so perhaps one of a promotion's vouchers
+      const voucher = await getVoucherByCode(normalized).catch(() => null)
+      promotion = promotions.find(item => item.id === voucher?.promotion_id)
+      if (voucher && promotion) {
+        const status = getVoucherStatus(voucher, promotion, {
+          time_zone: companyTimeZone,
+        })
+        if (status !== 'issued') {
+          toast.error(
+            status === 'redeemed'
+              ? `Voucher ${normalized} has already been used`
+              : `Voucher ${normalized} has expired`
+          )
+          return false
+        }
+        if (
+          couponCodes.some(
+            current => vouchers[current] === voucher.promotion_id
+          )
+        ) {
+          toast.error(`A voucher for ${promotion.name} is already applied`)
+          return false
+        }
+        vouchers = { ...vouchers, [normalized]: voucher.promotion_id }
+      }
+    }
+    if (!promotion) {
+      toast.error(`Unknown coupon code: ${code}`)
+      return false
+    }
+
+    const codes = [...couponCodes, normalized]
+    const { calculations } = applyCartPromotions(
+      cartLines,
+      promotions,
+      products,
+      { ...promotionContext, coupon_codes: codes, vouchers }
+    )
+    const promotionId = promotion.id
+    const result = calculations.find(
+      calculation => calculation.promotion_id === promotionId
+    )
+    if (!result?.is_applicable) {
+      toast.error(`${promotion.name} cannot be used`, {
+        description: result?.reason || 'No item in the cart qualifies',
+      })
+      return false
+    }
+
+    setCouponCodes(codes)
+    setVoucherPromotions(vouchers)
+    toast.success(`${promotion.name} applied`)
+    return true
+  }
+
+  const handleRestorePromotions = (index: number) => {
+    setCart(
+      cart.map((item, i) =>
+        i === index
+          ? { ...item, discount_amount: 0, manual_discount: false }
+          : item
       )
     )
-    toast.success('Discount removed')
   }
 
   // Filter products based on search
@@ -378,14 +1178,64 @@ export default function POSPage() {
         product.barcode.toLowerCase().includes(searchQuery.toLowerCase()))
   )
 
-  // Calculate cart totals
-  const subtotal = cart.reduce((sum, item) => sum + item.subtotal, 0)
-  const discountAmount = cart.reduce(
-    (sum, item) => sum + item.discount_amount,
-    0
+  // Calculate cart totals with the same pricing core the API uses
+  const pricing = calculatePricing(
+    cart.map(item => ({
+      product_id: item.product_id,
+      quantity: item.quantity,
+      unit_price: item.unit_price,
+      tax_category: item.tax_category,
+      discount_amount: item.discount_amount,
+    })),
+    {
+      tax_settings: taxSettings || { ppn_rate: 0, prices_include_tax: false },
+      customer_tax_exempt: selectedCustomer?.is_tax_exempt,
+    }
   )
-  const taxAmount = (subtotal - discountAmount) * 0.1 // 10% tax
-  const total = subtotal - discountAmount + taxAmount
+  const subtotal = pricing.gross_amount
+  const discountAmount = pricing.line_discount_amount
+  const taxAmount = pricing.tax_amount
+  const total = pricing.grand_total
+
+  // The display thanks the customer until the next sale or for 10 seconds
+  useEffect(() => {
+    if (!completedSale) return
+    const timer = setTimeout(() => setCompletedSale(null), 10000)
+    return () => clearTimeout(timer)
+  }, [completedSale])
+
+  // Mirror the cart on the customer display
+  useCustomerDisplay({
+    status:
+      cart.length > 0
+        ? paymentDialogOpen || qrisSale
+          ? 'payment'
+          : 'cart'
+        : completedSale
+          ? 'complete'
+          : 'idle',
+    customer_name: selectedCustomer?.name || null,
+    lines: toCustomerDisplayLines(cart),
+    subtotal,
+    discount_amount: discountAmount,
+    tax_label: `${formatTaxLabel(pricing.tax_rate)}${
+      pricing.prices_include_tax ? ' (included)' : ''
+    }`,
+    tax_amount: taxAmount,
+    total: completedSale && cart.length === 0 ? completedSale.total : total,
+    // A gateway charge, else the static QRIS with the total filled in
+    qris_payload:
+      qrisCharge?.status === 'pending'
+        ? qrisCharge.qris_payload
+        : paymentDialogOpen &&
+            posSettings?.qris_payload &&
+            !posSettings.payment_gateway
+          ? qrisPayloadWithAmount(posSettings.qris_payload, total)
+          : null,
+    qris_amount:
+      qrisCharge?.status === 'pending' ? Number(qrisCharge.amount) : null,
+    change_amount: completedSale?.change_amount ?? null,
+  })
 
   if (loading) {
     return (
@@ -451,6 +1301,29 @@ export default function POSPage() {
             <Badge variant="secondary" className="text-xs">
               Shift #{currentShift.id.slice(0, 8)}
             </Badge>
+            {currentRegister && (
+              <Badge variant="outline" className="text-xs">
+                {currentRegister.name}
+              </Badge>
+            )}
+            {!isOnline && (
+              <Badge variant="destructive" className="text-xs">
+                <CloudOff className="mr-1 h-3 w-3" />
+                Offline
+              </Badge>
+            )}
+            {pendingSyncCount > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setOfflineQueueOpen(true)}
+              >
+                <RefreshCw
+                  className={cn('mr-2 h-4 w-4', syncing && 'animate-spin')}
+                />
+                {pendingSyncCount} pending sync
+              </Button>
+            )}
           </div>
 
           {/* Right: Cashier info & Buttons */}
@@ -460,6 +1333,57 @@ export default function POSPage() {
               <p className="font-medium">Current User</p>
             </div>
             <div className="flex gap-2">
+              <Button
+                variant={scanMode ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setScanMode(!scanMode)}
+                title="Scan barcodes anywhere on the page; type 3* before a scan for quantity 3"
+              >
+                <ScanBarcode className="mr-2 h-4 w-4" />
+                <span className="hidden sm:inline">
+                  Scanner {scanMode ? 'On' : 'Off'}
+                </span>
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setParkedCartsOpen(true)}
+                disabled={!isOnline}
+              >
+                <PauseCircle className="mr-2 h-4 w-4" />
+                <span className="hidden sm:inline">Parked</span>
+                {parkedCarts.length > 0 && (
+                  <Badge variant="secondary" className="ml-2">
+                    {parkedCarts.length}
+                  </Badge>
+                )}
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setCashMovementOpen(true)}
+                disabled={!isOnline}
+                title="Pay in or pay out cash"
+              >
+                <Wallet className="mr-2 h-4 w-4" />
+                <span className="hidden sm:inline">Cash In/Out</span>
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPrinterSettingsOpen(true)}
+                title="Receipt printer"
+              >
+                <Printer className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={openCustomerDisplayWindow}
+                title="Customer display"
+              >
+                <Monitor className="h-4 w-4" />
+              </Button>
               <Link href="/erp/pos/transactions">
                 <Button variant="outline" size="sm">
                   <History className="mr-2 h-4 w-4" />
@@ -467,7 +1391,11 @@ export default function POSPage() {
                   <span className="sm:hidden">History</span>
                 </Button>
               </Link>
-              <Button variant="outline" size="sm" onClick={handleCloseShift}>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setCloseShiftDialogOpen(true)}
+              >
                 <LogOut className="mr-2 h-4 w-4" />
                 <span className="hidden sm:inline">Close Shift</span>
                 <span className="sm:hidden">Close</span>
@@ -560,6 +1488,9 @@ export default function POSPage() {
                   <ShoppingCart className="mr-2 h-5 w-5" />
                   Shopping Cart ({cart.length} items)
                 </CardTitle>
+                {cartNotes && (
+                  <p className="text-sm text-muted-foreground">{cartNotes}</p>
+                )}
               </CardHeader>
               <CardContent>
                 {cart.length === 0 ? (
@@ -586,6 +1517,12 @@ export default function POSPage() {
                             <p className="text-xs text-muted-foreground mt-1">
                               Rp {item.unit_price.toLocaleString('id-ID')} /
                               item
+                              {item.list_price !== undefined &&
+                                item.list_price !== item.unit_price && (
+                                  <span className="ml-1 line-through">
+                                    Rp {item.list_price.toLocaleString('id-ID')}
+                                  </span>
+                                )}
                             </p>
                             {item.discount_amount > 0 && (
                               <div className="mt-2 flex items-center gap-2">
@@ -593,8 +1530,12 @@ export default function POSPage() {
                                   variant="secondary"
                                   className="text-xs bg-green-100 text-green-700"
                                 >
-                                  <Percent className="mr-1 h-3 w-3" />
-                                  Discount: -Rp{' '}
+                                  {item.promotion_id ? (
+                                    <Tag className="mr-1 h-3 w-3" />
+                                  ) : (
+                                    <Percent className="mr-1 h-3 w-3" />
+                                  )}
+                                  {item.promotion_name || 'Discount'}: -Rp{' '}
                                   {item.discount_amount.toLocaleString('id-ID')}
                                 </Badge>
                                 <Button
@@ -664,8 +1605,8 @@ export default function POSPage() {
                           </div>
                         </div>
 
-                        {/* Discount Button */}
-                        <div className="flex justify-start pt-2 border-t">
+                        {/* Discount & Price Buttons */}
+                        <div className="flex justify-start gap-2 pt-2 border-t">
                           <Button
                             size="sm"
                             variant="outline"
@@ -677,6 +1618,25 @@ export default function POSPage() {
                               ? 'Change Discount'
                               : 'Add Discount'}
                           </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="h-7 text-xs"
+                            onClick={() => handleOpenPriceDialog(index)}
+                          >
+                            <Tag className="mr-1 h-3 w-3" />
+                            Override Price
+                          </Button>
+                          {item.manual_discount && promotions.length > 0 && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-7 text-xs"
+                              onClick={() => handleRestorePromotions(index)}
+                            >
+                              Use Promotions
+                            </Button>
+                          )}
                         </div>
                       </div>
                     ))}
@@ -779,6 +1739,22 @@ export default function POSPage() {
                         Email: {selectedCustomer.email}
                       </p>
                     )}
+                    {availableCredit !== null && (
+                      <div className="flex items-center justify-between pt-1">
+                        <p className="text-muted-foreground">
+                          Available Credit: Rp{' '}
+                          {availableCredit.toLocaleString('id-ID')}
+                        </p>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setReceivableDialogOpen(true)}
+                          disabled={!currentShift}
+                        >
+                          Receive Payment
+                        </Button>
+                      </div>
+                    )}
                   </div>
                 )}
               </CardContent>
@@ -807,7 +1783,14 @@ export default function POSPage() {
                     </span>
                   </div>
                   <div className="flex justify-between">
-                    <span className="text-muted-foreground">Tax (10%)</span>
+                    <span className="text-muted-foreground">DPP</span>
+                    <span>Rp {pricing.dpp_amount.toLocaleString()}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">
+                      {formatTaxLabel(pricing.tax_rate)}
+                      {pricing.prices_include_tax && ' (included)'}
+                    </span>
                     <span>Rp {taxAmount.toLocaleString()}</span>
                   </div>
                   <div className="border-t pt-2"></div>
@@ -817,6 +1800,32 @@ export default function POSPage() {
                   </div>
                 </div>
 
+                {/* Why each promotion was applied or passed over */}
+                {promotionCalculations.length > 0 && (
+                  <div className="space-y-1 rounded-md border p-3 text-xs">
+                    <div className="flex items-center font-medium">
+                      <Tag className="mr-1 h-3 w-3" />
+                      Promotions
+                    </div>
+                    {promotionCalculations.map(calculation => (
+                      <div
+                        key={calculation.promotion_id}
+                        className={cn(
+                          'flex justify-between gap-2',
+                          !calculation.is_applicable && 'text-muted-foreground'
+                        )}
+                      >
+                        <span>{calculation.explanation}</span>
+                        {calculation.is_applicable && (
+                          <span className="shrink-0 text-green-600">
+                            - Rp {calculation.discount_amount.toLocaleString()}
+                          </span>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
                 <div className="space-y-2 pt-4">
                   <Button
                     className="w-full"
@@ -826,11 +1835,24 @@ export default function POSPage() {
                   >
                     Process Payment
                   </Button>
+                  <Button
+                    variant="outline"
+                    className="w-full"
+                    disabled={cart.length === 0 || !isOnline}
+                    onClick={() => setParkedCartsOpen(true)}
+                  >
+                    <PauseCircle className="mr-2 h-4 w-4" />
+                    Park Cart
+                  </Button>
                   <Button
                     variant="outline"
                     className="w-full"
                     disabled={cart.length === 0}
-                    onClick={() => setCart([])}
+                    onClick={() => {
+                      setCart([])
+                      setCartNotes('')
+                      setCouponCodes([])
+                    }}
                   >
                     Clear Cart
                   </Button>
@@ -848,8 +1870,77 @@ export default function POSPage() {
         totalAmount={total}
         onConfirm={handlePayment}
         loading={processingPayment}
+        availableCredit={availableCredit}
+        qrisEnabled={!!posSettings?.payment_gateway}
+        couponCodes={couponCodes}
+        onApplyCoupon={handleApplyCoupon}
+        onRemoveCoupon={code =>
+          setCouponCodes(codes => codes.filter(current => current !== code))
+        }
+      />
+
+      {/* QRIS Payment Dialog */}
+      <QrisPaymentDialog
+        open={!!qrisSale}
+        payment={qrisSale?.payment || null}
+        transactionNumber={qrisSale?.transaction.transaction_number || ''}
+        onPaid={handleQrisPaid}
+        onLeftPending={handleQrisLeftPending}
+        onChargeChange={setQrisCharge}
+      />
+
+      {/* Offline Queue Dialog */}
+      <OfflineQueueDialog
+        open={offlineQueueOpen}
+        onOpenChange={setOfflineQueueOpen}
+        transactions={offlineTransactions}
+        isOnline={isOnline}
+        syncing={syncing}
+        onSync={syncOffline}
+        onAccept={handleAcceptConflict}
+        onRemove={handleRemoveOffline}
+      />
+
+      {/* Parked Carts Dialog */}
+      <ParkedCartsDialog
+        open={parkedCartsOpen}
+        onOpenChange={setParkedCartsOpen}
+        carts={parkedCarts}
+        shiftId={currentShift.id}
+        cartItemCount={cart.length}
+        cartTotal={total}
+        cartNotes={cartNotes}
+        loading={parkingCart}
+        onPark={handleParkCart}
+        onRecall={handleRecallCart}
+        onCancel={handleCancelParkedCart}
+      />
+
+      {/* Printer Settings Dialog */}
+      <PrinterSettingsDialog
+        open={printerSettingsOpen}
+        onOpenChange={setPrinterSettingsOpen}
+      />
+
+      {/* Cash Movement Dialog */}
+      <CashMovementDialog
+        open={cashMovementOpen}
+        onOpenChange={setCashMovementOpen}
+        shiftId={currentShift.id}
+        requestApproval={requestApproval}
       />
 
+      {/* Receivable Payment Dialog */}
+      {selectedCustomer && currentShift && (
+        <ReceivablePaymentDialog
+          open={receivableDialogOpen}
+          onOpenChange={setReceivableDialogOpen}
+          customer={selectedCustomer}
+          shiftId={currentShift.id}
+          onReceived={() => loadAvailableCredit(selectedCustomer)}
+        />
+      )}
+
       {/* Close Shift Dialog */}
       <CloseShiftDialog
         open={closeShiftDialogOpen}
@@ -983,6 +2074,67 @@ export default function POSPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Price Override Dialog */}
+      <Dialog
+        open={priceItemIndex !== null}
+        onOpenChange={open => {
+          if (!open) {
+            setPriceItemIndex(null)
+            setPriceValue('')
+          }
+        }}
+      >
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Override Price</DialogTitle>
+            <DialogDescription>
+              {priceItemIndex !== null &&
+                `Change the unit price of ${cart[priceItemIndex]?.product_name}`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-2 py-4">
+            <Label htmlFor="override-price">Unit Price</Label>
+            <Input
+              id="override-price"
+              type="number"
+              min="0"
+              value={priceValue}
+              onChange={e => setPriceValue(e.target.value)}
+            />
+            {priceItemIndex !== null && (
+              <p className="text-xs text-muted-foreground">
+                Selling price: Rp{' '}
+                {(
+                  cart[priceItemIndex]?.list_price ??
+                  cart[priceItemIndex]?.unit_price
+                )?.toLocaleString('id-ID')}
+                {posSettings?.approval_price_override &&
+                  ' • Needs supervisor approval'}
+              </p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => {
+                setPriceItemIndex(null)
+                setPriceValue('')
+              }}
+            >
+              Cancel
+            </Button>
+            <Button onClick={handleConfirmPriceOverride}>Update Price</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <SupervisorApprovalDialog
+        request={approvalRequest}
+        onResolved={resolveApproval}
+      />
     </div>
   )
 }
@@ -0,0 +1,182 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, Pencil, Plus } from 'lucide-react'
+import { toast } from 'sonner'
+import { DataTableLayout } from '@/components/layouts/data-table-layout'
+import { RegisterDialog } from '@/components/pos/register-dialog'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { getRegisters, getShifts } from '@/lib/pos/api'
+import { PRINTER_TRANSPORTS } from '@/lib/pos/printer'
+import { getWarehouses } from '@/lib/inventory/api'
+import type { Warehouse } from '@/types/inventory'
+import type { PosRegisterWithRelations, PosShiftWithCashier } from '@/types/pos'
+
+export default function PosRegistersPage() {
+  const [registers, setRegisters] = useState<PosRegisterWithRelations[]>([])
+  const [openShifts, setOpenShifts] = useState<PosShiftWithCashier[]>([])
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([])
+  const [loading, setLoading] = useState(true)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editing, setEditing] = useState<PosRegisterWithRelations | null>(null)
+
+  const loadRegisters = async () => {
+    try {
+      setLoading(true)
+      const [registersData, shiftsData, warehousesData] = await Promise.all([
+        getRegisters(),
+        getShifts({ status: 'open' }),
+        getWarehouses(),
+      ])
+      setRegisters(registersData)
+      setOpenShifts(shiftsData)
+      setWarehouses(warehousesData)
+    } catch (error) {
+      console.error('Error loading registers:', error)
+      toast.error('Failed to load registers')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadRegisters()
+  }, [])
+
+  const handleCreate = () => {
+    setEditing(null)
+    setDialogOpen(true)
+  }
+
+  const handleEdit = (register: PosRegisterWithRelations) => {
+    setEditing(register)
+    setDialogOpen(true)
+  }
+
+  return (
+    <DataTableLayout
+      title="POS Registers"
+      description="Terminals, the warehouse each one sells from, and their printer and receipt defaults"
+      actions={
+        <>
+          <Link href="/erp/pos/shift">
+            <Button variant="outline" size="sm">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Shifts
+            </Button>
+          </Link>
+          <Button size="sm" onClick={handleCreate}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Register
+          </Button>
+        </>
+      }
+    >
+      {loading ? (
+        <div className="flex justify-center p-8">
+          <div className="text-muted-foreground">Loading registers...</div>
+        </div>
+      ) : registers.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center p-8 text-center">
+            <p className="text-muted-foreground">No registers yet</p>
+            <p className="text-sm text-muted-foreground">
+              Until one is added, shifts are opened on a warehouse directly
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Code</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Warehouse</TableHead>
+                  <TableHead>Printer</TableHead>
+                  <TableHead>Shift</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-[80px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {registers.map(register => {
+                  const openShift = openShifts.find(
+                    shift => shift.register_id === register.id
+                  )
+                  const transport = PRINTER_TRANSPORTS.find(
+                    t => t.value === register.printer_settings.transport
+                  )
+
+                  return (
+                    <TableRow key={register.id}>
+                      <TableCell className="font-mono">
+                        {register.code}
+                      </TableCell>
+                      <TableCell className="font-medium">
+                        {register.name}
+                      </TableCell>
+                      <TableCell>{register.warehouse?.name || '-'}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {transport?.label || 'Terminal settings'}
+                      </TableCell>
+                      <TableCell>
+                        {openShift ? (
+                          <Badge className="bg-green-600">
+                            Open
+                            {openShift.cashier &&
+                              ` • ${openShift.cashier.name}`}
+                          </Badge>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">
+                            Closed
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge
+                          variant={register.is_active ? 'default' : 'secondary'}
+                        >
+                          {register.is_active ? 'Active' : 'Inactive'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleEdit(register)}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <RegisterDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        register={editing}
+        warehouses={warehouses}
+        onSaved={() => loadRegisters()}
+      />
+    </DataTableLayout>
+  )
+}
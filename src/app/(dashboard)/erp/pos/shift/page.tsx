@@ -1,14 +1,30 @@
 'use client'
 
 import { useEffect, useState } from 'react'
-import { LogIn, LogOut, RefreshCw, Calendar, DollarSign } from 'lucide-react'
+import Link from 'next/link'
+import {
+  LogIn,
+  LogOut,
+  RefreshCw,
+  Calendar,
+  DollarSign,
+  FileText,
+  Monitor,
+  Wallet,
+} from 'lucide-react'
+import { toast } from 'sonner'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { DataTableLayout } from '@/components/layouts/data-table-layout'
 import { OpenShiftDialog } from '@/components/pos/open-shift-dialog'
 import { CloseShiftDialog } from '@/components/pos/close-shift-dialog'
-import { getShifts, getCurrentShift } from '@/lib/pos/api'
+import { CashMovementDialog } from '@/components/pos/cash-movement-dialog'
+import { SupervisorApprovalDialog } from '@/components/pos/supervisor-approval-dialog'
+import { useSupervisorApproval } from '@/hooks/use-supervisor-approval'
+import { getShifts, getCurrentShift, getShiftReport } from '@/lib/pos/api'
+import { getDocumentBranding } from '@/lib/company/api'
+import { printShiftReport } from '@/lib/pos/printer'
 import type { PosShift, PosShiftWithCashier } from '@/types/pos'
 
 export default function ShiftManagementPage() {
@@ -17,6 +33,9 @@ export default function ShiftManagementPage() {
   const [loading, setLoading] = useState(true)
   const [openShiftDialogOpen, setOpenShiftDialogOpen] = useState(false)
   const [closeShiftDialogOpen, setCloseShiftDialogOpen] = useState(false)
+  const [cashMovementOpen, setCashMovementOpen] = useState(false)
+  const [printingReport, setPrintingReport] = useState(false)
+  const { request, requestApproval, resolveApproval } = useSupervisorApproval()
 
   useEffect(() => {
     loadData()
@@ -48,6 +67,28 @@ export default function ShiftManagementPage() {
     loadData() // Reload to update shift list
   }
 
+  // Mid-shift snapshot; X-reports are printed but not stored
+  const handlePrintXReport = async () => {
+    if (!currentShift) return
+
+    try {
+      setPrintingReport(true)
+      const [report, branding] = await Promise.all([
+        getShiftReport(currentShift.id, 'X'),
+        getDocumentBranding('receipt').catch(error => {
+          console.error('Error loading receipt branding:', error)
+          return undefined
+        }),
+      ])
+      await printShiftReport(report, branding)
+    } catch (error) {
+      console.error('Error printing X-report:', error)
+      toast.error('Failed to print X-report')
+    } finally {
+      setPrintingReport(false)
+    }
+  }
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleString('id-ID', {
       day: '2-digit',
@@ -66,6 +107,14 @@ export default function ShiftManagementPage() {
     <DataTableLayout
       title="Shift Management"
       description="Manage cashier shifts and view shift history"
+      actions={
+        <Link href="/erp/pos/registers">
+          <Button variant="outline" size="sm">
+            <Monitor className="mr-2 h-4 w-4" />
+            Registers
+          </Button>
+        </Link>
+      }
     >
       <div className="space-y-6">
         {/* Current Shift Status */}
@@ -109,13 +158,30 @@ export default function ShiftManagementPage() {
                       </div>
                     </div>
                   </div>
-                  <Button
-                    variant="destructive"
-                    onClick={() => setCloseShiftDialogOpen(true)}
-                  >
-                    <LogOut className="mr-2 h-4 w-4" />
-                    Close Shift
-                  </Button>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      onClick={handlePrintXReport}
+                      disabled={printingReport}
+                    >
+                      <FileText className="mr-2 h-4 w-4" />
+                      X-Report
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => setCashMovementOpen(true)}
+                    >
+                      <Wallet className="mr-2 h-4 w-4" />
+                      Cash In/Out
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      onClick={() => setCloseShiftDialogOpen(true)}
+                    >
+                      <LogOut className="mr-2 h-4 w-4" />
+                      Close Shift
+                    </Button>
+                  </div>
                 </div>
                 {currentShift.notes && (
                   <div className="rounded-lg bg-muted p-3 text-sm">
@@ -275,6 +341,20 @@ export default function ShiftManagementPage() {
         shift={currentShift}
         onShiftClosed={handleShiftClosed}
       />
+
+      {currentShift && (
+        <CashMovementDialog
+          open={cashMovementOpen}
+          onOpenChange={setCashMovementOpen}
+          shiftId={currentShift.id}
+          requestApproval={requestApproval}
+        />
+      )}
+
+      <SupervisorApprovalDialog
+        request={request}
+        onResolved={resolveApproval}
+      />
     </DataTableLayout>
   )
 }
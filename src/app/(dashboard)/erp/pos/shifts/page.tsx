@@ -1,26 +1,71 @@
 'use client'
 
 import { useState, useEffect } from 'react'
+import { FileText, Printer } from 'lucide-react'
+import { toast } from 'sonner'
 import { DataTableLayout } from '@/components/layouts/data-table-layout'
-import { getShifts } from '@/lib/pos/api'
+import {
+  getRegisters,
+  getShiftReport,
+  getShifts,
+  getZReports,
+  issueZReport,
+} from '@/lib/pos/api'
+import { getDocumentBranding } from '@/lib/company/api'
+import { printShiftReport } from '@/lib/pos/printer'
+import { zReportToShiftReport } from '@/lib/pos/shift-report'
+import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import { formatCurrency, formatDate } from '@/lib/utils'
-import type { PosShift } from '@/types/pos'
+import type { DocumentBranding } from '@/types/company'
+import type {
+  PosRegister,
+  PosShift,
+  PosShiftWithCashier,
+  PosZReportWithRelations,
+} from '@/types/pos'
 
 export default function ShiftsPage() {
-  const [shifts, setShifts] = useState<PosShift[]>([])
+  const [shifts, setShifts] = useState<PosShiftWithCashier[]>([])
+  const [registers, setRegisters] = useState<PosRegister[]>([])
+  const [registerFilter, setRegisterFilter] = useState<string>('all')
+  const [zReports, setZReports] = useState<PosZReportWithRelations[]>([])
+  const [receiptBranding, setReceiptBranding] =
+    useState<DocumentBranding | null>(null)
   const [loading, setLoading] = useState(true)
+  const [busyShiftId, setBusyShiftId] = useState<string | null>(null)
 
   useEffect(() => {
     loadShifts()
   }, [])
 
-  const loadShifts = async () => {
+  const loadShifts = async (register_id = 'all') => {
     try {
       setLoading(true)
-      const data = await getShifts({})
+      const [data, reports, registersData, branding] = await Promise.all([
+        getShifts({
+          register_id: register_id === 'all' ? undefined : register_id,
+        }),
+        getZReports(),
+        getRegisters(),
+        // Reports fall back to the default receipt branding
+        getDocumentBranding('receipt').catch(error => {
+          console.error('Error loading receipt branding:', error)
+          return null
+        }),
+      ])
       setShifts(data)
+      setZReports(reports)
+      setRegisters(registersData)
+      setReceiptBranding(branding)
     } catch (error) {
       console.error('Error loading shifts:', error)
     } finally {
@@ -28,10 +73,86 @@ export default function ShiftsPage() {
     }
   }
 
+  const handleRegisterFilterChange = (value: string) => {
+    setRegisterFilter(value)
+    loadShifts(value)
+  }
+
+  const handlePrintZReport = async (zReport: PosZReportWithRelations) => {
+    try {
+      setBusyShiftId(zReport.shift_id)
+      await printShiftReport(
+        zReportToShiftReport(zReport),
+        receiptBranding || undefined
+      )
+    } catch (error) {
+      console.error('Error printing Z-report:', error)
+      toast.error('Failed to print Z-report')
+    } finally {
+      setBusyShiftId(null)
+    }
+  }
+
+  // For shifts closed without one, e.g. when issuing failed at close
+  const handleIssueZReport = async (shift: PosShift) => {
+    try {
+      setBusyShiftId(shift.id)
+      const zReport = await issueZReport(shift.id)
+      setZReports(current => [{ ...zReport, issuer: null }, ...current])
+      toast.success(`Z-report ${zReport.report_number} issued`)
+      await printShiftReport(
+        zReportToShiftReport(zReport),
+        receiptBranding || undefined
+      )
+    } catch (error) {
+      console.error('Error issuing Z-report:', error)
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to issue Z-report'
+      )
+    } finally {
+      setBusyShiftId(null)
+    }
+  }
+
+  const handlePrintXReport = async (shift: PosShift) => {
+    try {
+      setBusyShiftId(shift.id)
+      await printShiftReport(
+        await getShiftReport(shift.id, 'X'),
+        receiptBranding || undefined
+      )
+    } catch (error) {
+      console.error('Error printing X-report:', error)
+      toast.error('Failed to print X-report')
+    } finally {
+      setBusyShiftId(null)
+    }
+  }
+
   return (
     <DataTableLayout
       title="Shift History"
-      description="View all shift records, summaries, and variance reports"
+      description="View all shift records, X/Z-reports, and variance reports"
+      actions={
+        registers.length > 0 && (
+          <Select
+            value={registerFilter}
+            onValueChange={handleRegisterFilterChange}
+          >
+            <SelectTrigger className="w-[200px]">
+              <SelectValue placeholder="All Registers" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Registers</SelectItem>
+              {registers.map(register => (
+                <SelectItem key={register.id} value={register.id}>
+                  {register.name} ({register.code})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )
+      }
     >
       {loading ? (
         <div className="flex justify-center p-8">
@@ -45,55 +166,115 @@ export default function ShiftsPage() {
         </Card>
       ) : (
         <div className="space-y-4">
-          {shifts.map(shift => (
-            <Card key={shift.id}>
-              <CardContent className="p-6">
-                <div className="flex items-center justify-between">
-                  <div className="space-y-1">
-                    <div className="flex items-center gap-2">
-                      <span className="font-mono text-sm text-muted-foreground">
-                        {shift.id.slice(0, 8)}
-                      </span>
-                      <Badge
-                        variant={
-                          shift.status === 'open' ? 'default' : 'secondary'
-                        }
-                      >
-                        {shift.status}
-                      </Badge>
-                    </div>
-                    <div className="text-sm">
-                      Opened: {formatDate(shift.opened_at)}
-                      {shift.closed_at &&
-                        ` • Closed: ${formatDate(shift.closed_at)}`}
-                    </div>
-                    {shift.cashier_id && (
-                      <div className="text-sm text-muted-foreground">
-                        Cashier: {shift.cashier_id.slice(0, 8)}
+          {shifts.map(shift => {
+            const zReport = zReports.find(r => r.shift_id === shift.id)
+
+            return (
+              <Card key={shift.id}>
+                <CardContent className="p-6">
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-mono text-sm text-muted-foreground">
+                          {shift.id.slice(0, 8)}
+                        </span>
+                        <Badge
+                          variant={
+                            shift.status === 'open' ? 'default' : 'secondary'
+                          }
+                        >
+                          {shift.status}
+                        </Badge>
+                        {shift.register && (
+                          <Badge variant="outline">{shift.register.name}</Badge>
+                        )}
+                        {zReport && (
+                          <Badge variant="outline" className="font-mono">
+                            {zReport.report_number}
+                          </Badge>
+                        )}
+                        {shift.late_sales_count > 0 && (
+                          <Badge variant="outline">
+                            {shift.late_sales_count} synced after close
+                          </Badge>
+                        )}
+                        {shift.after_z_sales_count > 0 && (
+                          <Badge variant="destructive">
+                            {shift.after_z_sales_count} after Z-report
+                          </Badge>
+                        )}
                       </div>
-                    )}
-                  </div>
-                  <div className="text-right space-y-1">
-                    <div className="text-sm">
-                      Opening: {formatCurrency(shift.opening_cash || 0)}
+                      <div className="text-sm">
+                        Opened: {formatDate(shift.opened_at)}
+                        {shift.closed_at &&
+                          ` • Closed: ${formatDate(shift.closed_at)}`}
+                      </div>
+                      {shift.cashier_id && (
+                        <div className="text-sm text-muted-foreground">
+                          Cashier: {shift.cashier_id.slice(0, 8)}
+                        </div>
+                      )}
                     </div>
-                    {shift.closing_cash !== null && (
+                    <div className="text-right space-y-1">
                       <div className="text-sm">
-                        Closing: {formatCurrency(shift.closing_cash || 0)}
+                        Opening: {formatCurrency(shift.opening_cash || 0)}
                       </div>
-                    )}
-                    {shift.variance !== null && shift.variance !== 0 && (
-                      <div
-                        className={`text-sm font-medium ${shift.variance > 0 ? 'text-green-600' : 'text-red-600'}`}
-                      >
-                        Variance: {formatCurrency(shift.variance || 0)}
+                      {shift.closing_cash !== null && (
+                        <div className="text-sm">
+                          Closing: {formatCurrency(shift.closing_cash || 0)}
+                        </div>
+                      )}
+                      {shift.variance !== null && shift.variance !== 0 && (
+                        <div
+                          className={`text-sm font-medium ${shift.variance > 0 ? 'text-green-600' : 'text-red-600'}`}
+                        >
+                          Variance: {formatCurrency(shift.variance || 0)}
+                        </div>
+                      )}
+                      <div className="flex justify-end gap-2 pt-1">
+                        {shift.status === 'open' ? (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handlePrintXReport(shift)}
+                            disabled={busyShiftId === shift.id}
+                          >
+                            <FileText className="mr-2 h-4 w-4" />
+                            X-Report
+                          </Button>
+                        ) : zReport ? (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handlePrintZReport(zReport)}
+                            disabled={busyShiftId === shift.id}
+                          >
+                            <Printer className="mr-2 h-4 w-4" />
+                            Print Z-Report
+                          </Button>
+                        ) : (
+                          <Button
+                            size="sm"
+                            onClick={() => handleIssueZReport(shift)}
+                            disabled={busyShiftId === shift.id}
+                          >
+                            <FileText className="mr-2 h-4 w-4" />
+                            Issue Z-Report
+                          </Button>
+                        )}
                       </div>
-                    )}
+                      {zReport && (
+                        <div className="text-xs text-muted-foreground">
+                          Issued {formatDate(zReport.issued_at)}
+                          {zReport.issuer && ` by ${zReport.issuer.name}`}
+                        </div>
+                      )}
+                    </div>
                   </div>
-                </div>
-              </CardContent>
-            </Card>
-          ))}
+                </CardContent>
+              </Card>
+            )
+          })}
         </div>
       )}
     </DataTableLayout>
@@ -6,9 +6,29 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Separator } from '@/components/ui/separator'
-import { printReceiptInNewTab } from '@/lib/pos/print-utils'
-import { getTransactionById } from '@/lib/pos/api'
-import type { PosTransactionWithRelations, PaymentMethod } from '@/types/pos'
+import { printReceipt } from '@/lib/pos/printer'
+import {
+  cancelTransaction,
+  getPosSettings,
+  getTransactionApprovals,
+  getTransactionById,
+  getTransactionReturns,
+} from '@/lib/pos/api'
+import { getDocumentBranding } from '@/lib/company/api'
+import { APPROVAL_ACTION_LABELS } from '@/lib/pos/utils'
+import { ReturnDialog } from '@/components/pos/return-dialog'
+import { QrisPaymentDialog } from '@/components/pos/qris-payment-dialog'
+import { SupervisorApprovalDialog } from '@/components/pos/supervisor-approval-dialog'
+import { useSupervisorApproval } from '@/hooks/use-supervisor-approval'
+import { formatTaxLabel } from '@/lib/tax/utils'
+import type {
+  PosTransactionWithRelations,
+  PosReturnWithItems,
+  PosApprovalWithRelations,
+  PosSettings,
+  PaymentMethod,
+} from '@/types/pos'
+import type { DocumentBranding } from '@/types/company'
 import {
   ArrowLeft,
   Printer,
@@ -19,6 +39,10 @@ import {
   Receipt,
   DollarSign,
   Clock,
+  Undo2,
+  Ban,
+  ShieldCheck,
+  QrCode,
 } from 'lucide-react'
 import { toast } from 'sonner'
 
@@ -27,7 +51,16 @@ export default function TransactionDetailPage() {
   const router = useRouter()
   const [transaction, setTransaction] =
     useState<PosTransactionWithRelations | null>(null)
+  const [returns, setReturns] = useState<PosReturnWithItems[]>([])
+  const [approvals, setApprovals] = useState<PosApprovalWithRelations[]>([])
+  const [posSettings, setPosSettings] = useState<PosSettings | null>(null)
+  const [voiding, setVoiding] = useState(false)
   const [loading, setLoading] = useState(true)
+  const [showReturnDialog, setShowReturnDialog] = useState(false)
+  const [showQrisDialog, setShowQrisDialog] = useState(false)
+  const [receiptBranding, setReceiptBranding] =
+    useState<DocumentBranding | null>(null)
+  const { request, requestApproval, resolveApproval } = useSupervisorApproval()
 
   useEffect(() => {
     if (params.id) {
@@ -38,13 +71,28 @@ export default function TransactionDetailPage() {
   const loadTransaction = async (id: string) => {
     try {
       setLoading(true)
-      const data = await getTransactionById(id)
+      const [data, returnData, approvalData, settings, branding] =
+        await Promise.all([
+          getTransactionById(id),
+          getTransactionReturns(id),
+          getTransactionApprovals(id),
+          getPosSettings(),
+          // Receipts fall back to the default branding
+          getDocumentBranding('receipt').catch(error => {
+            console.error('Error loading receipt branding:', error)
+            return null
+          }),
+        ])
       if (!data) {
         toast.error('Transaction not found')
         router.push('/erp/pos/transactions')
         return
       }
       setTransaction(data)
+      setReturns(returnData)
+      setApprovals(approvalData)
+      setPosSettings(settings)
+      setReceiptBranding(branding)
     } catch (error) {
       console.error('Error loading transaction:', error)
       toast.error('Failed to load transaction')
@@ -53,14 +101,62 @@ export default function TransactionDetailPage() {
     }
   }
 
-  const handleReprint = () => {
+  const handleReprint = async () => {
     if (!transaction) return
-    printReceiptInNewTab(transaction, {
-      name: 'ERPINDO COMPANY',
-      address: 'Jl. Bisnis No. 123, Jakarta',
-      phone: '+62 21 1234 5678',
-    })
-    toast.success('Opening print preview in new tab...')
+    const transport = await printReceipt(
+      transaction,
+      receiptBranding || undefined,
+      { reprint: true }
+    )
+    toast.success(
+      transport === 'html'
+        ? 'Opening print preview in new tab...'
+        : 'Receipt sent to printer'
+    )
+  }
+
+  const handleVoid = async () => {
+    if (!transaction) return
+    if (
+      !confirm(
+        `Void transaction ${transaction.transaction_number}? Its items go back into stock.`
+      )
+    ) {
+      return
+    }
+
+    // Nothing was collected on a pending sale, so no approval is needed
+    if (posSettings?.approval_void && transaction.payment_status === 'paid') {
+      const approval = await requestApproval({
+        action: 'void',
+        transaction_id: transaction.id,
+        original_value: Number(transaction.total),
+        new_value: 0,
+        description: `Void ${transaction.transaction_number} (${formatCurrency(transaction.total)})`,
+      })
+      if (!approval) return
+    }
+
+    try {
+      setVoiding(true)
+      await cancelTransaction(transaction.id)
+      toast.success(`Transaction ${transaction.transaction_number} voided`)
+      loadTransaction(transaction.id)
+    } catch (error) {
+      console.error('Error voiding transaction:', error)
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to void transaction'
+      )
+    } finally {
+      setVoiding(false)
+    }
+  }
+
+  const handleQrisPaid = () => {
+    if (!transaction) return
+    setShowQrisDialog(false)
+    toast.success(`Transaction ${transaction.transaction_number} paid`)
+    loadTransaction(transaction.id)
   }
 
   const formatCurrency = (amount: number) => {
@@ -131,6 +227,12 @@ export default function TransactionDetailPage() {
     )
   }
 
+  // Gateway payment still to be collected on a pending sale
+  const pendingPayment =
+    transaction.payment_status === 'pending'
+      ? transaction.payments.find(payment => payment.status === 'pending')
+      : undefined
+
   return (
     <>
       <div className="container mx-auto p-6 space-y-6">
@@ -142,10 +244,39 @@ export default function TransactionDetailPage() {
               View transaction information and reprint receipt
             </p>
           </div>
-          <Button variant="outline" onClick={handleReprint}>
-            <Printer className="h-4 w-4 mr-2" />
-            Reprint Receipt
-          </Button>
+          <div className="flex gap-2">
+            {transaction.payment_status === 'paid' && (
+              <Button
+                variant="outline"
+                onClick={() => setShowReturnDialog(true)}
+              >
+                <Undo2 className="h-4 w-4 mr-2" />
+                Return Items
+              </Button>
+            )}
+            {pendingPayment && posSettings?.payment_gateway && (
+              <Button onClick={() => setShowQrisDialog(true)}>
+                <QrCode className="h-4 w-4 mr-2" />
+                Collect QRIS Payment
+              </Button>
+            )}
+            {['paid', 'pending'].includes(transaction.payment_status) &&
+              returns.length === 0 && (
+                <Button
+                  variant="outline"
+                  className="text-destructive hover:text-destructive"
+                  onClick={handleVoid}
+                  disabled={voiding}
+                >
+                  <Ban className="h-4 w-4 mr-2" />
+                  Void
+                </Button>
+              )}
+            <Button variant="outline" onClick={handleReprint}>
+              <Printer className="h-4 w-4 mr-2" />
+              Reprint Receipt
+            </Button>
+          </div>
         </div>
 
         {/* Transaction Information */}
@@ -332,12 +463,17 @@ export default function TransactionDetailPage() {
                   <span>-{formatCurrency(transaction.discount_amount)}</span>
                 </div>
               )}
-              {transaction.tax_amount > 0 && (
-                <div className="flex justify-between text-sm">
-                  <span className="text-muted-foreground">Tax (10%)</span>
-                  <span>{formatCurrency(transaction.tax_amount)}</span>
-                </div>
-              )}
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">DPP</span>
+                <span>{formatCurrency(transaction.dpp_amount)}</span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">
+                  {formatTaxLabel(transaction.tax_rate)}
+                  {transaction.prices_include_tax && ' (included)'}
+                </span>
+                <span>{formatCurrency(transaction.tax_amount)}</span>
+              </div>
               <Separator />
               <div className="flex justify-between text-lg font-bold">
                 <span className="flex items-center">
@@ -348,38 +484,154 @@ export default function TransactionDetailPage() {
               </div>
             </div>
 
-            {/* Split Payment Details */}
-            {transaction.payment_method === 'split' &&
-              transaction.payments.length > 0 && (
-                <>
-                  <Separator />
-                  <div className="space-y-2">
-                    <div className="text-sm font-medium">Payment Details</div>
-                    {transaction.payments.map(payment => (
-                      <div
-                        key={payment.id}
-                        className="flex justify-between text-sm p-2 bg-muted rounded-md"
-                      >
-                        <div>
-                          <Badge variant="outline" className="mr-2">
-                            {payment.payment_method.toUpperCase()}
+            {/* Payment Details */}
+            {transaction.payments.length > 0 && (
+              <>
+                <Separator />
+                <div className="space-y-2">
+                  <div className="text-sm font-medium">Payment Details</div>
+                  {transaction.payments.map(payment => (
+                    <div
+                      key={payment.id}
+                      className="flex justify-between text-sm p-2 bg-muted rounded-md"
+                    >
+                      <div>
+                        <Badge variant="outline" className="mr-2">
+                          {payment.payment_method.toUpperCase()}
+                        </Badge>
+                        {payment.status !== 'paid' && (
+                          <Badge variant="secondary" className="mr-2">
+                            {payment.status.toUpperCase()}
                           </Badge>
-                          {payment.reference_number && (
-                            <span className="text-xs text-muted-foreground">
-                              Ref: {payment.reference_number}
-                            </span>
-                          )}
+                        )}
+                        {payment.reference_number && (
+                          <span className="text-xs text-muted-foreground">
+                            Ref: {payment.reference_number}
+                          </span>
+                        )}
+                      </div>
+                      <span className="font-medium">
+                        {formatCurrency(payment.tendered_amount)}
+                      </span>
+                    </div>
+                  ))}
+                  {Number(transaction.change_amount) > 0 && (
+                    <div className="flex justify-between text-sm px-2">
+                      <span className="text-muted-foreground">Change</span>
+                      <span>{formatCurrency(transaction.change_amount)}</span>
+                    </div>
+                  )}
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Return History */}
+        {returns.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Undo2 className="h-5 w-5 mr-2" />
+                Return History
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {returns.map(ret => (
+                <div key={ret.id} className="border rounded-md p-4 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <div className="font-mono font-medium">
+                        {ret.return_number}
+                      </div>
+                      <div className="text-sm text-muted-foreground">
+                        {formatDate(ret.created_at)}
+                        {ret.cashier && ` • ${ret.cashier.name}`}
+                      </div>
+                    </div>
+                    <div className="text-right">
+                      <div className="font-medium text-red-600">
+                        -{formatCurrency(ret.refund_amount)}
+                      </div>
+                      {Number(ret.credited_amount) > 0 && (
+                        <div className="text-xs text-muted-foreground">
+                          {formatCurrency(ret.credited_amount)} off the invoice
                         </div>
-                        <span className="font-medium">
-                          {formatCurrency(payment.amount)}
+                      )}
+                      {getPaymentMethodBadge(ret.refund_method)}
+                    </div>
+                  </div>
+                  <div className="space-y-1">
+                    {ret.items.map(item => (
+                      <div
+                        key={item.id}
+                        className="flex justify-between text-sm"
+                      >
+                        <span>
+                          {item.product.name} × {item.quantity}
                         </span>
+                        <span>{formatCurrency(item.refund_amount)}</span>
                       </div>
                     ))}
                   </div>
-                </>
-              )}
-          </CardContent>
-        </Card>
+                  {ret.reason && (
+                    <div className="text-sm bg-muted p-2 rounded-md">
+                      {ret.reason}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Approvals */}
+        {approvals.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <ShieldCheck className="h-5 w-5 mr-2" />
+                Supervisor Approvals
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {approvals.map(approval => (
+                <div
+                  key={approval.id}
+                  className="flex items-start justify-between border rounded-md p-3 text-sm"
+                >
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline">
+                        {APPROVAL_ACTION_LABELS[approval.action]}
+                      </Badge>
+                      {approval.product && (
+                        <span className="font-medium">
+                          {approval.product.name}
+                        </span>
+                      )}
+                    </div>
+                    {approval.description && <div>{approval.description}</div>}
+                    <div className="text-muted-foreground">
+                      {formatDate(approval.approved_at)} • Approved by{' '}
+                      {approval.approver?.name || '-'} for{' '}
+                      {approval.requester?.name || '-'}
+                    </div>
+                  </div>
+                  {approval.original_value !== null &&
+                    approval.new_value !== null && (
+                      <div className="text-right whitespace-nowrap">
+                        <span className="text-muted-foreground line-through">
+                          {formatCurrency(approval.original_value)}
+                        </span>{' '}
+                        → {formatCurrency(approval.new_value)}
+                      </div>
+                    )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
 
         {/* Back Button */}
         <div className="flex justify-start">
@@ -392,6 +644,30 @@ export default function TransactionDetailPage() {
           </Button>
         </div>
       </div>
+
+      <QrisPaymentDialog
+        open={showQrisDialog}
+        payment={pendingPayment || null}
+        transactionNumber={transaction.transaction_number}
+        onPaid={handleQrisPaid}
+        onLeftPending={() => setShowQrisDialog(false)}
+      />
+
+      <ReturnDialog
+        open={showReturnDialog}
+        onOpenChange={setShowReturnDialog}
+        transaction={transaction}
+        returns={returns}
+        onReturned={() => loadTransaction(transaction.id)}
+        requestApproval={
+          posSettings?.approval_refund ? requestApproval : undefined
+        }
+      />
+
+      <SupervisorApprovalDialog
+        request={request}
+        onResolved={resolveApproval}
+      />
     </>
   )
 }
@@ -4,24 +4,49 @@ import { useState, useEffect } from 'react'
 import Link from 'next/link'
 import { ArrowLeft } from 'lucide-react'
 import { Button } from '@/components/ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import { DataTableLayout } from '@/components/layouts/data-table-layout'
 import { PosTransactionTable } from '@/components/pos/pos-transaction-table'
-import { getTransactionsWithRelations } from '@/lib/pos/api'
-import { printReceiptInNewTab } from '@/lib/pos/print-utils'
-import type { PosTransactionWithRelations } from '@/types/pos'
+import { getRegisters, getTransactionsWithRelations } from '@/lib/pos/api'
+import { printReceipt } from '@/lib/pos/printer'
+import { getDocumentBranding } from '@/lib/company/api'
+import type { DocumentBranding } from '@/types/company'
+import type { PosRegister, PosTransactionWithRelations } from '@/types/pos'
 import { toast } from 'sonner'
 
 export default function PosTransactionsPage() {
   const [transactions, setTransactions] = useState<
     PosTransactionWithRelations[]
   >([])
+  const [registers, setRegisters] = useState<PosRegister[]>([])
+  const [registerFilter, setRegisterFilter] = useState<string>('all')
   const [loading, setLoading] = useState(true)
+  const [receiptBranding, setReceiptBranding] =
+    useState<DocumentBranding | null>(null)
 
-  const loadTransactions = async () => {
+  const loadTransactions = async (register_id = 'all') => {
     try {
       setLoading(true)
-      const data = await getTransactionsWithRelations({})
+      const [data, registersData, branding] = await Promise.all([
+        getTransactionsWithRelations({
+          register_id: register_id === 'all' ? undefined : register_id,
+        }),
+        getRegisters(),
+        // Receipts fall back to the default branding
+        getDocumentBranding('receipt').catch(error => {
+          console.error('Error loading receipt branding:', error)
+          return null
+        }),
+      ])
       setTransactions(data)
+      setRegisters(registersData)
+      setReceiptBranding(branding)
     } catch (error) {
       console.error('Error loading transactions:', error)
       toast.error('Failed to load transactions')
@@ -34,14 +59,22 @@ export default function PosTransactionsPage() {
     loadTransactions()
   }, [])
 
-  const handleReprint = (transaction: PosTransactionWithRelations) => {
-    // Print directly to new tab instead of showing modal
-    printReceiptInNewTab(transaction, {
-      name: 'ERPINDO COMPANY',
-      address: 'Jl. Bisnis No. 123, Jakarta',
-      phone: '+62 21 1234 5678',
-    })
-    toast.success('Opening print preview in new tab...')
+  const handleRegisterFilterChange = (value: string) => {
+    setRegisterFilter(value)
+    loadTransactions(value)
+  }
+
+  const handleReprint = async (transaction: PosTransactionWithRelations) => {
+    const transport = await printReceipt(
+      transaction,
+      receiptBranding || undefined,
+      { reprint: true }
+    )
+    toast.success(
+      transport === 'html'
+        ? 'Opening print preview in new tab...'
+        : 'Receipt sent to printer'
+    )
   }
 
   return (
@@ -49,18 +82,38 @@ export default function PosTransactionsPage() {
       title="Transaction History"
       description="View all POS transactions and reprint receipts"
       actions={
-        <Link href="/erp/pos">
-          <Button variant="outline" size="sm">
-            <ArrowLeft className="mr-2 h-4 w-4" />
-            Back to POS
-          </Button>
-        </Link>
+        <>
+          {registers.length > 0 && (
+            <Select
+              value={registerFilter}
+              onValueChange={handleRegisterFilterChange}
+            >
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="All Registers" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Registers</SelectItem>
+                {registers.map(register => (
+                  <SelectItem key={register.id} value={register.id}>
+                    {register.name} ({register.code})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Link href="/erp/pos">
+            <Button variant="outline" size="sm">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to POS
+            </Button>
+          </Link>
+        </>
       }
     >
       <PosTransactionTable
         transactions={transactions}
         loading={loading}
-        onRefresh={loadTransactions}
+        onRefresh={() => loadTransactions(registerFilter)}
         onReprint={handleReprint}
       />
     </DataTableLayout>
@@ -56,11 +56,28 @@ export default function EditPromotionPage() {
         discount_value: data.discount_value || undefined,
         buy_quantity: data.buy_quantity || undefined,
         get_quantity: data.get_quantity || undefined,
+        get_product_id:
+          data.type === 'buy_x_get_y' ? data.get_product_id || null : null,
+        get_discount_percentage: data.get_discount_percentage,
+        tiers: data.type === 'tiered' ? data.tiers : null,
+        bundle_quantity:
+          data.type === 'bundle' ? data.bundle_quantity || null : null,
+        bundle_price:
+          data.type === 'bundle' ? (data.bundle_price ?? null) : null,
+        active_days: data.active_days.length > 0 ? data.active_days : null,
+        active_from: data.active_from || null,
+        active_until: data.active_until || null,
         start_date: data.start_date,
         end_date: data.end_date,
         min_purchase_amount: data.min_purchase_amount || undefined,
         max_discount_amount: data.max_discount_amount || undefined,
         customer_segment: data.customer_segment || undefined,
+        stackable: data.stackable,
+        exclusive_group: data.exclusive_group?.trim() || null,
+        priority: data.priority || 0,
+        requires_code: data.requires_code,
+        usage_limit: data.usage_limit || null,
+        usage_limit_per_customer: data.usage_limit_per_customer || null,
         status: data.status,
         is_active: data.is_active,
         product_ids: data.product_ids || [],
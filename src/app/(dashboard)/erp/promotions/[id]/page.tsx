@@ -11,13 +11,27 @@ import {
   ArrowLeft,
   Edit,
   Trash2,
+  Layers,
+  TicketPercent,
+  History,
+  Clock,
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { DetailLayout } from '@/components/layouts/detail-layout'
-import { getPromotionById, deletePromotion } from '@/lib/promotions/api'
-import type { Promotion } from '@/types/promotions'
+import { PromotionRedemptions } from '@/components/promotions/promotion-redemptions'
+import { PromotionVouchers } from '@/components/promotions/promotion-vouchers'
+import {
+  getPromotionById,
+  deletePromotion,
+  getPromotionStatusLogs,
+} from '@/lib/promotions/api'
+import {
+  formatPromotionDescription,
+  formatPromotionWindow,
+} from '@/lib/promotions/utils'
+import type { Promotion, PromotionStatusLogWithUser } from '@/types/promotions'
 
 export default function PromotionDetailPage() {
   const router = useRouter()
@@ -27,6 +41,10 @@ export default function PromotionDetailPage() {
   const [promotion, setPromotion] = useState<Promotion | null>(null)
   const [loading, setLoading] = useState(true)
   const [deleting, setDeleting] = useState(false)
+  const [statusLogs, setStatusLogs] = useState<PromotionStatusLogWithUser[]>([])
+  const [view, setView] = useState<'details' | 'redemptions' | 'vouchers'>(
+    'details'
+  )
 
   useEffect(() => {
     const loadPromotion = async () => {
@@ -46,6 +64,9 @@ export default function PromotionDetailPage() {
 
     if (promotionId) {
       loadPromotion()
+      getPromotionStatusLogs(promotionId)
+        .then(setStatusLogs)
+        .catch(error => console.error('Error loading status history:', error))
     }
   }, [promotionId, router])
 
@@ -72,20 +93,16 @@ export default function PromotionDetailPage() {
   const getStatusBadge = () => {
     if (!promotion) return null
 
-    const now = new Date()
-    const startDate = new Date(promotion.start_date)
-    const endDate = new Date(promotion.end_date)
-
     if (promotion.status === 'cancelled') {
       return <Badge variant="secondary">Cancelled</Badge>
     }
     if (promotion.status === 'draft') {
       return <Badge variant="outline">Draft</Badge>
     }
-    if (now < startDate) {
+    if (promotion.status === 'scheduled') {
       return <Badge className="bg-blue-500">Scheduled</Badge>
     }
-    if (now > endDate) {
+    if (promotion.status === 'expired') {
       return <Badge variant="destructive">Expired</Badge>
     }
     if (promotion.is_active) {
@@ -104,8 +121,13 @@ export default function PromotionDetailPage() {
     if (promotion.type === 'fixed') {
       return `Rp ${promotion.discount_value?.toLocaleString()}`
     }
-    if (promotion.type === 'buy_x_get_y') {
-      return `Buy ${promotion.buy_quantity} Get ${promotion.get_quantity}`
+    if (
+      promotion.type === 'buy_x_get_y' ||
+      promotion.type === 'tiered' ||
+      promotion.type === 'bundle' ||
+      promotion.type === 'cheapest_free'
+    ) {
+      return formatPromotionDescription(promotion)
     }
     return '-'
   }
@@ -153,172 +175,347 @@ export default function PromotionDetailPage() {
       }
     >
       <div className="space-y-6">
-        {/* Basic Information */}
-        <Card>
-          <CardHeader>
-            <CardTitle>Basic Information</CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <div className="grid gap-4 md:grid-cols-2">
-              <div className="flex items-start gap-3">
-                <Tag className="mt-1 h-5 w-5 text-muted-foreground" />
-                <div>
-                  <p className="text-sm font-medium text-muted-foreground">
-                    Promotion Code
-                  </p>
-                  <p className="text-base font-semibold">{promotion.code}</p>
-                </div>
-              </div>
+        <div className="flex gap-2 border-b pb-4">
+          <Button
+            variant={view === 'details' ? 'default' : 'ghost'}
+            onClick={() => setView('details')}
+          >
+            Details
+          </Button>
+          <Button
+            variant={view === 'redemptions' ? 'default' : 'ghost'}
+            onClick={() => setView('redemptions')}
+          >
+            Redemptions
+          </Button>
+          <Button
+            variant={view === 'vouchers' ? 'default' : 'ghost'}
+            onClick={() => setView('vouchers')}
+          >
+            Vouchers
+          </Button>
+        </div>
 
-              <div className="flex items-start gap-3">
-                <Tag className="mt-1 h-5 w-5 text-muted-foreground" />
-                <div>
-                  <p className="text-sm font-medium text-muted-foreground">
-                    Status
-                  </p>
-                  <div className="mt-1">{getStatusBadge()}</div>
-                </div>
-              </div>
+        {view === 'redemptions' ? (
+          <PromotionRedemptions promotion={promotion} />
+        ) : view === 'vouchers' ? (
+          <PromotionVouchers
+            promotion={promotion}
+            onGenerated={() =>
+              getPromotionById(promotion.id)
+                .then(setPromotion)
+                .catch(error =>
+                  console.error('Error reloading promotion:', error)
+                )
+            }
+          />
+        ) : (
+          <>
+            {/* Basic Information */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Basic Information</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div className="flex items-start gap-3">
+                    <Tag className="mt-1 h-5 w-5 text-muted-foreground" />
+                    <div>
+                      <p className="text-sm font-medium text-muted-foreground">
+                        Promotion Code
+                      </p>
+                      <p className="text-base font-semibold">
+                        {promotion.code}
+                      </p>
+                    </div>
+                  </div>
 
-              <div className="flex items-start gap-3">
-                <DollarSign className="mt-1 h-5 w-5 text-muted-foreground" />
-                <div>
-                  <p className="text-sm font-medium text-muted-foreground">
-                    Promotion Type
-                  </p>
-                  <p className="text-base font-semibold capitalize">
-                    {promotion.type.replace('_', ' ')}
-                  </p>
-                </div>
-              </div>
+                  <div className="flex items-start gap-3">
+                    <Tag className="mt-1 h-5 w-5 text-muted-foreground" />
+                    <div>
+                      <p className="text-sm font-medium text-muted-foreground">
+                        Status
+                      </p>
+                      <div className="mt-1">{getStatusBadge()}</div>
+                    </div>
+                  </div>
+
+                  <div className="flex items-start gap-3">
+                    <DollarSign className="mt-1 h-5 w-5 text-muted-foreground" />
+                    <div>
+                      <p className="text-sm font-medium text-muted-foreground">
+                        Promotion Type
+                      </p>
+                      <p className="text-base font-semibold capitalize">
+                        {promotion.type.replace('_', ' ')}
+                      </p>
+                    </div>
+                  </div>
 
-              <div className="flex items-start gap-3">
-                <DollarSign className="mt-1 h-5 w-5 text-muted-foreground" />
-                <div>
-                  <p className="text-sm font-medium text-muted-foreground">
-                    Discount Value
-                  </p>
-                  <p className="text-base font-semibold">{formatDiscount()}</p>
+                  <div className="flex items-start gap-3">
+                    <DollarSign className="mt-1 h-5 w-5 text-muted-foreground" />
+                    <div>
+                      <p className="text-sm font-medium text-muted-foreground">
+                        Discount Value
+                      </p>
+                      <p className="text-base font-semibold">
+                        {formatDiscount()}
+                      </p>
+                    </div>
+                  </div>
                 </div>
-              </div>
-            </div>
 
-            {promotion.description && (
-              <div>
-                <p className="text-sm font-medium text-muted-foreground">
-                  Description
-                </p>
-                <p className="mt-1 text-base">{promotion.description}</p>
-              </div>
-            )}
-          </CardContent>
-        </Card>
+                {promotion.description && (
+                  <div>
+                    <p className="text-sm font-medium text-muted-foreground">
+                      Description
+                    </p>
+                    <p className="mt-1 text-base">{promotion.description}</p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
 
-        {/* Validity Period */}
-        <Card>
-          <CardHeader>
-            <CardTitle>Validity Period</CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <div className="grid gap-4 md:grid-cols-2">
-              <div className="flex items-start gap-3">
-                <Calendar className="mt-1 h-5 w-5 text-muted-foreground" />
-                <div>
-                  <p className="text-sm font-medium text-muted-foreground">
-                    Start Date
-                  </p>
-                  <p className="text-base font-semibold">
-                    {new Date(promotion.start_date).toLocaleDateString(
-                      'en-US',
-                      {
-                        month: 'long',
-                        day: 'numeric',
-                        year: 'numeric',
-                      }
-                    )}
-                  </p>
-                </div>
-              </div>
+            {/* Validity Period */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Validity Period</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div className="flex items-start gap-3">
+                    <Calendar className="mt-1 h-5 w-5 text-muted-foreground" />
+                    <div>
+                      <p className="text-sm font-medium text-muted-foreground">
+                        Start Date
+                      </p>
+                      <p className="text-base font-semibold">
+                        {new Date(promotion.start_date).toLocaleDateString(
+                          'en-US',
+                          {
+                            month: 'long',
+                            day: 'numeric',
+                            year: 'numeric',
+                          }
+                        )}
+                      </p>
+                    </div>
+                  </div>
+
+                  <div className="flex items-start gap-3">
+                    <Calendar className="mt-1 h-5 w-5 text-muted-foreground" />
+                    <div>
+                      <p className="text-sm font-medium text-muted-foreground">
+                        End Date
+                      </p>
+                      <p className="text-base font-semibold">
+                        {new Date(promotion.end_date).toLocaleDateString(
+                          'en-US',
+                          {
+                            month: 'long',
+                            day: 'numeric',
+                            year: 'numeric',
+                          }
+                        )}
+                      </p>
+                    </div>
+                  </div>
 
-              <div className="flex items-start gap-3">
-                <Calendar className="mt-1 h-5 w-5 text-muted-foreground" />
-                <div>
-                  <p className="text-sm font-medium text-muted-foreground">
-                    End Date
-                  </p>
-                  <p className="text-base font-semibold">
-                    {new Date(promotion.end_date).toLocaleDateString('en-US', {
-                      month: 'long',
-                      day: 'numeric',
-                      year: 'numeric',
-                    })}
-                  </p>
+                  <div className="flex items-start gap-3">
+                    <Clock className="mt-1 h-5 w-5 text-muted-foreground" />
+                    <div>
+                      <p className="text-sm font-medium text-muted-foreground">
+                        Active Hours
+                      </p>
+                      <p className="text-base font-semibold">
+                        {formatPromotionWindow(promotion) ||
+                          'All day, every day'}
+                      </p>
+                    </div>
+                  </div>
                 </div>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
+              </CardContent>
+            </Card>
 
-        {/* Purchase Rules */}
-        {(promotion.min_purchase_amount || promotion.max_discount_amount) && (
-          <Card>
-            <CardHeader>
-              <CardTitle>Purchase Rules</CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="grid gap-4 md:grid-cols-2">
-                {promotion.min_purchase_amount && (
+            {/* Purchase Rules */}
+            {(promotion.min_purchase_amount ||
+              promotion.max_discount_amount) && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Purchase Rules</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid gap-4 md:grid-cols-2">
+                    {promotion.min_purchase_amount && (
+                      <div className="flex items-start gap-3">
+                        <DollarSign className="mt-1 h-5 w-5 text-muted-foreground" />
+                        <div>
+                          <p className="text-sm font-medium text-muted-foreground">
+                            Minimum Purchase
+                          </p>
+                          <p className="text-base font-semibold">
+                            Rp {promotion.min_purchase_amount.toLocaleString()}
+                          </p>
+                        </div>
+                      </div>
+                    )}
+
+                    {promotion.max_discount_amount && (
+                      <div className="flex items-start gap-3">
+                        <DollarSign className="mt-1 h-5 w-5 text-muted-foreground" />
+                        <div>
+                          <p className="text-sm font-medium text-muted-foreground">
+                            Maximum Discount Cap
+                          </p>
+                          <p className="text-base font-semibold">
+                            Rp {promotion.max_discount_amount.toLocaleString()}
+                          </p>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Customer Segment */}
+            {promotion.customer_segment && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Customer Targeting</CardTitle>
+                </CardHeader>
+                <CardContent>
                   <div className="flex items-start gap-3">
-                    <DollarSign className="mt-1 h-5 w-5 text-muted-foreground" />
+                    <Users className="mt-1 h-5 w-5 text-muted-foreground" />
                     <div>
                       <p className="text-sm font-medium text-muted-foreground">
-                        Minimum Purchase
+                        Customer Segment
                       </p>
                       <p className="text-base font-semibold">
-                        Rp {promotion.min_purchase_amount.toLocaleString()}
+                        {promotion.customer_segment}
                       </p>
                     </div>
                   </div>
-                )}
+                </CardContent>
+              </Card>
+            )}
 
-                {promotion.max_discount_amount && (
+            {/* Stacking */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Stacking</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid gap-4 md:grid-cols-3">
                   <div className="flex items-start gap-3">
-                    <DollarSign className="mt-1 h-5 w-5 text-muted-foreground" />
+                    <Layers className="mt-1 h-5 w-5 text-muted-foreground" />
                     <div>
                       <p className="text-sm font-medium text-muted-foreground">
-                        Maximum Discount Cap
+                        Stackable
                       </p>
                       <p className="text-base font-semibold">
-                        Rp {promotion.max_discount_amount.toLocaleString()}
+                        {promotion.stackable ? 'Yes' : 'No'}
                       </p>
                     </div>
                   </div>
-                )}
-              </div>
-            </CardContent>
-          </Card>
-        )}
+                  <div>
+                    <p className="text-sm font-medium text-muted-foreground">
+                      Exclusive Group
+                    </p>
+                    <p className="text-base font-semibold">
+                      {promotion.exclusive_group || '-'}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium text-muted-foreground">
+                      Priority
+                    </p>
+                    <p className="text-base font-semibold">
+                      {promotion.priority ?? 0}
+                    </p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
 
-        {/* Customer Segment */}
-        {promotion.customer_segment && (
-          <Card>
-            <CardHeader>
-              <CardTitle>Customer Targeting</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="flex items-start gap-3">
-                <Users className="mt-1 h-5 w-5 text-muted-foreground" />
-                <div>
-                  <p className="text-sm font-medium text-muted-foreground">
-                    Customer Segment
-                  </p>
-                  <p className="text-base font-semibold">
-                    {promotion.customer_segment}
-                  </p>
+            {/* Usage & Coupons */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Usage & Coupons</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid gap-4 md:grid-cols-3">
+                  <div className="flex items-start gap-3">
+                    <TicketPercent className="mt-1 h-5 w-5 text-muted-foreground" />
+                    <div>
+                      <p className="text-sm font-medium text-muted-foreground">
+                        Requires Coupon Code
+                      </p>
+                      <p className="text-base font-semibold">
+                        {promotion.uses_vouchers
+                          ? 'Single-use vouchers'
+                          : promotion.requires_code
+                            ? 'Yes'
+                            : 'No'}
+                      </p>
+                    </div>
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium text-muted-foreground">
+                      Total Usage Limit
+                    </p>
+                    <p className="text-base font-semibold">
+                      {promotion.usage_limit ?? 'Unlimited'}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium text-muted-foreground">
+                      Limit per Customer
+                    </p>
+                    <p className="text-base font-semibold">
+                      {promotion.usage_limit_per_customer ?? 'Unlimited'}
+                    </p>
+                  </div>
                 </div>
-              </div>
-            </CardContent>
-          </Card>
+              </CardContent>
+            </Card>
+
+            {/* Status History */}
+            {statusLogs.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Status History</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-3">
+                    {statusLogs.map(log => (
+                      <div
+                        key={log.id}
+                        className="flex items-start justify-between gap-4 text-sm"
+                      >
+                        <div className="flex items-start gap-3">
+                          <History className="mt-0.5 h-4 w-4 text-muted-foreground" />
+                          <div>
+                            <p className="font-medium">
+                              {log.from_status
+                                ? `${log.from_status} → ${log.to_status}`
+                                : `Created as ${log.to_status}`}
+                            </p>
+                            <p className="text-muted-foreground">
+                              {log.user?.name || 'Scheduler'}
+                            </p>
+                          </div>
+                        </div>
+                        <span className="text-muted-foreground">
+                          {new Date(log.changed_at).toLocaleString('id-ID')}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </>
         )}
 
         {/* Back Button */}
@@ -0,0 +1,217 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { CheckCircle2, ShoppingCart, Tag } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { QrCode } from '@/components/pos/qr-code'
+import { getPromotions } from '@/lib/promotions/api'
+import { getDocumentBranding } from '@/lib/company/api'
+import { formatPromotionSummary } from '@/lib/promotions/utils'
+import {
+  IDLE_CUSTOMER_DISPLAY,
+  openCustomerDisplayChannel,
+} from '@/lib/pos/customer-display'
+import { formatCurrency, formatDate } from '@/lib/utils'
+import type { Promotion } from '@/types/promotions'
+import type { CustomerDisplayState } from '@/types/pos'
+
+// Seconds each promotion stays on the idle slideshow
+const SLIDE_SECONDS = 8
+
+/**
+ * Customer Display
+ * Opened from the POS on the customer-facing monitor. Mirrors the cashier's
+ * cart and shows the QRIS code at checkout; between sales it cycles through
+ * the active promotions.
+ */
+export default function CustomerDisplayPage() {
+  const [state, setState] = useState<CustomerDisplayState>(
+    IDLE_CUSTOMER_DISPLAY
+  )
+  const [promotions, setPromotions] = useState<Promotion[]>([])
+  const [slide, setSlide] = useState(0)
+  const [companyName, setCompanyName] = useState<string>('')
+
+  // Follow the cashier's tab, asking for its cart in case a sale is under way
+  useEffect(() => {
+    const channel = openCustomerDisplayChannel(message => {
+      if (message.type === 'state') setState(message.state)
+    })
+    channel?.post({ type: 'request_state' })
+
+    return () => channel?.close()
+  }, [])
+
+  useEffect(() => {
+    getPromotions({ status: 'active' })
+      .then(setPromotions)
+      .catch(error => console.error('Error loading promotions:', error))
+    getDocumentBranding('receipt')
+      .then(branding => setCompanyName(branding.company.name))
+      .catch(error => console.error('Error loading branding:', error))
+  }, [])
+
+  const idle = state.status === 'idle'
+
+  useEffect(() => {
+    if (!idle || promotions.length < 2) return
+
+    const timer = setInterval(
+      () => setSlide(current => (current + 1) % promotions.length),
+      SLIDE_SECONDS * 1000
+    )
+    return () => clearInterval(timer)
+  }, [idle, promotions.length])
+
+  if (state.status === 'complete') {
+    return (
+      <div className="flex h-screen flex-col items-center justify-center gap-6 bg-background p-8 text-center">
+        <CheckCircle2 className="h-24 w-24 text-green-600" />
+        <h1 className="text-5xl font-bold">Thank you!</h1>
+        <div className="text-2xl text-muted-foreground">
+          Total paid {formatCurrency(state.total)}
+        </div>
+        {state.change_amount !== null && state.change_amount > 0 && (
+          <div className="text-4xl font-semibold">
+            Change {formatCurrency(state.change_amount)}
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  if (idle) {
+    const promotion = promotions[slide % Math.max(promotions.length, 1)]
+
+    return (
+      <div className="flex h-screen flex-col items-center justify-center gap-8 bg-muted/20 p-12 text-center">
+        <h1 className="text-4xl font-bold">
+          {companyName ? `Welcome to ${companyName}` : 'Welcome'}
+        </h1>
+        {promotion ? (
+          <div className="w-full max-w-3xl space-y-4 rounded-2xl border bg-card p-12 shadow-sm">
+            <Tag className="mx-auto h-12 w-12 text-primary" />
+            <div className="text-5xl font-bold">{promotion.name}</div>
+            <div className="text-3xl text-primary">
+              {formatPromotionSummary(promotion)}
+            </div>
+            {promotion.description && (
+              <p className="text-xl text-muted-foreground">
+                {promotion.description}
+              </p>
+            )}
+            {Number(promotion.min_purchase_amount) > 0 && (
+              <p className="text-lg text-muted-foreground">
+                Min. purchase{' '}
+                {formatCurrency(Number(promotion.min_purchase_amount))}
+              </p>
+            )}
+            <p className="text-sm text-muted-foreground">
+              Valid until {formatDate(promotion.end_date)}
+            </p>
+          </div>
+        ) : (
+          <ShoppingCart className="h-24 w-24 text-muted-foreground" />
+        )}
+        {promotions.length > 1 && (
+          <div className="flex gap-2">
+            {promotions.map((item, index) => (
+              <span
+                key={item.id}
+                className={`h-2 w-8 rounded-full ${index === slide % promotions.length ? 'bg-primary' : 'bg-muted-foreground/30'}`}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="grid h-screen grid-cols-1 bg-background lg:grid-cols-[3fr_2fr]">
+      {/* Cart lines */}
+      <div className="flex flex-col overflow-hidden border-r">
+        <div className="border-b px-8 py-6">
+          <h1 className="text-3xl font-bold">{companyName || 'Your Order'}</h1>
+          {state.customer_name && (
+            <p className="text-lg text-muted-foreground">
+              {state.customer_name}
+            </p>
+          )}
+        </div>
+        <div className="flex-1 divide-y overflow-y-auto px-8">
+          {state.lines.map((line, index) => (
+            <div
+              key={`${line.name}-${index}`}
+              className="flex items-start justify-between gap-4 py-4"
+            >
+              <div className="space-y-1">
+                <div className="text-xl font-medium">{line.name}</div>
+                <div className="text-muted-foreground">
+                  {line.quantity} x {formatCurrency(line.unit_price)}
+                </div>
+                {line.discount_amount > 0 && (
+                  <Badge variant="secondary" className="text-sm">
+                    <Tag className="mr-1 h-3 w-3" />
+                    {line.promotion_name || 'Discount'} -
+                    {formatCurrency(line.discount_amount)}
+                  </Badge>
+                )}
+              </div>
+              <div className="text-xl font-semibold">
+                {formatCurrency(line.subtotal)}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Totals and payment */}
+      <div className="flex flex-col justify-between gap-6 bg-muted/30 p-8">
+        <div className="space-y-3 text-xl">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Subtotal</span>
+            <span>{formatCurrency(state.subtotal)}</span>
+          </div>
+          {state.discount_amount > 0 && (
+            <div className="flex justify-between text-green-600">
+              <span>Discount</span>
+              <span>-{formatCurrency(state.discount_amount)}</span>
+            </div>
+          )}
+          {state.tax_amount > 0 && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">{state.tax_label}</span>
+              <span>{formatCurrency(state.tax_amount)}</span>
+            </div>
+          )}
+          <div className="flex justify-between border-t pt-4 text-4xl font-bold">
+            <span>Total</span>
+            <span>{formatCurrency(state.total)}</span>
+          </div>
+        </div>
+
+        {state.status === 'payment' && (
+          <div className="space-y-4 rounded-2xl border bg-card p-6 text-center">
+            {state.qris_payload ? (
+              <>
+                <div className="text-2xl font-semibold">Scan to pay (QRIS)</div>
+                <QrCode
+                  value={state.qris_payload}
+                  className="mx-auto aspect-square w-full max-w-[320px]"
+                />
+                <div className="text-3xl font-bold">
+                  {formatCurrency(state.qris_amount ?? state.total)}
+                </div>
+              </>
+            ) : (
+              <div className="text-2xl font-semibold">
+                Please pay {formatCurrency(state.total)}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,19 @@
+import type { Metadata } from 'next'
+import { SimpleAuthGuard } from '@/components/auth/auth-guard'
+
+export const metadata: Metadata = {
+  title: 'Customer Display - ERPindo',
+  description: 'Customer-facing POS display',
+}
+
+/**
+ * Full-screen pages without the dashboard sidebar, e.g. the customer
+ * display on a second monitor
+ */
+export default function DisplayLayout({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  return <SimpleAuthGuard>{children}</SimpleAuthGuard>
+}
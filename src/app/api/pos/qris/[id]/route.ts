@@ -0,0 +1,67 @@
+import { NextRequest } from 'next/server'
+import { getRequestUser } from '@/lib/auth/server'
+import { createServiceSupabase } from '@/lib/supabase/client'
+import {
+  cancelQrisCharge,
+  getCompanyQrisCharge,
+  refreshQrisCharge,
+} from '@/lib/pos/qris-charges'
+
+// Polled by the POS while the customer pays; each poll also asks the
+// gateway, so settlement is detected even without a webhook
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return Response.json({ error: 'Not authenticated' }, { status: 401 })
+  }
+
+  const { id } = await params
+  const supabase = createServiceSupabase()
+
+  try {
+    const charge = await getCompanyQrisCharge(supabase, user.company_id, id)
+    if (!charge) {
+      return Response.json({ error: 'QRIS charge not found' }, { status: 404 })
+    }
+
+    return Response.json({ charge: await refreshQrisCharge(supabase, charge) })
+  } catch (error) {
+    console.error('Error checking QRIS charge:', error)
+    return Response.json(
+      { error: 'Failed to check QRIS charge' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return Response.json({ error: 'Not authenticated' }, { status: 401 })
+  }
+
+  const { id } = await params
+  const supabase = createServiceSupabase()
+
+  try {
+    const charge = await getCompanyQrisCharge(supabase, user.company_id, id)
+    if (!charge) {
+      return Response.json({ error: 'QRIS charge not found' }, { status: 404 })
+    }
+
+    return Response.json({ charge: await cancelQrisCharge(supabase, charge) })
+  } catch (error) {
+    console.error('Error cancelling QRIS charge:', error)
+    return Response.json(
+      { error: 'Failed to cancel QRIS charge' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest } from 'next/server'
+import { getRequestUser } from '@/lib/auth/server'
+import { createServiceSupabase } from '@/lib/supabase/client'
+import { openQrisCharge } from '@/lib/pos/qris-charges'
+
+// Gateway charges are opened here so gateway credentials never reach the
+// browser
+
+export async function POST(request: NextRequest) {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return Response.json({ error: 'Not authenticated' }, { status: 401 })
+  }
+
+  let paymentId: string
+  try {
+    const body = await request.json()
+    paymentId = body.payment_id
+    if (!paymentId) {
+      return Response.json({ error: 'Payment is required' }, { status: 400 })
+    }
+  } catch {
+    return Response.json({ error: 'Invalid request body' }, { status: 400 })
+  }
+
+  try {
+    const charge = await openQrisCharge(
+      createServiceSupabase(),
+      user.company_id,
+      user.id,
+      paymentId
+    )
+    return Response.json({ charge })
+  } catch (error) {
+    console.error('Error opening QRIS charge:', error)
+    return Response.json(
+      {
+        error:
+          error instanceof Error ? error.message : 'Failed to open QRIS charge',
+      },
+      { status: 400 }
+    )
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest } from 'next/server'
+import { createServiceSupabase } from '@/lib/supabase/client'
+import {
+  applyGatewayNotification,
+  getPaymentGateway,
+} from '@/lib/pos/qris-charges'
+
+// Gateways push settlements here; each adapter verifies its own calls
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ gateway: string }> }
+) {
+  const { gateway: gatewayId } = await params
+  const gateway = getPaymentGateway(gatewayId)
+  if (!gateway) {
+    return Response.json({ error: 'Unknown gateway' }, { status: 404 })
+  }
+
+  const notification = await gateway.parseWebhook(request)
+  if (!notification) {
+    return Response.json({ error: 'Invalid notification' }, { status: 401 })
+  }
+
+  try {
+    const charge = await applyGatewayNotification(
+      createServiceSupabase(),
+      gateway.id,
+      notification
+    )
+    if (!charge) {
+      return Response.json({ error: 'QRIS charge not found' }, { status: 404 })
+    }
+
+    return Response.json({ status: charge.status })
+  } catch (error) {
+    console.error('Error applying gateway notification:', error)
+    return Response.json(
+      { error: 'Failed to apply notification' },
+      { status: 500 }
+    )
+  }
+}
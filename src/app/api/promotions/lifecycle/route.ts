@@ -0,0 +1,42 @@
+import { NextRequest } from 'next/server'
+import { getRequestUser } from '@/lib/auth/server'
+import { createServiceSupabase } from '@/lib/supabase/client'
+import { syncPromotionStatuses } from '@/lib/promotions/lifecycle'
+
+// Promotion status scheduler. A cron calls it with CRON_SECRET as its bearer
+// token to update every company, e.g. every 15 minutes:
+//   curl -X POST -H "Authorization: Bearer $CRON_SECRET" \
+//     http://localhost:3000/api/promotions/lifecycle
+// Signed-in users may run it for their own company.
+
+async function handleSync(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET
+  const token = request.headers.get('authorization')?.replace(/^Bearer /, '')
+
+  let companyId: string | null = null
+  if (!cronSecret || token !== cronSecret) {
+    const user = await getRequestUser(request)
+    if (!user) {
+      return Response.json({ error: 'Not authenticated' }, { status: 401 })
+    }
+    companyId = user.company_id
+  }
+
+  try {
+    const result = await syncPromotionStatuses(
+      createServiceSupabase(),
+      companyId
+    )
+    return Response.json(result)
+  } catch (error) {
+    console.error('Error syncing promotion statuses:', error)
+    return Response.json(
+      { error: 'Failed to sync promotion statuses' },
+      { status: 500 }
+    )
+  }
+}
+
+// Vercel Cron sends GET requests
+export const GET = handleSync
+export const POST = handleSync
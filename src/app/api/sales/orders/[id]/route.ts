@@ -0,0 +1,245 @@
+import { NextRequest } from 'next/server'
+import { getRequestUser } from '@/lib/auth/server'
+import { createServiceSupabase } from '@/lib/supabase/client'
+import {
+  findDiscountsOverLimit,
+  findSalesOrderMismatches,
+  getSalesDiscountLimit,
+  priceSalesOrder,
+} from '@/lib/sales/pricing'
+import type { RedemptionInput } from '@/types/promotions'
+import type {
+  CreateSalesOrderItemInput,
+  OrderStatus,
+  SalesOrder,
+  UpdateSalesOrderInput,
+} from '@/types/sales'
+
+// Fields whose change reprices the order
+const PRICING_FIELDS = [
+  'customer_id',
+  'coupon_code',
+  'subtotal',
+  'discount_amount',
+  'tax_amount',
+  'shipping_amount',
+  'grand_total',
+] as const
+
+// Only orders not yet in fulfilment are edited; later statuses are set by
+// the order's status actions
+const EDITABLE_STATUSES: OrderStatus[] = ['draft', 'confirmed']
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return Response.json({ error: 'Not authenticated' }, { status: 401 })
+  }
+
+  const { id } = await params
+  const supabase = createServiceSupabase()
+
+  let input: UpdateSalesOrderInput
+  try {
+    input = await request.json()
+  } catch {
+    return Response.json({ error: 'Invalid request body' }, { status: 400 })
+  }
+
+  const { data: existing, error: existingError } = await supabase
+    .from('sales_orders')
+    .select('*')
+    .eq('id', id)
+    .eq('company_id', user.company_id)
+    .maybeSingle()
+    .overrideTypes<SalesOrder, { merge: false }>()
+
+  if (existingError) {
+    console.error('Error fetching sales order:', existingError)
+    return Response.json({ error: 'Failed to fetch order' }, { status: 500 })
+  }
+  const current = existing
+  if (!current) {
+    return Response.json({ error: 'Order not found' }, { status: 404 })
+  }
+
+  if (!EDITABLE_STATUSES.includes(current.status)) {
+    return Response.json(
+      { error: `A ${current.status} order can no longer be edited` },
+      { status: 409 }
+    )
+  }
+  if (input.status !== undefined && !EDITABLE_STATUSES.includes(input.status)) {
+    return Response.json(
+      { error: 'An edited order stays draft or confirmed' },
+      { status: 400 }
+    )
+  }
+
+  const {
+    items: inputItems,
+    subtotal,
+    discount_amount,
+    tax_amount,
+    shipping_amount,
+    grand_total,
+  } = input
+  // Only these columns are taken from the request; amounts come from pricing
+  const details: Record<string, unknown> = Object.fromEntries(
+    Object.entries({
+      customer_id: input.customer_id,
+      salesman_id: input.salesman_id,
+      order_date: input.order_date,
+      status: input.status,
+      coupon_code:
+        input.coupon_code === undefined
+          ? undefined
+          : input.coupon_code?.trim() || null,
+      notes: input.notes,
+      terms: input.terms,
+    }).filter(([, value]) => value !== undefined)
+  )
+  const repricing =
+    !!inputItems || PRICING_FIELDS.some(field => input[field] !== undefined)
+
+  let updates = details
+  let itemsToSave: Record<string, unknown>[] | null = null
+  let redemptions: RedemptionInput[] | null = null
+
+  if (repricing) {
+    // Reprice the stored lines when only document amounts change
+    let items = inputItems
+    if (!items) {
+      const { data: storedItems, error: itemsError } = await supabase
+        .from('sales_order_items')
+        .select('*')
+        .eq('order_id', id)
+
+      if (itemsError) {
+        console.error('Error fetching sales order items:', itemsError)
+        return Response.json(
+          { error: 'Failed to fetch order items' },
+          { status: 500 }
+        )
+      }
+      items = (storedItems || []) as CreateSalesOrderItemInput[]
+    }
+
+    const pricingInput = {
+      customer_id: input.customer_id || current.customer_id,
+      items,
+      discount_amount: discount_amount ?? current.discount_amount,
+      shipping_amount: shipping_amount ?? current.shipping_amount,
+      coupon_code:
+        input.coupon_code !== undefined
+          ? input.coupon_code
+          : current.coupon_code,
+      subtotal,
+      tax_amount,
+      grand_total,
+    }
+
+    let priced: Awaited<ReturnType<typeof priceSalesOrder>>
+    try {
+      priced = await priceSalesOrder(supabase, user.company_id, pricingInput)
+    } catch (error) {
+      return Response.json(
+        {
+          error:
+            error instanceof Error ? error.message : 'Failed to price order',
+        },
+        { status: 400 }
+      )
+    }
+
+    const { pricing } = priced
+    const mismatches = findSalesOrderMismatches(pricingInput, pricing)
+    if (mismatches.length > 0) {
+      return Response.json(
+        {
+          error: 'Order totals do not match the server calculation',
+          mismatches,
+          pricing,
+        },
+        { status: 422 }
+      )
+    }
+
+    // Staff give manual discounts up to the company's approval threshold
+    if (user.role === 'staff') {
+      let limit: number
+      try {
+        limit = await getSalesDiscountLimit(supabase, user.company_id)
+      } catch (error) {
+        console.error('Error fetching discount limit:', error)
+        return Response.json(
+          { error: 'Failed to fetch discount limit' },
+          { status: 500 }
+        )
+      }
+
+      const fields = findDiscountsOverLimit(pricing, limit)
+      if (fields.length > 0) {
+        return Response.json(
+          {
+            error: `Discounts above ${limit}% must be given by a company owner`,
+            fields,
+          },
+          { status: 403 }
+        )
+      }
+    }
+
+    itemsToSave = priced.items.map(item => ({
+      product_id: item.product_id,
+      product_name: item.product_name,
+      product_sku: item.product_sku,
+      quantity: item.quantity,
+      unit_price: item.unit_price,
+      discount_amount: item.discount_amount || 0,
+      tax_amount: item.tax_amount,
+      subtotal: item.subtotal,
+      promotion_id: item.promotion_id || null,
+      discounted_units: item.discounted_units,
+      notes: item.notes || null,
+    }))
+    redemptions = priced.redemptions
+    updates = {
+      ...details,
+      subtotal: pricing.subtotal,
+      discount_amount: pricing.order_discount_amount,
+      tax_amount: pricing.tax_amount,
+      tax_rate: pricing.tax_rate,
+      prices_include_tax: pricing.prices_include_tax,
+      dpp_amount: pricing.dpp_amount,
+      shipping_amount: pricing.shipping_amount,
+      grand_total: pricing.grand_total,
+      pricing_snapshot: { ...pricing, computed_at: new Date().toISOString() },
+    }
+  }
+
+  // The order, its lines and its redemptions are saved in one transaction,
+  // so an order over a promotion's usage limit is left unchanged
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data, error } = await (supabase as any).rpc('update_sales_order', {
+    p_company_id: user.company_id,
+    p_order_id: id,
+    p_order: updates,
+    p_items: itemsToSave,
+    p_redemptions: redemptions,
+    p_updated_by: user.id,
+  })
+
+  if (error) {
+    console.error('Error updating sales order:', error)
+    return Response.json(
+      { error: `Failed to update sales order: ${error.message}` },
+      { status: 400 }
+    )
+  }
+
+  return Response.json({ order: data })
+}
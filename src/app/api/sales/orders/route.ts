@@ -0,0 +1,138 @@
+import { NextRequest } from 'next/server'
+import { getRequestUser } from '@/lib/auth/server'
+import { createServiceSupabase } from '@/lib/supabase/client'
+import {
+  findDiscountsOverLimit,
+  findSalesOrderMismatches,
+  getSalesDiscountLimit,
+  priceSalesOrder,
+} from '@/lib/sales/pricing'
+import type { CreateSalesOrderInput } from '@/types/sales'
+
+// Sales orders are written here so totals are recomputed on the server from
+// catalogue prices instead of being trusted from the browser
+
+export async function POST(request: NextRequest) {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return Response.json({ error: 'Not authenticated' }, { status: 401 })
+  }
+
+  const supabase = createServiceSupabase()
+  let input: CreateSalesOrderInput
+
+  try {
+    input = await request.json()
+    if (!input.customer_id || !input.order_date) {
+      return Response.json(
+        { error: 'Customer and order date are required' },
+        { status: 400 }
+      )
+    }
+  } catch {
+    return Response.json({ error: 'Invalid request body' }, { status: 400 })
+  }
+
+  let priced: Awaited<ReturnType<typeof priceSalesOrder>>
+  try {
+    priced = await priceSalesOrder(supabase, user.company_id, input)
+  } catch (error) {
+    return Response.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to price order',
+      },
+      { status: 400 }
+    )
+  }
+
+  const { pricing, items, redemptions } = priced
+  const mismatches = findSalesOrderMismatches(input, pricing)
+  if (mismatches.length > 0) {
+    return Response.json(
+      {
+        error: 'Order totals do not match the server calculation',
+        mismatches,
+        pricing,
+      },
+      { status: 422 }
+    )
+  }
+
+  // Staff give manual discounts up to the company's approval threshold
+  if (user.role === 'staff') {
+    let limit: number
+    try {
+      limit = await getSalesDiscountLimit(supabase, user.company_id)
+    } catch (error) {
+      console.error('Error fetching discount limit:', error)
+      return Response.json(
+        { error: 'Failed to fetch discount limit' },
+        { status: 500 }
+      )
+    }
+
+    const fields = findDiscountsOverLimit(pricing, limit)
+    if (fields.length > 0) {
+      return Response.json(
+        {
+          error: `Discounts above ${limit}% must be given by a company owner`,
+          fields,
+        },
+        { status: 403 }
+      )
+    }
+  }
+
+  // The order, its lines and its redemptions are saved in one transaction,
+  // so an order over a promotion's usage limit is not kept
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data: order, error } = await (supabase as any).rpc(
+    'create_sales_order',
+    {
+      p_company_id: user.company_id,
+      p_order: {
+        customer_id: input.customer_id,
+        salesman_id: input.salesman_id || null,
+        order_date: input.order_date,
+        status: input.status || 'draft',
+        subtotal: pricing.subtotal,
+        discount_amount: pricing.order_discount_amount,
+        tax_amount: pricing.tax_amount,
+        tax_rate: pricing.tax_rate,
+        prices_include_tax: pricing.prices_include_tax,
+        dpp_amount: pricing.dpp_amount,
+        shipping_amount: pricing.shipping_amount,
+        grand_total: pricing.grand_total,
+        pricing_snapshot: { ...pricing, computed_at: new Date().toISOString() },
+        coupon_code: input.coupon_code?.trim() || null,
+        notes: input.notes || null,
+        terms: input.terms || null,
+      },
+      p_items: items.map(item => ({
+        product_id: item.product_id,
+        product_name: item.product_name,
+        product_sku: item.product_sku,
+        quantity: item.quantity,
+        unit_price: item.unit_price,
+        discount_amount: item.discount_amount || 0,
+        tax_amount: item.tax_amount,
+        subtotal: item.subtotal,
+        promotion_id: item.promotion_id || null,
+        discounted_units: item.discounted_units,
+        notes: item.notes || null,
+      })),
+      p_redemptions: redemptions,
+      p_created_by: user.id,
+    }
+  )
+
+  if (error) {
+    console.error('Error creating sales order:', error)
+    return Response.json(
+      { error: `Failed to create sales order: ${error.message}` },
+      { status: 400 }
+    )
+  }
+
+  return Response.json({ order })
+}
@@ -0,0 +1,257 @@
+'use client'
+
+import { useEffect } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Loader2 } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+
+import { COMPANY_TIME_ZONES } from '@/lib/company/utils'
+import {
+  companyProfileFormSchema,
+  type CompanyProfileFormData,
+} from '@/lib/company/validation'
+import type { CompanyProfile } from '@/types/company'
+
+interface CompanyProfileFormProps {
+  profile: CompanyProfile | null
+  companyName: string
+  onSubmit: (data: CompanyProfileFormData) => Promise<void>
+  isLoading?: boolean
+}
+
+/**
+ * Company Profile Form
+ * Legal details and default texts printed on every branded document
+ */
+export function CompanyProfileForm({
+  profile,
+  companyName,
+  onSubmit,
+  isLoading = false,
+}: CompanyProfileFormProps) {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    watch,
+    setValue,
+  } = useForm<CompanyProfileFormData>({
+    resolver: zodResolver(companyProfileFormSchema),
+    defaultValues: {
+      legal_name: '',
+      npwp: '',
+      address: '',
+      phone: '',
+      email: '',
+      logo_url: '',
+      footer_message: '',
+      return_policy: '',
+      time_zone: 'Asia/Jakarta',
+    },
+  })
+
+  // Load the saved profile once fetched
+  useEffect(() => {
+    reset({
+      legal_name: profile?.legal_name || '',
+      npwp: profile?.npwp || '',
+      address: profile?.address || '',
+      phone: profile?.phone || '',
+      email: profile?.email || '',
+      logo_url: profile?.logo_url || '',
+      footer_message: profile?.footer_message || '',
+      return_policy: profile?.return_policy || '',
+      time_zone: profile?.time_zone || 'Asia/Jakarta',
+    })
+  }, [profile, reset])
+
+  const logoUrl = watch('logo_url')
+  const timeZone = watch('time_zone')
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)}>
+      <Card>
+        <CardHeader>
+          <CardTitle>Company Profile</CardTitle>
+          <CardDescription>Printed on receipts and invoices</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="legal_name">Legal Name</Label>
+              <Input
+                id="legal_name"
+                placeholder={companyName}
+                {...register('legal_name')}
+                disabled={isLoading}
+              />
+              {errors.legal_name && (
+                <p className="text-sm text-red-500">
+                  {errors.legal_name.message}
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="npwp">NPWP</Label>
+              <Input
+                id="npwp"
+                placeholder="99.999.999.9-999.999"
+                {...register('npwp')}
+                disabled={isLoading}
+              />
+              {errors.npwp && (
+                <p className="text-sm text-red-500">{errors.npwp.message}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="phone">Phone</Label>
+              <Input id="phone" {...register('phone')} disabled={isLoading} />
+              {errors.phone && (
+                <p className="text-sm text-red-500">{errors.phone.message}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="email">Email</Label>
+              <Input
+                id="email"
+                type="email"
+                {...register('email')}
+                disabled={isLoading}
+              />
+              {errors.email && (
+                <p className="text-sm text-red-500">{errors.email.message}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="time_zone">Time Zone</Label>
+              <Select
+                value={timeZone}
+                onValueChange={value =>
+                  setValue(
+                    'time_zone',
+                    value as CompanyProfileFormData['time_zone']
+                  )
+                }
+                disabled={isLoading}
+              >
+                <SelectTrigger id="time_zone">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COMPANY_TIME_ZONES.map(zone => (
+                    <SelectItem key={zone.value} value={zone.value}>
+                      {zone.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Promotions start and end at midnight in this time zone
+              </p>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="address">Address</Label>
+            <Textarea
+              id="address"
+              rows={2}
+              {...register('address')}
+              disabled={isLoading}
+            />
+            {errors.address && (
+              <p className="text-sm text-red-500">{errors.address.message}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="logo_url">Logo URL</Label>
+            <div className="flex items-center gap-4">
+              <Input
+                id="logo_url"
+                placeholder="https://..."
+                {...register('logo_url')}
+                disabled={isLoading}
+              />
+              {logoUrl && !errors.logo_url && (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img
+                  src={logoUrl}
+                  alt="Logo preview"
+                  className="h-12 max-w-[120px] object-contain border rounded"
+                />
+              )}
+            </div>
+            {errors.logo_url && (
+              <p className="text-sm text-red-500">{errors.logo_url.message}</p>
+            )}
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="footer_message">Footer Message</Label>
+              <Textarea
+                id="footer_message"
+                rows={3}
+                placeholder="Terima Kasih"
+                {...register('footer_message')}
+                disabled={isLoading}
+              />
+              {errors.footer_message && (
+                <p className="text-sm text-red-500">
+                  {errors.footer_message.message}
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="return_policy">Return Policy</Label>
+              <Textarea
+                id="return_policy"
+                rows={3}
+                {...register('return_policy')}
+                disabled={isLoading}
+              />
+              {errors.return_policy && (
+                <p className="text-sm text-red-500">
+                  {errors.return_policy.message}
+                </p>
+              )}
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <Button type="submit" disabled={isLoading}>
+              {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Profile
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </form>
+  )
+}
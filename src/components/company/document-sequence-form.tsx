@@ -0,0 +1,153 @@
+'use client'
+
+import { useEffect } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Loader2 } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+import {
+  DEFAULT_DOCUMENT_SEQUENCES,
+  RESET_PERIODS,
+  formatDocumentNumberExample,
+} from '@/lib/numbering/utils'
+import {
+  documentSequenceFormSchema,
+  type DocumentSequenceFormData,
+} from '@/lib/numbering/validation'
+import type {
+  DocumentSequence,
+  DocumentType,
+  ResetPeriod,
+} from '@/types/numbering'
+
+interface DocumentSequenceFormProps {
+  documentType: DocumentType
+  sequence: DocumentSequence | null
+  onSubmit: (data: DocumentSequenceFormData) => Promise<void>
+  isLoading?: boolean
+}
+
+/**
+ * Document Sequence Form
+ * Prefix, reset period and digits of one document type's numbers
+ */
+export function DocumentSequenceForm({
+  documentType,
+  sequence,
+  onSubmit,
+  isLoading = false,
+}: DocumentSequenceFormProps) {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    setValue,
+    watch,
+  } = useForm<DocumentSequenceFormData>({
+    resolver: zodResolver(documentSequenceFormSchema),
+  })
+
+  // Show the saved sequence, or the defaults of this document type
+  useEffect(() => {
+    const settings = sequence || DEFAULT_DOCUMENT_SEQUENCES[documentType]
+    reset({
+      prefix: settings.prefix,
+      reset_period: settings.reset_period,
+      padding: settings.padding,
+    })
+  }, [documentType, sequence, reset])
+
+  const prefix = watch('prefix')
+  const resetPeriod = watch('reset_period')
+  const padding = watch('padding')
+  const example =
+    prefix && resetPeriod && padding >= 1 && padding <= 12
+      ? formatDocumentNumberExample(prefix.trim(), resetPeriod, padding)
+      : null
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div className="space-y-2">
+          <Label htmlFor="sequence-prefix">Prefix</Label>
+          <Input
+            id="sequence-prefix"
+            {...register('prefix')}
+            disabled={isLoading}
+          />
+          {errors.prefix && (
+            <p className="text-sm text-red-500">{errors.prefix.message}</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="sequence-reset-period">Restart Numbering</Label>
+          <Select
+            value={resetPeriod}
+            onValueChange={value =>
+              setValue('reset_period', value as ResetPeriod)
+            }
+            disabled={isLoading}
+          >
+            <SelectTrigger id="sequence-reset-period">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RESET_PERIODS.map(period => (
+                <SelectItem key={period.value} value={period.value}>
+                  {period.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="sequence-padding">Digits</Label>
+          <Input
+            id="sequence-padding"
+            type="number"
+            min={1}
+            max={12}
+            {...register('padding', { valueAsNumber: true })}
+            disabled={isLoading}
+          />
+          {errors.padding && (
+            <p className="text-sm text-red-500">{errors.padding.message}</p>
+          )}
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {example && (
+          <>
+            The first number of a period looks like{' '}
+            <span className="font-mono">{example}</span>.{' '}
+          </>
+        )}
+        {sequence && sequence.last_number > 0
+          ? `${sequence.last_number} issued in the current period; changes apply to the next number.`
+          : 'No numbers issued yet.'}
+      </p>
+
+      <div className="flex justify-end">
+        <Button type="submit" disabled={isLoading}>
+          {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save Numbering
+        </Button>
+      </div>
+    </form>
+  )
+}
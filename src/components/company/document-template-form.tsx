@@ -0,0 +1,155 @@
+'use client'
+
+import { useEffect } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Loader2 } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+
+import { DEFAULT_DOCUMENT_TEMPLATES } from '@/lib/company/utils'
+import {
+  documentTemplateFormSchema,
+  type DocumentTemplateFormData,
+} from '@/lib/company/validation'
+import type { BrandedDocumentType, DocumentTemplate } from '@/types/company'
+
+interface DocumentTemplateFormProps {
+  documentType: BrandedDocumentType
+  template: DocumentTemplate | null
+  onSubmit: (data: DocumentTemplateFormData) => Promise<void>
+  isLoading?: boolean
+}
+
+const toggles: {
+  name: 'show_logo' | 'show_npwp' | 'show_return_policy'
+  label: string
+}[] = [
+  { name: 'show_logo', label: 'Print company logo' },
+  { name: 'show_npwp', label: 'Print NPWP' },
+  { name: 'show_return_policy', label: 'Print return policy' },
+]
+
+/**
+ * Document Template Form
+ * Title, texts and sections printed on one document type
+ */
+export function DocumentTemplateForm({
+  documentType,
+  template,
+  onSubmit,
+  isLoading = false,
+}: DocumentTemplateFormProps) {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    setValue,
+    watch,
+  } = useForm<DocumentTemplateFormData>({
+    resolver: zodResolver(documentTemplateFormSchema),
+  })
+
+  // Show the saved template, or the defaults of this document type
+  useEffect(() => {
+    const settings = template || DEFAULT_DOCUMENT_TEMPLATES[documentType]
+    reset({
+      title: settings.title || '',
+      header_text: settings.header_text || '',
+      footer_text: settings.footer_text || '',
+      terms_text: settings.terms_text || '',
+      show_logo: settings.show_logo,
+      show_npwp: settings.show_npwp,
+      show_return_policy: settings.show_return_policy,
+    })
+  }, [documentType, template, reset])
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      {documentType !== 'receipt' && (
+        <div className="space-y-2">
+          <Label htmlFor="template-title">Title</Label>
+          <Input
+            id="template-title"
+            {...register('title')}
+            disabled={isLoading}
+          />
+          {errors.title && (
+            <p className="text-sm text-red-500">{errors.title.message}</p>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="template-header">Header</Label>
+        <Textarea
+          id="template-header"
+          rows={2}
+          placeholder="Printed below the company details"
+          {...register('header_text')}
+          disabled={isLoading}
+        />
+        {errors.header_text && (
+          <p className="text-sm text-red-500">{errors.header_text.message}</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="template-footer">Footer</Label>
+        <Textarea
+          id="template-footer"
+          rows={2}
+          placeholder="Leave empty to print the profile's footer message"
+          {...register('footer_text')}
+          disabled={isLoading}
+        />
+        {errors.footer_text && (
+          <p className="text-sm text-red-500">{errors.footer_text.message}</p>
+        )}
+      </div>
+
+      {documentType !== 'receipt' && (
+        <div className="space-y-2">
+          <Label htmlFor="template-terms">Terms &amp; Conditions</Label>
+          <Textarea
+            id="template-terms"
+            rows={4}
+            {...register('terms_text')}
+            disabled={isLoading}
+          />
+          {errors.terms_text && (
+            <p className="text-sm text-red-500">{errors.terms_text.message}</p>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {toggles.map(toggle => (
+          <div key={toggle.name} className="flex items-center space-x-2">
+            <Checkbox
+              id={`template-${toggle.name}`}
+              checked={watch(toggle.name) === true}
+              onCheckedChange={checked =>
+                setValue(toggle.name, checked === true)
+              }
+              disabled={isLoading}
+            />
+            <Label htmlFor={`template-${toggle.name}`}>{toggle.label}</Label>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-end">
+        <Button type="submit" disabled={isLoading}>
+          {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save Template
+        </Button>
+      </div>
+    </form>
+  )
+}
@@ -73,6 +73,7 @@ export function CustomerForm({
           credit_limit: customer.credit_limit
             ? Number(customer.credit_limit)
             : 0,
+          is_tax_exempt: customer.is_tax_exempt ?? false,
           status: customer.status as 'active' | 'inactive',
         }
       : {
@@ -82,12 +83,14 @@ export function CustomerForm({
           address: '',
           category_id: '',
           credit_limit: 0,
+          is_tax_exempt: false,
           status: 'active',
         },
   })
 
   const selectedCategoryId = watch('category_id')
   const selectedStatus = watch('status')
+  const selectedTaxExempt = watch('is_tax_exempt')
 
   // Load categories
   useEffect(() => {
@@ -242,6 +245,31 @@ export function CustomerForm({
             )}
           </div>
 
+          {/* Tax Status */}
+          <div className="grid gap-2">
+            <Label htmlFor="is_tax_exempt">Tax Status</Label>
+            <Select
+              value={selectedTaxExempt ? 'exempt' : 'taxable'}
+              onValueChange={value =>
+                setValue('is_tax_exempt', value === 'exempt')
+              }
+              disabled={isLoading}
+            >
+              <SelectTrigger id="is_tax_exempt">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="taxable">Taxable (PPN)</SelectItem>
+                <SelectItem value="exempt">Tax Exempt</SelectItem>
+              </SelectContent>
+            </Select>
+            {errors.is_tax_exempt && (
+              <p className="text-sm text-red-500">
+                {errors.is_tax_exempt.message}
+              </p>
+            )}
+          </div>
+
           {/* Status */}
           <div className="grid gap-2">
             <Label htmlFor="status">Status</Label>
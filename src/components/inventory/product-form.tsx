@@ -31,6 +31,7 @@ const productSchema = z.object({
   min_stock: z.number().min(0, 'Min stock must be positive').optional(),
   max_stock: z.number().min(0, 'Max stock must be positive').optional(),
   reorder_point: z.number().min(0, 'Reorder point must be positive').optional(),
+  tax_category: z.enum(['standard', 'exempt']),
   is_active: z.boolean(),
 })
 
@@ -88,6 +89,7 @@ export function ProductForm({
       min_stock: product?.min_stock || 0,
       max_stock: product?.max_stock || undefined,
       reorder_point: product?.reorder_point || 0,
+      tax_category: product?.tax_category || 'standard',
       is_active: product?.is_active ?? true,
     },
   })
@@ -96,6 +98,7 @@ export function ProductForm({
   const selectedUnitId = watch('unit_id')
   const selectedSupplierId = watch('supplier_id')
   const selectedStatus = watch('is_active')
+  const selectedTaxCategory = watch('tax_category')
 
   return (
     <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
@@ -314,6 +317,31 @@ export function ProductForm({
               </p>
             )}
           </div>
+
+          {/* Tax Category */}
+          <div className="grid gap-2">
+            <Label htmlFor="tax_category">Tax Category</Label>
+            <Select
+              value={selectedTaxCategory}
+              onValueChange={value =>
+                setValue('tax_category', value as 'standard' | 'exempt')
+              }
+              disabled={isLoading}
+            >
+              <SelectTrigger id="tax_category">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="standard">Standard (PPN)</SelectItem>
+                <SelectItem value="exempt">Exempt (Non-PPN)</SelectItem>
+              </SelectContent>
+            </Select>
+            {errors.tax_category && (
+              <p className="text-sm text-red-500">
+                {errors.tax_category.message}
+              </p>
+            )}
+          </div>
         </CardContent>
       </Card>
 
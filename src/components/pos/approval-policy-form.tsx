@@ -0,0 +1,115 @@
+'use client'
+
+import { useEffect } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Loader2 } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+
+import {
+  approvalPolicyFormSchema,
+  type ApprovalPolicyFormData,
+} from '@/lib/pos/validation'
+import type { PosSettings } from '@/types/pos'
+
+interface ApprovalPolicyFormProps {
+  settings: PosSettings | null
+  onSubmit: (data: ApprovalPolicyFormData) => Promise<void>
+  isLoading?: boolean
+}
+
+const toggles: {
+  name: 'approval_price_override' | 'approval_void' | 'approval_refund'
+  label: string
+}[] = [
+  { name: 'approval_price_override', label: 'Price overrides' },
+  { name: 'approval_void', label: 'Voiding a paid transaction' },
+  { name: 'approval_refund', label: 'Refunds and returns' },
+]
+
+/**
+ * Approval Policy Form
+ * Register actions that need a supervisor's PIN
+ */
+export function ApprovalPolicyForm({
+  settings,
+  onSubmit,
+  isLoading = false,
+}: ApprovalPolicyFormProps) {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    setValue,
+    watch,
+  } = useForm<ApprovalPolicyFormData>({
+    resolver: zodResolver(approvalPolicyFormSchema),
+  })
+
+  useEffect(() => {
+    reset({
+      approval_discount_percent: Number(
+        settings?.approval_discount_percent ?? 100
+      ),
+      approval_price_override: settings?.approval_price_override ?? true,
+      approval_void: settings?.approval_void ?? true,
+      approval_refund: settings?.approval_refund ?? false,
+    })
+  }, [settings, reset])
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      <div className="space-y-2 max-w-xs">
+        <Label htmlFor="approval-discount-percent">
+          Line discounts above (%)
+        </Label>
+        <Input
+          id="approval-discount-percent"
+          type="number"
+          min={0}
+          max={100}
+          {...register('approval_discount_percent', { valueAsNumber: true })}
+          disabled={isLoading}
+        />
+        {errors.approval_discount_percent ? (
+          <p className="text-sm text-red-500">
+            {errors.approval_discount_percent.message}
+          </p>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            Staff cannot go above it on sales orders either; 100 allows any
+            discount
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        {toggles.map(toggle => (
+          <div key={toggle.name} className="flex items-center space-x-2">
+            <Checkbox
+              id={`policy-${toggle.name}`}
+              checked={watch(toggle.name) === true}
+              onCheckedChange={checked =>
+                setValue(toggle.name, checked === true)
+              }
+              disabled={isLoading}
+            />
+            <Label htmlFor={`policy-${toggle.name}`}>{toggle.label}</Label>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-end">
+        <Button type="submit" disabled={isLoading}>
+          {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save Policy
+        </Button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,275 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { ArrowDownToLine, ArrowUpFromLine, Wallet } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { toast } from 'sonner'
+import { createCashMovement, getCashMovements } from '@/lib/pos/api'
+import { openCashDrawer } from '@/lib/pos/printer'
+import { CASH_MOVEMENT_REASONS } from '@/lib/pos/utils'
+import type {
+  CashMovementReason,
+  CashMovementType,
+  CreateApprovalInput,
+  PosApproval,
+  PosCashMovementWithRelations,
+} from '@/types/pos'
+
+interface CashMovementDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  shiftId: string
+  // Every movement is approved by a supervisor's PIN
+  requestApproval: (input: CreateApprovalInput) => Promise<PosApproval | null>
+}
+
+// Reason preselected for each direction
+const defaultReasons: Record<CashMovementType, CashMovementReason> = {
+  pay_in: 'change_top_up',
+  pay_out: 'safe_drop',
+}
+
+export function CashMovementDialog({
+  open,
+  onOpenChange,
+  shiftId,
+  requestApproval,
+}: CashMovementDialogProps) {
+  const [movements, setMovements] = useState<PosCashMovementWithRelations[]>([])
+  const [movementType, setMovementType] = useState<CashMovementType>('pay_out')
+  const [reason, setReason] = useState<CashMovementReason>('safe_drop')
+  const [amount, setAmount] = useState<number>(0)
+  const [notes, setNotes] = useState<string>('')
+  const [loading, setLoading] = useState(false)
+
+  // Load the shift's movements whenever the dialog opens
+  useEffect(() => {
+    if (!open) return
+
+    setMovementType('pay_out')
+    setReason(defaultReasons.pay_out)
+    setAmount(0)
+    setNotes('')
+
+    getCashMovements(shiftId)
+      .then(setMovements)
+      .catch(error => {
+        console.error('Error loading cash movements:', error)
+        toast.error('Failed to load cash movements')
+      })
+  }, [open, shiftId])
+
+  const handleTypeChange = (type: CashMovementType) => {
+    setMovementType(type)
+    setReason(defaultReasons[type])
+  }
+
+  const handleSubmit = async () => {
+    if (amount <= 0) {
+      toast.error('Amount must be greater than zero')
+      return
+    }
+    if (reason === 'other' && !notes.trim()) {
+      toast.error('Please describe the reason for this cash movement')
+      return
+    }
+
+    const label = movementType === 'pay_in' ? 'Pay-in' : 'Pay-out'
+    const approval = await requestApproval({
+      action: 'cash_movement',
+      shift_id: shiftId,
+      new_value: amount,
+      description: `${label} of Rp ${amount.toLocaleString('id-ID')} (${reasonLabel(reason)})${notes.trim() ? `: ${notes.trim()}` : ''}`,
+    })
+    if (!approval) return
+
+    try {
+      setLoading(true)
+
+      await createCashMovement({
+        shift_id: shiftId,
+        movement_type: movementType,
+        reason,
+        amount,
+        approval_id: approval.id,
+        notes: notes || undefined,
+      })
+
+      openCashDrawer().catch(error =>
+        console.error('Error opening cash drawer:', error)
+      )
+
+      // Reload to show the approver recorded with the movement
+      setMovements(await getCashMovements(shiftId))
+      setAmount(0)
+      setNotes('')
+
+      toast.success(
+        `${movementType === 'pay_in' ? 'Pay-in' : 'Pay-out'} of Rp ${amount.toLocaleString('id-ID')} recorded`
+      )
+    } catch (error) {
+      console.error('Error recording cash movement:', error)
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : 'Failed to record cash movement'
+      )
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleClose = () => {
+    if (!loading) {
+      onOpenChange(false)
+    }
+  }
+
+  const reasonLabel = (value: CashMovementReason) =>
+    CASH_MOVEMENT_REASONS.find(r => r.value === value)?.label || value
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Wallet className="mr-2 h-5 w-5" />
+            Cash In / Out
+          </DialogTitle>
+          <DialogDescription>
+            Record cash put into or taken out of the drawer outside of sales
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          {/* Direction */}
+          <div className="grid grid-cols-2 gap-2">
+            <Button
+              type="button"
+              variant={movementType === 'pay_in' ? 'default' : 'outline'}
+              onClick={() => handleTypeChange('pay_in')}
+            >
+              <ArrowDownToLine className="mr-2 h-4 w-4" />
+              Pay In
+            </Button>
+            <Button
+              type="button"
+              variant={movementType === 'pay_out' ? 'default' : 'outline'}
+              onClick={() => handleTypeChange('pay_out')}
+            >
+              <ArrowUpFromLine className="mr-2 h-4 w-4" />
+              Pay Out
+            </Button>
+          </div>
+
+          {/* Reason & Amount */}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="cash-movement-reason">Reason</Label>
+              <Select
+                value={reason}
+                onValueChange={value => setReason(value as CashMovementReason)}
+              >
+                <SelectTrigger id="cash-movement-reason">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CASH_MOVEMENT_REASONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="cash-movement-amount">Amount</Label>
+              <Input
+                id="cash-movement-amount"
+                type="number"
+                value={amount || ''}
+                onChange={e => setAmount(parseFloat(e.target.value) || 0)}
+                min={0}
+                step={1000}
+              />
+            </div>
+          </div>
+
+          {/* Notes */}
+          <div className="space-y-2">
+            <Label htmlFor="cash-movement-notes">
+              Notes{' '}
+              {reason === 'other' && <span className="text-red-500">*</span>}
+            </Label>
+            <Input
+              id="cash-movement-notes"
+              placeholder="e.g. Bought cleaning supplies"
+              value={notes}
+              onChange={e => setNotes(e.target.value)}
+            />
+          </div>
+
+          {/* Movements in this shift */}
+          {movements.length > 0 && (
+            <div className="rounded-lg border p-3 text-sm">
+              <p className="mb-2 font-medium">This Shift</p>
+              <ul className="space-y-1">
+                {movements.map(movement => (
+                  <li key={movement.id} className="flex justify-between">
+                    <span>
+                      {reasonLabel(movement.reason)}
+                      <span className="text-muted-foreground">
+                        {' '}
+                        · {movement.approver?.name || '-'}
+                      </span>
+                    </span>
+                    <span
+                      className={
+                        movement.movement_type === 'pay_out'
+                          ? 'text-red-600'
+                          : 'text-green-600'
+                      }
+                    >
+                      {movement.movement_type === 'pay_out' ? '-' : '+'}Rp{' '}
+                      {Number(movement.amount).toLocaleString('id-ID')}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose} disabled={loading}>
+            Close
+          </Button>
+          <Button onClick={handleSubmit} disabled={loading || amount <= 0}>
+            {loading
+              ? 'Recording...'
+              : movementType === 'pay_in'
+                ? 'Record Pay In'
+                : 'Record Pay Out'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
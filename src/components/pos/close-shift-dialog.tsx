@@ -1,7 +1,7 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { LogOut } from 'lucide-react'
+import { CloudOff, LogOut, PauseCircle } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import {
   Dialog,
@@ -13,9 +13,29 @@ import {
 } from '@/components/ui/dialog'
 import { Label } from '@/components/ui/label'
 import { Input } from '@/components/ui/input'
+import { Checkbox } from '@/components/ui/checkbox'
 import { toast } from 'sonner'
-import { closeShift, getShiftSummary } from '@/lib/pos/api'
-import type { PosShift, ShiftSummary } from '@/types/pos'
+import { DenominationCount } from '@/components/pos/denomination-count'
+import {
+  closeShift,
+  getCashMovements,
+  getParkedCarts,
+  getShiftSummary,
+  issueZReport,
+} from '@/lib/pos/api'
+import { getDocumentBranding } from '@/lib/company/api'
+import { getOfflineTransactions } from '@/lib/pos/offline'
+import { printShiftReport } from '@/lib/pos/printer'
+import { zReportToShiftReport } from '@/lib/pos/shift-report'
+import { CASH_MOVEMENT_REASONS, sumDenominations } from '@/lib/pos/utils'
+import type {
+  DenominationCounts,
+  OfflineTransaction,
+  PosCashMovementWithRelations,
+  PosParkedCartWithRelations,
+  PosShift,
+  ShiftSummary,
+} from '@/types/pos'
 
 interface CloseShiftDialogProps {
   open: boolean
@@ -31,9 +51,18 @@ export function CloseShiftDialog({
   onShiftClosed,
 }: CloseShiftDialogProps) {
   const [actualCash, setActualCash] = useState<number>(0)
+  const [countByDenomination, setCountByDenomination] = useState(false)
+  const [denominations, setDenominations] = useState<DenominationCounts>({})
   const [notes, setNotes] = useState<string>('')
   const [loading, setLoading] = useState(false)
   const [summary, setSummary] = useState<ShiftSummary | null>(null)
+  const [parkedCarts, setParkedCarts] = useState<PosParkedCartWithRelations[]>(
+    []
+  )
+  const [cashMovements, setCashMovements] = useState<
+    PosCashMovementWithRelations[]
+  >([])
+  const [offlineSales, setOfflineSales] = useState<OfflineTransaction[]>([])
   const [loadingSummary, setLoadingSummary] = useState(false)
 
   // Load shift summary when dialog opens
@@ -48,8 +77,25 @@ export function CloseShiftDialog({
 
     try {
       setLoadingSummary(true)
-      const summaryData = await getShiftSummary(shift.id)
+      const [summaryData, parkedData, movementsData, offlineData] =
+        await Promise.all([
+          getShiftSummary(shift.id),
+          getParkedCarts(shift.id),
+          getCashMovements(shift.id),
+          getOfflineTransactions().catch(error => {
+            console.error('Error loading offline queue:', error)
+            return []
+          }),
+        ])
       setSummary(summaryData)
+      setParkedCarts(parkedData)
+      setCashMovements(movementsData)
+      setOfflineSales(
+        offlineData.filter(
+          transaction =>
+            transaction.shift_id === shift.id && transaction.status !== 'synced'
+        )
+      )
       // Set default actual cash to expected cash
       setActualCash(summaryData.expected_cash)
     } catch (error) {
@@ -74,6 +120,7 @@ export function CloseShiftDialog({
       await closeShift(shift.id, {
         closing_cash: summary.expected_cash,
         actual_cash: actualCash,
+        closing_denominations: countByDenomination ? denominations : undefined,
         notes: notes || undefined,
       })
 
@@ -81,10 +128,20 @@ export function CloseShiftDialog({
       onShiftClosed()
       onOpenChange(false)
 
+      // The Z-report waits for the offline sales booked to this shift
+      const pendingOffline = offlineSales.length
+
       // Reset form
-      setActualCash(0)
-      setNotes('')
-      setSummary(null)
+      resetForm()
+
+      if (pendingOffline > 0) {
+        toast.info(
+          `Issue the Z-report from Shift History once ${pendingOffline} offline sale(s) have synced`
+        )
+        return
+      }
+
+      await issueAndPrintZReport(shift.id)
     } catch (error) {
       console.error('Error closing shift:', error)
       toast.error('Failed to close shift')
@@ -93,15 +150,55 @@ export function CloseShiftDialog({
     }
   }
 
+  // The shift stays closed when this fails; the Z-report can then be issued
+  // from the shift history
+  const issueAndPrintZReport = async (shiftId: string) => {
+    try {
+      const [zReport, branding] = await Promise.all([
+        issueZReport(shiftId),
+        getDocumentBranding('receipt').catch(error => {
+          console.error('Error loading receipt branding:', error)
+          return undefined
+        }),
+      ])
+      toast.success(`Z-report ${zReport.report_number} issued`)
+      await printShiftReport(zReportToShiftReport(zReport), branding)
+    } catch (error) {
+      console.error('Error issuing Z-report:', error)
+      toast.error(
+        'Failed to issue Z-report. Issue it from Shift History instead.'
+      )
+    }
+  }
+
+  const resetForm = () => {
+    setActualCash(0)
+    setCountByDenomination(false)
+    setDenominations({})
+    setNotes('')
+    setSummary(null)
+    setParkedCarts([])
+    setCashMovements([])
+    setOfflineSales([])
+  }
+
   const handleClose = () => {
     if (!loading) {
       onOpenChange(false)
-      setActualCash(0)
-      setNotes('')
-      setSummary(null)
+      resetForm()
     }
   }
 
+  const handleDenominationsChange = (counts: DenominationCounts) => {
+    setDenominations(counts)
+    setActualCash(sumDenominations(counts))
+  }
+
+  const handleCountByDenominationChange = (checked: boolean) => {
+    setCountByDenomination(checked)
+    if (checked) setActualCash(sumDenominations(denominations))
+  }
+
   if (!shift) return null
 
   const variance = summary ? actualCash - summary.expected_cash : 0
@@ -114,7 +211,7 @@ export function CloseShiftDialog({
 
   return (
     <Dialog open={open} onOpenChange={handleClose}>
-      <DialogContent className="max-w-2xl">
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center">
             <LogOut className="mr-2 h-5 w-5" />
@@ -164,15 +261,147 @@ export function CloseShiftDialog({
                       Rp {summary.transfer_sales.toLocaleString()}
                     </p>
                   </div>
+                  <div>
+                    <p className="text-muted-foreground">E-Wallet Sales</p>
+                    <p className="font-medium">
+                      Rp {summary.ewallet_sales.toLocaleString()}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Credit Sales</p>
+                    <p className="font-medium">
+                      Rp {summary.credit_sales.toLocaleString()}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Receivable Payments</p>
+                    <p className="font-medium">
+                      Rp {summary.receivable_payments.toLocaleString()}
+                    </p>
+                  </div>
                   <div>
                     <p className="text-muted-foreground">Total Sales</p>
                     <p className="font-medium">
                       Rp {summary.total_sales.toLocaleString()}
                     </p>
                   </div>
+                  <div>
+                    <p className="text-muted-foreground">Total Refunds</p>
+                    <p className="font-medium text-red-600">
+                      Rp {summary.total_refunds.toLocaleString()}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Cash Refunds</p>
+                    <p className="font-medium text-red-600">
+                      Rp {summary.cash_refunds.toLocaleString()}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Cash Pay-Ins</p>
+                    <p className="font-medium">
+                      Rp {summary.cash_pay_ins.toLocaleString()}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Cash Pay-Outs</p>
+                    <p className="font-medium text-red-600">
+                      Rp {summary.cash_pay_outs.toLocaleString()}
+                    </p>
+                  </div>
                 </div>
               </div>
 
+              {/* Cash Movements */}
+              {cashMovements.length > 0 && (
+                <div className="rounded-lg border p-4 text-sm">
+                  <h3 className="mb-2 font-semibold">Cash Movements</h3>
+                  <ul className="space-y-1">
+                    {cashMovements.map(movement => (
+                      <li key={movement.id} className="flex justify-between">
+                        <span>
+                          {CASH_MOVEMENT_REASONS.find(
+                            reason => reason.value === movement.reason
+                          )?.label || movement.reason}
+                          {movement.notes && ` — ${movement.notes}`}
+                          <span className="text-muted-foreground">
+                            {' '}
+                            (approved by {movement.approver?.name || '-'})
+                          </span>
+                        </span>
+                        <span
+                          className={
+                            movement.movement_type === 'pay_out'
+                              ? 'text-red-600'
+                              : 'text-green-600'
+                          }
+                        >
+                          {movement.movement_type === 'pay_out' ? '-' : '+'}Rp{' '}
+                          {Number(movement.amount).toLocaleString()}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {/* Offline Sales */}
+              {offlineSales.length > 0 && (
+                <div className="rounded-lg border border-amber-200 bg-amber-50 p-4 text-sm text-amber-900 dark:border-amber-800 dark:bg-amber-950 dark:text-amber-100">
+                  <p className="flex items-center font-medium">
+                    <CloudOff className="mr-2 h-4 w-4" />
+                    {offlineSales.length} offline sale
+                    {offlineSales.length > 1 ? 's are' : ' is'} not synced yet
+                  </p>
+                  <ul className="mt-2 space-y-1">
+                    {offlineSales.map(transaction => (
+                      <li
+                        key={transaction.local_id}
+                        className="flex justify-between"
+                      >
+                        <span className="font-mono">
+                          {transaction.offline_number}
+                        </span>
+                        <span>
+                          Rp {Number(transaction.total).toLocaleString()}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                  <p className="mt-2 text-xs">
+                    Count their cash with the drawer. They are booked to this
+                    shift when they sync, and its expected cash and variance are
+                    updated then.
+                  </p>
+                </div>
+              )}
+
+              {/* Parked Carts */}
+              {parkedCarts.length > 0 && (
+                <div className="rounded-lg border border-amber-200 bg-amber-50 p-4 text-sm text-amber-900 dark:border-amber-800 dark:bg-amber-950 dark:text-amber-100">
+                  <p className="flex items-center font-medium">
+                    <PauseCircle className="mr-2 h-4 w-4" />
+                    {parkedCarts.length} parked cart
+                    {parkedCarts.length > 1 ? 's are' : ' is'} still open
+                  </p>
+                  <ul className="mt-2 space-y-1">
+                    {parkedCarts.map(cart => (
+                      <li key={cart.id} className="flex justify-between">
+                        <span>
+                          {cart.customer?.name || 'Walk-in'}
+                          {cart.notes && ` — ${cart.notes}`}
+                        </span>
+                        <span>Rp {Number(cart.total).toLocaleString()}</span>
+                      </li>
+                    ))}
+                  </ul>
+                  <p className="mt-2 text-xs">
+                    Recall or cancel them before closing; carts left open stay
+                    parked for the next shift
+                  </p>
+                </div>
+              )}
+
               {/* Expected Cash */}
               <div className="rounded-lg border border-blue-200 bg-blue-50 p-4 dark:border-blue-800 dark:bg-blue-950">
                 <div className="flex items-center justify-between">
@@ -181,7 +410,8 @@ export function CloseShiftDialog({
                       Expected Cash in Drawer
                     </p>
                     <p className="text-xs text-blue-700 dark:text-blue-300">
-                      Opening + Cash Sales
+                      Opening + Cash Sales + Cash Collections + Pay-Ins - Cash
+                      Refunds - Pay-Outs
                     </p>
                   </div>
                   <p className="text-2xl font-bold text-blue-900 dark:text-blue-100">
@@ -192,21 +422,50 @@ export function CloseShiftDialog({
 
               {/* Actual Cash Input */}
               <div className="space-y-2">
-                <Label htmlFor="actual-cash">
-                  Actual Cash Counted <span className="text-red-500">*</span>
-                </Label>
-                <Input
-                  id="actual-cash"
-                  type="number"
-                  placeholder="Count your cash drawer"
-                  value={actualCash || ''}
-                  onChange={e => setActualCash(parseFloat(e.target.value) || 0)}
-                  min={0}
-                  step={1000}
-                />
-                <p className="text-sm text-muted-foreground">
-                  Current: Rp {actualCash.toLocaleString()}
-                </p>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="actual-cash">
+                    Actual Cash Counted <span className="text-red-500">*</span>
+                  </Label>
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="closing-count-denominations"
+                      checked={countByDenomination}
+                      onCheckedChange={checked =>
+                        handleCountByDenominationChange(checked === true)
+                      }
+                    />
+                    <Label
+                      htmlFor="closing-count-denominations"
+                      className="text-sm font-normal"
+                    >
+                      Count by denomination
+                    </Label>
+                  </div>
+                </div>
+                {countByDenomination ? (
+                  <DenominationCount
+                    counts={denominations}
+                    onChange={handleDenominationsChange}
+                    idPrefix="closing-denomination"
+                  />
+                ) : (
+                  <>
+                    <Input
+                      id="actual-cash"
+                      type="number"
+                      placeholder="Count your cash drawer"
+                      value={actualCash || ''}
+                      onChange={e =>
+                        setActualCash(parseFloat(e.target.value) || 0)
+                      }
+                      min={0}
+                      step={1000}
+                    />
+                    <p className="text-sm text-muted-foreground">
+                      Current: Rp {actualCash.toLocaleString()}
+                    </p>
+                  </>
+                )}
               </div>
 
               {/* Variance Display */}
@@ -0,0 +1,72 @@
+'use client'
+
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { RUPIAH_DENOMINATIONS, sumDenominations } from '@/lib/pos/utils'
+import type { DenominationCounts } from '@/types/pos'
+
+interface DenominationCountProps {
+  counts: DenominationCounts
+  onChange: (counts: DenominationCounts) => void
+  idPrefix: string
+}
+
+/**
+ * Count the cash drawer note by note; the total is the counted cash
+ */
+export function DenominationCount({
+  counts,
+  onChange,
+  idPrefix,
+}: DenominationCountProps) {
+  const total = sumDenominations(counts)
+
+  const handleChange = (denomination: number, value: string) => {
+    const count = Math.max(parseInt(value) || 0, 0)
+    const next = { ...counts }
+    if (count > 0) {
+      next[denomination] = count
+    } else {
+      delete next[denomination]
+    }
+    onChange(next)
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-x-4 gap-y-2">
+        {RUPIAH_DENOMINATIONS.map(denomination => {
+          const count = counts[denomination] || 0
+          return (
+            <div key={denomination} className="flex items-center gap-2">
+              <Label
+                htmlFor={`${idPrefix}-${denomination}`}
+                className="w-20 shrink-0 text-right text-xs"
+              >
+                Rp {denomination.toLocaleString('id-ID')}
+              </Label>
+              <Input
+                id={`${idPrefix}-${denomination}`}
+                type="number"
+                min={0}
+                className="h-8"
+                value={count || ''}
+                placeholder="0"
+                onChange={e => handleChange(denomination, e.target.value)}
+              />
+              <span className="w-24 shrink-0 text-right text-xs text-muted-foreground">
+                {count > 0
+                  ? `Rp ${(denomination * count).toLocaleString('id-ID')}`
+                  : ''}
+              </span>
+            </div>
+          )
+        })}
+      </div>
+      <div className="flex justify-between border-t pt-2 text-sm font-medium">
+        <span>Counted</span>
+        <span>Rp {total.toLocaleString('id-ID')}</span>
+      </div>
+    </div>
+  )
+}
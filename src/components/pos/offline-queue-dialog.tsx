@@ -0,0 +1,149 @@
+'use client'
+
+import { CloudOff, RefreshCw, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Badge } from '@/components/ui/badge'
+import type { OfflineSyncStatus, OfflineTransaction } from '@/types/pos'
+
+interface OfflineQueueDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  transactions: OfflineTransaction[]
+  isOnline: boolean
+  syncing: boolean
+  onSync: () => void
+  onAccept: (transaction: OfflineTransaction) => void
+  onRemove: (transaction: OfflineTransaction) => void
+}
+
+const statusBadges: Record<
+  OfflineSyncStatus,
+  {
+    label: string
+    variant: 'default' | 'secondary' | 'destructive' | 'outline'
+  }
+> = {
+  pending: { label: 'Pending', variant: 'secondary' },
+  syncing: { label: 'Syncing', variant: 'outline' },
+  synced: { label: 'Synced', variant: 'default' },
+  conflict: { label: 'Conflict', variant: 'destructive' },
+  failed: { label: 'Failed', variant: 'destructive' },
+}
+
+export function OfflineQueueDialog({
+  open,
+  onOpenChange,
+  transactions,
+  isOnline,
+  syncing,
+  onSync,
+  onAccept,
+  onRemove,
+}: OfflineQueueDialogProps) {
+  const formatTime = (dateString: string) => {
+    return new Intl.DateTimeFormat('id-ID', {
+      dateStyle: 'short',
+      timeStyle: 'short',
+    }).format(new Date(dateString))
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <CloudOff className="mr-2 h-5 w-5" />
+            Offline Sales
+          </DialogTitle>
+          <DialogDescription>
+            Sales made without a connection are synced when it returns
+          </DialogDescription>
+        </DialogHeader>
+
+        {transactions.length === 0 ? (
+          <div className="py-8 text-center text-sm text-muted-foreground">
+            No offline sales
+          </div>
+        ) : (
+          <div className="max-h-[400px] space-y-2 overflow-y-auto py-2">
+            {transactions.map(transaction => {
+              const badge = statusBadges[transaction.status]
+              return (
+                <div
+                  key={transaction.local_id}
+                  className="space-y-2 rounded-lg border p-3"
+                >
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="font-mono text-sm font-medium">
+                        {transaction.offline_number}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatTime(transaction.sold_at)}
+                        {transaction.transaction_number &&
+                          ` → ${transaction.transaction_number}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium">
+                        Rp {transaction.total.toLocaleString('id-ID')}
+                      </span>
+                      <Badge variant={badge.variant}>{badge.label}</Badge>
+                    </div>
+                  </div>
+
+                  {transaction.error && (
+                    <p className="text-sm text-red-600">{transaction.error}</p>
+                  )}
+
+                  {(transaction.status === 'conflict' ||
+                    transaction.status === 'synced') && (
+                    <div className="flex justify-end gap-2">
+                      {transaction.status === 'conflict' && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => onAccept(transaction)}
+                        >
+                          Sync Anyway
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onRemove(transaction)}
+                      >
+                        <Trash2 className="mr-2 h-4 w-4" />
+                        {transaction.status === 'synced' ? 'Clear' : 'Discard'}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button onClick={onSync} disabled={!isOnline || syncing}>
+            <RefreshCw
+              className={`mr-2 h-4 w-4 ${syncing ? 'animate-spin' : ''}`}
+            />
+            {isOnline ? 'Sync Now' : 'Offline'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
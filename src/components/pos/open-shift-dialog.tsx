@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { LogIn } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import {
@@ -13,9 +13,29 @@ import {
 } from '@/components/ui/dialog'
 import { Label } from '@/components/ui/label'
 import { Input } from '@/components/ui/input'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
 import { toast } from 'sonner'
-import { openShift } from '@/lib/pos/api'
-import type { PosShift } from '@/types/pos'
+import { DenominationCount } from '@/components/pos/denomination-count'
+import { getRegisters, getShifts, openShift } from '@/lib/pos/api'
+import {
+  getTerminalRegisterId,
+  saveTerminalRegisterId,
+} from '@/lib/pos/printer'
+import { sumDenominations } from '@/lib/pos/utils'
+import { getWarehouses } from '@/lib/inventory/api'
+import type {
+  DenominationCounts,
+  PosRegisterWithRelations,
+  PosShift,
+} from '@/types/pos'
+import type { Warehouse } from '@/types/inventory'
 
 interface OpenShiftDialogProps {
   open: boolean
@@ -29,8 +49,65 @@ export function OpenShiftDialog({
   onShiftOpened,
 }: OpenShiftDialogProps) {
   const [openingCash, setOpeningCash] = useState<number>(500000)
+  const [countByDenomination, setCountByDenomination] = useState(false)
+  const [denominations, setDenominations] = useState<DenominationCounts>({})
   const [notes, setNotes] = useState<string>('')
   const [loading, setLoading] = useState(false)
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([])
+  const [warehouseId, setWarehouseId] = useState<string>('')
+  const [registers, setRegisters] = useState<PosRegisterWithRelations[]>([])
+  const [busyRegisterIds, setBusyRegisterIds] = useState<string[]>([])
+  const [registerId, setRegisterId] = useState<string>('')
+
+  // Load warehouses when dialog opens, preselecting the default one
+  useEffect(() => {
+    if (!open) return
+
+    getWarehouses()
+      .then(data => {
+        setWarehouses(data)
+        const defaultWarehouse = data.find(w => w.is_default) || data[0]
+        setWarehouseId(current => current || defaultWarehouse?.id || '')
+      })
+      .catch(error => {
+        console.error('Error loading warehouses:', error)
+        toast.error('Failed to load warehouses')
+      })
+  }, [open])
+
+  // Load active registers and the ones already in use, preselecting the
+  // register this browser was last opened as
+  useEffect(() => {
+    if (!open) return
+
+    Promise.all([getRegisters(), getShifts({ status: 'open' })])
+      .then(([registersData, openShifts]) => {
+        const activeRegisters = registersData.filter(r => r.is_active)
+        const busyIds = openShifts
+          .map(shift => shift.register_id)
+          .filter((id): id is string => !!id)
+        const terminalRegisterId = getTerminalRegisterId()
+
+        setRegisters(activeRegisters)
+        setBusyRegisterIds(busyIds)
+        setRegisterId(
+          current =>
+            [current, terminalRegisterId].find(
+              id =>
+                !!id &&
+                !busyIds.includes(id) &&
+                activeRegisters.some(r => r.id === id)
+            ) || ''
+        )
+      })
+      .catch(error => {
+        console.error('Error loading registers:', error)
+        toast.error('Failed to load registers')
+      })
+  }, [open])
+
+  const usesRegisters = registers.length > 0
+  const selectedRegister = registers.find(r => r.id === registerId)
 
   const handleOpenShift = async () => {
     if (openingCash < 0) {
@@ -38,21 +115,38 @@ export function OpenShiftDialog({
       return
     }
 
+    if (usesRegisters && !registerId) {
+      toast.error('Please select the register for this shift')
+      return
+    }
+
+    if (!usesRegisters && !warehouseId) {
+      toast.error('Please select the warehouse for this shift')
+      return
+    }
+
     try {
       setLoading(true)
 
       const shift = await openShift({
         opening_cash: openingCash,
+        opening_denominations: countByDenomination ? denominations : undefined,
+        ...(usesRegisters
+          ? { register_id: registerId }
+          : { warehouse_id: warehouseId }),
         notes: notes || undefined,
       })
 
+      if (shift.register_id) {
+        saveTerminalRegisterId(shift.register_id)
+      }
+
       toast.success('Shift opened successfully')
       onShiftOpened(shift)
       onOpenChange(false)
 
       // Reset form
-      setOpeningCash(500000)
-      setNotes('')
+      resetForm()
     } catch (error) {
       console.error('Error opening shift:', error)
       toast.error(
@@ -65,19 +159,35 @@ export function OpenShiftDialog({
     }
   }
 
+  const resetForm = () => {
+    setOpeningCash(500000)
+    setCountByDenomination(false)
+    setDenominations({})
+    setNotes('')
+  }
+
   const handleClose = () => {
     if (!loading) {
       onOpenChange(false)
-      setOpeningCash(500000)
-      setNotes('')
+      resetForm()
     }
   }
 
+  const handleDenominationsChange = (counts: DenominationCounts) => {
+    setDenominations(counts)
+    setOpeningCash(sumDenominations(counts))
+  }
+
+  const handleCountByDenominationChange = (checked: boolean) => {
+    setCountByDenomination(checked)
+    if (checked) setOpeningCash(sumDenominations(denominations))
+  }
+
   const quickAmounts = [100000, 200000, 500000, 1000000]
 
   return (
     <Dialog open={open} onOpenChange={handleClose}>
-      <DialogContent className="max-w-md">
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center">
             <LogIn className="mr-2 h-5 w-5" />
@@ -89,43 +199,126 @@ export function OpenShiftDialog({
         </DialogHeader>
 
         <div className="space-y-4 py-4">
-          {/* Opening Cash Input */}
-          <div className="space-y-2">
-            <Label htmlFor="opening-cash">
-              Opening Cash <span className="text-red-500">*</span>
-            </Label>
-            <Input
-              id="opening-cash"
-              type="number"
-              placeholder="500000"
-              value={openingCash || ''}
-              onChange={e => setOpeningCash(parseFloat(e.target.value) || 0)}
-              min={0}
-              step={1000}
-            />
-            <p className="text-sm text-muted-foreground">
-              Current: Rp {openingCash.toLocaleString()}
-            </p>
-          </div>
+          {/* Register */}
+          {usesRegisters ? (
+            <div className="space-y-2">
+              <Label htmlFor="register">
+                Register <span className="text-red-500">*</span>
+              </Label>
+              <Select value={registerId} onValueChange={setRegisterId}>
+                <SelectTrigger id="register">
+                  <SelectValue placeholder="Select register" />
+                </SelectTrigger>
+                <SelectContent>
+                  {registers.map(register => (
+                    <SelectItem
+                      key={register.id}
+                      value={register.id}
+                      disabled={busyRegisterIds.includes(register.id)}
+                    >
+                      {register.name} ({register.code})
+                      {busyRegisterIds.includes(register.id) && ' - in use'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">
+                {selectedRegister?.warehouse
+                  ? `Sales in this shift deduct stock from ${selectedRegister.warehouse.name}`
+                  : "Sales in this shift deduct stock from the register's warehouse"}
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="warehouse">
+                Warehouse <span className="text-red-500">*</span>
+              </Label>
+              <Select value={warehouseId} onValueChange={setWarehouseId}>
+                <SelectTrigger id="warehouse">
+                  <SelectValue placeholder="Select warehouse" />
+                </SelectTrigger>
+                <SelectContent>
+                  {warehouses.map(warehouse => (
+                    <SelectItem key={warehouse.id} value={warehouse.id}>
+                      {warehouse.name} ({warehouse.code})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">
+                Sales in this shift deduct stock from this warehouse
+              </p>
+            </div>
+          )}
 
-          {/* Quick Amount Buttons */}
+          {/* Opening Cash */}
           <div className="space-y-2">
-            <Label>Quick Amounts</Label>
-            <div className="grid grid-cols-2 gap-2">
-              {quickAmounts.map(amount => (
-                <Button
-                  key={amount}
-                  variant="outline"
-                  size="sm"
-                  onClick={() => setOpeningCash(amount)}
-                  type="button"
+            <div className="flex items-center justify-between">
+              <Label htmlFor="opening-cash">
+                Opening Cash <span className="text-red-500">*</span>
+              </Label>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="opening-count-denominations"
+                  checked={countByDenomination}
+                  onCheckedChange={checked =>
+                    handleCountByDenominationChange(checked === true)
+                  }
+                />
+                <Label
+                  htmlFor="opening-count-denominations"
+                  className="text-sm font-normal"
                 >
-                  Rp {(amount / 1000).toFixed(0)}K
-                </Button>
-              ))}
+                  Count by denomination
+                </Label>
+              </div>
             </div>
+            {countByDenomination ? (
+              <DenominationCount
+                counts={denominations}
+                onChange={handleDenominationsChange}
+                idPrefix="opening-denomination"
+              />
+            ) : (
+              <>
+                <Input
+                  id="opening-cash"
+                  type="number"
+                  placeholder="500000"
+                  value={openingCash || ''}
+                  onChange={e =>
+                    setOpeningCash(parseFloat(e.target.value) || 0)
+                  }
+                  min={0}
+                  step={1000}
+                />
+                <p className="text-sm text-muted-foreground">
+                  Current: Rp {openingCash.toLocaleString()}
+                </p>
+              </>
+            )}
           </div>
 
+          {/* Quick Amount Buttons */}
+          {!countByDenomination && (
+            <div className="space-y-2">
+              <Label>Quick Amounts</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {quickAmounts.map(amount => (
+                  <Button
+                    key={amount}
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setOpeningCash(amount)}
+                    type="button"
+                  >
+                    Rp {(amount / 1000).toFixed(0)}K
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Notes */}
           <div className="space-y-2">
             <Label htmlFor="notes">Notes (Optional)</Label>
@@ -153,7 +346,10 @@ export function OpenShiftDialog({
           <Button variant="outline" onClick={handleClose} disabled={loading}>
             Cancel
           </Button>
-          <Button onClick={handleOpenShift} disabled={loading}>
+          <Button
+            onClick={handleOpenShift}
+            disabled={loading || (usesRegisters ? !registerId : !warehouseId)}
+          >
             {loading ? (
               <>
                 <span className="mr-2 h-4 w-4 animate-spin rounded-full border-2 border-background border-t-transparent"></span>
@@ -0,0 +1,170 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { PauseCircle, PlayCircle, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import type { PosParkedCartWithRelations } from '@/types/pos'
+
+interface ParkedCartsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  carts: PosParkedCartWithRelations[]
+  shiftId: string
+  cartItemCount: number // Items in the cart on screen
+  cartTotal: number
+  cartNotes: string
+  loading: boolean
+  onPark: (notes: string) => void
+  onRecall: (cart: PosParkedCartWithRelations) => void
+  onCancel: (cart: PosParkedCartWithRelations) => void
+}
+
+export function ParkedCartsDialog({
+  open,
+  onOpenChange,
+  carts,
+  shiftId,
+  cartItemCount,
+  cartTotal,
+  cartNotes,
+  loading,
+  onPark,
+  onRecall,
+  onCancel,
+}: ParkedCartsDialogProps) {
+  const [notes, setNotes] = useState<string>('')
+
+  useEffect(() => {
+    if (open) setNotes(cartNotes)
+  }, [open, cartNotes])
+
+  const formatTime = (dateString: string) => {
+    return new Intl.DateTimeFormat('id-ID', {
+      dateStyle: 'short',
+      timeStyle: 'short',
+    }).format(new Date(dateString))
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <PauseCircle className="mr-2 h-5 w-5" />
+            Parked Carts
+          </DialogTitle>
+          <DialogDescription>
+            Hold the current cart to serve the next customer, or recall a cart
+            parked on any register
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Park Current Cart */}
+        {cartItemCount > 0 && (
+          <div className="space-y-2 rounded-lg border bg-muted/50 p-3">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium">
+                Current cart: {cartItemCount} items
+              </span>
+              <span className="font-medium">
+                Rp {cartTotal.toLocaleString('id-ID')}
+              </span>
+            </div>
+            <Label htmlFor="park-notes">Notes (Optional)</Label>
+            <div className="flex gap-2">
+              <Input
+                id="park-notes"
+                placeholder="e.g. Customer fetching another size"
+                value={notes}
+                onChange={e => setNotes(e.target.value)}
+              />
+              <Button onClick={() => onPark(notes)} disabled={loading}>
+                <PauseCircle className="mr-2 h-4 w-4" />
+                Park
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {carts.length === 0 ? (
+          <div className="py-8 text-center text-sm text-muted-foreground">
+            No parked carts
+          </div>
+        ) : (
+          <div className="max-h-[400px] space-y-2 overflow-y-auto py-2">
+            {carts.map(cart => (
+              <div key={cart.id} className="space-y-2 rounded-lg border p-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium">
+                      {cart.customer?.name || 'Walk-in Customer'}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatTime(cart.created_at)} · {cart.items.length} items
+                      {cart.cashier && ` · ${cart.cashier.name}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium">
+                      Rp {Number(cart.total).toLocaleString('id-ID')}
+                    </span>
+                    {cart.shift_id !== shiftId && (
+                      <Badge variant="outline">Other register</Badge>
+                    )}
+                  </div>
+                </div>
+
+                {cart.notes && (
+                  <p className="text-sm text-muted-foreground">{cart.notes}</p>
+                )}
+
+                <div className="flex justify-end gap-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onCancel(cart)}
+                    disabled={loading}
+                  >
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Cancel
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onRecall(cart)}
+                    disabled={loading || cartItemCount > 0}
+                    title={
+                      cartItemCount > 0
+                        ? 'Park or clear the current cart first'
+                        : undefined
+                    }
+                  >
+                    <PlayCircle className="mr-2 h-4 w-4" />
+                    Recall
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
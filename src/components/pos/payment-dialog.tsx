@@ -1,7 +1,16 @@
 'use client'
 
 import { useState } from 'react'
-import { CreditCard, Banknote, Building2, Plus, X, Printer } from 'lucide-react'
+import {
+  CreditCard,
+  Banknote,
+  Building2,
+  Plus,
+  X,
+  Printer,
+  TicketPercent,
+  Loader2,
+} from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import {
   Dialog,
@@ -23,11 +32,12 @@ import {
 } from '@/components/ui/select'
 import { Badge } from '@/components/ui/badge'
 import { toast } from 'sonner'
+import { settlePayments } from '@/lib/pos/utils'
 import type { PaymentMethod } from '@/types/pos'
 
 interface Payment {
   method: PaymentMethod
-  amount: number
+  amount: number // Amount tendered
   reference?: string
 }
 
@@ -37,6 +47,11 @@ interface PaymentDialogProps {
   totalAmount: number
   onConfirm: (payments: Payment[], shouldPrint: boolean) => void
   loading?: boolean
+  availableCredit?: number | null // null when no customer is selected
+  qrisEnabled?: boolean // E-wallet lines are collected as a gateway QRIS
+  couponCodes?: string[] // Coupon codes entered for the sale
+  onApplyCoupon?: (code: string) => boolean | Promise<boolean> // False when refused
+  onRemoveCoupon?: (code: string) => void
 }
 
 export function PaymentDialog({
@@ -45,20 +60,42 @@ export function PaymentDialog({
   totalAmount,
   onConfirm,
   loading = false,
+  availableCredit = null,
+  qrisEnabled = false,
+  couponCodes = [],
+  onApplyCoupon,
+  onRemoveCoupon,
 }: PaymentDialogProps) {
   const [payments, setPayments] = useState<Payment[]>([
     { method: 'cash', amount: 0, reference: '' },
   ])
-  const [cashReceived, setCashReceived] = useState<number>(0)
   const [shouldPrintReceipt, setShouldPrintReceipt] = useState(false)
+  const [couponInput, setCouponInput] = useState('')
+  const [applyingCoupon, setApplyingCoupon] = useState(false)
 
-  // Calculate totals
-  const paidAmount = payments.reduce((sum, p) => sum + p.amount, 0)
-  const remainingAmount = totalAmount - paidAmount
-  const changeAmount =
-    payments.length === 1 && payments[0].method === 'cash'
-      ? Math.max(0, cashReceived - totalAmount)
-      : 0
+  // Settle the tendered lines the same way the server does
+  const settlement = settlePayments(
+    totalAmount,
+    payments.map(p => ({ payment_method: p.method, amount: p.amount }))
+  )
+  const paidAmount = settlement.amount_tendered
+  const remainingAmount = settlement.remaining_amount
+  const changeAmount = settlement.change_amount
+  const creditAmount = payments
+    .filter(p => p.method === 'credit')
+    .reduce((sum, p) => sum + p.amount, 0)
+  const creditError =
+    creditAmount <= 0
+      ? null
+      : availableCredit === null
+        ? 'Select a customer to sell on credit'
+        : creditAmount > availableCredit
+          ? `Credit exceeds the available Rp ${availableCredit.toLocaleString('id-ID')}`
+          : null
+  const qrisError =
+    qrisEnabled && payments.filter(p => p.method === 'e-wallet').length > 1
+      ? 'Only one QRIS payment per sale'
+      : null
 
   const handleAddPayment = () => {
     setPayments([...payments, { method: 'card', amount: 0, reference: '' }])
@@ -82,21 +119,36 @@ export function PaymentDialog({
 
   const handleQuickAmount = (amount: number) => {
     if (payments.length === 1 && payments[0].method === 'cash') {
-      setCashReceived(amount)
-      handlePaymentChange(0, 'amount', totalAmount)
+      handlePaymentChange(0, 'amount', amount)
+    }
+  }
+
+  const handleApplyCoupon = async () => {
+    const code = couponInput.trim()
+    if (!code || !onApplyCoupon) return
+
+    try {
+      setApplyingCoupon(true)
+      if (await onApplyCoupon(code)) setCouponInput('')
+    } finally {
+      setApplyingCoupon(false)
     }
   }
 
   const handleConfirm = () => {
     // Validate payments
-    if (paidAmount < totalAmount) {
+    if (remainingAmount > 0) {
       toast.error(
-        `Pembayaran kurang! Masih kurang Rp ${(totalAmount - paidAmount).toLocaleString('id-ID')}`
+        `Pembayaran kurang! Masih kurang Rp ${remainingAmount.toLocaleString('id-ID')}`
       )
       return
     }
+    if (settlement.error || creditError || qrisError) {
+      toast.error(settlement.error || creditError || qrisError)
+      return
+    }
 
-    // For single cash payment, use the actual payment amount (not cash received)
+    // Tendered amounts; change is settled from the cash lines
     const finalPayments = payments.map(p => ({
       method: p.method,
       amount: p.amount,
@@ -109,8 +161,8 @@ export function PaymentDialog({
   const handleClose = () => {
     // Reset state when closing
     setPayments([{ method: 'cash', amount: 0, reference: '' }])
-    setCashReceived(0)
     setShouldPrintReceipt(false)
+    setCouponInput('')
     onOpenChange(false)
   }
 
@@ -129,7 +181,7 @@ export function PaymentDialog({
 
   const isSingleCashPayment =
     payments.length === 1 && payments[0].method === 'cash'
-  const canConfirm = paidAmount >= totalAmount && !loading
+  const canConfirm = !settlement.error && !creditError && !qrisError && !loading
 
   return (
     <Dialog open={open} onOpenChange={handleClose}>
@@ -154,6 +206,56 @@ export function PaymentDialog({
             </div>
           </div>
 
+          {/* Coupon Codes */}
+          {onApplyCoupon && (
+            <div className="space-y-2">
+              <Label htmlFor="coupon_code">Coupon Code</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="coupon_code"
+                  placeholder="Enter coupon code"
+                  value={couponInput}
+                  onChange={e => setCouponInput(e.target.value)}
+                  onKeyDown={e => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault()
+                      if (!applyingCoupon) handleApplyCoupon()
+                    }
+                  }}
+                />
+                <Button
+                  variant="outline"
+                  onClick={handleApplyCoupon}
+                  disabled={!couponInput.trim() || applyingCoupon}
+                  type="button"
+                >
+                  {applyingCoupon ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <TicketPercent className="mr-2 h-4 w-4" />
+                  )}
+                  Apply
+                </Button>
+              </div>
+              {couponCodes.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {couponCodes.map(code => (
+                    <Badge key={code} variant="secondary" className="gap-1">
+                      {code}
+                      <button
+                        type="button"
+                        onClick={() => onRemoveCoupon?.(code)}
+                        aria-label={`Remove coupon ${code}`}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Quick Amount Buttons (for single cash payment) */}
           {isSingleCashPayment && (
             <div className="space-y-2">
@@ -244,12 +346,23 @@ export function PaymentDialog({
                         <SelectItem value="cash">Cash</SelectItem>
                         <SelectItem value="card">Card</SelectItem>
                         <SelectItem value="transfer">Transfer</SelectItem>
+                        <SelectItem value="e-wallet">
+                          {qrisEnabled ? 'QRIS (E-Wallet)' : 'E-Wallet'}
+                        </SelectItem>
+                        <SelectItem
+                          value="credit"
+                          disabled={availableCredit === null}
+                        >
+                          Credit (Customer Account)
+                        </SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
 
                   <div className="space-y-2">
-                    <Label>Amount</Label>
+                    <Label>
+                      {payment.method === 'cash' ? 'Cash Received' : 'Amount'}
+                    </Label>
                     <Input
                       type="number"
                       placeholder="0"
@@ -265,34 +378,27 @@ export function PaymentDialog({
                   </div>
                 </div>
 
-                {payment.method !== 'cash' && (
-                  <div className="space-y-2">
-                    <Label>Reference Number (Optional)</Label>
-                    <Input
-                      placeholder="Transaction reference"
-                      value={payment.reference || ''}
-                      onChange={e =>
-                        handlePaymentChange(index, 'reference', e.target.value)
-                      }
-                    />
-                  </div>
-                )}
-
-                {/* Cash Received (only for single cash payment) */}
-                {isSingleCashPayment && (
-                  <div className="space-y-2">
-                    <Label>Cash Received</Label>
-                    <Input
-                      type="number"
-                      placeholder="0"
-                      value={cashReceived || ''}
-                      onChange={e => {
-                        const received = parseFloat(e.target.value) || 0
-                        setCashReceived(received)
-                        handlePaymentChange(0, 'amount', totalAmount)
-                      }}
-                    />
-                  </div>
+                {payment.method === 'e-wallet' && qrisEnabled ? (
+                  <p className="text-sm text-muted-foreground">
+                    A QRIS code for this amount is shown after confirming
+                  </p>
+                ) : (
+                  payment.method !== 'cash' && (
+                    <div className="space-y-2">
+                      <Label>Reference Number (Optional)</Label>
+                      <Input
+                        placeholder="Transaction reference"
+                        value={payment.reference || ''}
+                        onChange={e =>
+                          handlePaymentChange(
+                            index,
+                            'reference',
+                            e.target.value
+                          )
+                        }
+                      />
+                    </div>
+                  )
                 )}
               </div>
             ))}
@@ -323,7 +429,7 @@ export function PaymentDialog({
                 </div>
               </div>
             )}
-            {isSingleCashPayment && changeAmount > 0 && (
+            {changeAmount > 0 && (
               <div className="flex justify-between border-t pt-2">
                 <span className="font-medium">Change</span>
                 <span className="text-lg font-bold text-green-600">
@@ -336,6 +442,16 @@ export function PaymentDialog({
                 <Badge variant="secondary">Split Payment</Badge>
               </div>
             )}
+            {availableCredit !== null && (
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Available Credit</span>
+                <span>Rp {availableCredit.toLocaleString()}</span>
+              </div>
+            )}
+            {creditError && (
+              <p className="text-sm text-red-500">{creditError}</p>
+            )}
+            {qrisError && <p className="text-sm text-red-500">{qrisError}</p>}
           </div>
         </div>
 
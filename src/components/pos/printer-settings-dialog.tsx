@@ -0,0 +1,316 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Printer } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import { Input } from '@/components/ui/input'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { toast } from 'sonner'
+import {
+  connectPrinter,
+  getPrinterSettings,
+  isTransportSupported,
+  openCashDrawer,
+  savePrinterSettings,
+  sendToPrinter,
+  PRINTER_TRANSPORTS,
+  RECEIPT_CODE_PAGES,
+} from '@/lib/pos/printer'
+import { renderEscPos } from '@/lib/pos/escpos'
+import { DEFAULT_RECEIPT_BRANDING } from '@/lib/pos/receipt'
+import type {
+  PrinterSettings,
+  PrinterTransport,
+  ReceiptBarcodeType,
+  ReceiptCodePage,
+  ReceiptModel,
+} from '@/types/pos'
+
+interface PrinterSettingsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const barcodeTypes: { value: ReceiptBarcodeType; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'code128', label: 'Barcode (Code 128)' },
+  { value: 'qr', label: 'QR code' },
+]
+
+// Sample printed by "Test Print"
+const TEST_RECEIPT: ReceiptModel = {
+  company: DEFAULT_RECEIPT_BRANDING.company,
+  header: null,
+  transaction_number: 'TEST-0001',
+  offline_number: null,
+  date: new Date().toISOString(),
+  cashier: 'Test',
+  customer: null,
+  lines: [
+    {
+      name: 'Test Item',
+      quantity: 1,
+      unit_price: 10000,
+      discount_amount: 0,
+      discount_note: null,
+      subtotal: 10000,
+    },
+  ],
+  promotions: [],
+  subtotal: 10000,
+  discount_amount: 0,
+  dpp_amount: 10000,
+  tax_label: 'PPN 0%',
+  tax_amount: 0,
+  total: 10000,
+  payment_method: 'CASH',
+  payments: [{ method: 'cash', amount: 10000 }],
+  change_amount: 0,
+  has_cash_payment: true,
+  footer: ['Test Print'],
+}
+
+export function PrinterSettingsDialog({
+  open,
+  onOpenChange,
+}: PrinterSettingsDialogProps) {
+  const [settings, setSettings] = useState<PrinterSettings>(getPrinterSettings)
+  const [testing, setTesting] = useState(false)
+
+  useEffect(() => {
+    if (open) setSettings(getPrinterSettings())
+  }, [open])
+
+  const update = (changes: Partial<PrinterSettings>) =>
+    setSettings(current => ({ ...current, ...changes }))
+
+  const isThermal = settings.transport !== 'html'
+  const needsDevice =
+    settings.transport === 'usb' || settings.transport === 'serial'
+
+  const handleConnect = async () => {
+    try {
+      await connectPrinter(settings.transport)
+      toast.success('Printer connected')
+    } catch (error) {
+      console.error('Error connecting printer:', error)
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to connect printer'
+      )
+    }
+  }
+
+  const handleTest = async () => {
+    try {
+      setTesting(true)
+      await sendToPrinter(renderEscPos(TEST_RECEIPT, settings), settings)
+      if (settings.open_drawer) await openCashDrawer(settings)
+      toast.success('Test receipt sent')
+    } catch (error) {
+      console.error('Error printing test receipt:', error)
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to print test receipt'
+      )
+    } finally {
+      setTesting(false)
+    }
+  }
+
+  const handleSave = () => {
+    savePrinterSettings(settings)
+    toast.success('Printer settings saved for this register')
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Printer className="mr-2 h-5 w-5" />
+            Receipt Printer
+          </DialogTitle>
+          <DialogDescription>
+            Settings are saved on this register only
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="printer-transport">Printer</Label>
+            <Select
+              value={settings.transport}
+              onValueChange={value =>
+                update({ transport: value as PrinterTransport })
+              }
+            >
+              <SelectTrigger id="printer-transport">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PRINTER_TRANSPORTS.map(transport => (
+                  <SelectItem
+                    key={transport.value}
+                    value={transport.value}
+                    disabled={!isTransportSupported(transport.value)}
+                  >
+                    {transport.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {settings.transport === 'bridge' && (
+            <div className="space-y-2">
+              <Label htmlFor="printer-bridge-url">Bridge URL</Label>
+              <Input
+                id="printer-bridge-url"
+                value={settings.bridge_url}
+                onChange={e => update({ bridge_url: e.target.value })}
+              />
+              <p className="text-xs text-muted-foreground">
+                Receipts are POSTed as raw ESC/POS bytes
+              </p>
+            </div>
+          )}
+
+          {settings.transport === 'serial' && (
+            <div className="space-y-2">
+              <Label htmlFor="printer-baud-rate">Baud Rate</Label>
+              <Input
+                id="printer-baud-rate"
+                type="number"
+                value={settings.serial_baud_rate}
+                onChange={e =>
+                  update({
+                    serial_baud_rate: parseInt(e.target.value) || 9600,
+                  })
+                }
+              />
+            </div>
+          )}
+
+          {isThermal && (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="printer-paper">Paper Width</Label>
+                  <Select
+                    value={String(settings.paper_width)}
+                    onValueChange={value =>
+                      update({ paper_width: value === '58' ? 58 : 80 })
+                    }
+                  >
+                    <SelectTrigger id="printer-paper">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="58">58 mm</SelectItem>
+                      <SelectItem value="80">80 mm</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="printer-code-page">Code Page</Label>
+                  <Select
+                    value={settings.code_page}
+                    onValueChange={value =>
+                      update({ code_page: value as ReceiptCodePage })
+                    }
+                  >
+                    <SelectTrigger id="printer-code-page">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {RECEIPT_CODE_PAGES.map(codePage => (
+                        <SelectItem key={codePage.value} value={codePage.value}>
+                          {codePage.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="printer-barcode">Transaction Code</Label>
+                <Select
+                  value={settings.barcode}
+                  onValueChange={value =>
+                    update({ barcode: value as ReceiptBarcodeType })
+                  }
+                >
+                  <SelectTrigger id="printer-barcode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {barcodeTypes.map(barcode => (
+                      <SelectItem key={barcode.value} value={barcode.value}>
+                        {barcode.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="printer-logo"
+                  checked={settings.print_logo}
+                  onCheckedChange={checked =>
+                    update({ print_logo: checked === true })
+                  }
+                />
+                <Label htmlFor="printer-logo">Print company logo</Label>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="printer-drawer"
+                  checked={settings.open_drawer}
+                  onCheckedChange={checked =>
+                    update({ open_drawer: checked === true })
+                  }
+                />
+                <Label htmlFor="printer-drawer">
+                  Open cash drawer on cash sales
+                </Label>
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          {needsDevice && (
+            <Button variant="outline" onClick={handleConnect}>
+              Connect Printer
+            </Button>
+          )}
+          {isThermal && (
+            <Button variant="outline" onClick={handleTest} disabled={testing}>
+              {testing ? 'Printing...' : 'Test Print'}
+            </Button>
+          )}
+          <Button onClick={handleSave}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
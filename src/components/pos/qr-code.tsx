@@ -0,0 +1,29 @@
+'use client'
+
+import { useMemo } from 'react'
+import { encodeQr, qrSvgPath } from '@/lib/pos/qr'
+
+interface QrCodeProps {
+  value: string
+  className?: string
+}
+
+/**
+ * QR code drawn as an SVG; scales to the size of its container
+ */
+export function QrCode({ value, className }: QrCodeProps) {
+  const { size, path } = useMemo(() => qrSvgPath(encodeQr(value)), [value])
+
+  return (
+    <svg
+      viewBox={`0 0 ${size} ${size}`}
+      className={className}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label="QR code"
+    >
+      <rect width={size} height={size} fill="#fff" />
+      <path d={path} fill="#000" />
+    </svg>
+  )
+}
@@ -0,0 +1,243 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { CheckCircle2, Clock, Loader2, QrCode as QrIcon } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { QrCode } from '@/components/pos/qr-code'
+import {
+  cancelQrisCharge,
+  createQrisCharge,
+  getQrisCharge,
+  simulateQrisPayment,
+} from '@/lib/pos/api'
+import { formatCurrency } from '@/lib/utils'
+import type { PosPayment, PosQrisCharge } from '@/types/pos'
+
+// How often the gateway is asked whether the customer has paid
+const POLL_SECONDS = 3
+
+interface QrisPaymentDialogProps {
+  open: boolean
+  payment: PosPayment | null // Pending line to collect
+  transactionNumber: string
+  onPaid: () => void
+  onLeftPending: () => void // Cancelled, timed out or closed unpaid
+  onChargeChange?: (charge: PosQrisCharge | null) => void
+}
+
+/**
+ * QRIS Payment Dialog
+ * Shows a dynamic QRIS code for a pending payment line and waits for the
+ * gateway to settle it. Cancelling, or letting the code expire, leaves the
+ * sale pending so it can be charged again or voided later.
+ */
+export function QrisPaymentDialog({
+  open,
+  payment,
+  transactionNumber,
+  onPaid,
+  onLeftPending,
+  onChargeChange,
+}: QrisPaymentDialogProps) {
+  const [charge, setCharge] = useState<PosQrisCharge | null>(null)
+  const [creating, setCreating] = useState(false)
+  const [cancelling, setCancelling] = useState(false)
+  const [simulating, setSimulating] = useState(false)
+  const [now, setNow] = useState(() => Date.now())
+  const onPaidRef = useRef(onPaid)
+  const onChargeChangeRef = useRef(onChargeChange)
+
+  useEffect(() => {
+    onPaidRef.current = onPaid
+    onChargeChangeRef.current = onChargeChange
+  }, [onPaid, onChargeChange])
+
+  const startCharge = useCallback(async (payment_id: string) => {
+    try {
+      setCreating(true)
+      setCharge(await createQrisCharge(payment_id))
+    } catch (error) {
+      console.error('Error creating QRIS charge:', error)
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to create QRIS code'
+      )
+    } finally {
+      setCreating(false)
+    }
+  }, [])
+
+  // A fresh code each time the dialog opens for a payment line
+  useEffect(() => {
+    if (!open || !payment) return
+
+    setCharge(null)
+    startCharge(payment.id)
+  }, [open, payment, startCharge])
+
+  useEffect(() => {
+    onChargeChangeRef.current?.(open ? charge : null)
+  }, [open, charge])
+
+  const pending = open && charge?.status === 'pending'
+  const chargeId = charge?.id
+
+  // Poll for settlement and count down to the code's expiry
+  useEffect(() => {
+    if (!pending || !chargeId) return
+
+    const poll = setInterval(() => {
+      getQrisCharge(chargeId)
+        .then(setCharge)
+        .catch(error => console.error('Error checking QRIS charge:', error))
+    }, POLL_SECONDS * 1000)
+    const tick = setInterval(() => setNow(Date.now()), 1000)
+
+    return () => {
+      clearInterval(poll)
+      clearInterval(tick)
+    }
+  }, [pending, chargeId])
+
+  useEffect(() => {
+    if (open && charge?.status === 'paid') onPaidRef.current()
+  }, [open, charge?.status])
+
+  const handleLeavePending = async () => {
+    if (charge?.status === 'pending') {
+      try {
+        setCancelling(true)
+        setCharge(await cancelQrisCharge(charge.id))
+      } catch (error) {
+        // The code still runs out on its own
+        console.error('Error cancelling QRIS charge:', error)
+      } finally {
+        setCancelling(false)
+      }
+    }
+    onLeftPending()
+  }
+
+  const handleSimulate = async () => {
+    if (!charge) return
+    try {
+      setSimulating(true)
+      await simulateQrisPayment(charge)
+      setCharge(await getQrisCharge(charge.id))
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to simulate payment'
+      )
+    } finally {
+      setSimulating(false)
+    }
+  }
+
+  const secondsLeft = charge
+    ? Math.max(
+        Math.ceil((new Date(charge.expires_at).getTime() - now) / 1000),
+        0
+      )
+    : 0
+  const ended = charge?.status === 'expired' || charge?.status === 'cancelled'
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={isOpen => {
+        if (!isOpen && !cancelling && charge?.status !== 'paid') {
+          handleLeavePending()
+        }
+      }}
+    >
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <QrIcon className="mr-2 h-5 w-5" />
+            QRIS Payment
+          </DialogTitle>
+          <DialogDescription>
+            Transaction {transactionNumber} is completed once the customer has
+            paid
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 text-center">
+          <div className="text-3xl font-bold">
+            {formatCurrency(Number(payment?.amount || 0))}
+          </div>
+
+          {creating || !charge ? (
+            <div className="flex h-64 items-center justify-center text-muted-foreground">
+              {creating ? (
+                <Loader2 className="h-8 w-8 animate-spin" />
+              ) : (
+                'No QRIS code'
+              )}
+            </div>
+          ) : charge.status === 'paid' ? (
+            <div className="flex h-64 flex-col items-center justify-center gap-2">
+              <CheckCircle2 className="h-16 w-16 text-green-600" />
+              <div className="text-lg font-medium">Payment received</div>
+            </div>
+          ) : ended ? (
+            <div className="flex h-64 flex-col items-center justify-center gap-2 text-muted-foreground">
+              <Clock className="h-12 w-12" />
+              <div>
+                {charge.status === 'expired'
+                  ? 'The QRIS code has expired'
+                  : 'The QRIS code was cancelled'}
+              </div>
+            </div>
+          ) : (
+            <>
+              <QrCode
+                value={charge.qris_payload}
+                className="mx-auto aspect-square w-64"
+              />
+              <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Waiting for payment •{' '}
+                {`${Math.floor(secondsLeft / 60)}:${String(secondsLeft % 60).padStart(2, '0')}`}
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          {charge?.gateway === 'mock' && pending && (
+            <Button
+              variant="secondary"
+              onClick={handleSimulate}
+              disabled={simulating}
+            >
+              {simulating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Simulate Payment
+            </Button>
+          )}
+          {(ended || (!creating && !charge)) && payment && (
+            <Button variant="secondary" onClick={() => startCharge(payment.id)}>
+              New QRIS Code
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            onClick={handleLeavePending}
+            disabled={cancelling || creating || charge?.status === 'paid'}
+          >
+            {cancelling && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {pending ? 'Cancel' : 'Leave Pending'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
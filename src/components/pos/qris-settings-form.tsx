@@ -0,0 +1,145 @@
+'use client'
+
+import { useEffect } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Loader2 } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+
+import {
+  qrisSettingsFormSchema,
+  type QrisSettingsFormData,
+} from '@/lib/pos/validation'
+import { PAYMENT_GATEWAYS } from '@/lib/pos/payment-gateway'
+import type { PosSettings } from '@/types/pos'
+
+interface QrisSettingsFormProps {
+  settings: PosSettings | null
+  onSubmit: (data: QrisSettingsFormData) => Promise<void>
+  isLoading?: boolean
+}
+
+/**
+ * QRIS Settings Form
+ * The merchant's static QRIS code, shown on the customer display at checkout,
+ * and the gateway that charges e-wallet payments as a dynamic QRIS
+ */
+export function QrisSettingsForm({
+  settings,
+  onSubmit,
+  isLoading = false,
+}: QrisSettingsFormProps) {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    watch,
+    setValue,
+  } = useForm<QrisSettingsFormData>({
+    resolver: zodResolver(qrisSettingsFormSchema),
+  })
+
+  useEffect(() => {
+    reset({
+      qris_payload: settings?.qris_payload || '',
+      payment_gateway: settings?.payment_gateway || 'none',
+      qris_expiry_minutes: settings?.qris_expiry_minutes || 5,
+    })
+  }, [settings, reset])
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="qris-payload">QRIS Code</Label>
+        <Textarea
+          id="qris-payload"
+          rows={4}
+          placeholder="000201010211..."
+          className="font-mono text-xs"
+          {...register('qris_payload')}
+          disabled={isLoading}
+        />
+        {errors.qris_payload ? (
+          <p className="text-sm text-red-500">{errors.qris_payload.message}</p>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            The text in your static QRIS code. The customer display shows it
+            with the amount due filled in.
+          </p>
+        )}
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="payment-gateway">Payment Gateway</Label>
+          <Select
+            value={watch('payment_gateway')}
+            onValueChange={value =>
+              setValue(
+                'payment_gateway',
+                value as QrisSettingsFormData['payment_gateway']
+              )
+            }
+            disabled={isLoading}
+          >
+            <SelectTrigger id="payment-gateway">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">None (manual reference)</SelectItem>
+              {PAYMENT_GATEWAYS.map(gateway => (
+                <SelectItem key={gateway.value} value={gateway.value}>
+                  {gateway.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            E-wallet payments in the POS are charged as a QRIS for the exact
+            amount and complete when the gateway confirms them
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="qris-expiry">QRIS Expiry (minutes)</Label>
+          <Input
+            id="qris-expiry"
+            type="number"
+            min={1}
+            max={60}
+            {...register('qris_expiry_minutes', { valueAsNumber: true })}
+            disabled={isLoading}
+          />
+          {errors.qris_expiry_minutes ? (
+            <p className="text-sm text-red-500">
+              {errors.qris_expiry_minutes.message}
+            </p>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              Unpaid codes expire and leave the sale pending
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <Button type="submit" disabled={isLoading}>
+          {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save QRIS
+        </Button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,265 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { HandCoins } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Badge } from '@/components/ui/badge'
+import { toast } from 'sonner'
+import { getCustomerReceivables } from '@/lib/customers/api'
+import { createSalesPayment } from '@/lib/sales/api'
+import type { Customer, CustomerReceivables } from '@/types/customers'
+import type { PaymentMethod } from '@/types/sales'
+
+interface ReceivablePaymentDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  customer: Customer
+  shiftId: string
+  onReceived: () => void
+}
+
+const paymentMethods: { value: PaymentMethod; label: string }[] = [
+  { value: 'cash', label: 'Cash' },
+  { value: 'card', label: 'Card' },
+  { value: 'transfer', label: 'Transfer' },
+]
+
+export function ReceivablePaymentDialog({
+  open,
+  onOpenChange,
+  customer,
+  shiftId,
+  onReceived,
+}: ReceivablePaymentDialogProps) {
+  const [receivables, setReceivables] = useState<CustomerReceivables | null>(
+    null
+  )
+  const [invoiceId, setInvoiceId] = useState<string>('')
+  const [amount, setAmount] = useState<number>(0)
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('cash')
+  const [reference, setReference] = useState<string>('')
+  const [loading, setLoading] = useState(false)
+
+  // Load the customer's open invoices whenever the dialog opens
+  useEffect(() => {
+    if (!open) return
+
+    setInvoiceId('')
+    setAmount(0)
+    setPaymentMethod('cash')
+    setReference('')
+    setReceivables(null)
+
+    getCustomerReceivables(customer.id)
+      .then(data => {
+        setReceivables(data)
+        if (data.invoices.length > 0) {
+          setInvoiceId(data.invoices[0].id)
+          setAmount(data.invoices[0].remaining_amount)
+        }
+      })
+      .catch(error => {
+        console.error('Error loading receivables:', error)
+        toast.error('Failed to load receivables')
+      })
+  }, [open, customer.id])
+
+  const selectedInvoice = receivables?.invoices.find(
+    invoice => invoice.id === invoiceId
+  )
+
+  const handleInvoiceChange = (value: string) => {
+    setInvoiceId(value)
+    const invoice = receivables?.invoices.find(i => i.id === value)
+    setAmount(invoice?.remaining_amount || 0)
+  }
+
+  const handleSubmit = async () => {
+    if (!selectedInvoice) {
+      toast.error('Select an invoice')
+      return
+    }
+    if (amount <= 0 || amount > selectedInvoice.remaining_amount) {
+      toast.error(
+        `Amount must be between Rp 1 and Rp ${selectedInvoice.remaining_amount.toLocaleString('id-ID')}`
+      )
+      return
+    }
+
+    try {
+      setLoading(true)
+
+      await createSalesPayment({
+        invoice_id: selectedInvoice.id,
+        shift_id: shiftId,
+        payment_method: paymentMethod,
+        amount,
+        reference_number: reference || undefined,
+      })
+
+      toast.success(
+        `Payment of Rp ${amount.toLocaleString('id-ID')} received for ${selectedInvoice.invoice_number}`
+      )
+      onReceived()
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Error receiving payment:', error)
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to receive payment'
+      )
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleClose = () => {
+    if (!loading) {
+      onOpenChange(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <HandCoins className="mr-2 h-5 w-5" />
+            Receive Payment
+          </DialogTitle>
+          <DialogDescription>
+            Collect an outstanding credit balance from {customer.name}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!receivables ? (
+          <div className="py-8 text-center text-sm text-muted-foreground">
+            Loading receivables...
+          </div>
+        ) : receivables.invoices.length === 0 ? (
+          <div className="py-8 text-center text-sm text-muted-foreground">
+            This customer has no outstanding invoices
+          </div>
+        ) : (
+          <div className="space-y-4 py-4">
+            {/* Balance */}
+            <div className="rounded-lg bg-muted p-3 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Outstanding</span>
+                <span className="font-medium">
+                  Rp {receivables.outstanding.toLocaleString('id-ID')}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Credit Limit</span>
+                <span>
+                  Rp {receivables.credit_limit.toLocaleString('id-ID')}
+                </span>
+              </div>
+            </div>
+
+            {/* Invoice */}
+            <div className="space-y-2">
+              <Label htmlFor="receivable-invoice">Invoice</Label>
+              <Select value={invoiceId} onValueChange={handleInvoiceChange}>
+                <SelectTrigger id="receivable-invoice">
+                  <SelectValue placeholder="Select an invoice" />
+                </SelectTrigger>
+                <SelectContent>
+                  {receivables.invoices.map(invoice => (
+                    <SelectItem key={invoice.id} value={invoice.id}>
+                      {invoice.invoice_number} — Rp{' '}
+                      {invoice.remaining_amount.toLocaleString('id-ID')}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedInvoice && selectedInvoice.days_overdue > 0 && (
+                <Badge variant="destructive">
+                  {selectedInvoice.days_overdue} days overdue
+                </Badge>
+              )}
+            </div>
+
+            {/* Amount & Method */}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="receivable-amount">Amount</Label>
+                <Input
+                  id="receivable-amount"
+                  type="number"
+                  value={amount || ''}
+                  onChange={e => setAmount(parseFloat(e.target.value) || 0)}
+                  min={0}
+                  max={selectedInvoice?.remaining_amount}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="receivable-method">Payment Method</Label>
+                <Select
+                  value={paymentMethod}
+                  onValueChange={value =>
+                    setPaymentMethod(value as PaymentMethod)
+                  }
+                >
+                  <SelectTrigger id="receivable-method">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {paymentMethods.map(method => (
+                      <SelectItem key={method.value} value={method.value}>
+                        {method.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {paymentMethod !== 'cash' && (
+              <div className="space-y-2">
+                <Label htmlFor="receivable-reference">
+                  Reference Number (Optional)
+                </Label>
+                <Input
+                  id="receivable-reference"
+                  placeholder="Transaction reference"
+                  value={reference}
+                  onChange={e => setReference(e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose} disabled={loading}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={loading || !selectedInvoice || amount <= 0}
+          >
+            {loading ? 'Processing...' : 'Receive Payment'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
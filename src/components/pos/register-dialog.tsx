@@ -0,0 +1,351 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Loader2, Monitor } from 'lucide-react'
+import { toast } from 'sonner'
+
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+
+import { registerFormSchema, type RegisterFormData } from '@/lib/pos/validation'
+import { createRegister, updateRegister } from '@/lib/pos/api'
+import {
+  DEFAULT_PRINTER_SETTINGS,
+  PRINTER_TRANSPORTS,
+  RECEIPT_CODE_PAGES,
+} from '@/lib/pos/printer'
+import type { Warehouse } from '@/types/inventory'
+import type {
+  PosRegister,
+  PosRegisterWithRelations,
+  PrinterTransport,
+  ReceiptCodePage,
+} from '@/types/pos'
+
+interface RegisterDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  register: PosRegisterWithRelations | null // Null to create one
+  warehouses: Warehouse[]
+  onSaved: (register: PosRegister) => void
+}
+
+function toFormValues(
+  register: PosRegisterWithRelations | null,
+  warehouses: Warehouse[]
+): RegisterFormData {
+  const printer = { ...DEFAULT_PRINTER_SETTINGS, ...register?.printer_settings }
+  const defaultWarehouse = warehouses.find(w => w.is_default) || warehouses[0]
+
+  return {
+    name: register?.name || '',
+    code: register?.code || '',
+    warehouse_id: register?.warehouse_id || defaultWarehouse?.id || '',
+    receipt_header: register?.receipt_header || '',
+    receipt_footer: register?.receipt_footer || '',
+    transport: printer.transport,
+    paper_width: printer.paper_width,
+    code_page: printer.code_page,
+    open_drawer: printer.open_drawer,
+    is_active: register?.is_active ?? true,
+  }
+}
+
+export function RegisterDialog({
+  open,
+  onOpenChange,
+  register: editing,
+  warehouses,
+  onSaved,
+}: RegisterDialogProps) {
+  const [isLoading, setIsLoading] = useState(false)
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    watch,
+    setValue,
+  } = useForm<RegisterFormData>({
+    resolver: zodResolver(registerFormSchema),
+    defaultValues: toFormValues(editing, warehouses),
+  })
+
+  // Start from the register being edited each time the dialog opens
+  useEffect(() => {
+    if (open) reset(toFormValues(editing, warehouses))
+  }, [open, editing, warehouses, reset])
+
+  const onSubmit = async (data: RegisterFormData) => {
+    const input = {
+      name: data.name,
+      code: data.code.trim().toUpperCase(),
+      warehouse_id: data.warehouse_id,
+      printer_settings: {
+        ...editing?.printer_settings,
+        transport: data.transport,
+        paper_width: data.paper_width,
+        code_page: data.code_page,
+        open_drawer: data.open_drawer,
+      },
+      receipt_header: data.receipt_header || null,
+      receipt_footer: data.receipt_footer || null,
+      is_active: data.is_active,
+    }
+
+    try {
+      setIsLoading(true)
+      const saved = editing
+        ? await updateRegister({ id: editing.id, ...input })
+        : await createRegister(input)
+
+      toast.success(editing ? 'Register updated' : 'Register created')
+      onSaved(saved)
+      onOpenChange(false)
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to save register'
+      )
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={isLoading ? undefined : onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit(onSubmit)}>
+          <DialogHeader>
+            <DialogTitle className="flex items-center">
+              <Monitor className="mr-2 h-5 w-5" />
+              {editing ? 'Edit Register' : 'New Register'}
+            </DialogTitle>
+            <DialogDescription>
+              Shifts opened on this register sell from its warehouse
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="col-span-2 grid gap-2">
+                <Label htmlFor="register-name">
+                  Name <span className="text-red-500">*</span>
+                </Label>
+                <Input
+                  id="register-name"
+                  placeholder="e.g., Kassa Depan"
+                  {...register('name')}
+                  disabled={isLoading}
+                />
+                {errors.name && (
+                  <p className="text-sm text-red-500">{errors.name.message}</p>
+                )}
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="register-code">
+                  Code <span className="text-red-500">*</span>
+                </Label>
+                <Input
+                  id="register-code"
+                  placeholder="e.g., K01"
+                  {...register('code')}
+                  disabled={isLoading}
+                />
+                {errors.code && (
+                  <p className="text-sm text-red-500">{errors.code.message}</p>
+                )}
+              </div>
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="register-warehouse">
+                Warehouse <span className="text-red-500">*</span>
+              </Label>
+              <Select
+                value={watch('warehouse_id')}
+                onValueChange={value =>
+                  setValue('warehouse_id', value, { shouldValidate: true })
+                }
+                disabled={isLoading}
+              >
+                <SelectTrigger id="register-warehouse">
+                  <SelectValue placeholder="Select warehouse" />
+                </SelectTrigger>
+                <SelectContent>
+                  {warehouses.map(warehouse => (
+                    <SelectItem key={warehouse.id} value={warehouse.id}>
+                      {warehouse.name} ({warehouse.code})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {errors.warehouse_id && (
+                <p className="text-sm text-red-500">
+                  {errors.warehouse_id.message}
+                </p>
+              )}
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="register-printer">Default Printer</Label>
+              <Select
+                value={watch('transport')}
+                onValueChange={value =>
+                  setValue('transport', value as PrinterTransport)
+                }
+                disabled={isLoading}
+              >
+                <SelectTrigger id="register-printer">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PRINTER_TRANSPORTS.map(transport => (
+                    <SelectItem key={transport.value} value={transport.value}>
+                      {transport.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Printer settings saved on the terminal itself take precedence
+              </p>
+            </div>
+
+            {watch('transport') !== 'html' && (
+              <>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="grid gap-2">
+                    <Label htmlFor="register-paper">Paper Width</Label>
+                    <Select
+                      value={String(watch('paper_width'))}
+                      onValueChange={value =>
+                        setValue('paper_width', value === '58' ? 58 : 80)
+                      }
+                      disabled={isLoading}
+                    >
+                      <SelectTrigger id="register-paper">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="58">58 mm</SelectItem>
+                        <SelectItem value="80">80 mm</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="register-code-page">Code Page</Label>
+                    <Select
+                      value={watch('code_page')}
+                      onValueChange={value =>
+                        setValue('code_page', value as ReceiptCodePage)
+                      }
+                      disabled={isLoading}
+                    >
+                      <SelectTrigger id="register-code-page">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {RECEIPT_CODE_PAGES.map(codePage => (
+                          <SelectItem
+                            key={codePage.value}
+                            value={codePage.value}
+                          >
+                            {codePage.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="register-drawer"
+                    checked={watch('open_drawer')}
+                    onCheckedChange={checked =>
+                      setValue('open_drawer', checked === true)
+                    }
+                    disabled={isLoading}
+                  />
+                  <Label htmlFor="register-drawer">
+                    Open cash drawer on cash sales
+                  </Label>
+                </div>
+              </>
+            )}
+
+            <div className="grid gap-2">
+              <Label htmlFor="register-receipt-header">Receipt Header</Label>
+              <Textarea
+                id="register-receipt-header"
+                placeholder="Leave empty to use the receipt template"
+                rows={2}
+                {...register('receipt_header')}
+                disabled={isLoading}
+              />
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="register-receipt-footer">Receipt Footer</Label>
+              <Textarea
+                id="register-receipt-footer"
+                placeholder="Leave empty to use the receipt template"
+                rows={3}
+                {...register('receipt_footer')}
+                disabled={isLoading}
+              />
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="register-active"
+                checked={watch('is_active')}
+                onCheckedChange={checked =>
+                  setValue('is_active', checked === true)
+                }
+                disabled={isLoading}
+              />
+              <Label htmlFor="register-active">Active</Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isLoading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading}>
+              {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {editing ? 'Save Register' : 'Create Register'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,351 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Undo2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { toast } from 'sonner'
+import { createReturn, getReturnedQuantity } from '@/lib/pos/api'
+import { getItemPaidValue } from '@/lib/pos/utils'
+import type {
+  CreateApprovalInput,
+  PosApproval,
+  PosReturn,
+  PosReturnWithItems,
+  PosTransactionWithRelations,
+  RefundMethod,
+} from '@/types/pos'
+
+interface ReturnDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  transaction: PosTransactionWithRelations
+  returns: PosReturnWithItems[]
+  onReturned: (posReturn: PosReturn) => void
+  // Set when the approval policy covers refunds
+  requestApproval?: (input: CreateApprovalInput) => Promise<PosApproval | null>
+}
+
+const refundMethods: { value: RefundMethod; label: string }[] = [
+  { value: 'cash', label: 'Cash' },
+  { value: 'card', label: 'Card' },
+  { value: 'transfer', label: 'Transfer' },
+  { value: 'e-wallet', label: 'E-Wallet' },
+  { value: 'credit', label: 'Store Credit' },
+]
+
+export function ReturnDialog({
+  open,
+  onOpenChange,
+  transaction,
+  returns,
+  onReturned,
+  requestApproval,
+}: ReturnDialogProps) {
+  const [quantities, setQuantities] = useState<Record<string, number>>({})
+  const [refundMethod, setRefundMethod] = useState<RefundMethod>('cash')
+  const [reason, setReason] = useState<string>('')
+  const [loading, setLoading] = useState(false)
+
+  // Reset the form whenever the dialog opens; refund to the original method
+  useEffect(() => {
+    if (!open) return
+
+    setQuantities({})
+    setReason('')
+    setRefundMethod(
+      transaction.payment_method === 'split'
+        ? 'cash'
+        : transaction.payment_method
+    )
+  }, [open, transaction.payment_method])
+
+  const getRemaining = (itemId: string, quantity: number) =>
+    Number(quantity) - getReturnedQuantity(returns, itemId)
+
+  // Mirrors the refund calculation in create_pos_return: what was paid for
+  // the units coming back plus, when PPN was added on top of the prices,
+  // their proportional share of the transaction tax
+  const netTotal =
+    Number(transaction.subtotal) - Number(transaction.discount_amount)
+  const estimatedRefund = transaction.items.reduce((sum, item) => {
+    const quantity = quantities[item.id] || 0
+    if (quantity <= 0) return sum
+
+    const returned = getReturnedQuantity(returns, item.id)
+    const lineValue =
+      getItemPaidValue(item, returned + quantity) -
+      getItemPaidValue(item, returned)
+    const taxShare =
+      netTotal > 0 && !transaction.prices_include_tax
+        ? (Number(transaction.tax_amount) * lineValue) / netTotal
+        : 0
+    return sum + lineValue + taxShare
+  }, 0)
+
+  const hasItems = Object.values(quantities).some(quantity => quantity > 0)
+  // create_pos_return credits a credit sale's open invoice before paying out
+  const isCreditSale =
+    transaction.payment_method === 'credit' ||
+    transaction.payments.some(payment => payment.payment_method === 'credit')
+
+  const handleQuantityChange = (
+    itemId: string,
+    value: string,
+    remaining: number
+  ) => {
+    const quantity = Math.min(Math.max(parseFloat(value) || 0, 0), remaining)
+    setQuantities(prev => ({ ...prev, [itemId]: quantity }))
+  }
+
+  const handleReturnAll = () => {
+    setQuantities(
+      Object.fromEntries(
+        transaction.items.map(item => [
+          item.id,
+          getRemaining(item.id, item.quantity),
+        ])
+      )
+    )
+  }
+
+  const handleSubmit = async () => {
+    if (!hasItems) {
+      toast.error('Select at least one item to return')
+      return
+    }
+
+    if (requestApproval) {
+      const approval = await requestApproval({
+        action: 'refund',
+        transaction_id: transaction.id,
+        original_value: Number(transaction.total),
+        new_value: Math.round(estimatedRefund),
+        description: `Refund of ${formatCurrency(estimatedRefund)} on ${transaction.transaction_number}`,
+      })
+      if (!approval) return
+    }
+
+    try {
+      setLoading(true)
+
+      const posReturn = await createReturn({
+        transaction_id: transaction.id,
+        refund_method: refundMethod,
+        reason: reason || undefined,
+        items: Object.entries(quantities)
+          .filter(([, quantity]) => quantity > 0)
+          .map(([transaction_item_id, quantity]) => ({
+            transaction_item_id,
+            quantity,
+          })),
+      })
+
+      toast.success(`Return ${posReturn.return_number} recorded`)
+      onReturned(posReturn)
+      onOpenChange(false)
+    } catch (error) {
+      console.error('Error creating return:', error)
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to create return'
+      )
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleClose = () => {
+    if (!loading) {
+      onOpenChange(false)
+    }
+  }
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0,
+    }).format(amount)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Undo2 className="mr-2 h-5 w-5" />
+            Return Items
+          </DialogTitle>
+          <DialogDescription>
+            Returned items go back to stock and the customer is refunded
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          {/* Items */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Items to Return</Label>
+              <Button
+                variant="outline"
+                size="sm"
+                type="button"
+                onClick={handleReturnAll}
+              >
+                Return All
+              </Button>
+            </div>
+            <div className="border rounded-md overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-muted/50">
+                  <tr className="border-b">
+                    <th className="px-4 py-2 text-left text-sm font-medium">
+                      Product
+                    </th>
+                    <th className="px-4 py-2 text-right text-sm font-medium">
+                      Sold
+                    </th>
+                    <th className="px-4 py-2 text-right text-sm font-medium">
+                      Returnable
+                    </th>
+                    <th className="px-4 py-2 text-right text-sm font-medium">
+                      Return Qty
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {transaction.items.map(item => {
+                    const remaining = getRemaining(item.id, item.quantity)
+                    return (
+                      <tr key={item.id} className="border-b">
+                        <td className="px-4 py-2">
+                          <div className="font-medium">{item.product.name}</div>
+                          <div className="text-xs text-muted-foreground font-mono">
+                            {item.product.sku}
+                          </div>
+                        </td>
+                        <td className="px-4 py-2 text-right">
+                          {item.quantity}
+                        </td>
+                        <td className="px-4 py-2 text-right">{remaining}</td>
+                        <td className="px-4 py-2 text-right">
+                          <Input
+                            type="number"
+                            className="ml-auto w-24 text-right"
+                            value={quantities[item.id] || ''}
+                            onChange={e =>
+                              handleQuantityChange(
+                                item.id,
+                                e.target.value,
+                                remaining
+                              )
+                            }
+                            min={0}
+                            max={remaining}
+                            disabled={remaining <= 0}
+                          />
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Refund Method */}
+          <div className="space-y-2">
+            <Label htmlFor="refund-method">
+              Refund Method <span className="text-red-500">*</span>
+            </Label>
+            <Select
+              value={refundMethod}
+              onValueChange={value => setRefundMethod(value as RefundMethod)}
+            >
+              <SelectTrigger id="refund-method">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {refundMethods.map(method => (
+                  <SelectItem key={method.value} value={method.value}>
+                    {method.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {refundMethod === 'cash' && (
+              <p className="text-sm text-muted-foreground">
+                Cash refunds are taken from your current shift&apos;s drawer
+              </p>
+            )}
+          </div>
+
+          {/* Reason */}
+          <div className="space-y-2">
+            <Label htmlFor="return-reason">Reason (Optional)</Label>
+            <Textarea
+              id="return-reason"
+              placeholder="Damaged, wrong item, customer changed mind..."
+              value={reason}
+              onChange={e => setReason(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          {/* Refund Summary */}
+          <div className="rounded-lg bg-muted p-3">
+            <div className="flex justify-between font-medium">
+              <span>Estimated Refund</span>
+              <span>{formatCurrency(estimatedRefund)}</span>
+            </div>
+            <p className="mt-1 text-xs text-muted-foreground">
+              Includes the returned items&apos; share of discounts and tax
+            </p>
+            {isCreditSale && (
+              <p className="mt-1 text-xs text-muted-foreground">
+                Taken off the customer&apos;s open invoice first; only the rest
+                is refunded
+              </p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose} disabled={loading}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={loading || !hasItems}>
+            {loading ? (
+              <>
+                <span className="mr-2 h-4 w-4 animate-spin rounded-full border-2 border-background border-t-transparent"></span>
+                Processing...
+              </>
+            ) : (
+              <>
+                <Undo2 className="mr-2 h-4 w-4" />
+                Confirm Return
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
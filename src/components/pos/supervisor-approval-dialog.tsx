@@ -0,0 +1,163 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { ShieldCheck } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { toast } from 'sonner'
+import { approveAction, getSupervisors } from '@/lib/pos/api'
+import { APPROVAL_ACTION_LABELS } from '@/lib/pos/utils'
+import type { CreateApprovalInput, PosApproval } from '@/types/pos'
+
+interface SupervisorApprovalDialogProps {
+  request: CreateApprovalInput | null
+  onResolved: (approval: PosApproval | null) => void
+}
+
+export function SupervisorApprovalDialog({
+  request,
+  onResolved,
+}: SupervisorApprovalDialogProps) {
+  const [supervisors, setSupervisors] = useState<
+    { id: string; name: string }[]
+  >([])
+  const [supervisorId, setSupervisorId] = useState<string>('')
+  const [pin, setPin] = useState<string>('')
+  const [loading, setLoading] = useState(false)
+
+  const open = request !== null
+
+  // Load the supervisors each time approval is asked for
+  useEffect(() => {
+    if (!open) return
+
+    setPin('')
+    getSupervisors()
+      .then(data => {
+        setSupervisors(data)
+        setSupervisorId(current =>
+          data.some(s => s.id === current) ? current : data[0]?.id || ''
+        )
+      })
+      .catch(error => {
+        console.error('Error loading supervisors:', error)
+        toast.error('Failed to load supervisors')
+      })
+  }, [open])
+
+  const handleApprove = async () => {
+    if (!request || !supervisorId || !pin) return
+
+    try {
+      setLoading(true)
+      const approval = await approveAction(supervisorId, pin, request)
+      toast.success(`${APPROVAL_ACTION_LABELS[request.action]} approved`)
+      onResolved(approval)
+    } catch (error) {
+      console.error('Error approving action:', error)
+      toast.error(error instanceof Error ? error.message : 'Approval failed')
+      setPin('')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleClose = () => {
+    if (!loading) {
+      onResolved(null)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[400px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <ShieldCheck className="mr-2 h-5 w-5" />
+            Supervisor Approval
+          </DialogTitle>
+          <DialogDescription>
+            {request?.description ||
+              (request && APPROVAL_ACTION_LABELS[request.action])}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="space-y-4 py-2"
+          onSubmit={e => {
+            e.preventDefault()
+            handleApprove()
+          }}
+        >
+          {supervisors.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No supervisor has set a PIN yet. Owners set theirs in Company
+              Settings.
+            </p>
+          ) : (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="approval-supervisor">Supervisor</Label>
+                <Select value={supervisorId} onValueChange={setSupervisorId}>
+                  <SelectTrigger id="approval-supervisor">
+                    <SelectValue placeholder="Select supervisor" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {supervisors.map(supervisor => (
+                      <SelectItem key={supervisor.id} value={supervisor.id}>
+                        {supervisor.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="approval-pin">PIN</Label>
+                <Input
+                  id="approval-pin"
+                  type="password"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  maxLength={6}
+                  value={pin}
+                  onChange={e => setPin(e.target.value.replace(/\D/g, ''))}
+                  autoFocus
+                />
+              </div>
+            </>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleClose}
+              disabled={loading}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading || !supervisorId || !pin}>
+              {loading ? 'Checking...' : 'Approve'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,87 @@
+'use client'
+
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Loader2 } from 'lucide-react'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+
+import {
+  supervisorPinFormSchema,
+  type SupervisorPinFormData,
+} from '@/lib/pos/validation'
+
+interface SupervisorPinFormProps {
+  onSubmit: (data: SupervisorPinFormData) => Promise<void>
+  isLoading?: boolean
+}
+
+/**
+ * Supervisor PIN Form
+ * Sets the signed-in owner's PIN for approving register actions
+ */
+export function SupervisorPinForm({
+  onSubmit,
+  isLoading = false,
+}: SupervisorPinFormProps) {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+  } = useForm<SupervisorPinFormData>({
+    resolver: zodResolver(supervisorPinFormSchema),
+    defaultValues: { pin: '', confirm_pin: '' },
+  })
+
+  const submit = async (data: SupervisorPinFormData) => {
+    await onSubmit(data)
+    reset()
+  }
+
+  return (
+    <form onSubmit={handleSubmit(submit)} className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2 max-w-md">
+        <div className="space-y-2">
+          <Label htmlFor="supervisor-pin">New PIN</Label>
+          <Input
+            id="supervisor-pin"
+            type="password"
+            inputMode="numeric"
+            autoComplete="new-password"
+            maxLength={6}
+            {...register('pin')}
+            disabled={isLoading}
+          />
+          {errors.pin && (
+            <p className="text-sm text-red-500">{errors.pin.message}</p>
+          )}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="supervisor-confirm-pin">Confirm PIN</Label>
+          <Input
+            id="supervisor-confirm-pin"
+            type="password"
+            inputMode="numeric"
+            autoComplete="new-password"
+            maxLength={6}
+            {...register('confirm_pin')}
+            disabled={isLoading}
+          />
+          {errors.confirm_pin && (
+            <p className="text-sm text-red-500">{errors.confirm_pin.message}</p>
+          )}
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <Button type="submit" disabled={isLoading}>
+          {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Set PIN
+        </Button>
+      </div>
+    </form>
+  )
+}
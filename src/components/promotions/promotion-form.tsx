@@ -3,7 +3,7 @@
 import { useEffect, useState } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
-import { Loader2 } from 'lucide-react'
+import { Loader2, Plus, Trash2 } from 'lucide-react'
 import { z } from 'zod'
 
 import { Button } from '@/components/ui/button'
@@ -20,30 +20,89 @@ import { Textarea } from '@/components/ui/textarea'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Checkbox } from '@/components/ui/checkbox'
 
-import type { Promotion, PromotionType } from '@/types/promotions'
+import type {
+  Promotion,
+  PromotionTier,
+  PromotionType,
+} from '@/types/promotions'
 import { getProducts } from '@/lib/inventory/api'
 import { getProductCategories } from '@/lib/inventory/api'
 import type { Product, ProductCategory } from '@/types/inventory'
 
+const WEEKDAY_OPTIONS = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 0, label: 'Sun' },
+]
+
 // Validation schema
-const promotionFormSchema = z.object({
-  name: z.string().min(1, 'Promotion name is required'),
-  code: z.string().min(1, 'Promotion code is required'),
-  type: z.enum(['percentage', 'fixed', 'buy_x_get_y']),
-  description: z.string().optional(),
-  discount_value: z.number().min(0).optional(),
-  buy_quantity: z.number().min(1).optional(),
-  get_quantity: z.number().min(1).optional(),
-  start_date: z.string().min(1, 'Start date is required'),
-  end_date: z.string().min(1, 'End date is required'),
-  min_purchase_amount: z.number().min(0).optional(),
-  max_discount_amount: z.number().min(0).optional(),
-  customer_segment: z.string().optional(),
-  status: z.string(),
-  is_active: z.boolean(),
-  product_ids: z.array(z.string()).optional(),
-  category_ids: z.array(z.string()).optional(),
-})
+const promotionFormSchema = z
+  .object({
+    name: z.string().min(1, 'Promotion name is required'),
+    code: z.string().min(1, 'Promotion code is required'),
+    type: z.enum([
+      'percentage',
+      'fixed',
+      'buy_x_get_y',
+      'tiered',
+      'bundle',
+      'cheapest_free',
+    ]),
+    description: z.string().optional(),
+    discount_value: z.number().min(0).optional(),
+    buy_quantity: z.number().min(1).optional(),
+    get_quantity: z.number().min(1).optional(),
+    get_product_id: z.string().optional(),
+    get_discount_percentage: z
+      .number()
+      .gt(0, 'Discount must be more than 0%')
+      .max(100, 'Discount cannot exceed 100%'),
+    tiers: z.array(
+      z.object({
+        min_amount: z.number().min(0, 'Spend must be 0 or more'),
+        percentage: z
+          .number()
+          .min(0, 'Discount must be 0 or more')
+          .max(100, 'Discount cannot exceed 100%'),
+      })
+    ),
+    bundle_quantity: z
+      .number()
+      .int()
+      .min(2, 'A bundle needs 2 or more items')
+      .optional(),
+    bundle_price: z.number().min(0).optional(),
+    active_days: z.array(z.number().int().min(0).max(6)),
+    active_from: z.string().optional(),
+    active_until: z.string().optional(),
+    start_date: z.string().min(1, 'Start date is required'),
+    end_date: z.string().min(1, 'End date is required'),
+    min_purchase_amount: z.number().min(0).optional(),
+    max_discount_amount: z.number().min(0).optional(),
+    customer_segment: z.string().optional(),
+    stackable: z.boolean(),
+    exclusive_group: z.string().optional(),
+    priority: z.number().int().optional(),
+    requires_code: z.boolean(),
+    usage_limit: z.number().int().min(1).optional(),
+    usage_limit_per_customer: z.number().int().min(1).optional(),
+    status: z.string(),
+    is_active: z.boolean(),
+    product_ids: z.array(z.string()).optional(),
+    category_ids: z.array(z.string()).optional(),
+  })
+  .refine(data => data.type !== 'tiered' || data.tiers.length > 0, {
+    message: 'Add at least one spend tier',
+    path: ['tiers'],
+  })
+  .refine(data => !data.active_from === !data.active_until, {
+    message: 'Set both times, or neither to run all day',
+    path: ['active_until'],
+  })
 
 export type PromotionFormData = z.infer<typeof promotionFormSchema>
 
@@ -89,11 +148,31 @@ export function PromotionForm({
           discount_value: promotion.discount_value || undefined,
           buy_quantity: promotion.buy_quantity || undefined,
           get_quantity: promotion.get_quantity || undefined,
+          get_product_id: promotion.get_product_id || '',
+          get_discount_percentage: Number(
+            promotion.get_discount_percentage ?? 100
+          ),
+          tiers: (promotion.tiers || []).map(tier => ({
+            min_amount: Number(tier.min_amount),
+            percentage: Number(tier.percentage),
+          })),
+          bundle_quantity: promotion.bundle_quantity || undefined,
+          bundle_price: promotion.bundle_price ?? undefined,
+          active_days: promotion.active_days || [],
+          active_from: promotion.active_from?.slice(0, 5) || '',
+          active_until: promotion.active_until?.slice(0, 5) || '',
           start_date: promotion.start_date.split('T')[0],
           end_date: promotion.end_date.split('T')[0],
           min_purchase_amount: promotion.min_purchase_amount || undefined,
           max_discount_amount: promotion.max_discount_amount || undefined,
           customer_segment: promotion.customer_segment || '',
+          stackable: promotion.stackable ?? false,
+          exclusive_group: promotion.exclusive_group || '',
+          priority: promotion.priority ?? 0,
+          requires_code: promotion.requires_code ?? false,
+          usage_limit: promotion.usage_limit || undefined,
+          usage_limit_per_customer:
+            promotion.usage_limit_per_customer || undefined,
           status: promotion.status,
           is_active: promotion.is_active ?? true,
         }
@@ -105,6 +184,14 @@ export function PromotionForm({
           discount_value: 0,
           buy_quantity: 1,
           get_quantity: 1,
+          get_product_id: '',
+          get_discount_percentage: 100,
+          tiers: [],
+          bundle_quantity: 3,
+          bundle_price: 0,
+          active_days: [],
+          active_from: '',
+          active_until: '',
           start_date: new Date().toISOString().split('T')[0],
           end_date: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)
             .toISOString()
@@ -112,6 +199,10 @@ export function PromotionForm({
           min_purchase_amount: 0,
           max_discount_amount: 0,
           customer_segment: '',
+          stackable: false,
+          exclusive_group: '',
+          priority: 0,
+          requires_code: false,
           status: 'draft',
           is_active: true,
         },
@@ -120,6 +211,11 @@ export function PromotionForm({
   const selectedType = watch('type')
   const selectedStatus = watch('status')
   const isActive = watch('is_active')
+  const isStackable = watch('stackable')
+  const requiresCode = watch('requires_code')
+  const getProductId = watch('get_product_id')
+  const tiers = watch('tiers')
+  const activeDays = watch('active_days')
 
   // Load products and categories
   useEffect(() => {
@@ -160,6 +256,34 @@ export function PromotionForm({
     )
   }
 
+  // Spend tiers are edited as a list; rows are added and removed here
+  const addTier = () => {
+    const last = tiers[tiers.length - 1]
+    setValue('tiers', [
+      ...tiers,
+      {
+        min_amount: last ? last.min_amount * 2 : 500000,
+        percentage: last ? last.percentage + 5 : 5,
+      },
+    ])
+  }
+
+  const removeTier = (index: number) => {
+    setValue(
+      'tiers',
+      tiers.filter((_, position) => position !== index)
+    )
+  }
+
+  const toggleDay = (day: number) => {
+    setValue(
+      'active_days',
+      activeDays.includes(day)
+        ? activeDays.filter(value => value !== day)
+        : [...activeDays, day]
+    )
+  }
+
   // Custom submit handler to include selected products/categories
   const handleFormSubmit = async (data: PromotionFormData) => {
     await onSubmit({
@@ -226,6 +350,11 @@ export function PromotionForm({
                 <SelectItem value="percentage">Percentage Discount</SelectItem>
                 <SelectItem value="fixed">Fixed Amount Discount</SelectItem>
                 <SelectItem value="buy_x_get_y">Buy X Get Y Free</SelectItem>
+                <SelectItem value="tiered">Tiered Spend Discount</SelectItem>
+                <SelectItem value="bundle">Fixed-Price Bundle</SelectItem>
+                <SelectItem value="cheapest_free">
+                  Cheapest Item Free
+                </SelectItem>
               </SelectContent>
             </Select>
             {errors.type && (
@@ -338,6 +467,203 @@ export function PromotionForm({
                   </p>
                 )}
               </div>
+
+              <div className="grid gap-2">
+                <Label htmlFor="get_product_id">Reward Product</Label>
+                <Select
+                  value={getProductId || 'cheapest'}
+                  onValueChange={value =>
+                    setValue(
+                      'get_product_id',
+                      value === 'cheapest' ? '' : value
+                    )
+                  }
+                  disabled={isLoading || isLoadingData}
+                >
+                  <SelectTrigger id="get_product_id">
+                    <SelectValue placeholder="Select product" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="cheapest">
+                      Cheapest eligible items
+                    </SelectItem>
+                    {products.map(product => (
+                      <SelectItem key={product.id} value={product.id}>
+                        {product.name} ({product.sku})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="grid gap-2">
+                <Label htmlFor="get_discount_percentage">
+                  Reward Discount (%)
+                </Label>
+                <Input
+                  id="get_discount_percentage"
+                  type="number"
+                  min="1"
+                  max="100"
+                  step="0.01"
+                  placeholder="100 = free"
+                  {...register('get_discount_percentage', {
+                    valueAsNumber: true,
+                  })}
+                  disabled={isLoading}
+                />
+                {errors.get_discount_percentage && (
+                  <p className="text-sm text-red-500">
+                    {errors.get_discount_percentage.message}
+                  </p>
+                )}
+              </div>
+              <p className="col-span-2 text-sm text-muted-foreground">
+                {getProductId
+                  ? "Every Buy Quantity items of the promotion's products earn Get Quantity of the reward product once it is in the cart. Reward items do not count as bought."
+                  : "Items of the promotion's products are counted across the cart; the cheapest Get Quantity of every Buy + Get items are discounted."}
+              </p>
+            </div>
+          )}
+
+          {selectedType === 'tiered' && (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                The highest tier the customer&apos;s spend on the
+                promotion&apos;s products reaches applies.
+              </p>
+              {tiers.map((tier: PromotionTier, index) => (
+                <div key={index} className="flex items-end gap-4">
+                  <div className="grid flex-1 gap-2">
+                    <Label htmlFor={`tiers.${index}.min_amount`}>
+                      Spend at Least (Rp)
+                    </Label>
+                    <Input
+                      id={`tiers.${index}.min_amount`}
+                      type="number"
+                      min="0"
+                      step="1000"
+                      {...register(`tiers.${index}.min_amount`, {
+                        valueAsNumber: true,
+                      })}
+                      disabled={isLoading}
+                    />
+                  </div>
+                  <div className="grid flex-1 gap-2">
+                    <Label htmlFor={`tiers.${index}.percentage`}>
+                      Discount (%)
+                    </Label>
+                    <Input
+                      id={`tiers.${index}.percentage`}
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="0.01"
+                      {...register(`tiers.${index}.percentage`, {
+                        valueAsNumber: true,
+                      })}
+                      disabled={isLoading}
+                    />
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => removeTier(index)}
+                    disabled={isLoading}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={addTier}
+                disabled={isLoading}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Tier
+              </Button>
+              {errors.tiers && (
+                <p className="text-sm text-red-500">
+                  {errors.tiers.message ||
+                    'Each tier needs a spend and a discount between 0 and 100%'}
+                </p>
+              )}
+            </div>
+          )}
+
+          {selectedType === 'bundle' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="bundle_quantity">
+                  Items per Bundle <span className="text-red-500">*</span>
+                </Label>
+                <Input
+                  id="bundle_quantity"
+                  type="number"
+                  min="2"
+                  step="1"
+                  placeholder="e.g., 3"
+                  {...register('bundle_quantity', { valueAsNumber: true })}
+                  disabled={isLoading}
+                />
+                {errors.bundle_quantity && (
+                  <p className="text-sm text-red-500">
+                    {errors.bundle_quantity.message}
+                  </p>
+                )}
+              </div>
+
+              <div className="grid gap-2">
+                <Label htmlFor="bundle_price">
+                  Bundle Price (Rp) <span className="text-red-500">*</span>
+                </Label>
+                <Input
+                  id="bundle_price"
+                  type="number"
+                  min="0"
+                  step="1000"
+                  placeholder="e.g., 50000"
+                  {...register('bundle_price', { valueAsNumber: true })}
+                  disabled={isLoading}
+                />
+                {errors.bundle_price && (
+                  <p className="text-sm text-red-500">
+                    {errors.bundle_price.message}
+                  </p>
+                )}
+              </div>
+              <p className="col-span-2 text-sm text-muted-foreground">
+                Any mix of the promotion&apos;s products makes a bundle; the
+                dearest items are bundled first.
+              </p>
+            </div>
+          )}
+
+          {selectedType === 'cheapest_free' && (
+            <div className="grid gap-2">
+              <Label htmlFor="buy_quantity">
+                Items per Group <span className="text-red-500">*</span>
+              </Label>
+              <Input
+                id="buy_quantity"
+                type="number"
+                min="2"
+                placeholder="e.g., 3"
+                {...register('buy_quantity', { valueAsNumber: true })}
+                disabled={isLoading}
+              />
+              <p className="text-sm text-muted-foreground">
+                For every group of this many items, the cheapest one is free.
+              </p>
+              {errors.buy_quantity && (
+                <p className="text-sm text-red-500">
+                  {errors.buy_quantity.message}
+                </p>
+              )}
             </div>
           )}
         </CardContent>
@@ -386,6 +712,60 @@ export function PromotionForm({
             </div>
           </div>
 
+          {/* Schedule Window */}
+          <div className="grid gap-2">
+            <Label>Active Days</Label>
+            <div className="flex flex-wrap gap-4">
+              {WEEKDAY_OPTIONS.map(day => (
+                <div key={day.value} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`day-${day.value}`}
+                    checked={activeDays.includes(day.value)}
+                    onCheckedChange={() => toggleDay(day.value)}
+                    disabled={isLoading}
+                  />
+                  <label
+                    htmlFor={`day-${day.value}`}
+                    className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+                  >
+                    {day.label}
+                  </label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="active_from">Active From</Label>
+              <Input
+                id="active_from"
+                type="time"
+                {...register('active_from')}
+                disabled={isLoading}
+              />
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="active_until">Active Until</Label>
+              <Input
+                id="active_until"
+                type="time"
+                {...register('active_until')}
+                disabled={isLoading}
+              />
+              {errors.active_until && (
+                <p className="text-sm text-red-500">
+                  {errors.active_until.message}
+                </p>
+              )}
+            </div>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Leave the days and times empty to run all day, every day. Times that
+            end before they start run past midnight.
+          </p>
+
           {/* Purchase Rules */}
           <div className="grid grid-cols-2 gap-4">
             <div className="grid gap-2">
@@ -445,7 +825,151 @@ export function PromotionForm({
         </CardContent>
       </Card>
 
-      {/* Section 4: Targeting */}
+      {/* Section 4: Usage & Coupons */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Usage & Coupons</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {promotion?.uses_vouchers ? (
+            <p className="text-sm text-muted-foreground">
+              Redeemed with single-use vouchers, generated from the
+              promotion&apos;s Vouchers tab
+            </p>
+          ) : (
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="requires_code"
+                checked={requiresCode}
+                onCheckedChange={checked =>
+                  setValue('requires_code', !!checked)
+                }
+                disabled={isLoading}
+              />
+              <label
+                htmlFor="requires_code"
+                className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+              >
+                Coupon (applies only when the promotion code is entered)
+              </label>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="usage_limit">Total Usage Limit</Label>
+              <Input
+                id="usage_limit"
+                type="number"
+                min="1"
+                step="1"
+                placeholder="Unlimited"
+                {...register('usage_limit', {
+                  setValueAs: value =>
+                    value === '' || value === null ? undefined : Number(value),
+                })}
+                disabled={isLoading}
+              />
+              {errors.usage_limit && (
+                <p className="text-sm text-red-500">
+                  {errors.usage_limit.message}
+                </p>
+              )}
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="usage_limit_per_customer">
+                Usage Limit per Customer
+              </Label>
+              <Input
+                id="usage_limit_per_customer"
+                type="number"
+                min="1"
+                step="1"
+                placeholder="Unlimited"
+                {...register('usage_limit_per_customer', {
+                  setValueAs: value =>
+                    value === '' || value === null ? undefined : Number(value),
+                })}
+                disabled={isLoading}
+              />
+              {errors.usage_limit_per_customer && (
+                <p className="text-sm text-red-500">
+                  {errors.usage_limit_per_customer.message}
+                </p>
+              )}
+            </div>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            A per-customer limit needs a customer on the sale.
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* Section 5: Stacking */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Stacking</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Promotions are tried from the highest priority down. A cart line
+            only gets several promotions when all of them are stackable, and a
+            cart gets at most one promotion from each exclusive group.
+          </p>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="stackable"
+              checked={isStackable}
+              onCheckedChange={checked => setValue('stackable', !!checked)}
+              disabled={isLoading}
+            />
+            <label
+              htmlFor="stackable"
+              className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+            >
+              Stackable (can combine with other stackable promotions)
+            </label>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="exclusive_group">Exclusive Group</Label>
+              <Input
+                id="exclusive_group"
+                placeholder="e.g., payday"
+                {...register('exclusive_group')}
+                disabled={isLoading}
+              />
+              {errors.exclusive_group && (
+                <p className="text-sm text-red-500">
+                  {errors.exclusive_group.message}
+                </p>
+              )}
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="priority">Priority</Label>
+              <Input
+                id="priority"
+                type="number"
+                step="1"
+                placeholder="e.g., 10"
+                {...register('priority', { valueAsNumber: true })}
+                disabled={isLoading}
+              />
+              {errors.priority && (
+                <p className="text-sm text-red-500">
+                  {errors.priority.message}
+                </p>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Section 6: Targeting */}
       <Card>
         <CardHeader>
           <CardTitle>Targeting (Optional)</CardTitle>
@@ -527,7 +1051,7 @@ export function PromotionForm({
         </CardContent>
       </Card>
 
-      {/* Section 5: Status */}
+      {/* Section 7: Status */}
       <Card>
         <CardHeader>
           <CardTitle>Status</CardTitle>
@@ -546,11 +1070,16 @@ export function PromotionForm({
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="draft">Draft</SelectItem>
+                <SelectItem value="scheduled">Scheduled</SelectItem>
                 <SelectItem value="active">Active</SelectItem>
                 <SelectItem value="expired">Expired</SelectItem>
                 <SelectItem value="cancelled">Cancelled</SelectItem>
               </SelectContent>
             </Select>
+            <p className="text-xs text-muted-foreground">
+              Scheduled, active and expired follow the start and end dates in
+              the company&apos;s time zone
+            </p>
             {errors.status && (
               <p className="text-sm text-red-500">{errors.status.message}</p>
             )}
@@ -0,0 +1,171 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { toast } from 'sonner'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { getPromotionRedemptions } from '@/lib/promotions/api'
+import { formatCurrency, formatDate } from '@/lib/utils'
+import type {
+  Promotion,
+  PromotionRedemptionWithRelations,
+} from '@/types/promotions'
+
+interface PromotionRedemptionsProps {
+  promotion: Promotion
+}
+
+/**
+ * Promotion Redemptions
+ * Usage against the promotion's limits and the ledger of POS sales and sales
+ * orders that used it. Voided sales and cancelled orders show as reversed.
+ */
+export function PromotionRedemptions({ promotion }: PromotionRedemptionsProps) {
+  const [redemptions, setRedemptions] = useState<
+    PromotionRedemptionWithRelations[]
+  >([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    getPromotionRedemptions(promotion.id)
+      .then(setRedemptions)
+      .catch(error =>
+        toast.error(
+          error instanceof Error ? error.message : 'Failed to load redemptions'
+        )
+      )
+      .finally(() => setLoading(false))
+  }, [promotion.id])
+
+  const applied = redemptions.filter(
+    redemption => redemption.status === 'applied'
+  )
+  const totalDiscount = applied.reduce(
+    (sum, redemption) => sum + Number(redemption.discount_amount),
+    0
+  )
+  const customerCount = new Set(
+    applied
+      .map(redemption => redemption.customer_id)
+      .filter((id): id is string => !!id)
+  ).size
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Times Used
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold">
+              {applied.length}
+              {promotion.usage_limit ? ` / ${promotion.usage_limit}` : ''}
+            </p>
+            {promotion.usage_limit_per_customer && (
+              <p className="text-xs text-muted-foreground">
+                Up to {promotion.usage_limit_per_customer} per customer
+              </p>
+            )}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Total Discount Given
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold">
+              {formatCurrency(totalDiscount)}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Customers
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold">{customerCount}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Redemptions</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="py-6 text-center text-muted-foreground">
+              Loading redemptions...
+            </p>
+          ) : redemptions.length === 0 ? (
+            <p className="py-6 text-center text-muted-foreground">
+              This promotion has not been used yet
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Document</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Coupon</TableHead>
+                  <TableHead className="text-right">Discount</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {redemptions.map(redemption => (
+                  <TableRow key={redemption.id}>
+                    <TableCell>{formatDate(redemption.redeemed_at)}</TableCell>
+                    <TableCell>
+                      {redemption.transaction ? (
+                        <Link
+                          href={`/erp/pos/transactions/${redemption.transaction.id}`}
+                          className="text-primary hover:underline"
+                        >
+                          {redemption.transaction.transaction_number}
+                        </Link>
+                      ) : (
+                        redemption.order?.order_number || '-'
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {redemption.customer?.name || 'Walk-in'}
+                    </TableCell>
+                    <TableCell>{redemption.code || '-'}</TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(Number(redemption.discount_amount))}
+                    </TableCell>
+                    <TableCell>
+                      {redemption.status === 'applied' ? (
+                        <Badge className="bg-green-500">Applied</Badge>
+                      ) : (
+                        <Badge variant="secondary">Reversed</Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -41,6 +41,7 @@ import { Badge } from '@/components/ui/badge'
 import { Card, CardContent } from '@/components/ui/card'
 import { useDebounce } from '@/hooks/use-debounce'
 import { deletePromotion } from '@/lib/promotions/api'
+import { formatPromotionDescription } from '@/lib/promotions/utils'
 import type {
   Promotion,
   PromotionFilters,
@@ -103,20 +104,16 @@ export function PromotionTable({
 
   // Get status badge variant
   const getStatusBadge = (promotion: Promotion) => {
-    const now = new Date()
-    const startDate = new Date(promotion.start_date)
-    const endDate = new Date(promotion.end_date)
-
     if (promotion.status === 'cancelled') {
       return <Badge variant="secondary">Cancelled</Badge>
     }
     if (promotion.status === 'draft') {
       return <Badge variant="outline">Draft</Badge>
     }
-    if (now < startDate) {
+    if (promotion.status === 'scheduled') {
       return <Badge className="bg-blue-500">Scheduled</Badge>
     }
-    if (now > endDate) {
+    if (promotion.status === 'expired') {
       return <Badge variant="destructive">Expired</Badge>
     }
     if (promotion.is_active) {
@@ -133,8 +130,13 @@ export function PromotionTable({
     if (promotion.type === 'fixed') {
       return `Rp ${promotion.discount_value?.toLocaleString()}`
     }
-    if (promotion.type === 'buy_x_get_y') {
-      return `Buy ${promotion.buy_quantity} Get ${promotion.get_quantity}`
+    if (
+      promotion.type === 'buy_x_get_y' ||
+      promotion.type === 'tiered' ||
+      promotion.type === 'bundle' ||
+      promotion.type === 'cheapest_free'
+    ) {
+      return formatPromotionDescription(promotion)
     }
     return '-'
   }
@@ -175,6 +177,9 @@ export function PromotionTable({
                 <SelectItem value="percentage">Percentage</SelectItem>
                 <SelectItem value="fixed">Fixed Amount</SelectItem>
                 <SelectItem value="buy_x_get_y">Buy X Get Y</SelectItem>
+                <SelectItem value="tiered">Tiered Spend</SelectItem>
+                <SelectItem value="bundle">Bundle</SelectItem>
+                <SelectItem value="cheapest_free">Cheapest Free</SelectItem>
               </SelectContent>
             </Select>
 
@@ -0,0 +1,301 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Download, Loader2, Printer, TicketPercent } from 'lucide-react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  generateVoucherBatch,
+  getBatchVouchers,
+  getVoucherBatches,
+} from '@/lib/promotions/api'
+import { getPromotionDate } from '@/lib/promotions/utils'
+import {
+  downloadVouchersCsv,
+  printVoucherSheet,
+} from '@/lib/promotions/voucher-export'
+import { getCompanyProfile } from '@/lib/company/api'
+import { formatDate } from '@/lib/utils'
+import type {
+  Promotion,
+  PromotionVoucherBatch,
+  PromotionVoucherBatchWithCounts,
+} from '@/types/promotions'
+
+// Largest batch generate_promotion_vouchers issues at once
+const MAX_BATCH_SIZE = 10000
+
+interface PromotionVouchersProps {
+  promotion: Promotion
+  onGenerated?: () => void
+}
+
+/**
+ * Promotion Vouchers
+ * Generates batches of single-use voucher codes for a promotion, exports them
+ * as CSV or printable QR sheets and shows how many have been redeemed.
+ */
+export function PromotionVouchers({
+  promotion,
+  onGenerated,
+}: PromotionVouchersProps) {
+  const [batches, setBatches] = useState<PromotionVoucherBatchWithCounts[]>([])
+  const [loading, setLoading] = useState(true)
+  const [generating, setGenerating] = useState(false)
+  const [exporting, setExporting] = useState<string | null>(null)
+  const [quantity, setQuantity] = useState('100')
+  const [prefix, setPrefix] = useState('')
+  const [name, setName] = useState('')
+  const [expiresOn, setExpiresOn] = useState('')
+  // Codes expire with the promotion's last day in the company's time zone
+  const [timeZone, setTimeZone] = useState<string | null>(null)
+
+  const loadBatches = useCallback(async (promotion_id: string) => {
+    try {
+      setLoading(true)
+      setBatches(await getVoucherBatches(promotion_id))
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to load vouchers'
+      )
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadBatches(promotion.id)
+  }, [promotion.id, loadBatches])
+
+  useEffect(() => {
+    getCompanyProfile()
+      .then(profile => setTimeZone(profile?.time_zone || null))
+      .catch(error => console.error('Error loading company profile:', error))
+  }, [])
+
+  const handleGenerate = async () => {
+    const count = Number(quantity)
+    if (!Number.isInteger(count) || count < 1 || count > MAX_BATCH_SIZE) {
+      toast.error(`Enter a quantity between 1 and ${MAX_BATCH_SIZE}`)
+      return
+    }
+
+    try {
+      setGenerating(true)
+      const batch = await generateVoucherBatch({
+        promotion_id: promotion.id,
+        quantity: count,
+        name: name.trim() || undefined,
+        prefix: prefix.trim() || undefined,
+        // Codes stay valid through the whole chosen day
+        expires_at: expiresOn
+          ? new Date(`${expiresOn}T23:59:59`).toISOString()
+          : null,
+      })
+      toast.success(`${batch.quantity} vouchers generated`)
+      setName('')
+      await loadBatches(promotion.id)
+      onGenerated?.()
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to generate vouchers'
+      )
+    } finally {
+      setGenerating(false)
+    }
+  }
+
+  const handleExport = async (
+    batch: PromotionVoucherBatch,
+    format: 'csv' | 'print'
+  ) => {
+    try {
+      setExporting(`${batch.id}-${format}`)
+      const vouchers = await getBatchVouchers(batch.id)
+      if (format === 'csv') {
+        downloadVouchersCsv(promotion, batch, vouchers, timeZone)
+      } else {
+        printVoucherSheet(promotion, batch, vouchers, timeZone)
+      }
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to export vouchers'
+      )
+    } finally {
+      setExporting(null)
+    }
+  }
+
+  // Codes still issued when the promotion ends can no longer be used
+  const promotionEnded =
+    getPromotionDate({ time_zone: timeZone }) > promotion.end_date.slice(0, 10)
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Generate Vouchers</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!promotion.uses_vouchers && (
+            <p className="text-sm text-muted-foreground">
+              Once vouchers are generated, the promotion code{' '}
+              <span className="font-mono">{promotion.code}</span> no longer
+              works: each sale needs its own single-use voucher.
+            </p>
+          )}
+          <div className="grid gap-4 md:grid-cols-4">
+            <div className="grid gap-2">
+              <Label htmlFor="voucher_quantity">Quantity</Label>
+              <Input
+                id="voucher_quantity"
+                type="number"
+                min={1}
+                max={MAX_BATCH_SIZE}
+                value={quantity}
+                onChange={event => setQuantity(event.target.value)}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="voucher_prefix">Prefix</Label>
+              <Input
+                id="voucher_prefix"
+                placeholder="e.g. LEBARAN"
+                value={prefix}
+                onChange={event => setPrefix(event.target.value.toUpperCase())}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="voucher_expires">Expires On</Label>
+              <Input
+                id="voucher_expires"
+                type="date"
+                value={expiresOn}
+                onChange={event => setExpiresOn(event.target.value)}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="voucher_name">Batch Name</Label>
+              <Input
+                id="voucher_name"
+                placeholder="Optional"
+                value={name}
+                onChange={event => setName(event.target.value)}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Without an expiry date, vouchers are valid until the promotion ends.
+          </p>
+          <Button onClick={handleGenerate} disabled={generating}>
+            {generating ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <TicketPercent className="mr-2 h-4 w-4" />
+            )}
+            Generate
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Voucher Batches</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="py-6 text-center text-muted-foreground">
+              Loading vouchers...
+            </p>
+          ) : batches.length === 0 ? (
+            <p className="py-6 text-center text-muted-foreground">
+              No vouchers generated yet
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Batch</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead className="text-right">Issued</TableHead>
+                  <TableHead className="text-right">Redeemed</TableHead>
+                  <TableHead className="text-right">Expired</TableHead>
+                  <TableHead className="text-right">Export</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {batches.map(batch => (
+                  <TableRow key={batch.id}>
+                    <TableCell>
+                      <div className="font-medium">{batch.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {batch.quantity} codes
+                        {batch.prefix ? ` • ${batch.prefix}-` : ''}
+                      </div>
+                    </TableCell>
+                    <TableCell>{formatDate(batch.created_at)}</TableCell>
+                    <TableCell>
+                      {formatDate(batch.expires_at || promotion.end_date)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {promotionEnded ? 0 : batch.counts.issued}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {batch.counts.redeemed}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {batch.counts.expired +
+                        (promotionEnded ? batch.counts.issued : 0)}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleExport(batch, 'csv')}
+                          disabled={!!exporting}
+                        >
+                          {exporting === `${batch.id}-csv` ? (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          ) : (
+                            <Download className="mr-2 h-4 w-4" />
+                          )}
+                          CSV
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleExport(batch, 'print')}
+                          disabled={!!exporting}
+                        >
+                          {exporting === `${batch.id}-print` ? (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          ) : (
+                            <Printer className="mr-2 h-4 w-4" />
+                          )}
+                          QR Sheet
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,81 @@
+import { useEffect, useRef } from 'react'
+
+interface BarcodeScannerOptions {
+  enabled?: boolean
+  minLength?: number // Shortest code treated as a scan
+  maxInterval?: number // Max ms between scanner keystrokes
+}
+
+/**
+ * Detects keyboard-wedge barcode scanners: a fast burst of keystrokes ending
+ * in Enter, anywhere on the page. Whatever was typed by hand just before the
+ * burst (e.g. a "3*" quantity prefix) is passed along as the prefix.
+ *
+ * @param onScan - Called with the scanned code and the hand-typed prefix
+ */
+export function useBarcodeScanner(
+  onScan: (code: string, prefix: string) => void,
+  {
+    enabled = true,
+    minLength = 4,
+    maxInterval = 50,
+  }: BarcodeScannerOptions = {}
+) {
+  const keysRef = useRef<{ key: string; time: number }[]>([])
+  const onScanRef = useRef(onScan)
+
+  useEffect(() => {
+    onScanRef.current = onScan
+  }, [onScan])
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const now = Date.now()
+      const keys = keysRef.current
+
+      // Forget hand-typed input the cashier walked away from
+      if (keys.length > 0 && now - keys[keys.length - 1].time > 10000) {
+        keys.length = 0
+      }
+
+      if (event.key !== 'Enter') {
+        if (event.key.length === 1 && !event.ctrlKey && !event.metaKey) {
+          keys.push({ key: event.key, time: now })
+        }
+        return
+      }
+
+      // The scan is the trailing run of keys that arrived in quick succession
+      let start = keys.length - 1
+      while (
+        start > 0 &&
+        keys[start].time - keys[start - 1].time <= maxInterval
+      ) {
+        start--
+      }
+      const isBurst =
+        keys.length - start >= minLength &&
+        now - keys[keys.length - 1].time <= maxInterval * 2
+
+      if (isBurst) {
+        event.preventDefault()
+        const code = keys
+          .slice(start)
+          .map(k => k.key)
+          .join('')
+        const prefix = keys
+          .slice(0, start)
+          .map(k => k.key)
+          .join('')
+        onScanRef.current(code, prefix)
+      }
+
+      keys.length = 0
+    }
+
+    window.addEventListener('keydown', handleKeyDown, true)
+    return () => window.removeEventListener('keydown', handleKeyDown, true)
+  }, [enabled, minLength, maxInterval])
+}
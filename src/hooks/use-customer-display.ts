@@ -0,0 +1,40 @@
+import { useEffect, useRef } from 'react'
+import {
+  openCustomerDisplayChannel,
+  type CustomerDisplayChannel,
+} from '@/lib/pos/customer-display'
+import type { CustomerDisplayState } from '@/types/pos'
+
+/**
+ * Publishes the cashier's cart to the customer display whenever it changes,
+ * and to any display that opens later.
+ *
+ * @example
+ * useCustomerDisplay({ status: 'cart', lines, total, ... })
+ */
+export function useCustomerDisplay(state: CustomerDisplayState) {
+  const channelRef = useRef<CustomerDisplayChannel | null>(null)
+  const stateRef = useRef(state)
+
+  useEffect(() => {
+    const channel = openCustomerDisplayChannel(message => {
+      if (message.type === 'request_state') {
+        channel?.post({ type: 'state', state: stateRef.current })
+      }
+    })
+    channelRef.current = channel
+
+    return () => {
+      channel?.close()
+      channelRef.current = null
+    }
+  }, [])
+
+  // The state object is rebuilt on every render; only post real changes
+  const serialized = JSON.stringify(state)
+  useEffect(() => {
+    const current = JSON.parse(serialized) as CustomerDisplayState
+    stateRef.current = current
+    channelRef.current?.post({ type: 'state', state: current })
+  }, [serialized])
+}
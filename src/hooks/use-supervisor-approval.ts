@@ -0,0 +1,38 @@
+import { useCallback, useRef, useState } from 'react'
+import type { CreateApprovalInput, PosApproval } from '@/types/pos'
+
+/**
+ * Asks for a supervisor's approval through SupervisorApprovalDialog and
+ * resolves with the recorded approval, or null when it was cancelled.
+ *
+ * @example
+ * const { request, requestApproval, resolveApproval } = useSupervisorApproval()
+ * const approval = await requestApproval({ action: 'void', ... })
+ * if (!approval) return
+ * // <SupervisorApprovalDialog request={request} onResolved={resolveApproval} />
+ */
+export function useSupervisorApproval() {
+  const [request, setRequest] = useState<CreateApprovalInput | null>(null)
+  const resolverRef = useRef<((approval: PosApproval | null) => void) | null>(
+    null
+  )
+
+  const requestApproval = useCallback(
+    (input: CreateApprovalInput) =>
+      new Promise<PosApproval | null>(resolve => {
+        // A newer request cancels one still waiting
+        resolverRef.current?.(null)
+        resolverRef.current = resolve
+        setRequest(input)
+      }),
+    []
+  )
+
+  const resolveApproval = useCallback((approval: PosApproval | null) => {
+    resolverRef.current?.(approval)
+    resolverRef.current = null
+    setRequest(null)
+  }, [])
+
+  return { request, requestApproval, resolveApproval }
+}
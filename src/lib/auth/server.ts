@@ -0,0 +1,46 @@
+import type { NextRequest } from 'next/server'
+import { createServiceSupabase } from '@/lib/supabase/client'
+import type { UserRole } from '@/lib/auth/utils'
+
+export interface RequestUser {
+  id: string
+  company_id: string
+  role: UserRole
+}
+
+/**
+ * Resolves the user behind an API request from its `Authorization: Bearer`
+ * access token. Returns null when the token is missing or invalid.
+ */
+export async function getRequestUser(
+  request: NextRequest
+): Promise<RequestUser | null> {
+  const token = request.headers.get('authorization')?.replace(/^Bearer /, '')
+  if (!token) return null
+
+  const supabase = createServiceSupabase()
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser(token)
+
+  if (error || !user) return null
+
+  const { data: profile } = await supabase
+    .from('users')
+    .select('company_id, role')
+    .eq('id', user.id)
+    .single()
+    .overrideTypes<
+      { company_id: string | null; role: UserRole },
+      { merge: false }
+    >()
+
+  if (!profile?.company_id) return null
+
+  return {
+    id: user.id,
+    company_id: profile.company_id,
+    role: profile.role,
+  }
+}
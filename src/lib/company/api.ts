@@ -0,0 +1,188 @@
+/**
+ * Company API
+ * Company profile and document templates used to brand printed documents
+ */
+
+import { createClientSupabase } from '@/lib/supabase/client'
+import { isValidNpwp, resolveDocumentBranding } from '@/lib/company/utils'
+import type {
+  BrandedDocumentType,
+  CompanyProfile,
+  DocumentBranding,
+  DocumentTemplate,
+  UpdateCompanyProfileInput,
+  UpdateDocumentTemplateInput,
+} from '@/types/company'
+
+const supabase = createClientSupabase()
+
+// Helper function to get current user's company_id
+async function getCurrentCompanyId(): Promise<string> {
+  const { data: userData } = await supabase.auth.getUser()
+  if (!userData.user) throw new Error('Not authenticated')
+
+  const { data: user } = await supabase
+    .from('users')
+    .select('company_id')
+    .eq('id', userData.user.id)
+    .single()
+    .overrideTypes<{ company_id: string | null }, { merge: false }>()
+
+  if (!user?.company_id) throw new Error('User company not found')
+  return user.company_id
+}
+
+// ============================================================================
+// COMPANY PROFILE
+// ============================================================================
+
+/**
+ * Get the current user's company name
+ */
+export async function getCompanyName(): Promise<string> {
+  const company_id = await getCurrentCompanyId()
+
+  const { data, error } = await supabase
+    .from('companies')
+    .select('name')
+    .eq('id', company_id)
+    .single()
+    .overrideTypes<{ name: string }, { merge: false }>()
+
+  if (error) {
+    console.error('Error fetching company:', error)
+    throw new Error(`Failed to fetch company: ${error.message}`)
+  }
+
+  return data.name
+}
+
+/**
+ * Get the profile of the current user's company (null if never saved)
+ */
+export async function getCompanyProfile(): Promise<CompanyProfile | null> {
+  const { data, error } = await supabase
+    .from('company_profiles')
+    .select('*')
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching company profile:', error)
+    throw new Error(`Failed to fetch company profile: ${error.message}`)
+  }
+
+  return data as CompanyProfile | null
+}
+
+/**
+ * Create or update the current user's company profile (owners only)
+ */
+export async function updateCompanyProfile(
+  input: UpdateCompanyProfileInput
+): Promise<CompanyProfile> {
+  if (input.npwp && !isValidNpwp(input.npwp)) {
+    throw new Error('NPWP must have 15 or 16 digits')
+  }
+
+  const company_id = await getCurrentCompanyId()
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const query = supabase.from('company_profiles') as any
+  const { data, error } = await query
+    .upsert({
+      company_id,
+      ...input,
+      updated_at: new Date().toISOString(),
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error updating company profile:', error)
+    throw new Error(`Failed to update company profile: ${error.message}`)
+  }
+
+  return data
+}
+
+// ============================================================================
+// DOCUMENT TEMPLATES
+// ============================================================================
+
+/**
+ * Get the saved document templates of the current user's company
+ */
+export async function getDocumentTemplates(): Promise<DocumentTemplate[]> {
+  const { data, error } = await supabase
+    .from('document_templates')
+    .select('*')
+    .overrideTypes<DocumentTemplate[], { merge: false }>()
+
+  if (error) {
+    console.error('Error fetching document templates:', error)
+    throw new Error(`Failed to fetch document templates: ${error.message}`)
+  }
+
+  return data || []
+}
+
+/**
+ * Create or update the template of one document type (owners only)
+ */
+export async function updateDocumentTemplate(
+  document_type: BrandedDocumentType,
+  input: UpdateDocumentTemplateInput
+): Promise<DocumentTemplate> {
+  const company_id = await getCurrentCompanyId()
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const query = supabase.from('document_templates') as any
+  const { data, error } = await query
+    .upsert(
+      {
+        company_id,
+        document_type,
+        ...input,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'company_id,document_type' }
+    )
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error updating document template:', error)
+    throw new Error(`Failed to update document template: ${error.message}`)
+  }
+
+  return data
+}
+
+/**
+ * Get the branding to print on a document of the given type
+ */
+export async function getDocumentBranding(
+  document_type: BrandedDocumentType
+): Promise<DocumentBranding> {
+  const [companyName, profile, { data, error }] = await Promise.all([
+    getCompanyName(),
+    getCompanyProfile(),
+    supabase
+      .from('document_templates')
+      .select('*')
+      .eq('document_type', document_type)
+      .maybeSingle(),
+  ])
+
+  if (error) {
+    console.error('Error fetching document template:', error)
+    throw new Error(`Failed to fetch document template: ${error.message}`)
+  }
+
+  return resolveDocumentBranding(
+    document_type,
+    companyName,
+    profile,
+    data as DocumentTemplate | null
+  )
+}
@@ -0,0 +1,178 @@
+/**
+ * Printable Documents
+ * Shared A4 layout for printed invoices: the company's branding frames the
+ * document content
+ */
+
+import { escapeHtml } from '@/lib/utils'
+import type { DocumentBranding, PrintableDocument } from '@/types/company'
+
+const formatCurrency = (amount: number) =>
+  `Rp ${Number(amount).toLocaleString('id-ID')}`
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('id-ID', {
+    day: '2-digit',
+    month: 'long',
+    year: 'numeric',
+  })
+
+const COLUMN_LABELS: Record<PrintableDocument['columns'][number], string> = {
+  quantity: 'Qty',
+  unit_price: 'Harga',
+  amount: 'Jumlah',
+}
+
+/**
+ * Render a branded document as printable HTML
+ */
+export function renderDocumentHtml(
+  branding: DocumentBranding,
+  document: PrintableDocument
+): string {
+  const company = branding.company
+  const cell = (
+    line: PrintableDocument['lines'][number],
+    column: PrintableDocument['columns'][number]
+  ) => {
+    if (column === 'quantity') return line.quantity.toLocaleString('id-ID')
+    const value = line[column]
+    return value === undefined ? '' : formatCurrency(value)
+  }
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="UTF-8">
+      <title>${escapeHtml(branding.title)} - ${escapeHtml(document.number)}</title>
+      <style>
+        * { margin: 0; padding: 0; box-sizing: border-box; }
+        body { font-family: Arial, sans-serif; font-size: 12px; color: #111; padding: 32px; }
+        .header { display: flex; justify-content: space-between; align-items: flex-start; border-bottom: 2px solid #111; padding-bottom: 16px; }
+        .company { display: flex; gap: 12px; align-items: flex-start; }
+        .company img { max-height: 64px; max-width: 160px; }
+        .company-name { font-size: 18px; font-weight: bold; }
+        .company-info { color: #444; margin-top: 2px; }
+        .title { text-align: right; }
+        .title h1 { font-size: 22px; letter-spacing: 1px; }
+        .title p { margin-top: 4px; }
+        .banner { margin-top: 12px; color: #444; }
+        .parties { display: flex; justify-content: space-between; margin: 20px 0; }
+        .party-label { font-size: 11px; text-transform: uppercase; color: #666; }
+        .party-name { font-weight: bold; margin: 2px 0; }
+        .meta td { padding: 2px 0 2px 16px; }
+        table.lines { width: 100%; border-collapse: collapse; }
+        table.lines th { background: #f3f3f3; text-align: left; padding: 6px; border-bottom: 1px solid #ccc; }
+        table.lines td { padding: 6px; border-bottom: 1px solid #eee; }
+        table.lines .num { text-align: right; }
+        .totals { margin-left: auto; margin-top: 12px; width: 280px; }
+        .totals div { display: flex; justify-content: space-between; padding: 3px 0; }
+        .totals .emphasis { font-weight: bold; font-size: 14px; border-top: 1px solid #111; margin-top: 4px; padding-top: 6px; }
+        .notes, .terms { margin-top: 20px; white-space: pre-line; }
+        .footer { margin-top: 32px; text-align: center; color: #444; }
+        @media print { body { padding: 0; } }
+      </style>
+    </head>
+    <body>
+      <div class="header">
+        <div class="company">
+          ${company.logo_url ? `<img src="${escapeHtml(company.logo_url)}" alt="">` : ''}
+          <div>
+            <div class="company-name">${escapeHtml(company.name)}</div>
+            ${company.address ? `<div class="company-info">${escapeHtml(company.address)}</div>` : ''}
+            ${company.phone ? `<div class="company-info">Tel: ${escapeHtml(company.phone)}</div>` : ''}
+            ${company.email ? `<div class="company-info">${escapeHtml(company.email)}</div>` : ''}
+            ${company.npwp ? `<div class="company-info">NPWP: ${escapeHtml(company.npwp)}</div>` : ''}
+          </div>
+        </div>
+        <div class="title">
+          <h1>${escapeHtml(branding.title)}</h1>
+          <p>${escapeHtml(document.number)}</p>
+          <p>${formatDate(document.date)}</p>
+        </div>
+      </div>
+      ${branding.header ? `<div class="banner">${escapeHtml(branding.header)}</div>` : ''}
+
+      <div class="parties">
+        <div>
+          <div class="party-label">${escapeHtml(document.party.label)}</div>
+          <div class="party-name">${escapeHtml(document.party.name)}</div>
+          ${document.party.lines.map(line => `<div>${escapeHtml(line)}</div>`).join('')}
+        </div>
+        <table class="meta">
+          ${document.meta
+            .map(
+              row =>
+                `<tr><td>${escapeHtml(row.label)}</td><td>${escapeHtml(row.value)}</td></tr>`
+            )
+            .join('')}
+        </table>
+      </div>
+
+      <table class="lines">
+        <thead>
+          <tr>
+            <th>#</th>
+            <th>Deskripsi</th>
+            ${document.columns.map(column => `<th class="num">${COLUMN_LABELS[column]}</th>`).join('')}
+          </tr>
+        </thead>
+        <tbody>
+          ${document.lines
+            .map(
+              (line, index) => `
+          <tr>
+            <td>${index + 1}</td>
+            <td>${escapeHtml(line.description)}</td>
+            ${document.columns.map(column => `<td class="num">${cell(line, column)}</td>`).join('')}
+          </tr>`
+            )
+            .join('')}
+        </tbody>
+      </table>
+
+      ${
+        document.totals.length > 0
+          ? `<div class="totals">${document.totals
+              .map(
+                total =>
+                  `<div class="${total.emphasis ? 'emphasis' : ''}"><span>${escapeHtml(total.label)}</span><span>${formatCurrency(total.amount)}</span></div>`
+              )
+              .join('')}</div>`
+          : ''
+      }
+
+      ${document.notes ? `<div class="notes">${escapeHtml(document.notes)}</div>` : ''}
+      ${branding.terms ? `<div class="terms">${escapeHtml(branding.terms)}</div>` : ''}
+
+      <div class="footer">
+        ${branding.footer.map(line => `<div>${escapeHtml(line)}</div>`).join('')}
+      </div>
+
+      <script>
+        window.onload = function() {
+          window.print();
+        }
+      </script>
+    </body>
+    </html>
+  `
+}
+
+/**
+ * Open a branded document in a new tab and print it
+ */
+export function printDocumentInNewTab(
+  branding: DocumentBranding,
+  document: PrintableDocument
+) {
+  const printWindow = window.open('', '_blank')
+  if (!printWindow) {
+    alert('Please allow popups to print documents')
+    return
+  }
+
+  printWindow.document.write(renderDocumentHtml(branding, document))
+  printWindow.document.close()
+}
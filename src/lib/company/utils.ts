@@ -0,0 +1,127 @@
+/**
+ * Company Branding Utilities
+ * Resolves the company profile and a document template into what gets
+ * printed on receipts and invoices
+ */
+
+import type {
+  BrandedDocumentType,
+  CompanyProfile,
+  CompanyTimeZone,
+  DocumentBranding,
+  DocumentTemplate,
+} from '@/types/company'
+
+export const BRANDED_DOCUMENT_TYPES: {
+  value: BrandedDocumentType
+  label: string
+}[] = [
+  { value: 'receipt', label: 'POS Receipt' },
+  { value: 'sales_invoice', label: 'Sales Invoice' },
+]
+
+export const COMPANY_TIME_ZONES: { value: CompanyTimeZone; label: string }[] = [
+  { value: 'Asia/Jakarta', label: 'WIB (Asia/Jakarta, UTC+7)' },
+  { value: 'Asia/Makassar', label: 'WITA (Asia/Makassar, UTC+8)' },
+  { value: 'Asia/Jayapura', label: 'WIT (Asia/Jayapura, UTC+9)' },
+]
+
+export const DEFAULT_FOOTER_MESSAGE = 'Terima Kasih\nAtas Kunjungan Anda'
+
+export const DEFAULT_RETURN_POLICY =
+  'Barang yang sudah dibeli tidak dapat dikembalikan'
+
+// Used until an owner saves a template of their own
+export const DEFAULT_DOCUMENT_TEMPLATES: Record<
+  BrandedDocumentType,
+  Pick<
+    DocumentTemplate,
+    | 'title'
+    | 'header_text'
+    | 'footer_text'
+    | 'terms_text'
+    | 'show_logo'
+    | 'show_npwp'
+    | 'show_return_policy'
+  >
+> = {
+  receipt: {
+    title: null,
+    header_text: null,
+    footer_text: null,
+    terms_text: null,
+    show_logo: true,
+    show_npwp: true,
+    show_return_policy: true,
+  },
+  sales_invoice: {
+    title: 'INVOICE',
+    header_text: null,
+    footer_text: null,
+    terms_text: null,
+    show_logo: true,
+    show_npwp: true,
+    show_return_policy: false,
+  },
+}
+
+const lines = (text: string | null | undefined) =>
+  (text || '')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+
+/**
+ * Merge the company profile and a template into document branding. The
+ * legal name is printed when set, otherwise the company's trading name.
+ */
+export function resolveDocumentBranding(
+  document_type: BrandedDocumentType,
+  companyName: string,
+  profile: CompanyProfile | null,
+  template: DocumentTemplate | null
+): DocumentBranding {
+  const settings = template || DEFAULT_DOCUMENT_TEMPLATES[document_type]
+
+  const footer = lines(
+    settings.footer_text || profile?.footer_message || DEFAULT_FOOTER_MESSAGE
+  )
+  if (settings.show_return_policy) {
+    footer.push(...lines(profile?.return_policy || DEFAULT_RETURN_POLICY))
+  }
+
+  return {
+    document_type,
+    company: {
+      name: profile?.legal_name || companyName,
+      address: profile?.address || undefined,
+      phone: profile?.phone || undefined,
+      email: profile?.email || undefined,
+      npwp: (settings.show_npwp && profile?.npwp) || undefined,
+      logo_url: (settings.show_logo && profile?.logo_url) || undefined,
+    },
+    title: settings.title || '',
+    header: settings.header_text || null,
+    footer,
+    terms: settings.terms_text || null,
+  }
+}
+
+/**
+ * Whether an NPWP has 15 digits (or 16 for the NIK-based form), ignoring
+ * punctuation
+ */
+export function isValidNpwp(npwp: string): boolean {
+  const digits = npwp.replace(/[.\-\s]/g, '')
+  return /^\d{15,16}$/.test(digits)
+}
+
+/**
+ * Format a 15-digit NPWP as 99.999.999.9-999.999; other forms are returned
+ * as digits
+ */
+export function formatNpwp(npwp: string): string {
+  const digits = npwp.replace(/\D/g, '')
+  if (digits.length !== 15) return digits
+  return `${digits.slice(0, 2)}.${digits.slice(2, 5)}.${digits.slice(5, 8)}.${digits.slice(8, 9)}-${digits.slice(9, 12)}.${digits.slice(12)}`
+}
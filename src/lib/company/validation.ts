@@ -0,0 +1,50 @@
+import { z } from 'zod'
+import { isValidNpwp } from '@/lib/company/utils'
+
+/**
+ * Company profile form validation schema
+ */
+export const companyProfileFormSchema = z.object({
+  legal_name: z.string().max(150, 'Legal name must not exceed 150 characters'),
+  npwp: z.string().refine(value => !value || isValidNpwp(value), {
+    message: 'NPWP must have 15 or 16 digits',
+  }),
+  address: z.string().max(300, 'Address must not exceed 300 characters'),
+  phone: z.string().max(30, 'Phone must not exceed 30 characters'),
+  email: z
+    .string()
+    .email('Please enter a valid email')
+    .optional()
+    .or(z.literal('')),
+  logo_url: z
+    .string()
+    .url('Please enter a valid URL')
+    .optional()
+    .or(z.literal('')),
+  footer_message: z
+    .string()
+    .max(200, 'Footer message must not exceed 200 characters'),
+  return_policy: z
+    .string()
+    .max(500, 'Return policy must not exceed 500 characters'),
+  time_zone: z.enum(['Asia/Jakarta', 'Asia/Makassar', 'Asia/Jayapura']),
+})
+
+export type CompanyProfileFormData = z.infer<typeof companyProfileFormSchema>
+
+/**
+ * Document template form validation schema
+ */
+export const documentTemplateFormSchema = z.object({
+  title: z.string().max(50, 'Title must not exceed 50 characters'),
+  header_text: z.string().max(300, 'Header must not exceed 300 characters'),
+  footer_text: z.string().max(300, 'Footer must not exceed 300 characters'),
+  terms_text: z.string().max(1000, 'Terms must not exceed 1000 characters'),
+  show_logo: z.boolean(),
+  show_npwp: z.boolean(),
+  show_return_policy: z.boolean(),
+})
+
+export type DocumentTemplateFormData = z.infer<
+  typeof documentTemplateFormSchema
+>
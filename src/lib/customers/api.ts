@@ -11,6 +11,9 @@ import type {
   CustomerFilters,
   PaginationParams,
   PaginatedResponse,
+  AgingBucket,
+  CustomerReceivables,
+  ReceivableInvoice,
 } from '@/types/customers'
 
 const supabase = createClientSupabase()
@@ -150,6 +153,7 @@ export async function createCustomer(
       address: input.address || null,
       category_id: input.category_id || null,
       credit_limit: input.credit_limit || 0,
+      is_tax_exempt: input.is_tax_exempt || false,
       status: input.status || 'active',
       created_by: user.id,
     })
@@ -196,3 +200,85 @@ export async function toggleCustomerStatus(id: string): Promise<Customer> {
 
   return updateCustomer({ id, status: newStatus })
 }
+
+// ============================================
+// RECEIVABLES
+// ============================================
+
+const AGING_BUCKETS: Omit<AgingBucket, 'amount'>[] = [
+  { label: 'Current', min_days: 0, max_days: 0 },
+  { label: '1-30 days', min_days: 1, max_days: 30 },
+  { label: '31-60 days', min_days: 31, max_days: 60 },
+  { label: '61-90 days', min_days: 61, max_days: 90 },
+  { label: 'Over 90 days', min_days: 91, max_days: null },
+]
+
+/**
+ * Open invoices of a customer with their balance against the credit limit,
+ * aged by days past due
+ */
+export async function getCustomerReceivables(
+  customerId: string
+): Promise<CustomerReceivables> {
+  const [customer, invoicesResult] = await Promise.all([
+    getCustomerById(customerId),
+    supabase
+      .from('sales_invoices')
+      .select(
+        'id, invoice_number, invoice_date, due_date, status, grand_total, paid_amount, remaining_amount, pos_transaction_id'
+      )
+      .eq('customer_id', customerId)
+      .in('status', ['unpaid', 'partial', 'overdue'])
+      .order('due_date', { ascending: true }),
+  ])
+
+  if (invoicesResult.error) {
+    throw new Error(
+      `Failed to fetch receivables: ${invoicesResult.error.message}`
+    )
+  }
+
+  const today = new Date()
+  today.setHours(0, 0, 0, 0)
+
+  const invoices: ReceivableInvoice[] = (invoicesResult.data || []).map(
+    invoice => ({
+      ...invoice,
+      grand_total: Number(invoice.grand_total),
+      paid_amount: Number(invoice.paid_amount),
+      remaining_amount: Number(invoice.remaining_amount),
+      days_overdue: Math.max(
+        0,
+        Math.floor(
+          (today.getTime() -
+            new Date(`${invoice.due_date}T00:00:00`).getTime()) /
+            86400000
+        )
+      ),
+    })
+  )
+
+  const outstanding = invoices.reduce(
+    (sum, invoice) => sum + invoice.remaining_amount,
+    0
+  )
+  const credit_limit = Number(customer.credit_limit) || 0
+
+  return {
+    credit_limit,
+    outstanding,
+    available_credit: Math.max(credit_limit - outstanding, 0),
+    aging: AGING_BUCKETS.map(bucket => ({
+      ...bucket,
+      amount: invoices
+        .filter(
+          invoice =>
+            invoice.days_overdue >= bucket.min_days &&
+            (bucket.max_days === null ||
+              invoice.days_overdue <= bucket.max_days)
+        )
+        .reduce((sum, invoice) => sum + invoice.remaining_amount, 0),
+    })),
+    invoices,
+  }
+}
@@ -14,6 +14,7 @@ export const customerFormSchema = z.object({
   address: z.string(),
   category_id: z.string().uuid('Please select a category'),
   credit_limit: z.number().min(0, 'Credit limit must be positive'),
+  is_tax_exempt: z.boolean(),
   status: z.enum(['active', 'inactive']),
 })
 
@@ -143,7 +143,7 @@ export const ERP_MODULES: Module[] = [
   },
 ]
 
-// Company Modules (Owner - 4 modules)
+// Company Modules (Owner - 5 modules)
 export const COMPANY_MODULES: Module[] = [
   {
     id: 'company-dashboard',
@@ -189,6 +189,17 @@ export const COMPANY_MODULES: Module[] = [
     slug: 'reports',
     description: 'View company-wide reports (sales, inventory, finance)',
   },
+  {
+    id: 'company-settings',
+    name: 'Company Settings',
+    icon: 'Settings',
+    category: 'company',
+    route_path: '/company/settings',
+    is_active: true,
+    sort_order: 5,
+    slug: 'settings',
+    description: 'Company profile, NPWP and printed document templates',
+  },
 ]
 
 // System Modules (Dev - 5 modules)
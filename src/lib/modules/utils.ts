@@ -12,11 +12,11 @@ import { ERP_MODULES, COMPANY_MODULES, SYSTEM_MODULES } from './definitions'
 export function getModulesByRole(role: UserRole): Module[] {
   switch (role) {
     case 'dev':
-      // Dev sees all: System + Company + ERP (21 modules total)
+      // Dev sees all: System + Company + ERP (22 modules total)
       return [...SYSTEM_MODULES, ...COMPANY_MODULES, ...ERP_MODULES]
 
     case 'owner':
-      // Owner sees: Company + ERP (16 modules total)
+      // Owner sees: Company + ERP (17 modules total)
       return [...COMPANY_MODULES, ...ERP_MODULES]
 
     case 'staff':
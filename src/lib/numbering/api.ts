@@ -0,0 +1,98 @@
+/**
+ * Document Numbering API
+ * Shared per-company sequences for sales, invoice, payment, delivery and POS
+ * documents. Numbers are always assigned by database triggers on insert, in
+ * the company's time zone, and replace any number the caller sent; this
+ * module manages the settings, which only owners may change.
+ */
+
+import { createClientSupabase } from '@/lib/supabase/client'
+import type {
+  DocumentSequence,
+  DocumentType,
+  UpdateDocumentSequenceInput,
+} from '@/types/numbering'
+
+const supabase = createClientSupabase()
+
+// Helper function to get current user's company_id
+async function getCurrentCompanyId(): Promise<string> {
+  const { data: userData } = await supabase.auth.getUser()
+  if (!userData.user) throw new Error('Not authenticated')
+
+  const { data: user } = await supabase
+    .from('users')
+    .select('company_id')
+    .eq('id', userData.user.id)
+    .single()
+    .overrideTypes<{ company_id: string | null }, { merge: false }>()
+
+  if (!user?.company_id) throw new Error('User company not found')
+  return user.company_id
+}
+
+/**
+ * Get all document sequences for the current user's company
+ */
+export async function getDocumentSequences(): Promise<DocumentSequence[]> {
+  const { data, error } = await supabase
+    .from('document_sequences')
+    .select('*')
+    .order('document_type', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching document sequences:', error)
+    throw new Error(`Failed to fetch document sequences: ${error.message}`)
+  }
+
+  return (data as DocumentSequence[] | null) || []
+}
+
+/**
+ * Update prefix, reset period or padding of a document sequence.
+ * The running counter is left untouched so issued numbers stay gapless.
+ */
+export async function updateDocumentSequence(
+  document_type: DocumentType,
+  input: UpdateDocumentSequenceInput
+): Promise<DocumentSequence> {
+  if (input.prefix !== undefined && !input.prefix.trim()) {
+    throw new Error('Prefix is required')
+  }
+
+  const company_id = await getCurrentCompanyId()
+
+  // Make sure the sequence row exists with its defaults before updating it
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { error: ensureError } = await (supabase as any).rpc(
+    'ensure_document_sequence',
+    { p_company_id: company_id, p_document_type: document_type }
+  )
+
+  if (ensureError) {
+    console.error('Error creating document sequence:', ensureError)
+    throw new Error(
+      `Failed to create document sequence: ${ensureError.message}`
+    )
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const query = supabase.from('document_sequences') as any
+  const { data, error } = await query
+    .update({
+      ...input,
+      prefix: input.prefix?.trim(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('company_id', company_id)
+    .eq('document_type', document_type)
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error updating document sequence:', error)
+    throw new Error(`Failed to update document sequence: ${error.message}`)
+  }
+
+  return data
+}
@@ -0,0 +1,67 @@
+/**
+ * Document Numbering Utilities
+ * Labels and defaults for the sequence settings, and how a sequence's
+ * numbers look when issued
+ */
+
+import type {
+  DocumentSequence,
+  DocumentType,
+  ResetPeriod,
+} from '@/types/numbering'
+
+export const DOCUMENT_TYPES: { value: DocumentType; label: string }[] = [
+  { value: 'sales_order', label: 'Sales Order' },
+  { value: 'sales_invoice', label: 'Sales Invoice' },
+  { value: 'sales_payment', label: 'Sales Payment' },
+  { value: 'delivery_order', label: 'Delivery Order' },
+  { value: 'pos_transaction', label: 'POS Transaction' },
+  { value: 'pos_return', label: 'POS Return' },
+  { value: 'pos_z_report', label: 'Z-Report' },
+]
+
+export const RESET_PERIODS: { value: ResetPeriod; label: string }[] = [
+  { value: 'daily', label: 'Daily' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'yearly', label: 'Yearly' },
+  { value: 'never', label: 'Never' },
+]
+
+// Mirrors ensure_document_sequence, for types that have not issued a number yet
+export const DEFAULT_DOCUMENT_SEQUENCES: Record<
+  DocumentType,
+  Pick<DocumentSequence, 'prefix' | 'reset_period' | 'padding'>
+> = {
+  sales_order: { prefix: 'SO', reset_period: 'monthly', padding: 4 },
+  sales_invoice: { prefix: 'INV', reset_period: 'monthly', padding: 4 },
+  sales_payment: { prefix: 'PAY', reset_period: 'monthly', padding: 4 },
+  delivery_order: { prefix: 'DO', reset_period: 'monthly', padding: 4 },
+  pos_transaction: { prefix: 'POS', reset_period: 'daily', padding: 4 },
+  pos_return: { prefix: 'RET', reset_period: 'daily', padding: 4 },
+  pos_z_report: { prefix: 'Z', reset_period: 'never', padding: 4 },
+}
+
+/**
+ * Format the first number of a period, the way next_document_number does
+ */
+export function formatDocumentNumberExample(
+  prefix: string,
+  reset_period: ResetPeriod,
+  padding: number,
+  date: Date = new Date()
+): string {
+  const year = String(date.getFullYear())
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+
+  const period =
+    reset_period === 'daily'
+      ? `${year}${month}${day}`
+      : reset_period === 'monthly'
+        ? `${year}${month}`
+        : reset_period === 'yearly'
+          ? year
+          : ''
+
+  return [prefix, period, '1'.padStart(padding, '0')].filter(Boolean).join('-')
+}
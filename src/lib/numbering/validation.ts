@@ -0,0 +1,26 @@
+import { z } from 'zod'
+
+/**
+ * Document sequence form validation schema
+ */
+export const documentSequenceFormSchema = z.object({
+  prefix: z
+    .string()
+    .trim()
+    .min(1, 'Prefix is required')
+    .max(10, 'Prefix must not exceed 10 characters')
+    .regex(
+      /^[A-Za-z0-9/]+$/,
+      'Prefix may only contain letters, digits and slashes'
+    ),
+  reset_period: z.enum(['never', 'daily', 'monthly', 'yearly']),
+  padding: z
+    .number()
+    .int('Digits must be a whole number')
+    .min(1, 'Digits must be between 1 and 12')
+    .max(12, 'Digits must be between 1 and 12'),
+})
+
+export type DocumentSequenceFormData = z.infer<
+  typeof documentSequenceFormSchema
+>
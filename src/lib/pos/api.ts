@@ -4,21 +4,75 @@
  */
 
 import { createClientSupabase } from '@/lib/supabase/client'
+import {
+  getTaxSettings,
+  getProductTaxCategories,
+  isCustomerTaxExempt,
+} from '@/lib/tax/api'
+import { calculatePricing } from '@/lib/pricing/utils'
+import { settlePayments } from '@/lib/pos/utils'
+import {
+  buildShiftReport,
+  type ShiftReportShift,
+  type ShiftReportTransaction,
+} from '@/lib/pos/shift-report'
 import type {
   PosShift,
   PosShiftWithCashier,
   PosTransaction,
+  PosTransactionRedemption,
   PosTransactionWithRelations,
   PosShiftFilters,
   PosTransactionFilters,
   CreateShiftInput,
+  PosRegister,
+  PosRegisterWithRelations,
+  CreateRegisterInput,
+  UpdateRegisterInput,
   CloseShiftInput,
   CreateTransactionInput,
+  CreateReturnInput,
+  PosReturn,
+  PosReturnWithItems,
+  PaymentMethod,
+  RefundMethod,
   ShiftSummary,
+  PosSettings,
+  UpdatePosSettingsInput,
+  PosQrisCharge,
+  ParkCartInput,
+  PosParkedCart,
+  PosParkedCartWithRelations,
+  PosCashMovement,
+  PosCashMovementWithRelations,
+  CreateCashMovementInput,
+  PosApproval,
+  PosApprovalWithRelations,
+  CreateApprovalInput,
+  PosZReport,
+  PosZReportWithRelations,
+  ShiftReport,
+  ShiftReportType,
 } from '@/types/pos'
 
 const supabase = createClientSupabase()
 
+// Helper function to get current user's company_id
+async function getCurrentCompanyId(): Promise<string> {
+  const { data: userData } = await supabase.auth.getUser()
+  if (!userData.user) throw new Error('Not authenticated')
+
+  const { data: user } = await supabase
+    .from('users')
+    .select('company_id')
+    .eq('id', userData.user.id)
+    .single()
+    .overrideTypes<{ company_id: string | null }, { merge: false }>()
+
+  if (!user?.company_id) throw new Error('User company not found')
+  return user.company_id
+}
+
 // ============================================================================
 // SHIFT MANAGEMENT
 // ============================================================================
@@ -34,7 +88,8 @@ export async function getShifts(
     .select(
       `
       *,
-      cashier:users!pos_shifts_cashier_id_fkey(id, name, email)
+      cashier:users!pos_shifts_cashier_id_fkey(id, name, email),
+      register:pos_registers(id, name, code)
     `
     )
     .order('opened_at', { ascending: false })
@@ -44,6 +99,11 @@ export async function getShifts(
     query = query.eq('status', filters.status)
   }
 
+  // Apply register filter
+  if (filters?.register_id) {
+    query = query.eq('register_id', filters.register_id)
+  }
+
   // Apply cashier filter
   if (filters?.cashier_id) {
     query = query.eq('cashier_id', filters.cashier_id)
@@ -106,7 +166,7 @@ export async function openShift(input: CreateShiftInput): Promise<PosShift> {
   }
 
   // Get user's company_id
-   
+
   const { data: userData, error: userError } = (await supabase
     .from('users')
     .select('company_id')
@@ -123,14 +183,23 @@ export async function openShift(input: CreateShiftInput): Promise<PosShift> {
     throw new Error('You already have an open shift. Please close it first.')
   }
 
+  // Resolve the warehouse this shift sells from; a register always sells
+  // from its own warehouse
+  const warehouse_id = input.register_id
+    ? (await getRegisterById(input.register_id)).warehouse_id
+    : input.warehouse_id || (await getDefaultWarehouseId(userData.company_id))
+
   // Create new shift
-   
+
   const { data, error } = await supabase
     .from('pos_shifts')
     .insert({
       company_id: userData.company_id,
       cashier_id: user.id,
+      register_id: input.register_id || null,
+      warehouse_id,
       opening_cash: input.opening_cash,
+      opening_denominations: input.opening_denominations || null,
       notes: input.notes || null,
       status: 'open',
     } as any)
@@ -139,12 +208,42 @@ export async function openShift(input: CreateShiftInput): Promise<PosShift> {
 
   if (error) {
     console.error('Error opening shift:', error)
+    if (error.code === '23505') {
+      throw new Error('This register already has an open shift')
+    }
     throw new Error(`Failed to open shift: ${error.message}`)
   }
 
   return data
 }
 
+/**
+ * Get the company's default active warehouse
+ */
+async function getDefaultWarehouseId(company_id: string): Promise<string> {
+  const { data, error } = await supabase
+    .from('warehouses')
+    .select('id')
+    .eq('company_id', company_id)
+    .eq('is_default', true)
+    .eq('is_active', true)
+    .limit(1)
+    .maybeSingle()
+    .overrideTypes<{ id: string }, { merge: false }>()
+
+  if (error) {
+    console.error('Error fetching default warehouse:', error)
+    throw new Error(`Failed to fetch default warehouse: ${error.message}`)
+  }
+
+  const warehouse = data
+  if (!warehouse) {
+    throw new Error('No default warehouse found. Please select a warehouse.')
+  }
+
+  return warehouse.id
+}
+
 /**
  * Close an existing shift
  */
@@ -166,6 +265,7 @@ export async function closeShift(
       closing_cash: input.closing_cash,
       expected_cash: summary.expected_cash,
       actual_cash: input.actual_cash,
+      closing_denominations: input.closing_denominations || null,
       variance,
       closed_at: new Date().toISOString(),
       notes: input.notes || null,
@@ -183,12 +283,18 @@ export async function closeShift(
   return data
 }
 
+// Payment or collection amount tagged with its method
+interface AmountByMethod {
+  payment_method: string
+  amount: number
+}
+
 /**
  * Get shift summary with sales data
  */
 export async function getShiftSummary(shift_id: string): Promise<ShiftSummary> {
   // Get shift details
-   
+
   const { data: shift, error: shiftError } = (await supabase
     .from('pos_shifts')
     .select('*')
@@ -199,36 +305,123 @@ export async function getShiftSummary(shift_id: string): Promise<ShiftSummary> {
     throw new Error(`Failed to fetch shift: ${shiftError.message}`)
   }
 
-  // Get transactions for this shift
-   
+  // Get transactions for this shift (refunded sales still count as sales;
+  // their refunds are subtracted below)
+
   const { data: transactions, error: transError } = (await supabase
     .from('pos_transactions')
     .select('*')
     .eq('shift_id', shift_id)
-    .eq('payment_status', 'paid')) as any
+    .in('payment_status', ['paid', 'refunded'])) as any
 
   if (transError) {
     throw new Error(`Failed to fetch transactions: ${transError.message}`)
   }
 
+  // Get payment lines; sales are split by what each line paid, not by the
+  // transaction's header method
+
+  const transactionIds = ((transactions || []) as PosTransaction[]).map(
+    t => t.id
+  )
+  const { data: paymentsData, error: paymentsError } = await supabase
+    .from('pos_payments')
+    .select('payment_method, amount')
+    .in('transaction_id', transactionIds)
+
+  if (paymentsError) {
+    throw new Error(`Failed to fetch payments: ${paymentsError.message}`)
+  }
+  const payments = (paymentsData || []) as AmountByMethod[]
+
+  // Get receivable payments collected at the register during this shift
+
+  const { data: receivableData, error: receivableError } = await supabase
+    .from('sales_payments')
+    .select('payment_method, amount')
+    .eq('shift_id', shift_id)
+
+  if (receivableError) {
+    throw new Error(
+      `Failed to fetch receivable payments: ${receivableError.message}`
+    )
+  }
+  const receivablePayments = (receivableData || []) as AmountByMethod[]
+
+  // Get refunds handed out during this shift
+
+  const { data: returns, error: returnsError } = (await supabase
+    .from('pos_returns')
+    .select('refund_method, refund_amount, credited_amount')
+    .eq('shift_id', shift_id)) as any
+
+  if (returnsError) {
+    throw new Error(`Failed to fetch returns: ${returnsError.message}`)
+  }
+
+  // Get cash paid into or out of the drawer outside of sales
+
+  const { data: movementsData, error: movementsError } = await supabase
+    .from('pos_cash_movements')
+    .select('movement_type, amount')
+    .eq('shift_id', shift_id)
+
+  if (movementsError) {
+    throw new Error(`Failed to fetch cash movements: ${movementsError.message}`)
+  }
+  const movements = (movementsData || []) as Pick<
+    PosCashMovement,
+    'movement_type' | 'amount'
+  >[]
+
   // Calculate totals
   const total_transactions = transactions?.length || 0
   const total_sales =
     transactions?.reduce((sum: number, t: any) => sum + Number(t.total), 0) || 0
-  const cash_sales =
-    transactions
-      ?.filter((t: any) => t.payment_method === 'cash')
-      .reduce((sum: number, t: any) => sum + Number(t.total), 0) || 0
-  const card_sales =
-    transactions
-      ?.filter((t: any) => t.payment_method === 'card')
-      .reduce((sum: number, t: any) => sum + Number(t.total), 0) || 0
-  const transfer_sales =
-    transactions
-      ?.filter((t: any) => t.payment_method === 'transfer')
-      .reduce((sum: number, t: any) => sum + Number(t.total), 0) || 0
-
-  const expected_cash = Number(shift.opening_cash) + cash_sales
+  const sumAmounts = (lines: AmountByMethod[]) =>
+    lines.reduce((sum, line) => sum + Number(line.amount), 0)
+  const salesByMethod = (method: PaymentMethod) =>
+    sumAmounts(payments.filter(p => p.payment_method === method))
+  const cash_sales = salesByMethod('cash')
+  const card_sales = salesByMethod('card')
+  const transfer_sales = salesByMethod('transfer')
+  const ewallet_sales = salesByMethod('e-wallet')
+  const credit_sales = salesByMethod('credit')
+
+  const total_refunds =
+    returns?.reduce(
+      (sum: number, r: any) => sum + Number(r.refund_amount),
+      0
+    ) || 0
+  // What a credit sale's return took off its invoice never left the drawer
+  const cash_refunds =
+    returns
+      ?.filter((r: any) => r.refund_method === 'cash')
+      .reduce(
+        (sum: number, r: any) =>
+          sum + Number(r.refund_amount) - Number(r.credited_amount || 0),
+        0
+      ) || 0
+
+  const receivable_payments = sumAmounts(receivablePayments)
+  const cash_receivable_payments = sumAmounts(
+    receivablePayments.filter(p => p.payment_method === 'cash')
+  )
+
+  const sumMovements = (type: PosCashMovement['movement_type']) =>
+    movements
+      .filter(m => m.movement_type === type)
+      .reduce((sum, m) => sum + Number(m.amount), 0)
+  const cash_pay_ins = sumMovements('pay_in')
+  const cash_pay_outs = sumMovements('pay_out')
+
+  const expected_cash =
+    Number(shift.opening_cash) +
+    cash_sales +
+    cash_receivable_payments +
+    cash_pay_ins -
+    cash_refunds -
+    cash_pay_outs
 
   return {
     shift_id: shift.id,
@@ -241,12 +434,534 @@ export async function getShiftSummary(shift_id: string): Promise<ShiftSummary> {
     cash_sales,
     card_sales,
     transfer_sales,
+    ewallet_sales,
+    credit_sales,
+    receivable_payments,
+    cash_receivable_payments,
+    total_refunds,
+    cash_refunds,
+    cash_pay_ins,
+    cash_pay_outs,
     expected_cash,
     actual_cash: shift.actual_cash ? Number(shift.actual_cash) : null,
     variance: shift.variance ? Number(shift.variance) : null,
   }
 }
 
+// ============================================================================
+// REGISTERS
+// ============================================================================
+
+/**
+ * Get the company's registers with their warehouses
+ */
+export async function getRegisters(): Promise<PosRegisterWithRelations[]> {
+  const { data, error } = await supabase
+    .from('pos_registers')
+    .select(
+      `
+      *,
+      warehouse:warehouses(id, name, code)
+    `
+    )
+    .order('name', { ascending: true })
+    .overrideTypes<PosRegisterWithRelations[], { merge: false }>()
+
+  if (error) {
+    console.error('Error fetching registers:', error)
+    throw new Error(`Failed to fetch registers: ${error.message}`)
+  }
+
+  return data || []
+}
+
+/**
+ * Get a single register by ID
+ */
+export async function getRegisterById(id: string): Promise<PosRegister> {
+  const { data, error } = await supabase
+    .from('pos_registers')
+    .select('*')
+    .eq('id', id)
+    .single()
+    .overrideTypes<PosRegister, { merge: false }>()
+
+  if (error) {
+    console.error('Error fetching register:', error)
+    throw new Error(`Failed to fetch register: ${error.message}`)
+  }
+
+  return data
+}
+
+/**
+ * Create a register
+ */
+export async function createRegister(
+  input: CreateRegisterInput
+): Promise<PosRegister> {
+  const company_id = await getCurrentCompanyId()
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const query = supabase.from('pos_registers') as any
+  const { data, error } = await query
+    .insert({
+      company_id,
+      name: input.name,
+      code: input.code,
+      warehouse_id: input.warehouse_id,
+      printer_settings: input.printer_settings || {},
+      receipt_header: input.receipt_header || null,
+      receipt_footer: input.receipt_footer || null,
+      is_active: input.is_active ?? true,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error creating register:', error)
+    if (error.code === '23505') {
+      throw new Error(`Register code "${input.code}" is already in use`)
+    }
+    throw new Error(`Failed to create register: ${error.message}`)
+  }
+
+  return data
+}
+
+/**
+ * Update a register
+ */
+export async function updateRegister(
+  input: UpdateRegisterInput
+): Promise<PosRegister> {
+  const { id, ...updates } = input
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const query = supabase.from('pos_registers') as any
+  const { data, error } = await query
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error updating register:', error)
+    if (error.code === '23505') {
+      throw new Error(`Register code "${updates.code}" is already in use`)
+    }
+    throw new Error(`Failed to update register: ${error.message}`)
+  }
+
+  return data
+}
+
+/**
+ * Get the IDs of the shifts opened on a register
+ */
+async function getRegisterShiftIds(register_id: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('pos_shifts')
+    .select('id')
+    .eq('register_id', register_id)
+    .overrideTypes<{ id: string }[], { merge: false }>()
+
+  if (error) {
+    console.error('Error fetching register shifts:', error)
+    throw new Error(`Failed to fetch register shifts: ${error.message}`)
+  }
+
+  return (data || []).map(shift => shift.id)
+}
+
+// ============================================================================
+// CASH MOVEMENTS
+// ============================================================================
+
+const CASH_MOVEMENT_SELECT = `
+  *,
+  approver:users!pos_cash_movements_approved_by_fkey(id, name),
+  creator:users!pos_cash_movements_created_by_fkey(id, name)
+`
+
+/**
+ * Get the pay-ins and pay-outs recorded in a shift, oldest first
+ */
+export async function getCashMovements(
+  shift_id: string
+): Promise<PosCashMovementWithRelations[]> {
+  const { data, error } = await supabase
+    .from('pos_cash_movements')
+    .select(CASH_MOVEMENT_SELECT)
+    .eq('shift_id', shift_id)
+    .order('created_at', { ascending: true })
+    .overrideTypes<PosCashMovementWithRelations[], { merge: false }>()
+
+  if (error) {
+    console.error('Error fetching cash movements:', error)
+    throw new Error(`Failed to fetch cash movements: ${error.message}`)
+  }
+
+  return data || []
+}
+
+/**
+ * Record cash put into or taken out of the drawer during an open shift. The
+ * approver is taken from the supervisor approval it was given.
+ */
+export async function createCashMovement(
+  input: CreateCashMovementInput
+): Promise<PosCashMovement> {
+  if (!(input.amount > 0)) {
+    throw new Error('Amount must be greater than zero')
+  }
+  if (input.reason === 'other' && !input.notes?.trim()) {
+    throw new Error('Please describe the reason for this cash movement')
+  }
+
+  const { data: userData } = await supabase.auth.getUser()
+  if (!userData.user) throw new Error('Not authenticated')
+
+  const company_id = await getCurrentCompanyId()
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const query = supabase.from('pos_cash_movements') as any
+  const { data, error } = await query
+    .insert({
+      company_id,
+      shift_id: input.shift_id,
+      movement_type: input.movement_type,
+      reason: input.reason,
+      amount: input.amount,
+      notes: input.notes?.trim() || null,
+      approval_id: input.approval_id,
+      created_by: userData.user.id,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error recording cash movement:', error)
+    throw new Error(`Failed to record cash movement: ${error.message}`)
+  }
+
+  return data
+}
+
+// ============================================================================
+// APPROVALS
+// ============================================================================
+
+/**
+ * Get the owners who have a supervisor PIN and can approve at the register
+ */
+export async function getSupervisors(): Promise<
+  { id: string; name: string }[]
+> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data, error } = await (supabase as any).rpc('get_pos_supervisors')
+
+  if (error) {
+    console.error('Error fetching supervisors:', error)
+    throw new Error(`Failed to fetch supervisors: ${error.message}`)
+  }
+
+  return data || []
+}
+
+/**
+ * Set the current owner's supervisor PIN (4-6 digits)
+ */
+export async function setSupervisorPin(pin: string): Promise<void> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { error } = await (supabase as any).rpc('set_supervisor_pin', {
+    p_pin: pin,
+  })
+
+  if (error) {
+    console.error('Error setting supervisor PIN:', error)
+    throw new Error(`Failed to set supervisor PIN: ${error.message}`)
+  }
+}
+
+/**
+ * Record a supervisor's approval of a register action, checked against
+ * their PIN
+ */
+export async function approveAction(
+  supervisor_id: string,
+  pin: string,
+  input: CreateApprovalInput
+): Promise<PosApproval> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data, error } = await (supabase as any).rpc('approve_pos_action', {
+    p_supervisor_id: supervisor_id,
+    p_pin: pin,
+    p_approval: {
+      action: input.action,
+      transaction_id: input.transaction_id || null,
+      shift_id: input.shift_id || null,
+      product_id: input.product_id || null,
+      original_value: input.original_value ?? null,
+      new_value: input.new_value ?? null,
+      description: input.description || null,
+    },
+  })
+
+  if (error) {
+    console.error('Error approving action:', error)
+    throw new Error(error.message)
+  }
+
+  // A wrong PIN is recorded towards the lockout and returns no approval
+  if (!data?.id) {
+    throw new Error('Invalid supervisor PIN')
+  }
+
+  return data
+}
+
+/**
+ * Get the approvals recorded for a transaction, oldest first
+ */
+export async function getTransactionApprovals(
+  transaction_id: string
+): Promise<PosApprovalWithRelations[]> {
+  const { data, error } = await supabase
+    .from('pos_approvals')
+    .select(
+      `
+      *,
+      requester:users!pos_approvals_requested_by_fkey(id, name),
+      approver:users!pos_approvals_approved_by_fkey(id, name),
+      product:products(id, name)
+    `
+    )
+    .eq('transaction_id', transaction_id)
+    .order('approved_at', { ascending: true })
+    .overrideTypes<PosApprovalWithRelations[], { merge: false }>()
+
+  if (error) {
+    console.error('Error fetching approvals:', error)
+    throw new Error(`Failed to fetch approvals: ${error.message}`)
+  }
+
+  return data || []
+}
+
+// ============================================================================
+// SHIFT REPORTS
+// ============================================================================
+
+/**
+ * Generate a shift report from the shift's current data. X-reports can be
+ * run any time; Z-reports are issued once with issueZReport.
+ */
+export async function getShiftReport(
+  shift_id: string,
+  report_type: ShiftReportType = 'X'
+): Promise<ShiftReport> {
+  const { data: shift, error: shiftError } = await supabase
+    .from('pos_shifts')
+    .select(
+      `
+      *,
+      cashier:users!pos_shifts_cashier_id_fkey(name),
+      warehouse:warehouses(name),
+      register:pos_registers(name)
+    `
+    )
+    .eq('id', shift_id)
+    .single()
+
+  if (shiftError) {
+    console.error('Error fetching shift:', shiftError)
+    throw new Error(`Failed to fetch shift: ${shiftError.message}`)
+  }
+
+  const { data: transactionsData, error: transError } = await supabase
+    .from('pos_transactions')
+    .select(
+      `
+      id, payment_status, total, dpp_amount, tax_amount,
+      items:pos_transaction_items(
+        quantity, unit_price, discount_amount, subtotal,
+        product:products(id, name, category:product_categories(name)),
+        promotion:promotions(id, name)
+      )
+    `
+    )
+    .eq('shift_id', shift_id)
+    .in('payment_status', ['paid', 'refunded', 'cancelled'])
+    .overrideTypes<ShiftReportTransaction[], { merge: false }>()
+
+  if (transError) {
+    console.error('Error fetching shift transactions:', transError)
+    throw new Error(`Failed to fetch transactions: ${transError.message}`)
+  }
+
+  const transactions = transactionsData || []
+
+  const [summary, paymentsResult, returnsResult] = await Promise.all([
+    getShiftSummary(shift_id),
+    supabase
+      .from('pos_payments')
+      .select('transaction_id, payment_method, amount')
+      .in(
+        'transaction_id',
+        transactions.map(t => t.id)
+      ),
+    supabase
+      .from('pos_returns')
+      .select('id', { count: 'exact', head: true })
+      .eq('shift_id', shift_id),
+  ])
+
+  if (paymentsResult.error) {
+    throw new Error(`Failed to fetch payments: ${paymentsResult.error.message}`)
+  }
+  if (returnsResult.error) {
+    throw new Error(`Failed to fetch returns: ${returnsResult.error.message}`)
+  }
+
+  return buildShiftReport(report_type, {
+    shift: shift as ShiftReportShift,
+    summary,
+    transactions,
+    payments: (paymentsResult.data || []) as {
+      transaction_id: string
+      payment_method: string
+      amount: number
+    }[],
+    refund_count: returnsResult.count || 0,
+  })
+}
+
+/**
+ * Issue the Z-report of a closed shift. Each shift gets one; the database
+ * works out its figures from the shift's records, numbers it and keeps it
+ * from being changed afterwards.
+ */
+export async function issueZReport(shift_id: string): Promise<PosZReport> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data, error } = await (supabase as any).rpc('issue_pos_z_report', {
+    p_shift_id: shift_id,
+  })
+
+  if (error) {
+    console.error('Error issuing Z-report:', error)
+    throw new Error(`Failed to issue Z-report: ${error.message}`)
+  }
+
+  return data as PosZReport
+}
+
+/**
+ * Get the Z-report issued for a shift, if any
+ */
+export async function getZReportByShift(
+  shift_id: string
+): Promise<PosZReport | null> {
+  const { data, error } = await supabase
+    .from('pos_z_reports')
+    .select('*')
+    .eq('shift_id', shift_id)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching Z-report:', error)
+    throw new Error(`Failed to fetch Z-report: ${error.message}`)
+  }
+
+  return data as PosZReport | null
+}
+
+/**
+ * Get the company's issued Z-reports, newest first
+ */
+export async function getZReports(): Promise<PosZReportWithRelations[]> {
+  const { data, error } = await supabase
+    .from('pos_z_reports')
+    .select(
+      `
+      *,
+      issuer:users!pos_z_reports_issued_by_fkey(id, name)
+    `
+    )
+    .order('issued_at', { ascending: false })
+    .overrideTypes<PosZReportWithRelations[], { merge: false }>()
+
+  if (error) {
+    console.error('Error fetching Z-reports:', error)
+    throw new Error(`Failed to fetch Z-reports: ${error.message}`)
+  }
+
+  return data || []
+}
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+const DEFAULT_POS_SETTINGS: Omit<
+  PosSettings,
+  'company_id' | 'created_at' | 'updated_at'
+> = {
+  allow_stock_override: false,
+  credit_terms_days: 30,
+  approval_discount_percent: 100,
+  approval_price_override: true,
+  approval_void: true,
+  approval_refund: false,
+  qris_payload: null,
+  payment_gateway: null,
+  qris_expiry_minutes: 5,
+}
+
+/**
+ * Get POS settings for the current user's company (defaults if none saved)
+ */
+export async function getPosSettings(): Promise<PosSettings> {
+  const { data, error } = await supabase
+    .from('pos_settings')
+    .select('*')
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching POS settings:', error)
+    throw new Error(`Failed to fetch POS settings: ${error.message}`)
+  }
+
+  return (data as PosSettings | null) || (DEFAULT_POS_SETTINGS as PosSettings)
+}
+
+/**
+ * Create or update POS settings for the current user's company
+ */
+export async function updatePosSettings(
+  input: UpdatePosSettingsInput
+): Promise<PosSettings> {
+  const company_id = await getCurrentCompanyId()
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const query = supabase.from('pos_settings') as any
+  const { data, error } = await query
+    .upsert({
+      company_id,
+      ...input,
+      updated_at: new Date().toISOString(),
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error updating POS settings:', error)
+    throw new Error(`Failed to update POS settings: ${error.message}`)
+  }
+
+  return data
+}
+
 // ============================================================================
 // TRANSACTION MANAGEMENT
 // ============================================================================
@@ -272,6 +987,11 @@ export async function getTransactions(
     query = query.eq('shift_id', filters.shift_id)
   }
 
+  // Apply register filter
+  if (filters?.register_id) {
+    query = query.in('shift_id', await getRegisterShiftIds(filters.register_id))
+  }
+
   // Apply customer filter
   if (filters?.customer_id) {
     query = query.eq('customer_id', filters.customer_id)
@@ -344,6 +1064,11 @@ export async function getTransactionsWithRelations(
     query = query.eq('shift_id', filters.shift_id)
   }
 
+  // Apply register filter
+  if (filters?.register_id) {
+    query = query.in('shift_id', await getRegisterShiftIds(filters.register_id))
+  }
+
   // Apply customer filter
   if (filters?.customer_id) {
     query = query.eq('customer_id', filters.customer_id)
@@ -392,7 +1117,7 @@ export async function getTransactionById(
   id: string
 ): Promise<PosTransactionWithRelations | null> {
   // Get transaction with relations
-   
+
   const { data: transaction, error: transError } = (await supabase
     .from('pos_transactions')
     .select(
@@ -415,7 +1140,7 @@ export async function getTransactionById(
   }
 
   // Get transaction items with product details
-   
+
   const { data: items, error: itemsError } = (await supabase
     .from('pos_transaction_items')
     .select(
@@ -443,10 +1168,26 @@ export async function getTransactionById(
     throw new Error(`Failed to fetch payments: ${paymentsError.message}`)
   }
 
+  // Get the promotions it redeemed, with how each was applied
+  const { data: redemptions, error: redemptionsError } = await supabase
+    .from('promotion_redemptions')
+    .select(
+      'promotion_id, discount_amount, explanation, promotion:promotions(name)'
+    )
+    .eq('pos_transaction_id', id)
+    .order('redeemed_at')
+    .overrideTypes<PosTransactionRedemption[], { merge: false }>()
+
+  if (redemptionsError) {
+    console.error('Error fetching redemptions:', redemptionsError)
+    throw new Error(`Failed to fetch redemptions: ${redemptionsError.message}`)
+  }
+
   return {
     ...transaction,
     items: items || [],
     payments: payments || [],
+    redemptions: redemptions || [],
   }
 }
 
@@ -456,175 +1197,442 @@ export async function getTransactionById(
 export async function createTransaction(
   input: CreateTransactionInput
 ): Promise<PosTransaction> {
-  // Get current user
+  // Totals from the shared pricing core: PPN from company settings, product
+  // tax categories and customer status
+  const [taxSettings, taxCategories, customerTaxExempt] = await Promise.all([
+    getTaxSettings(),
+    getProductTaxCategories(input.items.map(item => item.product_id)),
+    isCustomerTaxExempt(input.customer_id),
+  ])
+  const pricing = calculatePricing(
+    input.items.map(item => ({
+      product_id: item.product_id,
+      quantity: item.quantity,
+      unit_price: item.unit_price,
+      tax_category: taxCategories[item.product_id],
+      discount_amount: item.discount_amount,
+      discounted_units: item.discounted_units,
+    })),
+    { tax_settings: taxSettings, customer_tax_exempt: customerTaxExempt }
+  )
+
+  // Every sale carries payment lines; without them the total is paid
+  // exactly by the header method
+  const settlement = settlePayments(
+    pricing.grand_total,
+    input.payments && input.payments.length > 0
+      ? input.payments
+      : [{ payment_method: input.payment_method, amount: pricing.grand_total }]
+  )
+  if (settlement.error) {
+    throw new Error(`Failed to create transaction: ${settlement.error}`)
+  }
+
+  // Create transaction, items, payments and stock movements in one RPC so a
+  // failure anywhere leaves no half-written sale behind. Discounts and price
+  // overrides the policy covers need their approvals among approval_ids. The transaction
+  // number is assigned from the company's document sequence on insert. The
+  // RPC recomputes these totals and checks the promotions the lines claim.
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data: transaction, error: transError } = await (supabase as any).rpc(
+    'create_pos_transaction',
+    {
+      p_transaction: {
+        shift_id: input.shift_id || null,
+        customer_id: input.customer_id || null,
+        subtotal: pricing.gross_amount,
+        discount_amount: pricing.line_discount_amount,
+        tax_amount: pricing.tax_amount,
+        tax_rate: pricing.tax_rate,
+        prices_include_tax: pricing.prices_include_tax,
+        dpp_amount: pricing.dpp_amount,
+        total: pricing.grand_total,
+        payment_method: settlement.payment_method,
+        notes: input.notes || null,
+        client_id: input.client_id || null,
+        offline_number: input.offline_number || null,
+        transaction_date: input.transaction_date || null,
+        promotion_limit_approval_id: input.promotion_limit_approval_id || null,
+        stock_override_approval_id: input.stock_override_approval_id || null,
+        approval_ids: input.approval_ids || [],
+      },
+      p_items: input.items.map((item, index) => ({
+        product_id: item.product_id,
+        quantity: item.quantity,
+        unit_price: item.unit_price,
+        discount_amount: pricing.lines[index].discount_amount,
+        promotions: item.redemptions || [],
+        discounted_units: pricing.lines[index].discounted_units,
+        subtotal: pricing.lines[index].subtotal,
+      })),
+      p_payments: settlement.lines.map(payment => ({
+        payment_method: payment.payment_method,
+        amount: payment.amount,
+        reference_number: payment.reference_number || null,
+        notes: payment.notes || null,
+        status: payment.status || 'paid',
+      })),
+      p_override_stock: input.override_stock || false,
+    }
+  )
+
+  if (transError) {
+    console.error('Error creating transaction:', transError)
+    throw new Error(`Failed to create transaction: ${transError.message}`)
+  }
+
+  return transaction
+}
+
+/**
+ * Void a paid or pending transaction and restock its items. When the
+ * approval policy covers voids, a supervisor must have approved voiding a
+ * paid one (see approveAction). Open QRIS charges are called off with the
+ * gateway first, so the voided sale can no longer be paid.
+ */
+export async function cancelTransaction(id: string): Promise<PosTransaction> {
+  const { data: charges, error: chargesError } = await supabase
+    .from('pos_qris_charges')
+    .select('id')
+    .eq('transaction_id', id)
+    .eq('status', 'pending')
+
+  if (chargesError) {
+    console.error('Error fetching QRIS charges:', chargesError)
+    throw new Error(`Failed to fetch QRIS charges: ${chargesError.message}`)
+  }
+
+  for (const charge of (charges || []) as Pick<PosQrisCharge, 'id'>[]) {
+    await cancelQrisCharge(charge.id)
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data, error } = await (supabase as any).rpc('void_pos_transaction', {
+    p_transaction_id: id,
+  })
+
+  if (error) {
+    console.error('Error cancelling transaction:', error)
+    throw new Error(`Failed to cancel transaction: ${error.message}`)
+  }
+
+  return data
+}
+
+/**
+ * Refund a transaction in full (returns every unit not yet returned)
+ */
+export async function refundTransaction(
+  id: string,
+  refund_method?: RefundMethod
+): Promise<PosReturn> {
+  const transaction = await getTransactionById(id)
+  if (!transaction) {
+    throw new Error('Transaction not found')
+  }
+
+  const returns = await getTransactionReturns(id)
+  const items = transaction.items
+    .map(item => ({
+      transaction_item_id: item.id,
+      quantity: Number(item.quantity) - getReturnedQuantity(returns, item.id),
+    }))
+    .filter(item => item.quantity > 0)
+
+  return createReturn({
+    transaction_id: id,
+    refund_method:
+      refund_method ||
+      (transaction.payment_method === 'split'
+        ? 'cash'
+        : transaction.payment_method),
+    items,
+  })
+}
+
+// ============================================================================
+// QRIS PAYMENTS
+// ============================================================================
+
+/**
+ * Call a QRIS route; gateway charges are handled on the server
+ */
+async function callQrisRoute(
+  url: string,
+  method: 'GET' | 'POST' | 'DELETE',
+  input?: object
+): Promise<PosQrisCharge> {
   const {
-    data: { user },
-  } = await supabase.auth.getUser()
+    data: { session },
+  } = await supabase.auth.getSession()
+  if (!session) throw new Error('Not authenticated')
+
+  const response = await fetch(url, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${session.access_token}`,
+    },
+    body: input ? JSON.stringify(input) : undefined,
+  })
+  const body = await response.json()
+
+  if (!response.ok) {
+    throw new Error(body.error || 'QRIS request failed')
+  }
 
-  if (!user) {
-    throw new Error('Not authenticated')
+  return body.charge
+}
+
+/**
+ * Open a dynamic QRIS charge for a pending payment line
+ */
+export async function createQrisCharge(
+  payment_id: string
+): Promise<PosQrisCharge> {
+  return callQrisRoute('/api/pos/qris', 'POST', { payment_id })
+}
+
+/**
+ * Latest status of a charge, checked with the gateway
+ */
+export async function getQrisCharge(id: string): Promise<PosQrisCharge> {
+  return callQrisRoute(`/api/pos/qris/${id}`, 'GET')
+}
+
+/**
+ * Call off a charge; its payment and the sale stay pending
+ */
+export async function cancelQrisCharge(id: string): Promise<PosQrisCharge> {
+  return callQrisRoute(`/api/pos/qris/${id}`, 'DELETE')
+}
+
+/**
+ * Pay a mock gateway charge, as a customer scanning it would
+ */
+export async function simulateQrisPayment(
+  charge: PosQrisCharge
+): Promise<void> {
+  const response = await fetch(`/api/pos/qris/webhook/${charge.gateway}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ external_id: charge.external_id, status: 'paid' }),
+  })
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}))
+    throw new Error(body.error || 'Failed to simulate payment')
   }
+}
 
-  // Get user's company_id
-   
-  const { data: userData, error: userError } = (await supabase
-    .from('users')
-    .select('company_id')
-    .eq('id', user.id)
-    .single()) as any
+// ============================================================================
+// RETURNS
+// ============================================================================
 
-  if (userError || !userData?.company_id) {
-    throw new Error('Failed to get company information')
+/**
+ * Get all returns recorded against a transaction
+ */
+export async function getTransactionReturns(
+  transaction_id: string
+): Promise<PosReturnWithItems[]> {
+  const query = supabase
+    .from('pos_returns')
+    .select(
+      `
+      *,
+      cashier:users!pos_returns_cashier_id_fkey(id, name),
+      items:pos_return_items(
+        *,
+        product:products(id, name, sku)
+      )
+    `
+    )
+    .eq('transaction_id', transaction_id)
+    .order('created_at', { ascending: true })
+    .overrideTypes<PosReturnWithItems[], { merge: false }>()
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error('Error fetching returns:', error)
+    throw new Error(`Failed to fetch returns: ${error.message}`)
   }
 
-  // Calculate totals
-  const subtotal = input.items.reduce(
-    (sum, item) => sum + item.unit_price * item.quantity,
-    0
-  )
-  const discount_amount = input.items.reduce(
-    (sum, item) => sum + (item.discount_amount || 0),
+  return data || []
+}
+
+/**
+ * Total quantity already returned for a transaction item
+ */
+export function getReturnedQuantity(
+  returns: PosReturnWithItems[],
+  transaction_item_id: string
+): number {
+  return returns.reduce(
+    (sum, ret) =>
+      sum +
+      ret.items
+        .filter(item => item.transaction_item_id === transaction_item_id)
+        .reduce((itemSum, item) => itemSum + Number(item.quantity), 0),
     0
   )
-  const tax_amount = (subtotal - discount_amount) * 0.1 // 10% tax
-  const total = subtotal - discount_amount + tax_amount
+}
 
-  // Generate transaction number
-  const transaction_number = await generateTransactionNumber(
-    userData.company_id
-  )
+/**
+ * Return some or all items of a paid transaction: records the return
+ * document, restocks the goods and refunds the customer in one RPC
+ */
+export async function createReturn(
+  input: CreateReturnInput
+): Promise<PosReturn> {
+  const items = input.items.filter(item => item.quantity > 0)
+  if (items.length === 0) {
+    throw new Error('Select at least one item to return')
+  }
 
-  // Create transaction
-   
-  const { data: transaction, error: transError } = await supabase
-    .from('pos_transactions')
-    .insert({
-      company_id: userData.company_id,
-      transaction_number,
-      shift_id: input.shift_id || null,
-      customer_id: input.customer_id || null,
-      cashier_id: user.id,
-      subtotal,
-      discount_amount,
-      tax_amount,
-      total,
-      payment_method: input.payment_method,
-      payment_status: 'paid',
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data, error } = await (supabase as any).rpc('create_pos_return', {
+    p_return: {
+      transaction_id: input.transaction_id,
+      refund_method: input.refund_method,
+      reason: input.reason || null,
       notes: input.notes || null,
-    } as any)
-    .select()
-    .single()
+    },
+    p_items: items,
+  })
 
-  if (transError) {
-    console.error('Error creating transaction:', transError)
-    throw new Error(`Failed to create transaction: ${transError.message}`)
+  if (error) {
+    console.error('Error creating return:', error)
+    throw new Error(`Failed to create return: ${error.message}`)
   }
 
-  // Create transaction items
-   
-  const itemsToInsert = input.items.map(item => ({
-    transaction_id: (transaction as any).id,
-    product_id: item.product_id,
-    quantity: item.quantity,
-    unit_price: item.unit_price,
-    discount_amount: item.discount_amount || 0,
-    promotion_id: item.promotion_id || null,
-    subtotal: item.unit_price * item.quantity - (item.discount_amount || 0),
-  }))
-
-   
-  const { error: itemsError } = await supabase
-    .from('pos_transaction_items')
-    .insert(itemsToInsert as any)
+  return data
+}
 
-  if (itemsError) {
-    console.error('Error creating transaction items:', itemsError)
-    throw new Error(`Failed to create transaction items: ${itemsError.message}`)
-  }
-
-  // Create payments if split payment
-  if (input.payment_method === 'split' && input.payments) {
-     
-    const paymentsToInsert = input.payments.map(payment => ({
-      transaction_id: (transaction as any).id,
-      payment_method: payment.payment_method,
-      amount: payment.amount,
-      reference_number: payment.reference_number || null,
-      notes: payment.notes || null,
-    }))
+// ============================================================================
+// PARKED CARTS
+// ============================================================================
 
-     
-    const { error: paymentsError } = await supabase
-      .from('pos_payments')
-      .insert(paymentsToInsert as any)
+const PARKED_CART_SELECT = `
+  *,
+  customer:customers(*),
+  cashier:users!pos_parked_carts_cashier_id_fkey(id, name)
+`
 
-    if (paymentsError) {
-      console.error('Error creating payments:', paymentsError)
-      throw new Error(`Failed to create payments: ${paymentsError.message}`)
-    }
+/**
+ * Get open parked carts across the company's registers, oldest first
+ */
+export async function getParkedCarts(
+  shift_id?: string
+): Promise<PosParkedCartWithRelations[]> {
+  let query = supabase
+    .from('pos_parked_carts')
+    .select(PARKED_CART_SELECT)
+    .eq('status', 'parked')
+    .order('created_at', { ascending: true })
+
+  if (shift_id) {
+    query = query.eq('shift_id', shift_id)
   }
 
-  return transaction
+  const { data, error } = await query.overrideTypes<
+    PosParkedCartWithRelations[],
+    { merge: false }
+  >()
+
+  if (error) {
+    console.error('Error fetching parked carts:', error)
+    throw new Error(`Failed to fetch parked carts: ${error.message}`)
+  }
+
+  return data || []
 }
 
 /**
- * Generate unique transaction number
+ * Park the current cart so the next customer can be served
  */
-async function generateTransactionNumber(company_id: string): Promise<string> {
-  const today = new Date()
-  const year = today.getFullYear()
-  const month = String(today.getMonth() + 1).padStart(2, '0')
-  const day = String(today.getDate()).padStart(2, '0')
+export async function parkCart(input: ParkCartInput): Promise<PosParkedCart> {
+  if (input.items.length === 0) {
+    throw new Error('Cannot park an empty cart')
+  }
 
-  // Get count of today's transactions
-  const { count, error } = await supabase
-    .from('pos_transactions')
-    .select('*', { count: 'exact', head: true })
-    .eq('company_id', company_id)
-    .gte('transaction_date', `${year}-${month}-${day}T00:00:00`)
-    .lte('transaction_date', `${year}-${month}-${day}T23:59:59`)
+  const company_id = await getCurrentCompanyId()
+  const { data: userData } = await supabase.auth.getUser()
+  if (!userData.user) throw new Error('Not authenticated')
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const query = supabase.from('pos_parked_carts') as any
+  const { data, error } = await query
+    .insert({
+      company_id,
+      shift_id: input.shift_id,
+      cashier_id: userData.user.id,
+      customer_id: input.customer_id || null,
+      items: input.items,
+      total: input.total,
+      notes: input.notes || null,
+    })
+    .select()
+    .single()
 
   if (error) {
-    console.error('Error counting transactions:', error)
-    throw new Error('Failed to generate transaction number')
+    console.error('Error parking cart:', error)
+    throw new Error(`Failed to park cart: ${error.message}`)
   }
 
-  const nextNumber = (count || 0) + 1
-  return `POS-${year}${month}${day}-${String(nextNumber).padStart(4, '0')}`
+  return data
 }
 
 /**
- * Cancel a transaction (soft delete by changing status)
+ * Recall a parked cart into the given shift. Only succeeds while the cart is
+ * still parked, so two registers cannot recall the same cart.
  */
-export async function cancelTransaction(id: string): Promise<void> {
+export async function recallParkedCart(
+  id: string,
+  shift_id: string
+): Promise<PosParkedCartWithRelations> {
+  const { data: userData } = await supabase.auth.getUser()
+  if (!userData.user) throw new Error('Not authenticated')
+
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const query = supabase.from('pos_transactions') as any
-  const { error } = await query
+  const query = supabase.from('pos_parked_carts') as any
+  const { data, error } = await query
     .update({
-      payment_status: 'cancelled',
+      status: 'recalled',
+      recalled_by: userData.user.id,
+      recalled_shift_id: shift_id,
+      recalled_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
     })
     .eq('id', id)
+    .eq('status', 'parked')
+    .select(PARKED_CART_SELECT)
+    .maybeSingle()
 
   if (error) {
-    console.error('Error cancelling transaction:', error)
-    throw new Error(`Failed to cancel transaction: ${error.message}`)
+    console.error('Error recalling parked cart:', error)
+    throw new Error(`Failed to recall parked cart: ${error.message}`)
   }
+  if (!data) {
+    throw new Error('This cart has already been recalled or cancelled')
+  }
+
+  return data
 }
 
 /**
- * Refund a transaction
+ * Cancel a parked cart the customer walked away from
  */
-export async function refundTransaction(id: string): Promise<void> {
+export async function cancelParkedCart(id: string): Promise<void> {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const query = supabase.from('pos_transactions') as any
+  const query = supabase.from('pos_parked_carts') as any
   const { error } = await query
-    .update({
-      payment_status: 'refunded',
-    })
+    .update({ status: 'cancelled', updated_at: new Date().toISOString() })
     .eq('id', id)
+    .eq('status', 'parked')
 
   if (error) {
-    console.error('Error refunding transaction:', error)
-    throw new Error(`Failed to refund transaction: ${error.message}`)
+    console.error('Error cancelling parked cart:', error)
+    throw new Error(`Failed to cancel parked cart: ${error.message}`)
   }
 }
@@ -0,0 +1,84 @@
+/**
+ * POS Barcode Utilities
+ * Resolves scanned codes to products, including quantity prefixes (3*) and
+ * in-store EAN-13 barcodes that embed a weight or a price.
+ *
+ * Weighted EAN-13 layout: 2F IIIII VVVVV C
+ * - F 0-4: VVVVV is the weight in grams
+ * - F 5-9: VVVVV is the price in Rupiah
+ * - IIIII is the item code stored as the product's barcode
+ */
+
+import type { BarcodeMatch, WeightedBarcode } from '@/types/pos'
+
+/**
+ * Quantity typed before a scan, e.g. "3*" or "1.5*"
+ */
+export function parseQuantityPrefix(prefix: string): number | null {
+  const match = prefix.match(/(\d+(?:[.,]\d+)?)\*$/)
+  if (!match) return null
+
+  const quantity = parseFloat(match[1].replace(',', '.'))
+  return quantity > 0 ? quantity : null
+}
+
+/**
+ * Validate the EAN-13 check digit
+ */
+export function isValidEan13(code: string): boolean {
+  if (!/^\d{13}$/.test(code)) return false
+
+  const digits = code.split('').map(Number)
+  const sum = digits
+    .slice(0, 12)
+    .reduce((total, digit, index) => total + digit * (index % 2 ? 3 : 1), 0)
+  return (10 - (sum % 10)) % 10 === digits[12]
+}
+
+/**
+ * Decode an in-store weighted EAN-13 (prefix 2); null for regular barcodes
+ */
+export function parseWeightedBarcode(code: string): WeightedBarcode | null {
+  if (!code.startsWith('2') || !isValidEan13(code)) return null
+
+  const flag = Number(code[1])
+  const value = Number(code.slice(7, 12))
+
+  return flag < 5
+    ? { item_code: code.slice(2, 7), kind: 'weight', value: value / 1000 }
+    : { item_code: code.slice(2, 7), kind: 'price', value }
+}
+
+/**
+ * Find the product for a scanned code by exact barcode. Weighted barcodes
+ * resolve by their item code and carry the quantity they encode.
+ */
+export function resolveBarcode<
+  TProduct extends { barcode: string | null; selling_price: number | null },
+>(
+  code: string,
+  products: TProduct[],
+  quantity: number = 1
+): BarcodeMatch<TProduct> | null {
+  const exact = products.find(product => product.barcode === code)
+  if (exact) return { product: exact, quantity, weighted: null }
+
+  const weighted = parseWeightedBarcode(code)
+  if (!weighted) return null
+
+  const product = products.find(p => p.barcode === weighted.item_code)
+  if (!product) return null
+
+  if (weighted.kind === 'weight') {
+    return { product, quantity: weighted.value, weighted }
+  }
+
+  // Price-embedded: quantity is the share of the unit price paid
+  const unitPrice = Number(product.selling_price) || 0
+  if (unitPrice <= 0) return null
+  return {
+    product,
+    quantity: Math.round((weighted.value / unitPrice) * 1000) / 1000,
+    weighted,
+  }
+}
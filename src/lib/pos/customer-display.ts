@@ -0,0 +1,79 @@
+/**
+ * Customer Display
+ * Mirrors the cashier's cart to the customer-facing screen over a
+ * BroadcastChannel. The display is a second window of the same browser on
+ * the customer-facing monitor, so no server round trip is needed.
+ */
+
+import type {
+  CartItem,
+  CustomerDisplayLine,
+  CustomerDisplayMessage,
+  CustomerDisplayState,
+} from '@/types/pos'
+
+const CHANNEL_NAME = 'erpindo-pos-customer-display'
+const WINDOW_NAME = 'erpindo-pos-customer-display'
+
+export const CUSTOMER_DISPLAY_PATH = '/erp/pos/display'
+
+// Shown until the cashier's tab says otherwise
+export const IDLE_CUSTOMER_DISPLAY: CustomerDisplayState = {
+  status: 'idle',
+  customer_name: null,
+  lines: [],
+  subtotal: 0,
+  discount_amount: 0,
+  tax_label: '',
+  tax_amount: 0,
+  total: 0,
+  qris_payload: null,
+  qris_amount: null,
+  change_amount: null,
+}
+
+export interface CustomerDisplayChannel {
+  post: (message: CustomerDisplayMessage) => void
+  close: () => void
+}
+
+/**
+ * Join the channel shared by the cashier's tab and the display; null when
+ * the browser has no BroadcastChannel
+ */
+export function openCustomerDisplayChannel(
+  onMessage: (message: CustomerDisplayMessage) => void
+): CustomerDisplayChannel | null {
+  if (typeof BroadcastChannel === 'undefined') return null
+
+  const channel = new BroadcastChannel(CHANNEL_NAME)
+  channel.onmessage = event => onMessage(event.data as CustomerDisplayMessage)
+
+  return {
+    post: message => channel.postMessage(message),
+    close: () => channel.close(),
+  }
+}
+
+/**
+ * Open the display in its own window, or bring it to the front
+ */
+export function openCustomerDisplayWindow(): void {
+  window.open(CUSTOMER_DISPLAY_PATH, WINDOW_NAME, 'popup')?.focus()
+}
+
+/**
+ * Cart lines as the customer sees them
+ */
+export function toCustomerDisplayLines(
+  cart: CartItem[]
+): CustomerDisplayLine[] {
+  return cart.map(item => ({
+    name: item.product_name,
+    quantity: item.quantity,
+    unit_price: item.unit_price,
+    discount_amount: item.discount_amount,
+    promotion_name: item.promotion_name || null,
+    subtotal: item.subtotal,
+  }))
+}
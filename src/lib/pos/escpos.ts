@@ -0,0 +1,404 @@
+/**
+ * ESC/POS Receipt Renderer
+ * Renders the shared receipt model as an ESC/POS byte stream for 58mm and
+ * 80mm thermal printers: logo, text in the chosen code page, a Code 128 or
+ * QR code of the transaction number, paper cut and cash drawer kick.
+ * Shift reports are printed the same way.
+ */
+
+import {
+  formatReceiptCurrency as formatCurrency,
+  formatReceiptDate as formatDate,
+} from '@/lib/pos/receipt'
+import { shiftReportSections, shiftReportTitle } from '@/lib/pos/shift-report'
+import type { DocumentCompany } from '@/types/company'
+import type {
+  PrinterSettings,
+  ReceiptBitmap,
+  ReceiptCodePage,
+  ReceiptModel,
+  ReceiptPaperWidth,
+  ShiftReport,
+} from '@/types/pos'
+
+const ESC = 0x1b
+const GS = 0x1d
+const LF = 0x0a
+
+// Characters per line in font A, and printable dots per line
+export const PAPER_COLUMNS: Record<ReceiptPaperWidth, number> = {
+  58: 32,
+  80: 48,
+}
+
+export const PAPER_DOTS: Record<ReceiptPaperWidth, number> = {
+  58: 384,
+  80: 576,
+}
+
+// ESC t table number and the characters at bytes 0x80-0xFF (cp1252 is
+// mapped through Latin-1 instead)
+const CODE_PAGES: Record<ReceiptCodePage, { table: number; upper?: string }> = {
+  cp437: {
+    table: 0,
+    upper:
+      '\u00c7\u00fc\u00e9\u00e2\u00e4\u00e0\u00e5\u00e7\u00ea\u00eb\u00e8\u00ef\u00ee\u00ec\u00c4\u00c5\u00c9\u00e6\u00c6\u00f4\u00f6\u00f2\u00fb\u00f9\u00ff\u00d6\u00dc\u00a2\u00a3\u00a5\u20a7\u0192\u00e1\u00ed\u00f3\u00fa\u00f1\u00d1\u00aa\u00ba\u00bf\u2310\u00ac\u00bd\u00bc\u00a1\u00ab\u00bb\u2591\u2592\u2593\u2502\u2524\u2561\u2562\u2556\u2555\u2563\u2551\u2557\u255d\u255c\u255b\u2510\u2514\u2534\u252c\u251c\u2500\u253c\u255e\u255f\u255a\u2554\u2569\u2566\u2560\u2550\u256c\u2567\u2568\u2564\u2565\u2559\u2558\u2552\u2553\u256b\u256a\u2518\u250c\u2588\u2584\u258c\u2590\u2580\u03b1\u00df\u0393\u03c0\u03a3\u03c3\u00b5\u03c4\u03a6\u0398\u03a9\u03b4\u221e\u03c6\u03b5\u2229\u2261\u00b1\u2265\u2264\u2320\u2321\u00f7\u2248\u00b0\u2219\u00b7\u221a\u207f\u00b2\u25a0\u00a0',
+  },
+  cp858: {
+    table: 19,
+    upper:
+      '\u00c7\u00fc\u00e9\u00e2\u00e4\u00e0\u00e5\u00e7\u00ea\u00eb\u00e8\u00ef\u00ee\u00ec\u00c4\u00c5\u00c9\u00e6\u00c6\u00f4\u00f6\u00f2\u00fb\u00f9\u00ff\u00d6\u00dc\u00f8\u00a3\u00d8\u00d7\u0192\u00e1\u00ed\u00f3\u00fa\u00f1\u00d1\u00aa\u00ba\u00bf\u00ae\u00ac\u00bd\u00bc\u00a1\u00ab\u00bb\u2591\u2592\u2593\u2502\u2524\u00c1\u00c2\u00c0\u00a9\u2563\u2551\u2557\u255d\u00a2\u00a5\u2510\u2514\u2534\u252c\u251c\u2500\u253c\u00e3\u00c3\u255a\u2554\u2569\u2566\u2560\u2550\u256c\u00a4\u00f0\u00d0\u00ca\u00cb\u00c8\u20ac\u00cd\u00ce\u00cf\u2518\u250c\u2588\u2584\u00a6\u00cc\u2580\u00d3\u00df\u00d4\u00d2\u00f5\u00d5\u00b5\u00fe\u00de\u00da\u00db\u00d9\u00fd\u00dd\u00af\u00b4\u00ad\u00b1\u2017\u00be\u00b6\u00a7\u00f7\u00b8\u00b0\u00a8\u00b7\u00b9\u00b3\u00b2\u25a0\u00a0',
+  },
+  cp1252: { table: 16 },
+}
+
+// ============================================================================
+// ENCODING
+// ============================================================================
+
+/**
+ * Encode text in the printer's code page; characters it lacks are printed
+ * without their accents, or as '?'
+ */
+export function encodeText(text: string, codePage: ReceiptCodePage): number[] {
+  const upper = CODE_PAGES[codePage].upper
+  const bytes: number[] = []
+
+  for (const char of text) {
+    const code = char.charCodeAt(0)
+    if (code < 0x80) {
+      bytes.push(code)
+      continue
+    }
+
+    const index = upper ? upper.indexOf(char) : -1
+    if (index >= 0) {
+      bytes.push(0x80 + index)
+    } else if (!upper && char === '€') {
+      bytes.push(0x80)
+    } else if (!upper && code >= 0xa0 && code <= 0xff) {
+      bytes.push(code)
+    } else {
+      const plain = char.normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+      bytes.push(
+        plain.length === 1 && plain.charCodeAt(0) < 0x80
+          ? plain.charCodeAt(0)
+          : 0x3f
+      )
+    }
+  }
+
+  return bytes
+}
+
+// ============================================================================
+// LAYOUT
+// ============================================================================
+
+/**
+ * Left and right text on one line, wrapping the left side when both do not fit
+ */
+export function formatColumns(
+  left: string,
+  right: string,
+  width: number
+): string[] {
+  const space = width - right.length - 1
+  if (left.length <= space) {
+    return [left + ' '.repeat(width - left.length - right.length) + right]
+  }
+
+  const lines = wrapText(left, width)
+  const last = lines[lines.length - 1]
+  if (last.length <= space) {
+    lines[lines.length - 1] =
+      last + ' '.repeat(width - last.length - right.length) + right
+  } else {
+    lines.push(right.padStart(width))
+  }
+  return lines
+}
+
+/**
+ * Wrap text on word boundaries to the line width
+ */
+export function wrapText(text: string, width: number): string[] {
+  const lines: string[] = []
+  let line = ''
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (!line) {
+      line = word
+    } else if (line.length + 1 + word.length <= width) {
+      line += ` ${word}`
+    } else {
+      lines.push(line)
+      line = word
+    }
+    while (line.length > width) {
+      lines.push(line.slice(0, width))
+      line = line.slice(width)
+    }
+  }
+
+  if (line || lines.length === 0) lines.push(line)
+  return lines
+}
+
+// ============================================================================
+// COMMANDS
+// ============================================================================
+
+const align = (position: 'left' | 'center' | 'right') => [
+  ESC,
+  0x61,
+  position === 'left' ? 0 : position === 'center' ? 1 : 2,
+]
+
+const bold = (on: boolean) => [ESC, 0x45, on ? 1 : 0]
+
+const textSize = (doubled: boolean) => [GS, 0x21, doubled ? 0x11 : 0x00]
+
+/**
+ * Print a 1-bit image with GS v 0
+ */
+function rasterImage(bitmap: ReceiptBitmap): number[] {
+  const widthBytes = bitmap.width / 8
+  const size = [
+    widthBytes & 0xff,
+    (widthBytes >> 8) & 0xff,
+    bitmap.height & 0xff,
+    (bitmap.height >> 8) & 0xff,
+  ]
+  return [GS, 0x76, 0x30, 0x00, ...size, ...bitmap.data]
+}
+
+/**
+ * Code 128 (code set B) with the human-readable number below it
+ */
+function code128(value: string): number[] {
+  const data = [0x7b, 0x42, ...encodeText(value, 'cp437')] // {B prefix
+  const height = [GS, 0x68, 80]
+  const moduleWidth = [GS, 0x77, 2]
+  const numberBelow = [GS, 0x48, 2]
+  const symbol = [GS, 0x6b, 73, data.length]
+  return [...height, ...moduleWidth, ...numberBelow, ...symbol, ...data]
+}
+
+// GS ( k function of the QR code symbol
+const qrFunction = (fn: number, params: number[]) => {
+  const length = params.length + 2
+  return [
+    GS,
+    0x28,
+    0x6b,
+    length & 0xff,
+    (length >> 8) & 0xff,
+    0x31,
+    fn,
+    ...params,
+  ]
+}
+
+/**
+ * QR code (model 2, error correction M)
+ */
+function qrCode(value: string, moduleSize: number): number[] {
+  return [
+    ...qrFunction(0x41, [0x32, 0x00]), // Model 2
+    ...qrFunction(0x43, [moduleSize]),
+    ...qrFunction(0x45, [0x31]), // Error correction M
+    ...qrFunction(0x50, [0x30, ...encodeText(value, 'cp437')]), // Store
+    ...qrFunction(0x51, [0x30]), // Print
+  ]
+}
+
+/**
+ * Pulse the cash drawer connected to the printer (pin 2)
+ */
+export function drawerKickCommand(): Uint8Array {
+  return new Uint8Array([ESC, 0x70, 0x00, 25, 250])
+}
+
+// ============================================================================
+// RENDERER
+// ============================================================================
+
+/**
+ * Render a receipt as ESC/POS bytes
+ *
+ * @param logo - Bitmap already scaled to the paper width, if the logo is printed
+ * @param openDrawer - Kick the cash drawer after the cut
+ */
+export function renderEscPos(
+  receipt: ReceiptModel,
+  settings: Pick<PrinterSettings, 'paper_width' | 'code_page' | 'barcode'>,
+  {
+    logo = null,
+    openDrawer = false,
+  }: { logo?: ReceiptBitmap | null; openDrawer?: boolean } = {}
+): Uint8Array {
+  const width = PAPER_COLUMNS[settings.paper_width]
+  const initialize = [ESC, 0x40]
+  const codePage = [ESC, 0x74, CODE_PAGES[settings.code_page].table]
+  const out: number[] = [...initialize, ...codePage]
+
+  const text = (value: string) =>
+    out.push(...encodeText(value, settings.code_page), LF)
+  const row = (left: string, right: string) =>
+    formatColumns(left, right, width).forEach(text)
+  const divider = () => text('-'.repeat(width))
+
+  // Header
+  out.push(...align('center'))
+  if (logo) out.push(...rasterImage(logo), LF)
+  // Double-size name when it fits on one line
+  const doubled = receipt.company.name.length * 2 <= width
+  out.push(...bold(true), ...textSize(doubled))
+  wrapText(receipt.company.name, width).forEach(text)
+  out.push(...textSize(false), ...bold(false))
+  if (receipt.company.address) {
+    wrapText(receipt.company.address, width).forEach(text)
+  }
+  if (receipt.company.phone) text(`Tel: ${receipt.company.phone}`)
+  if (receipt.company.npwp) text(`NPWP: ${receipt.company.npwp}`)
+  if (receipt.header) wrapText(receipt.header, width).forEach(text)
+
+  // Transaction info
+  out.push(...align('left'))
+  divider()
+  row('No. Transaksi:', receipt.transaction_number)
+  if (receipt.offline_number) row('No. Offline:', receipt.offline_number)
+  row('Tanggal:', formatDate(receipt.date))
+  row('Kasir:', receipt.cashier)
+  if (receipt.customer) row('Customer:', receipt.customer)
+  divider()
+
+  // Items
+  for (const line of receipt.lines) {
+    wrapText(line.name, width).forEach(text)
+    row(
+      `  ${line.quantity} x ${formatCurrency(line.unit_price)}`,
+      formatCurrency(line.subtotal)
+    )
+    if (line.discount_amount > 0) {
+      row(
+        line.discount_note ? `  Diskon (${line.discount_note})` : '  Diskon',
+        `-${formatCurrency(line.discount_amount)}`
+      )
+    }
+  }
+  divider()
+
+  // Promotions, as the register explained them
+  if (receipt.promotions.length > 0) {
+    text('Promo:')
+    for (const promotion of receipt.promotions) {
+      row(
+        `  ${promotion.description}`,
+        `-${formatCurrency(promotion.discount_amount)}`
+      )
+    }
+    divider()
+  }
+
+  // Totals
+  row('Subtotal:', formatCurrency(receipt.subtotal))
+  if (receipt.discount_amount > 0) {
+    row('Diskon:', `-${formatCurrency(receipt.discount_amount)}`)
+  }
+  row('DPP:', formatCurrency(receipt.dpp_amount))
+  row(`${receipt.tax_label}:`, formatCurrency(receipt.tax_amount))
+  out.push(...bold(true))
+  row('TOTAL:', formatCurrency(receipt.total))
+  out.push(...bold(false))
+  divider()
+
+  // Payment
+  row('Pembayaran:', receipt.payment_method)
+  for (const payment of receipt.payments) {
+    row(`${payment.method}:`, formatCurrency(payment.amount))
+  }
+  if (receipt.change_amount > 0) {
+    row('Kembalian:', formatCurrency(receipt.change_amount))
+  }
+  divider()
+
+  // Barcode of the transaction number, for returns and reprints
+  out.push(...align('center'))
+  if (settings.barcode === 'code128') {
+    out.push(...code128(receipt.transaction_number), LF)
+  } else if (settings.barcode === 'qr') {
+    const moduleSize = settings.paper_width === 58 ? 5 : 6
+    out.push(...qrCode(receipt.transaction_number, moduleSize), LF)
+  }
+
+  // Footer
+  receipt.footer.forEach((line, index) => {
+    if (index === 0) out.push(...bold(true))
+    wrapText(line, width).forEach(text)
+    if (index === 0) out.push(...bold(false))
+  })
+  text(formatDate(new Date().toISOString()))
+
+  // Feed past the cutter and cut
+  const cut = [GS, 0x56, 0x42, 0x00]
+  out.push(LF, LF, LF, ...cut)
+  if (openDrawer) out.push(...drawerKickCommand())
+
+  return new Uint8Array(out)
+}
+
+/**
+ * Render an X- or Z-report as ESC/POS bytes
+ */
+export function renderShiftReportEscPos(
+  report: ShiftReport,
+  company: DocumentCompany,
+  settings: Pick<PrinterSettings, 'paper_width' | 'code_page'>
+): Uint8Array {
+  const width = PAPER_COLUMNS[settings.paper_width]
+  const initialize = [ESC, 0x40]
+  const codePage = [ESC, 0x74, CODE_PAGES[settings.code_page].table]
+  const out: number[] = [...initialize, ...codePage]
+
+  const text = (value: string) =>
+    out.push(...encodeText(value, settings.code_page), LF)
+  const row = (left: string, right: string) =>
+    formatColumns(left, right, width).forEach(text)
+  const divider = () => text('-'.repeat(width))
+
+  // Header
+  out.push(...align('center'), ...bold(true))
+  wrapText(company.name, width).forEach(text)
+  out.push(...textSize(true))
+  wrapText(shiftReportTitle(report), width).forEach(text)
+  out.push(...textSize(false), ...bold(false), ...align('left'))
+  divider()
+  if (report.register) row('Kassa:', report.register)
+  row('Kasir:', report.cashier)
+  if (report.warehouse) row('Gudang:', report.warehouse)
+  row('Buka:', formatDate(report.opened_at))
+  if (report.closed_at) row('Tutup:', formatDate(report.closed_at))
+  row('Dicetak:', formatDate(report.generated_at))
+
+  // Sections
+  for (const section of shiftReportSections(report)) {
+    divider()
+    out.push(...bold(true))
+    text(section.title.toUpperCase())
+    out.push(...bold(false))
+    for (const line of section.rows) {
+      if (line.emphasis) out.push(...bold(true))
+      row(line.label, line.value)
+      if (line.emphasis) out.push(...bold(false))
+    }
+  }
+  divider()
+
+  // Feed past the cutter and cut
+  const cut = [GS, 0x56, 0x42, 0x00]
+  out.push(LF, LF, LF, ...cut)
+
+  return new Uint8Array(out)
+}
@@ -0,0 +1,76 @@
+/**
+ * Mock Payment Gateway
+ * Stands in for a QRIS gateway during local testing. Charges live in the
+ * server's memory and are paid by posting to the mock webhook, which the POS
+ * does from its "Simulate payment" button.
+ */
+
+import { qrisPayloadWithAmount } from '@/lib/pos/qris'
+import type { PaymentGatewayAdapter } from '@/lib/pos/payment-gateway'
+import type { QrisChargeStatus } from '@/types/pos'
+
+// Static QRIS of a made-up merchant, used when the company has none saved
+const MOCK_MERCHANT_QRIS =
+  '00020101021126630018ID.CO.ERPINDO.MOCK01189360000000000000010208MOCK00010303UMI5204541153033605802ID5921ERPINDO MOCK MERCHANT6007JAKARTA6105101106304D413'
+
+const NOTIFIED_STATUSES = ['paid', 'expired', 'cancelled'] as const
+
+interface MockCharge {
+  status: QrisChargeStatus
+  expires_at: string
+}
+
+const charges = new Map<string, MockCharge>()
+
+export const mockGateway: PaymentGatewayAdapter = {
+  id: 'mock',
+
+  async createQrisCharge(request) {
+    const external_id = `MOCK-${request.reference}`
+    charges.set(external_id, {
+      status: 'pending',
+      expires_at: request.expires_at,
+    })
+
+    return {
+      external_id,
+      qris_payload: qrisPayloadWithAmount(
+        request.merchant_qris || MOCK_MERCHANT_QRIS,
+        request.amount
+      ),
+    }
+  },
+
+  async getChargeStatus(external_id) {
+    // Charges are forgotten when the server restarts; those run out instead
+    const charge = charges.get(external_id)
+    if (!charge) return 'pending'
+
+    if (
+      charge.status === 'pending' &&
+      new Date(charge.expires_at).getTime() <= Date.now()
+    ) {
+      charge.status = 'expired'
+    }
+    return charge.status
+  },
+
+  async cancelCharge(external_id) {
+    const charge = charges.get(external_id)
+    if (charge?.status === 'pending') charge.status = 'cancelled'
+  },
+
+  async parseWebhook(request) {
+    // Unsigned, so anyone could settle a charge: never listen in production
+    if (process.env.NODE_ENV === 'production') return null
+
+    const body = await request.json().catch(() => null)
+    const status = NOTIFIED_STATUSES.find(value => value === body?.status)
+    if (typeof body?.external_id !== 'string' || !status) return null
+
+    const charge = charges.get(body.external_id)
+    if (charge) charge.status = status
+
+    return { external_id: body.external_id, status }
+  },
+}
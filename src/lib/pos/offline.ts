@@ -0,0 +1,424 @@
+/**
+ * POS Offline Mode
+ * Caches what the register needs in IndexedDB, queues sales made without a
+ * connection and replays them when it returns.
+ *
+ * Official transaction numbers are gapless and assigned by the database, so
+ * offline sales get a locally reserved number (OFF-<device>-<date>-0001)
+ * that is printed on the receipt and kept on the synced transaction.
+ */
+
+import { createClientSupabase } from '@/lib/supabase/client'
+import { createTransaction } from '@/lib/pos/api'
+import { getPromotionDate } from '@/lib/promotions/utils'
+import type {
+  CreateTransactionInput,
+  OfflineSyncResult,
+  OfflineTransaction,
+  PosOfflineCache,
+} from '@/types/pos'
+
+const DB_NAME = 'erpindo-pos'
+const DB_VERSION = 1
+const CACHE_STORE = 'cache'
+const QUEUE_STORE = 'queue'
+const DEVICE_ID_KEY = 'erpindo-pos-device-id'
+
+// ============================================================================
+// INDEXEDDB
+// ============================================================================
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(CACHE_STORE)) {
+        db.createObjectStore(CACHE_STORE)
+      }
+      if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+        db.createObjectStore(QUEUE_STORE, { keyPath: 'local_id' })
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode)
+    const request = run(transaction.objectStore(storeName))
+
+    transaction.oncomplete = () => {
+      db.close()
+      resolve(request.result as T)
+    }
+    transaction.onerror = () => {
+      db.close()
+      reject(transaction.error)
+    }
+  })
+}
+
+// ============================================================================
+// CATALOG CACHE
+// ============================================================================
+
+/**
+ * Save the shift, catalog, active promotions and settings for offline use
+ */
+export async function cachePosData(
+  data: Omit<PosOfflineCache, 'cached_at'>
+): Promise<void> {
+  await withStore(CACHE_STORE, 'readwrite', store =>
+    store.put({ ...data, cached_at: new Date().toISOString() }, 'pos')
+  )
+}
+
+/**
+ * Get the last cached POS data, if any
+ */
+export async function getCachedPosData(): Promise<PosOfflineCache | null> {
+  const data = await withStore<PosOfflineCache | undefined>(
+    CACHE_STORE,
+    'readonly',
+    store => store.get('pos')
+  )
+  return data || null
+}
+
+// ============================================================================
+// OFFLINE NUMBERS
+// ============================================================================
+
+function getDeviceId(): string {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY)
+  if (!deviceId) {
+    deviceId = crypto.randomUUID().slice(0, 4).toUpperCase()
+    localStorage.setItem(DEVICE_ID_KEY, deviceId)
+  }
+  return deviceId
+}
+
+/**
+ * Reserve the next local number for this device; the counter resets daily
+ */
+async function reserveOfflineNumber(): Promise<string> {
+  const now = new Date()
+  const period = [
+    now.getFullYear(),
+    String(now.getMonth() + 1).padStart(2, '0'),
+    String(now.getDate()).padStart(2, '0'),
+  ].join('')
+
+  const sequence = await withStore<
+    { period: string; last: number } | undefined
+  >(CACHE_STORE, 'readonly', store => store.get('offline_sequence'))
+  const next = sequence?.period === period ? sequence.last + 1 : 1
+
+  await withStore(CACHE_STORE, 'readwrite', store =>
+    store.put({ period, last: next }, 'offline_sequence')
+  )
+
+  return `OFF-${getDeviceId()}-${period}-${String(next).padStart(4, '0')}`
+}
+
+// ============================================================================
+// QUEUE
+// ============================================================================
+
+/**
+ * Queue a sale made without a connection
+ */
+export async function queueOfflineTransaction(
+  input: CreateTransactionInput & { shift_id: string },
+  total: number
+): Promise<OfflineTransaction> {
+  const offlineTransaction: OfflineTransaction = {
+    local_id: crypto.randomUUID(),
+    offline_number: await reserveOfflineNumber(),
+    sold_at: new Date().toISOString(),
+    shift_id: input.shift_id,
+    total,
+    input,
+    status: 'pending',
+    conflict_type: null,
+    error: null,
+    accept_conflict: false,
+    transaction_id: null,
+    transaction_number: null,
+  }
+
+  await saveOfflineTransaction(offlineTransaction)
+  return offlineTransaction
+}
+
+/**
+ * Get queued sales, oldest first
+ */
+export async function getOfflineTransactions(): Promise<OfflineTransaction[]> {
+  const transactions = await withStore<OfflineTransaction[]>(
+    QUEUE_STORE,
+    'readonly',
+    store => store.getAll()
+  )
+  return transactions.sort((a, b) => a.sold_at.localeCompare(b.sold_at))
+}
+
+async function saveOfflineTransaction(
+  transaction: OfflineTransaction
+): Promise<void> {
+  await withStore(QUEUE_STORE, 'readwrite', store => store.put(transaction))
+}
+
+/**
+ * Sync a conflicting sale anyway on the next run. A promotion conflict, and a
+ * stock conflict where cashiers may not override stock, needs the supervisor
+ * approval it was accepted with.
+ */
+export async function acceptOfflineConflict(
+  local_id: string,
+  approval_id?: string
+): Promise<void> {
+  const transactions = await getOfflineTransactions()
+  const transaction = transactions.find(t => t.local_id === local_id)
+  if (!transaction) return
+
+  await saveOfflineTransaction({
+    ...transaction,
+    status: 'pending',
+    accept_conflict: true,
+    approval_id: approval_id || null,
+    error: null,
+  })
+}
+
+/**
+ * Drop a queued sale (e.g. a rejected conflict) or a synced one from the list
+ */
+export async function removeOfflineTransaction(
+  local_id: string
+): Promise<void> {
+  await withStore(QUEUE_STORE, 'readwrite', store => store.delete(local_id))
+}
+
+// ============================================================================
+// SYNC
+// ============================================================================
+
+/**
+ * Whether an error means the server could not be reached
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true
+  return (
+    error instanceof TypeError ||
+    (error instanceof Error && /fetch|network/i.test(error.message))
+  )
+}
+
+/**
+ * Promotions used in the sale that had not started, had already ended or had
+ * been cancelled when it was made; the discount was given from a stale
+ * cache. Dates are calendar days in the company's time zone.
+ */
+async function findPromotionConflict(
+  transaction: OfflineTransaction,
+  time_zone: string | null
+): Promise<string | null> {
+  const promotionIds = [
+    ...new Set(
+      transaction.input.items
+        .map(item => item.promotion_id)
+        .filter((id): id is string => !!id)
+    ),
+  ]
+  if (promotionIds.length === 0) return null
+
+  const supabase = createClientSupabase()
+  const { data, error } = await supabase
+    .from('promotions')
+    .select('id, name, start_date, end_date, status, is_active')
+    .in('id', promotionIds)
+    .overrideTypes<
+      {
+        id: string
+        name: string
+        start_date: string
+        end_date: string
+        status: string
+        is_active: boolean
+      }[],
+      { merge: false }
+    >()
+
+  if (error) throw error
+
+  const promotions = data || []
+  const soldOn = getPromotionDate({
+    now: new Date(transaction.sold_at),
+    time_zone,
+  })
+  const stale = promotions.filter(
+    promotion =>
+      !promotion.is_active ||
+      promotion.status === 'cancelled' ||
+      soldOn < promotion.start_date.slice(0, 10) ||
+      soldOn > promotion.end_date.slice(0, 10)
+  )
+
+  return stale.length > 0
+    ? `Promotion no longer valid at time of sale: ${stale
+        .map(promotion => promotion.name)
+        .join(', ')}`
+    : null
+}
+
+async function syncOfflineTransaction(
+  transaction: OfflineTransaction,
+  time_zone: string | null
+): Promise<OfflineTransaction> {
+  try {
+    if (!transaction.accept_conflict) {
+      const promotionConflict = await findPromotionConflict(
+        transaction,
+        time_zone
+      )
+      if (promotionConflict) {
+        return {
+          ...transaction,
+          status: 'conflict',
+          conflict_type: 'promotion',
+          error: promotionConflict,
+        }
+      }
+    }
+
+    // The goods have already left the store, so an accepted stock conflict
+    // is synced as an override, approved by a supervisor where cashiers may
+    // not override stock
+    const acceptedConflict = transaction.accept_conflict
+      ? transaction.conflict_type
+      : null
+    const created = await createTransaction({
+      ...transaction.input,
+      client_id: transaction.local_id,
+      offline_number: transaction.offline_number,
+      transaction_date: transaction.sold_at,
+      override_stock:
+        transaction.input.override_stock || acceptedConflict === 'stock',
+      stock_override_approval_id:
+        acceptedConflict === 'stock'
+          ? transaction.approval_id || undefined
+          : undefined,
+      promotion_limit_approval_id:
+        acceptedConflict === 'promotion'
+          ? transaction.approval_id || undefined
+          : undefined,
+    })
+
+    return {
+      ...transaction,
+      status: 'synced',
+      error: null,
+      transaction_id: created.id,
+      transaction_number: created.transaction_number,
+    }
+  } catch (error) {
+    if (isNetworkError(error)) {
+      return { ...transaction, status: 'pending' }
+    }
+
+    const message = error instanceof Error ? error.message : String(error)
+    // Promotions or vouchers used up while the till was offline
+    if (
+      message.includes('usage limit') ||
+      message.includes('has already used promotion') ||
+      /Voucher \S+ has (already been used|expired)/.test(message)
+    ) {
+      return {
+        ...transaction,
+        status: 'conflict',
+        conflict_type: 'promotion',
+        accept_conflict: false,
+        error: message,
+      }
+    }
+
+    if (message.includes('Insufficient stock')) {
+      return {
+        ...transaction,
+        status: 'conflict',
+        conflict_type: 'stock',
+        accept_conflict: false,
+        error: message,
+      }
+    }
+
+    return { ...transaction, status: 'failed', error: message }
+  }
+}
+
+// The run in progress in this tab, so overlapping calls share it
+let activeSync: Promise<OfflineSyncResult> | null = null
+
+/**
+ * Replay every pending sale in the order it was made. A sale left 'syncing'
+ * by a reload or crash is retried; its client id keeps the replay from
+ * creating it twice.
+ */
+export function syncOfflineTransactions(): Promise<OfflineSyncResult> {
+  if (!activeSync) {
+    activeSync = runOfflineSync().finally(() => {
+      activeSync = null
+    })
+  }
+  return activeSync
+}
+
+async function runOfflineSync(): Promise<OfflineSyncResult> {
+  const [transactions, cache] = await Promise.all([
+    getOfflineTransactions(),
+    getCachedPosData(),
+  ])
+  const time_zone = cache?.time_zone || null
+  const result: OfflineSyncResult = {
+    synced: 0,
+    conflicts: 0,
+    failed: 0,
+    pending: 0,
+  }
+
+  for (const transaction of transactions) {
+    if (
+      transaction.status !== 'pending' &&
+      transaction.status !== 'syncing' &&
+      transaction.status !== 'failed'
+    ) {
+      if (transaction.status === 'conflict') result.conflicts++
+      continue
+    }
+
+    await saveOfflineTransaction({ ...transaction, status: 'syncing' })
+    const synced = await syncOfflineTransaction(transaction, time_zone)
+    await saveOfflineTransaction(synced)
+
+    if (synced.status === 'synced') result.synced++
+    else if (synced.status === 'conflict') result.conflicts++
+    else if (synced.status === 'failed') result.failed++
+    else break // Connection dropped again; keep the rest queued
+  }
+
+  result.pending = (await getOfflineTransactions()).filter(
+    t => t.status === 'pending'
+  ).length
+
+  return result
+}
@@ -0,0 +1,43 @@
+/**
+ * Payment Gateways
+ * Contract for the gateways that collect POS payments as dynamic QRIS
+ * charges. Adapters run on the server (see src/lib/pos/qris-charges.ts),
+ * where gateway credentials live; the POS only talks to the /api/pos/qris
+ * routes.
+ */
+
+import type { PaymentGatewayId, QrisChargeStatus } from '@/types/pos'
+
+export const PAYMENT_GATEWAYS: { value: PaymentGatewayId; label: string }[] = [
+  { value: 'mock', label: 'Mock gateway (testing only)' },
+]
+
+export interface GatewayChargeRequest {
+  reference: string // Our charge id, for the gateway's records
+  amount: number
+  expires_at: string
+  merchant_qris: string | null // The company's static QRIS, when saved
+}
+
+export interface GatewayCharge {
+  external_id: string
+  qris_payload: string // Dynamic QRIS carrying the amount
+}
+
+// A status change the gateway pushed to its webhook
+export interface GatewayNotification {
+  external_id: string
+  status: Exclude<QrisChargeStatus, 'pending'>
+}
+
+export interface PaymentGatewayAdapter {
+  id: PaymentGatewayId
+  /** Open a dynamic QRIS charge for the exact amount */
+  createQrisCharge(request: GatewayChargeRequest): Promise<GatewayCharge>
+  /** Current status of a charge, when polling */
+  getChargeStatus(external_id: string): Promise<QrisChargeStatus>
+  /** Call off a charge so it can no longer be paid */
+  cancelCharge(external_id: string): Promise<void>
+  /** Verify and read a webhook call; null when it is not authentic */
+  parseWebhook(request: Request): Promise<GatewayNotification | null>
+}
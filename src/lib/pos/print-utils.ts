@@ -1,55 +1,58 @@
 /**
  * Print receipt in new tab
- * Opens a new tab with only the receipt content and auto-triggers print
+ * HTML renderer of the shared receipt model: opens a new tab with only the
+ * receipt content and auto-triggers print. Used when no thermal printer is
+ * configured and as the fallback when one fails.
  */
 
-import type { PosTransactionWithRelations } from '@/types/pos'
+import {
+  buildReceipt,
+  formatReceiptCurrency as formatCurrency,
+  formatReceiptDate as formatDate,
+} from '@/lib/pos/receipt'
+import { shiftReportSections, shiftReportTitle } from '@/lib/pos/shift-report'
+import { escapeHtml } from '@/lib/utils'
+import type { DocumentBranding, DocumentCompany } from '@/types/company'
+import type {
+  PosTransactionWithRelations,
+  ReceiptModel,
+  ShiftReport,
+} from '@/types/pos'
 
 export function printReceiptInNewTab(
   transaction: PosTransactionWithRelations,
-  companyInfo?: {
-    name?: string
-    address?: string
-    phone?: string
-  }
+  branding?: DocumentBranding
 ) {
+  printReceiptHtml(buildReceipt(transaction, branding))
+}
+
+/**
+ * Print a receipt model as HTML in a new tab
+ */
+export function printReceiptHtml(receipt: ReceiptModel) {
   const printWindow = window.open('', '_blank')
   if (!printWindow) {
     alert('Please allow popups to print receipt')
     return
   }
 
-  const company = companyInfo || {
-    name: 'ERPINDO COMPANY',
-    address: 'Jl. Bisnis No. 123, Jakarta',
-    phone: '+62 21 1234 5678',
-  }
-
-  // Format currency
-  const formatCurrency = (amount: number) => {
-    return `Rp ${amount.toLocaleString('id-ID')}`
-  }
+  printWindow.document.write(renderReceiptHtml(receipt))
+  printWindow.document.close()
+}
 
-  // Format date
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString)
-    return date.toLocaleString('id-ID', {
-      day: '2-digit',
-      month: '2-digit',
-      year: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit',
-    })
-  }
+/**
+ * Render a receipt model as a printable HTML document
+ */
+export function renderReceiptHtml(receipt: ReceiptModel): string {
+  const company = receipt.company
 
-  // Build HTML content
-  const htmlContent = `
+  return `
     <!DOCTYPE html>
     <html>
     <head>
       <meta charset="UTF-8">
       <meta name="viewport" content="width=device-width, initial-scale=1.0">
-      <title>Receipt - ${transaction.transaction_number}</title>
+      <title>Receipt - ${receipt.transaction_number}</title>
       <style>
         * {
           margin: 0;
@@ -78,6 +81,12 @@ export function printReceiptInNewTab(
           margin-bottom: 10px;
         }
         
+        .company-logo {
+          max-width: 120px;
+          max-height: 60px;
+          margin-bottom: 5px;
+        }
+        
         .company-name {
           font-weight: bold;
           font-size: 14px;
@@ -124,6 +133,20 @@ export function printReceiptInNewTab(
           margin-left: 10px;
         }
         
+        .promotions {
+          border-bottom: 1px dashed #000;
+          padding-bottom: 10px;
+          margin-bottom: 10px;
+          font-size: 11px;
+        }
+        
+        .promotion {
+          display: flex;
+          justify-content: space-between;
+          gap: 8px;
+          margin: 3px 0;
+        }
+        
         .totals {
           border-bottom: 1px dashed #000;
           padding-bottom: 10px;
@@ -177,31 +200,48 @@ export function printReceiptInNewTab(
       <div class="receipt">
         <!-- Header -->
         <div class="header">
-          <div class="company-name">${company.name}</div>
-          <div class="company-info">${company.address}</div>
-          <div class="company-info">Tel: ${company.phone}</div>
+          ${
+            company.logo_url
+              ? `<img class="company-logo" src="${escapeHtml(company.logo_url)}" alt="">`
+              : ''
+          }
+          <div class="company-name">${escapeHtml(company.name)}</div>
+          ${company.address ? `<div class="company-info">${escapeHtml(company.address)}</div>` : ''}
+          ${company.phone ? `<div class="company-info">Tel: ${escapeHtml(company.phone)}</div>` : ''}
+          ${company.npwp ? `<div class="company-info">NPWP: ${escapeHtml(company.npwp)}</div>` : ''}
+          ${receipt.header ? `<div class="company-info">${escapeHtml(receipt.header)}</div>` : ''}
         </div>
         
         <!-- Transaction Info -->
         <div class="transaction-info">
           <div class="info-row">
             <span>No. Transaksi:</span>
-            <span>${transaction.transaction_number}</span>
+            <span>${receipt.transaction_number}</span>
           </div>
+          ${
+            receipt.offline_number
+              ? `
+          <div class="info-row">
+            <span>No. Offline:</span>
+            <span>${receipt.offline_number}</span>
+          </div>
+          `
+              : ''
+          }
           <div class="info-row">
             <span>Tanggal:</span>
-            <span>${formatDate(transaction.created_at)}</span>
+            <span>${formatDate(receipt.date)}</span>
           </div>
           <div class="info-row">
             <span>Kasir:</span>
-            <span>${transaction.cashier?.name || 'Unknown'}</span>
+            <span>${escapeHtml(receipt.cashier)}</span>
           </div>
           ${
-            transaction.customer
+            receipt.customer
               ? `
           <div class="info-row">
             <span>Customer:</span>
-            <span>${transaction.customer.name}</span>
+            <span>${escapeHtml(receipt.customer)}</span>
           </div>
           `
               : ''
@@ -214,37 +254,83 @@ export function printReceiptInNewTab(
             <span>Item</span>
             <span>Total</span>
           </div>
-          ${transaction.items
+          ${receipt.lines
             .map(
               item => `
           <div class="item">
             <div class="item-header">
-              <span>${item.product?.name || 'Unknown Product'}</span>
+              <span>${escapeHtml(item.name)}</span>
               <span>${formatCurrency(item.subtotal)}</span>
             </div>
             <div class="item-details">
               <span>${item.quantity}pc ${formatCurrency(item.unit_price)}</span>
               <span>${formatCurrency(item.quantity * item.unit_price)}</span>
             </div>
+            ${
+              item.discount_amount > 0
+                ? `
+            <div class="item-details">
+              <span>Diskon${item.discount_note ? ` (${escapeHtml(item.discount_note)})` : ''}</span>
+              <span>-${formatCurrency(item.discount_amount)}</span>
+            </div>
+            `
+                : ''
+            }
           </div>
           `
             )
             .join('')}
         </div>
+        ${
+          receipt.promotions.length > 0
+            ? `
+        <!-- Promotions -->
+        <div class="promotions">
+          <div class="item-header">
+            <span>Promo</span>
+          </div>
+          ${receipt.promotions
+            .map(
+              promotion => `
+          <div class="promotion">
+            <span>${escapeHtml(promotion.description)}</span>
+            <span>-${formatCurrency(promotion.discount_amount)}</span>
+          </div>
+          `
+            )
+            .join('')}
+        </div>
+        `
+            : ''
+        }
         
         <!-- Totals -->
         <div class="totals">
           <div class="total-row">
             <span>Subtotal:</span>
-            <span>${formatCurrency(transaction.subtotal)}</span>
+            <span>${formatCurrency(receipt.subtotal)}</span>
+          </div>
+          ${
+            receipt.discount_amount > 0
+              ? `
+          <div class="total-row">
+            <span>Diskon:</span>
+            <span>-${formatCurrency(receipt.discount_amount)}</span>
           </div>
+          `
+              : ''
+          }
           <div class="total-row">
-            <span>Pajak (10%):</span>
-            <span>${formatCurrency(transaction.tax_amount)}</span>
+            <span>DPP:</span>
+            <span>${formatCurrency(receipt.dpp_amount)}</span>
+          </div>
+          <div class="total-row">
+            <span>${receipt.tax_label}:</span>
+            <span>${formatCurrency(receipt.tax_amount)}</span>
           </div>
           <div class="total-row grand">
             <span>TOTAL:</span>
-            <span>${formatCurrency(transaction.total)}</span>
+            <span>${formatCurrency(receipt.total)}</span>
           </div>
         </div>
         
@@ -252,27 +338,39 @@ export function printReceiptInNewTab(
         <div class="payment">
           <div class="info-row">
             <span>Pembayaran:</span>
-            <span>${transaction.payment_method.toUpperCase()}</span>
+            <span>${receipt.payment_method}</span>
           </div>
-          ${transaction.payments
+          ${receipt.payments
             .map(
               payment => `
           <div class="info-row">
-            <span>${payment.payment_method}:</span>
+            <span>${payment.method}:</span>
             <span>${formatCurrency(payment.amount)}</span>
           </div>
           `
             )
             .join('')}
+          ${
+            receipt.change_amount > 0
+              ? `
+          <div class="info-row">
+            <span>Kembalian:</span>
+            <span>${formatCurrency(receipt.change_amount)}</span>
+          </div>
+          `
+              : ''
+          }
         </div>
         
         <!-- Footer -->
         <div class="footer">
-          <div class="thank-you">Terima Kasih</div>
-          <div>Atas Kunjungan Anda</div>
-          <div style="margin-top: 10px; font-size: 9px;">
-            Barang yang sudah dibeli tidak dapat dikembalikan
-          </div>
+          ${receipt.footer
+            .map((line, index) =>
+              index === 0
+                ? `<div class="thank-you">${escapeHtml(line)}</div>`
+                : `<div style="margin-top: 5px; font-size: 9px;">${escapeHtml(line)}</div>`
+            )
+            .join('')}
           <div style="margin-top: 10px; font-size: 9px;">
             ${formatDate(new Date().toISOString())}
           </div>
@@ -295,7 +393,96 @@ export function printReceiptInNewTab(
     </body>
     </html>
   `
+}
+
+/**
+ * Print an X- or Z-report as HTML in a new tab
+ */
+export function printShiftReportHtml(
+  report: ShiftReport,
+  company: DocumentCompany
+) {
+  const printWindow = window.open('', '_blank')
+  if (!printWindow) {
+    alert('Please allow popups to print reports')
+    return
+  }
 
-  printWindow.document.write(htmlContent)
+  printWindow.document.write(renderShiftReportHtml(report, company))
   printWindow.document.close()
 }
+
+/**
+ * Render an X- or Z-report as a printable HTML document, in the receipt's
+ * layout
+ */
+export function renderShiftReportHtml(
+  report: ShiftReport,
+  company: DocumentCompany
+): string {
+  const title = shiftReportTitle(report)
+  const infoRow = (label: string, value: string) => `
+          <div class="info-row">
+            <span>${label}</span>
+            <span>${escapeHtml(value)}</span>
+          </div>`
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="UTF-8">
+      <title>${escapeHtml(title)}</title>
+      <style>
+        * { margin: 0; padding: 0; box-sizing: border-box; }
+        body { font-family: 'Courier New', monospace; font-size: 12px; line-height: 1.4; padding: 20px; max-width: 300px; margin: 0 auto; }
+        .header { text-align: center; border-bottom: 1px dashed #000; padding-bottom: 10px; margin-bottom: 10px; }
+        .company-name { font-weight: bold; font-size: 14px; }
+        .title { font-weight: bold; font-size: 16px; margin-top: 5px; }
+        .section { border-bottom: 1px dashed #000; padding-bottom: 8px; margin-bottom: 8px; }
+        .section-title { font-weight: bold; margin-bottom: 4px; }
+        .info-row { display: flex; justify-content: space-between; gap: 8px; margin: 2px 0; }
+        .emphasis { font-weight: bold; }
+        @media print { body { padding: 0; } }
+      </style>
+    </head>
+    <body>
+      <div class="header">
+        <div class="company-name">${escapeHtml(company.name)}</div>
+        <div class="title">${escapeHtml(title)}</div>
+      </div>
+      <div class="section">
+        ${report.register ? infoRow('Kassa:', report.register) : ''}
+        ${infoRow('Kasir:', report.cashier)}
+        ${report.warehouse ? infoRow('Gudang:', report.warehouse) : ''}
+        ${infoRow('Buka:', formatDate(report.opened_at))}
+        ${report.closed_at ? infoRow('Tutup:', formatDate(report.closed_at)) : ''}
+        ${infoRow('Dicetak:', formatDate(report.generated_at))}
+      </div>
+      ${shiftReportSections(report)
+        .map(
+          section => `
+      <div class="section">
+        <div class="section-title">${escapeHtml(section.title.toUpperCase())}</div>
+        ${section.rows
+          .map(
+            line => `
+        <div class="info-row${line.emphasis ? ' emphasis' : ''}">
+          <span>${escapeHtml(line.label)}</span>
+          <span>${escapeHtml(line.value)}</span>
+        </div>`
+          )
+          .join('')}
+      </div>`
+        )
+        .join('')}
+
+      <script>
+        window.onload = function() {
+          window.print();
+        }
+      </script>
+    </body>
+    </html>
+  `
+}
@@ -0,0 +1,413 @@
+/**
+ * POS Receipt Printer
+ * Sends ESC/POS receipts to a thermal printer over WebUSB, Web Serial or a
+ * local print bridge, falling back to HTML printing when none is configured
+ * or the printer cannot be reached.
+ *
+ * Printer settings belong to the register, so they are kept in this
+ * browser's localStorage rather than in company settings.
+ */
+
+import { DEFAULT_RECEIPT_BRANDING, buildReceipt } from '@/lib/pos/receipt'
+import type { DocumentBranding } from '@/types/company'
+import {
+  PAPER_DOTS,
+  drawerKickCommand,
+  renderEscPos,
+  renderShiftReportEscPos,
+} from '@/lib/pos/escpos'
+import { printReceiptHtml, printShiftReportHtml } from '@/lib/pos/print-utils'
+import type {
+  PosTransactionWithRelations,
+  PrinterSettings,
+  PrinterTransport,
+  ReceiptBitmap,
+  ReceiptCodePage,
+  ShiftReport,
+} from '@/types/pos'
+
+const PRINTER_SETTINGS_KEY = 'erpindo-pos-printer'
+const TERMINAL_REGISTER_KEY = 'erpindo-pos-register'
+
+export const DEFAULT_PRINTER_SETTINGS: PrinterSettings = {
+  transport: 'html',
+  paper_width: 80,
+  code_page: 'cp437',
+  print_logo: false,
+  barcode: 'code128',
+  open_drawer: false,
+  bridge_url: 'http://localhost:9100/print',
+  serial_baud_rate: 9600,
+}
+
+export const PRINTER_TRANSPORTS: { value: PrinterTransport; label: string }[] =
+  [
+    { value: 'html', label: 'Browser print (HTML)' },
+    { value: 'usb', label: 'USB printer (WebUSB)' },
+    { value: 'serial', label: 'Serial / Bluetooth printer (Web Serial)' },
+    { value: 'bridge', label: 'Local print bridge' },
+  ]
+
+export const RECEIPT_CODE_PAGES: { value: ReceiptCodePage; label: string }[] = [
+  { value: 'cp437', label: 'CP437 (USA)' },
+  { value: 'cp858', label: 'CP858 (Latin-1 + Euro)' },
+  { value: 'cp1252', label: 'Windows-1252' },
+]
+
+// Minimal WebUSB / Web Serial shapes; the DOM typings do not include them
+interface UsbDeviceLike {
+  opened: boolean
+  configuration: {
+    interfaces: {
+      interfaceNumber: number
+      alternate: {
+        endpoints: {
+          direction: 'in' | 'out'
+          type: string
+          endpointNumber: number
+        }[]
+      }
+    }[]
+  } | null
+  open(): Promise<void>
+  close(): Promise<void>
+  selectConfiguration(configurationValue: number): Promise<void>
+  claimInterface(interfaceNumber: number): Promise<void>
+  releaseInterface(interfaceNumber: number): Promise<void>
+  transferOut(endpointNumber: number, data: Uint8Array): Promise<unknown>
+}
+
+interface SerialPortLike {
+  writable: WritableStream<Uint8Array> | null
+  open(options: { baudRate: number }): Promise<void>
+  close(): Promise<void>
+}
+
+type PrinterNavigator = Navigator & {
+  usb?: {
+    getDevices(): Promise<UsbDeviceLike[]>
+    requestDevice(options: { filters: object[] }): Promise<UsbDeviceLike>
+  }
+  serial?: {
+    getPorts(): Promise<SerialPortLike[]>
+    requestPort(): Promise<SerialPortLike>
+  }
+}
+
+const printerNavigator = () => navigator as PrinterNavigator
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+// Defaults of the register the open shift is on, under this browser's own
+let registerPrinterDefaults: Partial<PrinterSettings> = {}
+
+/**
+ * Use a register's default printer settings until this browser saves its own
+ */
+export function setRegisterPrinterDefaults(
+  settings: Partial<PrinterSettings> | null
+): void {
+  registerPrinterDefaults = settings || {}
+}
+
+/**
+ * Get this register's printer settings
+ */
+export function getPrinterSettings(): PrinterSettings {
+  const defaults = { ...DEFAULT_PRINTER_SETTINGS, ...registerPrinterDefaults }
+  try {
+    const stored = localStorage.getItem(PRINTER_SETTINGS_KEY)
+    return stored ? { ...defaults, ...JSON.parse(stored) } : defaults
+  } catch {
+    return defaults
+  }
+}
+
+/**
+ * Save this register's printer settings
+ */
+export function savePrinterSettings(settings: PrinterSettings): void {
+  localStorage.setItem(PRINTER_SETTINGS_KEY, JSON.stringify(settings))
+}
+
+/**
+ * Get the register this browser was last opened as, if any
+ */
+export function getTerminalRegisterId(): string | null {
+  try {
+    return localStorage.getItem(TERMINAL_REGISTER_KEY)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Remember the register this browser is opened as
+ */
+export function saveTerminalRegisterId(register_id: string): void {
+  localStorage.setItem(TERMINAL_REGISTER_KEY, register_id)
+}
+
+/**
+ * Whether the browser can use the transport (WebUSB and Web Serial need a
+ * Chromium browser on a secure origin)
+ */
+export function isTransportSupported(transport: PrinterTransport): boolean {
+  if (typeof navigator === 'undefined') return false
+  if (transport === 'usb') return !!printerNavigator().usb
+  if (transport === 'serial') return !!printerNavigator().serial
+  return true
+}
+
+/**
+ * Ask the cashier to pick the printer; the browser remembers the grant
+ */
+export async function connectPrinter(
+  transport: PrinterTransport
+): Promise<void> {
+  if (transport === 'usb') {
+    const usb = printerNavigator().usb
+    if (!usb) throw new Error('WebUSB is not supported in this browser')
+    await usb.requestDevice({ filters: [] })
+  } else if (transport === 'serial') {
+    const serial = printerNavigator().serial
+    if (!serial) throw new Error('Web Serial is not supported in this browser')
+    await serial.requestPort()
+  }
+}
+
+// ============================================================================
+// TRANSPORTS
+// ============================================================================
+
+async function sendViaUsb(data: Uint8Array): Promise<void> {
+  const usb = printerNavigator().usb
+  if (!usb) throw new Error('WebUSB is not supported in this browser')
+
+  const [device] = await usb.getDevices()
+  if (!device) throw new Error('No USB printer connected')
+
+  if (!device.opened) await device.open()
+  if (!device.configuration) await device.selectConfiguration(1)
+
+  // Printers expose a bulk OUT endpoint on their printer-class interface
+  const printerInterface = device.configuration?.interfaces.find(iface =>
+    iface.alternate.endpoints.some(
+      endpoint => endpoint.direction === 'out' && endpoint.type === 'bulk'
+    )
+  )
+  const endpoint = printerInterface?.alternate.endpoints.find(
+    e => e.direction === 'out' && e.type === 'bulk'
+  )
+  if (!printerInterface || !endpoint) {
+    throw new Error('USB device is not a printer')
+  }
+
+  await device.claimInterface(printerInterface.interfaceNumber)
+  try {
+    await device.transferOut(endpoint.endpointNumber, data)
+  } finally {
+    await device.releaseInterface(printerInterface.interfaceNumber)
+    await device.close()
+  }
+}
+
+async function sendViaSerial(
+  data: Uint8Array,
+  baudRate: number
+): Promise<void> {
+  const serial = printerNavigator().serial
+  if (!serial) throw new Error('Web Serial is not supported in this browser')
+
+  const [port] = await serial.getPorts()
+  if (!port) throw new Error('No serial printer connected')
+
+  await port.open({ baudRate })
+  try {
+    if (!port.writable) throw new Error('Serial printer is not writable')
+    const writer = port.writable.getWriter()
+    try {
+      await writer.write(data)
+    } finally {
+      writer.releaseLock()
+    }
+  } finally {
+    await port.close()
+  }
+}
+
+async function sendViaBridge(data: Uint8Array, url: string): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/octet-stream' },
+    body: data.slice().buffer, // Plain ArrayBuffer copy for fetch
+  })
+  if (!response.ok) {
+    throw new Error(`Print bridge responded ${response.status}`)
+  }
+}
+
+/**
+ * Send raw ESC/POS bytes over the configured transport
+ */
+export async function sendToPrinter(
+  data: Uint8Array,
+  settings: PrinterSettings = getPrinterSettings()
+): Promise<void> {
+  switch (settings.transport) {
+    case 'usb':
+      return sendViaUsb(data)
+    case 'serial':
+      return sendViaSerial(data, settings.serial_baud_rate)
+    case 'bridge':
+      return sendViaBridge(data, settings.bridge_url)
+    default:
+      throw new Error('No thermal printer configured')
+  }
+}
+
+// ============================================================================
+// LOGO
+// ============================================================================
+
+/**
+ * Load an image and threshold it to a 1-bit bitmap that fits the paper
+ */
+export async function rasterizeLogo(
+  url: string,
+  maxWidth: number
+): Promise<ReceiptBitmap> {
+  const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image()
+    img.crossOrigin = 'anonymous'
+    img.onload = () => resolve(img)
+    img.onerror = () => reject(new Error('Failed to load logo'))
+    img.src = url
+  })
+
+  // Logos are printed at most half the paper width, in whole bytes
+  const scale = Math.min(1, maxWidth / 2 / image.width)
+  const width = Math.max(8, Math.floor((image.width * scale) / 8) * 8)
+  const height = Math.max(1, Math.round(image.height * scale))
+
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const context = canvas.getContext('2d')
+  if (!context) throw new Error('Canvas is not available')
+  context.fillStyle = '#fff'
+  context.fillRect(0, 0, width, height)
+  context.drawImage(image, 0, 0, width, height)
+
+  const pixels = context.getImageData(0, 0, width, height).data
+  const data = new Uint8Array((width / 8) * height)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 4
+      const luminance =
+        0.299 * pixels[offset] +
+        0.587 * pixels[offset + 1] +
+        0.114 * pixels[offset + 2]
+      if (luminance < 128) {
+        data[(y * width + x) >> 3] |= 0x80 >> (x & 7)
+      }
+    }
+  }
+
+  return { width, height, data }
+}
+
+// ============================================================================
+// PRINTING
+// ============================================================================
+
+/**
+ * Print a transaction receipt on this register's printer. Falls back to the
+ * HTML receipt when no thermal printer is set up or printing fails.
+ *
+ * @param reprint - Reprints leave the cash drawer closed
+ * @returns The transport the receipt went out on
+ */
+export async function printReceipt(
+  transaction: PosTransactionWithRelations,
+  branding?: DocumentBranding,
+  { reprint = false }: { reprint?: boolean } = {}
+): Promise<PrinterTransport> {
+  const settings = getPrinterSettings()
+  const receipt = buildReceipt(transaction, branding)
+
+  if (settings.transport === 'html') {
+    printReceiptHtml(receipt)
+    return 'html'
+  }
+
+  try {
+    let logo: ReceiptBitmap | null = null
+    if (settings.print_logo && receipt.company.logo_url) {
+      logo = await rasterizeLogo(
+        receipt.company.logo_url,
+        PAPER_DOTS[settings.paper_width]
+      ).catch(error => {
+        console.error('Error loading receipt logo:', error)
+        return null
+      })
+    }
+
+    await sendToPrinter(
+      renderEscPos(receipt, settings, {
+        logo,
+        openDrawer:
+          !reprint && settings.open_drawer && receipt.has_cash_payment,
+      }),
+      settings
+    )
+    return settings.transport
+  } catch (error) {
+    console.error('Error printing to thermal printer:', error)
+    printReceiptHtml(receipt)
+    return 'html'
+  }
+}
+
+/**
+ * Print an X- or Z-report on this register's printer, falling back to HTML
+ * like receipts do
+ *
+ * @returns The transport the report went out on
+ */
+export async function printShiftReport(
+  report: ShiftReport,
+  branding: DocumentBranding = DEFAULT_RECEIPT_BRANDING
+): Promise<PrinterTransport> {
+  const settings = getPrinterSettings()
+
+  if (settings.transport === 'html') {
+    printShiftReportHtml(report, branding.company)
+    return 'html'
+  }
+
+  try {
+    await sendToPrinter(
+      renderShiftReportEscPos(report, branding.company, settings),
+      settings
+    )
+    return settings.transport
+  } catch (error) {
+    console.error('Error printing to thermal printer:', error)
+    printShiftReportHtml(report, branding.company)
+    return 'html'
+  }
+}
+
+/**
+ * Open the cash drawer wired to the thermal printer, when the register is
+ * set up to do so
+ */
+export async function openCashDrawer(
+  settings: PrinterSettings = getPrinterSettings()
+): Promise<void> {
+  if (settings.transport === 'html' || !settings.open_drawer) return
+  await sendToPrinter(drawerKickCommand(), settings)
+}
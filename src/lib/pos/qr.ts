@@ -0,0 +1,437 @@
+/**
+ * QR Code Encoder
+ * Encodes text as a QR code (byte mode, error correction level M) for the
+ * screen, e.g. the QRIS code on the customer display, and for voucher sheets
+ * printed from the browser. Receipts print their QR codes with the printer's
+ * own ESC/POS encoder instead.
+ */
+
+// Error correction codewords per block and number of blocks for level M,
+// indexed by version (index 0 unused)
+const ECC_CODEWORDS_PER_BLOCK = [
+  -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26,
+  26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+  28, 28, 28,
+]
+const ERROR_CORRECTION_BLOCKS = [
+  -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17,
+  18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49,
+]
+
+// Format bits of level M
+const ECC_FORMAT_BITS = 0
+
+export interface QrMatrix {
+  size: number
+  modules: boolean[][] // [y][x], true = dark
+}
+
+const getBit = (value: number, index: number) => ((value >>> index) & 1) !== 0
+
+// ============================================================================
+// CODEWORDS
+// ============================================================================
+
+function rawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64
+  if (version >= 2) {
+    const alignmentCount = Math.floor(version / 7) + 2
+    result -= (25 * alignmentCount - 10) * alignmentCount - 55
+    if (version >= 7) result -= 36
+  }
+  return result
+}
+
+function dataCodewords(version: number): number {
+  return (
+    Math.floor(rawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[version] * ERROR_CORRECTION_BLOCKS[version]
+  )
+}
+
+function gfMultiply(x: number, y: number): number {
+  let z = 0
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d)
+    z ^= ((y >>> i) & 1) * x
+  }
+  return z
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0)
+  result[degree - 1] = 1
+  let root = 1
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root)
+      if (j + 1 < result.length) result[j] ^= result[j + 1]
+    }
+    root = gfMultiply(root, 0x02)
+  }
+  return result
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = divisor.map(() => 0)
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number)
+    result.push(0)
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor)
+    })
+  }
+  return result
+}
+
+/**
+ * Data codewords of the text, padded to the version's capacity
+ */
+function encodeData(bytes: number[], version: number): number[] {
+  const bits: number[] = []
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1)
+  }
+
+  const capacityBits = dataCodewords(version) * 8
+  append(0x4, 4) // Byte mode
+  append(bytes.length, version <= 9 ? 8 : 16)
+  bytes.forEach(byte => append(byte, 8))
+  append(0, Math.min(4, capacityBits - bits.length))
+  append(0, (8 - (bits.length % 8)) % 8)
+
+  const codewords: number[] = []
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(
+      bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit)
+    )
+  }
+  for (
+    let pad = 0xec;
+    codewords.length < capacityBits / 8;
+    pad ^= 0xec ^ 0x11
+  ) {
+    codewords.push(pad)
+  }
+  return codewords
+}
+
+/**
+ * Split data into blocks, add error correction and interleave them
+ */
+function addErrorCorrection(data: number[], version: number): number[] {
+  const blockCount = ERROR_CORRECTION_BLOCKS[version]
+  const blockEccLength = ECC_CODEWORDS_PER_BLOCK[version]
+  const rawCodewords = Math.floor(rawDataModules(version) / 8)
+  const shortBlockCount = blockCount - (rawCodewords % blockCount)
+  const shortBlockLength = Math.floor(rawCodewords / blockCount)
+  const divisor = reedSolomonDivisor(blockEccLength)
+
+  const blocks: number[][] = []
+  for (let i = 0, offset = 0; i < blockCount; i++) {
+    const length =
+      shortBlockLength - blockEccLength + (i < shortBlockCount ? 0 : 1)
+    const block = data.slice(offset, offset + length)
+    offset += length
+    const ecc = reedSolomonRemainder(block, divisor)
+    // Short blocks get a placeholder so all blocks line up
+    if (i < shortBlockCount) block.push(0)
+    blocks.push([...block, ...ecc])
+  }
+
+  const result: number[] = []
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - blockEccLength || j >= shortBlockCount) {
+        result.push(block[i])
+      }
+    })
+  }
+  return result
+}
+
+// ============================================================================
+// MATRIX
+// ============================================================================
+
+function alignmentPositions(version: number, size: number): number[] {
+  if (version === 1) return []
+  const count = Math.floor(version / 7) + 2
+  const step =
+    version === 32 ? 26 : Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2
+  const result = [6]
+  for (let position = size - 7; result.length < count; position -= step) {
+    result.splice(1, 0, position)
+  }
+  return result
+}
+
+function createMatrix(version: number) {
+  const size = version * 4 + 17
+  const modules = Array.from({ length: size }, () =>
+    new Array<boolean>(size).fill(false)
+  )
+  const reserved = Array.from({ length: size }, () =>
+    new Array<boolean>(size).fill(false)
+  )
+  const setFunction = (x: number, y: number, dark: boolean) => {
+    modules[y][x] = dark
+    reserved[y][x] = true
+  }
+
+  // Timing patterns
+  for (let i = 0; i < size; i++) {
+    setFunction(6, i, i % 2 === 0)
+    setFunction(i, 6, i % 2 === 0)
+  }
+
+  // Finder patterns with their separators
+  for (const [cx, cy] of [
+    [3, 3],
+    [size - 4, 3],
+    [3, size - 4],
+  ]) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx
+        const y = cy + dy
+        if (x < 0 || x >= size || y < 0 || y >= size) continue
+        const distance = Math.max(Math.abs(dx), Math.abs(dy))
+        setFunction(x, y, distance !== 2 && distance !== 4)
+      }
+    }
+  }
+
+  // Alignment patterns, except where they would overlap the finders
+  const positions = alignmentPositions(version, size)
+  const last = positions.length - 1
+  positions.forEach((cy, i) =>
+    positions.forEach((cx, j) => {
+      if (
+        (i === 0 && j === 0) ||
+        (i === 0 && j === last) ||
+        (i === last && j === 0)
+      ) {
+        return
+      }
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          setFunction(
+            cx + dx,
+            cy + dy,
+            Math.max(Math.abs(dx), Math.abs(dy)) !== 1
+          )
+        }
+      }
+    })
+  )
+
+  // Reserve the format areas (drawn per mask) and the dark module
+  drawFormatBits(setFunction, size, 0)
+
+  // Version information
+  if (version >= 7) {
+    let remainder = version
+    for (let i = 0; i < 12; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25)
+    }
+    const bits = (version << 12) | remainder
+    for (let i = 0; i < 18; i++) {
+      const a = size - 11 + (i % 3)
+      const b = Math.floor(i / 3)
+      setFunction(a, b, getBit(bits, i))
+      setFunction(b, a, getBit(bits, i))
+    }
+  }
+
+  return { size, modules, reserved }
+}
+
+function drawFormatBits(
+  setFunction: (x: number, y: number, dark: boolean) => void,
+  size: number,
+  mask: number
+) {
+  const data = (ECC_FORMAT_BITS << 3) | mask
+  let remainder = data
+  for (let i = 0; i < 10; i++) {
+    remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537)
+  }
+  const bits = ((data << 10) | remainder) ^ 0x5412
+
+  for (let i = 0; i <= 5; i++) setFunction(8, i, getBit(bits, i))
+  setFunction(8, 7, getBit(bits, 6))
+  setFunction(8, 8, getBit(bits, 7))
+  setFunction(7, 8, getBit(bits, 8))
+  for (let i = 9; i < 15; i++) setFunction(14 - i, 8, getBit(bits, i))
+
+  for (let i = 0; i < 8; i++) setFunction(size - 1 - i, 8, getBit(bits, i))
+  for (let i = 8; i < 15; i++) setFunction(8, size - 15 + i, getBit(bits, i))
+  setFunction(8, size - 8, true)
+}
+
+function maskApplies(mask: number, x: number, y: number): boolean {
+  switch (mask) {
+    case 0:
+      return (x + y) % 2 === 0
+    case 1:
+      return y % 2 === 0
+    case 2:
+      return x % 3 === 0
+    case 3:
+      return (x + y) % 3 === 0
+    case 4:
+      return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0
+    case 5:
+      return ((x * y) % 2) + ((x * y) % 3) === 0
+    case 6:
+      return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0
+    default:
+      return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0
+  }
+}
+
+/**
+ * Penalty score of a masked matrix; the mask with the lowest score is used
+ */
+function penaltyScore(modules: boolean[][]): number {
+  const size = modules.length
+  let penalty = 0
+  const finderLike = [
+    [true, false, true, true, true, false, true, false, false, false, false],
+    [false, false, false, false, true, false, true, true, true, false, true],
+  ]
+
+  for (let i = 0; i < size; i++) {
+    const row = modules[i]
+    const column = modules.map(line => line[i])
+
+    for (const line of [row, column]) {
+      // Runs of five or more modules of one color
+      let runLength = 1
+      for (let j = 1; j <= size; j++) {
+        if (j < size && line[j] === line[j - 1]) {
+          runLength++
+        } else {
+          if (runLength >= 5) penalty += 3 + (runLength - 5)
+          runLength = 1
+        }
+      }
+
+      // Patterns that look like a finder
+      for (let j = 0; j + 11 <= size; j++) {
+        if (
+          finderLike.some(pattern =>
+            pattern.every((dark, k) => line[j + k] === dark)
+          )
+        ) {
+          penalty += 40
+        }
+      }
+    }
+  }
+
+  // 2x2 blocks of one color
+  let darkCount = 0
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (modules[y][x]) darkCount++
+      if (
+        x < size - 1 &&
+        y < size - 1 &&
+        modules[y][x] === modules[y][x + 1] &&
+        modules[y][x] === modules[y + 1][x] &&
+        modules[y][x] === modules[y + 1][x + 1]
+      ) {
+        penalty += 3
+      }
+    }
+  }
+
+  // Balance of dark and light modules
+  const total = size * size
+  const deviation = Math.ceil(Math.abs(darkCount * 20 - total * 10) / total) - 1
+  return penalty + Math.max(0, deviation) * 10
+}
+
+/**
+ * Encode text as a QR code, using the smallest version that fits
+ */
+export function encodeQr(text: string): QrMatrix {
+  const bytes = Array.from(new TextEncoder().encode(text))
+
+  let version = 1
+  while (
+    version <= 40 &&
+    4 + (version <= 9 ? 8 : 16) + bytes.length * 8 > dataCodewords(version) * 8
+  ) {
+    version++
+  }
+  if (version > 40) {
+    throw new Error('Text is too long for a QR code')
+  }
+
+  const codewords = addErrorCorrection(encodeData(bytes, version), version)
+  const { size, modules, reserved } = createMatrix(version)
+
+  // Place the codewords in the zigzag order
+  let bitIndex = 0
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5
+    for (let vertical = 0; vertical < size; vertical++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j
+        const upward = ((right + 1) & 2) === 0
+        const y = upward ? size - 1 - vertical : vertical
+        if (!reserved[y][x] && bitIndex < codewords.length * 8) {
+          modules[y][x] = getBit(codewords[bitIndex >>> 3], 7 - (bitIndex & 7))
+          bitIndex++
+        }
+      }
+    }
+  }
+
+  // Try every mask and keep the most readable one
+  let best: boolean[][] = modules
+  let bestPenalty = Infinity
+  for (let mask = 0; mask < 8; mask++) {
+    const masked = modules.map((line, y) =>
+      line.map(
+        (dark, x) => dark !== (!reserved[y][x] && maskApplies(mask, x, y))
+      )
+    )
+    drawFormatBits(
+      (x, y, dark) => {
+        masked[y][x] = dark
+      },
+      size,
+      mask
+    )
+    const penalty = penaltyScore(masked)
+    if (penalty < bestPenalty) {
+      best = masked
+      bestPenalty = penalty
+    }
+  }
+
+  return { size, modules: best }
+}
+
+// Light modules around the code that scanners need to find it
+export const QR_QUIET_ZONE = 4
+
+/**
+ * SVG path of a QR code's dark modules, one unit per module, with the quiet
+ * zone around them
+ */
+export function qrSvgPath(qr: QrMatrix): { size: number; path: string } {
+  const commands: string[] = []
+  qr.modules.forEach((row, y) =>
+    row.forEach((dark, x) => {
+      if (dark) {
+        commands.push(`M${x + QR_QUIET_ZONE} ${y + QR_QUIET_ZONE}h1v1h-1z`)
+      }
+    })
+  )
+  return { size: qr.size + QR_QUIET_ZONE * 2, path: commands.join('') }
+}
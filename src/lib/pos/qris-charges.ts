@@ -0,0 +1,244 @@
+/**
+ * QRIS Charges (server-side)
+ * Opens gateway charges for pending POS payment lines, follows them up and
+ * settles the sale through settle_pos_qris_charge. Runs with the service
+ * role from the /api/pos/qris routes, so every lookup is scoped to the
+ * company.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { mockGateway } from '@/lib/pos/mock-gateway'
+import type {
+  GatewayNotification,
+  PaymentGatewayAdapter,
+} from '@/lib/pos/payment-gateway'
+import type { Database } from '@/types/database'
+import type {
+  PaymentGatewayId,
+  PosPayment,
+  PosQrisCharge,
+  PosSettings,
+  QrisChargeStatus,
+} from '@/types/pos'
+
+type ServiceClient = SupabaseClient<Database>
+
+// Registered adapters; add real gateways here
+const GATEWAYS: Record<PaymentGatewayId, PaymentGatewayAdapter> = {
+  mock: mockGateway,
+}
+
+/**
+ * Adapter registered under an id, or null for unknown ids
+ */
+export function getPaymentGateway(id: string): PaymentGatewayAdapter | null {
+  return GATEWAYS[id as PaymentGatewayId] || null
+}
+
+/**
+ * Record the gateway's verdict on a charge; the database settles the
+ * payment line and the sale along with it
+ */
+async function settleCharge(
+  supabase: ServiceClient,
+  id: string,
+  status: Exclude<QrisChargeStatus, 'pending'>
+): Promise<PosQrisCharge> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data, error } = await (supabase as any).rpc(
+    'settle_pos_qris_charge',
+    { p_charge_id: id, p_status: status }
+  )
+
+  if (error) {
+    console.error('Error settling QRIS charge:', error)
+    throw new Error(`Failed to settle QRIS charge: ${error.message}`)
+  }
+
+  return data as PosQrisCharge
+}
+
+/**
+ * A company's charge by id, or null when it does not exist
+ */
+export async function getCompanyQrisCharge(
+  supabase: ServiceClient,
+  companyId: string,
+  id: string
+): Promise<PosQrisCharge | null> {
+  const { data, error } = await supabase
+    .from('pos_qris_charges')
+    .select('*')
+    .eq('id', id)
+    .eq('company_id', companyId)
+    .maybeSingle()
+    .overrideTypes<PosQrisCharge, { merge: false }>()
+
+  if (error) {
+    console.error('Error fetching QRIS charge:', error)
+    throw new Error(`Failed to fetch QRIS charge: ${error.message}`)
+  }
+
+  return data
+}
+
+/**
+ * Open a dynamic QRIS charge for a pending payment line. Earlier charges
+ * still open for the line are called off first, so only one can be paid.
+ */
+export async function openQrisCharge(
+  supabase: ServiceClient,
+  companyId: string,
+  userId: string,
+  paymentId: string
+): Promise<PosQrisCharge> {
+  const [paymentResult, settingsResult] = await Promise.all([
+    supabase
+      .from('pos_payments')
+      .select('*, transaction:pos_transactions!inner(company_id)')
+      .eq('id', paymentId)
+      .eq('transaction.company_id', companyId)
+      .maybeSingle()
+      .overrideTypes<PosPayment, { merge: false }>(),
+    supabase
+      .from('pos_settings')
+      .select('*')
+      .eq('company_id', companyId)
+      .maybeSingle()
+      .overrideTypes<PosSettings, { merge: false }>(),
+  ])
+
+  if (paymentResult.error) {
+    console.error('Error fetching payment:', paymentResult.error)
+    throw new Error(`Failed to fetch payment: ${paymentResult.error.message}`)
+  }
+
+  const payment = paymentResult.data
+  const settings = settingsResult.data
+  if (!payment) {
+    throw new Error('Payment not found')
+  }
+  if (payment.status !== 'pending') {
+    throw new Error('This payment is not awaiting settlement')
+  }
+
+  const gateway = getPaymentGateway(settings?.payment_gateway || '')
+  if (!gateway) {
+    throw new Error('No payment gateway is set up for QRIS payments')
+  }
+
+  const { data: openCharges } = await supabase
+    .from('pos_qris_charges')
+    .select('*')
+    .eq('payment_id', paymentId)
+    .eq('status', 'pending')
+  for (const charge of (openCharges || []) as PosQrisCharge[]) {
+    await cancelQrisCharge(supabase, charge)
+  }
+
+  const id = crypto.randomUUID()
+  const expiresAt = new Date(
+    Date.now() + (settings?.qris_expiry_minutes || 5) * 60 * 1000
+  ).toISOString()
+  const amount = Number(payment.amount)
+
+  const gatewayCharge = await gateway.createQrisCharge({
+    reference: id,
+    amount,
+    expires_at: expiresAt,
+    merchant_qris: settings?.qris_payload || null,
+  })
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const query = supabase.from('pos_qris_charges') as any
+  const { data, error } = await query
+    .insert({
+      id,
+      company_id: companyId,
+      transaction_id: payment.transaction_id,
+      payment_id: payment.id,
+      gateway: gateway.id,
+      external_id: gatewayCharge.external_id,
+      qris_payload: gatewayCharge.qris_payload,
+      amount,
+      expires_at: expiresAt,
+      created_by: userId,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error creating QRIS charge:', error)
+    // Nobody can pay a charge we failed to record
+    await gateway.cancelCharge(gatewayCharge.external_id).catch(() => {})
+    throw new Error(`Failed to create QRIS charge: ${error.message}`)
+  }
+
+  return data as PosQrisCharge
+}
+
+/**
+ * Bring an open charge up to date: it expires once its time is up,
+ * otherwise the gateway is asked for its status
+ */
+export async function refreshQrisCharge(
+  supabase: ServiceClient,
+  charge: PosQrisCharge
+): Promise<PosQrisCharge> {
+  if (charge.status !== 'pending') return charge
+
+  const gateway = getPaymentGateway(charge.gateway)
+  if (!gateway) return charge
+
+  const status = await gateway.getChargeStatus(charge.external_id)
+  if (status !== 'pending') {
+    return settleCharge(supabase, charge.id, status)
+  }
+
+  if (new Date(charge.expires_at).getTime() <= Date.now()) {
+    await gateway.cancelCharge(charge.external_id)
+    return settleCharge(supabase, charge.id, 'expired')
+  }
+
+  return charge
+}
+
+/**
+ * Call off an open charge. Its payment line and the sale stay pending.
+ */
+export async function cancelQrisCharge(
+  supabase: ServiceClient,
+  charge: PosQrisCharge
+): Promise<PosQrisCharge> {
+  if (charge.status !== 'pending') return charge
+
+  const gateway = getPaymentGateway(charge.gateway)
+  await gateway?.cancelCharge(charge.external_id)
+  return settleCharge(supabase, charge.id, 'cancelled')
+}
+
+/**
+ * Apply a status the gateway pushed to its webhook. Returns null when the
+ * charge is unknown.
+ */
+export async function applyGatewayNotification(
+  supabase: ServiceClient,
+  gatewayId: PaymentGatewayId,
+  notification: GatewayNotification
+): Promise<PosQrisCharge | null> {
+  const { data, error } = await supabase
+    .from('pos_qris_charges')
+    .select('*')
+    .eq('gateway', gatewayId)
+    .eq('external_id', notification.external_id)
+    .maybeSingle()
+    .overrideTypes<PosQrisCharge, { merge: false }>()
+
+  if (error) {
+    console.error('Error fetching QRIS charge:', error)
+    throw new Error(`Failed to fetch QRIS charge: ${error.message}`)
+  }
+  if (!data) return null
+
+  return settleCharge(supabase, data.id, notification.status)
+}
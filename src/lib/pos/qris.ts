@@ -0,0 +1,99 @@
+/**
+ * QRIS Payloads
+ * Reads the merchant's static QRIS payload (EMVCo merchant-presented format)
+ * and turns it into a dynamic one carrying the amount due, so the customer
+ * does not have to type it in.
+ */
+
+interface EmvElement {
+  id: string
+  value: string
+}
+
+/**
+ * CRC-16/CCITT-FALSE checksum QRIS payloads end with
+ */
+function crc16(text: string): string {
+  let crc = 0xffff
+  for (let i = 0; i < text.length; i++) {
+    crc ^= text.charCodeAt(i) << 8
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1
+      crc &= 0xffff
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0')
+}
+
+/**
+ * Split a payload into its top-level ID-length-value elements
+ */
+function parseElements(payload: string): EmvElement[] {
+  const elements: EmvElement[] = []
+  let offset = 0
+  while (offset < payload.length) {
+    const id = payload.slice(offset, offset + 2)
+    const length = Number(payload.slice(offset + 2, offset + 4))
+    const value = payload.slice(offset + 4, offset + 4 + length)
+    if (
+      !/^\d{2}$/.test(id) ||
+      !Number.isInteger(length) ||
+      value.length !== length
+    ) {
+      throw new Error('Invalid QRIS payload')
+    }
+    elements.push({ id, value })
+    offset += 4 + length
+  }
+  return elements
+}
+
+function serializeElements(elements: EmvElement[]): string {
+  return elements
+    .map(
+      ({ id, value }) => `${id}${String(value.length).padStart(2, '0')}${value}`
+    )
+    .join('')
+}
+
+/**
+ * Whether a payload is a well-formed QRIS code with a matching checksum
+ */
+export function isValidQrisPayload(payload: string): boolean {
+  try {
+    const trimmed = payload.trim()
+    const elements = parseElements(trimmed)
+    const crc = elements[elements.length - 1]
+    return (
+      elements[0]?.id === '00' &&
+      crc?.id === '63' &&
+      crc16(trimmed.slice(0, -4)) === crc.value.toUpperCase()
+    )
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Make a dynamic QRIS payload for the amount (in Rupiah) from the merchant's
+ * static one. Payloads that cannot be read are returned unchanged.
+ */
+export function qrisPayloadWithAmount(payload: string, amount: number): string {
+  if (!isValidQrisPayload(payload)) return payload.trim()
+
+  const elements = parseElements(payload.trim()).filter(
+    element => element.id !== '54' && element.id !== '63'
+  )
+
+  // Point of initiation: 12 = dynamic (one payment, amount included)
+  const initiation = elements.find(element => element.id === '01')
+  if (initiation) initiation.value = '12'
+
+  // Elements stay in ID order, so the amount goes before the first one after it
+  const amountElement = { id: '54', value: String(Math.round(amount)) }
+  const index = elements.findIndex(element => element.id > '54')
+  elements.splice(index === -1 ? elements.length : index, 0, amountElement)
+
+  const body = `${serializeElements(elements)}6304`
+  return `${body}${crc16(body)}`
+}
@@ -0,0 +1,132 @@
+/**
+ * Receipt Model
+ * Turns a transaction into the receipt shared by the HTML and ESC/POS
+ * renderers, so both print the same lines and totals
+ */
+
+import { resolveDocumentBranding } from '@/lib/company/utils'
+import { formatTaxLabel } from '@/lib/tax/utils'
+import type { DocumentBranding } from '@/types/company'
+import type { DiscountedUnits } from '@/types/promotions'
+import type {
+  PosRegister,
+  PosTransactionWithRelations,
+  ReceiptModel,
+} from '@/types/pos'
+
+// Printed until the company's receipt branding has loaded
+export const DEFAULT_RECEIPT_BRANDING: DocumentBranding =
+  resolveDocumentBranding('receipt', 'ERPINDO', null, null)
+
+/**
+ * Print the register's own receipt header and footer, when it has them,
+ * instead of the receipt template's
+ */
+export function applyRegisterReceiptSettings(
+  branding: DocumentBranding,
+  register: Pick<PosRegister, 'receipt_header' | 'receipt_footer'> | null
+): DocumentBranding {
+  if (!register) return branding
+
+  return {
+    ...branding,
+    header: register.receipt_header?.trim() || branding.header,
+    footer: register.receipt_footer?.trim()
+      ? register.receipt_footer
+          .split('\n')
+          .map(line => line.trim())
+          .filter(Boolean)
+      : branding.footer,
+  }
+}
+
+/**
+ * Build the receipt for a transaction with the company's receipt branding
+ */
+export function buildReceipt(
+  transaction: PosTransactionWithRelations,
+  branding: DocumentBranding = DEFAULT_RECEIPT_BRANDING
+): ReceiptModel {
+  return {
+    company: branding.company,
+    header: branding.header,
+    transaction_number: transaction.transaction_number,
+    offline_number: transaction.offline_number,
+    date: transaction.transaction_date || transaction.created_at,
+    cashier: transaction.cashier?.name || 'Unknown',
+    customer: transaction.customer?.name || null,
+    lines: transaction.items.map(item => ({
+      name: item.product?.name || 'Unknown Product',
+      quantity: Number(item.quantity),
+      unit_price: Number(item.unit_price),
+      discount_amount: Number(item.discount_amount),
+      discount_note: formatDiscountedUnits(
+        item.discounted_units,
+        Number(item.unit_price)
+      ),
+      subtotal: Number(item.subtotal),
+    })),
+    promotions: (transaction.redemptions || []).map(redemption => ({
+      description:
+        redemption.explanation || redemption.promotion?.name || 'Promo',
+      discount_amount: Number(redemption.discount_amount),
+    })),
+    subtotal: Number(transaction.subtotal),
+    discount_amount: Number(transaction.discount_amount),
+    dpp_amount: Number(transaction.dpp_amount),
+    tax_label: `${formatTaxLabel(transaction.tax_rate)}${
+      transaction.prices_include_tax ? ' (termasuk)' : ''
+    }`,
+    tax_amount: Number(transaction.tax_amount),
+    total: Number(transaction.total),
+    payment_method: transaction.payment_method.toUpperCase(),
+    payments: transaction.payments.map(payment => ({
+      method: payment.payment_method,
+      amount: Number(payment.tendered_amount ?? payment.amount),
+    })),
+    change_amount: Number(transaction.change_amount) || 0,
+    has_cash_payment:
+      transaction.payment_method === 'cash' ||
+      transaction.payments.some(payment => payment.payment_method === 'cash'),
+    footer: branding.footer,
+  }
+}
+
+/**
+ * Which units of a line were discounted, e.g. "1 gratis, 2 x -Rp 5.000";
+ * null when the discount was spread evenly
+ */
+export function formatDiscountedUnits(
+  units: DiscountedUnits[] | null,
+  unitPrice: number
+): string | null {
+  if (!units || units.length === 0) return null
+
+  return units
+    .map(entry =>
+      entry.discount_amount >= unitPrice
+        ? `${entry.quantity} gratis`
+        : `${entry.quantity} x -${formatReceiptCurrency(entry.discount_amount)}`
+    )
+    .join(', ')
+}
+
+/**
+ * Format a Rupiah amount the way receipts print it
+ */
+export function formatReceiptCurrency(amount: number): string {
+  return `Rp ${amount.toLocaleString('id-ID')}`
+}
+
+/**
+ * Format a receipt date (dd/mm/yyyy hh:mm)
+ */
+export function formatReceiptDate(dateString: string): string {
+  return new Date(dateString).toLocaleString('id-ID', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
@@ -0,0 +1,304 @@
+/**
+ * Shift Reports
+ * Builds X-reports (mid-shift snapshots) from a shift's transactions, and lays
+ * them and issued Z-reports (end of shift) out in sections shared by the HTML
+ * and ESC/POS renderers. Z-report figures are worked out the same way by the
+ * issue_pos_z_report database function.
+ */
+
+import { formatReceiptCurrency as formatCurrency } from '@/lib/pos/receipt'
+import type {
+  PaymentMethod,
+  PosShift,
+  PosZReport,
+  ShiftReport,
+  ShiftReportAmount,
+  ShiftReportSection,
+  ShiftReportType,
+  ShiftSummary,
+} from '@/types/pos'
+
+// Products listed under "Top Products"
+const TOP_PRODUCT_COUNT = 10
+
+const PAYMENT_METHOD_LABELS: Record<Exclude<PaymentMethod, 'split'>, string> = {
+  cash: 'Cash',
+  card: 'Card',
+  transfer: 'Transfer',
+  'e-wallet': 'E-Wallet',
+  credit: 'Credit',
+}
+
+// Shift row with the relations printed on the report
+export interface ShiftReportShift extends PosShift {
+  cashier?: { name: string } | null
+  warehouse?: { name: string } | null
+  register?: { name: string } | null
+}
+
+// Transaction row with the item details the report breaks down
+export interface ShiftReportTransaction {
+  id: string
+  payment_status: string
+  total: number
+  dpp_amount: number
+  tax_amount: number
+  items: {
+    quantity: number
+    unit_price: number
+    discount_amount: number
+    subtotal: number
+    product: {
+      id: string
+      name: string
+      category?: { name: string } | null
+    } | null
+    promotion: { id: string; name: string } | null
+  }[]
+}
+
+export interface ShiftReportData {
+  shift: ShiftReportShift
+  summary: ShiftSummary
+  transactions: ShiftReportTransaction[]
+  payments: { transaction_id: string; payment_method: string; amount: number }[]
+  refund_count: number
+}
+
+// Accumulates counts and amounts per label, in first-seen order
+function tally() {
+  const totals = new Map<string, ShiftReportAmount>()
+  return {
+    add(label: string, count: number, amount: number) {
+      const entry = totals.get(label) || { label, count: 0, amount: 0 }
+      entry.count += count
+      entry.amount += amount
+      totals.set(label, entry)
+    },
+    values: () => Array.from(totals.values()),
+  }
+}
+
+/**
+ * Build a shift report. Sales count paid and later refunded transactions;
+ * refunds and cancelled (voided) transactions are reported separately.
+ */
+export function buildShiftReport(
+  report_type: ShiftReportType,
+  { shift, summary, transactions, payments, refund_count }: ShiftReportData
+): ShiftReport {
+  const sales = transactions.filter(t =>
+    ['paid', 'refunded'].includes(t.payment_status)
+  )
+  const voided = transactions.filter(t => t.payment_status === 'cancelled')
+  const saleIds = new Set(sales.map(t => t.id))
+
+  const byMethod = tally()
+  for (const payment of payments) {
+    if (!saleIds.has(payment.transaction_id)) continue
+    const method = payment.payment_method as keyof typeof PAYMENT_METHOD_LABELS
+    byMethod.add(
+      PAYMENT_METHOD_LABELS[method] || payment.payment_method,
+      1,
+      Number(payment.amount)
+    )
+  }
+
+  const byCategory = tally()
+  const byProduct = tally()
+  const byPromotion = tally()
+  let gross_sales = 0
+  let discount_amount = 0
+  let manual_discount_amount = 0
+
+  for (const item of sales.flatMap(t => t.items)) {
+    const quantity = Number(item.quantity)
+    const subtotal = Number(item.subtotal)
+    const discount = Number(item.discount_amount)
+
+    gross_sales += quantity * Number(item.unit_price)
+    discount_amount += discount
+    byCategory.add(
+      item.product?.category?.name || 'Uncategorized',
+      quantity,
+      subtotal
+    )
+    byProduct.add(item.product?.name || 'Unknown Product', quantity, subtotal)
+
+    if (discount > 0) {
+      if (item.promotion) {
+        byPromotion.add(item.promotion.name, 1, discount)
+      } else {
+        manual_discount_amount += discount
+      }
+    }
+  }
+
+  const sum = (values: number[]) => values.reduce((a, b) => a + b, 0)
+
+  return {
+    report_type,
+    report_number: null,
+    generated_at: new Date().toISOString(),
+    shift_id: shift.id,
+    cashier: shift.cashier?.name || 'Unknown',
+    warehouse: shift.warehouse?.name || null,
+    register: shift.register?.name || null,
+    opened_at: shift.opened_at,
+    closed_at: shift.closed_at,
+    total_transactions: sales.length,
+    gross_sales,
+    discount_amount,
+    net_sales: sum(sales.map(t => Number(t.total))),
+    dpp_amount: sum(sales.map(t => Number(t.dpp_amount))),
+    tax_amount: sum(sales.map(t => Number(t.tax_amount))),
+    payments: byMethod.values(),
+    categories: byCategory.values().sort((a, b) => b.amount - a.amount),
+    top_products: byProduct
+      .values()
+      .sort((a, b) => b.amount - a.amount)
+      .slice(0, TOP_PRODUCT_COUNT),
+    promotions: byPromotion.values().sort((a, b) => b.amount - a.amount),
+    manual_discount_amount,
+    refunds: {
+      label: 'Refunds',
+      count: refund_count,
+      amount: summary.total_refunds,
+    },
+    cash_refunds: summary.cash_refunds,
+    voids: {
+      label: 'Voids',
+      count: voided.length,
+      amount: sum(voided.map(t => Number(t.total))),
+    },
+    receivable_payments: summary.receivable_payments,
+    opening_cash: summary.opening_cash,
+    cash_sales: summary.cash_sales,
+    cash_receivable_payments: summary.cash_receivable_payments,
+    cash_pay_ins: summary.cash_pay_ins,
+    cash_pay_outs: summary.cash_pay_outs,
+    expected_cash: summary.expected_cash,
+    actual_cash: summary.actual_cash,
+    variance: summary.variance,
+  }
+}
+
+/**
+ * Read the report of an issued Z-report with its number filled in
+ */
+export function zReportToShiftReport(zReport: PosZReport): ShiftReport {
+  return { ...zReport.report, report_number: zReport.report_number }
+}
+
+/**
+ * Title printed at the top of a shift report
+ */
+export function shiftReportTitle(report: ShiftReport): string {
+  return report.report_type === 'Z'
+    ? `Z-REPORT ${report.report_number || ''}`.trim()
+    : 'X-REPORT'
+}
+
+/**
+ * Lay a shift report out in printed sections
+ */
+export function shiftReportSections(report: ShiftReport): ShiftReportSection[] {
+  const amountRows = (lines: ShiftReportAmount[], unit: string) =>
+    lines.map(line => ({
+      label: `${line.label} (${line.count}${unit})`,
+      value: formatCurrency(line.amount),
+    }))
+
+  const sections: ShiftReportSection[] = [
+    {
+      title: 'Sales',
+      rows: [
+        { label: 'Transactions', value: String(report.total_transactions) },
+        { label: 'Gross Sales', value: formatCurrency(report.gross_sales) },
+        {
+          label: 'Discounts',
+          value: `-${formatCurrency(report.discount_amount)}`,
+        },
+        {
+          label: 'Net Sales',
+          value: formatCurrency(report.net_sales),
+          emphasis: true,
+        },
+        { label: 'DPP', value: formatCurrency(report.dpp_amount) },
+        { label: 'Tax Collected', value: formatCurrency(report.tax_amount) },
+        {
+          label: 'Receivable Payments',
+          value: formatCurrency(report.receivable_payments),
+        },
+      ],
+    },
+    {
+      title: 'Payment Methods',
+      rows: amountRows(report.payments, 'x'),
+    },
+    {
+      title: 'Categories',
+      rows: amountRows(report.categories, ' pcs'),
+    },
+    {
+      title: 'Top Products',
+      rows: amountRows(report.top_products, ' pcs'),
+    },
+    {
+      title: 'Discounts & Promotions',
+      rows: [
+        ...amountRows(report.promotions, 'x'),
+        {
+          label: 'Manual discounts',
+          value: formatCurrency(report.manual_discount_amount),
+        },
+      ],
+    },
+    {
+      title: 'Refunds & Voids',
+      rows: amountRows([report.refunds, report.voids], 'x'),
+    },
+    {
+      title: 'Cash Drawer',
+      rows: [
+        { label: 'Opening Cash', value: formatCurrency(report.opening_cash) },
+        { label: 'Cash Sales', value: formatCurrency(report.cash_sales) },
+        {
+          label: 'Cash Collections',
+          value: formatCurrency(report.cash_receivable_payments),
+        },
+        {
+          label: 'Cash Refunds',
+          value: `-${formatCurrency(report.cash_refunds)}`,
+        },
+        { label: 'Pay-Ins', value: formatCurrency(report.cash_pay_ins) },
+        {
+          label: 'Pay-Outs',
+          value: `-${formatCurrency(report.cash_pay_outs)}`,
+        },
+        {
+          label: 'Expected Cash',
+          value: formatCurrency(report.expected_cash),
+          emphasis: true,
+        },
+        ...(report.actual_cash !== null
+          ? [
+              {
+                label: 'Actual Cash',
+                value: formatCurrency(report.actual_cash),
+              },
+              {
+                label: 'Variance',
+                value: `${(report.variance || 0) >= 0 ? '+' : '-'}${formatCurrency(
+                  Math.abs(report.variance || 0)
+                )}`,
+                emphasis: true,
+              },
+            ]
+          : []),
+      ],
+    },
+  ]
+
+  return sections.filter(section => section.rows.length > 0)
+}
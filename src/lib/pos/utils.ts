@@ -0,0 +1,221 @@
+/**
+ * POS Utilities
+ * Pure helpers shared by the POS screen and the POS API
+ */
+
+import { resolveCartPromotions } from '@/lib/promotions/utils'
+import type { Product } from '@/types/inventory'
+import type {
+  PromotionCalculation,
+  PromotionContext,
+  PromotionWithTargets,
+} from '@/types/promotions'
+import type {
+  CartItem,
+  CashMovementReason,
+  CreatePaymentInput,
+  DenominationCounts,
+  PaymentMethod,
+  PaymentSettlement,
+  PosApprovalAction,
+  PosSettings,
+  PosTransactionItem,
+} from '@/types/pos'
+
+// Rupiah notes and coins in circulation, largest first
+export const RUPIAH_DENOMINATIONS = [
+  100000, 50000, 20000, 10000, 5000, 2000, 1000, 500, 200, 100,
+]
+
+export const CASH_MOVEMENT_REASONS: {
+  value: CashMovementReason
+  label: string
+}[] = [
+  { value: 'petty_cash', label: 'Petty cash' },
+  { value: 'change_top_up', label: 'Change top-up' },
+  { value: 'safe_drop', label: 'Safe drop' },
+  { value: 'other', label: 'Other' },
+]
+
+export const APPROVAL_ACTION_LABELS: Record<PosApprovalAction, string> = {
+  discount: 'Discount',
+  price_override: 'Price override',
+  void: 'Void',
+  refund: 'Refund',
+  promotion_limit: 'Promotion over limit',
+  cash_movement: 'Cash movement',
+  stock_override: 'Offline sale without stock',
+}
+
+/**
+ * Settle tendered payment lines against a total. Mirrors the checks in
+ * create_pos_transaction: lines must cover the total, non-cash lines may not
+ * exceed it, and any excess is handed back from the cash lines as change.
+ */
+export function settlePayments(
+  total: number,
+  payments: CreatePaymentInput[]
+): PaymentSettlement {
+  const amount_tendered = payments.reduce(
+    (sum, payment) => sum + payment.amount,
+    0
+  )
+  const nonCash = payments
+    .filter(payment => payment.payment_method !== 'cash')
+    .reduce((sum, payment) => sum + payment.amount, 0)
+  const change_amount = Math.max(amount_tendered - total, 0)
+
+  let error: string | null = null
+  if (payments.length === 0) {
+    error = 'Add at least one payment'
+  } else if (
+    payments.some(
+      payment => payment.payment_method === 'split' || !(payment.amount > 0)
+    )
+  ) {
+    error = 'Each payment needs a method and a positive amount'
+  } else if (amount_tendered < total) {
+    error = 'Payments do not cover the total'
+  } else if (nonCash > total) {
+    error = 'Only cash can be paid above the total'
+  }
+
+  // Change comes out of the cash lines in order
+  let changeLeft = change_amount
+  const lines = payments.map(payment => {
+    const lineChange =
+      payment.payment_method === 'cash'
+        ? Math.min(payment.amount, changeLeft)
+        : 0
+    changeLeft -= lineChange
+    return {
+      ...payment,
+      applied_amount: payment.amount - lineChange,
+      change_amount: lineChange,
+    }
+  })
+
+  const methods = new Set(payments.map(payment => payment.payment_method))
+  const payment_method: PaymentMethod =
+    methods.size > 1 ? 'split' : payments[0]?.payment_method || 'cash'
+
+  return {
+    payment_method,
+    lines,
+    amount_tendered,
+    change_amount,
+    remaining_amount: Math.max(total - amount_tendered, 0),
+    error,
+  }
+}
+
+/**
+ * Total cash value of a denomination count
+ */
+export function sumDenominations(counts: DenominationCounts): number {
+  return Object.entries(counts).reduce(
+    (sum, [denomination, count]) => sum + Number(denomination) * (count || 0),
+    0
+  )
+}
+
+/**
+ * Whether a line discount exceeds what the cashier may give without a
+ * supervisor
+ */
+export function discountNeedsApproval(
+  settings: Pick<PosSettings, 'approval_discount_percent'> | null,
+  line_subtotal: number,
+  discount_amount: number
+): boolean {
+  if (!settings || line_subtotal <= 0) return false
+  const percentage = (discount_amount / line_subtotal) * 100
+  return percentage > Number(settings.approval_discount_percent)
+}
+
+/**
+ * What was paid for the first `units` units of a sale line, taking the most
+ * discounted units first. Mirrors pos_item_paid_value, which create_pos_return
+ * refunds by.
+ */
+export function getItemPaidValue(
+  item: Pick<
+    PosTransactionItem,
+    'quantity' | 'unit_price' | 'subtotal' | 'discounted_units'
+  >,
+  units: number
+): number {
+  const quantity = Number(item.quantity)
+  let left = Math.min(units, quantity)
+  if (left >= quantity) return Number(item.subtotal)
+
+  if (!item.discounted_units || item.discounted_units.length === 0) {
+    return (Number(item.subtotal) / quantity) * left
+  }
+
+  let value = 0
+  for (const entry of [...item.discounted_units].sort(
+    (a, b) => b.discount_amount - a.discount_amount
+  )) {
+    if (left <= 0) break
+    const take = Math.min(left, entry.quantity)
+    value += take * (Number(item.unit_price) - entry.discount_amount)
+    left -= take
+  }
+
+  // Units without a discount were paid in full
+  return value + left * Number(item.unit_price)
+}
+
+/**
+ * Cart with the active promotions applied to every line the cashier has not
+ * discounted by hand, and the explanation of what was applied or rejected.
+ * Recomputed on each change so minimum purchases, caps and stacking follow
+ * the whole cart. A line keeps the first promotion it got as its promotion_id.
+ */
+export function applyCartPromotions(
+  items: CartItem[],
+  promotions: PromotionWithTargets[],
+  products: Pick<Product, 'id' | 'category_id'>[],
+  context: PromotionContext = {}
+): { items: CartItem[]; calculations: PromotionCalculation[] } {
+  const categories = new Map(
+    products.map(product => [product.id, product.category_id])
+  )
+  const resolved = resolveCartPromotions(
+    items.map(item => ({
+      product_id: item.product_id,
+      category_id: categories.get(item.product_id),
+      quantity: item.quantity,
+      unit_price: item.unit_price,
+      manual: item.manual_discount,
+    })),
+    promotions,
+    context
+  )
+
+  return {
+    items: items.map((item, index) => {
+      if (item.manual_discount) {
+        return {
+          ...item,
+          promotion_id: null,
+          promotion_name: null,
+          discounted_units: null,
+          redemptions: [],
+        }
+      }
+      const line = resolved.lines[index]
+      return {
+        ...item,
+        discount_amount: line.discount_amount,
+        discounted_units: line.discounted_units,
+        redemptions: line.redemptions,
+        promotion_id: line.promotions[0]?.id || null,
+        promotion_name:
+          line.promotions.map(promotion => promotion.name).join(' + ') || null,
+      }
+    }),
+    calculations: resolved.calculations,
+  }
+}
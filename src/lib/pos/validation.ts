@@ -0,0 +1,73 @@
+import { z } from 'zod'
+import { isValidQrisPayload } from '@/lib/pos/qris'
+
+/**
+ * POS approval policy form validation schema
+ */
+export const approvalPolicyFormSchema = z.object({
+  approval_discount_percent: z
+    .number()
+    .min(0, 'Percentage must be between 0 and 100')
+    .max(100, 'Percentage must be between 0 and 100'),
+  approval_price_override: z.boolean(),
+  approval_void: z.boolean(),
+  approval_refund: z.boolean(),
+})
+
+export type ApprovalPolicyFormData = z.infer<typeof approvalPolicyFormSchema>
+
+/**
+ * Supervisor PIN form validation schema
+ */
+export const supervisorPinFormSchema = z
+  .object({
+    pin: z.string().regex(/^[0-9]{4,6}$/, 'PIN must be 4 to 6 digits'),
+    confirm_pin: z.string(),
+  })
+  .refine(data => data.pin === data.confirm_pin, {
+    message: 'PINs do not match',
+    path: ['confirm_pin'],
+  })
+
+export type SupervisorPinFormData = z.infer<typeof supervisorPinFormSchema>
+
+/**
+ * POS register form validation schema
+ */
+export const registerFormSchema = z.object({
+  name: z.string().min(1, 'Register name is required'),
+  code: z
+    .string()
+    .min(1, 'Register code is required')
+    .max(20, 'Register code must be 20 characters or less'),
+  warehouse_id: z.string().min(1, 'Warehouse is required'),
+  receipt_header: z.string().optional(),
+  receipt_footer: z.string().optional(),
+  transport: z.enum(['html', 'usb', 'serial', 'bridge']),
+  paper_width: z.union([z.literal(58), z.literal(80)]),
+  code_page: z.enum(['cp437', 'cp858', 'cp1252']),
+  open_drawer: z.boolean(),
+  is_active: z.boolean(),
+})
+
+export type RegisterFormData = z.infer<typeof registerFormSchema>
+
+/**
+ * QRIS settings form validation schema
+ */
+export const qrisSettingsFormSchema = z.object({
+  qris_payload: z
+    .string()
+    .refine(
+      value => !value.trim() || isValidQrisPayload(value),
+      'Not a valid QRIS code; paste the text read from your QRIS sticker'
+    ),
+  payment_gateway: z.enum(['none', 'mock']),
+  qris_expiry_minutes: z
+    .number()
+    .int('Expiry must be whole minutes')
+    .min(1, 'Expiry must be between 1 and 60 minutes')
+    .max(60, 'Expiry must be between 1 and 60 minutes'),
+})
+
+export type QrisSettingsFormData = z.infer<typeof qrisSettingsFormSchema>
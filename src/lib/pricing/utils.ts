@@ -0,0 +1,137 @@
+/**
+ * Pricing Utilities
+ * Pure line and document total calculation. The browser uses it to preview
+ * totals; the server uses it to recompute and verify what was submitted.
+ */
+
+import { calculateLinePromotionDiscounts } from '@/lib/promotions/utils'
+import { calculateTax } from '@/lib/tax/utils'
+import type {
+  PricedLine,
+  PricingLineInput,
+  PricingMismatch,
+  PricingOptions,
+  PricingResult,
+} from '@/types/pricing'
+
+// Rounding differences below this amount (Rupiah) are not mismatches
+export const PRICING_TOLERANCE = 1
+
+/**
+ * Price every line, spread the document discount over the lines and apply PPN
+ */
+export function calculatePricing(
+  lines: PricingLineInput[],
+  options: PricingOptions
+): PricingResult {
+  // Promotions see the whole document for minimum purchases and caps
+  const promotionDiscounts = calculateLinePromotionDiscounts(
+    lines.map(line => ({
+      promotion: line.promotion,
+      product_id: line.product_id,
+      category_id: line.category_id,
+      quantity: line.quantity,
+      gross_amount: line.quantity * line.unit_price,
+    })),
+    {
+      time_zone: options.time_zone,
+      customer_segment: options.customer_segment,
+    }
+  )
+
+  const pricedLines = lines.map((line, index) => {
+    const gross_amount = line.quantity * line.unit_price
+
+    let discount_amount = Math.min(
+      Math.max(line.discount_amount || 0, 0),
+      gross_amount
+    )
+    let promotion_id: string | null = null
+    let discounted_units = line.discounted_units || null
+
+    if (line.promotion) {
+      promotion_id = line.promotion.id
+      discount_amount = promotionDiscounts[index].discount_amount
+      discounted_units = promotionDiscounts[index].discounted_units
+    }
+
+    return {
+      product_id: line.product_id,
+      quantity: line.quantity,
+      unit_price: line.unit_price,
+      gross_amount,
+      discount_amount,
+      promotion_id,
+      discounted_units,
+      subtotal: gross_amount - discount_amount,
+    }
+  })
+
+  const gross_amount = sum(pricedLines.map(line => line.gross_amount))
+  const line_discount_amount = sum(
+    pricedLines.map(line => line.discount_amount)
+  )
+  const subtotal = sum(pricedLines.map(line => line.subtotal))
+  const order_discount_amount = Math.min(
+    Math.max(options.order_discount_amount || 0, 0),
+    subtotal
+  )
+  const shipping_amount = options.shipping_amount || 0
+
+  // DPP reflects what the customer pays, so the document discount is spread
+  // over the lines before tax
+  const discountFactor =
+    subtotal > 0 ? (subtotal - order_discount_amount) / subtotal : 1
+  const tax = calculateTax(
+    pricedLines.map((line, index) => ({
+      amount: line.subtotal * discountFactor,
+      tax_category: lines[index].tax_category,
+    })),
+    options.tax_settings,
+    { customer_tax_exempt: options.customer_tax_exempt }
+  )
+
+  const resultLines: PricedLine[] = pricedLines.map((line, index) => ({
+    ...line,
+    dpp_amount: tax.lines[index].dpp_amount,
+    tax_amount: tax.lines[index].tax_amount,
+  }))
+
+  return {
+    lines: resultLines,
+    gross_amount,
+    line_discount_amount,
+    subtotal,
+    order_discount_amount,
+    tax_rate: tax.tax_rate,
+    prices_include_tax: tax.prices_include_tax,
+    dpp_amount: tax.dpp_amount,
+    tax_amount: tax.tax_amount,
+    shipping_amount,
+    grand_total: tax.total + shipping_amount,
+  }
+}
+
+/**
+ * Compare submitted amounts with the computed ones
+ */
+export function findPricingMismatches(
+  submitted: Record<string, number | undefined>,
+  expected: Record<string, number>
+): PricingMismatch[] {
+  return Object.entries(submitted)
+    .filter(([, value]) => value !== undefined)
+    .filter(
+      ([field, value]) =>
+        Math.abs(Number(value) - expected[field]) > PRICING_TOLERANCE
+    )
+    .map(([field, value]) => ({
+      field,
+      submitted: Number(value),
+      expected: expected[field],
+    }))
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0)
+}
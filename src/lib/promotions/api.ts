@@ -10,7 +10,14 @@ import type {
   CreatePromotionInput,
   UpdatePromotionInput,
   PromotionFilters,
-  PromotionCalculation,
+  PromotionRedemptionWithRelations,
+  PromotionStatusLogWithUser,
+  PromotionUsage,
+  PromotionWithTargets,
+  PromotionVoucher,
+  PromotionVoucherBatch,
+  PromotionVoucherBatchWithCounts,
+  CreateVoucherBatchInput,
 } from '@/types/promotions'
 
 const supabase = createClientSupabase()
@@ -330,80 +337,6 @@ export async function deletePromotion(id: string): Promise<void> {
   }
 }
 
-/**
- * Calculate promotion discount for a given amount
- */
-export function calculatePromotionDiscount(
-  promotion: Promotion,
-  amount: number,
-  quantity: number = 1
-): PromotionCalculation {
-  let discount_amount = 0
-  let is_applicable = true
-  let reason: string | undefined
-
-  // Check if promotion is active
-  if (promotion.status !== 'active' || !promotion.is_active) {
-    is_applicable = false
-    reason = 'Promotion is not active'
-  }
-
-  // Check minimum purchase amount
-  if (is_applicable && amount < promotion.min_purchase_amount) {
-    is_applicable = false
-    reason = `Minimum purchase amount is ${promotion.min_purchase_amount}`
-  }
-
-  // Calculate discount based on type
-  if (is_applicable) {
-    switch (promotion.type) {
-      case 'percentage':
-        discount_amount = (amount * (promotion.discount_value || 0)) / 100
-        // Apply max discount cap if set
-        if (
-          promotion.max_discount_amount &&
-          discount_amount > promotion.max_discount_amount
-        ) {
-          discount_amount = promotion.max_discount_amount
-        }
-        break
-
-      case 'fixed':
-        discount_amount = promotion.discount_value || 0
-        break
-
-      case 'buy_x_get_y':
-        // For buy X get Y, calculate based on quantity
-        if (
-          promotion.buy_quantity &&
-          promotion.get_quantity &&
-          quantity >= promotion.buy_quantity
-        ) {
-          const sets = Math.floor(quantity / promotion.buy_quantity)
-          const free_items = sets * promotion.get_quantity
-          const price_per_item = amount / quantity
-          discount_amount = free_items * price_per_item
-        } else {
-          is_applicable = false
-          reason = `Buy at least ${promotion.buy_quantity} items to get discount`
-        }
-        break
-    }
-  }
-
-  const final_price = Math.max(0, amount - discount_amount)
-
-  return {
-    promotion_id: promotion.id,
-    promotion_name: promotion.name,
-    promotion_type: promotion.type,
-    discount_amount,
-    final_price,
-    is_applicable,
-    reason,
-  }
-}
-
 /**
  * Get active promotions for a product
  */
@@ -477,3 +410,278 @@ export async function getActivePromotionsForProduct(
 
   return uniquePromotions as Promotion[]
 }
+
+/**
+ * Get active promotions with the products and categories they target, for
+ * applying them to a cart. Validity dates are checked when applying.
+ */
+export async function getActivePromotionsWithTargets(): Promise<
+  PromotionWithTargets[]
+> {
+  const company_id = await getCurrentCompanyId()
+
+  const { data, error } = await supabase
+    .from('promotions')
+    .select(
+      `
+      *,
+      promotion_products(product_id),
+      promotion_categories(category_id)
+    `
+    )
+    .eq('company_id', company_id)
+    .eq('status', 'active')
+    .eq('is_active', true)
+    .overrideTypes<
+      (Promotion & {
+        promotion_products: { product_id: string }[] | null
+        promotion_categories: { category_id: string }[] | null
+      })[],
+      { merge: false }
+    >()
+
+  if (error) {
+    console.error('Error fetching active promotions:', error)
+    throw new Error(`Failed to fetch active promotions: ${error.message}`)
+  }
+
+  return (data || []).map(
+    ({ promotion_products, promotion_categories, ...promotion }) => ({
+      ...promotion,
+      products: (promotion_products || []).map(link => ({
+        id: link.product_id,
+      })),
+      categories: (promotion_categories || []).map(link => ({
+        id: link.category_id,
+      })),
+    })
+  )
+}
+
+/**
+ * Find an active promotion by its coupon code, with its targets
+ */
+export async function getPromotionByCode(
+  code: string
+): Promise<PromotionWithTargets | null> {
+  const promotions = await getActivePromotionsWithTargets()
+  const normalized = code.trim().toUpperCase()
+
+  return (
+    promotions.find(promotion => promotion.code.toUpperCase() === normalized) ||
+    null
+  )
+}
+
+/**
+ * Count the redemptions of promotions with usage limits, in total and by a
+ * customer
+ */
+export async function getPromotionUsage(
+  promotionIds: string[],
+  customer_id?: string | null
+): Promise<Record<string, PromotionUsage>> {
+  if (promotionIds.length === 0) return {}
+
+  const { data, error } = await supabase
+    .from('promotion_redemptions')
+    .select('promotion_id, customer_id')
+    .in('promotion_id', promotionIds)
+    .eq('status', 'applied')
+    .overrideTypes<
+      { promotion_id: string; customer_id: string | null }[],
+      { merge: false }
+    >()
+
+  if (error) {
+    console.error('Error fetching promotion usage:', error)
+    throw new Error(`Failed to fetch promotion usage: ${error.message}`)
+  }
+
+  const usage: Record<string, PromotionUsage> = {}
+  for (const row of data || []) {
+    const entry = usage[row.promotion_id] || { total: 0, customer: 0 }
+    entry.total += 1
+    if (customer_id && row.customer_id === customer_id) entry.customer += 1
+    usage[row.promotion_id] = entry
+  }
+  return usage
+}
+
+/**
+ * Get the redemption ledger of a promotion, newest first
+ */
+export async function getPromotionRedemptions(
+  promotion_id: string
+): Promise<PromotionRedemptionWithRelations[]> {
+  const { data, error } = await supabase
+    .from('promotion_redemptions')
+    .select(
+      `
+      *,
+      customer:customers(id, name),
+      transaction:pos_transactions(id, transaction_number),
+      order:sales_orders(id, order_number)
+    `
+    )
+    .eq('promotion_id', promotion_id)
+    .order('redeemed_at', { ascending: false })
+    .overrideTypes<PromotionRedemptionWithRelations[], { merge: false }>()
+
+  if (error) {
+    console.error('Error fetching promotion redemptions:', error)
+    throw new Error(`Failed to fetch promotion redemptions: ${error.message}`)
+  }
+
+  return data || []
+}
+
+/**
+ * Get the status changes of a promotion, oldest first
+ */
+export async function getPromotionStatusLogs(
+  promotion_id: string
+): Promise<PromotionStatusLogWithUser[]> {
+  const { data, error } = await supabase
+    .from('promotion_status_logs')
+    .select('*, user:users(id, name)')
+    .eq('promotion_id', promotion_id)
+    .order('changed_at', { ascending: true })
+    .overrideTypes<PromotionStatusLogWithUser[], { merge: false }>()
+
+  if (error) {
+    console.error('Error fetching promotion status logs:', error)
+    throw new Error(`Failed to fetch promotion status logs: ${error.message}`)
+  }
+
+  return data || []
+}
+
+// Rows Supabase returns per request at most
+const VOUCHER_PAGE_SIZE = 1000
+
+/**
+ * Generate a batch of single-use voucher codes for a promotion. From then on
+ * the promotion is only redeemed with one of its vouchers.
+ */
+export async function generateVoucherBatch(
+  input: CreateVoucherBatchInput
+): Promise<PromotionVoucherBatch> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data, error } = await (supabase as any).rpc(
+    'generate_promotion_vouchers',
+    {
+      p_promotion_id: input.promotion_id,
+      p_quantity: input.quantity,
+      p_prefix: input.prefix || null,
+      p_expires_at: input.expires_at || null,
+      p_name: input.name || null,
+    }
+  )
+
+  if (error) {
+    console.error('Error generating vouchers:', error)
+    throw new Error(`Failed to generate vouchers: ${error.message}`)
+  }
+
+  return data as PromotionVoucherBatch
+}
+
+/**
+ * Get the voucher batches of a promotion, newest first, with how many of
+ * their codes are issued, redeemed or expired
+ */
+export async function getVoucherBatches(
+  promotion_id: string
+): Promise<PromotionVoucherBatchWithCounts[]> {
+  const { data, error } = await supabase
+    .from('promotion_voucher_batches')
+    .select('*')
+    .eq('promotion_id', promotion_id)
+    .order('created_at', { ascending: false })
+    .overrideTypes<PromotionVoucherBatch[], { merge: false }>()
+
+  if (error) {
+    console.error('Error fetching voucher batches:', error)
+    throw new Error(`Failed to fetch voucher batches: ${error.message}`)
+  }
+
+  const now = new Date().toISOString()
+
+  return Promise.all(
+    (data || []).map(async batch => {
+      const [redeemed, expired] = await Promise.all([
+        supabase
+          .from('promotion_vouchers')
+          .select('id', { count: 'exact', head: true })
+          .eq('batch_id', batch.id)
+          .eq('status', 'redeemed'),
+        supabase
+          .from('promotion_vouchers')
+          .select('id', { count: 'exact', head: true })
+          .eq('batch_id', batch.id)
+          .or(`status.eq.expired,and(status.eq.issued,expires_at.lte.${now})`),
+      ])
+      if (redeemed.error) throw redeemed.error
+      if (expired.error) throw expired.error
+
+      const counts = {
+        redeemed: redeemed.count || 0,
+        expired: expired.count || 0,
+        issued: 0,
+      }
+      counts.issued = batch.quantity - counts.redeemed - counts.expired
+      return { ...batch, counts }
+    })
+  )
+}
+
+/**
+ * Get every code of a voucher batch, for export
+ */
+export async function getBatchVouchers(
+  batch_id: string
+): Promise<PromotionVoucher[]> {
+  const vouchers: PromotionVoucher[] = []
+
+  for (let from = 0; ; from += VOUCHER_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('promotion_vouchers')
+      .select('*')
+      .eq('batch_id', batch_id)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + VOUCHER_PAGE_SIZE - 1)
+      .overrideTypes<PromotionVoucher[], { merge: false }>()
+
+    if (error) {
+      console.error('Error fetching vouchers:', error)
+      throw new Error(`Failed to fetch vouchers: ${error.message}`)
+    }
+
+    const page = data || []
+    vouchers.push(...page)
+    if (page.length < VOUCHER_PAGE_SIZE) return vouchers
+  }
+}
+
+/**
+ * Find a voucher by its code
+ */
+export async function getVoucherByCode(
+  code: string
+): Promise<PromotionVoucher | null> {
+  const { data, error } = await supabase
+    .from('promotion_vouchers')
+    .select('*')
+    .eq('code', code.trim().toUpperCase())
+    .maybeSingle()
+    .overrideTypes<PromotionVoucher, { merge: false }>()
+
+  if (error) {
+    console.error('Error fetching voucher:', error)
+    throw new Error(`Failed to fetch voucher: ${error.message}`)
+  }
+
+  return data
+}
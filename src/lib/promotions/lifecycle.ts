@@ -0,0 +1,32 @@
+/**
+ * Promotion Lifecycle (server-side)
+ * Runs sync_promotion_statuses, which moves promotions between scheduled,
+ * active and expired as their dates come and go in each company's time zone.
+ * Invoked on a cron through /api/promotions/lifecycle.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/database'
+import type { PromotionStatusSync } from '@/types/promotions'
+
+/**
+ * Bring promotion statuses up to date for one company, or for all of them
+ * when no company is given
+ */
+export async function syncPromotionStatuses(
+  supabase: SupabaseClient<Database>,
+  companyId: string | null = null
+): Promise<PromotionStatusSync> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data, error } = await (supabase as any).rpc(
+    'sync_promotion_statuses',
+    { p_company_id: companyId }
+  )
+
+  if (error) {
+    console.error('Error syncing promotion statuses:', error)
+    throw new Error(`Failed to sync promotion statuses: ${error.message}`)
+  }
+
+  return data as PromotionStatusSync
+}
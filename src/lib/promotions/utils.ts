@@ -7,18 +7,143 @@
  * - Reusability: Can be used in POS, Sales, and other modules
  */
 
-import type { Promotion } from '@/types/promotions'
+import type {
+  CartPromotionResult,
+  DiscountedUnits,
+  LinePromotion,
+  Promotion,
+  PromotionCalculation,
+  PromotionContext,
+  PromotionItem,
+  PromotionLineInput,
+  PromotionScope,
+  PromotionTier,
+  PromotionUsage,
+  PromotionVoucher,
+  PromotionWithTargets,
+  RedemptionInput,
+  VoucherStatus,
+} from '@/types/promotions'
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+// When a sale happens, for promotion periods and windows
+interface PromotionMoment {
+  now?: Date
+  time_zone?: string | null // Device time zone when not given
+}
+
+/**
+ * Calendar date (YYYY-MM-DD), weekday (0 = Sunday) and minutes since
+ * midnight of a moment in a time zone
+ */
+function getLocalTime(now: Date, timeZone?: string | null) {
+  if (!timeZone) {
+    const pad = (value: number) => String(value).padStart(2, '0')
+    return {
+      date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+      day: now.getDay(),
+      minutes: now.getHours() * 60 + now.getMinutes(),
+    }
+  }
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now)
+  const part = (type: string) =>
+    parts.find(item => item.type === type)?.value || ''
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    day: WEEKDAYS.indexOf(part('weekday')),
+    minutes: Number(part('hour')) * 60 + Number(part('minute')),
+  }
+}
 
 /**
- * Validate if a promotion is currently valid and applicable
+ * Today's calendar date (YYYY-MM-DD) at a moment, in the company's time
+ * zone, to compare with promotion start and end dates
  */
-export function isPromotionValid(promotion: Promotion): {
+export function getPromotionDate(moment: PromotionMoment = {}): string {
+  return getLocalTime(moment.now || new Date(), moment.time_zone).date
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + (minutes || 0)
+}
+
+/**
+ * Whether a moment falls on one of a promotion's days and within its hours.
+ * Hours that end before they start run overnight.
+ */
+export function isWithinPromotionWindow(
+  promotion: Pick<Promotion, 'active_days' | 'active_from' | 'active_until'>,
+  moment: PromotionMoment = {}
+): boolean {
+  const local = getLocalTime(moment.now || new Date(), moment.time_zone)
+
+  if (
+    promotion.active_days &&
+    promotion.active_days.length > 0 &&
+    !promotion.active_days.includes(local.day)
+  ) {
+    return false
+  }
+
+  if (promotion.active_from && promotion.active_until) {
+    const from = toMinutes(promotion.active_from)
+    const until = toMinutes(promotion.active_until)
+    return from <= until
+      ? local.minutes >= from && local.minutes < until
+      : local.minutes >= from || local.minutes < until
+  }
+
+  return true
+}
+
+/**
+ * Days and hours a promotion runs, e.g. "Mon, Fri 15:00-17:00", or null when
+ * it runs all the time
+ */
+export function formatPromotionWindow(
+  promotion: Pick<Promotion, 'active_days' | 'active_from' | 'active_until'>
+): string | null {
+  const days =
+    promotion.active_days && promotion.active_days.length > 0
+      ? [...promotion.active_days]
+          .sort((a, b) => a - b)
+          .map(day => WEEKDAYS[day])
+          .join(', ')
+      : ''
+  const hours =
+    promotion.active_from && promotion.active_until
+      ? `${promotion.active_from.slice(0, 5)}-${promotion.active_until.slice(0, 5)}`
+      : ''
+
+  return [days, hours].filter(Boolean).join(' ') || null
+}
+
+/**
+ * Validate if a promotion is currently valid and applicable. Its start and
+ * end dates both count and are calendar days in the company's time zone, as
+ * in sync_promotion_statuses.
+ */
+export function isPromotionValid(
+  promotion: Promotion,
+  moment: PromotionMoment = {}
+): {
   valid: boolean
   reason?: string
 } {
-  const now = new Date()
-  const startDate = new Date(promotion.start_date)
-  const endDate = new Date(promotion.end_date)
+  const now = moment.now || new Date()
+  const today = getPromotionDate({ ...moment, now })
 
   // Check if promotion is active
   if (!promotion.is_active) {
@@ -35,91 +160,320 @@ export function isPromotionValid(promotion: Promotion): {
   }
 
   // Check date range
-  if (now < startDate) {
+  if (today < promotion.start_date.slice(0, 10)) {
     return { valid: false, reason: 'Promotion has not started yet' }
   }
 
-  if (now > endDate) {
+  if (today > promotion.end_date.slice(0, 10)) {
     return { valid: false, reason: 'Promotion has expired' }
   }
 
+  if (!isWithinPromotionWindow(promotion, { ...moment, now })) {
+    return {
+      valid: false,
+      reason: `Only valid ${formatPromotionWindow(promotion)}`,
+    }
+  }
+
   return { valid: true }
 }
 
 /**
- * Calculate discount amount for a given order total
+ * Split a discount over lines in proportion to their weights, in whole
+ * Rupiah, with the rounding left on the last line that has weight
+ */
+function spreadDiscount(total: number, weights: number[]): number[] {
+  const base = weights.reduce((sum, weight) => sum + weight, 0)
+  if (base <= 0) return weights.map(() => 0)
+
+  const last = weights.map(weight => weight > 0).lastIndexOf(true)
+  let left = Math.round(total)
+  return weights.map((weight, index) => {
+    if (weight <= 0) return 0
+    const share =
+      index === last ? left : Math.round((Math.round(total) * weight) / base)
+    left -= share
+    return share
+  })
+}
+
+/**
+ * Split a line's discount over its units in proportion to their weights, to
+ * the sen
+ */
+function splitOverUnits(total: number, weights: number[]): number[] {
+  const base = weights.reduce((sum, weight) => sum + weight, 0)
+  return weights.map(weight =>
+    base > 0 ? Math.round(((total * weight) / base) * 100) / 100 : 0
+  )
+}
+
+// A whole unit of a line: the line, its place on the line and what is left
+// of its price
+interface PromotionUnit {
+  index: number
+  unit: number
+  price: number
+}
+
+/**
+ * What is left of each whole unit of a line. Lines sold in part quantities
+ * have none and are only discounted by amount.
+ */
+function getUnitAmounts(item: PromotionItem): number[] {
+  if (item.unit_amounts) return item.unit_amounts
+  return Number.isInteger(item.quantity) && item.quantity > 0
+    ? Array.from(
+        { length: item.quantity },
+        () => Math.max(item.amount, 0) / item.quantity
+      )
+    : []
+}
+
+/**
+ * Every whole unit of the lines, dearest first
+ */
+function expandUnits(unitAmounts: number[][]): PromotionUnit[] {
+  return unitAmounts
+    .flatMap((prices, index) =>
+      prices.map((price, unit) => ({ index, unit, price }))
+    )
+    .sort((a, b) => b.price - a.price)
+}
+
+/**
+ * The cheapest units, `get` of them for every full set of `size` units
+ */
+function getCheapestUnits(
+  units: PromotionUnit[],
+  size: number,
+  get: number
+): PromotionUnit[] {
+  const count = Math.min(Math.floor(units.length / size) * get, units.length)
+  return count > 0 ? units.slice(units.length - count) : []
+}
+
+/**
+ * Highest spend tier a tiered promotion reaches for an amount
+ */
+function getPromotionTier(
+  promotion: Promotion,
+  amount: number
+): PromotionTier | null {
+  return (promotion.tiers || [])
+    .filter(tier => amount >= Number(tier.min_amount))
+    .reduce<PromotionTier | null>(
+      (best, tier) =>
+        !best || Number(tier.min_amount) > Number(best.min_amount)
+          ? tier
+          : best,
+      null
+    )
+}
+
+/**
+ * Calculate what a promotion takes off a set of lines, in total, per line
+ * and per whole unit. Each item is what is left of a line's amount and how
+ * many units that covers. The minimum purchase is checked against
+ * `purchaseTotal`, the whole cart, and the maximum discount caps the set.
  */
 export function calculatePromotionDiscount(
   promotion: Promotion,
-  orderTotal: number,
-  quantity: number = 1
+  items: PromotionItem[],
+  purchaseTotal: number = items.reduce((sum, item) => sum + item.amount, 0)
 ): {
   discountAmount: number
+  lineDiscounts: number[]
+  unitDiscounts: number[][] // Per line, for each whole unit
   appliedPromotion: string
   details: string
 } {
+  const unitAmounts = items.map(getUnitAmounts)
+
   // Check minimum purchase requirement
   if (
     promotion.min_purchase_amount &&
-    orderTotal < promotion.min_purchase_amount
+    purchaseTotal < promotion.min_purchase_amount
   ) {
     return {
       discountAmount: 0,
+      lineDiscounts: items.map(() => 0),
+      unitDiscounts: unitAmounts.map(units => units.map(() => 0)),
       appliedPromotion: '',
       details: `Minimum purchase of Rp ${promotion.min_purchase_amount.toLocaleString()} required`,
     }
   }
 
-  let discountAmount = 0
+  const amounts = items.map(item => Math.max(item.amount, 0))
+  const base = amounts.reduce((sum, amount) => sum + amount, 0)
+  // Unrounded discount of each line, and of each unit for promotions that
+  // pick units
+  const raw = items.map(() => 0)
+  const rawUnits = unitAmounts.map(units => units.map(() => 0))
+  const discountUnit = (unit: PromotionUnit, amount: number) => {
+    rawUnits[unit.index][unit.unit] += amount
+    raw[unit.index] += amount
+  }
   let details = ''
 
   // Calculate based on promotion type
   if (promotion.type === 'percentage') {
     const percentage = promotion.discount_value || 0
-    discountAmount = (orderTotal * percentage) / 100
+    amounts.forEach((amount, index) => {
+      raw[index] = (amount * percentage) / 100
+    })
     details = `${percentage}% discount applied`
   } else if (promotion.type === 'fixed') {
-    discountAmount = promotion.discount_value || 0
-    details = `Rp ${discountAmount.toLocaleString()} discount applied`
+    const value = Math.min(promotion.discount_value || 0, base)
+    spreadDiscount(value, amounts).forEach((amount, index) => {
+      raw[index] = amount
+    })
+    details = `Rp ${value.toLocaleString()} discount applied`
+  } else if (promotion.type === 'tiered') {
+    const tier = getPromotionTier(promotion, base)
+    if (tier) {
+      amounts.forEach((amount, index) => {
+        raw[index] = (amount * Number(tier.percentage)) / 100
+      })
+      details = `${tier.percentage}% off for spending Rp ${Number(tier.min_amount).toLocaleString()}`
+    } else {
+      details = formatPromotionDescription(promotion)
+    }
   } else if (promotion.type === 'buy_x_get_y') {
     const buyQty = promotion.buy_quantity || 1
     const getQty = promotion.get_quantity || 1
+    const percentage = Number(promotion.get_discount_percentage ?? 100)
+    const offer = percentage >= 100 ? 'free' : `at ${percentage}% off`
+    const units = expandUnits(unitAmounts)
 
-    // Calculate how many free items customer gets
-    const freeItems = Math.floor(quantity / buyQty) * getQty
-    if (freeItems > 0) {
-      // Assume discount is the price of free items
-      const itemPrice = orderTotal / quantity
-      discountAmount = freeItems * itemPrice
-      details = `Buy ${buyQty} Get ${getQty} - ${freeItems} free item(s)`
+    if (promotion.get_product_id) {
+      // Every buy_quantity units bought earn get_quantity units of the
+      // reward product, the cheapest of them first
+      const isReward = (unit: PromotionUnit) =>
+        items[unit.index].product_id === promotion.get_product_id
+      const earned =
+        Math.floor(units.filter(unit => !isReward(unit)).length / buyQty) *
+        getQty
+      const rewards = units.filter(isReward).reverse().slice(0, earned)
+      rewards.forEach(unit =>
+        discountUnit(unit, (unit.price * percentage) / 100)
+      )
+
+      details =
+        earned === 0
+          ? `Buy ${buyQty} to get ${getQty} of the reward product ${offer}`
+          : rewards.length < earned
+            ? `${earned} reward item(s) earned, add ${earned - rewards.length} more to the cart to get them ${offer}`
+            : `${rewards.length} reward item(s) ${offer}`
     } else {
-      details = `Buy ${buyQty} to get ${getQty} free`
+      // Every buy_quantity + get_quantity units make a set; the cheapest
+      // get_quantity units per set are discounted
+      const discounted = getCheapestUnits(units, buyQty + getQty, getQty)
+      discounted.forEach(unit =>
+        discountUnit(unit, (unit.price * percentage) / 100)
+      )
+
+      details =
+        discounted.length > 0
+          ? `Buy ${buyQty} Get ${getQty} - ${discounted.length} item(s) ${offer}`
+          : `Buy ${buyQty + getQty} to get ${getQty} ${offer}`
     }
+  } else if (promotion.type === 'bundle') {
+    const size = promotion.bundle_quantity || 0
+    const price = Number(promotion.bundle_price || 0)
+    const units = expandUnits(unitAmounts)
+    const bundles = size > 1 ? Math.floor(units.length / size) : 0
+
+    // The dearest units make up the bundles; each bundle's saving is shared
+    // by its units in proportion to their price
+    for (let bundle = 0; bundle < bundles; bundle++) {
+      const group = units.slice(bundle * size, (bundle + 1) * size)
+      const value = group.reduce((sum, unit) => sum + unit.price, 0)
+      const saving = Math.max(value - price, 0)
+      group.forEach(unit => discountUnit(unit, (saving * unit.price) / value))
+    }
+    details =
+      bundles > 0
+        ? `${bundles} bundle(s) of ${size} for Rp ${price.toLocaleString()}`
+        : formatPromotionDescription(promotion)
+  } else if (promotion.type === 'cheapest_free') {
+    const size = promotion.buy_quantity || 0
+    const free =
+      size > 1 ? getCheapestUnits(expandUnits(unitAmounts), size, 1) : []
+
+    free.forEach(unit => discountUnit(unit, unit.price))
+    details =
+      free.length > 0
+        ? `${free.length} cheapest item(s) free`
+        : formatPromotionDescription(promotion)
   }
 
+  let lineDiscounts = spreadDiscount(
+    raw.reduce((sum, amount) => sum + amount, 0),
+    raw
+  )
+
   // Apply maximum discount cap if set
-  if (
-    promotion.max_discount_amount &&
-    discountAmount > promotion.max_discount_amount
-  ) {
-    discountAmount = promotion.max_discount_amount
+  const total = lineDiscounts.reduce((sum, amount) => sum + amount, 0)
+  if (promotion.max_discount_amount && total > promotion.max_discount_amount) {
+    lineDiscounts = spreadDiscount(promotion.max_discount_amount, lineDiscounts)
     details += ` (capped at Rp ${promotion.max_discount_amount.toLocaleString()})`
   }
 
   return {
-    discountAmount: Math.round(discountAmount),
+    discountAmount: lineDiscounts.reduce((sum, amount) => sum + amount, 0),
+    lineDiscounts,
+    // Units share their line's discount as they earned it, or by price when
+    // the promotion discounts amounts
+    unitDiscounts: lineDiscounts.map((discount, index) =>
+      splitOverUnits(
+        discount,
+        rawUnits[index].some(amount => amount > 0)
+          ? rawUnits[index]
+          : unitAmounts[index]
+      )
+    ),
     appliedPromotion: promotion.code,
     details,
   }
 }
 
+/**
+ * Per-unit discounts of a line as receipt and return entries, largest first.
+ * Null when every unit got the same, since an even split needs no detail.
+ */
+export function groupDiscountedUnits(
+  unitDiscounts: number[]
+): DiscountedUnits[] | null {
+  const discounted = unitDiscounts
+    .map(amount => Math.round(amount * 100) / 100)
+    .filter(amount => amount > 0)
+  if (
+    discounted.length === 0 ||
+    (discounted.length === unitDiscounts.length &&
+      discounted.every(amount => amount === discounted[0]))
+  ) {
+    return null
+  }
+
+  const quantities = new Map<number, number>()
+  discounted.forEach(amount =>
+    quantities.set(amount, (quantities.get(amount) || 0) + 1)
+  )
+  return Array.from(quantities, ([discount_amount, quantity]) => ({
+    quantity,
+    discount_amount,
+  })).sort((a, b) => b.discount_amount - a.discount_amount)
+}
+
 /**
  * Find the best promotion to apply from multiple promotions
  */
 export function findBestPromotion(
   promotions: Promotion[],
   orderTotal: number,
-  quantity: number = 1
+  quantity: number = 1,
+  purchaseTotal: number = orderTotal
 ): {
   promotion: Promotion | null
   discountAmount: number
@@ -137,7 +491,11 @@ export function findBestPromotion(
     }
 
     // Calculate discount
-    const result = calculatePromotionDiscount(promotion, orderTotal, quantity)
+    const result = calculatePromotionDiscount(
+      promotion,
+      [{ amount: orderTotal, quantity }],
+      purchaseTotal
+    )
 
     // Track best discount
     if (result.discountAmount > maxDiscount) {
@@ -207,7 +565,7 @@ export function doesPromotionApplyToCustomer(
   customerSegment?: string
 ): boolean {
   // If no customer segment specified, applies to all customers
-  if (!promotion.customer_segment) {
+  if (!promotion.customer_segment || promotion.customer_segment === 'all') {
     return true
   }
 
@@ -222,6 +580,457 @@ export function doesPromotionApplyToCustomer(
   )
 }
 
+/**
+ * Discount each line gets from its promotion, and which of its units got it.
+ * A line gets nothing from a promotion that is not valid, not meant for the
+ * customer's segment or not targeting its product or category. The minimum
+ * purchase is met by the whole cart, and a promotion's maximum discount caps
+ * what it gives over all of its lines together. Tiered, bundle, buy X get Y
+ * and cheapest-free promotions count all of their lines as one.
+ */
+export function calculateLinePromotionDiscounts(
+  lines: {
+    promotion?: Promotion | PromotionWithTargets | null
+    product_id?: string
+    category_id?: string | null
+    quantity: number
+    gross_amount: number
+  }[],
+  context: PromotionMoment & { customer_segment?: string | null } = {}
+): Omit<LinePromotion, 'promotions' | 'redemptions'>[] {
+  const purchaseTotal = lines.reduce((sum, line) => sum + line.gross_amount, 0)
+  const discounts: Omit<LinePromotion, 'promotions' | 'redemptions'>[] =
+    lines.map(() => ({
+      discount_amount: 0,
+      discounted_units: null,
+    }))
+  const byPromotion = new Map<string, number[]>()
+
+  lines.forEach((line, index) => {
+    const promotion = line.promotion
+    if (
+      !promotion ||
+      !isPromotionValid(promotion, context).valid ||
+      !doesPromotionApplyToCustomer(
+        promotion,
+        context.customer_segment || undefined
+      ) ||
+      !doesPromotionApplyToProduct(
+        promotion,
+        line.product_id || '',
+        line.category_id || undefined
+      )
+    ) {
+      return
+    }
+    byPromotion.set(promotion.id, [
+      ...(byPromotion.get(promotion.id) || []),
+      index,
+    ])
+  })
+
+  byPromotion.forEach(indexes => {
+    const promotion = lines[indexes[0]].promotion as Promotion
+    const allocation = allocatePromotionDiscount(
+      promotion,
+      'line',
+      indexes,
+      lines.map(line => ({
+        amount: line.gross_amount,
+        quantity: line.quantity,
+        product_id: line.product_id,
+      })),
+      purchaseTotal
+    )
+    indexes.forEach((index, position) => {
+      discounts[index] = {
+        discount_amount: allocation.discounts[position],
+        discounted_units: groupDiscountedUnits(
+          allocation.unitDiscounts[position]
+        ),
+      }
+    })
+  })
+
+  return discounts
+}
+
+/**
+ * Whether a promotion discounts the whole cart or particular lines. One that
+ * targets no products or categories is cart-level, except those that count
+ * units (buy X get Y, bundles, cheapest free) which always go on lines.
+ */
+export function getPromotionScope(
+  promotion: PromotionWithTargets
+): PromotionScope {
+  return !isUnitPromotion(promotion) &&
+    promotion.products.length === 0 &&
+    promotion.categories.length === 0
+    ? 'cart'
+    : 'line'
+}
+
+/**
+ * Why a promotion cannot be used again, or null while it is within its usage
+ * limits. The database checks the same when the sale is saved.
+ */
+export function getUsageLimitReason(
+  promotion: Promotion,
+  usage: PromotionUsage | undefined,
+  hasCustomer: boolean
+): string | null {
+  if (promotion.usage_limit && (usage?.total || 0) >= promotion.usage_limit) {
+    return `Usage limit of ${promotion.usage_limit} reached`
+  }
+  if (promotion.usage_limit_per_customer) {
+    if (!hasCustomer) return 'Select a customer to use this promotion'
+    if ((usage?.customer || 0) >= promotion.usage_limit_per_customer) {
+      return `Customer has used it ${usage?.customer} time(s) already`
+    }
+  }
+  return null
+}
+
+/**
+ * Status of a voucher as a cashier would see it: issued codes past their
+ * expiry, or whose promotion has ended, count as expired. The promotion's
+ * end date is a calendar day in the company's time zone.
+ */
+export function getVoucherStatus(
+  voucher: Pick<PromotionVoucher, 'status' | 'expires_at'>,
+  promotion?: Pick<Promotion, 'end_date'>,
+  moment: PromotionMoment = {}
+): VoucherStatus {
+  if (voucher.status !== 'issued') return voucher.status
+
+  const now = moment.now || new Date()
+  if (voucher.expires_at && new Date(voucher.expires_at) <= now) {
+    return 'expired'
+  }
+  if (
+    promotion &&
+    getPromotionDate({ ...moment, now }) > promotion.end_date.slice(0, 10)
+  ) {
+    return 'expired'
+  }
+  return 'issued'
+}
+
+// Promotions that work on units rather than amounts
+function isUnitPromotion(promotion: Promotion): boolean {
+  return (
+    promotion.type === 'buy_x_get_y' ||
+    promotion.type === 'bundle' ||
+    promotion.type === 'cheapest_free'
+  )
+}
+
+/**
+ * Split a promotion's discount over the given lines, and over their units.
+ * Cart-level promotions, and those judged on all of their lines together
+ * (tiers and unit promotions), work on the lines as one; other line-level
+ * promotions discount each line, capped over all of them.
+ */
+function allocatePromotionDiscount(
+  promotion: Promotion,
+  scope: PromotionScope,
+  indexes: number[],
+  items: PromotionItem[],
+  purchaseTotal: number
+): { discounts: number[]; unitDiscounts: number[][]; details: string } {
+  if (
+    scope === 'cart' ||
+    promotion.type === 'tiered' ||
+    isUnitPromotion(promotion)
+  ) {
+    const result = calculatePromotionDiscount(
+      promotion,
+      indexes.map(index => items[index]),
+      purchaseTotal
+    )
+    return {
+      discounts: result.lineDiscounts,
+      unitDiscounts: result.unitDiscounts,
+      details: result.details,
+    }
+  }
+
+  let capLeft = promotion.max_discount_amount || Infinity
+  const results = indexes.map(index => {
+    const result = calculatePromotionDiscount(
+      promotion,
+      [items[index]],
+      purchaseTotal
+    )
+    const discount = Math.min(result.discountAmount, capLeft)
+    capLeft -= discount
+    return {
+      discount,
+      units: splitOverUnits(discount, result.unitDiscounts[0]),
+      details: result.details,
+    }
+  })
+  return {
+    discounts: results.map(result => result.discount),
+    unitDiscounts: results.map(result => result.units),
+    details: results[0]?.details || '',
+  }
+}
+
+/**
+ * Resolve which promotions a cart gets. Coupon promotions only take part once
+ * their code, or one of their vouchers, is entered. Candidates are tried by priority, then by the
+ * discount they would give. A promotion is rejected when it is not valid, not
+ * meant for the customer, used up, short of its minimum purchase, beaten by
+ * another promotion of its exclusivity group, or when the lines it targets
+ * already carry a promotion and either one does not stack. Stacked promotions
+ * discount what is left of a line after the earlier ones. Lines discounted by
+ * hand get no promotion but still count towards minimum purchases.
+ */
+export function resolveCartPromotions(
+  lines: PromotionLineInput[],
+  promotions: PromotionWithTargets[],
+  context: PromotionContext = {}
+): CartPromotionResult {
+  const codes = (context.coupon_codes || []).map(code => code.toUpperCase())
+  const vouchers = context.vouchers || {}
+  // Code a coupon promotion was entered with: one of its vouchers once it
+  // has them, its own code otherwise
+  const couponFor = (promotion: Promotion) =>
+    promotion.uses_vouchers
+      ? codes.find(code => vouchers[code] === promotion.id)
+      : codes.find(code => code === promotion.code.toUpperCase())
+  const gross = lines.map(line => line.quantity * line.unit_price)
+  const purchaseTotal = gross.reduce((sum, amount) => sum + amount, 0)
+  const remaining = [...gross]
+  // What is left of each whole unit, so stacked promotions see the units
+  // earlier ones discounted
+  const remainingUnits = lines.map(line =>
+    Number.isInteger(line.quantity) && line.quantity > 0
+      ? Array.from({ length: line.quantity }, () => line.unit_price)
+      : []
+  )
+  const toItems = (amounts: number[], units?: number[][]): PromotionItem[] =>
+    lines.map((line, index) => ({
+      amount: amounts[index],
+      quantity: line.quantity,
+      product_id: line.product_id,
+      unit_amounts: units?.[index],
+    }))
+  const lineWinners: Promotion[][] = lines.map(() => [])
+  const lineRedemptions: RedemptionInput[][] = lines.map(() => [])
+  const groupWinners = new Map<string, Promotion>()
+  const applied: PromotionCalculation[] = []
+  const rejected: PromotionCalculation[] = []
+
+  const candidates = promotions
+    .filter(
+      promotion =>
+        !(promotion.requires_code || promotion.uses_vouchers) ||
+        !!couponFor(promotion)
+    )
+    .map(promotion => {
+      const scope = getPromotionScope(promotion)
+      // A buy X get Y reward product takes part even when not targeted
+      const line_indexes = lines.flatMap((line, index) =>
+        !line.manual &&
+        (doesPromotionApplyToProduct(
+          promotion,
+          line.product_id,
+          line.category_id || undefined
+        ) ||
+          (promotion.type === 'buy_x_get_y' &&
+            line.product_id === promotion.get_product_id))
+          ? [index]
+          : []
+      )
+      const estimate = allocatePromotionDiscount(
+        promotion,
+        scope,
+        line_indexes,
+        toItems(gross),
+        purchaseTotal
+      ).discounts.reduce((sum, amount) => sum + amount, 0)
+      return { promotion, scope, line_indexes, estimate }
+    })
+    // Promotions for products that are not in the cart do not concern it
+    .filter(candidate => candidate.line_indexes.length > 0)
+    .sort(
+      (a, b) =>
+        (b.promotion.priority || 0) - (a.promotion.priority || 0) ||
+        b.estimate - a.estimate
+    )
+
+  for (const { promotion, scope, line_indexes } of candidates) {
+    const calculation = {
+      promotion_id: promotion.id,
+      promotion_name: promotion.name,
+      promotion_type: promotion.type,
+      scope,
+      priority: promotion.priority || 0,
+      line_indexes,
+    }
+    const reject = (reason: string) =>
+      rejected.push({
+        ...calculation,
+        discount_amount: 0,
+        final_price: line_indexes.reduce(
+          (sum, index) => sum + remaining[index],
+          0
+        ),
+        is_applicable: false,
+        reason,
+        explanation: `${promotion.name} not applied: ${reason}`,
+      })
+
+    const validation = isPromotionValid(promotion, {
+      now: context.now,
+      time_zone: context.time_zone,
+    })
+    if (!validation.valid) {
+      reject(validation.reason || 'Promotion is not valid')
+      continue
+    }
+
+    if (
+      !doesPromotionApplyToCustomer(
+        promotion,
+        context.customer_segment || undefined
+      )
+    ) {
+      reject(`Only for ${promotion.customer_segment} customers`)
+      continue
+    }
+
+    const limitReason = getUsageLimitReason(
+      promotion,
+      context.usage?.[promotion.id],
+      !!context.customer_id
+    )
+    if (limitReason) {
+      reject(limitReason)
+      continue
+    }
+
+    if (
+      promotion.min_purchase_amount &&
+      purchaseTotal < promotion.min_purchase_amount
+    ) {
+      reject(
+        `Minimum purchase of Rp ${Number(promotion.min_purchase_amount).toLocaleString()} not met`
+      )
+      continue
+    }
+
+    const groupWinner = promotion.exclusive_group
+      ? groupWinners.get(promotion.exclusive_group)
+      : undefined
+    if (groupWinner) {
+      reject(
+        `${groupWinner.name} already applied from exclusive group "${promotion.exclusive_group}"`
+      )
+      continue
+    }
+
+    // A line carries several promotions only when all of them stack
+    const usable = line_indexes.filter(
+      index =>
+        lineWinners[index].length === 0 ||
+        (promotion.stackable &&
+          lineWinners[index].every(winner => winner.stackable))
+    )
+    const blockers = Array.from(
+      new Set(
+        line_indexes
+          .filter(index => !usable.includes(index))
+          .flatMap(index => lineWinners[index].map(winner => winner.name))
+      )
+    )
+    if (usable.length === 0 || (scope === 'cart' && blockers.length > 0)) {
+      reject(`Does not stack with ${blockers.join(', ')}`)
+      continue
+    }
+
+    const allocation = allocatePromotionDiscount(
+      promotion,
+      scope,
+      usable,
+      toItems(remaining, remainingUnits),
+      purchaseTotal
+    )
+    const discounts = allocation.discounts
+    const discount_amount = discounts.reduce((sum, amount) => sum + amount, 0)
+    if (discount_amount <= 0) {
+      reject(
+        isUnitPromotion(promotion)
+          ? allocation.details
+          : 'No discount left to give on this cart'
+      )
+      continue
+    }
+
+    const stackedWith = Array.from(
+      new Set(
+        usable.flatMap(index => lineWinners[index].map(winner => winner.name))
+      )
+    )
+    const code = couponFor(promotion) || null
+    const notes = [
+      scope === 'cart'
+        ? 'on the whole cart'
+        : `on ${usable.length} line${usable.length === 1 ? '' : 's'}`,
+      stackedWith.length > 0 ? `stacked with ${stackedWith.join(', ')}` : '',
+      blockers.length > 0
+        ? `skipping lines taken by ${blockers.join(', ')}`
+        : '',
+    ].filter(Boolean)
+    const explanation = `${promotion.name}: ${isUnitPromotion(promotion) ? allocation.details : formatPromotionDescription(promotion)} ${notes.join(', ')}`
+    usable.forEach((index, position) => {
+      if (discounts[position] > 0) {
+        lineRedemptions[index].push({
+          promotion_id: promotion.id,
+          discount_amount: discounts[position],
+          code,
+          explanation,
+        })
+      }
+      remaining[index] -= discounts[position]
+      remainingUnits[index] = remainingUnits[index].map(
+        (amount, unit) =>
+          amount - (allocation.unitDiscounts[position][unit] || 0)
+      )
+      lineWinners[index].push(promotion)
+    })
+    if (promotion.exclusive_group) {
+      groupWinners.set(promotion.exclusive_group, promotion)
+    }
+
+    applied.push({
+      ...calculation,
+      line_indexes: usable,
+      discount_amount,
+      final_price: usable.reduce((sum, index) => sum + remaining[index], 0),
+      is_applicable: true,
+      code,
+      explanation,
+    })
+  }
+
+  return {
+    lines: lines.map((line, index) => ({
+      promotions: lineWinners[index],
+      redemptions: lineRedemptions[index],
+      discount_amount: gross[index] - remaining[index],
+      discounted_units: groupDiscountedUnits(
+        remainingUnits[index].map(amount => line.unit_price - amount)
+      ),
+    })),
+    calculations: [...applied, ...rejected],
+    discount_amount:
+      purchaseTotal - remaining.reduce((sum, amount) => sum + amount, 0),
+  }
+}
+
 /**
  * Format promotion description for display
  */
@@ -235,8 +1044,39 @@ export function formatPromotionDescription(promotion: Promotion): string {
   }
 
   if (promotion.type === 'buy_x_get_y') {
-    return `Buy ${promotion.buy_quantity} Get ${promotion.get_quantity} Free`
+    const percentage = Number(promotion.get_discount_percentage ?? 100)
+    return `Buy ${promotion.buy_quantity} Get ${promotion.get_quantity} ${
+      percentage >= 100 ? 'Free' : `at ${percentage}% off`
+    }`
+  }
+
+  if (promotion.type === 'tiered') {
+    return [...(promotion.tiers || [])]
+      .sort((a, b) => Number(a.min_amount) - Number(b.min_amount))
+      .map(
+        tier =>
+          `Spend Rp ${Number(tier.min_amount).toLocaleString()} get ${tier.percentage}% off`
+      )
+      .join(', ')
+  }
+
+  if (promotion.type === 'bundle') {
+    return `Any ${promotion.bundle_quantity} for Rp ${Number(promotion.bundle_price).toLocaleString()}`
+  }
+
+  if (promotion.type === 'cheapest_free') {
+    return `Buy ${promotion.buy_quantity}, cheapest one free`
   }
 
   return promotion.description || 'Special promotion'
 }
+
+/**
+ * Promotion description followed by the days and hours it runs, if limited
+ */
+export function formatPromotionSummary(promotion: Promotion): string {
+  const window = formatPromotionWindow(promotion)
+  return window
+    ? `${formatPromotionDescription(promotion)} (${window})`
+    : formatPromotionDescription(promotion)
+}
@@ -0,0 +1,145 @@
+/**
+ * Voucher Export
+ * CSV files and printable QR sheets of a voucher batch, built in the browser
+ * for marketing to hand out or send to a printer.
+ */
+
+import { encodeQr, qrSvgPath } from '@/lib/pos/qr'
+import { getVoucherStatus } from '@/lib/promotions/utils'
+import { escapeHtml } from '@/lib/utils'
+import type {
+  Promotion,
+  PromotionVoucher,
+  PromotionVoucherBatch,
+} from '@/types/promotions'
+
+const escapeCsv = (value: string) =>
+  /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('id-ID', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+  })
+
+const fileName = (batch: PromotionVoucherBatch, extension: string) =>
+  `${batch.name.replace(/[^A-Za-z0-9-]+/g, '-').toLowerCase()}.${extension}`
+
+/**
+ * CSV of a batch's codes with their status
+ */
+export function vouchersToCsv(
+  promotion: Promotion,
+  vouchers: PromotionVoucher[],
+  time_zone?: string | null
+): string {
+  const rows = vouchers.map(voucher =>
+    [
+      voucher.code,
+      promotion.name,
+      getVoucherStatus(voucher, promotion, { time_zone }),
+      voucher.expires_at || promotion.end_date,
+      voucher.redeemed_at || '',
+    ]
+      .map(escapeCsv)
+      .join(',')
+  )
+  return ['code,promotion,status,expires_at,redeemed_at', ...rows].join('\n')
+}
+
+/**
+ * Download a batch's codes as a CSV file
+ */
+export function downloadVouchersCsv(
+  promotion: Promotion,
+  batch: PromotionVoucherBatch,
+  vouchers: PromotionVoucher[],
+  time_zone?: string | null
+) {
+  const blob = new Blob([vouchersToCsv(promotion, vouchers, time_zone)], {
+    type: 'text/csv;charset=utf-8',
+  })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName(batch, 'csv')
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * HTML sheet of voucher cards with a QR code each, laid out for A4 paper.
+ * Codes already redeemed or expired are left off.
+ */
+export function renderVoucherSheetHtml(
+  promotion: Promotion,
+  batch: PromotionVoucherBatch,
+  vouchers: PromotionVoucher[],
+  time_zone?: string | null
+): string {
+  const cards = vouchers
+    .filter(
+      voucher =>
+        getVoucherStatus(voucher, promotion, { time_zone }) === 'issued'
+    )
+    .map(voucher => {
+      const { size, path } = qrSvgPath(encodeQr(voucher.code))
+      return `
+        <div class="card">
+          <svg viewBox="0 0 ${size} ${size}" shape-rendering="crispEdges"><rect width="${size}" height="${size}" fill="#fff"/><path d="${path}" fill="#000"/></svg>
+          <div class="name">${escapeHtml(promotion.name)}</div>
+          <div class="code">${escapeHtml(voucher.code)}</div>
+          <div class="expiry">Valid until ${formatDate(voucher.expires_at || promotion.end_date)}</div>
+        </div>`
+    })
+    .join('')
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <title>${escapeHtml(batch.name)}</title>
+      <style>
+        @page { size: A4; margin: 10mm; }
+        body { font-family: Arial, sans-serif; margin: 0; }
+        .sheet { display: grid; grid-template-columns: repeat(4, 1fr); gap: 4mm; }
+        .card { border: 1px dashed #999; padding: 3mm; text-align: center; break-inside: avoid; }
+        .card svg { width: 30mm; height: 30mm; }
+        .name { font-size: 10px; font-weight: bold; }
+        .code { font-family: monospace; font-size: 11px; letter-spacing: 1px; }
+        .expiry { font-size: 8px; color: #555; }
+      </style>
+    </head>
+    <body>
+      <div class="sheet">${cards}</div>
+      <script>
+        window.onload = function() {
+          window.print();
+        }
+      </script>
+    </body>
+    </html>
+  `
+}
+
+/**
+ * Open a batch's printable QR sheet in a new tab and print it
+ */
+export function printVoucherSheet(
+  promotion: Promotion,
+  batch: PromotionVoucherBatch,
+  vouchers: PromotionVoucher[],
+  time_zone?: string | null
+) {
+  const printWindow = window.open('', '_blank')
+  if (!printWindow) {
+    alert('Please allow popups to print vouchers')
+    return
+  }
+
+  printWindow.document.write(
+    renderVoucherSheetHtml(promotion, batch, vouchers, time_zone)
+  )
+  printWindow.document.close()
+}
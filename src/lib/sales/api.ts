@@ -1,14 +1,22 @@
 /**
  * Sales Module API
  * Handles CRUD operations for sales orders, invoices, payments, and delivery orders
+ *
+ * Document numbers (SO/INV/PAY/DO) are assigned by the database on insert from
+ * the company's document sequences (see src/lib/numbering/api.ts).
+ *
+ * Order writes go through /api/sales/orders so totals are recomputed on the
+ * server with the shared pricing core (see src/lib/pricing/utils.ts).
  */
 
 import { createClientSupabase } from '@/lib/supabase/client'
+import type { PricingMismatch } from '@/types/pricing'
 import type {
   SalesOrder,
   SalesOrderWithRelations,
   SalesInvoice,
   SalesInvoiceWithRelations,
+  SalesInvoiceLine,
   SalesPayment,
   SalesPaymentWithRelations,
   DeliveryOrder,
@@ -45,69 +53,40 @@ async function getCurrentCompanyId(): Promise<string> {
   return userData.company_id
 }
 
-async function generateOrderNumber(companyId: string): Promise<string> {
-  const today = new Date()
-  const year = today.getFullYear()
-  const month = String(today.getMonth() + 1).padStart(2, '0')
-
-  // Get count of orders this month
-  const startOfMonth = new Date(year, today.getMonth(), 1).toISOString()
-  const { count } = await supabase
-    .from('sales_orders')
-    .select('*', { count: 'exact', head: true })
-    .eq('company_id', companyId)
-    .gte('created_at', startOfMonth)
-
-  const sequence = String((count || 0) + 1).padStart(4, '0')
-  return `SO-${year}${month}-${sequence}`
-}
-
-async function generateInvoiceNumber(companyId: string): Promise<string> {
-  const today = new Date()
-  const year = today.getFullYear()
-  const month = String(today.getMonth() + 1).padStart(2, '0')
-
-  const startOfMonth = new Date(year, today.getMonth(), 1).toISOString()
-  const { count } = await supabase
-    .from('sales_invoices')
-    .select('*', { count: 'exact', head: true })
-    .eq('company_id', companyId)
-    .gte('created_at', startOfMonth)
-
-  const sequence = String((count || 0) + 1).padStart(4, '0')
-  return `INV-${year}${month}-${sequence}`
-}
-
-async function generatePaymentNumber(companyId: string): Promise<string> {
-  const today = new Date()
-  const year = today.getFullYear()
-  const month = String(today.getMonth() + 1).padStart(2, '0')
-
-  const startOfMonth = new Date(year, today.getMonth(), 1).toISOString()
-  const { count } = await supabase
-    .from('sales_payments')
-    .select('*', { count: 'exact', head: true })
-    .eq('company_id', companyId)
-    .gte('created_at', startOfMonth)
-
-  const sequence = String((count || 0) + 1).padStart(4, '0')
-  return `PAY-${year}${month}-${sequence}`
-}
-
-async function generateDeliveryNumber(companyId: string): Promise<string> {
-  const today = new Date()
-  const year = today.getFullYear()
-  const month = String(today.getMonth() + 1).padStart(2, '0')
-
-  const startOfMonth = new Date(year, today.getMonth(), 1).toISOString()
-  const { count } = await supabase
-    .from('delivery_orders')
-    .select('*', { count: 'exact', head: true })
-    .eq('company_id', companyId)
-    .gte('created_at', startOfMonth)
+/**
+ * Send an order write to the server, which recomputes totals from catalogue
+ * prices and rejects submissions that do not match
+ */
+async function saveSalesOrder(
+  url: string,
+  method: 'POST' | 'PUT',
+  input: CreateSalesOrderInput | UpdateSalesOrderInput
+): Promise<SalesOrder> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession()
+  if (!session) throw new Error('Not authenticated')
+
+  const response = await fetch(url, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${session.access_token}`,
+    },
+    body: JSON.stringify(input),
+  })
+  const body = await response.json()
+
+  if (!response.ok) {
+    const mismatches = (body.mismatches || []) as PricingMismatch[]
+    throw new Error(
+      mismatches.length > 0
+        ? `${body.error}: ${mismatches.map(m => m.field).join(', ')}`
+        : body.error || 'Failed to save order'
+    )
+  }
 
-  const sequence = String((count || 0) + 1).padStart(4, '0')
-  return `DO-${year}${month}-${sequence}`
+  return body.order
 }
 
 // ============================================================================
@@ -163,116 +142,14 @@ export async function getSalesOrderById(
 export async function createSalesOrder(
   input: CreateSalesOrderInput
 ): Promise<SalesOrder> {
-  const companyId = await getCurrentCompanyId()
-  const {
-    data: { user },
-  } = await supabase.auth.getUser()
-  if (!user) throw new Error('Not authenticated')
-
-  const orderNumber = await generateOrderNumber(companyId)
-
-  // Create order
-  const { data: order, error: orderError } = await supabase
-    .from('sales_orders')
-    .insert({
-      company_id: companyId,
-      customer_id: input.customer_id,
-      salesman_id: input.salesman_id || null,
-      order_number: orderNumber,
-      order_date: input.order_date,
-      status: input.status || 'draft',
-      subtotal: input.subtotal,
-      discount_amount: input.discount_amount || 0,
-      tax_amount: input.tax_amount || 0,
-      shipping_amount: input.shipping_amount || 0,
-      grand_total: input.grand_total,
-      notes: input.notes || null,
-      terms: input.terms || null,
-      created_by: user.id,
-    })
-    .select()
-    .single()
-
-  if (orderError) throw orderError
-  if (!order) throw new Error('Failed to create order')
-
-  // Create order items
-  if (input.items && input.items.length > 0) {
-    const itemsToInsert = input.items.map(item => ({
-      order_id: order.id,
-      product_id: item.product_id,
-      product_name: item.product_name,
-      product_sku: item.product_sku,
-      quantity: item.quantity,
-      unit_price: item.unit_price,
-      discount_amount: item.discount_amount || 0,
-      tax_amount: item.tax_amount || 0,
-      subtotal: item.subtotal,
-      promotion_id: item.promotion_id || null,
-      notes: item.notes || null,
-    }))
-
-    const { error: itemsError } = await supabase
-      .from('sales_order_items')
-      .insert(itemsToInsert)
-
-    if (itemsError) {
-      // Rollback order if items fail
-      await supabase.from('sales_orders').delete().eq('id', order.id)
-      throw itemsError
-    }
-  }
-
-  return order
+  return saveSalesOrder('/api/sales/orders', 'POST', input)
 }
 
 export async function updateSalesOrder(
   id: string,
   input: UpdateSalesOrderInput
 ): Promise<SalesOrder> {
-  const { data, error } = await supabase
-    .from('sales_orders')
-    .update({
-      ...input,
-      updated_at: new Date().toISOString(),
-    })
-    .eq('id', id)
-    .select()
-    .single()
-
-  if (error) throw error
-  if (!data) throw new Error('Order not found')
-
-  // Update items if provided
-  if (input.items) {
-    // Delete existing items
-    await supabase.from('sales_order_items').delete().eq('order_id', id)
-
-    // Insert new items
-    if (input.items.length > 0) {
-      const itemsToInsert = input.items.map(item => ({
-        order_id: id,
-        product_id: item.product_id,
-        product_name: item.product_name,
-        product_sku: item.product_sku,
-        quantity: item.quantity,
-        unit_price: item.unit_price,
-        discount_amount: item.discount_amount || 0,
-        tax_amount: item.tax_amount || 0,
-        subtotal: item.subtotal,
-        promotion_id: item.promotion_id || null,
-        notes: item.notes || null,
-      }))
-
-      const { error: itemsError } = await supabase
-        .from('sales_order_items')
-        .insert(itemsToInsert)
-
-      if (itemsError) throw itemsError
-    }
-  }
-
-  return data
+  return saveSalesOrder(`/api/sales/orders/${id}`, 'PUT', input)
 }
 
 export async function deleteSalesOrder(id: string): Promise<void> {
@@ -332,6 +209,9 @@ export async function convertOrderToInvoice(
     subtotal: order.subtotal,
     discount_amount: order.discount_amount,
     tax_amount: order.tax_amount,
+    tax_rate: order.tax_rate,
+    prices_include_tax: order.prices_include_tax,
+    dpp_amount: order.dpp_amount,
     shipping_amount: order.shipping_amount,
     grand_total: order.grand_total,
     notes: order.notes || undefined,
@@ -391,6 +271,73 @@ export async function getSalesInvoiceById(
   }
 }
 
+/**
+ * Get the lines of an invoice from its sales order or POS transaction
+ */
+export async function getSalesInvoiceLines(
+  invoice: SalesInvoice
+): Promise<SalesInvoiceLine[]> {
+  if (invoice.order_id) {
+    const { data, error } = await supabase
+      .from('sales_order_items')
+      .select('product_name, quantity, unit_price, discount_amount, subtotal')
+      .eq('order_id', invoice.order_id)
+      .order('created_at', { ascending: true })
+      .overrideTypes<
+        {
+          product_name: string
+          quantity: number
+          unit_price: number
+          discount_amount: number
+          subtotal: number
+        }[],
+        { merge: false }
+      >()
+
+    if (error) throw error
+
+    return (data || []).map(item => ({
+      description: item.product_name,
+      quantity: Number(item.quantity),
+      unit_price: Number(item.unit_price),
+      discount_amount: Number(item.discount_amount),
+      subtotal: Number(item.subtotal),
+    }))
+  }
+
+  if (invoice.pos_transaction_id) {
+    const { data, error } = await supabase
+      .from('pos_transaction_items')
+      .select(
+        'quantity, unit_price, discount_amount, subtotal, product:products(name)'
+      )
+      .eq('transaction_id', invoice.pos_transaction_id)
+      .order('created_at', { ascending: true })
+      .overrideTypes<
+        {
+          quantity: number
+          unit_price: number
+          discount_amount: number
+          subtotal: number
+          product: { name: string } | null
+        }[],
+        { merge: false }
+      >()
+
+    if (error) throw error
+
+    return (data || []).map(item => ({
+      description: item.product?.name || 'Unknown Product',
+      quantity: Number(item.quantity),
+      unit_price: Number(item.unit_price),
+      discount_amount: Number(item.discount_amount),
+      subtotal: Number(item.subtotal),
+    }))
+  }
+
+  return []
+}
+
 export async function createSalesInvoice(
   input: CreateSalesInvoiceInput
 ): Promise<SalesInvoice> {
@@ -400,21 +347,21 @@ export async function createSalesInvoice(
   } = await supabase.auth.getUser()
   if (!user) throw new Error('Not authenticated')
 
-  const invoiceNumber = await generateInvoiceNumber(companyId)
-
   const { data, error } = await supabase
     .from('sales_invoices')
     .insert({
       company_id: companyId,
       order_id: input.order_id || null,
       customer_id: input.customer_id,
-      invoice_number: invoiceNumber,
       invoice_date: input.invoice_date,
       due_date: input.due_date,
       status: input.status || 'unpaid',
       subtotal: input.subtotal,
       discount_amount: input.discount_amount || 0,
       tax_amount: input.tax_amount || 0,
+      tax_rate: input.tax_rate || 0,
+      prices_include_tax: input.prices_include_tax || false,
+      dpp_amount: input.dpp_amount || 0,
       shipping_amount: input.shipping_amount || 0,
       grand_total: input.grand_total,
       paid_amount: 0,
@@ -452,9 +399,23 @@ export async function updateSalesInvoice(
   return data
 }
 
-export async function deleteSalesInvoice(id: string): Promise<void> {
-  const { error } = await supabase.from('sales_invoices').delete().eq('id', id)
+// Invoices keep their number for tax audits, so they are voided, never deleted
+export async function voidSalesInvoice(id: string): Promise<SalesInvoice> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const query = supabase.from('sales_invoices') as any
+  const { data, error } = await query
+    .update({
+      status: 'cancelled',
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+    .select()
+    .single()
+
   if (error) throw error
+  if (!data) throw new Error('Invoice not found')
+
+  return data
 }
 
 // ============================================================================
@@ -474,67 +435,33 @@ export async function getSalesPayments(): Promise<SalesPayment[]> {
   return data || []
 }
 
+/**
+ * Record a customer payment against an invoice. The invoice is locked and
+ * updated in the same transaction; a payment above the outstanding balance
+ * is refused. Without a payment date it is today in the company's time zone.
+ */
 export async function createSalesPayment(
   input: CreateSalesPaymentInput
 ): Promise<SalesPayment> {
-  const companyId = await getCurrentCompanyId()
-  const {
-    data: { user },
-  } = await supabase.auth.getUser()
-  if (!user) throw new Error('Not authenticated')
-
-  const paymentNumber = await generatePaymentNumber(companyId)
-
-  // Create payment
-  const { data: payment, error: paymentError } = await supabase
-    .from('sales_payments')
-    .insert({
-      company_id: companyId,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data, error } = await (supabase as any).rpc('receive_sales_payment', {
+    p_payment: {
       invoice_id: input.invoice_id,
-      payment_number: paymentNumber,
-      payment_date: input.payment_date,
+      shift_id: input.shift_id || null,
+      payment_date: input.payment_date || null,
       payment_method: input.payment_method,
       amount: input.amount,
       reference_number: input.reference_number || null,
       notes: input.notes || null,
-      created_by: user.id,
-    })
-    .select()
-    .single()
-
-  if (paymentError) throw paymentError
-  if (!payment) throw new Error('Failed to create payment')
+    },
+  })
 
-  // Update invoice paid amount and status
-  const { data: invoice, error: invoiceError } = await supabase
-    .from('sales_invoices')
-    .select('*')
-    .eq('id', input.invoice_id)
-    .single()
-
-  if (invoiceError) throw invoiceError
-  if (!invoice) throw new Error('Invoice not found')
-
-  const newPaidAmount = invoice.paid_amount + input.amount
-  const newRemainingAmount = invoice.grand_total - newPaidAmount
-  let newStatus = invoice.status
-
-  if (newRemainingAmount <= 0) {
-    newStatus = 'paid'
-  } else if (newPaidAmount > 0) {
-    newStatus = 'partial'
+  if (error) {
+    console.error('Error receiving payment:', error)
+    throw new Error(`Failed to receive payment: ${error.message}`)
   }
 
-  await supabase
-    .from('sales_invoices')
-    .update({
-      paid_amount: newPaidAmount,
-      remaining_amount: newRemainingAmount,
-      status: newStatus,
-    })
-    .eq('id', input.invoice_id)
-
-  return payment
+  return data as SalesPayment
 }
 
 export async function deleteSalesPayment(id: string): Promise<void> {
@@ -626,14 +553,11 @@ export async function createDeliveryOrder(
   } = await supabase.auth.getUser()
   if (!user) throw new Error('Not authenticated')
 
-  const deliveryNumber = await generateDeliveryNumber(companyId)
-
   const { data, error } = await supabase
     .from('delivery_orders')
     .insert({
       company_id: companyId,
       order_id: input.order_id,
-      delivery_number: deliveryNumber,
       delivery_date: input.delivery_date,
       scheduled_date: input.scheduled_date || null,
       status: input.status || 'pending',
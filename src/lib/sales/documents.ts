@@ -0,0 +1,89 @@
+/**
+ * Sales Documents
+ * Turns sales records into printable documents for the shared branded layout
+ * (see src/lib/company/documents.ts)
+ */
+
+import { formatTaxLabel } from '@/lib/tax/utils'
+import type { PrintableDocument } from '@/types/company'
+import type { SalesInvoiceLine, SalesInvoiceWithRelations } from '@/types/sales'
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('id-ID', {
+    day: '2-digit',
+    month: 'long',
+    year: 'numeric',
+  })
+
+/**
+ * Build the printable sales invoice
+ */
+export function buildSalesInvoiceDocument(
+  invoice: SalesInvoiceWithRelations,
+  lines: SalesInvoiceLine[]
+): PrintableDocument {
+  const customer = invoice.customer
+
+  const totals: PrintableDocument['totals'] = [
+    { label: 'Subtotal', amount: Number(invoice.subtotal) },
+  ]
+  if (Number(invoice.discount_amount) > 0) {
+    totals.push({ label: 'Diskon', amount: -Number(invoice.discount_amount) })
+  }
+  totals.push(
+    { label: 'DPP', amount: Number(invoice.dpp_amount) },
+    {
+      label: `${formatTaxLabel(invoice.tax_rate)}${
+        invoice.prices_include_tax ? ' (termasuk)' : ''
+      }`,
+      amount: Number(invoice.tax_amount),
+    }
+  )
+  if (Number(invoice.shipping_amount) > 0) {
+    totals.push({
+      label: 'Ongkos Kirim',
+      amount: Number(invoice.shipping_amount),
+    })
+  }
+  totals.push({
+    label: 'Total',
+    amount: Number(invoice.grand_total),
+    emphasis: true,
+  })
+  if (Number(invoice.paid_amount) > 0) {
+    totals.push(
+      { label: 'Dibayar', amount: Number(invoice.paid_amount) },
+      { label: 'Sisa Tagihan', amount: Number(invoice.remaining_amount) }
+    )
+  }
+
+  return {
+    number: invoice.invoice_number,
+    date: invoice.invoice_date,
+    party: {
+      label: 'Tagihan Kepada',
+      name: customer?.name || '-',
+      lines: [customer?.company, customer?.phone, customer?.email].filter(
+        (line): line is string => Boolean(line)
+      ),
+    },
+    meta: [
+      { label: 'Jatuh Tempo', value: formatDate(invoice.due_date) },
+      ...(invoice.order
+        ? [{ label: 'No. Pesanan', value: invoice.order.order_number }]
+        : []),
+    ],
+    columns: ['quantity', 'unit_price', 'amount'],
+    lines: lines.map(line => ({
+      description:
+        line.discount_amount > 0
+          ? `${line.description} (diskon Rp ${line.discount_amount.toLocaleString('id-ID')})`
+          : line.description,
+      quantity: line.quantity,
+      unit_price: line.unit_price,
+      amount: line.subtotal,
+    })),
+    totals,
+    notes: invoice.notes,
+  }
+}
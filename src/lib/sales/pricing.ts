@@ -0,0 +1,344 @@
+/**
+ * Sales Order Pricing (server-side)
+ * Recomputes an order from catalogue prices, promotions and company tax
+ * settings with the shared pricing core, and checks it against what the
+ * browser submitted.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { calculatePricing, findPricingMismatches } from '@/lib/pricing/utils'
+import {
+  doesPromotionApplyToCustomer,
+  doesPromotionApplyToProduct,
+} from '@/lib/promotions/utils'
+import { DEFAULT_TAX_SETTINGS } from '@/lib/tax/utils'
+import type { Database } from '@/types/database'
+import type { PricingMismatch, PricingResult } from '@/types/pricing'
+import type {
+  DiscountedUnits,
+  PromotionWithTargets,
+  RedemptionInput,
+} from '@/types/promotions'
+import type { TaxCategory, TaxSettings } from '@/types/tax'
+import type { CreateSalesOrderItemInput } from '@/types/sales'
+
+interface SalesOrderPricingInput {
+  customer_id: string
+  items: CreateSalesOrderItemInput[]
+  discount_amount?: number
+  shipping_amount?: number
+  coupon_code?: string | null
+}
+
+interface PricedProduct {
+  id: string
+  name: string
+  sku: string
+  category_id: string | null
+  selling_price: number | null
+  tax_category: TaxCategory | null
+}
+
+export interface SalesOrderPricing {
+  pricing: PricingResult
+  items: (CreateSalesOrderItemInput & {
+    tax_amount: number
+    discounted_units: DiscountedUnits[] | null
+  })[]
+  redemptions: RedemptionInput[] // Promotions used, for the usage ledger
+}
+
+/**
+ * Price an order for a company. Every lookup is scoped to the company since
+ * this runs with the service role.
+ */
+export async function priceSalesOrder(
+  supabase: SupabaseClient<Database>,
+  companyId: string,
+  input: SalesOrderPricingInput
+): Promise<SalesOrderPricing> {
+  if (!input.items || input.items.length === 0) {
+    throw new Error('Order must have at least one item')
+  }
+
+  const productIds = [...new Set(input.items.map(item => item.product_id))]
+  const promotionIds = [
+    ...new Set(
+      input.items
+        .map(item => item.promotion_id)
+        .filter((id): id is string => !!id)
+    ),
+  ]
+
+  const couponCode = (input.coupon_code || '').trim().toUpperCase()
+
+  const [
+    productsResult,
+    promotionsResult,
+    settingsResult,
+    customerResult,
+    voucherResult,
+    profileResult,
+  ] = await Promise.all([
+    supabase
+      .from('products')
+      .select('id, name, sku, category_id, selling_price, tax_category')
+      .eq('company_id', companyId)
+      .in('id', productIds),
+    promotionIds.length > 0
+      ? supabase
+          .from('promotions')
+          .select(
+            '*, products:promotion_products(id:product_id), categories:promotion_categories(id:category_id)'
+          )
+          .eq('company_id', companyId)
+          .in('id', promotionIds)
+      : Promise.resolve({ data: [], error: null }),
+    supabase
+      .from('tax_settings')
+      .select('*')
+      .eq('company_id', companyId)
+      .maybeSingle(),
+    supabase
+      .from('customers')
+      .select('id, is_tax_exempt, category:customer_categories(name)')
+      .eq('company_id', companyId)
+      .eq('id', input.customer_id)
+      .maybeSingle(),
+    couponCode
+      ? supabase
+          .from('promotion_vouchers')
+          .select('promotion_id')
+          .eq('company_id', companyId)
+          .eq('code', couponCode)
+          .maybeSingle()
+      : Promise.resolve({ data: null, error: null }),
+    supabase
+      .from('company_profiles')
+      .select('time_zone')
+      .eq('company_id', companyId)
+      .maybeSingle(),
+  ])
+
+  if (productsResult.error) throw productsResult.error
+  if (promotionsResult.error) throw promotionsResult.error
+  if (settingsResult.error) throw settingsResult.error
+  if (customerResult.error) throw customerResult.error
+  if (voucherResult.error) throw voucherResult.error
+  if (profileResult.error) throw profileResult.error
+
+  // Type assertions for Supabase responses
+  const products = new Map(
+    ((productsResult.data || []) as PricedProduct[]).map(product => [
+      product.id,
+      product,
+    ])
+  )
+  const promotions = new Map(
+    ((promotionsResult.data || []) as PromotionWithTargets[]).map(promotion => [
+      promotion.id,
+      promotion,
+    ])
+  )
+  const taxSettings =
+    (settingsResult.data as TaxSettings | null) || DEFAULT_TAX_SETTINGS
+  const customer = customerResult.data as {
+    id: string
+    is_tax_exempt: boolean
+    category: { name: string } | null
+  } | null
+
+  // Whether the voucher can still be used is checked when it is burned
+  const voucher = voucherResult.data as { promotion_id: string } | null
+  // Promotion windows follow the company's clock
+  const profile = profileResult.data as { time_zone: string } | null
+
+  if (!customer) throw new Error('Customer not found')
+  // Targeted promotions are for customers of the category of that name
+  const customerSegment = customer.category?.name
+
+  const lines = input.items.map(item => {
+    const product = products.get(item.product_id)
+    if (!product || product.selling_price === null) {
+      throw new Error(
+        `Product ${item.product_name || item.product_id} not found`
+      )
+    }
+    if (!(item.quantity > 0)) {
+      throw new Error(`Invalid quantity for ${product.name}`)
+    }
+
+    const promotion = item.promotion_id
+      ? promotions.get(item.promotion_id)
+      : null
+    if (item.promotion_id && !promotion) {
+      throw new Error(`Promotion for ${product.name} not found`)
+    }
+    if (promotion && (promotion.requires_code || promotion.uses_vouchers)) {
+      const accepted = promotion.uses_vouchers
+        ? voucher?.promotion_id === promotion.id
+        : promotion.code.toUpperCase() === couponCode
+      if (!accepted) {
+        throw new Error(`Coupon code required for ${promotion.name}`)
+      }
+    }
+    if (
+      promotion &&
+      !doesPromotionApplyToProduct(
+        promotion,
+        product.id,
+        product.category_id || undefined
+      )
+    ) {
+      throw new Error(`${promotion.name} does not apply to ${product.name}`)
+    }
+    if (
+      promotion &&
+      !doesPromotionApplyToCustomer(promotion, customerSegment)
+    ) {
+      throw new Error(
+        `${promotion.name} is only for ${promotion.customer_segment} customers`
+      )
+    }
+
+    return {
+      product_id: product.id,
+      quantity: item.quantity,
+      unit_price: Number(product.selling_price),
+      category_id: product.category_id,
+      tax_category: product.tax_category,
+      discount_amount: item.discount_amount,
+      promotion,
+    }
+  })
+
+  const pricing = calculatePricing(lines, {
+    tax_settings: taxSettings,
+    customer_tax_exempt: customer.is_tax_exempt,
+    order_discount_amount: input.discount_amount,
+    shipping_amount: input.shipping_amount,
+    time_zone: profile?.time_zone,
+    customer_segment: customerSegment,
+  })
+
+  // A promotion that gave nothing (e.g. short of its minimum purchase) is not
+  // redeemed
+  const discounts = new Map<string, number>()
+  pricing.lines.forEach(line => {
+    if (!line.promotion_id || line.discount_amount <= 0) return
+    discounts.set(
+      line.promotion_id,
+      (discounts.get(line.promotion_id) || 0) + line.discount_amount
+    )
+  })
+
+  return {
+    pricing,
+    redemptions: Array.from(discounts, ([promotion_id, discount_amount]) => ({
+      promotion_id,
+      discount_amount,
+      code:
+        promotions.get(promotion_id)?.requires_code ||
+        promotions.get(promotion_id)?.uses_vouchers
+          ? couponCode
+          : null,
+    })),
+    items: input.items.map((item, index) => {
+      const product = products.get(item.product_id) as PricedProduct
+      const line = pricing.lines[index]
+      return {
+        ...item,
+        product_name: product.name,
+        product_sku: product.sku,
+        unit_price: line.unit_price,
+        discount_amount: line.discount_amount,
+        discounted_units: line.discounted_units,
+        tax_amount: line.tax_amount,
+        subtotal: line.subtotal,
+      }
+    }),
+  }
+}
+
+/**
+ * List every submitted amount that differs from the recomputed order
+ */
+export function findSalesOrderMismatches(
+  input: SalesOrderPricingInput & {
+    subtotal?: number
+    tax_amount?: number
+    grand_total?: number
+  },
+  pricing: PricingResult
+): PricingMismatch[] {
+  const submitted: Record<string, number | undefined> = {
+    subtotal: input.subtotal,
+    tax_amount: input.tax_amount,
+    grand_total: input.grand_total,
+  }
+  const expected: Record<string, number> = {
+    subtotal: pricing.subtotal,
+    tax_amount: pricing.tax_amount,
+    grand_total: pricing.grand_total,
+  }
+
+  input.items.forEach((item, index) => {
+    const line = pricing.lines[index]
+    submitted[`items[${index}].unit_price`] = item.unit_price
+    submitted[`items[${index}].discount_amount`] = item.discount_amount
+    submitted[`items[${index}].subtotal`] = item.subtotal
+    expected[`items[${index}].unit_price`] = line.unit_price
+    expected[`items[${index}].discount_amount`] = line.discount_amount
+    expected[`items[${index}].subtotal`] = line.subtotal
+  })
+
+  return findPricingMismatches(submitted, expected)
+}
+
+/**
+ * Get the largest manual discount, in percent, staff may give on a sales
+ * order. It follows the POS discount approval threshold; owners give larger
+ * discounts themselves.
+ */
+export async function getSalesDiscountLimit(
+  supabase: SupabaseClient<Database>,
+  companyId: string
+): Promise<number> {
+  const { data, error } = await supabase
+    .from('pos_settings')
+    .select('approval_discount_percent')
+    .eq('company_id', companyId)
+    .maybeSingle()
+    .overrideTypes<{ approval_discount_percent: number }, { merge: false }>()
+
+  if (error) throw error
+
+  return Number(data?.approval_discount_percent ?? 100)
+}
+
+/**
+ * List the manual discounts above a percentage: line discounts not given by
+ * a promotion, against the line, and the order discount, against the
+ * subtotal
+ */
+export function findDiscountsOverLimit(
+  pricing: PricingResult,
+  limitPercent: number
+): string[] {
+  const overLimit = (discount: number, amount: number) =>
+    amount > 0 && (discount / amount) * 100 > limitPercent
+
+  const fields = pricing.lines
+    .map((line, index) =>
+      !line.promotion_id && overLimit(line.discount_amount, line.gross_amount)
+        ? `items[${index}].discount_amount`
+        : null
+    )
+    .filter((field): field is string => !!field)
+
+  if (overLimit(pricing.order_discount_amount, pricing.subtotal)) {
+    fields.push('discount_amount')
+  }
+
+  return fields
+}
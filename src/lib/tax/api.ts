@@ -0,0 +1,135 @@
+/**
+ * Tax API
+ * Company tax settings plus the product/customer lookups the tax
+ * calculation needs
+ */
+
+import { createClientSupabase } from '@/lib/supabase/client'
+import { DEFAULT_TAX_SETTINGS } from '@/lib/tax/utils'
+import type {
+  TaxCategory,
+  TaxSettings,
+  UpdateTaxSettingsInput,
+} from '@/types/tax'
+
+const supabase = createClientSupabase()
+
+// Helper function to get current user's company_id
+async function getCurrentCompanyId(): Promise<string> {
+  const { data: userData } = await supabase.auth.getUser()
+  if (!userData.user) throw new Error('Not authenticated')
+
+  const { data: user } = await supabase
+    .from('users')
+    .select('company_id')
+    .eq('id', userData.user.id)
+    .single()
+    .overrideTypes<{ company_id: string | null }, { merge: false }>()
+
+  if (!user?.company_id) throw new Error('User company not found')
+  return user.company_id
+}
+
+/**
+ * Get tax settings for the current user's company (defaults if none saved)
+ */
+export async function getTaxSettings(): Promise<TaxSettings> {
+  const { data, error } = await supabase
+    .from('tax_settings')
+    .select('*')
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching tax settings:', error)
+    throw new Error(`Failed to fetch tax settings: ${error.message}`)
+  }
+
+  return (data as TaxSettings | null) || (DEFAULT_TAX_SETTINGS as TaxSettings)
+}
+
+/**
+ * Create or update tax settings for the current user's company
+ */
+export async function updateTaxSettings(
+  input: UpdateTaxSettingsInput
+): Promise<TaxSettings> {
+  if (
+    input.ppn_rate !== undefined &&
+    (input.ppn_rate < 0 || input.ppn_rate > 100)
+  ) {
+    throw new Error('PPN rate must be between 0 and 100')
+  }
+
+  const company_id = await getCurrentCompanyId()
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const query = supabase.from('tax_settings') as any
+  const { data, error } = await query
+    .upsert({
+      company_id,
+      ...input,
+      updated_at: new Date().toISOString(),
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('Error updating tax settings:', error)
+    throw new Error(`Failed to update tax settings: ${error.message}`)
+  }
+
+  return data
+}
+
+/**
+ * Get the tax category of each product, keyed by product ID
+ */
+export async function getProductTaxCategories(
+  product_ids: string[]
+): Promise<Record<string, TaxCategory>> {
+  if (product_ids.length === 0) return {}
+
+  const { data, error } = await supabase
+    .from('products')
+    .select('id, tax_category')
+    .in('id', product_ids)
+    .overrideTypes<
+      { id: string; tax_category: TaxCategory | null }[],
+      { merge: false }
+    >()
+
+  if (error) {
+    console.error('Error fetching product tax categories:', error)
+    throw new Error(`Failed to fetch product tax categories: ${error.message}`)
+  }
+
+  return Object.fromEntries(
+    (data || []).map(product => [
+      product.id,
+      product.tax_category || 'standard',
+    ])
+  )
+}
+
+/**
+ * Check whether a customer is exempt from PPN
+ */
+export async function isCustomerTaxExempt(
+  customer_id: string | null | undefined
+): Promise<boolean> {
+  if (!customer_id) return false
+
+  const { data, error } = await supabase
+    .from('customers')
+    .select('is_tax_exempt')
+    .eq('id', customer_id)
+    .maybeSingle()
+    .overrideTypes<{ is_tax_exempt: boolean }, { merge: false }>()
+
+  if (error) {
+    console.error('Error fetching customer tax status:', error)
+    throw new Error(`Failed to fetch customer tax status: ${error.message}`)
+  }
+
+  return !!data?.is_tax_exempt
+}
@@ -0,0 +1,78 @@
+/**
+ * Tax Calculation Utilities
+ * Pure PPN calculation used by the POS cart, sales orders and receipts
+ */
+
+import type {
+  TaxableLine,
+  TaxCalculation,
+  TaxLineResult,
+  TaxOptions,
+  TaxSettings,
+} from '@/types/tax'
+
+export const DEFAULT_TAX_SETTINGS: Pick<
+  TaxSettings,
+  'ppn_rate' | 'prices_include_tax'
+> = {
+  ppn_rate: 11,
+  prices_include_tax: false,
+}
+
+/**
+ * Calculate DPP and PPN for a set of lines.
+ * Exclusive pricing adds PPN on top of the line amount; inclusive pricing
+ * extracts it from the amount. Exempt products and tax-exempt customers
+ * carry no PPN. Amounts are rounded to whole Rupiah per line.
+ */
+export function calculateTax(
+  lines: TaxableLine[],
+  settings: Pick<TaxSettings, 'ppn_rate' | 'prices_include_tax'>,
+  options: TaxOptions = {}
+): TaxCalculation {
+  const rate = Number(settings.ppn_rate) || 0
+
+  const lineResults: TaxLineResult[] = lines.map(line => {
+    const amount = Number(line.amount) || 0
+    const taxable =
+      rate > 0 &&
+      !options.customer_tax_exempt &&
+      (line.tax_category || 'standard') === 'standard'
+
+    if (!taxable) {
+      return { amount, dpp_amount: 0, tax_amount: 0 }
+    }
+
+    if (settings.prices_include_tax) {
+      const dpp_amount = Math.round((amount * 100) / (100 + rate))
+      return { amount, dpp_amount, tax_amount: amount - dpp_amount }
+    }
+
+    return {
+      amount,
+      dpp_amount: amount,
+      tax_amount: Math.round((amount * rate) / 100),
+    }
+  })
+
+  const net_amount = lineResults.reduce((sum, line) => sum + line.amount, 0)
+  const dpp_amount = lineResults.reduce((sum, line) => sum + line.dpp_amount, 0)
+  const tax_amount = lineResults.reduce((sum, line) => sum + line.tax_amount, 0)
+
+  return {
+    tax_rate: rate,
+    prices_include_tax: settings.prices_include_tax,
+    net_amount,
+    dpp_amount,
+    tax_amount,
+    total: settings.prices_include_tax ? net_amount : net_amount + tax_amount,
+    lines: lineResults,
+  }
+}
+
+/**
+ * Label for the PPN line on receipts and invoices, e.g. "PPN 11%"
+ */
+export function formatTaxLabel(tax_rate: number): string {
+  return `PPN ${Number(tax_rate).toLocaleString('id-ID')}%`
+}
@@ -30,3 +30,14 @@ export function formatDate(date: string | Date): string {
     minute: '2-digit',
   }).format(d)
 }
+
+/**
+ * Escape text for use in HTML content and attribute values
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
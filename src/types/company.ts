@@ -0,0 +1,100 @@
+// Company Module Types
+// Company profile and the document templates that brand printed documents
+
+export type BrandedDocumentType = 'receipt' | 'sales_invoice'
+
+// Indonesian time zones: WIB, WITA and WIT
+export type CompanyTimeZone = 'Asia/Jakarta' | 'Asia/Makassar' | 'Asia/Jayapura'
+
+export interface CompanyProfile {
+  company_id: string
+  legal_name: string | null
+  npwp: string | null // Nomor Pokok Wajib Pajak
+  address: string | null
+  phone: string | null
+  email: string | null
+  logo_url: string | null
+  footer_message: string | null
+  return_policy: string | null
+  time_zone: CompanyTimeZone // Dates such as promotion periods follow it
+  created_at: string
+  updated_at: string
+}
+
+export interface DocumentTemplate {
+  id: string
+  company_id: string
+  document_type: BrandedDocumentType
+  title: string | null
+  header_text: string | null
+  footer_text: string | null // Replaces the profile footer message when set
+  terms_text: string | null
+  show_logo: boolean
+  show_npwp: boolean
+  show_return_policy: boolean
+  created_at: string
+  updated_at: string
+}
+
+export interface UpdateCompanyProfileInput {
+  legal_name?: string | null
+  npwp?: string | null
+  address?: string | null
+  phone?: string | null
+  email?: string | null
+  logo_url?: string | null
+  footer_message?: string | null
+  return_policy?: string | null
+  time_zone?: CompanyTimeZone
+}
+
+export interface UpdateDocumentTemplateInput {
+  title?: string | null
+  header_text?: string | null
+  footer_text?: string | null
+  terms_text?: string | null
+  show_logo?: boolean
+  show_npwp?: boolean
+  show_return_policy?: boolean
+}
+
+// Company details as printed on a document
+export interface DocumentCompany {
+  name: string
+  address?: string
+  phone?: string
+  email?: string
+  npwp?: string
+  logo_url?: string
+}
+
+// Profile and template resolved for one document type
+export interface DocumentBranding {
+  document_type: BrandedDocumentType
+  company: DocumentCompany
+  title: string
+  header: string | null
+  footer: string[] // Printed lines, return policy included when enabled
+  terms: string | null
+}
+
+// Content of a printable A4 document (invoice, delivery order, ...)
+export interface PrintableDocument {
+  number: string
+  date: string
+  party: {
+    label: string // e.g. "Bill To", "Ship To", "Supplier"
+    name: string
+    lines: string[]
+  }
+  meta: { label: string; value: string }[]
+  columns: ('quantity' | 'unit_price' | 'amount')[]
+  lines: {
+    description: string
+    quantity: number
+    unit_price?: number
+    amount?: number
+  }[]
+  totals: { label: string; amount: number; emphasis?: boolean }[]
+  notes: string | null
+}
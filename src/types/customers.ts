@@ -18,6 +18,7 @@ export interface Customer {
   address: string | null
   category_id: string | null
   credit_limit: number
+  is_tax_exempt: boolean
   status: 'active' | 'inactive'
   created_at: string
   updated_at: string
@@ -33,6 +34,7 @@ export interface CreateCustomerInput {
   address?: string
   category_id?: string
   credit_limit?: number
+  is_tax_exempt?: boolean
   status?: 'active' | 'inactive'
 }
 
@@ -58,3 +60,32 @@ export interface PaginatedResponse<T> {
   limit: number
   totalPages: number
 }
+
+// Accounts receivable
+export interface ReceivableInvoice {
+  id: string
+  invoice_number: string
+  invoice_date: string
+  due_date: string
+  status: 'unpaid' | 'partial' | 'overdue'
+  grand_total: number
+  paid_amount: number
+  remaining_amount: number
+  pos_transaction_id: string | null
+  days_overdue: number // 0 when not yet due
+}
+
+export interface AgingBucket {
+  label: string
+  min_days: number // Days past due, inclusive
+  max_days: number | null // Inclusive; null for the open-ended bucket
+  amount: number
+}
+
+export interface CustomerReceivables {
+  credit_limit: number
+  outstanding: number
+  available_credit: number
+  aging: AgingBucket[]
+  invoices: ReceivableInvoice[]
+}
@@ -1,6 +1,8 @@
 // Inventory Module TypeScript Types
 // Module 3: Products, Stock, Warehouses
 
+import type { TaxCategory } from '@/types/tax'
+
 export type MovementType = 'IN' | 'OUT' | 'TRANSFER' | 'ADJUSTMENT'
 
 // ============================================
@@ -102,6 +104,7 @@ export interface Product {
   min_stock: number | null
   max_stock: number | null
   reorder_point: number | null
+  tax_category: TaxCategory
   is_active: boolean | null
   created_at: string | null
   updated_at: string | null
@@ -132,6 +135,7 @@ export interface CreateProductInput {
   min_stock?: number
   max_stock?: number
   reorder_point?: number
+  tax_category?: TaxCategory
   is_active?: boolean
 }
 
@@ -148,6 +152,7 @@ export interface UpdateProductInput {
   min_stock?: number
   max_stock?: number
   reorder_point?: number
+  tax_category?: TaxCategory
   is_active?: boolean
 }
 
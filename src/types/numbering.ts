@@ -0,0 +1,32 @@
+// Document Numbering Types
+// Per-company sequences used by every module that issues document numbers
+
+export type DocumentType =
+  | 'sales_order'
+  | 'sales_invoice'
+  | 'sales_payment'
+  | 'delivery_order'
+  | 'pos_transaction'
+  | 'pos_return'
+  | 'pos_z_report'
+
+export type ResetPeriod = 'never' | 'daily' | 'monthly' | 'yearly'
+
+export interface DocumentSequence {
+  id: string
+  company_id: string
+  document_type: DocumentType
+  prefix: string
+  reset_period: ResetPeriod
+  padding: number
+  period_key: string
+  last_number: number
+  created_at: string
+  updated_at: string
+}
+
+export interface UpdateDocumentSequenceInput {
+  prefix?: string
+  reset_period?: ResetPeriod
+  padding?: number
+}
@@ -1,23 +1,57 @@
 // POS Module Types
 
+import type {
+  CompanyTimeZone,
+  DocumentBranding,
+  DocumentCompany,
+} from '@/types/company'
+import type { Customer } from '@/types/customers'
+import type { Product } from '@/types/inventory'
+import type {
+  DiscountedUnits,
+  PromotionWithTargets,
+  RedemptionInput,
+} from '@/types/promotions'
+import type { TaxCategory, TaxSettings } from '@/types/tax'
+
 // Base Entity Types
 export interface PosShift {
   id: string
   company_id: string
   cashier_id: string
+  register_id: string | null
+  warehouse_id: string | null // The register's warehouse, when opened on one
   opened_at: string
   closed_at: string | null
   opening_cash: number
+  opening_denominations: DenominationCounts | null
   closing_cash: number | null
   expected_cash: number | null
   actual_cash: number | null
+  closing_denominations: DenominationCounts | null
   variance: number | null
+  late_sales_count: number // Offline sales synced after the shift closed
+  after_z_sales_count: number // Of those, synced after its Z-report
   notes: string | null
   status: ShiftStatus
   created_at: string
   updated_at: string
 }
 
+export interface PosRegister {
+  id: string
+  company_id: string
+  name: string
+  code: string
+  warehouse_id: string
+  printer_settings: Partial<PrinterSettings> // Terminal defaults
+  receipt_header: string | null
+  receipt_footer: string | null
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
 export interface PosTransaction {
   id: string
   company_id: string
@@ -28,10 +62,18 @@ export interface PosTransaction {
   subtotal: number
   discount_amount: number
   tax_amount: number
+  tax_rate: number
+  prices_include_tax: boolean
+  dpp_amount: number
   total: number
+  amount_tendered: number // Sum of tendered payment lines
+  change_amount: number // Cash handed back to the customer
   payment_method: PaymentMethod
   payment_status: PaymentStatus
   transaction_date: string
+  client_id: string | null // Device-generated id of an offline sale
+  offline_number: string | null // Number printed while offline
+  after_z_report: boolean // Synced after its shift's Z-report was issued
   notes: string | null
   created_at: string
   updated_at: string
@@ -45,6 +87,7 @@ export interface PosTransactionItem {
   unit_price: number
   discount_amount: number
   promotion_id: string | null
+  discounted_units: DiscountedUnits[] | null // Null: spread evenly
   subtotal: number
   created_at: string
   updated_at: string
@@ -54,10 +97,118 @@ export interface PosPayment {
   id: string
   transaction_id: string
   payment_method: PaymentMethod
-  amount: number
+  amount: number // Applied to the sale (tendered minus change)
+  tendered_amount: number
+  change_amount: number
   reference_number: string | null
   payment_date: string
   notes: string | null
+  status: PosPaymentStatus // Pending while its gateway charge is outstanding
+  created_at: string
+  updated_at: string
+}
+
+export interface PosReturn {
+  id: string
+  company_id: string
+  return_number: string
+  transaction_id: string
+  shift_id: string | null
+  cashier_id: string
+  refund_method: RefundMethod
+  refund_amount: number
+  credited_amount: number // Taken off the sale's credit invoice, not paid out
+  reason: string | null
+  notes: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface PosReturnItem {
+  id: string
+  return_id: string
+  transaction_item_id: string
+  product_id: string
+  quantity: number
+  refund_amount: number
+  created_at: string
+}
+
+export interface PosSettings {
+  company_id: string
+  allow_stock_override: boolean
+  credit_terms_days: number // Due date of credit sale invoices
+  // Supervisor approval policy
+  approval_discount_percent: number // Line discounts above this need approval
+  approval_price_override: boolean
+  approval_void: boolean // Voiding a paid transaction
+  approval_refund: boolean
+  qris_payload: string | null // Merchant's static QRIS, shown at checkout
+  payment_gateway: PaymentGatewayId | null // Null records a manual reference
+  qris_expiry_minutes: number // Lifetime of a dynamic QRIS charge
+  created_at: string
+  updated_at: string
+}
+
+export interface PosParkedCart {
+  id: string
+  company_id: string
+  shift_id: string
+  cashier_id: string
+  customer_id: string | null
+  items: CartItem[]
+  total: number
+  notes: string | null
+  status: ParkedCartStatus
+  recalled_by: string | null
+  recalled_shift_id: string | null
+  recalled_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface PosCashMovement {
+  id: string
+  company_id: string
+  shift_id: string
+  movement_type: CashMovementType
+  reason: CashMovementReason
+  amount: number
+  notes: string | null
+  approval_id: string | null // Supervisor approval the movement used
+  approved_by: string
+  created_by: string
+  created_at: string
+}
+
+export interface PosApproval {
+  id: string
+  company_id: string
+  action: PosApprovalAction
+  transaction_id: string | null // Set once a cart-time approval is linked
+  shift_id: string | null
+  product_id: string | null
+  original_value: number | null
+  new_value: number | null
+  description: string | null
+  requested_by: string
+  approved_by: string
+  approved_at: string
+}
+
+export interface PosQrisCharge {
+  id: string
+  company_id: string
+  transaction_id: string
+  payment_id: string
+  gateway: PaymentGatewayId
+  external_id: string // The gateway's own id for the charge
+  qris_payload: string
+  amount: number
+  status: QrisChargeStatus
+  expires_at: string
+  paid_at: string | null
+  created_by: string | null
   created_at: string
   updated_at: string
 }
@@ -75,6 +226,36 @@ export type PaymentMethod =
 
 export type PaymentStatus = 'pending' | 'paid' | 'refunded' | 'cancelled'
 
+export type PosPaymentStatus = 'pending' | 'paid' | 'cancelled'
+
+export type RefundMethod = Exclude<PaymentMethod, 'split'>
+
+export type PaymentGatewayId = 'mock'
+
+export type QrisChargeStatus = 'pending' | 'paid' | 'expired' | 'cancelled'
+
+export type ParkedCartStatus = 'parked' | 'recalled' | 'cancelled'
+
+export type CashMovementType = 'pay_in' | 'pay_out'
+
+export type CashMovementReason =
+  | 'petty_cash'
+  | 'change_top_up'
+  | 'safe_drop'
+  | 'other'
+
+export type PosApprovalAction =
+  | 'discount'
+  | 'price_override'
+  | 'void'
+  | 'refund'
+  | 'promotion_limit'
+  | 'cash_movement'
+  | 'stock_override'
+
+// Count of notes/coins per Rupiah denomination, keyed by face value
+export type DenominationCounts = Record<string, number>
+
 // Extended Types with Relations
 export interface PosShiftWithCashier extends PosShift {
   cashier: {
@@ -82,6 +263,45 @@ export interface PosShiftWithCashier extends PosShift {
     name: string
     email: string
   }
+  register?: {
+    id: string
+    name: string
+    code: string
+  } | null
+}
+
+export interface PosRegisterWithRelations extends PosRegister {
+  warehouse?: {
+    id: string
+    name: string
+    code: string
+  } | null
+}
+
+export interface PosCashMovementWithRelations extends PosCashMovement {
+  approver?: {
+    id: string
+    name: string
+  } | null
+  creator?: {
+    id: string
+    name: string
+  } | null
+}
+
+export interface PosApprovalWithRelations extends PosApproval {
+  requester?: {
+    id: string
+    name: string
+  } | null
+  approver?: {
+    id: string
+    name: string
+  } | null
+  product?: {
+    id: string
+    name: string
+  } | null
 }
 
 export interface PosTransactionWithRelations extends PosTransaction {
@@ -99,6 +319,15 @@ export interface PosTransactionWithRelations extends PosTransaction {
   }
   items: PosTransactionItemWithProduct[]
   payments: PosPayment[]
+  redemptions?: PosTransactionRedemption[]
+}
+
+// Promotion a sale redeemed, as its receipt prints it
+export interface PosTransactionRedemption {
+  promotion_id: string
+  discount_amount: number
+  explanation: string | null
+  promotion?: { name: string } | null
 }
 
 export interface PosTransactionItemWithProduct extends PosTransactionItem {
@@ -115,16 +344,40 @@ export interface PosTransactionItemWithProduct extends PosTransactionItem {
   } | null
 }
 
+export interface PosReturnWithItems extends PosReturn {
+  cashier?: {
+    id: string
+    name: string
+  } | null
+  items: (PosReturnItem & {
+    product: {
+      id: string
+      name: string
+      sku: string
+    }
+  })[]
+}
+
+export interface PosParkedCartWithRelations extends PosParkedCart {
+  customer?: Customer | null
+  cashier?: {
+    id: string
+    name: string
+  } | null
+}
+
 // Filter Types
 export interface PosShiftFilters {
   status?: ShiftStatus
   cashier_id?: string
+  register_id?: string
   date_from?: string
   date_to?: string
 }
 
 export interface PosTransactionFilters {
   shift_id?: string
+  register_id?: string // Through the transaction's shift
   customer_id?: string
   cashier_id?: string
   payment_method?: PaymentMethod
@@ -137,12 +390,57 @@ export interface PosTransactionFilters {
 // Input Types for Creating/Updating
 export interface CreateShiftInput {
   opening_cash: number
+  opening_denominations?: DenominationCounts
+  register_id?: string // Sells from the register's warehouse
+  warehouse_id?: string // Without a register; defaults to the default warehouse
   notes?: string
 }
 
+export interface CreateRegisterInput {
+  name: string
+  code: string
+  warehouse_id: string
+  printer_settings?: Partial<PrinterSettings>
+  receipt_header?: string | null
+  receipt_footer?: string | null
+  is_active?: boolean
+}
+
+export interface UpdateRegisterInput extends Partial<CreateRegisterInput> {
+  id: string
+}
+
 export interface CloseShiftInput {
   closing_cash: number
   actual_cash: number
+  closing_denominations?: DenominationCounts
+  notes?: string
+}
+
+export interface CreateCashMovementInput {
+  shift_id: string
+  movement_type: CashMovementType
+  reason: CashMovementReason
+  amount: number
+  approval_id: string // cash_movement approval for this shift and amount
+  notes?: string
+}
+
+export interface CreateApprovalInput {
+  action: PosApprovalAction
+  transaction_id?: string
+  shift_id?: string
+  product_id?: string
+  original_value?: number
+  new_value?: number
+  description?: string
+}
+
+export interface ParkCartInput {
+  shift_id: string
+  customer_id?: string | null
+  items: CartItem[]
+  total: number
   notes?: string
 }
 
@@ -151,8 +449,16 @@ export interface CreateTransactionInput {
   customer_id?: string
   items: CreateTransactionItemInput[]
   payment_method: PaymentMethod
-  payments?: CreatePaymentInput[] // For split payments
+  payments?: CreatePaymentInput[] // Tendered lines; defaults to the exact total
   notes?: string
+  override_stock?: boolean // Sell beyond available stock (if allowed)
+  promotion_limit_approval_id?: string // Offline sale approved over a usage limit
+  stock_override_approval_id?: string // Offline sale approved without stock
+  approval_ids?: string[] // Cart-time supervisor approvals the sale uses
+  // Offline sales replayed on sync
+  client_id?: string
+  offline_number?: string
+  transaction_date?: string
 }
 
 export interface CreateTransactionItemInput {
@@ -161,13 +467,41 @@ export interface CreateTransactionItemInput {
   unit_price: number
   discount_amount?: number
   promotion_id?: string
+  discounted_units?: DiscountedUnits[] | null
+  redemptions?: RedemptionInput[] // Promotions in the discount, for the ledger
 }
 
 export interface CreatePaymentInput {
   payment_method: PaymentMethod
-  amount: number
+  amount: number // Amount tendered
   reference_number?: string
   notes?: string
+  status?: Exclude<PosPaymentStatus, 'cancelled'> // Pending awaits a gateway
+}
+
+export interface CreateReturnInput {
+  transaction_id: string
+  refund_method: RefundMethod
+  items: CreateReturnItemInput[]
+  reason?: string
+  notes?: string
+}
+
+export interface CreateReturnItemInput {
+  transaction_item_id: string
+  quantity: number
+}
+
+export interface UpdatePosSettingsInput {
+  allow_stock_override?: boolean
+  credit_terms_days?: number
+  approval_discount_percent?: number
+  approval_price_override?: boolean
+  approval_void?: boolean
+  approval_refund?: boolean
+  qris_payload?: string | null
+  payment_gateway?: PaymentGatewayId | null
+  qris_expiry_minutes?: number
 }
 
 // Cart Types for POS Interface
@@ -180,6 +514,12 @@ export interface CartItem {
   discount_amount: number
   promotion_id?: string | null
   promotion_name?: string | null
+  discounted_units?: DiscountedUnits[] | null // Units the promotions fell on
+  redemptions?: RedemptionInput[] // What each promotion gave the line
+  manual_discount?: boolean // Discount set by the cashier; promotions skip the line
+  tax_category?: TaxCategory
+  list_price?: number // Selling price before a price override
+  approval_ids?: string[] // Supervisor approvals given for this line
   subtotal: number
 }
 
@@ -203,11 +543,100 @@ export interface ShiftSummary {
   cash_sales: number
   card_sales: number
   transfer_sales: number
+  ewallet_sales: number
+  credit_sales: number
+  receivable_payments: number // Credit sale invoices collected in the shift
+  cash_receivable_payments: number
+  total_refunds: number
+  cash_refunds: number
+  cash_pay_ins: number // Cash put into the drawer outside of sales
+  cash_pay_outs: number // Cash taken out (petty cash, safe drops)
+  expected_cash: number
+  actual_cash: number | null
+  variance: number | null
+}
+
+// Shift Report Types
+export type ShiftReportType = 'X' | 'Z' // X: mid-shift snapshot, Z: end of shift
+
+export interface ShiftReportAmount {
+  label: string
+  count: number // Transactions, units sold or times applied
+  amount: number
+}
+
+export interface ShiftReport {
+  report_type: ShiftReportType
+  report_number: string | null // Z-reports only
+  generated_at: string
+  shift_id: string
+  cashier: string
+  register?: string | null // Missing on reports issued before registers
+  warehouse: string | null
+  opened_at: string
+  closed_at: string | null
+  total_transactions: number
+  gross_sales: number // Before line discounts
+  discount_amount: number
+  net_sales: number
+  dpp_amount: number
+  tax_amount: number
+  payments: ShiftReportAmount[]
+  categories: ShiftReportAmount[]
+  top_products: ShiftReportAmount[]
+  promotions: ShiftReportAmount[]
+  manual_discount_amount: number // Line discounts without a promotion
+  refunds: ShiftReportAmount
+  cash_refunds: number
+  voids: ShiftReportAmount
+  receivable_payments: number
+  opening_cash: number
+  cash_sales: number
+  cash_receivable_payments: number
+  cash_pay_ins: number
+  cash_pay_outs: number
   expected_cash: number
   actual_cash: number | null
   variance: number | null
 }
 
+export interface PosZReport {
+  id: string
+  company_id: string
+  shift_id: string
+  report_number: string
+  report: ShiftReport // As issued; report_number is kept on the row
+  issued_by: string
+  issued_at: string
+}
+
+export interface PosZReportWithRelations extends PosZReport {
+  issuer?: {
+    id: string
+    name: string
+  } | null
+}
+
+// Printed section of a shift report, shared by the HTML and ESC/POS renderers
+export interface ShiftReportSection {
+  title: string
+  rows: { label: string; value: string; emphasis?: boolean }[]
+}
+
+export interface SettledPayment extends CreatePaymentInput {
+  applied_amount: number // Portion of the tendered amount kept for the sale
+  change_amount: number
+}
+
+export interface PaymentSettlement {
+  payment_method: PaymentMethod // 'split' when more than one method is used
+  lines: SettledPayment[]
+  amount_tendered: number
+  change_amount: number
+  remaining_amount: number // Still to be paid
+  error: string | null
+}
+
 export interface DailySalesSummary {
   date: string
   total_transactions: number
@@ -215,3 +644,168 @@ export interface DailySalesSummary {
   total_items_sold: number
   average_transaction: number
 }
+
+// Offline Types
+export type OfflineSyncStatus =
+  | 'pending'
+  | 'syncing'
+  | 'synced'
+  | 'conflict'
+  | 'failed'
+
+export type OfflineConflictType = 'stock' | 'promotion'
+
+export interface OfflineTransaction {
+  local_id: string // Sent as client_id so replays are idempotent
+  offline_number: string
+  sold_at: string
+  shift_id: string
+  total: number
+  input: CreateTransactionInput
+  status: OfflineSyncStatus
+  conflict_type: OfflineConflictType | null
+  error: string | null
+  accept_conflict: boolean // Cashier chose to sync despite the conflict
+  approval_id?: string | null // Supervisor approval for a promotion conflict
+  transaction_id: string | null
+  transaction_number: string | null
+}
+
+export interface PosOfflineCache {
+  shift: PosShift | null
+  settings: PosSettings | null
+  products: Product[]
+  promotions: PromotionWithTargets[]
+  customers: Customer[]
+  tax_settings: TaxSettings | null
+  receipt_branding: DocumentBranding | null
+  time_zone?: CompanyTimeZone | null // Missing from caches made before it
+  cached_at: string
+}
+
+export interface OfflineSyncResult {
+  synced: number
+  conflicts: number
+  failed: number
+  pending: number
+}
+
+// Barcode Types
+export type WeightedBarcodeKind = 'weight' | 'price'
+
+export interface WeightedBarcode {
+  item_code: string // Product code embedded after the prefix
+  kind: WeightedBarcodeKind
+  value: number // Kilograms for weight, Rupiah for price
+}
+
+export interface BarcodeMatch<TProduct> {
+  product: TProduct
+  quantity: number
+  weighted: WeightedBarcode | null
+}
+
+// Receipt Types
+export type ReceiptCompany = DocumentCompany
+
+export interface ReceiptLine {
+  name: string
+  quantity: number
+  unit_price: number
+  discount_amount: number
+  discount_note: string | null // Which units were discounted, e.g. "1 gratis"
+  subtotal: number
+}
+
+export interface ReceiptPayment {
+  method: string
+  amount: number // Tendered amount as handed over
+}
+
+export interface ReceiptPromotion {
+  description: string // The explanation shown at the register
+  discount_amount: number
+}
+
+// Everything printed on a receipt, shared by the HTML and ESC/POS renderers
+export interface ReceiptModel {
+  company: ReceiptCompany
+  header: string | null
+  transaction_number: string
+  offline_number: string | null
+  date: string
+  cashier: string
+  customer: string | null
+  lines: ReceiptLine[]
+  promotions: ReceiptPromotion[]
+  subtotal: number
+  discount_amount: number
+  dpp_amount: number
+  tax_label: string
+  tax_amount: number
+  total: number
+  payment_method: string
+  payments: ReceiptPayment[]
+  change_amount: number
+  has_cash_payment: boolean
+  footer: string[]
+}
+
+// 1-bit image, rows packed 8 pixels per byte with the MSB leftmost
+export interface ReceiptBitmap {
+  width: number // Pixels; a multiple of 8
+  height: number
+  data: Uint8Array
+}
+
+// Printer Types
+export type PrinterTransport = 'html' | 'usb' | 'serial' | 'bridge'
+
+export type ReceiptPaperWidth = 58 | 80
+
+export type ReceiptCodePage = 'cp437' | 'cp858' | 'cp1252'
+
+export type ReceiptBarcodeType = 'none' | 'code128' | 'qr'
+
+// Stored per device: each register has its own printer
+export interface PrinterSettings {
+  transport: PrinterTransport
+  paper_width: ReceiptPaperWidth
+  code_page: ReceiptCodePage
+  print_logo: boolean
+  barcode: ReceiptBarcodeType
+  open_drawer: boolean // Kick the drawer on cash sales
+  bridge_url: string
+  serial_baud_rate: number
+}
+
+// Customer Display Types
+export type CustomerDisplayStatus = 'idle' | 'cart' | 'payment' | 'complete'
+
+export interface CustomerDisplayLine {
+  name: string
+  quantity: number
+  unit_price: number
+  discount_amount: number
+  promotion_name: string | null
+  subtotal: number
+}
+
+// Mirrored from the cashier's tab to the customer-facing screen
+export interface CustomerDisplayState {
+  status: CustomerDisplayStatus
+  customer_name: string | null
+  lines: CustomerDisplayLine[]
+  subtotal: number
+  discount_amount: number
+  tax_label: string
+  tax_amount: number
+  total: number
+  qris_payload: string | null // Dynamic QRIS for the amount due, at payment
+  qris_amount: number | null // Amount the QRIS carries, when not the total
+  change_amount: number | null // Once the sale is complete
+}
+
+export type CustomerDisplayMessage =
+  | { type: 'state'; state: CustomerDisplayState }
+  | { type: 'request_state' } // Sent by a display that has just opened
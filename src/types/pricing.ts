@@ -0,0 +1,65 @@
+// Pricing Types
+// Line and document totals shared by POS, sales orders and invoices
+
+import type {
+  DiscountedUnits,
+  Promotion,
+  PromotionWithTargets,
+} from '@/types/promotions'
+import type { TaxCategory, TaxSettings } from '@/types/tax'
+
+export interface PricingLineInput {
+  product_id: string
+  quantity: number
+  unit_price: number
+  tax_category?: TaxCategory | null
+  // Manual line discount; ignored when a promotion is given
+  discount_amount?: number
+  // Units the line discount fell on, when already worked out (POS carts)
+  discounted_units?: DiscountedUnits[] | null
+  // With its product and category targets, when it has any
+  promotion?: Promotion | PromotionWithTargets | null
+  category_id?: string | null // Product category, for promotion targets
+}
+
+export interface PricedLine {
+  product_id: string
+  quantity: number
+  unit_price: number
+  gross_amount: number // quantity × unit_price
+  discount_amount: number // Line discount (manual or promotion)
+  promotion_id: string | null
+  discounted_units: DiscountedUnits[] | null // Null: spread evenly
+  subtotal: number // gross_amount - discount_amount
+  dpp_amount: number
+  tax_amount: number
+}
+
+export interface PricingOptions {
+  tax_settings: Pick<TaxSettings, 'ppn_rate' | 'prices_include_tax'>
+  customer_tax_exempt?: boolean
+  order_discount_amount?: number // Document-level discount after line discounts
+  shipping_amount?: number
+  time_zone?: string | null // Company time zone, for promotion windows
+  customer_segment?: string | null // Customer category, for targeted promotions
+}
+
+export interface PricingResult {
+  lines: PricedLine[]
+  gross_amount: number // Sum of line gross amounts
+  line_discount_amount: number // Sum of line discounts
+  subtotal: number // Sum of line subtotals
+  order_discount_amount: number
+  tax_rate: number
+  prices_include_tax: boolean
+  dpp_amount: number
+  tax_amount: number
+  shipping_amount: number
+  grand_total: number
+}
+
+export interface PricingMismatch {
+  field: string
+  submitted: number
+  expected: number
+}
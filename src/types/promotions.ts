@@ -3,7 +3,13 @@
  * Defines types for promotion management system
  */
 
-export type PromotionType = 'percentage' | 'fixed' | 'buy_x_get_y'
+export type PromotionType =
+  | 'percentage'
+  | 'fixed'
+  | 'buy_x_get_y'
+  | 'tiered' // Percentage by spend tier
+  | 'bundle' // Any bundle_quantity eligible items for bundle_price
+  | 'cheapest_free' // Cheapest of every buy_quantity eligible items is free
 export type PromotionStatus =
   | 'draft'
   | 'scheduled'
@@ -11,6 +17,9 @@ export type PromotionStatus =
   | 'expired'
   | 'cancelled'
 export type CustomerSegment = 'all' | 'new' | 'regular' | 'vip'
+export type PromotionScope = 'line' | 'cart'
+export type RedemptionStatus = 'applied' | 'reversed'
+export type VoucherStatus = 'issued' | 'redeemed' | 'expired'
 
 /**
  * Main Promotion entity
@@ -27,11 +36,21 @@ export interface Promotion {
   discount_value: number | null
   buy_quantity: number | null
   get_quantity: number | null
+  get_product_id: string | null // Reward product; null: cheapest eligible units
+  get_discount_percentage: number // Off the get units; 100 = free
+  tiers: PromotionTier[] | null
+  bundle_quantity: number | null
+  bundle_price: number | null
 
   // Validity period
   start_date: string
   end_date: string
 
+  // Window within the period, in the company's time zone
+  active_days: number[] | null // 0 = Sunday; null: every day
+  active_from: string | null // HH:MM[:SS]; null: all day
+  active_until: string | null // Before active_from for overnight windows
+
   // Rules
   min_purchase_amount: number
   max_discount_amount: number | null
@@ -39,6 +58,17 @@ export interface Promotion {
   // Customer targeting
   customer_segment: CustomerSegment
 
+  // Stacking
+  stackable: boolean // May share a cart line with other stackable promotions
+  exclusive_group: string | null // A cart gets one promotion per group
+  priority: number // Higher is tried first
+
+  // Usage
+  usage_limit: number | null // Redemptions allowed in total
+  usage_limit_per_customer: number | null
+  requires_code: boolean // Coupon: applies only once its code is entered
+  uses_vouchers: boolean // Needs a single-use voucher instead of its code
+
   // Status
   status: PromotionStatus
   is_active: boolean
@@ -49,6 +79,15 @@ export interface Promotion {
   created_by: string | null
 }
 
+/**
+ * Spend tier of a tiered promotion: spending at least min_amount on eligible
+ * items takes percentage off them
+ */
+export interface PromotionTier {
+  min_amount: number
+  percentage: number
+}
+
 /**
  * Promotion with related data (for detail views)
  */
@@ -69,6 +108,14 @@ export interface PromotionWithRelations extends Promotion {
   }
 }
 
+/**
+ * Promotion with the ids it targets (for applying it to a cart)
+ */
+export interface PromotionWithTargets extends Promotion {
+  products: Array<{ id: string }>
+  categories: Array<{ id: string }>
+}
+
 /**
  * Promotion Products Junction
  */
@@ -102,10 +149,18 @@ export interface CreatePromotionInput {
   discount_value?: number
   buy_quantity?: number
   get_quantity?: number
+  get_product_id?: string | null
+  get_discount_percentage?: number
+  tiers?: PromotionTier[] | null
+  bundle_quantity?: number | null
+  bundle_price?: number | null
 
   // Validity period
   start_date: string
   end_date: string
+  active_days?: number[] | null
+  active_from?: string | null
+  active_until?: string | null
 
   // Rules
   min_purchase_amount?: number
@@ -114,6 +169,16 @@ export interface CreatePromotionInput {
   // Customer targeting
   customer_segment?: CustomerSegment
 
+  // Stacking
+  stackable?: boolean
+  exclusive_group?: string | null
+  priority?: number
+
+  // Usage
+  usage_limit?: number | null
+  usage_limit_per_customer?: number | null
+  requires_code?: boolean
+
   // Targeting
   product_ids?: string[]
   category_ids?: string[]
@@ -149,6 +214,187 @@ export interface PromotionCalculation {
   final_price: number
   is_applicable: boolean
   reason?: string // why not applicable
+  scope?: PromotionScope
+  priority?: number
+  line_indexes?: number[] // Cart lines it discounts, or would have
+  explanation?: string // What was applied and how, or why it was rejected
+  code?: string | null // Coupon code it was applied with
+}
+
+/**
+ * Cart line a promotion may be applied to
+ */
+export interface PromotionLineInput {
+  product_id: string
+  category_id?: string | null
+  quantity: number
+  unit_price: number
+  manual?: boolean // Discounted by hand; no promotion is applied
+}
+
+/**
+ * Line as the discount engine sees it
+ */
+export interface PromotionItem {
+  amount: number // What is left of the line after earlier discounts
+  quantity: number
+  product_id?: string // To find a buy X get Y reward product
+  unit_amounts?: number[] // What is left of each whole unit, when known
+}
+
+/**
+ * Discount given on some units of a line, for receipts and returns. A line's
+ * entries cover the units that got a discount; the rest were paid in full.
+ */
+export interface DiscountedUnits {
+  quantity: number
+  discount_amount: number // Per unit
+}
+
+/**
+ * Promotions applied to a cart line
+ */
+export interface LinePromotion {
+  promotions: Promotion[] // In the order they were stacked
+  redemptions: RedemptionInput[] // What each of them gave the line
+  discount_amount: number
+  discounted_units: DiscountedUnits[] | null // Null: spread evenly
+}
+
+/**
+ * What the resolver knows about the sale besides its lines
+ */
+export interface PromotionContext {
+  customer_segment?: string | null
+  customer_id?: string | null
+  now?: Date // When the sale happens; defaults to the current time
+  time_zone?: string | null // For promotion windows; defaults to the device's
+  coupon_codes?: string[] // Entered at checkout
+  vouchers?: Record<string, string> // Promotion id by voucher code
+  usage?: Record<string, PromotionUsage> // By promotion id
+}
+
+/**
+ * Redemptions of a promotion so far
+ */
+export interface PromotionUsage {
+  total: number
+  customer: number // By the customer of the sale
+}
+
+/**
+ * Promotions resolved for a whole cart
+ */
+export interface CartPromotionResult {
+  lines: LinePromotion[]
+  calculations: PromotionCalculation[] // Applied ones first, then rejected
+  discount_amount: number
+}
+
+/**
+ * Redemption ledger entry: a POS sale or sales order that used a promotion
+ */
+export interface PromotionRedemption {
+  id: string
+  company_id: string
+  promotion_id: string
+  customer_id: string | null
+  pos_transaction_id: string | null
+  sales_order_id: string | null
+  code: string | null
+  discount_amount: number
+  explanation: string | null // What the promotion gave and how
+  status: RedemptionStatus
+  redeemed_at: string
+  reversed_at: string | null
+  created_by: string | null
+}
+
+export interface PromotionRedemptionWithRelations extends PromotionRedemption {
+  customer?: { id: string; name: string } | null
+  transaction?: { id: string; transaction_number: string } | null
+  order?: { id: string; order_number: string } | null
+}
+
+/**
+ * Promotion used by a sale, as sent to the redemption ledger
+ */
+export interface RedemptionInput {
+  promotion_id: string
+  discount_amount: number
+  code?: string | null
+  explanation?: string | null // As shown at the register; printed on receipts
+}
+
+/**
+ * Batch of single-use voucher codes generated for a promotion
+ */
+export interface PromotionVoucherBatch {
+  id: string
+  company_id: string
+  promotion_id: string
+  name: string
+  prefix: string | null
+  quantity: number
+  expires_at: string | null // Null: valid for as long as the promotion
+  created_by: string | null
+  created_at: string
+}
+
+export interface PromotionVoucherBatchWithCounts extends PromotionVoucherBatch {
+  counts: Record<VoucherStatus, number>
+}
+
+/**
+ * Single-use voucher code
+ */
+export interface PromotionVoucher {
+  id: string
+  company_id: string
+  promotion_id: string
+  batch_id: string
+  code: string
+  status: VoucherStatus // Expired by the lifecycle scheduler, not right away
+  expires_at: string | null
+  redemption_id: string | null
+  redeemed_at: string | null
+  created_at: string
+}
+
+/**
+ * Form data for generating a voucher batch
+ */
+export interface CreateVoucherBatchInput {
+  promotion_id: string
+  quantity: number
+  name?: string
+  prefix?: string
+  expires_at?: string | null
+}
+
+/**
+ * Status change of a promotion, by a user or the lifecycle scheduler
+ */
+export interface PromotionStatusLog {
+  id: string
+  company_id: string
+  promotion_id: string
+  from_status: PromotionStatus | null // Null when the promotion was created
+  to_status: PromotionStatus
+  changed_by: string | null // Null for the scheduler
+  changed_at: string
+}
+
+export interface PromotionStatusLogWithUser extends PromotionStatusLog {
+  user?: { id: string; name: string } | null
+}
+
+/**
+ * Outcome of a lifecycle scheduler run
+ */
+export interface PromotionStatusSync {
+  promotions: number // Promotions that changed status
+  vouchers: number // Vouchers that expired
 }
 
 /**
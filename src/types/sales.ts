@@ -3,6 +3,9 @@
  * Defines types for sales orders, invoices, payments, and delivery orders
  */
 
+import type { PricingResult } from '@/types/pricing'
+import type { DiscountedUnits } from '@/types/promotions'
+
 // ============================================================================
 // Sales Order Types
 // ============================================================================
@@ -28,8 +31,13 @@ export interface SalesOrder {
   subtotal: number
   discount_amount: number
   tax_amount: number
+  tax_rate: number
+  prices_include_tax: boolean
+  dpp_amount: number // Tax base (DPP)
   shipping_amount: number
   grand_total: number
+  pricing_snapshot: (PricingResult & { computed_at: string }) | null // Server calculation the totals came from
+  coupon_code: string | null // Unlocks coupon promotions on the lines
 
   notes: string | null
   terms: string | null
@@ -54,6 +62,7 @@ export interface SalesOrderItem {
   subtotal: number
 
   promotion_id: string | null
+  discounted_units: DiscountedUnits[] | null // Null: spread evenly
   notes: string | null
 
   created_at: string
@@ -92,6 +101,7 @@ export interface SalesInvoice {
   company_id: string
   order_id: string | null
   customer_id: string
+  pos_transaction_id: string | null // Set for POS credit sales
 
   invoice_number: string
   invoice_date: string // ISO date string
@@ -102,10 +112,14 @@ export interface SalesInvoice {
   subtotal: number
   discount_amount: number
   tax_amount: number
+  tax_rate: number
+  prices_include_tax: boolean
+  dpp_amount: number // Tax base (DPP)
   shipping_amount: number
   grand_total: number
   paid_amount: number
   remaining_amount: number
+  credited_amount: number // POS returns already taken off grand_total
 
   notes: string | null
   terms: string | null
@@ -127,6 +141,15 @@ export interface SalesInvoiceWithRelations extends SalesInvoice {
   payments?: SalesPayment[]
 }
 
+// Line printed on an invoice, from its sales order or POS transaction
+export interface SalesInvoiceLine {
+  description: string
+  quantity: number
+  unit_price: number
+  discount_amount: number
+  subtotal: number
+}
+
 // ============================================================================
 // Sales Payment Types
 // ============================================================================
@@ -137,6 +160,7 @@ export interface SalesPayment {
   id: string
   company_id: string
   invoice_id: string
+  shift_id: string | null // POS shift the payment was taken in
 
   payment_number: string
   payment_date: string // ISO date string
@@ -217,6 +241,7 @@ export interface CreateSalesOrderInput {
   tax_amount?: number
   shipping_amount?: number
   grand_total: number
+  coupon_code?: string | null
   notes?: string
   terms?: string
 }
@@ -245,6 +270,7 @@ export interface UpdateSalesOrderInput {
   tax_amount?: number
   shipping_amount?: number
   grand_total?: number
+  coupon_code?: string | null
   notes?: string
   terms?: string
 }
@@ -258,6 +284,9 @@ export interface CreateSalesInvoiceInput {
   subtotal: number
   discount_amount?: number
   tax_amount?: number
+  tax_rate?: number
+  prices_include_tax?: boolean
+  dpp_amount?: number
   shipping_amount?: number
   grand_total: number
   notes?: string
@@ -282,7 +311,8 @@ export interface UpdateSalesInvoiceInput {
 
 export interface CreateSalesPaymentInput {
   invoice_id: string
-  payment_date: string
+  shift_id?: string
+  payment_date?: string // Today in the company's time zone when not given
   payment_method: PaymentMethod
   amount: number
   reference_number?: string
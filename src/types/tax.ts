@@ -0,0 +1,43 @@
+// Tax Module Types
+// Company PPN settings and the tax breakdown shared by POS and sales documents
+
+export type TaxCategory = 'standard' | 'exempt'
+
+export interface TaxSettings {
+  company_id: string
+  ppn_rate: number // Percent, e.g. 11 or 12
+  prices_include_tax: boolean
+  created_at: string
+  updated_at: string
+}
+
+export interface UpdateTaxSettingsInput {
+  ppn_rate?: number
+  prices_include_tax?: boolean
+}
+
+// A priced line after its own discount
+export interface TaxableLine {
+  amount: number
+  tax_category?: TaxCategory | null
+}
+
+export interface TaxLineResult {
+  amount: number
+  dpp_amount: number // Tax base (DPP); 0 for exempt lines
+  tax_amount: number // PPN
+}
+
+export interface TaxCalculation {
+  tax_rate: number
+  prices_include_tax: boolean
+  net_amount: number // Sum of line amounts
+  dpp_amount: number
+  tax_amount: number
+  total: number // Amount the customer pays
+  lines: TaxLineResult[]
+}
+
+export interface TaxOptions {
+  customer_tax_exempt?: boolean
+}
@@ -0,0 +1,234 @@
+-- ============================================================================
+-- POS Stock Deduction
+-- Binds shifts to a warehouse and posts POS sales to stock atomically
+-- ============================================================================
+
+-- Warehouse the shift sells from
+alter table pos_shifts
+  add column if not exists warehouse_id uuid references warehouses(id);
+
+create index if not exists idx_pos_shifts_warehouse_id
+  on pos_shifts(warehouse_id);
+
+-- ============================================================================
+-- POS SETTINGS (one row per company)
+-- ============================================================================
+
+create table if not exists pos_settings (
+  company_id uuid primary key references companies(id) on delete cascade,
+  -- When true, cashiers may confirm a sale that exceeds available stock
+  allow_stock_override boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table pos_settings enable row level security;
+
+create policy "Users can view their company POS settings"
+  on pos_settings for select
+  using (company_id = (select company_id from users where id = auth.uid()));
+
+create policy "Users can manage their company POS settings"
+  on pos_settings for all
+  using (company_id = (select company_id from users where id = auth.uid()))
+  with check (company_id = (select company_id from users where id = auth.uid()));
+
+-- ============================================================================
+-- create_pos_transaction
+-- Inserts the transaction, its items and payments, and posts one OUT stock
+-- movement per product against the shift's warehouse, all in one transaction.
+-- ============================================================================
+
+create or replace function create_pos_transaction(
+  p_transaction jsonb,
+  p_items jsonb,
+  p_payments jsonb default '[]'::jsonb,
+  p_override_stock boolean default false
+)
+returns pos_transactions
+language plpgsql
+security invoker
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_company_id uuid;
+  v_shift_id uuid := nullif(p_transaction->>'shift_id', '')::uuid;
+  v_warehouse_id uuid;
+  v_allow_override boolean := false;
+  v_transaction pos_transactions;
+  v_line record;
+  v_stock stock;
+  v_product_name text;
+begin
+  select company_id into v_company_id from users where id = v_user_id;
+  if v_company_id is null then
+    raise exception 'Failed to get company information';
+  end if;
+
+  if jsonb_array_length(coalesce(p_items, '[]'::jsonb)) = 0 then
+    raise exception 'Transaction must have at least one item';
+  end if;
+
+  -- Resolve the warehouse: the shift's own, else the company default
+  if v_shift_id is not null then
+    select warehouse_id into v_warehouse_id
+    from pos_shifts
+    where id = v_shift_id and company_id = v_company_id and status = 'open';
+
+    if not found then
+      raise exception 'Shift is not open';
+    end if;
+  end if;
+
+  if v_warehouse_id is null then
+    select id into v_warehouse_id
+    from warehouses
+    where company_id = v_company_id and is_default = true and is_active = true
+    limit 1;
+  end if;
+
+  if v_warehouse_id is null then
+    raise exception 'No warehouse assigned to this shift';
+  end if;
+
+  select coalesce(allow_stock_override, false) into v_allow_override
+  from pos_settings
+  where company_id = v_company_id;
+
+  insert into pos_transactions (
+    company_id,
+    transaction_number,
+    shift_id,
+    customer_id,
+    cashier_id,
+    subtotal,
+    discount_amount,
+    tax_amount,
+    total,
+    payment_method,
+    payment_status,
+    notes
+  ) values (
+    v_company_id,
+    p_transaction->>'transaction_number',
+    v_shift_id,
+    nullif(p_transaction->>'customer_id', '')::uuid,
+    v_user_id,
+    (p_transaction->>'subtotal')::numeric,
+    (p_transaction->>'discount_amount')::numeric,
+    (p_transaction->>'tax_amount')::numeric,
+    (p_transaction->>'total')::numeric,
+    p_transaction->>'payment_method',
+    'paid',
+    p_transaction->>'notes'
+  )
+  returning * into v_transaction;
+
+  insert into pos_transaction_items (
+    transaction_id,
+    product_id,
+    quantity,
+    unit_price,
+    discount_amount,
+    promotion_id,
+    subtotal
+  )
+  select
+    v_transaction.id,
+    item.product_id,
+    item.quantity,
+    item.unit_price,
+    coalesce(item.discount_amount, 0),
+    item.promotion_id,
+    item.subtotal
+  from jsonb_to_recordset(p_items) as item(
+    product_id uuid,
+    quantity numeric,
+    unit_price numeric,
+    discount_amount numeric,
+    promotion_id uuid,
+    subtotal numeric
+  );
+
+  -- One OUT movement per product; lock stock rows in a stable order
+  for v_line in
+    select item.product_id, sum(item.quantity) as quantity
+    from jsonb_to_recordset(p_items) as item(product_id uuid, quantity numeric)
+    group by item.product_id
+    order by item.product_id
+  loop
+    select * into v_stock
+    from stock
+    where product_id = v_line.product_id and warehouse_id = v_warehouse_id
+    for update;
+
+    if coalesce(v_stock.quantity, 0) < v_line.quantity
+       and not (v_allow_override and p_override_stock) then
+      select name into v_product_name from products where id = v_line.product_id;
+      raise exception 'Insufficient stock for %: available %, requested %',
+        coalesce(v_product_name, v_line.product_id::text),
+        coalesce(v_stock.quantity, 0),
+        v_line.quantity;
+    end if;
+
+    insert into stock_movements (
+      company_id,
+      product_id,
+      warehouse_id,
+      movement_type,
+      quantity,
+      reference_type,
+      reference_id,
+      notes,
+      created_by
+    ) values (
+      v_company_id,
+      v_line.product_id,
+      v_warehouse_id,
+      'OUT',
+      v_line.quantity,
+      'pos_transaction',
+      v_transaction.id,
+      'POS sale ' || v_transaction.transaction_number,
+      v_user_id
+    );
+
+    if v_stock.id is not null then
+      update stock
+      set quantity = coalesce(quantity, 0) - v_line.quantity,
+          last_updated = now()
+      where id = v_stock.id;
+    else
+      insert into stock (company_id, product_id, warehouse_id, quantity)
+      values (v_company_id, v_line.product_id, v_warehouse_id, -v_line.quantity);
+    end if;
+
+    v_stock := null;
+  end loop;
+
+  insert into pos_payments (
+    transaction_id,
+    payment_method,
+    amount,
+    reference_number,
+    notes
+  )
+  select
+    v_transaction.id,
+    payment.payment_method,
+    payment.amount,
+    payment.reference_number,
+    payment.notes
+  from jsonb_to_recordset(coalesce(p_payments, '[]'::jsonb)) as payment(
+    payment_method text,
+    amount numeric,
+    reference_number text,
+    notes text
+  );
+
+  return v_transaction;
+end;
+$$;
+
+grant execute on function create_pos_transaction(jsonb, jsonb, jsonb, boolean)
+  to authenticated;
@@ -0,0 +1,191 @@
+-- ============================================================================
+-- Document Numbering
+-- Per-company, gapless document sequences shared by every module
+-- ============================================================================
+
+create table if not exists document_sequences (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references companies(id) on delete cascade,
+  document_type text not null,
+  prefix text not null,
+  reset_period text not null default 'monthly'
+    check (reset_period in ('never', 'daily', 'monthly', 'yearly')),
+  padding integer not null default 4 check (padding between 1 and 12),
+  -- Period the counter currently belongs to (e.g. 20261019, 202610, 2026)
+  period_key text not null default '',
+  last_number integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (company_id, document_type)
+);
+
+alter table document_sequences enable row level security;
+
+create policy "Users can view their company document sequences"
+  on document_sequences for select
+  using (company_id = (select company_id from users where id = auth.uid()));
+
+create policy "Users can manage their company document sequences"
+  on document_sequences for all
+  using (company_id = (select company_id from users where id = auth.uid()))
+  with check (company_id = (select company_id from users where id = auth.uid()));
+
+-- ============================================================================
+-- ensure_document_sequence
+-- Creates the company's sequence for a document type with its default prefix
+-- and reset period if it does not exist yet.
+-- ============================================================================
+
+create or replace function ensure_document_sequence(
+  p_company_id uuid,
+  p_document_type text
+)
+returns void
+language sql
+security invoker
+as $$
+  insert into document_sequences (company_id, document_type, prefix, reset_period)
+  values (
+    p_company_id,
+    p_document_type,
+    case p_document_type
+      when 'sales_order' then 'SO'
+      when 'sales_invoice' then 'INV'
+      when 'sales_payment' then 'PAY'
+      when 'delivery_order' then 'DO'
+      when 'pos_transaction' then 'POS'
+      when 'pos_return' then 'RET'
+      else upper(p_document_type)
+    end,
+    case
+      when p_document_type in ('pos_transaction', 'pos_return') then 'daily'
+      else 'monthly'
+    end
+  )
+  on conflict (company_id, document_type) do nothing;
+$$;
+
+grant execute on function ensure_document_sequence(uuid, text) to authenticated;
+
+-- ============================================================================
+-- next_document_number
+-- Allocates the next number for a document type. The counter row is locked
+-- for the rest of the calling transaction, so concurrent callers queue up and
+-- a rolled-back insert releases its number instead of leaving a gap.
+-- ============================================================================
+
+create or replace function next_document_number(
+  p_company_id uuid,
+  p_document_type text
+)
+returns text
+language plpgsql
+security invoker
+as $$
+declare
+  v_sequence document_sequences;
+  v_now timestamp := now() at time zone 'Asia/Jakarta';
+  v_period_key text;
+begin
+  perform ensure_document_sequence(p_company_id, p_document_type);
+
+  select * into v_sequence
+  from document_sequences
+  where company_id = p_company_id and document_type = p_document_type
+  for update;
+
+  v_period_key := case v_sequence.reset_period
+    when 'daily' then to_char(v_now, 'YYYYMMDD')
+    when 'monthly' then to_char(v_now, 'YYYYMM')
+    when 'yearly' then to_char(v_now, 'YYYY')
+    else ''
+  end;
+
+  if v_sequence.period_key <> v_period_key then
+    v_sequence.last_number := 0;
+  end if;
+
+  update document_sequences
+  set last_number = v_sequence.last_number + 1,
+      period_key = v_period_key,
+      updated_at = now()
+  where id = v_sequence.id
+  returning * into v_sequence;
+
+  return v_sequence.prefix
+    || case when v_period_key = '' then '' else '-' || v_period_key end
+    || '-' || lpad(v_sequence.last_number::text, v_sequence.padding, '0');
+end;
+$$;
+
+grant execute on function next_document_number(uuid, text) to authenticated;
+
+-- ============================================================================
+-- assign_document_number trigger
+-- Fills the number column on insert, in the same transaction as the row.
+-- TG_ARGV[0] = document type, TG_ARGV[1] = number column
+-- ============================================================================
+
+create or replace function assign_document_number()
+returns trigger
+language plpgsql
+as $$
+begin
+  if coalesce(to_jsonb(new)->>tg_argv[1], '') = '' then
+    new := jsonb_populate_record(
+      new,
+      jsonb_build_object(
+        tg_argv[1],
+        next_document_number(new.company_id, tg_argv[0])
+      )
+    );
+  end if;
+  return new;
+end;
+$$;
+
+create trigger assign_sales_order_number
+  before insert on sales_orders
+  for each row execute function assign_document_number('sales_order', 'order_number');
+
+create trigger assign_sales_invoice_number
+  before insert on sales_invoices
+  for each row execute function assign_document_number('sales_invoice', 'invoice_number');
+
+create trigger assign_sales_payment_number
+  before insert on sales_payments
+  for each row execute function assign_document_number('sales_payment', 'payment_number');
+
+create trigger assign_delivery_order_number
+  before insert on delivery_orders
+  for each row execute function assign_document_number('delivery_order', 'delivery_number');
+
+create trigger assign_pos_transaction_number
+  before insert on pos_transactions
+  for each row execute function assign_document_number('pos_transaction', 'transaction_number');
+
+create trigger assign_pos_return_number
+  before insert on pos_returns
+  for each row execute function assign_document_number('pos_return', 'return_number');
+
+-- ============================================================================
+-- Numbered tax documents are voided, never deleted
+-- ============================================================================
+
+create or replace function prevent_document_delete()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception '% cannot be deleted; void it instead to keep its number',
+    tg_argv[0];
+end;
+$$;
+
+create trigger prevent_sales_invoice_delete
+  before delete on sales_invoices
+  for each row execute function prevent_document_delete('Invoice');
+
+create trigger prevent_pos_transaction_delete
+  before delete on pos_transactions
+  for each row execute function prevent_document_delete('Transaction');
@@ -0,0 +1,255 @@
+-- ============================================================================
+-- Tax Settings
+-- Company PPN configuration, product tax categories and tax-exempt customers
+-- ============================================================================
+
+create table if not exists tax_settings (
+  company_id uuid primary key references companies(id) on delete cascade,
+  -- PPN rate in percent (11 or 12 under current regulation)
+  ppn_rate numeric(5, 2) not null default 11
+    check (ppn_rate >= 0 and ppn_rate <= 100),
+  -- When true, selling prices already include PPN
+  prices_include_tax boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table tax_settings enable row level security;
+
+create policy "Users can view their company tax settings"
+  on tax_settings for select
+  using (company_id = (select company_id from users where id = auth.uid()));
+
+create policy "Users can manage their company tax settings"
+  on tax_settings for all
+  using (company_id = (select company_id from users where id = auth.uid()))
+  with check (company_id = (select company_id from users where id = auth.uid()));
+
+-- Products are taxable at the company PPN rate unless exempt
+alter table products
+  add column if not exists tax_category text not null default 'standard'
+    check (tax_category in ('standard', 'exempt'));
+
+alter table customers
+  add column if not exists is_tax_exempt boolean not null default false;
+
+-- Tax breakdown (DPP = Dasar Pengenaan Pajak) stored with each document
+alter table pos_transactions
+  add column if not exists tax_rate numeric(5, 2) not null default 0,
+  add column if not exists prices_include_tax boolean not null default false,
+  add column if not exists dpp_amount numeric(15, 2) not null default 0;
+
+alter table sales_orders
+  add column if not exists tax_rate numeric(5, 2) not null default 0,
+  add column if not exists prices_include_tax boolean not null default false,
+  add column if not exists dpp_amount numeric(15, 2) not null default 0;
+
+alter table sales_invoices
+  add column if not exists tax_rate numeric(5, 2) not null default 0,
+  add column if not exists prices_include_tax boolean not null default false,
+  add column if not exists dpp_amount numeric(15, 2) not null default 0;
+
+-- ============================================================================
+-- create_pos_transaction
+-- Same as before, now also storing the tax rate, pricing mode and DPP
+-- ============================================================================
+
+create or replace function create_pos_transaction(
+  p_transaction jsonb,
+  p_items jsonb,
+  p_payments jsonb default '[]'::jsonb,
+  p_override_stock boolean default false
+)
+returns pos_transactions
+language plpgsql
+security invoker
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_company_id uuid;
+  v_shift_id uuid := nullif(p_transaction->>'shift_id', '')::uuid;
+  v_warehouse_id uuid;
+  v_allow_override boolean := false;
+  v_transaction pos_transactions;
+  v_line record;
+  v_stock stock;
+  v_product_name text;
+begin
+  select company_id into v_company_id from users where id = v_user_id;
+  if v_company_id is null then
+    raise exception 'Failed to get company information';
+  end if;
+
+  if jsonb_array_length(coalesce(p_items, '[]'::jsonb)) = 0 then
+    raise exception 'Transaction must have at least one item';
+  end if;
+
+  -- Resolve the warehouse: the shift's own, else the company default
+  if v_shift_id is not null then
+    select warehouse_id into v_warehouse_id
+    from pos_shifts
+    where id = v_shift_id and company_id = v_company_id and status = 'open';
+
+    if not found then
+      raise exception 'Shift is not open';
+    end if;
+  end if;
+
+  if v_warehouse_id is null then
+    select id into v_warehouse_id
+    from warehouses
+    where company_id = v_company_id and is_default = true and is_active = true
+    limit 1;
+  end if;
+
+  if v_warehouse_id is null then
+    raise exception 'No warehouse assigned to this shift';
+  end if;
+
+  select coalesce(allow_stock_override, false) into v_allow_override
+  from pos_settings
+  where company_id = v_company_id;
+
+  insert into pos_transactions (
+    company_id,
+    transaction_number,
+    shift_id,
+    customer_id,
+    cashier_id,
+    subtotal,
+    discount_amount,
+    tax_amount,
+    tax_rate,
+    prices_include_tax,
+    dpp_amount,
+    total,
+    payment_method,
+    payment_status,
+    notes
+  ) values (
+    v_company_id,
+    p_transaction->>'transaction_number',
+    v_shift_id,
+    nullif(p_transaction->>'customer_id', '')::uuid,
+    v_user_id,
+    (p_transaction->>'subtotal')::numeric,
+    (p_transaction->>'discount_amount')::numeric,
+    (p_transaction->>'tax_amount')::numeric,
+    coalesce((p_transaction->>'tax_rate')::numeric, 0),
+    coalesce((p_transaction->>'prices_include_tax')::boolean, false),
+    coalesce((p_transaction->>'dpp_amount')::numeric, 0),
+    (p_transaction->>'total')::numeric,
+    p_transaction->>'payment_method',
+    'paid',
+    p_transaction->>'notes'
+  )
+  returning * into v_transaction;
+
+  insert into pos_transaction_items (
+    transaction_id,
+    product_id,
+    quantity,
+    unit_price,
+    discount_amount,
+    promotion_id,
+    subtotal
+  )
+  select
+    v_transaction.id,
+    item.product_id,
+    item.quantity,
+    item.unit_price,
+    coalesce(item.discount_amount, 0),
+    item.promotion_id,
+    item.subtotal
+  from jsonb_to_recordset(p_items) as item(
+    product_id uuid,
+    quantity numeric,
+    unit_price numeric,
+    discount_amount numeric,
+    promotion_id uuid,
+    subtotal numeric
+  );
+
+  -- One OUT movement per product; lock stock rows in a stable order
+  for v_line in
+    select item.product_id, sum(item.quantity) as quantity
+    from jsonb_to_recordset(p_items) as item(product_id uuid, quantity numeric)
+    group by item.product_id
+    order by item.product_id
+  loop
+    select * into v_stock
+    from stock
+    where product_id = v_line.product_id and warehouse_id = v_warehouse_id
+    for update;
+
+    if coalesce(v_stock.quantity, 0) < v_line.quantity
+       and not (v_allow_override and p_override_stock) then
+      select name into v_product_name from products where id = v_line.product_id;
+      raise exception 'Insufficient stock for %: available %, requested %',
+        coalesce(v_product_name, v_line.product_id::text),
+        coalesce(v_stock.quantity, 0),
+        v_line.quantity;
+    end if;
+
+    insert into stock_movements (
+      company_id,
+      product_id,
+      warehouse_id,
+      movement_type,
+      quantity,
+      reference_type,
+      reference_id,
+      notes,
+      created_by
+    ) values (
+      v_company_id,
+      v_line.product_id,
+      v_warehouse_id,
+      'OUT',
+      v_line.quantity,
+      'pos_transaction',
+      v_transaction.id,
+      'POS sale ' || v_transaction.transaction_number,
+      v_user_id
+    );
+
+    if v_stock.id is not null then
+      update stock
+      set quantity = coalesce(quantity, 0) - v_line.quantity,
+          last_updated = now()
+      where id = v_stock.id;
+    else
+      insert into stock (company_id, product_id, warehouse_id, quantity)
+      values (v_company_id, v_line.product_id, v_warehouse_id, -v_line.quantity);
+    end if;
+
+    v_stock := null;
+  end loop;
+
+  insert into pos_payments (
+    transaction_id,
+    payment_method,
+    amount,
+    reference_number,
+    notes
+  )
+  select
+    v_transaction.id,
+    payment.payment_method,
+    payment.amount,
+    payment.reference_number,
+    payment.notes
+  from jsonb_to_recordset(coalesce(p_payments, '[]'::jsonb)) as payment(
+    payment_method text,
+    amount numeric,
+    reference_number text,
+    notes text
+  );
+
+  return v_transaction;
+end;
+$$;
+
+grant execute on function create_pos_transaction(jsonb, jsonb, jsonb, boolean)
+  to authenticated;
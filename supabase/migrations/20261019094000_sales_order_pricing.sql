@@ -0,0 +1,18 @@
+-- ============================================================================
+-- Sales Order Pricing
+-- Order totals are recomputed on the server (/api/sales/orders) and stored
+-- with the calculation they came from. Browsers may no longer write amounts
+-- or lines directly.
+-- ============================================================================
+
+alter table sales_orders
+  add column if not exists pricing_snapshot jsonb;
+
+-- Lines are only written by the server with the service role
+revoke insert, update, delete on sales_order_items from anon, authenticated;
+
+-- Orders are created and repriced by the server; users may still change the
+-- workflow and descriptive fields and delete drafts
+revoke insert, update on sales_orders from anon, authenticated;
+grant update (status, notes, terms, salesman_id, order_date, updated_at)
+  on sales_orders to authenticated;
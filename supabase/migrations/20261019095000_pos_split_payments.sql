@@ -0,0 +1,338 @@
+-- ============================================================================
+-- POS Split Payments
+-- Every transaction carries normalized payment lines. Lines record what was
+-- tendered and the amount applied to the sale; change is only given from cash.
+-- ============================================================================
+
+alter table pos_payments
+  add column if not exists tendered_amount numeric(15, 2),
+  add column if not exists change_amount numeric(15, 2) not null default 0;
+
+update pos_payments
+set tendered_amount = amount
+where tendered_amount is null;
+
+alter table pos_payments
+  alter column tendered_amount set not null,
+  alter column tendered_amount set default 0;
+
+alter table pos_transactions
+  add column if not exists amount_tendered numeric(15, 2) not null default 0,
+  add column if not exists change_amount numeric(15, 2) not null default 0;
+
+-- Single-method sales used to have no payment line; give them one
+insert into pos_payments (
+  transaction_id,
+  payment_method,
+  amount,
+  tendered_amount,
+  payment_date
+)
+select t.id, t.payment_method, t.total, t.total, t.transaction_date
+from pos_transactions t
+where t.payment_method <> 'split'
+  and not exists (select 1 from pos_payments p where p.transaction_id = t.id);
+
+update pos_transactions t
+set amount_tendered = coalesce(
+  (select sum(p.tendered_amount) from pos_payments p where p.transaction_id = t.id),
+  t.total
+)
+where t.amount_tendered = 0;
+
+create index if not exists idx_pos_payments_transaction_id
+  on pos_payments(transaction_id);
+
+-- ============================================================================
+-- create_pos_transaction
+-- Same as before, plus payment settlement: lines must cover the total,
+-- non-cash lines may not exceed it and any excess is returned as cash change.
+-- ============================================================================
+
+create or replace function create_pos_transaction(
+  p_transaction jsonb,
+  p_items jsonb,
+  p_payments jsonb default '[]'::jsonb,
+  p_override_stock boolean default false
+)
+returns pos_transactions
+language plpgsql
+security invoker
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_company_id uuid;
+  v_shift_id uuid := nullif(p_transaction->>'shift_id', '')::uuid;
+  v_warehouse_id uuid;
+  v_allow_override boolean := false;
+  v_transaction pos_transactions;
+  v_line record;
+  v_stock stock;
+  v_product_name text;
+  v_total numeric := (p_transaction->>'total')::numeric;
+  v_payments jsonb := coalesce(p_payments, '[]'::jsonb);
+  v_tendered numeric;
+  v_non_cash numeric;
+  v_change numeric;
+  v_payment_method text;
+begin
+  select company_id into v_company_id from users where id = v_user_id;
+  if v_company_id is null then
+    raise exception 'Failed to get company information';
+  end if;
+
+  if jsonb_array_length(coalesce(p_items, '[]'::jsonb)) = 0 then
+    raise exception 'Transaction must have at least one item';
+  end if;
+
+  -- Resolve the warehouse: the shift's own, else the company default
+  if v_shift_id is not null then
+    select warehouse_id into v_warehouse_id
+    from pos_shifts
+    where id = v_shift_id and company_id = v_company_id and status = 'open';
+
+    if not found then
+      raise exception 'Shift is not open';
+    end if;
+  end if;
+
+  if v_warehouse_id is null then
+    select id into v_warehouse_id
+    from warehouses
+    where company_id = v_company_id and is_default = true and is_active = true
+    limit 1;
+  end if;
+
+  if v_warehouse_id is null then
+    raise exception 'No warehouse assigned to this shift';
+  end if;
+
+  -- A single-method sale without lines is paid exactly by that method
+  if jsonb_array_length(v_payments) = 0 then
+    if p_transaction->>'payment_method' = 'split' then
+      raise exception 'Split payments need at least two payment lines';
+    end if;
+
+    v_payments := jsonb_build_array(jsonb_build_object(
+      'payment_method', p_transaction->>'payment_method',
+      'amount', v_total
+    ));
+  end if;
+
+  if exists (
+    select 1
+    from jsonb_to_recordset(v_payments) as payment(
+      payment_method text,
+      amount numeric
+    )
+    where payment.payment_method not in ('cash', 'card', 'transfer', 'e-wallet', 'credit')
+       or coalesce(payment.amount, 0) <= 0
+  ) then
+    raise exception 'Each payment line needs a valid method and a positive amount';
+  end if;
+
+  select
+    coalesce(sum(payment.amount), 0),
+    coalesce(sum(payment.amount) filter (where payment.payment_method <> 'cash'), 0)
+  into v_tendered, v_non_cash
+  from jsonb_to_recordset(v_payments) as payment(
+    payment_method text,
+    amount numeric
+  );
+
+  if v_tendered < v_total then
+    raise exception 'Payments of % do not cover the total of %', v_tendered, v_total;
+  end if;
+
+  if v_non_cash > v_total then
+    raise exception 'Non-cash payments of % exceed the total of %', v_non_cash, v_total;
+  end if;
+
+  -- Only cash can be over-tendered; the excess is handed back as change
+  v_change := v_tendered - v_total;
+
+  select case when count(distinct payment.payment_method) > 1 then 'split'
+              else min(payment.payment_method) end
+  into v_payment_method
+  from jsonb_to_recordset(v_payments) as payment(payment_method text);
+
+  select coalesce(allow_stock_override, false) into v_allow_override
+  from pos_settings
+  where company_id = v_company_id;
+
+  insert into pos_transactions (
+    company_id,
+    transaction_number,
+    shift_id,
+    customer_id,
+    cashier_id,
+    subtotal,
+    discount_amount,
+    tax_amount,
+    tax_rate,
+    prices_include_tax,
+    dpp_amount,
+    total,
+    amount_tendered,
+    change_amount,
+    payment_method,
+    payment_status,
+    notes
+  ) values (
+    v_company_id,
+    p_transaction->>'transaction_number',
+    v_shift_id,
+    nullif(p_transaction->>'customer_id', '')::uuid,
+    v_user_id,
+    (p_transaction->>'subtotal')::numeric,
+    (p_transaction->>'discount_amount')::numeric,
+    (p_transaction->>'tax_amount')::numeric,
+    coalesce((p_transaction->>'tax_rate')::numeric, 0),
+    coalesce((p_transaction->>'prices_include_tax')::boolean, false),
+    coalesce((p_transaction->>'dpp_amount')::numeric, 0),
+    v_total,
+    v_tendered,
+    v_change,
+    v_payment_method,
+    'paid',
+    p_transaction->>'notes'
+  )
+  returning * into v_transaction;
+
+  insert into pos_transaction_items (
+    transaction_id,
+    product_id,
+    quantity,
+    unit_price,
+    discount_amount,
+    promotion_id,
+    subtotal
+  )
+  select
+    v_transaction.id,
+    item.product_id,
+    item.quantity,
+    item.unit_price,
+    coalesce(item.discount_amount, 0),
+    item.promotion_id,
+    item.subtotal
+  from jsonb_to_recordset(p_items) as item(
+    product_id uuid,
+    quantity numeric,
+    unit_price numeric,
+    discount_amount numeric,
+    promotion_id uuid,
+    subtotal numeric
+  );
+
+  -- One OUT movement per product; lock stock rows in a stable order
+  for v_line in
+    select item.product_id, sum(item.quantity) as quantity
+    from jsonb_to_recordset(p_items) as item(product_id uuid, quantity numeric)
+    group by item.product_id
+    order by item.product_id
+  loop
+    select * into v_stock
+    from stock
+    where product_id = v_line.product_id and warehouse_id = v_warehouse_id
+    for update;
+
+    if coalesce(v_stock.quantity, 0) < v_line.quantity
+       and not (v_allow_override and p_override_stock) then
+      select name into v_product_name from products where id = v_line.product_id;
+      raise exception 'Insufficient stock for %: available %, requested %',
+        coalesce(v_product_name, v_line.product_id::text),
+        coalesce(v_stock.quantity, 0),
+        v_line.quantity;
+    end if;
+
+    insert into stock_movements (
+      company_id,
+      product_id,
+      warehouse_id,
+      movement_type,
+      quantity,
+      reference_type,
+      reference_id,
+      notes,
+      created_by
+    ) values (
+      v_company_id,
+      v_line.product_id,
+      v_warehouse_id,
+      'OUT',
+      v_line.quantity,
+      'pos_transaction',
+      v_transaction.id,
+      'POS sale ' || v_transaction.transaction_number,
+      v_user_id
+    );
+
+    if v_stock.id is not null then
+      update stock
+      set quantity = coalesce(quantity, 0) - v_line.quantity,
+          last_updated = now()
+      where id = v_stock.id;
+    else
+      insert into stock (company_id, product_id, warehouse_id, quantity)
+      values (v_company_id, v_line.product_id, v_warehouse_id, -v_line.quantity);
+    end if;
+
+    v_stock := null;
+  end loop;
+
+  -- Change comes out of the cash lines in order, so each line's amount is
+  -- what it actually contributed to the sale
+  insert into pos_payments (
+    transaction_id,
+    payment_method,
+    amount,
+    tendered_amount,
+    change_amount,
+    reference_number,
+    notes
+  )
+  select
+    v_transaction.id,
+    payment.payment_method,
+    payment.amount - payment.line_change,
+    payment.amount,
+    payment.line_change,
+    payment.reference_number,
+    payment.notes
+  from (
+    select
+      line.*,
+      case when line.payment_method = 'cash' then
+        least(
+          line.amount,
+          greatest(v_change - coalesce(sum(line.amount) filter (
+            where line.payment_method = 'cash'
+          ) over (
+            order by line.ordinality
+            rows between unbounded preceding and 1 preceding
+          ), 0), 0)
+        )
+      else 0 end as line_change
+    from rows from (
+      jsonb_to_recordset(v_payments) as (
+        payment_method text,
+        amount numeric,
+        reference_number text,
+        notes text
+      )
+    ) with ordinality as line(
+      payment_method,
+      amount,
+      reference_number,
+      notes,
+      ordinality
+    )
+  ) as payment;
+
+  return v_transaction;
+end;
+$$;
+
+grant execute on function create_pos_transaction(jsonb, jsonb, jsonb, boolean)
+  to authenticated;
@@ -0,0 +1,141 @@
+-- ============================================================================
+-- POS Credit Sales
+-- Credit payment lines become receivables (sales invoices) for the customer,
+-- within their credit limit. Cashiers collect them later as sales payments.
+-- ============================================================================
+
+alter table pos_settings
+  add column if not exists credit_terms_days integer not null default 30
+    check (credit_terms_days >= 0);
+
+alter table sales_invoices
+  add column if not exists pos_transaction_id uuid
+    references pos_transactions(id) on delete restrict;
+
+create unique index if not exists idx_sales_invoices_pos_transaction_id
+  on sales_invoices(pos_transaction_id)
+  where pos_transaction_id is not null;
+
+-- Receivable payments taken at the register count towards the drawer
+alter table sales_payments
+  add column if not exists shift_id uuid references pos_shifts(id);
+
+create index if not exists idx_sales_payments_shift_id on sales_payments(shift_id);
+
+-- ============================================================================
+-- customer_outstanding
+-- Open receivable balance of a customer
+-- ============================================================================
+
+create or replace function customer_outstanding(p_customer_id uuid)
+returns numeric
+language sql
+stable
+security invoker
+as $$
+  select coalesce(sum(remaining_amount), 0)
+  from sales_invoices
+  where customer_id = p_customer_id
+    and status in ('unpaid', 'partial', 'overdue');
+$$;
+
+grant execute on function customer_outstanding(uuid) to authenticated;
+
+-- ============================================================================
+-- create_pos_credit_invoice trigger
+-- Runs inside create_pos_transaction: a credit line needs a customer with
+-- enough available credit, and is booked as an unpaid invoice for its amount.
+-- ============================================================================
+
+create or replace function create_pos_credit_invoice()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_transaction pos_transactions;
+  v_customer customers;
+  v_terms integer;
+  v_outstanding numeric;
+  v_invoice_date date;
+begin
+  if new.payment_method <> 'credit' then
+    return new;
+  end if;
+
+  select * into v_transaction
+  from pos_transactions
+  where id = new.transaction_id;
+
+  if v_transaction.customer_id is null then
+    raise exception 'Credit sales require a customer';
+  end if;
+
+  -- Lock the customer so concurrent credit sales cannot both pass the check
+  select * into v_customer
+  from customers
+  where id = v_transaction.customer_id and company_id = v_transaction.company_id
+  for update;
+
+  if not found then
+    raise exception 'Customer not found';
+  end if;
+
+  v_outstanding := customer_outstanding(v_customer.id);
+
+  if v_outstanding + new.amount > coalesce(v_customer.credit_limit, 0) then
+    raise exception 'Credit limit exceeded for %: limit %, outstanding %, requested %',
+      v_customer.name,
+      coalesce(v_customer.credit_limit, 0),
+      v_outstanding,
+      new.amount;
+  end if;
+
+  select coalesce(
+    (select credit_terms_days from pos_settings
+     where company_id = v_transaction.company_id),
+    30
+  ) into v_terms;
+
+  v_invoice_date := (v_transaction.transaction_date at time zone 'Asia/Jakarta')::date;
+
+  insert into sales_invoices (
+    company_id,
+    customer_id,
+    pos_transaction_id,
+    invoice_date,
+    due_date,
+    status,
+    subtotal,
+    discount_amount,
+    tax_amount,
+    shipping_amount,
+    grand_total,
+    paid_amount,
+    remaining_amount,
+    notes,
+    created_by
+  ) values (
+    v_transaction.company_id,
+    v_customer.id,
+    v_transaction.id,
+    v_invoice_date,
+    v_invoice_date + v_terms,
+    'unpaid',
+    new.amount,
+    0,
+    0,
+    0,
+    new.amount,
+    0,
+    new.amount,
+    'Credit sale ' || v_transaction.transaction_number,
+    v_transaction.cashier_id
+  );
+
+  return new;
+end;
+$$;
+
+create trigger create_pos_credit_invoice
+  after insert on pos_payments
+  for each row execute function create_pos_credit_invoice();
@@ -0,0 +1,45 @@
+-- ============================================================================
+-- POS Parked Carts
+-- Carts put on hold while the cashier serves the next customer. Stored
+-- server-side against the shift so any register in the company can recall
+-- them; open carts are flagged when the shift is closed.
+-- ============================================================================
+
+create table if not exists pos_parked_carts (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references companies(id) on delete cascade,
+  shift_id uuid not null references pos_shifts(id) on delete cascade,
+  cashier_id uuid not null references users(id),
+  customer_id uuid references customers(id) on delete set null,
+  -- Cart lines as held in the POS (CartItem[]), discounts included
+  items jsonb not null default '[]'::jsonb,
+  total numeric(15, 2) not null default 0,
+  notes text,
+  status text not null default 'parked'
+    check (status in ('parked', 'recalled', 'cancelled')),
+  recalled_by uuid references users(id),
+  recalled_shift_id uuid references pos_shifts(id),
+  recalled_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_pos_parked_carts_company_status
+  on pos_parked_carts(company_id, status);
+create index if not exists idx_pos_parked_carts_shift_id
+  on pos_parked_carts(shift_id);
+
+alter table pos_parked_carts enable row level security;
+
+create policy "Users can view their company parked carts"
+  on pos_parked_carts for select
+  using (company_id = (select company_id from users where id = auth.uid()));
+
+create policy "Users can create their company parked carts"
+  on pos_parked_carts for insert
+  with check (company_id = (select company_id from users where id = auth.uid()));
+
+create policy "Users can update their company parked carts"
+  on pos_parked_carts for update
+  using (company_id = (select company_id from users where id = auth.uid()))
+  with check (company_id = (select company_id from users where id = auth.uid()));
@@ -0,0 +1,84 @@
+-- ============================================================================
+-- Company Branding
+-- Company profile (legal name, NPWP, address, logo, footer and return
+-- policy) and per-document templates applied to receipts, invoices,
+-- delivery orders and purchase orders. Owners edit them; everyone in the
+-- company reads them when printing.
+-- ============================================================================
+
+create table if not exists company_profiles (
+  company_id uuid primary key references companies(id) on delete cascade,
+  legal_name text,
+  -- Nomor Pokok Wajib Pajak, 15 digits (or the 16-digit NIK-based form)
+  npwp text,
+  address text,
+  phone text,
+  email text,
+  logo_url text,
+  footer_message text,
+  return_policy text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists document_templates (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references companies(id) on delete cascade,
+  document_type text not null
+    check (document_type in ('receipt', 'sales_invoice', 'delivery_order', 'purchase_order')),
+  title text,
+  header_text text,
+  -- Replaces the company footer message on this document when set
+  footer_text text,
+  terms_text text,
+  show_logo boolean not null default true,
+  show_npwp boolean not null default true,
+  show_return_policy boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (company_id, document_type)
+);
+
+create index if not exists idx_document_templates_company_id
+  on document_templates(company_id);
+
+alter table company_profiles enable row level security;
+alter table document_templates enable row level security;
+
+create policy "Users can view their company profile"
+  on company_profiles for select
+  using (company_id = (select company_id from users where id = auth.uid()));
+
+create policy "Owners can manage their company profile"
+  on company_profiles for all
+  using (
+    company_id = (
+      select company_id from users
+      where id = auth.uid() and role in ('owner', 'dev')
+    )
+  )
+  with check (
+    company_id = (
+      select company_id from users
+      where id = auth.uid() and role in ('owner', 'dev')
+    )
+  );
+
+create policy "Users can view their company document templates"
+  on document_templates for select
+  using (company_id = (select company_id from users where id = auth.uid()));
+
+create policy "Owners can manage their company document templates"
+  on document_templates for all
+  using (
+    company_id = (
+      select company_id from users
+      where id = auth.uid() and role in ('owner', 'dev')
+    )
+  )
+  with check (
+    company_id = (
+      select company_id from users
+      where id = auth.uid() and role in ('owner', 'dev')
+    )
+  );
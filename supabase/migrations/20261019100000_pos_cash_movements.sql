@@ -0,0 +1,84 @@
+-- ============================================================================
+-- POS Cash Movements
+-- Cash put into or taken out of the drawer during a shift outside of sales
+-- (petty cash, change top-ups, safe drops). Every movement carries a reason
+-- and the owner who approved it; movements are never edited or deleted, so
+-- the shift's expected cash can be reconstructed from them.
+-- Shifts also keep the denomination counts behind the opening and closing
+-- cash.
+-- ============================================================================
+
+alter table pos_shifts
+  add column if not exists opening_denominations jsonb,
+  add column if not exists closing_denominations jsonb;
+
+comment on column pos_shifts.opening_denominations is
+  'Count per Rupiah denomination ({"100000": 3, "500": 10}) behind opening_cash';
+comment on column pos_shifts.closing_denominations is
+  'Count per Rupiah denomination behind actual_cash';
+
+create table if not exists pos_cash_movements (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references companies(id) on delete cascade,
+  shift_id uuid not null references pos_shifts(id) on delete cascade,
+  movement_type text not null check (movement_type in ('pay_in', 'pay_out')),
+  reason text not null
+    check (reason in ('petty_cash', 'change_top_up', 'safe_drop', 'other')),
+  amount numeric(15, 2) not null check (amount > 0),
+  notes text,
+  approved_by uuid not null references users(id),
+  created_by uuid not null references users(id),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_pos_cash_movements_shift_id
+  on pos_cash_movements(shift_id);
+
+-- Movements can only be recorded in an open shift of the same company, and
+-- must be approved by an owner of that company
+create or replace function validate_pos_cash_movement()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (
+    select 1 from pos_shifts
+    where id = new.shift_id
+      and company_id = new.company_id
+      and status = 'open'
+  ) then
+    raise exception 'Cash movements can only be recorded in an open shift';
+  end if;
+
+  if not exists (
+    select 1 from users
+    where id = new.approved_by
+      and company_id = new.company_id
+      and role in ('owner', 'dev')
+  ) then
+    raise exception 'Cash movements must be approved by a company owner';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_validate_pos_cash_movement on pos_cash_movements;
+create trigger trg_validate_pos_cash_movement
+  before insert on pos_cash_movements
+  for each row execute function validate_pos_cash_movement();
+
+alter table pos_cash_movements enable row level security;
+
+create policy "Users can view their company cash movements"
+  on pos_cash_movements for select
+  using (company_id = (select company_id from users where id = auth.uid()));
+
+create policy "Users can record their company cash movements"
+  on pos_cash_movements for insert
+  with check (
+    company_id = (select company_id from users where id = auth.uid())
+    and created_by = auth.uid()
+  );
@@ -0,0 +1,109 @@
+-- ============================================================================
+-- POS Z-Reports
+-- End-of-shift reports issued once a shift is closed. Each shift gets at most
+-- one, numbered from the company's 'pos_z_report' sequence; the report content
+-- is stored as issued and can never be changed or deleted afterwards.
+-- X-reports are mid-shift snapshots and are not stored.
+-- ============================================================================
+
+-- Z-reports are numbered Z-0001, Z-0002, ... without resetting
+create or replace function ensure_document_sequence(
+  p_company_id uuid,
+  p_document_type text
+)
+returns void
+language sql
+security invoker
+as $$
+  insert into document_sequences (company_id, document_type, prefix, reset_period)
+  values (
+    p_company_id,
+    p_document_type,
+    case p_document_type
+      when 'sales_order' then 'SO'
+      when 'sales_invoice' then 'INV'
+      when 'sales_payment' then 'PAY'
+      when 'delivery_order' then 'DO'
+      when 'pos_transaction' then 'POS'
+      when 'pos_return' then 'RET'
+      when 'pos_z_report' then 'Z'
+      else upper(p_document_type)
+    end,
+    case
+      when p_document_type in ('pos_transaction', 'pos_return') then 'daily'
+      when p_document_type = 'pos_z_report' then 'never'
+      else 'monthly'
+    end
+  )
+  on conflict (company_id, document_type) do nothing;
+$$;
+
+create table if not exists pos_z_reports (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references companies(id) on delete cascade,
+  shift_id uuid not null unique references pos_shifts(id),
+  report_number text not null default '',
+  -- ShiftReport as issued (see src/types/pos.ts)
+  report jsonb not null,
+  issued_by uuid not null references users(id),
+  issued_at timestamptz not null default now(),
+  unique (company_id, report_number)
+);
+
+create index if not exists idx_pos_z_reports_company_issued
+  on pos_z_reports(company_id, issued_at desc);
+
+create trigger assign_pos_z_report_number
+  before insert on pos_z_reports
+  for each row execute function assign_document_number('pos_z_report', 'report_number');
+
+-- Only closed shifts get a Z-report
+create or replace function validate_pos_z_report()
+returns trigger
+language plpgsql
+as $$
+begin
+  if not exists (
+    select 1 from pos_shifts
+    where id = new.shift_id
+      and company_id = new.company_id
+      and status = 'closed'
+  ) then
+    raise exception 'A Z-report can only be issued for a closed shift';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger trg_validate_pos_z_report
+  before insert on pos_z_reports
+  for each row execute function validate_pos_z_report();
+
+-- Issued Z-reports are immutable
+create or replace function prevent_z_report_change()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'Z-report % has been issued and cannot be changed',
+    old.report_number;
+end;
+$$;
+
+create trigger prevent_pos_z_report_change
+  before update or delete on pos_z_reports
+  for each row execute function prevent_z_report_change();
+
+alter table pos_z_reports enable row level security;
+
+create policy "Users can view their company Z-reports"
+  on pos_z_reports for select
+  using (company_id = (select company_id from users where id = auth.uid()));
+
+create policy "Users can issue their company Z-reports"
+  on pos_z_reports for insert
+  with check (
+    company_id = (select company_id from users where id = auth.uid())
+    and issued_by = auth.uid()
+  );
@@ -0,0 +1,404 @@
+-- ============================================================================
+-- POS Supervisor Approvals
+-- A per-company policy decides which register actions need a supervisor:
+-- line discounts above a percentage, price overrides, voids of paid sales and
+-- refunds. The supervisor (an owner) enters their PIN at the terminal and
+-- every approval is recorded with who asked, who approved, and the original
+-- and new value.
+-- Voids and refunds are checked here against the transaction; discounts and
+-- price overrides are approved while the sale is still a cart, checked by the
+-- register, and linked to the transaction once it is saved.
+-- ============================================================================
+
+create extension if not exists pgcrypto with schema extensions;
+
+alter table pos_settings
+  -- Line discounts above this percentage need approval (100 = never)
+  add column if not exists approval_discount_percent numeric(5, 2) not null default 100
+    check (approval_discount_percent between 0 and 100),
+  add column if not exists approval_price_override boolean not null default true,
+  add column if not exists approval_void boolean not null default true,
+  add column if not exists approval_refund boolean not null default false;
+
+-- ============================================================================
+-- Supervisor PINs
+-- Hashed with bcrypt; read and written only through the functions below
+-- ============================================================================
+
+create table if not exists pos_supervisor_pins (
+  user_id uuid primary key references users(id) on delete cascade,
+  company_id uuid not null references companies(id) on delete cascade,
+  pin_hash text not null,
+  updated_at timestamptz not null default now()
+);
+
+alter table pos_supervisor_pins enable row level security;
+
+create or replace function set_supervisor_pin(p_pin text)
+returns void
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_user users;
+begin
+  select * into v_user from users where id = auth.uid();
+  if not found or v_user.role not in ('owner', 'dev') then
+    raise exception 'Only company owners can set a supervisor PIN';
+  end if;
+
+  if p_pin !~ '^[0-9]{4,6}$' then
+    raise exception 'PIN must be 4 to 6 digits';
+  end if;
+
+  insert into pos_supervisor_pins (user_id, company_id, pin_hash)
+  values (v_user.id, v_user.company_id, crypt(p_pin, gen_salt('bf')))
+  on conflict (user_id) do update
+  set pin_hash = excluded.pin_hash, updated_at = now();
+end;
+$$;
+
+-- Owners of the caller's company who can approve at the register
+create or replace function get_pos_supervisors()
+returns table (id uuid, name text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select u.id, u.name
+  from users u
+  join pos_supervisor_pins p on p.user_id = u.id
+  where u.company_id = (select company_id from users where id = auth.uid())
+    and u.role in ('owner', 'dev')
+  order by u.name;
+$$;
+
+-- ============================================================================
+-- Approvals
+-- ============================================================================
+
+create table if not exists pos_approvals (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references companies(id) on delete cascade,
+  action text not null
+    check (action in ('discount', 'price_override', 'void', 'refund')),
+  -- Null until a cart-time approval is linked to its sale
+  transaction_id uuid references pos_transactions(id) on delete cascade,
+  shift_id uuid references pos_shifts(id),
+  product_id uuid references products(id),
+  original_value numeric(15, 2),
+  new_value numeric(15, 2),
+  description text,
+  requested_by uuid not null references users(id),
+  approved_by uuid not null references users(id),
+  approved_at timestamptz not null default now()
+);
+
+create index if not exists idx_pos_approvals_transaction_id
+  on pos_approvals(transaction_id);
+create index if not exists idx_pos_approvals_company_approved
+  on pos_approvals(company_id, approved_at desc);
+
+alter table pos_approvals enable row level security;
+
+-- Approvals are written only by approve_pos_action and link_pos_approvals
+create policy "Users can view their company POS approvals"
+  on pos_approvals for select
+  using (company_id = (select company_id from users where id = auth.uid()));
+
+-- ============================================================================
+-- approve_pos_action
+-- Checks the supervisor's PIN and records the approval
+-- ============================================================================
+
+create or replace function approve_pos_action(
+  p_supervisor_id uuid,
+  p_pin text,
+  p_approval jsonb
+)
+returns pos_approvals
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_company_id uuid;
+  v_transaction_id uuid := nullif(p_approval->>'transaction_id', '')::uuid;
+  v_approval pos_approvals;
+begin
+  select company_id into v_company_id from users where id = v_user_id;
+  if v_company_id is null then
+    raise exception 'Failed to get company information';
+  end if;
+
+  if not exists (
+    select 1
+    from users u
+    join pos_supervisor_pins p on p.user_id = u.id
+    where u.id = p_supervisor_id
+      and u.company_id = v_company_id
+      and u.role in ('owner', 'dev')
+      and p.pin_hash = crypt(coalesce(p_pin, ''), p.pin_hash)
+  ) then
+    raise exception 'Invalid supervisor PIN';
+  end if;
+
+  if v_transaction_id is not null and not exists (
+    select 1 from pos_transactions
+    where id = v_transaction_id and company_id = v_company_id
+  ) then
+    raise exception 'Transaction not found';
+  end if;
+
+  insert into pos_approvals (
+    company_id,
+    action,
+    transaction_id,
+    shift_id,
+    product_id,
+    original_value,
+    new_value,
+    description,
+    requested_by,
+    approved_by
+  ) values (
+    v_company_id,
+    p_approval->>'action',
+    v_transaction_id,
+    nullif(p_approval->>'shift_id', '')::uuid,
+    nullif(p_approval->>'product_id', '')::uuid,
+    (p_approval->>'original_value')::numeric,
+    (p_approval->>'new_value')::numeric,
+    p_approval->>'description',
+    v_user_id,
+    p_supervisor_id
+  )
+  returning * into v_approval;
+
+  return v_approval;
+end;
+$$;
+
+-- ============================================================================
+-- link_pos_approvals
+-- Attaches the cashier's cart-time approvals to the sale they were given for
+-- ============================================================================
+
+create or replace function link_pos_approvals(
+  p_transaction_id uuid,
+  p_approval_ids uuid[]
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_company_id uuid;
+begin
+  select company_id into v_company_id from users where id = v_user_id;
+
+  if not exists (
+    select 1 from pos_transactions
+    where id = p_transaction_id and company_id = v_company_id
+  ) then
+    raise exception 'Transaction not found';
+  end if;
+
+  update pos_approvals
+  set transaction_id = p_transaction_id
+  where id = any(p_approval_ids)
+    and company_id = v_company_id
+    and requested_by = v_user_id
+    and transaction_id is null
+    and action in ('discount', 'price_override');
+end;
+$$;
+
+-- An approval for a void or refund is good for one use within 15 minutes
+create or replace function has_pos_approval(
+  p_transaction_id uuid,
+  p_action text
+)
+returns boolean
+language sql
+stable
+security invoker
+as $$
+  select exists (
+    select 1 from pos_approvals a
+    where a.transaction_id = p_transaction_id
+      and a.action = p_action
+      and a.approved_at > now() - interval '15 minutes'
+      and a.approved_at > coalesce(
+        (select max(r.created_at) from pos_returns r
+         where r.transaction_id = p_transaction_id),
+        '-infinity'
+      )
+  );
+$$;
+
+-- ============================================================================
+-- Policy checks
+-- ============================================================================
+
+create or replace function validate_pos_void_approval()
+returns trigger
+language plpgsql
+as $$
+begin
+  if old.payment_status = 'paid'
+    and new.payment_status = 'cancelled'
+    and coalesce(
+      (select approval_void from pos_settings where company_id = new.company_id),
+      true
+    )
+    and not has_pos_approval(new.id, 'void')
+  then
+    raise exception 'A supervisor must approve voiding a paid transaction';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_validate_pos_void_approval on pos_transactions;
+create trigger trg_validate_pos_void_approval
+  before update of payment_status on pos_transactions
+  for each row execute function validate_pos_void_approval();
+
+create or replace function validate_pos_refund_approval()
+returns trigger
+language plpgsql
+as $$
+begin
+  if coalesce(
+      (select approval_refund from pos_settings where company_id = new.company_id),
+      false
+    )
+    and not has_pos_approval(new.transaction_id, 'refund')
+  then
+    raise exception 'A supervisor must approve this refund';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_validate_pos_refund_approval on pos_returns;
+create trigger trg_validate_pos_refund_approval
+  before insert on pos_returns
+  for each row execute function validate_pos_refund_approval();
+
+-- ============================================================================
+-- void_pos_transaction
+-- Cancels a paid sale and puts its goods back in the warehouse they were sold
+-- from. Sales with returns or a credit invoice are returned instead.
+-- ============================================================================
+
+create or replace function void_pos_transaction(p_transaction_id uuid)
+returns pos_transactions
+language plpgsql
+security invoker
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_company_id uuid;
+  v_transaction pos_transactions;
+  v_warehouse_id uuid;
+  v_item pos_transaction_items;
+begin
+  select company_id into v_company_id from users where id = v_user_id;
+  if v_company_id is null then
+    raise exception 'Failed to get company information';
+  end if;
+
+  select * into v_transaction
+  from pos_transactions
+  where id = p_transaction_id and company_id = v_company_id
+  for update;
+
+  if not found then
+    raise exception 'Transaction not found';
+  end if;
+
+  if v_transaction.payment_status <> 'paid' then
+    raise exception 'Only paid transactions can be voided';
+  end if;
+
+  if exists (select 1 from pos_returns where transaction_id = v_transaction.id) then
+    raise exception 'Transactions with returns cannot be voided';
+  end if;
+
+  if exists (
+    select 1 from sales_invoices where pos_transaction_id = v_transaction.id
+  ) then
+    raise exception 'Credit sales cannot be voided; return the items instead';
+  end if;
+
+  select warehouse_id into v_warehouse_id
+  from pos_shifts
+  where id = v_transaction.shift_id;
+
+  if v_warehouse_id is null then
+    select id into v_warehouse_id
+    from warehouses
+    where company_id = v_company_id and is_default = true and is_active = true
+    limit 1;
+  end if;
+
+  if v_warehouse_id is null then
+    raise exception 'No warehouse available to restock voided items';
+  end if;
+
+  -- Approval is checked by trg_validate_pos_void_approval
+  update pos_transactions
+  set payment_status = 'cancelled', updated_at = now()
+  where id = v_transaction.id
+  returning * into v_transaction;
+
+  for v_item in
+    select * from pos_transaction_items
+    where transaction_id = v_transaction.id
+    order by product_id
+  loop
+    insert into stock_movements (
+      company_id,
+      product_id,
+      warehouse_id,
+      movement_type,
+      quantity,
+      reference_type,
+      reference_id,
+      notes,
+      created_by
+    ) values (
+      v_company_id,
+      v_item.product_id,
+      v_warehouse_id,
+      'IN',
+      v_item.quantity,
+      'pos_void',
+      v_transaction.id,
+      'POS void ' || v_transaction.transaction_number,
+      v_user_id
+    );
+
+    update stock
+    set quantity = coalesce(quantity, 0) + v_item.quantity,
+        last_updated = now()
+    where product_id = v_item.product_id and warehouse_id = v_warehouse_id;
+
+    if not found then
+      insert into stock (company_id, product_id, warehouse_id, quantity)
+      values (v_company_id, v_item.product_id, v_warehouse_id, v_item.quantity);
+    end if;
+  end loop;
+
+  return v_transaction;
+end;
+$$;
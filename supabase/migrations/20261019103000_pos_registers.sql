@@ -0,0 +1,90 @@
+-- ============================================================================
+-- POS Registers
+-- A register (terminal) belongs to one outlet warehouse and carries the
+-- default printer and receipt texts of the terminal. Shifts are opened on a
+-- register: they sell from its warehouse, and a register has at most one
+-- open shift at a time. Companies without registers keep opening shifts on a
+-- warehouse directly.
+-- ============================================================================
+
+create table if not exists pos_registers (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references companies(id) on delete cascade,
+  name text not null,
+  code text not null,
+  warehouse_id uuid not null references warehouses(id),
+  -- Default PrinterSettings of the terminal (see src/types/pos.ts); settings
+  -- saved on the terminal itself take precedence
+  printer_settings jsonb not null default '{}'::jsonb,
+  -- Printed instead of the receipt template's header/footer when set
+  receipt_header text,
+  receipt_footer text,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (company_id, code)
+);
+
+create index if not exists idx_pos_registers_company_id
+  on pos_registers(company_id);
+
+alter table pos_registers enable row level security;
+
+create policy "Users can view their company POS registers"
+  on pos_registers for select
+  using (company_id = (select company_id from users where id = auth.uid()));
+
+create policy "Users can manage their company POS registers"
+  on pos_registers for all
+  using (company_id = (select company_id from users where id = auth.uid()))
+  with check (company_id = (select company_id from users where id = auth.uid()));
+
+alter table pos_shifts
+  add column if not exists register_id uuid references pos_registers(id);
+
+create index if not exists idx_pos_shifts_register_id on pos_shifts(register_id);
+
+-- One open shift per register
+create unique index if not exists idx_pos_shifts_open_register
+  on pos_shifts(register_id)
+  where status = 'open';
+
+-- Shifts are opened on an active register of the company (once it has any)
+-- and always sell from the register's warehouse
+create or replace function validate_pos_shift_register()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_register pos_registers;
+begin
+  if new.register_id is null then
+    if exists (
+      select 1 from pos_registers
+      where company_id = new.company_id and is_active = true
+    ) then
+      raise exception 'Select the register this shift is opened on';
+    end if;
+
+    return new;
+  end if;
+
+  select * into v_register
+  from pos_registers
+  where id = new.register_id
+    and company_id = new.company_id
+    and is_active = true;
+
+  if not found then
+    raise exception 'Register not found or inactive';
+  end if;
+
+  new.warehouse_id := v_register.warehouse_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_validate_pos_shift_register on pos_shifts;
+create trigger trg_validate_pos_shift_register
+  before insert on pos_shifts
+  for each row execute function validate_pos_shift_register();
@@ -0,0 +1,8 @@
+-- ============================================================================
+-- POS Customer Display
+-- The merchant's static QRIS payload. The customer display shows it at
+-- checkout as a dynamic QRIS code carrying the amount due.
+-- ============================================================================
+
+alter table pos_settings
+  add column if not exists qris_payload text;
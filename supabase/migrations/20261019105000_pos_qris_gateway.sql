@@ -0,0 +1,573 @@
+-- ============================================================================
+-- POS QRIS Gateway
+-- E-wallet and transfer lines can be collected through a payment gateway as
+-- a dynamic QRIS charge. Such a line is saved as pending and the sale stays
+-- pending until the gateway reports the charge paid (by polling or webhook).
+-- An expired or cancelled charge leaves both pending, to be charged again or
+-- voided.
+-- ============================================================================
+
+alter table pos_settings
+  -- Adapter id (see src/lib/pos/payment-gateway.ts); null keeps recording a
+  -- manual reference number
+  add column if not exists payment_gateway text,
+  add column if not exists qris_expiry_minutes integer not null default 5
+    check (qris_expiry_minutes between 1 and 60);
+
+alter table pos_payments
+  add column if not exists status text not null default 'paid'
+    check (status in ('pending', 'paid', 'cancelled'));
+
+create table if not exists pos_qris_charges (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references companies(id) on delete cascade,
+  transaction_id uuid not null references pos_transactions(id) on delete cascade,
+  payment_id uuid not null references pos_payments(id) on delete cascade,
+  gateway text not null,
+  external_id text not null, -- The gateway's own id for the charge
+  qris_payload text not null,
+  amount numeric(15, 2) not null check (amount > 0),
+  status text not null default 'pending'
+    check (status in ('pending', 'paid', 'expired', 'cancelled')),
+  expires_at timestamptz not null,
+  paid_at timestamptz,
+  created_by uuid references users(id),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (gateway, external_id)
+);
+
+create index if not exists idx_pos_qris_charges_company_id
+  on pos_qris_charges(company_id);
+create index if not exists idx_pos_qris_charges_payment_id
+  on pos_qris_charges(payment_id);
+
+-- Charges are written by the server routes that talk to the gateway
+alter table pos_qris_charges enable row level security;
+
+create policy "Users can view their company QRIS charges"
+  on pos_qris_charges for select
+  using (company_id = (select company_id from users where id = auth.uid()));
+
+-- ============================================================================
+-- settle_pos_qris_charge
+-- Applies the gateway's verdict on a charge. A paid charge settles its
+-- payment line and, once no line is pending, the sale. A payment that lands
+-- after the charge expired still counts; one for a line that is no longer
+-- pending (the sale was voided) is only recorded, to be refunded by hand.
+-- ============================================================================
+
+create or replace function settle_pos_qris_charge(
+  p_charge_id uuid,
+  p_status text
+)
+returns pos_qris_charges
+language plpgsql
+security invoker
+as $$
+declare
+  v_charge pos_qris_charges;
+begin
+  if p_status not in ('paid', 'expired', 'cancelled') then
+    raise exception 'Invalid QRIS charge status %', p_status;
+  end if;
+
+  select * into v_charge
+  from pos_qris_charges
+  where id = p_charge_id
+  for update;
+
+  if not found then
+    raise exception 'QRIS charge not found';
+  end if;
+
+  if v_charge.status = 'paid'
+     or (v_charge.status <> 'pending' and p_status <> 'paid') then
+    return v_charge;
+  end if;
+
+  if p_status = 'paid' then
+    update pos_payments
+    set status = 'paid',
+        reference_number = v_charge.external_id,
+        payment_date = now(),
+        updated_at = now()
+    where id = v_charge.payment_id and status = 'pending';
+
+    update pos_transactions
+    set payment_status = 'paid', updated_at = now()
+    where id = v_charge.transaction_id
+      and payment_status = 'pending'
+      and not exists (
+        select 1 from pos_payments
+        where transaction_id = v_charge.transaction_id and status = 'pending'
+      );
+  end if;
+
+  update pos_qris_charges
+  set status = p_status,
+      paid_at = case when p_status = 'paid' then now() end,
+      updated_at = now()
+  where id = v_charge.id
+  returning * into v_charge;
+
+  return v_charge;
+end;
+$$;
+
+revoke execute on function settle_pos_qris_charge(uuid, text) from public;
+grant execute on function settle_pos_qris_charge(uuid, text) to service_role;
+
+-- ============================================================================
+-- create_pos_transaction
+-- Same as before, plus: transfer and e-wallet lines may be saved as pending
+-- while their gateway charge is outstanding, which keeps the sale pending.
+-- ============================================================================
+
+create or replace function create_pos_transaction(
+  p_transaction jsonb,
+  p_items jsonb,
+  p_payments jsonb default '[]'::jsonb,
+  p_override_stock boolean default false
+)
+returns pos_transactions
+language plpgsql
+security invoker
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_company_id uuid;
+  v_shift_id uuid := nullif(p_transaction->>'shift_id', '')::uuid;
+  v_warehouse_id uuid;
+  v_allow_override boolean := false;
+  v_transaction pos_transactions;
+  v_line record;
+  v_stock stock;
+  v_product_name text;
+  v_total numeric := (p_transaction->>'total')::numeric;
+  v_payments jsonb := coalesce(p_payments, '[]'::jsonb);
+  v_tendered numeric;
+  v_non_cash numeric;
+  v_change numeric;
+  v_payment_method text;
+  v_payment_status text;
+  v_client_id uuid := nullif(p_transaction->>'client_id', '')::uuid;
+begin
+  select company_id into v_company_id from users where id = v_user_id;
+  if v_company_id is null then
+    raise exception 'Failed to get company information';
+  end if;
+
+  -- A sale already synced from this device is returned as is
+  if v_client_id is not null then
+    select * into v_transaction
+    from pos_transactions
+    where company_id = v_company_id and client_id = v_client_id;
+
+    if found then
+      return v_transaction;
+    end if;
+  end if;
+
+  if jsonb_array_length(coalesce(p_items, '[]'::jsonb)) = 0 then
+    raise exception 'Transaction must have at least one item';
+  end if;
+
+  -- Resolve the warehouse: the shift's own, else the company default
+  if v_shift_id is not null then
+    select warehouse_id into v_warehouse_id
+    from pos_shifts
+    where id = v_shift_id and company_id = v_company_id and status = 'open';
+
+    if not found then
+      raise exception 'Shift is not open';
+    end if;
+  end if;
+
+  if v_warehouse_id is null then
+    select id into v_warehouse_id
+    from warehouses
+    where company_id = v_company_id and is_default = true and is_active = true
+    limit 1;
+  end if;
+
+  if v_warehouse_id is null then
+    raise exception 'No warehouse assigned to this shift';
+  end if;
+
+  -- A single-method sale without lines is paid exactly by that method
+  if jsonb_array_length(v_payments) = 0 then
+    if p_transaction->>'payment_method' = 'split' then
+      raise exception 'Split payments need at least two payment lines';
+    end if;
+
+    v_payments := jsonb_build_array(jsonb_build_object(
+      'payment_method', p_transaction->>'payment_method',
+      'amount', v_total
+    ));
+  end if;
+
+  if exists (
+    select 1
+    from jsonb_to_recordset(v_payments) as payment(
+      payment_method text,
+      amount numeric
+    )
+    where payment.payment_method not in ('cash', 'card', 'transfer', 'e-wallet', 'credit')
+       or coalesce(payment.amount, 0) <= 0
+  ) then
+    raise exception 'Each payment line needs a valid method and a positive amount';
+  end if;
+
+  if exists (
+    select 1
+    from jsonb_to_recordset(v_payments) as payment(
+      payment_method text,
+      status text
+    )
+    where coalesce(payment.status, 'paid') not in ('pending', 'paid')
+       or (payment.status = 'pending'
+           and payment.payment_method not in ('transfer', 'e-wallet'))
+  ) then
+    raise exception 'Only transfer and e-wallet payments can await settlement';
+  end if;
+
+  select
+    coalesce(sum(payment.amount), 0),
+    coalesce(sum(payment.amount) filter (where payment.payment_method <> 'cash'), 0)
+  into v_tendered, v_non_cash
+  from jsonb_to_recordset(v_payments) as payment(
+    payment_method text,
+    amount numeric
+  );
+
+  if v_tendered < v_total then
+    raise exception 'Payments of % do not cover the total of %', v_tendered, v_total;
+  end if;
+
+  if v_non_cash > v_total then
+    raise exception 'Non-cash payments of % exceed the total of %', v_non_cash, v_total;
+  end if;
+
+  -- Only cash can be over-tendered; the excess is handed back as change
+  v_change := v_tendered - v_total;
+
+  select case when count(distinct payment.payment_method) > 1 then 'split'
+              else min(payment.payment_method) end
+  into v_payment_method
+  from jsonb_to_recordset(v_payments) as payment(payment_method text);
+
+  -- The sale stays pending until every gateway payment has settled
+  select case when bool_or(payment.status = 'pending') then 'pending'
+              else 'paid' end
+  into v_payment_status
+  from jsonb_to_recordset(v_payments) as payment(status text);
+
+  select coalesce(allow_stock_override, false) into v_allow_override
+  from pos_settings
+  where company_id = v_company_id;
+
+  insert into pos_transactions (
+    company_id,
+    transaction_number,
+    shift_id,
+    customer_id,
+    cashier_id,
+    subtotal,
+    discount_amount,
+    tax_amount,
+    tax_rate,
+    prices_include_tax,
+    dpp_amount,
+    total,
+    amount_tendered,
+    change_amount,
+    payment_method,
+    payment_status,
+    transaction_date,
+    client_id,
+    offline_number,
+    notes
+  ) values (
+    v_company_id,
+    p_transaction->>'transaction_number',
+    v_shift_id,
+    nullif(p_transaction->>'customer_id', '')::uuid,
+    v_user_id,
+    (p_transaction->>'subtotal')::numeric,
+    (p_transaction->>'discount_amount')::numeric,
+    (p_transaction->>'tax_amount')::numeric,
+    coalesce((p_transaction->>'tax_rate')::numeric, 0),
+    coalesce((p_transaction->>'prices_include_tax')::boolean, false),
+    coalesce((p_transaction->>'dpp_amount')::numeric, 0),
+    v_total,
+    v_tendered,
+    v_change,
+    v_payment_method,
+    v_payment_status,
+    coalesce((p_transaction->>'transaction_date')::timestamptz, now()),
+    v_client_id,
+    p_transaction->>'offline_number',
+    p_transaction->>'notes'
+  )
+  returning * into v_transaction;
+
+  insert into pos_transaction_items (
+    transaction_id,
+    product_id,
+    quantity,
+    unit_price,
+    discount_amount,
+    promotion_id,
+    subtotal
+  )
+  select
+    v_transaction.id,
+    item.product_id,
+    item.quantity,
+    item.unit_price,
+    coalesce(item.discount_amount, 0),
+    item.promotion_id,
+    item.subtotal
+  from jsonb_to_recordset(p_items) as item(
+    product_id uuid,
+    quantity numeric,
+    unit_price numeric,
+    discount_amount numeric,
+    promotion_id uuid,
+    subtotal numeric
+  );
+
+  -- One OUT movement per product; lock stock rows in a stable order
+  for v_line in
+    select item.product_id, sum(item.quantity) as quantity
+    from jsonb_to_recordset(p_items) as item(product_id uuid, quantity numeric)
+    group by item.product_id
+    order by item.product_id
+  loop
+    select * into v_stock
+    from stock
+    where product_id = v_line.product_id and warehouse_id = v_warehouse_id
+    for update;
+
+    if coalesce(v_stock.quantity, 0) < v_line.quantity
+       and not (v_allow_override and p_override_stock) then
+      select name into v_product_name from products where id = v_line.product_id;
+      raise exception 'Insufficient stock for %: available %, requested %',
+        coalesce(v_product_name, v_line.product_id::text),
+        coalesce(v_stock.quantity, 0),
+        v_line.quantity;
+    end if;
+
+    insert into stock_movements (
+      company_id,
+      product_id,
+      warehouse_id,
+      movement_type,
+      quantity,
+      reference_type,
+      reference_id,
+      notes,
+      created_by
+    ) values (
+      v_company_id,
+      v_line.product_id,
+      v_warehouse_id,
+      'OUT',
+      v_line.quantity,
+      'pos_transaction',
+      v_transaction.id,
+      'POS sale ' || v_transaction.transaction_number,
+      v_user_id
+    );
+
+    if v_stock.id is not null then
+      update stock
+      set quantity = coalesce(quantity, 0) - v_line.quantity,
+          last_updated = now()
+      where id = v_stock.id;
+    else
+      insert into stock (company_id, product_id, warehouse_id, quantity)
+      values (v_company_id, v_line.product_id, v_warehouse_id, -v_line.quantity);
+    end if;
+
+    v_stock := null;
+  end loop;
+
+  -- Change comes out of the cash lines in order, so each line's amount is
+  -- what it actually contributed to the sale
+  insert into pos_payments (
+    transaction_id,
+    payment_method,
+    amount,
+    tendered_amount,
+    change_amount,
+    reference_number,
+    notes,
+    status
+  )
+  select
+    v_transaction.id,
+    payment.payment_method,
+    payment.amount - payment.line_change,
+    payment.amount,
+    payment.line_change,
+    payment.reference_number,
+    payment.notes,
+    coalesce(payment.status, 'paid')
+  from (
+    select
+      line.*,
+      case when line.payment_method = 'cash' then
+        least(
+          line.amount,
+          greatest(v_change - coalesce(sum(line.amount) filter (
+            where line.payment_method = 'cash'
+          ) over (
+            order by line.ordinality
+            rows between unbounded preceding and 1 preceding
+          ), 0), 0)
+        )
+      else 0 end as line_change
+    from rows from (
+      jsonb_to_recordset(v_payments) as (
+        payment_method text,
+        amount numeric,
+        reference_number text,
+        notes text,
+        status text
+      )
+    ) with ordinality as line(
+      payment_method,
+      amount,
+      reference_number,
+      notes,
+      status,
+      ordinality
+    )
+  ) as payment;
+
+  return v_transaction;
+end;
+$$;
+
+grant execute on function create_pos_transaction(jsonb, jsonb, jsonb, boolean)
+  to authenticated;
+
+-- ============================================================================
+-- void_pos_transaction
+-- Same as before, plus: a sale still awaiting its gateway payment can be
+-- voided, which calls off its pending payment lines and charges.
+-- ============================================================================
+
+create or replace function void_pos_transaction(p_transaction_id uuid)
+returns pos_transactions
+language plpgsql
+security invoker
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_company_id uuid;
+  v_transaction pos_transactions;
+  v_warehouse_id uuid;
+  v_item pos_transaction_items;
+begin
+  select company_id into v_company_id from users where id = v_user_id;
+  if v_company_id is null then
+    raise exception 'Failed to get company information';
+  end if;
+
+  select * into v_transaction
+  from pos_transactions
+  where id = p_transaction_id and company_id = v_company_id
+  for update;
+
+  if not found then
+    raise exception 'Transaction not found';
+  end if;
+
+  if v_transaction.payment_status not in ('paid', 'pending') then
+    raise exception 'Only paid or pending transactions can be voided';
+  end if;
+
+  if exists (select 1 from pos_returns where transaction_id = v_transaction.id) then
+    raise exception 'Transactions with returns cannot be voided';
+  end if;
+
+  if exists (
+    select 1 from sales_invoices where pos_transaction_id = v_transaction.id
+  ) then
+    raise exception 'Credit sales cannot be voided; return the items instead';
+  end if;
+
+  select warehouse_id into v_warehouse_id
+  from pos_shifts
+  where id = v_transaction.shift_id;
+
+  if v_warehouse_id is null then
+    select id into v_warehouse_id
+    from warehouses
+    where company_id = v_company_id and is_default = true and is_active = true
+    limit 1;
+  end if;
+
+  if v_warehouse_id is null then
+    raise exception 'No warehouse available to restock voided items';
+  end if;
+
+  -- Approval is checked by trg_validate_pos_void_approval
+  update pos_transactions
+  set payment_status = 'cancelled', updated_at = now()
+  where id = v_transaction.id
+  returning * into v_transaction;
+
+  -- Gateway payments still awaited are called off with the sale
+  update pos_payments
+  set status = 'cancelled', updated_at = now()
+  where transaction_id = v_transaction.id and status = 'pending';
+
+  update pos_qris_charges
+  set status = 'cancelled', updated_at = now()
+  where transaction_id = v_transaction.id and status = 'pending';
+
+  for v_item in
+    select * from pos_transaction_items
+    where transaction_id = v_transaction.id
+    order by product_id
+  loop
+    insert into stock_movements (
+      company_id,
+      product_id,
+      warehouse_id,
+      movement_type,
+      quantity,
+      reference_type,
+      reference_id,
+      notes,
+      created_by
+    ) values (
+      v_company_id,
+      v_item.product_id,
+      v_warehouse_id,
+      'IN',
+      v_item.quantity,
+      'pos_void',
+      v_transaction.id,
+      'POS void ' || v_transaction.transaction_number,
+      v_user_id
+    );
+
+    update stock
+    set quantity = coalesce(quantity, 0) + v_item.quantity,
+        last_updated = now()
+    where product_id = v_item.product_id and warehouse_id = v_warehouse_id;
+
+    if not found then
+      insert into stock (company_id, product_id, warehouse_id, quantity)
+      values (v_company_id, v_item.product_id, v_warehouse_id, v_item.quantity);
+    end if;
+  end loop;
+
+  return v_transaction;
+end;
+$$;
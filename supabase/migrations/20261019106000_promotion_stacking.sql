@@ -0,0 +1,14 @@
+-- ============================================================================
+-- Promotion Stacking
+-- Whether a promotion may share a cart line with others, an exclusivity
+-- group of which a cart gets at most one promotion, and a priority deciding
+-- which promotions are tried first when they compete.
+-- ============================================================================
+
+alter table promotions
+  add column if not exists stackable boolean not null default false,
+  add column if not exists exclusive_group text,
+  add column if not exists priority integer not null default 0;
+
+create index if not exists idx_promotions_priority
+  on promotions(company_id, priority desc);
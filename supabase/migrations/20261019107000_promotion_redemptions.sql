@@ -0,0 +1,564 @@
+-- ============================================================================
+-- Promotion Redemptions
+-- Usage limits per promotion and per customer, coupon promotions that only
+-- apply once their code is entered, and a ledger of which POS sale or sales
+-- order used which promotion and for how much. Voided sales and cancelled
+-- orders give their redemptions back.
+-- ============================================================================
+
+alter table promotions
+  add column if not exists usage_limit integer check (usage_limit > 0),
+  add column if not exists usage_limit_per_customer integer
+    check (usage_limit_per_customer > 0),
+  add column if not exists requires_code boolean not null default false;
+
+-- Coupon code entered on a sales order
+alter table sales_orders
+  add column if not exists coupon_code text;
+
+create table if not exists promotion_redemptions (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references companies(id) on delete cascade,
+  promotion_id uuid not null references promotions(id) on delete cascade,
+  customer_id uuid references customers(id) on delete set null,
+  pos_transaction_id uuid references pos_transactions(id) on delete cascade,
+  sales_order_id uuid references sales_orders(id) on delete cascade,
+  code text, -- Coupon code as entered at checkout
+  discount_amount numeric(15, 2) not null default 0
+    check (discount_amount >= 0),
+  status text not null default 'applied'
+    check (status in ('applied', 'reversed')),
+  redeemed_at timestamptz not null default now(),
+  reversed_at timestamptz,
+  created_by uuid references users(id),
+  check ((pos_transaction_id is null) <> (sales_order_id is null))
+);
+
+create index if not exists idx_promotion_redemptions_promotion_id
+  on promotion_redemptions(promotion_id, status);
+create index if not exists idx_promotion_redemptions_customer_id
+  on promotion_redemptions(customer_id);
+create index if not exists idx_promotion_redemptions_pos_transaction_id
+  on promotion_redemptions(pos_transaction_id);
+create index if not exists idx_promotion_redemptions_sales_order_id
+  on promotion_redemptions(sales_order_id);
+
+-- Redemptions are written by record_promotion_redemptions only
+alter table promotion_redemptions enable row level security;
+
+create policy "Users can view their company promotion redemptions"
+  on promotion_redemptions for select
+  using (company_id = (select company_id from users where id = auth.uid()));
+
+-- ============================================================================
+-- record_promotion_redemptions
+-- Writes what a POS sale or a sales order redeemed, replacing what the same
+-- document redeemed before. Each promotion row is locked while its usage is
+-- counted, so concurrent sales cannot overrun a limit. Coupon promotions
+-- need their code, and per-customer limits need a customer. Limits are only
+-- waived for offline sales the cashier accepted over them, since the goods
+-- have already left the store.
+-- ============================================================================
+
+create or replace function record_promotion_redemptions(
+  p_company_id uuid,
+  p_customer_id uuid,
+  p_transaction_id uuid,
+  p_order_id uuid,
+  p_redemptions jsonb,
+  p_created_by uuid default null,
+  p_enforce_limits boolean default true
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_line record;
+  v_promotion promotions;
+  v_used integer;
+begin
+  -- Signed-in callers may only write for their own company
+  if auth.uid() is not null and not exists (
+    select 1 from users where id = auth.uid() and company_id = p_company_id
+  ) then
+    raise exception 'Not allowed to redeem promotions for this company';
+  end if;
+
+  if (p_transaction_id is null) = (p_order_id is null) then
+    raise exception 'Redemptions belong to either a POS sale or a sales order';
+  end if;
+
+  delete from promotion_redemptions
+  where company_id = p_company_id
+    and (pos_transaction_id = p_transaction_id or sales_order_id = p_order_id);
+
+  for v_line in
+    select
+      redemption.promotion_id,
+      sum(coalesce(redemption.discount_amount, 0)) as discount_amount,
+      max(nullif(trim(redemption.code), '')) as code
+    from jsonb_to_recordset(coalesce(p_redemptions, '[]'::jsonb)) as redemption(
+      promotion_id uuid,
+      discount_amount numeric,
+      code text
+    )
+    group by redemption.promotion_id
+    order by redemption.promotion_id
+  loop
+    select * into v_promotion
+    from promotions
+    where id = v_line.promotion_id and company_id = p_company_id
+    for update;
+
+    if not found then
+      raise exception 'Promotion not found';
+    end if;
+
+    if v_promotion.requires_code
+       and upper(coalesce(v_line.code, '')) <> upper(v_promotion.code) then
+      raise exception 'Promotion % needs its coupon code', v_promotion.name;
+    end if;
+
+    if p_enforce_limits and v_promotion.usage_limit is not null then
+      select count(*) into v_used
+      from promotion_redemptions
+      where promotion_id = v_promotion.id and status = 'applied';
+
+      if v_used >= v_promotion.usage_limit then
+        raise exception 'Promotion % has reached its usage limit of %',
+          v_promotion.name, v_promotion.usage_limit;
+      end if;
+    end if;
+
+    if p_enforce_limits and v_promotion.usage_limit_per_customer is not null then
+      if p_customer_id is null then
+        raise exception 'Promotion % needs a customer', v_promotion.name;
+      end if;
+
+      select count(*) into v_used
+      from promotion_redemptions
+      where promotion_id = v_promotion.id
+        and customer_id = p_customer_id
+        and status = 'applied';
+
+      if v_used >= v_promotion.usage_limit_per_customer then
+        raise exception 'The customer has already used promotion % % time(s)',
+          v_promotion.name, v_used;
+      end if;
+    end if;
+
+    insert into promotion_redemptions (
+      company_id,
+      promotion_id,
+      customer_id,
+      pos_transaction_id,
+      sales_order_id,
+      code,
+      discount_amount,
+      created_by
+    ) values (
+      p_company_id,
+      v_promotion.id,
+      p_customer_id,
+      p_transaction_id,
+      p_order_id,
+      v_line.code,
+      v_line.discount_amount,
+      coalesce(auth.uid(), p_created_by)
+    );
+  end loop;
+end;
+$$;
+
+revoke execute on function record_promotion_redemptions(uuid, uuid, uuid, uuid, jsonb, uuid, boolean)
+  from public, anon;
+grant execute on function record_promotion_redemptions(uuid, uuid, uuid, uuid, jsonb, uuid, boolean)
+  to authenticated, service_role;
+
+-- Voiding a sale or cancelling an order gives its redemptions back
+create or replace function reverse_promotion_redemptions()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update promotion_redemptions
+  set status = 'reversed', reversed_at = now()
+  where status = 'applied'
+    and (
+      (tg_table_name = 'pos_transactions' and pos_transaction_id = new.id)
+      or (tg_table_name = 'sales_orders' and sales_order_id = new.id)
+    );
+
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_reverse_pos_promotion_redemptions on pos_transactions;
+create trigger trg_reverse_pos_promotion_redemptions
+  after update of payment_status on pos_transactions
+  for each row
+  when (new.payment_status = 'cancelled' and old.payment_status <> 'cancelled')
+  execute function reverse_promotion_redemptions();
+
+drop trigger if exists trg_reverse_order_promotion_redemptions on sales_orders;
+create trigger trg_reverse_order_promotion_redemptions
+  after update of status on sales_orders
+  for each row
+  when (new.status = 'cancelled' and old.status <> 'cancelled')
+  execute function reverse_promotion_redemptions();
+
+-- ============================================================================
+-- create_pos_transaction
+-- Same as before, plus: the promotions the sale used (p_transaction
+-- 'promotions': promotion_id, discount_amount and coupon code) are redeemed
+-- with it, so a sale over a usage limit is not saved unless it is an offline
+-- sale synced with override_promotion_limits.
+-- ============================================================================
+
+create or replace function create_pos_transaction(
+  p_transaction jsonb,
+  p_items jsonb,
+  p_payments jsonb default '[]'::jsonb,
+  p_override_stock boolean default false
+)
+returns pos_transactions
+language plpgsql
+security invoker
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_company_id uuid;
+  v_shift_id uuid := nullif(p_transaction->>'shift_id', '')::uuid;
+  v_warehouse_id uuid;
+  v_allow_override boolean := false;
+  v_transaction pos_transactions;
+  v_line record;
+  v_stock stock;
+  v_product_name text;
+  v_total numeric := (p_transaction->>'total')::numeric;
+  v_payments jsonb := coalesce(p_payments, '[]'::jsonb);
+  v_tendered numeric;
+  v_non_cash numeric;
+  v_change numeric;
+  v_payment_method text;
+  v_payment_status text;
+  v_client_id uuid := nullif(p_transaction->>'client_id', '')::uuid;
+begin
+  select company_id into v_company_id from users where id = v_user_id;
+  if v_company_id is null then
+    raise exception 'Failed to get company information';
+  end if;
+
+  -- A sale already synced from this device is returned as is
+  if v_client_id is not null then
+    select * into v_transaction
+    from pos_transactions
+    where company_id = v_company_id and client_id = v_client_id;
+
+    if found then
+      return v_transaction;
+    end if;
+  end if;
+
+  if jsonb_array_length(coalesce(p_items, '[]'::jsonb)) = 0 then
+    raise exception 'Transaction must have at least one item';
+  end if;
+
+  -- Resolve the warehouse: the shift's own, else the company default
+  if v_shift_id is not null then
+    select warehouse_id into v_warehouse_id
+    from pos_shifts
+    where id = v_shift_id and company_id = v_company_id and status = 'open';
+
+    if not found then
+      raise exception 'Shift is not open';
+    end if;
+  end if;
+
+  if v_warehouse_id is null then
+    select id into v_warehouse_id
+    from warehouses
+    where company_id = v_company_id and is_default = true and is_active = true
+    limit 1;
+  end if;
+
+  if v_warehouse_id is null then
+    raise exception 'No warehouse assigned to this shift';
+  end if;
+
+  -- A single-method sale without lines is paid exactly by that method
+  if jsonb_array_length(v_payments) = 0 then
+    if p_transaction->>'payment_method' = 'split' then
+      raise exception 'Split payments need at least two payment lines';
+    end if;
+
+    v_payments := jsonb_build_array(jsonb_build_object(
+      'payment_method', p_transaction->>'payment_method',
+      'amount', v_total
+    ));
+  end if;
+
+  if exists (
+    select 1
+    from jsonb_to_recordset(v_payments) as payment(
+      payment_method text,
+      amount numeric
+    )
+    where payment.payment_method not in ('cash', 'card', 'transfer', 'e-wallet', 'credit')
+       or coalesce(payment.amount, 0) <= 0
+  ) then
+    raise exception 'Each payment line needs a valid method and a positive amount';
+  end if;
+
+  if exists (
+    select 1
+    from jsonb_to_recordset(v_payments) as payment(
+      payment_method text,
+      status text
+    )
+    where coalesce(payment.status, 'paid') not in ('pending', 'paid')
+       or (payment.status = 'pending'
+           and payment.payment_method not in ('transfer', 'e-wallet'))
+  ) then
+    raise exception 'Only transfer and e-wallet payments can await settlement';
+  end if;
+
+  select
+    coalesce(sum(payment.amount), 0),
+    coalesce(sum(payment.amount) filter (where payment.payment_method <> 'cash'), 0)
+  into v_tendered, v_non_cash
+  from jsonb_to_recordset(v_payments) as payment(
+    payment_method text,
+    amount numeric
+  );
+
+  if v_tendered < v_total then
+    raise exception 'Payments of % do not cover the total of %', v_tendered, v_total;
+  end if;
+
+  if v_non_cash > v_total then
+    raise exception 'Non-cash payments of % exceed the total of %', v_non_cash, v_total;
+  end if;
+
+  -- Only cash can be over-tendered; the excess is handed back as change
+  v_change := v_tendered - v_total;
+
+  select case when count(distinct payment.payment_method) > 1 then 'split'
+              else min(payment.payment_method) end
+  into v_payment_method
+  from jsonb_to_recordset(v_payments) as payment(payment_method text);
+
+  -- The sale stays pending until every gateway payment has settled
+  select case when bool_or(payment.status = 'pending') then 'pending'
+              else 'paid' end
+  into v_payment_status
+  from jsonb_to_recordset(v_payments) as payment(status text);
+
+  select coalesce(allow_stock_override, false) into v_allow_override
+  from pos_settings
+  where company_id = v_company_id;
+
+  insert into pos_transactions (
+    company_id,
+    transaction_number,
+    shift_id,
+    customer_id,
+    cashier_id,
+    subtotal,
+    discount_amount,
+    tax_amount,
+    tax_rate,
+    prices_include_tax,
+    dpp_amount,
+    total,
+    amount_tendered,
+    change_amount,
+    payment_method,
+    payment_status,
+    transaction_date,
+    client_id,
+    offline_number,
+    notes
+  ) values (
+    v_company_id,
+    p_transaction->>'transaction_number',
+    v_shift_id,
+    nullif(p_transaction->>'customer_id', '')::uuid,
+    v_user_id,
+    (p_transaction->>'subtotal')::numeric,
+    (p_transaction->>'discount_amount')::numeric,
+    (p_transaction->>'tax_amount')::numeric,
+    coalesce((p_transaction->>'tax_rate')::numeric, 0),
+    coalesce((p_transaction->>'prices_include_tax')::boolean, false),
+    coalesce((p_transaction->>'dpp_amount')::numeric, 0),
+    v_total,
+    v_tendered,
+    v_change,
+    v_payment_method,
+    v_payment_status,
+    coalesce((p_transaction->>'transaction_date')::timestamptz, now()),
+    v_client_id,
+    p_transaction->>'offline_number',
+    p_transaction->>'notes'
+  )
+  returning * into v_transaction;
+
+  insert into pos_transaction_items (
+    transaction_id,
+    product_id,
+    quantity,
+    unit_price,
+    discount_amount,
+    promotion_id,
+    subtotal
+  )
+  select
+    v_transaction.id,
+    item.product_id,
+    item.quantity,
+    item.unit_price,
+    coalesce(item.discount_amount, 0),
+    item.promotion_id,
+    item.subtotal
+  from jsonb_to_recordset(p_items) as item(
+    product_id uuid,
+    quantity numeric,
+    unit_price numeric,
+    discount_amount numeric,
+    promotion_id uuid,
+    subtotal numeric
+  );
+
+  -- One OUT movement per product; lock stock rows in a stable order
+  for v_line in
+    select item.product_id, sum(item.quantity) as quantity
+    from jsonb_to_recordset(p_items) as item(product_id uuid, quantity numeric)
+    group by item.product_id
+    order by item.product_id
+  loop
+    select * into v_stock
+    from stock
+    where product_id = v_line.product_id and warehouse_id = v_warehouse_id
+    for update;
+
+    if coalesce(v_stock.quantity, 0) < v_line.quantity
+       and not (v_allow_override and p_override_stock) then
+      select name into v_product_name from products where id = v_line.product_id;
+      raise exception 'Insufficient stock for %: available %, requested %',
+        coalesce(v_product_name, v_line.product_id::text),
+        coalesce(v_stock.quantity, 0),
+        v_line.quantity;
+    end if;
+
+    insert into stock_movements (
+      company_id,
+      product_id,
+      warehouse_id,
+      movement_type,
+      quantity,
+      reference_type,
+      reference_id,
+      notes,
+      created_by
+    ) values (
+      v_company_id,
+      v_line.product_id,
+      v_warehouse_id,
+      'OUT',
+      v_line.quantity,
+      'pos_transaction',
+      v_transaction.id,
+      'POS sale ' || v_transaction.transaction_number,
+      v_user_id
+    );
+
+    if v_stock.id is not null then
+      update stock
+      set quantity = coalesce(quantity, 0) - v_line.quantity,
+          last_updated = now()
+      where id = v_stock.id;
+    else
+      insert into stock (company_id, product_id, warehouse_id, quantity)
+      values (v_company_id, v_line.product_id, v_warehouse_id, -v_line.quantity);
+    end if;
+
+    v_stock := null;
+  end loop;
+
+  -- Change comes out of the cash lines in order, so each line's amount is
+  -- what it actually contributed to the sale
+  insert into pos_payments (
+    transaction_id,
+    payment_method,
+    amount,
+    tendered_amount,
+    change_amount,
+    reference_number,
+    notes,
+    status
+  )
+  select
+    v_transaction.id,
+    payment.payment_method,
+    payment.amount - payment.line_change,
+    payment.amount,
+    payment.line_change,
+    payment.reference_number,
+    payment.notes,
+    coalesce(payment.status, 'paid')
+  from (
+    select
+      line.*,
+      case when line.payment_method = 'cash' then
+        least(
+          line.amount,
+          greatest(v_change - coalesce(sum(line.amount) filter (
+            where line.payment_method = 'cash'
+          ) over (
+            order by line.ordinality
+            rows between unbounded preceding and 1 preceding
+          ), 0), 0)
+        )
+      else 0 end as line_change
+    from rows from (
+      jsonb_to_recordset(v_payments) as (
+        payment_method text,
+        amount numeric,
+        reference_number text,
+        notes text,
+        status text
+      )
+    ) with ordinality as line(
+      payment_method,
+      amount,
+      reference_number,
+      notes,
+      status,
+      ordinality
+    )
+  ) as payment;
+
+  -- Promotions used by the sale go to the ledger, within their usage limits
+  perform record_promotion_redemptions(
+    v_company_id,
+    v_transaction.customer_id,
+    v_transaction.id,
+    null,
+    p_transaction->'promotions',
+    null,
+    not (
+      v_client_id is not null
+      and coalesce((p_transaction->>'override_promotion_limits')::boolean, false)
+    )
+  );
+
+  return v_transaction;
+end;
+$$;
+
+grant execute on function create_pos_transaction(jsonb, jsonb, jsonb, boolean)
+  to authenticated;
@@ -0,0 +1,377 @@
+-- ============================================================================
+-- Promotion Vouchers
+-- Batches of unique single-use voucher codes generated for a promotion. Once
+-- a promotion has vouchers, its shared code no longer works: each sale or
+-- sales order burns one voucher when its redemption is recorded, and gets it
+-- back when the sale is voided or the order cancelled.
+-- ============================================================================
+
+alter table promotions
+  add column if not exists uses_vouchers boolean not null default false;
+
+create table if not exists promotion_voucher_batches (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references companies(id) on delete cascade,
+  promotion_id uuid not null references promotions(id) on delete cascade,
+  name text not null,
+  prefix text,
+  quantity integer not null check (quantity > 0),
+  expires_at timestamptz, -- Null: valid for as long as the promotion
+  created_by uuid references users(id),
+  created_at timestamptz not null default now()
+);
+
+create table if not exists promotion_vouchers (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references companies(id) on delete cascade,
+  promotion_id uuid not null references promotions(id) on delete cascade,
+  batch_id uuid not null references promotion_voucher_batches(id)
+    on delete cascade,
+  code text not null,
+  status text not null default 'issued'
+    check (status in ('issued', 'redeemed', 'expired')),
+  expires_at timestamptz,
+  redemption_id uuid references promotion_redemptions(id) on delete set null,
+  redeemed_at timestamptz,
+  created_at timestamptz not null default now(),
+  unique (company_id, code)
+);
+
+create index if not exists idx_promotion_voucher_batches_promotion_id
+  on promotion_voucher_batches(promotion_id);
+create index if not exists idx_promotion_vouchers_batch_id
+  on promotion_vouchers(batch_id, status);
+create index if not exists idx_promotion_vouchers_redemption_id
+  on promotion_vouchers(redemption_id);
+
+-- Vouchers are written by generate_promotion_vouchers and
+-- record_promotion_redemptions only
+alter table promotion_voucher_batches enable row level security;
+alter table promotion_vouchers enable row level security;
+
+create policy "Users can view their company voucher batches"
+  on promotion_voucher_batches for select
+  using (company_id = (select company_id from users where id = auth.uid()));
+
+create policy "Users can view their company vouchers"
+  on promotion_vouchers for select
+  using (company_id = (select company_id from users where id = auth.uid()));
+
+-- ============================================================================
+-- generate_promotion_vouchers
+-- Issues a batch of random codes (the optional prefix, then 10 characters
+-- without look-alikes such as 0/O and 1/I) and switches the promotion over
+-- to vouchers.
+-- ============================================================================
+
+create or replace function generate_promotion_vouchers(
+  p_promotion_id uuid,
+  p_quantity integer,
+  p_prefix text default null,
+  p_expires_at timestamptz default null,
+  p_name text default null
+)
+returns promotion_voucher_batches
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_company_id uuid;
+  v_promotion promotions;
+  v_batch promotion_voucher_batches;
+  v_prefix text := nullif(
+    upper(regexp_replace(coalesce(p_prefix, ''), '[^A-Za-z0-9]', '', 'g')),
+    ''
+  );
+  v_alphabet constant text := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  -- Bytes of a random uuid that carry no version or variant bits
+  v_positions constant integer[] := array[0, 1, 2, 3, 4, 5, 10, 11, 12, 13];
+  v_bytes bytea;
+  v_code text;
+  v_position integer;
+  v_created integer := 0;
+  v_attempts integer := 0;
+begin
+  select company_id into v_company_id from users where id = v_user_id;
+  if v_company_id is null then
+    raise exception 'Failed to get company information';
+  end if;
+
+  if p_quantity is null or p_quantity < 1 or p_quantity > 10000 then
+    raise exception 'Between 1 and 10000 vouchers can be generated at a time';
+  end if;
+
+  select * into v_promotion
+  from promotions
+  where id = p_promotion_id and company_id = v_company_id
+  for update;
+
+  if not found then
+    raise exception 'Promotion not found';
+  end if;
+
+  insert into promotion_voucher_batches (
+    company_id,
+    promotion_id,
+    name,
+    prefix,
+    quantity,
+    expires_at,
+    created_by
+  ) values (
+    v_company_id,
+    v_promotion.id,
+    coalesce(
+      nullif(trim(p_name), ''),
+      v_promotion.name || ' vouchers ' || to_char(now(), 'YYYY-MM-DD HH24:MI')
+    ),
+    v_prefix,
+    p_quantity,
+    p_expires_at,
+    v_user_id
+  )
+  returning * into v_batch;
+
+  while v_created < p_quantity loop
+    v_attempts := v_attempts + 1;
+    if v_attempts > p_quantity * 10 then
+      raise exception 'Could not generate enough unique voucher codes';
+    end if;
+
+    v_bytes := uuid_send(gen_random_uuid());
+    v_code := '';
+    foreach v_position in array v_positions loop
+      v_code := v_code
+        || substr(v_alphabet, get_byte(v_bytes, v_position) % 32 + 1, 1);
+    end loop;
+    if v_prefix is not null then
+      v_code := v_prefix || '-' || v_code;
+    end if;
+
+    insert into promotion_vouchers (
+      company_id,
+      promotion_id,
+      batch_id,
+      code,
+      expires_at
+    ) values (
+      v_company_id,
+      v_promotion.id,
+      v_batch.id,
+      v_code,
+      p_expires_at
+    )
+    on conflict (company_id, code) do nothing;
+
+    if found then
+      v_created := v_created + 1;
+    end if;
+  end loop;
+
+  update promotions
+  set uses_vouchers = true, requires_code = true, updated_at = now()
+  where id = v_promotion.id;
+
+  return v_batch;
+end;
+$$;
+
+revoke execute on function generate_promotion_vouchers(uuid, integer, text, timestamptz, text)
+  from public, anon;
+grant execute on function generate_promotion_vouchers(uuid, integer, text, timestamptz, text)
+  to authenticated;
+
+-- ============================================================================
+-- record_promotion_redemptions
+-- Same as before, plus: promotions with vouchers need one of their issued,
+-- unexpired vouchers as the code, which is burned with the redemption.
+-- Vouchers of the redemptions being replaced are given back first. Offline
+-- sales accepted over their limits keep a voucher that was spent meanwhile
+-- without burning it again.
+-- ============================================================================
+
+create or replace function record_promotion_redemptions(
+  p_company_id uuid,
+  p_customer_id uuid,
+  p_transaction_id uuid,
+  p_order_id uuid,
+  p_redemptions jsonb,
+  p_created_by uuid default null,
+  p_enforce_limits boolean default true
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_line record;
+  v_promotion promotions;
+  v_voucher promotion_vouchers;
+  v_redemption_id uuid;
+  v_used integer;
+begin
+  -- Signed-in callers may only write for their own company
+  if auth.uid() is not null and not exists (
+    select 1 from users where id = auth.uid() and company_id = p_company_id
+  ) then
+    raise exception 'Not allowed to redeem promotions for this company';
+  end if;
+
+  if (p_transaction_id is null) = (p_order_id is null) then
+    raise exception 'Redemptions belong to either a POS sale or a sales order';
+  end if;
+
+  update promotion_vouchers
+  set status = 'issued', redemption_id = null, redeemed_at = null
+  where redemption_id in (
+    select id from promotion_redemptions
+    where company_id = p_company_id
+      and (pos_transaction_id = p_transaction_id or sales_order_id = p_order_id)
+  );
+
+  delete from promotion_redemptions
+  where company_id = p_company_id
+    and (pos_transaction_id = p_transaction_id or sales_order_id = p_order_id);
+
+  for v_line in
+    select
+      redemption.promotion_id,
+      sum(coalesce(redemption.discount_amount, 0)) as discount_amount,
+      max(nullif(upper(trim(redemption.code)), '')) as code
+    from jsonb_to_recordset(coalesce(p_redemptions, '[]'::jsonb)) as redemption(
+      promotion_id uuid,
+      discount_amount numeric,
+      code text
+    )
+    group by redemption.promotion_id
+    order by redemption.promotion_id
+  loop
+    select * into v_promotion
+    from promotions
+    where id = v_line.promotion_id and company_id = p_company_id
+    for update;
+
+    if not found then
+      raise exception 'Promotion not found';
+    end if;
+
+    v_voucher := null;
+    if v_promotion.uses_vouchers then
+      select * into v_voucher
+      from promotion_vouchers
+      where company_id = p_company_id
+        and promotion_id = v_promotion.id
+        and code = coalesce(v_line.code, '')
+      for update;
+
+      if not found then
+        raise exception 'Promotion % needs one of its vouchers', v_promotion.name;
+      end if;
+
+      if p_enforce_limits and v_voucher.status = 'redeemed' then
+        raise exception 'Voucher % has already been used', v_voucher.code;
+      end if;
+
+      if p_enforce_limits and (
+        v_voucher.status = 'expired' or v_voucher.expires_at <= now()
+      ) then
+        raise exception 'Voucher % has expired', v_voucher.code;
+      end if;
+    elsif v_promotion.requires_code
+       and coalesce(v_line.code, '') <> upper(v_promotion.code) then
+      raise exception 'Promotion % needs its coupon code', v_promotion.name;
+    end if;
+
+    if p_enforce_limits and v_promotion.usage_limit is not null then
+      select count(*) into v_used
+      from promotion_redemptions
+      where promotion_id = v_promotion.id and status = 'applied';
+
+      if v_used >= v_promotion.usage_limit then
+        raise exception 'Promotion % has reached its usage limit of %',
+          v_promotion.name, v_promotion.usage_limit;
+      end if;
+    end if;
+
+    if p_enforce_limits and v_promotion.usage_limit_per_customer is not null then
+      if p_customer_id is null then
+        raise exception 'Promotion % needs a customer', v_promotion.name;
+      end if;
+
+      select count(*) into v_used
+      from promotion_redemptions
+      where promotion_id = v_promotion.id
+        and customer_id = p_customer_id
+        and status = 'applied';
+
+      if v_used >= v_promotion.usage_limit_per_customer then
+        raise exception 'The customer has already used promotion % % time(s)',
+          v_promotion.name, v_used;
+      end if;
+    end if;
+
+    insert into promotion_redemptions (
+      company_id,
+      promotion_id,
+      customer_id,
+      pos_transaction_id,
+      sales_order_id,
+      code,
+      discount_amount,
+      created_by
+    ) values (
+      p_company_id,
+      v_promotion.id,
+      p_customer_id,
+      p_transaction_id,
+      p_order_id,
+      v_line.code,
+      v_line.discount_amount,
+      coalesce(auth.uid(), p_created_by)
+    )
+    returning id into v_redemption_id;
+
+    if v_voucher.id is not null and v_voucher.status = 'issued' then
+      update promotion_vouchers
+      set status = 'redeemed',
+          redemption_id = v_redemption_id,
+          redeemed_at = now()
+      where id = v_voucher.id;
+    end if;
+  end loop;
+end;
+$$;
+
+-- ============================================================================
+-- reverse_promotion_redemptions
+-- Same as before, plus: the vouchers burned by the reversed redemptions can
+-- be used again.
+-- ============================================================================
+
+create or replace function reverse_promotion_redemptions()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  with reversed as (
+    update promotion_redemptions
+    set status = 'reversed', reversed_at = now()
+    where status = 'applied'
+      and (
+        (tg_table_name = 'pos_transactions' and pos_transaction_id = new.id)
+        or (tg_table_name = 'sales_orders' and sales_order_id = new.id)
+      )
+    returning id
+  )
+  update promotion_vouchers
+  set status = 'issued', redemption_id = null, redeemed_at = null
+  where redemption_id in (select id from reversed);
+
+  return new;
+end;
+$$;
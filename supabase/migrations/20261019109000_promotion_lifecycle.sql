@@ -0,0 +1,202 @@
+-- ============================================================================
+-- Promotion Lifecycle
+-- Promotions move between scheduled, active and expired by their start and
+-- end dates, counted in the company's time zone (WIB, WITA or WIT). Saving
+-- a promotion puts it in the right status straight away, and
+-- sync_promotion_statuses moves the ones whose dates have come or gone since;
+-- /api/promotions/lifecycle runs it on a cron. Drafts and cancelled
+-- promotions are left alone. Every status change is logged.
+-- ============================================================================
+
+alter table company_profiles
+  add column if not exists time_zone text not null default 'Asia/Jakarta'
+    check (time_zone in ('Asia/Jakarta', 'Asia/Makassar', 'Asia/Jayapura'));
+
+create table if not exists promotion_status_logs (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references companies(id) on delete cascade,
+  promotion_id uuid not null references promotions(id) on delete cascade,
+  from_status text, -- Null when the promotion was created
+  to_status text not null,
+  changed_by uuid references users(id), -- Null for the scheduler
+  changed_at timestamptz not null default now()
+);
+
+create index if not exists idx_promotion_status_logs_promotion_id
+  on promotion_status_logs(promotion_id, changed_at);
+
+-- Logs are written by the log_promotion_status trigger only
+alter table promotion_status_logs enable row level security;
+
+create policy "Users can view their company promotion status logs"
+  on promotion_status_logs for select
+  using (company_id = (select company_id from users where id = auth.uid()));
+
+-- Today's date where the company is
+create or replace function company_today(p_company_id uuid)
+returns date
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select (
+    now() at time zone coalesce(
+      (select time_zone from company_profiles where company_id = p_company_id),
+      'Asia/Jakarta'
+    )
+  )::date;
+$$;
+
+-- Status a promotion's dates call for on a given day; both dates count
+create or replace function promotion_status_on(
+  p_start_date date,
+  p_end_date date,
+  p_today date
+)
+returns text
+language sql
+immutable
+as $$
+  select case
+    when p_today < p_start_date then 'scheduled'
+    when p_today > p_end_date then 'expired'
+    else 'active'
+  end;
+$$;
+
+-- Saving a scheduled, active or expired promotion lines its status up with
+-- its dates
+create or replace function derive_promotion_status()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status in ('scheduled', 'active', 'expired') then
+    new.status := promotion_status_on(
+      new.start_date::date,
+      new.end_date::date,
+      company_today(new.company_id)
+    );
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_derive_promotion_status on promotions;
+create trigger trg_derive_promotion_status
+  before insert or update of status, start_date, end_date on promotions
+  for each row
+  execute function derive_promotion_status();
+
+create or replace function log_promotion_status()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' or new.status is distinct from old.status then
+    insert into promotion_status_logs (
+      company_id,
+      promotion_id,
+      from_status,
+      to_status,
+      changed_by
+    ) values (
+      new.company_id,
+      new.id,
+      case when tg_op = 'UPDATE' then old.status end,
+      new.status,
+      auth.uid()
+    );
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_log_promotion_status on promotions;
+create trigger trg_log_promotion_status
+  after insert or update of status on promotions
+  for each row
+  execute function log_promotion_status();
+
+-- ============================================================================
+-- sync_promotion_statuses
+-- Moves every promotion whose dates have come or gone into its status, for
+-- one company or, with no company, all of them. Vouchers still issued once
+-- they or their promotion expire are marked expired too, and given back when
+-- the promotion is extended. Returns how many promotions changed status and
+-- how many vouchers expired.
+-- ============================================================================
+
+create or replace function sync_promotion_statuses(
+  p_company_id uuid default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_promotions integer;
+  v_vouchers integer;
+begin
+  update promotions
+  set
+    status = promotion_status_on(
+      start_date::date,
+      end_date::date,
+      company_today(company_id)
+    ),
+    updated_at = now()
+  where status in ('scheduled', 'active', 'expired')
+    and (p_company_id is null or company_id = p_company_id)
+    and status <> promotion_status_on(
+      start_date::date,
+      end_date::date,
+      company_today(company_id)
+    );
+  get diagnostics v_promotions = row_count;
+
+  update promotion_vouchers voucher
+  set status = 'expired'
+  from promotions promotion
+  where promotion.id = voucher.promotion_id
+    and voucher.status = 'issued'
+    and (p_company_id is null or voucher.company_id = p_company_id)
+    and (voucher.expires_at <= now() or promotion.status = 'expired');
+  get diagnostics v_vouchers = row_count;
+
+  -- Vouchers of a promotion whose end date was moved out are usable again
+  update promotion_vouchers voucher
+  set status = 'issued'
+  from promotions promotion
+  where promotion.id = voucher.promotion_id
+    and voucher.status = 'expired'
+    and (p_company_id is null or voucher.company_id = p_company_id)
+    and (voucher.expires_at is null or voucher.expires_at > now())
+    and promotion.status <> 'expired';
+
+  return jsonb_build_object(
+    'promotions', v_promotions,
+    'vouchers', v_vouchers
+  );
+end;
+$$;
+
+revoke execute on function sync_promotion_statuses(uuid) from public, anon, authenticated;
+grant execute on function sync_promotion_statuses(uuid) to service_role;
+
+-- Bring existing promotions up to date
+select sync_promotion_statuses();
+
+-- Where pg_cron is enabled, the database can run the scheduler itself
+-- instead of the route:
+--   select cron.schedule(
+--     'sync-promotion-statuses',
+--     '*/15 * * * *',
+--     'select sync_promotion_statuses()'
+--   );
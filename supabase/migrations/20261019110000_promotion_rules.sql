@@ -0,0 +1,41 @@
+-- ============================================================================
+-- Promotion Rules
+-- More promotion types: tiered spend discounts, fixed-price bundles and
+-- cheapest-item-free, plus day-of-week and time-of-day windows for any
+-- promotion (happy hours). Discounts are computed by the shared engine in
+-- src/lib/promotions/utils.ts; the database only stores the rules.
+-- ============================================================================
+
+alter table promotions drop constraint if exists promotions_type_check;
+alter table promotions
+  add constraint promotions_type_check check (
+    type in (
+      'percentage',
+      'fixed',
+      'buy_x_get_y',
+      'tiered',
+      'bundle',
+      'cheapest_free'
+    )
+  );
+
+alter table promotions
+  -- Tiered: [{ "min_amount": 500000, "percentage": 5 }, ...]
+  add column if not exists tiers jsonb
+    check (tiers is null or jsonb_typeof(tiers) = 'array'),
+  -- Bundle: any bundle_quantity eligible items for bundle_price
+  add column if not exists bundle_quantity integer
+    check (bundle_quantity > 1),
+  add column if not exists bundle_price numeric(15, 2)
+    check (bundle_price >= 0),
+  -- Window: weekdays (0 = Sunday) and hours the promotion runs, in the
+  -- company's time zone; null means any day or any time
+  add column if not exists active_days smallint[]
+    check (active_days <@ array[0, 1, 2, 3, 4, 5, 6]::smallint[]),
+  add column if not exists active_from time,
+  add column if not exists active_until time;
+
+alter table promotions drop constraint if exists promotions_active_hours_check;
+alter table promotions
+  add constraint promotions_active_hours_check
+    check ((active_from is null) = (active_until is null));
@@ -0,0 +1,634 @@
+-- ============================================================================
+-- Promotion Units
+-- Buy X get Y across cart lines: the cheapest eligible units are discounted,
+-- or units of a set reward product, at a percentage off (100 = free). Sale
+-- lines record which of their units were discounted, so receipts can show
+-- them and returns refund what was actually paid for the units that come
+-- back.
+-- ============================================================================
+
+alter table promotions
+  -- Reward product; null discounts the cheapest eligible units instead
+  add column if not exists get_product_id uuid
+    references products(id) on delete set null,
+  add column if not exists get_discount_percentage numeric(5, 2) not null
+    default 100
+    check (get_discount_percentage > 0 and get_discount_percentage <= 100);
+
+-- [{ "quantity": 1, "discount_amount": 15000 }, ...]: discount per unit for
+-- that many units of the line; null when the discount is spread evenly
+alter table pos_transaction_items
+  add column if not exists discounted_units jsonb
+    check (discounted_units is null or jsonb_typeof(discounted_units) = 'array');
+
+alter table sales_order_items
+  add column if not exists discounted_units jsonb
+    check (discounted_units is null or jsonb_typeof(discounted_units) = 'array');
+
+-- ============================================================================
+-- pos_item_paid_value
+-- What was paid for the first p_units units of a sale line, taking the most
+-- discounted units first: returning one unit of a buy 1 get 1 gives back the
+-- free one. Lines without unit detail are valued evenly.
+-- ============================================================================
+
+create or replace function pos_item_paid_value(
+  p_item pos_transaction_items,
+  p_units numeric
+)
+returns numeric
+language plpgsql
+immutable
+as $$
+declare
+  v_unit record;
+  v_left numeric := least(p_units, p_item.quantity);
+  v_value numeric := 0;
+  v_take numeric;
+begin
+  if v_left >= p_item.quantity then
+    return p_item.subtotal;
+  end if;
+
+  if p_item.discounted_units is null
+     or jsonb_array_length(p_item.discounted_units) = 0 then
+    return p_item.subtotal / p_item.quantity * v_left;
+  end if;
+
+  for v_unit in
+    select unit.quantity, unit.discount_amount
+    from jsonb_to_recordset(p_item.discounted_units) as unit(
+      quantity numeric,
+      discount_amount numeric
+    )
+    order by unit.discount_amount desc
+  loop
+    exit when v_left <= 0;
+    v_take := least(v_left, v_unit.quantity);
+    v_value := v_value + v_take * (p_item.unit_price - v_unit.discount_amount);
+    v_left := v_left - v_take;
+  end loop;
+
+  -- Units without a discount were paid in full
+  return v_value + v_left * p_item.unit_price;
+end;
+$$;
+
+-- ============================================================================
+-- create_pos_transaction
+-- Same as before, plus: each item's discounted_units are stored with it.
+-- ============================================================================
+
+create or replace function create_pos_transaction(
+  p_transaction jsonb,
+  p_items jsonb,
+  p_payments jsonb default '[]'::jsonb,
+  p_override_stock boolean default false
+)
+returns pos_transactions
+language plpgsql
+security invoker
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_company_id uuid;
+  v_shift_id uuid := nullif(p_transaction->>'shift_id', '')::uuid;
+  v_warehouse_id uuid;
+  v_allow_override boolean := false;
+  v_transaction pos_transactions;
+  v_line record;
+  v_stock stock;
+  v_product_name text;
+  v_total numeric := (p_transaction->>'total')::numeric;
+  v_payments jsonb := coalesce(p_payments, '[]'::jsonb);
+  v_tendered numeric;
+  v_non_cash numeric;
+  v_change numeric;
+  v_payment_method text;
+  v_payment_status text;
+  v_client_id uuid := nullif(p_transaction->>'client_id', '')::uuid;
+begin
+  select company_id into v_company_id from users where id = v_user_id;
+  if v_company_id is null then
+    raise exception 'Failed to get company information';
+  end if;
+
+  -- A sale already synced from this device is returned as is
+  if v_client_id is not null then
+    select * into v_transaction
+    from pos_transactions
+    where company_id = v_company_id and client_id = v_client_id;
+
+    if found then
+      return v_transaction;
+    end if;
+  end if;
+
+  if jsonb_array_length(coalesce(p_items, '[]'::jsonb)) = 0 then
+    raise exception 'Transaction must have at least one item';
+  end if;
+
+  -- Resolve the warehouse: the shift's own, else the company default
+  if v_shift_id is not null then
+    select warehouse_id into v_warehouse_id
+    from pos_shifts
+    where id = v_shift_id and company_id = v_company_id and status = 'open';
+
+    if not found then
+      raise exception 'Shift is not open';
+    end if;
+  end if;
+
+  if v_warehouse_id is null then
+    select id into v_warehouse_id
+    from warehouses
+    where company_id = v_company_id and is_default = true and is_active = true
+    limit 1;
+  end if;
+
+  if v_warehouse_id is null then
+    raise exception 'No warehouse assigned to this shift';
+  end if;
+
+  -- A single-method sale without lines is paid exactly by that method
+  if jsonb_array_length(v_payments) = 0 then
+    if p_transaction->>'payment_method' = 'split' then
+      raise exception 'Split payments need at least two payment lines';
+    end if;
+
+    v_payments := jsonb_build_array(jsonb_build_object(
+      'payment_method', p_transaction->>'payment_method',
+      'amount', v_total
+    ));
+  end if;
+
+  if exists (
+    select 1
+    from jsonb_to_recordset(v_payments) as payment(
+      payment_method text,
+      amount numeric
+    )
+    where payment.payment_method not in ('cash', 'card', 'transfer', 'e-wallet', 'credit')
+       or coalesce(payment.amount, 0) <= 0
+  ) then
+    raise exception 'Each payment line needs a valid method and a positive amount';
+  end if;
+
+  if exists (
+    select 1
+    from jsonb_to_recordset(v_payments) as payment(
+      payment_method text,
+      status text
+    )
+    where coalesce(payment.status, 'paid') not in ('pending', 'paid')
+       or (payment.status = 'pending'
+           and payment.payment_method not in ('transfer', 'e-wallet'))
+  ) then
+    raise exception 'Only transfer and e-wallet payments can await settlement';
+  end if;
+
+  select
+    coalesce(sum(payment.amount), 0),
+    coalesce(sum(payment.amount) filter (where payment.payment_method <> 'cash'), 0)
+  into v_tendered, v_non_cash
+  from jsonb_to_recordset(v_payments) as payment(
+    payment_method text,
+    amount numeric
+  );
+
+  if v_tendered < v_total then
+    raise exception 'Payments of % do not cover the total of %', v_tendered, v_total;
+  end if;
+
+  if v_non_cash > v_total then
+    raise exception 'Non-cash payments of % exceed the total of %', v_non_cash, v_total;
+  end if;
+
+  -- Only cash can be over-tendered; the excess is handed back as change
+  v_change := v_tendered - v_total;
+
+  select case when count(distinct payment.payment_method) > 1 then 'split'
+              else min(payment.payment_method) end
+  into v_payment_method
+  from jsonb_to_recordset(v_payments) as payment(payment_method text);
+
+  -- The sale stays pending until every gateway payment has settled
+  select case when bool_or(payment.status = 'pending') then 'pending'
+              else 'paid' end
+  into v_payment_status
+  from jsonb_to_recordset(v_payments) as payment(status text);
+
+  select coalesce(allow_stock_override, false) into v_allow_override
+  from pos_settings
+  where company_id = v_company_id;
+
+  insert into pos_transactions (
+    company_id,
+    transaction_number,
+    shift_id,
+    customer_id,
+    cashier_id,
+    subtotal,
+    discount_amount,
+    tax_amount,
+    tax_rate,
+    prices_include_tax,
+    dpp_amount,
+    total,
+    amount_tendered,
+    change_amount,
+    payment_method,
+    payment_status,
+    transaction_date,
+    client_id,
+    offline_number,
+    notes
+  ) values (
+    v_company_id,
+    p_transaction->>'transaction_number',
+    v_shift_id,
+    nullif(p_transaction->>'customer_id', '')::uuid,
+    v_user_id,
+    (p_transaction->>'subtotal')::numeric,
+    (p_transaction->>'discount_amount')::numeric,
+    (p_transaction->>'tax_amount')::numeric,
+    coalesce((p_transaction->>'tax_rate')::numeric, 0),
+    coalesce((p_transaction->>'prices_include_tax')::boolean, false),
+    coalesce((p_transaction->>'dpp_amount')::numeric, 0),
+    v_total,
+    v_tendered,
+    v_change,
+    v_payment_method,
+    v_payment_status,
+    coalesce((p_transaction->>'transaction_date')::timestamptz, now()),
+    v_client_id,
+    p_transaction->>'offline_number',
+    p_transaction->>'notes'
+  )
+  returning * into v_transaction;
+
+  insert into pos_transaction_items (
+    transaction_id,
+    product_id,
+    quantity,
+    unit_price,
+    discount_amount,
+    promotion_id,
+    discounted_units,
+    subtotal
+  )
+  select
+    v_transaction.id,
+    item.product_id,
+    item.quantity,
+    item.unit_price,
+    coalesce(item.discount_amount, 0),
+    item.promotion_id,
+    item.discounted_units,
+    item.subtotal
+  from jsonb_to_recordset(p_items) as item(
+    product_id uuid,
+    quantity numeric,
+    unit_price numeric,
+    discount_amount numeric,
+    promotion_id uuid,
+    discounted_units jsonb,
+    subtotal numeric
+  );
+
+  -- One OUT movement per product; lock stock rows in a stable order
+  for v_line in
+    select item.product_id, sum(item.quantity) as quantity
+    from jsonb_to_recordset(p_items) as item(product_id uuid, quantity numeric)
+    group by item.product_id
+    order by item.product_id
+  loop
+    select * into v_stock
+    from stock
+    where product_id = v_line.product_id and warehouse_id = v_warehouse_id
+    for update;
+
+    if coalesce(v_stock.quantity, 0) < v_line.quantity
+       and not (v_allow_override and p_override_stock) then
+      select name into v_product_name from products where id = v_line.product_id;
+      raise exception 'Insufficient stock for %: available %, requested %',
+        coalesce(v_product_name, v_line.product_id::text),
+        coalesce(v_stock.quantity, 0),
+        v_line.quantity;
+    end if;
+
+    insert into stock_movements (
+      company_id,
+      product_id,
+      warehouse_id,
+      movement_type,
+      quantity,
+      reference_type,
+      reference_id,
+      notes,
+      created_by
+    ) values (
+      v_company_id,
+      v_line.product_id,
+      v_warehouse_id,
+      'OUT',
+      v_line.quantity,
+      'pos_transaction',
+      v_transaction.id,
+      'POS sale ' || v_transaction.transaction_number,
+      v_user_id
+    );
+
+    if v_stock.id is not null then
+      update stock
+      set quantity = coalesce(quantity, 0) - v_line.quantity,
+          last_updated = now()
+      where id = v_stock.id;
+    else
+      insert into stock (company_id, product_id, warehouse_id, quantity)
+      values (v_company_id, v_line.product_id, v_warehouse_id, -v_line.quantity);
+    end if;
+
+    v_stock := null;
+  end loop;
+
+  -- Change comes out of the cash lines in order, so each line's amount is
+  -- what it actually contributed to the sale
+  insert into pos_payments (
+    transaction_id,
+    payment_method,
+    amount,
+    tendered_amount,
+    change_amount,
+    reference_number,
+    notes,
+    status
+  )
+  select
+    v_transaction.id,
+    payment.payment_method,
+    payment.amount - payment.line_change,
+    payment.amount,
+    payment.line_change,
+    payment.reference_number,
+    payment.notes,
+    coalesce(payment.status, 'paid')
+  from (
+    select
+      line.*,
+      case when line.payment_method = 'cash' then
+        least(
+          line.amount,
+          greatest(v_change - coalesce(sum(line.amount) filter (
+            where line.payment_method = 'cash'
+          ) over (
+            order by line.ordinality
+            rows between unbounded preceding and 1 preceding
+          ), 0), 0)
+        )
+      else 0 end as line_change
+    from rows from (
+      jsonb_to_recordset(v_payments) as (
+        payment_method text,
+        amount numeric,
+        reference_number text,
+        notes text,
+        status text
+      )
+    ) with ordinality as line(
+      payment_method,
+      amount,
+      reference_number,
+      notes,
+      status,
+      ordinality
+    )
+  ) as payment;
+
+  -- Promotions used by the sale go to the ledger, within their usage limits
+  perform record_promotion_redemptions(
+    v_company_id,
+    v_transaction.customer_id,
+    v_transaction.id,
+    null,
+    p_transaction->'promotions',
+    null,
+    not (
+      v_client_id is not null
+      and coalesce((p_transaction->>'override_promotion_limits')::boolean, false)
+    )
+  );
+
+  return v_transaction;
+end;
+$$;
+
+grant execute on function create_pos_transaction(jsonb, jsonb, jsonb, boolean)
+  to authenticated;
+
+-- ============================================================================
+-- create_pos_return
+-- Same as before, plus: a line's refund is what was paid for the units that
+-- come back (see pos_item_paid_value) instead of an even share of the line.
+-- ============================================================================
+
+create or replace function create_pos_return(
+  p_return jsonb,
+  p_items jsonb
+)
+returns pos_returns
+language plpgsql
+security invoker
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_company_id uuid;
+  v_transaction pos_transactions;
+  v_shift_id uuid;
+  v_warehouse_id uuid;
+  v_return pos_returns;
+  v_line record;
+  v_item pos_transaction_items;
+  v_returned numeric;
+  v_net_total numeric;
+  v_line_refund numeric;
+  v_refund_total numeric := 0;
+  v_remaining numeric;
+begin
+  select company_id into v_company_id from users where id = v_user_id;
+  if v_company_id is null then
+    raise exception 'Failed to get company information';
+  end if;
+
+  select * into v_transaction
+  from pos_transactions
+  where id = (p_return->>'transaction_id')::uuid and company_id = v_company_id
+  for update;
+
+  if not found then
+    raise exception 'Transaction not found';
+  end if;
+
+  if v_transaction.payment_status <> 'paid' then
+    raise exception 'Only paid transactions can be returned';
+  end if;
+
+  if jsonb_array_length(coalesce(p_items, '[]'::jsonb)) = 0 then
+    raise exception 'Select at least one item to return';
+  end if;
+
+  -- Refund is handed out in the cashier's current shift, if any
+  select id into v_shift_id
+  from pos_shifts
+  where cashier_id = v_user_id and status = 'open'
+  order by opened_at desc
+  limit 1;
+
+  -- Goods go back to the warehouse they were sold from
+  select warehouse_id into v_warehouse_id
+  from pos_shifts
+  where id = v_transaction.shift_id;
+
+  if v_warehouse_id is null then
+    select id into v_warehouse_id
+    from warehouses
+    where company_id = v_company_id and is_default = true and is_active = true
+    limit 1;
+  end if;
+
+  if v_warehouse_id is null then
+    raise exception 'No warehouse available to restock returned items';
+  end if;
+
+  insert into pos_returns (
+    company_id,
+    return_number,
+    transaction_id,
+    shift_id,
+    cashier_id,
+    refund_method,
+    reason,
+    notes
+  ) values (
+    v_company_id,
+    p_return->>'return_number',
+    v_transaction.id,
+    v_shift_id,
+    v_user_id,
+    p_return->>'refund_method',
+    p_return->>'reason',
+    p_return->>'notes'
+  )
+  returning * into v_return;
+
+  v_net_total := v_transaction.subtotal - v_transaction.discount_amount;
+
+  for v_line in
+    select item.transaction_item_id, item.quantity
+    from jsonb_to_recordset(p_items) as item(
+      transaction_item_id uuid,
+      quantity numeric
+    )
+    order by item.transaction_item_id
+  loop
+    select * into v_item
+    from pos_transaction_items
+    where id = v_line.transaction_item_id and transaction_id = v_transaction.id;
+
+    if not found then
+      raise exception 'Item does not belong to this transaction';
+    end if;
+
+    select coalesce(sum(ri.quantity), 0) into v_returned
+    from pos_return_items ri
+    where ri.transaction_item_id = v_item.id;
+
+    if v_line.quantity <= 0 or v_line.quantity > v_item.quantity - v_returned then
+      raise exception 'Cannot return % units; only % remaining',
+        v_line.quantity, v_item.quantity - v_returned;
+    end if;
+
+    -- Value paid for the units coming back, plus their share of the tax
+    v_line_refund := pos_item_paid_value(v_item, v_returned + v_line.quantity)
+      - pos_item_paid_value(v_item, v_returned);
+    if v_net_total > 0 then
+      v_line_refund := v_line_refund
+        + v_transaction.tax_amount * v_line_refund / v_net_total;
+    end if;
+    v_line_refund := round(v_line_refund, 2);
+    v_refund_total := v_refund_total + v_line_refund;
+
+    insert into pos_return_items (
+      return_id,
+      transaction_item_id,
+      product_id,
+      quantity,
+      refund_amount
+    ) values (
+      v_return.id,
+      v_item.id,
+      v_item.product_id,
+      v_line.quantity,
+      v_line_refund
+    );
+
+    insert into stock_movements (
+      company_id,
+      product_id,
+      warehouse_id,
+      movement_type,
+      quantity,
+      reference_type,
+      reference_id,
+      notes,
+      created_by
+    ) values (
+      v_company_id,
+      v_item.product_id,
+      v_warehouse_id,
+      'IN',
+      v_line.quantity,
+      'pos_return',
+      v_return.id,
+      'POS return ' || v_return.return_number,
+      v_user_id
+    );
+
+    update stock
+    set quantity = coalesce(quantity, 0) + v_line.quantity,
+        last_updated = now()
+    where product_id = v_item.product_id and warehouse_id = v_warehouse_id;
+
+    if not found then
+      insert into stock (company_id, product_id, warehouse_id, quantity)
+      values (v_company_id, v_item.product_id, v_warehouse_id, v_line.quantity);
+    end if;
+  end loop;
+
+  update pos_returns
+  set refund_amount = v_refund_total
+  where id = v_return.id
+  returning * into v_return;
+
+  -- Mark the transaction refunded once nothing is left to return
+  select coalesce(sum(ti.quantity), 0) - coalesce(sum(returned.quantity), 0)
+  into v_remaining
+  from pos_transaction_items ti
+  left join lateral (
+    select sum(ri.quantity) as quantity
+    from pos_return_items ri
+    where ri.transaction_item_id = ti.id
+  ) returned on true
+  where ti.transaction_id = v_transaction.id;
+
+  if v_remaining <= 0 then
+    update pos_transactions
+    set payment_status = 'refunded', updated_at = now()
+    where id = v_transaction.id;
+  end if;
+
+  return v_return;
+end;
+$$;
+
+grant execute on function create_pos_return(jsonb, jsonb) to authenticated;
@@ -0,0 +1,32 @@
+-- ============================================================================
+-- POS Settings Access
+-- Everyone in the company reads the POS settings at the register; only
+-- owners change them, since they hold the approval thresholds and the stock
+-- override switch a cashier would otherwise be able to turn off.
+-- ============================================================================
+
+drop policy if exists "Users can manage their company POS settings" on pos_settings;
+
+create policy "Owners can create their company POS settings"
+  on pos_settings for insert
+  with check (
+    company_id = (
+      select company_id from users
+      where id = auth.uid() and role in ('owner', 'dev')
+    )
+  );
+
+create policy "Owners can update their company POS settings"
+  on pos_settings for update
+  using (
+    company_id = (
+      select company_id from users
+      where id = auth.uid() and role in ('owner', 'dev')
+    )
+  )
+  with check (
+    company_id = (
+      select company_id from users
+      where id = auth.uid() and role in ('owner', 'dev')
+    )
+  );
@@ -0,0 +1,178 @@
+-- ============================================================================
+-- POS Approval Lockout
+-- Every wrong supervisor PIN is recorded. After five failures within fifteen
+-- minutes the supervisor can no longer approve, and neither can the cashier
+-- who entered them, until the window has passed or the supervisor sets a new
+-- PIN. A correct PIN clears the supervisor's failures.
+-- ============================================================================
+
+create table if not exists pos_approval_failures (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references companies(id) on delete cascade,
+  supervisor_id uuid not null references users(id) on delete cascade,
+  requested_by uuid not null references users(id) on delete cascade,
+  action text,
+  attempted_at timestamptz not null default now()
+);
+
+create index if not exists idx_pos_approval_failures_supervisor
+  on pos_approval_failures(supervisor_id, attempted_at desc);
+create index if not exists idx_pos_approval_failures_requested_by
+  on pos_approval_failures(requested_by, attempted_at desc);
+
+alter table pos_approval_failures enable row level security;
+
+-- Failures are written only by approve_pos_action
+create policy "Owners can view their company POS approval failures"
+  on pos_approval_failures for select
+  using (
+    company_id = (
+      select company_id from users
+      where id = auth.uid() and role in ('owner', 'dev')
+    )
+  );
+
+-- ============================================================================
+-- set_supervisor_pin
+-- Same as before, plus: a new PIN lifts the owner's lockout.
+-- ============================================================================
+
+create or replace function set_supervisor_pin(p_pin text)
+returns void
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_user users;
+begin
+  select * into v_user from users where id = auth.uid();
+  if not found or v_user.role not in ('owner', 'dev') then
+    raise exception 'Only company owners can set a supervisor PIN';
+  end if;
+
+  if p_pin !~ '^[0-9]{4,6}$' then
+    raise exception 'PIN must be 4 to 6 digits';
+  end if;
+
+  insert into pos_supervisor_pins (user_id, company_id, pin_hash)
+  values (v_user.id, v_user.company_id, crypt(p_pin, gen_salt('bf')))
+  on conflict (user_id) do update
+  set pin_hash = excluded.pin_hash, updated_at = now();
+
+  delete from pos_approval_failures where supervisor_id = v_user.id;
+end;
+$$;
+
+-- ============================================================================
+-- approve_pos_action
+-- Same as before, plus: locked-out supervisors and cashiers are refused, and
+-- a wrong PIN is recorded and returns no approval instead of raising, so the
+-- failure is kept.
+-- ============================================================================
+
+create or replace function approve_pos_action(
+  p_supervisor_id uuid,
+  p_pin text,
+  p_approval jsonb
+)
+returns pos_approvals
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_company_id uuid;
+  v_transaction_id uuid := nullif(p_approval->>'transaction_id', '')::uuid;
+  v_approval pos_approvals;
+  v_max_failures constant integer := 5;
+  v_window constant interval := interval '15 minutes';
+begin
+  select company_id into v_company_id from users where id = v_user_id;
+  if v_company_id is null then
+    raise exception 'Failed to get company information';
+  end if;
+
+  if (
+    select count(*) from pos_approval_failures
+    where supervisor_id = p_supervisor_id
+      and attempted_at > now() - v_window
+  ) >= v_max_failures then
+    raise exception 'Too many wrong PINs for this supervisor; try again later';
+  end if;
+
+  if (
+    select count(*) from pos_approval_failures
+    where requested_by = v_user_id
+      and attempted_at > now() - v_window
+  ) >= v_max_failures then
+    raise exception 'Too many wrong supervisor PINs from this register; try again later';
+  end if;
+
+  if not exists (
+    select 1
+    from users u
+    join pos_supervisor_pins p on p.user_id = u.id
+    where u.id = p_supervisor_id
+      and u.company_id = v_company_id
+      and u.role in ('owner', 'dev')
+      and p.pin_hash = crypt(coalesce(p_pin, ''), p.pin_hash)
+  ) then
+    if exists (
+      select 1 from users
+      where id = p_supervisor_id and company_id = v_company_id
+    ) then
+      insert into pos_approval_failures (
+        company_id,
+        supervisor_id,
+        requested_by,
+        action
+      ) values (
+        v_company_id,
+        p_supervisor_id,
+        v_user_id,
+        p_approval->>'action'
+      );
+    end if;
+
+    return null;
+  end if;
+
+  if v_transaction_id is not null and not exists (
+    select 1 from pos_transactions
+    where id = v_transaction_id and company_id = v_company_id
+  ) then
+    raise exception 'Transaction not found';
+  end if;
+
+  delete from pos_approval_failures where supervisor_id = p_supervisor_id;
+
+  insert into pos_approvals (
+    company_id,
+    action,
+    transaction_id,
+    shift_id,
+    product_id,
+    original_value,
+    new_value,
+    description,
+    requested_by,
+    approved_by
+  ) values (
+    v_company_id,
+    p_approval->>'action',
+    v_transaction_id,
+    nullif(p_approval->>'shift_id', '')::uuid,
+    nullif(p_approval->>'product_id', '')::uuid,
+    (p_approval->>'original_value')::numeric,
+    (p_approval->>'new_value')::numeric,
+    p_approval->>'description',
+    v_user_id,
+    p_supervisor_id
+  )
+  returning * into v_approval;
+
+  return v_approval;
+end;
+$$;
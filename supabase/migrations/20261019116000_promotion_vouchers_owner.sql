@@ -0,0 +1,126 @@
+-- ============================================================================
+-- generate_promotion_vouchers
+-- Same as before, plus: only owners can issue vouchers, since each one is a
+-- discount anyone holding the code can redeem.
+-- ============================================================================
+
+create or replace function generate_promotion_vouchers(
+  p_promotion_id uuid,
+  p_quantity integer,
+  p_prefix text default null,
+  p_expires_at timestamptz default null,
+  p_name text default null
+)
+returns promotion_voucher_batches
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_user users;
+  v_company_id uuid;
+  v_promotion promotions;
+  v_batch promotion_voucher_batches;
+  v_prefix text := nullif(
+    upper(regexp_replace(coalesce(p_prefix, ''), '[^A-Za-z0-9]', '', 'g')),
+    ''
+  );
+  v_alphabet constant text := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  -- Bytes of a random uuid that carry no version or variant bits
+  v_positions constant integer[] := array[0, 1, 2, 3, 4, 5, 10, 11, 12, 13];
+  v_bytes bytea;
+  v_code text;
+  v_position integer;
+  v_created integer := 0;
+  v_attempts integer := 0;
+begin
+  select * into v_user from users where id = v_user_id;
+  if not found or v_user.role not in ('owner', 'dev') then
+    raise exception 'Only company owners can generate vouchers';
+  end if;
+  v_company_id := v_user.company_id;
+
+  if p_quantity is null or p_quantity < 1 or p_quantity > 10000 then
+    raise exception 'Between 1 and 10000 vouchers can be generated at a time';
+  end if;
+
+  select * into v_promotion
+  from promotions
+  where id = p_promotion_id and company_id = v_company_id
+  for update;
+
+  if not found then
+    raise exception 'Promotion not found';
+  end if;
+
+  insert into promotion_voucher_batches (
+    company_id,
+    promotion_id,
+    name,
+    prefix,
+    quantity,
+    expires_at,
+    created_by
+  ) values (
+    v_company_id,
+    v_promotion.id,
+    coalesce(
+      nullif(trim(p_name), ''),
+      v_promotion.name || ' vouchers ' || to_char(now(), 'YYYY-MM-DD HH24:MI')
+    ),
+    v_prefix,
+    p_quantity,
+    p_expires_at,
+    v_user_id
+  )
+  returning * into v_batch;
+
+  while v_created < p_quantity loop
+    v_attempts := v_attempts + 1;
+    if v_attempts > p_quantity * 10 then
+      raise exception 'Could not generate enough unique voucher codes';
+    end if;
+
+    v_bytes := uuid_send(gen_random_uuid());
+    v_code := '';
+    foreach v_position in array v_positions loop
+      v_code := v_code
+        || substr(v_alphabet, get_byte(v_bytes, v_position) % 32 + 1, 1);
+    end loop;
+    if v_prefix is not null then
+      v_code := v_prefix || '-' || v_code;
+    end if;
+
+    insert into promotion_vouchers (
+      company_id,
+      promotion_id,
+      batch_id,
+      code,
+      expires_at
+    ) values (
+      v_company_id,
+      v_promotion.id,
+      v_batch.id,
+      v_code,
+      p_expires_at
+    )
+    on conflict (company_id, code) do nothing;
+
+    if found then
+      v_created := v_created + 1;
+    end if;
+  end loop;
+
+  update promotions
+  set uses_vouchers = true, requires_code = true, updated_at = now()
+  where id = v_promotion.id;
+
+  return v_batch;
+end;
+$$;
+
+revoke execute on function generate_promotion_vouchers(uuid, integer, text, timestamptz, text)
+  from public, anon;
+grant execute on function generate_promotion_vouchers(uuid, integer, text, timestamptz, text)
+  to authenticated;
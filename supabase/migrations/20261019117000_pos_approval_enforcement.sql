@@ -0,0 +1,510 @@
+-- ============================================================================
+-- POS Approval Enforcement
+-- Discounts above the policy and price overrides are checked when the sale
+-- is saved, not only at the register: each needs an unused approval given
+-- for that product, which the sale then takes. link_pos_approvals is
+-- replaced by create_pos_transaction linking the approvals itself.
+-- ============================================================================
+
+drop function if exists link_pos_approvals(uuid, uuid[]);
+
+-- ============================================================================
+-- create_pos_transaction
+-- Same as before, plus: p_transaction 'approval_ids' are checked against the
+-- items and linked to the sale.
+-- ============================================================================
+
+create or replace function create_pos_transaction(
+  p_transaction jsonb,
+  p_items jsonb,
+  p_payments jsonb default '[]'::jsonb,
+  p_override_stock boolean default false
+)
+returns pos_transactions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_company_id uuid;
+  v_shift_id uuid := nullif(p_transaction->>'shift_id', '')::uuid;
+  v_warehouse_id uuid;
+  v_allow_override boolean := false;
+  v_discount_percent numeric := 100;
+  v_approve_price boolean := true;
+  v_approval_ids uuid[] := array(
+    select jsonb_array_elements_text(coalesce(p_transaction->'approval_ids', '[]'::jsonb))::uuid
+  );
+  v_transaction pos_transactions;
+  v_line record;
+  v_stock stock;
+  v_product_name text;
+  v_total numeric := (p_transaction->>'total')::numeric;
+  v_payments jsonb := coalesce(p_payments, '[]'::jsonb);
+  v_tendered numeric;
+  v_non_cash numeric;
+  v_change numeric;
+  v_payment_method text;
+  v_payment_status text;
+  v_client_id uuid := nullif(p_transaction->>'client_id', '')::uuid;
+  v_limit_approval_id uuid :=
+    nullif(p_transaction->>'promotion_limit_approval_id', '')::uuid;
+  v_redemptions jsonb;
+begin
+  select company_id into v_company_id from users where id = v_user_id;
+  if v_company_id is null then
+    raise exception 'Failed to get company information';
+  end if;
+
+  -- A sale already synced from this device is returned as is
+  if v_client_id is not null then
+    select * into v_transaction
+    from pos_transactions
+    where company_id = v_company_id and client_id = v_client_id;
+
+    if found then
+      return v_transaction;
+    end if;
+  end if;
+
+  if jsonb_array_length(coalesce(p_items, '[]'::jsonb)) = 0 then
+    raise exception 'Transaction must have at least one item';
+  end if;
+
+  -- Each promotion on a line gave it something, and together no more than
+  -- the line's discount
+  if exists (
+    select 1
+    from jsonb_to_recordset(p_items) as item(
+      discount_amount numeric,
+      promotions jsonb
+    )
+    cross join lateral (
+      select
+        coalesce(sum((promotion->>'discount_amount')::numeric), 0) as total,
+        coalesce(bool_or(coalesce((promotion->>'discount_amount')::numeric, 0) <= 0), false)
+          as has_empty
+      from jsonb_array_elements(coalesce(item.promotions, '[]'::jsonb)) as promotion
+    ) as given
+    where given.has_empty
+       or given.total > coalesce(item.discount_amount, 0) + 0.01
+  ) then
+    raise exception 'Promotion discounts do not match the line discounts';
+  end if;
+
+  if exists (
+    select 1
+    from jsonb_to_recordset(p_items) as item(product_id uuid)
+    left join products p
+      on p.id = item.product_id and p.company_id = v_company_id
+    where p.id is null
+  ) then
+    raise exception 'Product not found';
+  end if;
+
+  if nullif(p_transaction->>'customer_id', '') is not null and not exists (
+    select 1 from customers
+    where id = (p_transaction->>'customer_id')::uuid
+      and company_id = v_company_id
+  ) then
+    raise exception 'Customer not found';
+  end if;
+
+  if v_limit_approval_id is not null and v_client_id is null then
+    raise exception 'Only offline sales can be synced over promotion limits';
+  end if;
+
+  -- Resolve the warehouse: the shift's own, else the company default
+  if v_shift_id is not null then
+    select warehouse_id into v_warehouse_id
+    from pos_shifts
+    where id = v_shift_id and company_id = v_company_id and status = 'open';
+
+    if not found then
+      raise exception 'Shift is not open';
+    end if;
+  end if;
+
+  if v_warehouse_id is null then
+    select id into v_warehouse_id
+    from warehouses
+    where company_id = v_company_id and is_default = true and is_active = true
+    limit 1;
+  end if;
+
+  if v_warehouse_id is null then
+    raise exception 'No warehouse assigned to this shift';
+  end if;
+
+  -- A single-method sale without lines is paid exactly by that method
+  if jsonb_array_length(v_payments) = 0 then
+    if p_transaction->>'payment_method' = 'split' then
+      raise exception 'Split payments need at least two payment lines';
+    end if;
+
+    v_payments := jsonb_build_array(jsonb_build_object(
+      'payment_method', p_transaction->>'payment_method',
+      'amount', v_total
+    ));
+  end if;
+
+  if exists (
+    select 1
+    from jsonb_to_recordset(v_payments) as payment(
+      payment_method text,
+      amount numeric
+    )
+    where payment.payment_method not in ('cash', 'card', 'transfer', 'e-wallet', 'credit')
+       or coalesce(payment.amount, 0) <= 0
+  ) then
+    raise exception 'Each payment line needs a valid method and a positive amount';
+  end if;
+
+  if exists (
+    select 1
+    from jsonb_to_recordset(v_payments) as payment(
+      payment_method text,
+      status text
+    )
+    where coalesce(payment.status, 'paid') not in ('pending', 'paid')
+       or (payment.status = 'pending'
+           and payment.payment_method not in ('transfer', 'e-wallet'))
+  ) then
+    raise exception 'Only transfer and e-wallet payments can await settlement';
+  end if;
+
+  select
+    coalesce(sum(payment.amount), 0),
+    coalesce(sum(payment.amount) filter (where payment.payment_method <> 'cash'), 0)
+  into v_tendered, v_non_cash
+  from jsonb_to_recordset(v_payments) as payment(
+    payment_method text,
+    amount numeric
+  );
+
+  if v_tendered < v_total then
+    raise exception 'Payments of % do not cover the total of %', v_tendered, v_total;
+  end if;
+
+  if v_non_cash > v_total then
+    raise exception 'Non-cash payments of % exceed the total of %', v_non_cash, v_total;
+  end if;
+
+  -- Only cash can be over-tendered; the excess is handed back as change
+  v_change := v_tendered - v_total;
+
+  select case when count(distinct payment.payment_method) > 1 then 'split'
+              else min(payment.payment_method) end
+  into v_payment_method
+  from jsonb_to_recordset(v_payments) as payment(payment_method text);
+
+  -- The sale stays pending until every gateway payment has settled
+  select case when bool_or(payment.status = 'pending') then 'pending'
+              else 'paid' end
+  into v_payment_status
+  from jsonb_to_recordset(v_payments) as payment(status text);
+
+  select
+    coalesce(allow_stock_override, false),
+    coalesce(approval_discount_percent, 100),
+    coalesce(approval_price_override, true)
+  into v_allow_override, v_discount_percent, v_approve_price
+  from pos_settings
+  where company_id = v_company_id;
+
+  insert into pos_transactions (
+    company_id,
+    transaction_number,
+    shift_id,
+    customer_id,
+    cashier_id,
+    subtotal,
+    discount_amount,
+    tax_amount,
+    tax_rate,
+    prices_include_tax,
+    dpp_amount,
+    total,
+    amount_tendered,
+    change_amount,
+    payment_method,
+    payment_status,
+    transaction_date,
+    client_id,
+    offline_number,
+    notes
+  ) values (
+    v_company_id,
+    p_transaction->>'transaction_number',
+    v_shift_id,
+    nullif(p_transaction->>'customer_id', '')::uuid,
+    v_user_id,
+    (p_transaction->>'subtotal')::numeric,
+    (p_transaction->>'discount_amount')::numeric,
+    (p_transaction->>'tax_amount')::numeric,
+    coalesce((p_transaction->>'tax_rate')::numeric, 0),
+    coalesce((p_transaction->>'prices_include_tax')::boolean, false),
+    coalesce((p_transaction->>'dpp_amount')::numeric, 0),
+    v_total,
+    v_tendered,
+    v_change,
+    v_payment_method,
+    v_payment_status,
+    coalesce((p_transaction->>'transaction_date')::timestamptz, now()),
+    v_client_id,
+    p_transaction->>'offline_number',
+    p_transaction->>'notes'
+  )
+  returning * into v_transaction;
+
+  insert into pos_transaction_items (
+    transaction_id,
+    product_id,
+    quantity,
+    unit_price,
+    discount_amount,
+    promotion_id,
+    discounted_units,
+    subtotal
+  )
+  select
+    v_transaction.id,
+    item.product_id,
+    item.quantity,
+    item.unit_price,
+    coalesce(item.discount_amount, 0),
+    nullif(item.promotions->0->>'promotion_id', '')::uuid,
+    item.discounted_units,
+    item.subtotal
+  from jsonb_to_recordset(p_items) as item(
+    product_id uuid,
+    quantity numeric,
+    unit_price numeric,
+    discount_amount numeric,
+    promotions jsonb,
+    discounted_units jsonb,
+    subtotal numeric
+  );
+
+  -- A price other than the product's selling price, and a discount beyond
+  -- the line's promotions above the policy percentage, each use up one
+  -- approval given for that product at the register
+  for v_line in
+    select
+      p.id as product_id,
+      p.name,
+      p.selling_price,
+      item.unit_price,
+      item.quantity * item.unit_price as gross_amount,
+      coalesce(item.discount_amount, 0) - coalesce((
+        select sum((promotion->>'discount_amount')::numeric)
+        from jsonb_array_elements(coalesce(item.promotions, '[]'::jsonb)) as promotion
+      ), 0) as manual_discount
+    from jsonb_to_recordset(p_items) as item(
+      product_id uuid,
+      quantity numeric,
+      unit_price numeric,
+      discount_amount numeric,
+      promotions jsonb
+    )
+    join products p on p.id = item.product_id and p.company_id = v_company_id
+  loop
+    if v_approve_price and v_line.unit_price <> coalesce(v_line.selling_price, 0) then
+      update pos_approvals
+      set transaction_id = v_transaction.id
+      where transaction_id is null
+        and id = (
+          select a.id from pos_approvals a
+          where a.id = any(v_approval_ids)
+            and a.company_id = v_company_id
+            and a.requested_by = v_user_id
+            and a.transaction_id is null
+            and a.action = 'price_override'
+            and a.product_id = v_line.product_id
+            and a.new_value = round(v_line.unit_price, 2)
+          order by a.approved_at
+          limit 1
+        );
+
+      if not found then
+        raise exception 'A supervisor must approve the price of %', v_line.name;
+      end if;
+    end if;
+
+    if v_line.manual_discount > 0.01
+       and v_line.gross_amount > 0
+       and v_line.manual_discount / v_line.gross_amount * 100 > v_discount_percent then
+      update pos_approvals
+      set transaction_id = v_transaction.id
+      where transaction_id is null
+        and id = (
+          select a.id from pos_approvals a
+          where a.id = any(v_approval_ids)
+            and a.company_id = v_company_id
+            and a.requested_by = v_user_id
+            and a.transaction_id is null
+            and a.action = 'discount'
+            and a.product_id = v_line.product_id
+            and a.new_value >= round(v_line.manual_discount, 2) - 0.01
+          order by a.new_value, a.approved_at
+          limit 1
+        );
+
+      if not found then
+        raise exception 'A supervisor must approve the discount on %', v_line.name;
+      end if;
+    end if;
+  end loop;
+
+  -- Approvals the sale no longer needed are kept with it for the record
+  update pos_approvals
+  set transaction_id = v_transaction.id
+  where id = any(v_approval_ids)
+    and company_id = v_company_id
+    and requested_by = v_user_id
+    and transaction_id is null
+    and action in ('discount', 'price_override');
+
+  -- One OUT movement per product; lock stock rows in a stable order
+  for v_line in
+    select item.product_id, sum(item.quantity) as quantity
+    from jsonb_to_recordset(p_items) as item(product_id uuid, quantity numeric)
+    group by item.product_id
+    order by item.product_id
+  loop
+    select * into v_stock
+    from stock
+    where product_id = v_line.product_id and warehouse_id = v_warehouse_id
+    for update;
+
+    if coalesce(v_stock.quantity, 0) < v_line.quantity
+       and not (v_allow_override and p_override_stock) then
+      select name into v_product_name
+      from products
+      where id = v_line.product_id and company_id = v_company_id;
+      raise exception 'Insufficient stock for %: available %, requested %',
+        coalesce(v_product_name, v_line.product_id::text),
+        coalesce(v_stock.quantity, 0),
+        v_line.quantity;
+    end if;
+
+    insert into stock_movements (
+      company_id,
+      product_id,
+      warehouse_id,
+      movement_type,
+      quantity,
+      reference_type,
+      reference_id,
+      notes,
+      created_by
+    ) values (
+      v_company_id,
+      v_line.product_id,
+      v_warehouse_id,
+      'OUT',
+      v_line.quantity,
+      'pos_transaction',
+      v_transaction.id,
+      'POS sale ' || v_transaction.transaction_number,
+      v_user_id
+    );
+
+    if v_stock.id is not null then
+      update stock
+      set quantity = coalesce(quantity, 0) - v_line.quantity,
+          last_updated = now()
+      where id = v_stock.id;
+    else
+      insert into stock (company_id, product_id, warehouse_id, quantity)
+      values (v_company_id, v_line.product_id, v_warehouse_id, -v_line.quantity);
+    end if;
+
+    v_stock := null;
+  end loop;
+
+  -- Change comes out of the cash lines in order, so each line's amount is
+  -- what it actually contributed to the sale
+  insert into pos_payments (
+    transaction_id,
+    payment_method,
+    amount,
+    tendered_amount,
+    change_amount,
+    reference_number,
+    notes,
+    status
+  )
+  select
+    v_transaction.id,
+    payment.payment_method,
+    payment.amount - payment.line_change,
+    payment.amount,
+    payment.line_change,
+    payment.reference_number,
+    payment.notes,
+    coalesce(payment.status, 'paid')
+  from (
+    select
+      line.*,
+      case when line.payment_method = 'cash' then
+        least(
+          line.amount,
+          greatest(v_change - coalesce(sum(line.amount) filter (
+            where line.payment_method = 'cash'
+          ) over (
+            order by line.ordinality
+            rows between unbounded preceding and 1 preceding
+          ), 0), 0)
+        )
+      else 0 end as line_change
+    from rows from (
+      jsonb_to_recordset(v_payments) as (
+        payment_method text,
+        amount numeric,
+        reference_number text,
+        notes text,
+        status text
+      )
+    ) with ordinality as line(
+      payment_method,
+      amount,
+      reference_number,
+      notes,
+      status,
+      ordinality
+    )
+  ) as payment;
+
+  -- An offline sale goes over promotion limits only with a supervisor's
+  -- approval, given when the cashier accepted the conflict
+  if v_limit_approval_id is not null then
+    perform consume_pos_approval(
+      v_limit_approval_id,
+      'promotion_limit',
+      v_transaction.id
+    );
+  end if;
+
+  -- Every promotion discount on the lines goes to the ledger, within the
+  -- promotion's usage limits
+  select coalesce(jsonb_agg(promotion), '[]'::jsonb) into v_redemptions
+  from jsonb_to_recordset(p_items) as item(promotions jsonb),
+    jsonb_array_elements(coalesce(item.promotions, '[]'::jsonb)) as promotion;
+
+  perform record_promotion_redemptions(
+    v_company_id,
+    v_transaction.customer_id,
+    v_transaction.id,
+    null,
+    v_redemptions,
+    null
+  );
+
+  return v_transaction;
+end;
+$$;
+
+grant execute on function create_pos_transaction(jsonb, jsonb, jsonb, boolean)
+  to authenticated;
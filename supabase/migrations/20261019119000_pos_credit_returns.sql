@@ -0,0 +1,365 @@
+-- ============================================================================
+-- POS Credit Returns
+-- Returning goods from a credit (tempo) sale reduces the customer's invoice
+-- before anything is paid out, so the receivable no longer stays at the full
+-- amount while the cashier refunds the same goods in cash. Invoice dates of
+-- credit sales follow the company's time zone.
+-- ============================================================================
+
+alter table sales_invoices
+  -- Returns credited against the invoice, already taken off grand_total
+  add column if not exists credited_amount numeric(15, 2) not null default 0;
+
+alter table pos_returns
+  -- Part of refund_amount credited to the sale's invoice instead of paid out
+  add column if not exists credited_amount numeric(15, 2) not null default 0;
+
+-- Time zone the company's dates are counted in
+create or replace function company_time_zone(p_company_id uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (select time_zone from company_profiles where company_id = p_company_id),
+    'Asia/Jakarta'
+  );
+$$;
+
+-- ============================================================================
+-- create_pos_credit_invoice trigger
+-- Same as before, plus: the invoice date is the sale's date in the company's
+-- time zone.
+-- ============================================================================
+
+create or replace function create_pos_credit_invoice()
+returns trigger
+language plpgsql
+as $$
+declare
+  v_transaction pos_transactions;
+  v_customer customers;
+  v_terms integer;
+  v_outstanding numeric;
+  v_invoice_date date;
+begin
+  if new.payment_method <> 'credit' then
+    return new;
+  end if;
+
+  select * into v_transaction
+  from pos_transactions
+  where id = new.transaction_id;
+
+  if v_transaction.customer_id is null then
+    raise exception 'Credit sales require a customer';
+  end if;
+
+  -- Lock the customer so concurrent credit sales cannot both pass the check
+  select * into v_customer
+  from customers
+  where id = v_transaction.customer_id and company_id = v_transaction.company_id
+  for update;
+
+  if not found then
+    raise exception 'Customer not found';
+  end if;
+
+  v_outstanding := customer_outstanding(v_customer.id);
+
+  if v_outstanding + new.amount > coalesce(v_customer.credit_limit, 0) then
+    raise exception 'Credit limit exceeded for %: limit %, outstanding %, requested %',
+      v_customer.name,
+      coalesce(v_customer.credit_limit, 0),
+      v_outstanding,
+      new.amount;
+  end if;
+
+  select coalesce(
+    (select credit_terms_days from pos_settings
+     where company_id = v_transaction.company_id),
+    30
+  ) into v_terms;
+
+  v_invoice_date := (
+    v_transaction.transaction_date
+      at time zone company_time_zone(v_transaction.company_id)
+  )::date;
+
+  insert into sales_invoices (
+    company_id,
+    customer_id,
+    pos_transaction_id,
+    invoice_date,
+    due_date,
+    status,
+    subtotal,
+    discount_amount,
+    tax_amount,
+    shipping_amount,
+    grand_total,
+    paid_amount,
+    remaining_amount,
+    notes,
+    created_by
+  ) values (
+    v_transaction.company_id,
+    v_customer.id,
+    v_transaction.id,
+    v_invoice_date,
+    v_invoice_date + v_terms,
+    'unpaid',
+    new.amount,
+    0,
+    0,
+    0,
+    new.amount,
+    0,
+    new.amount,
+    'Credit sale ' || v_transaction.transaction_number,
+    v_transaction.cashier_id
+  );
+
+  return new;
+end;
+$$;
+
+-- ============================================================================
+-- create_pos_return
+-- Same as before, plus: the refund is credited to the sale's open invoice up
+-- to its remaining amount, recorded as the return's credited_amount.
+-- ============================================================================
+
+create or replace function create_pos_return(
+  p_return jsonb,
+  p_items jsonb
+)
+returns pos_returns
+language plpgsql
+security invoker
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_company_id uuid;
+  v_transaction pos_transactions;
+  v_shift_id uuid;
+  v_warehouse_id uuid;
+  v_return pos_returns;
+  v_line record;
+  v_item pos_transaction_items;
+  v_returned numeric;
+  v_net_total numeric;
+  v_line_refund numeric;
+  v_refund_total numeric := 0;
+  v_remaining numeric;
+  v_invoice sales_invoices;
+  v_credited numeric := 0;
+begin
+  select company_id into v_company_id from users where id = v_user_id;
+  if v_company_id is null then
+    raise exception 'Failed to get company information';
+  end if;
+
+  select * into v_transaction
+  from pos_transactions
+  where id = (p_return->>'transaction_id')::uuid and company_id = v_company_id
+  for update;
+
+  if not found then
+    raise exception 'Transaction not found';
+  end if;
+
+  if v_transaction.payment_status <> 'paid' then
+    raise exception 'Only paid transactions can be returned';
+  end if;
+
+  if jsonb_array_length(coalesce(p_items, '[]'::jsonb)) = 0 then
+    raise exception 'Select at least one item to return';
+  end if;
+
+  -- Refund is handed out in the cashier's current shift, if any
+  select id into v_shift_id
+  from pos_shifts
+  where cashier_id = v_user_id and status = 'open'
+  order by opened_at desc
+  limit 1;
+
+  -- Goods go back to the warehouse they were sold from
+  select warehouse_id into v_warehouse_id
+  from pos_shifts
+  where id = v_transaction.shift_id;
+
+  if v_warehouse_id is null then
+    select id into v_warehouse_id
+    from warehouses
+    where company_id = v_company_id and is_default = true and is_active = true
+    limit 1;
+  end if;
+
+  if v_warehouse_id is null then
+    raise exception 'No warehouse available to restock returned items';
+  end if;
+
+  insert into pos_returns (
+    company_id,
+    return_number,
+    transaction_id,
+    shift_id,
+    cashier_id,
+    refund_method,
+    reason,
+    notes
+  ) values (
+    v_company_id,
+    p_return->>'return_number',
+    v_transaction.id,
+    v_shift_id,
+    v_user_id,
+    p_return->>'refund_method',
+    p_return->>'reason',
+    p_return->>'notes'
+  )
+  returning * into v_return;
+
+  v_net_total := v_transaction.subtotal - v_transaction.discount_amount;
+
+  for v_line in
+    select item.transaction_item_id, item.quantity
+    from jsonb_to_recordset(p_items) as item(
+      transaction_item_id uuid,
+      quantity numeric
+    )
+    order by item.transaction_item_id
+  loop
+    select * into v_item
+    from pos_transaction_items
+    where id = v_line.transaction_item_id and transaction_id = v_transaction.id;
+
+    if not found then
+      raise exception 'Item does not belong to this transaction';
+    end if;
+
+    select coalesce(sum(ri.quantity), 0) into v_returned
+    from pos_return_items ri
+    where ri.transaction_item_id = v_item.id;
+
+    if v_line.quantity <= 0 or v_line.quantity > v_item.quantity - v_returned then
+      raise exception 'Cannot return % units; only % remaining',
+        v_line.quantity, v_item.quantity - v_returned;
+    end if;
+
+    -- Value paid for the units coming back, plus their share of the tax
+    -- when it was added on top of the prices
+    v_line_refund := pos_item_paid_value(v_item, v_returned + v_line.quantity)
+      - pos_item_paid_value(v_item, v_returned);
+    if v_net_total > 0 and not v_transaction.prices_include_tax then
+      v_line_refund := v_line_refund
+        + v_transaction.tax_amount * v_line_refund / v_net_total;
+    end if;
+    v_line_refund := round(v_line_refund, 2);
+    v_refund_total := v_refund_total + v_line_refund;
+
+    insert into pos_return_items (
+      return_id,
+      transaction_item_id,
+      product_id,
+      quantity,
+      refund_amount
+    ) values (
+      v_return.id,
+      v_item.id,
+      v_item.product_id,
+      v_line.quantity,
+      v_line_refund
+    );
+
+    insert into stock_movements (
+      company_id,
+      product_id,
+      warehouse_id,
+      movement_type,
+      quantity,
+      reference_type,
+      reference_id,
+      notes,
+      created_by
+    ) values (
+      v_company_id,
+      v_item.product_id,
+      v_warehouse_id,
+      'IN',
+      v_line.quantity,
+      'pos_return',
+      v_return.id,
+      'POS return ' || v_return.return_number,
+      v_user_id
+    );
+
+    update stock
+    set quantity = coalesce(quantity, 0) + v_line.quantity,
+        last_updated = now()
+    where product_id = v_item.product_id and warehouse_id = v_warehouse_id;
+
+    if not found then
+      insert into stock (company_id, product_id, warehouse_id, quantity)
+      values (v_company_id, v_item.product_id, v_warehouse_id, v_line.quantity);
+    end if;
+  end loop;
+
+  -- A credit sale's refund first comes off what the customer still owes on
+  -- its invoice; only the rest is paid out
+  select * into v_invoice
+  from sales_invoices
+  where pos_transaction_id = v_transaction.id
+    and company_id = v_company_id
+    and status <> 'cancelled'
+  for update;
+
+  if found then
+    v_credited := least(v_refund_total, greatest(v_invoice.remaining_amount, 0));
+
+    if v_credited > 0 then
+      update sales_invoices
+      set subtotal = subtotal - v_credited,
+          grand_total = grand_total - v_credited,
+          remaining_amount = remaining_amount - v_credited,
+          credited_amount = credited_amount + v_credited,
+          status = case
+            when remaining_amount - v_credited <= 0 then 'paid'
+            else status
+          end,
+          updated_at = now()
+      where id = v_invoice.id;
+    end if;
+  end if;
+
+  update pos_returns
+  set refund_amount = v_refund_total,
+      credited_amount = v_credited
+  where id = v_return.id
+  returning * into v_return;
+
+  -- Mark the transaction refunded once nothing is left to return
+  select coalesce(sum(ti.quantity), 0) - coalesce(sum(returned.quantity), 0)
+  into v_remaining
+  from pos_transaction_items ti
+  left join lateral (
+    select sum(ri.quantity) as quantity
+    from pos_return_items ri
+    where ri.transaction_item_id = ti.id
+  ) returned on true
+  where ti.transaction_id = v_transaction.id;
+
+  if v_remaining <= 0 then
+    update pos_transactions
+    set payment_status = 'refunded', updated_at = now()
+    where id = v_transaction.id;
+  end if;
+
+  return v_return;
+end;
+$$;
+
+grant execute on function create_pos_return(jsonb, jsonb) to authenticated;
@@ -0,0 +1,73 @@
+-- ============================================================================
+-- POS Cash Movement Approvals
+-- A cash movement is approved by a supervisor entering their PIN at the
+-- register (approve_pos_action) instead of the cashier picking an owner from
+-- a list. The movement stores the approval it used, and the approver is
+-- taken from it.
+-- ============================================================================
+
+alter table pos_approvals
+  drop constraint if exists pos_approvals_action_check;
+alter table pos_approvals
+  add constraint pos_approvals_action_check
+    check (action in (
+      'discount',
+      'price_override',
+      'void',
+      'refund',
+      'promotion_limit',
+      'cash_movement'
+    ));
+
+alter table pos_cash_movements
+  add column if not exists approval_id uuid references pos_approvals(id);
+
+-- Each approval covers one movement
+create unique index if not exists idx_pos_cash_movements_approval_id
+  on pos_cash_movements(approval_id)
+  where approval_id is not null;
+
+-- ============================================================================
+-- validate_pos_cash_movement
+-- Same as before, but the movement needs a cash_movement approval the cashier
+-- was given in the last 15 minutes for this shift and amount; approved_by
+-- is set from it.
+-- ============================================================================
+
+create or replace function validate_pos_cash_movement()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_approval pos_approvals;
+begin
+  if not exists (
+    select 1 from pos_shifts
+    where id = new.shift_id
+      and company_id = new.company_id
+      and status = 'open'
+  ) then
+    raise exception 'Cash movements can only be recorded in an open shift';
+  end if;
+
+  select * into v_approval
+  from pos_approvals
+  where id = new.approval_id
+    and company_id = new.company_id
+    and action = 'cash_movement'
+    and requested_by = new.created_by
+    and shift_id = new.shift_id
+    and new_value = new.amount
+    and approved_at > now() - interval '15 minutes';
+
+  if not found then
+    raise exception 'A supervisor must approve this cash movement';
+  end if;
+
+  new.approved_by := v_approval.approved_by;
+
+  return new;
+end;
+$$;
@@ -0,0 +1,159 @@
+-- ============================================================================
+-- Server-Side Document Numbering
+-- Document numbers always come from the company's sequence: a number sent by
+-- the client (e.g. the transaction_number passed to create_pos_transaction) is
+-- replaced on insert. Only owners change a sequence's prefix, reset period or
+-- padding; cashiers allocate numbers through the trigger, which runs with the
+-- function owner's rights. Periods follow the company's time zone.
+-- ============================================================================
+
+drop policy if exists "Users can manage their company document sequences" on document_sequences;
+
+create policy "Owners can create their company document sequences"
+  on document_sequences for insert
+  with check (
+    company_id = (
+      select company_id from users
+      where id = auth.uid() and role in ('owner', 'dev')
+    )
+  );
+
+create policy "Owners can update their company document sequences"
+  on document_sequences for update
+  using (
+    company_id = (
+      select company_id from users
+      where id = auth.uid() and role in ('owner', 'dev')
+    )
+  )
+  with check (
+    company_id = (
+      select company_id from users
+      where id = auth.uid() and role in ('owner', 'dev')
+    )
+  );
+
+-- ============================================================================
+-- ensure_document_sequence
+-- Same as before, plus: runs with the owner's rights so any company user can
+-- create the default row, but only for their own company.
+-- ============================================================================
+
+create or replace function ensure_document_sequence(
+  p_company_id uuid,
+  p_document_type text
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is not null and not exists (
+    select 1 from users where id = auth.uid() and company_id = p_company_id
+  ) then
+    raise exception 'Document sequence not found';
+  end if;
+
+  insert into document_sequences (company_id, document_type, prefix, reset_period)
+  values (
+    p_company_id,
+    p_document_type,
+    case p_document_type
+      when 'sales_order' then 'SO'
+      when 'sales_invoice' then 'INV'
+      when 'sales_payment' then 'PAY'
+      when 'delivery_order' then 'DO'
+      when 'pos_transaction' then 'POS'
+      when 'pos_return' then 'RET'
+      when 'pos_z_report' then 'Z'
+      else upper(p_document_type)
+    end,
+    case
+      when p_document_type in ('pos_transaction', 'pos_return') then 'daily'
+      when p_document_type = 'pos_z_report' then 'never'
+      else 'monthly'
+    end
+  )
+  on conflict (company_id, document_type) do nothing;
+end;
+$$;
+
+-- ============================================================================
+-- next_document_number
+-- Same as before, but the period key is taken in the company's time zone, and
+-- numbers are only allocated by assign_document_number.
+-- ============================================================================
+
+create or replace function next_document_number(
+  p_company_id uuid,
+  p_document_type text
+)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_sequence document_sequences;
+  v_now timestamp := now() at time zone company_time_zone(p_company_id);
+  v_period_key text;
+begin
+  perform ensure_document_sequence(p_company_id, p_document_type);
+
+  select * into v_sequence
+  from document_sequences
+  where company_id = p_company_id and document_type = p_document_type
+  for update;
+
+  v_period_key := case v_sequence.reset_period
+    when 'daily' then to_char(v_now, 'YYYYMMDD')
+    when 'monthly' then to_char(v_now, 'YYYYMM')
+    when 'yearly' then to_char(v_now, 'YYYY')
+    else ''
+  end;
+
+  if v_sequence.period_key <> v_period_key then
+    v_sequence.last_number := 0;
+  end if;
+
+  update document_sequences
+  set last_number = v_sequence.last_number + 1,
+      period_key = v_period_key,
+      updated_at = now()
+  where id = v_sequence.id
+  returning * into v_sequence;
+
+  return v_sequence.prefix
+    || case when v_period_key = '' then '' else '-' || v_period_key end
+    || '-' || lpad(v_sequence.last_number::text, v_sequence.padding, '0');
+end;
+$$;
+
+revoke execute on function next_document_number(uuid, text) from public, anon, authenticated;
+grant execute on function next_document_number(uuid, text) to service_role;
+
+-- ============================================================================
+-- assign_document_number trigger
+-- Same as before, but the number column is always filled from the sequence,
+-- whatever the inserted row carried.
+-- TG_ARGV[0] = document type, TG_ARGV[1] = number column
+-- ============================================================================
+
+create or replace function assign_document_number()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  new := jsonb_populate_record(
+    new,
+    jsonb_build_object(
+      tg_argv[1],
+      next_document_number(new.company_id, tg_argv[0])
+    )
+  );
+  return new;
+end;
+$$;
@@ -0,0 +1,121 @@
+-- ============================================================================
+-- Sales Order Updates
+-- An edited order is saved in one transaction: the order row, its repriced
+-- lines and the promotions it redeems. A line that fails to insert or a
+-- promotion over its usage limit leaves the order as it was, instead of
+-- half-replaced lines or redemptions for totals that were never saved.
+-- ============================================================================
+
+-- ============================================================================
+-- update_sales_order
+-- Called by /api/sales/orders/[id] with the service role after repricing.
+-- p_order holds the columns to change; p_items and p_redemptions are null
+-- when the order was not repriced, and replace the stored ones otherwise.
+-- ============================================================================
+
+create or replace function update_sales_order(
+  p_company_id uuid,
+  p_order_id uuid,
+  p_order jsonb,
+  p_items jsonb default null,
+  p_redemptions jsonb default null,
+  p_updated_by uuid default null
+)
+returns sales_orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order sales_orders;
+  v_changes sales_orders;
+begin
+  select * into v_order
+  from sales_orders
+  where id = p_order_id and company_id = p_company_id
+  for update;
+
+  if not found then
+    raise exception 'Order not found';
+  end if;
+
+  v_changes := jsonb_populate_record(v_order, coalesce(p_order, '{}'::jsonb));
+
+  update sales_orders
+  set customer_id = v_changes.customer_id,
+      salesman_id = v_changes.salesman_id,
+      order_date = v_changes.order_date,
+      status = v_changes.status,
+      subtotal = v_changes.subtotal,
+      discount_amount = v_changes.discount_amount,
+      tax_amount = v_changes.tax_amount,
+      tax_rate = v_changes.tax_rate,
+      prices_include_tax = v_changes.prices_include_tax,
+      dpp_amount = v_changes.dpp_amount,
+      shipping_amount = v_changes.shipping_amount,
+      grand_total = v_changes.grand_total,
+      pricing_snapshot = v_changes.pricing_snapshot,
+      coupon_code = v_changes.coupon_code,
+      notes = v_changes.notes,
+      terms = v_changes.terms,
+      updated_at = now()
+  where id = p_order_id
+  returning * into v_order;
+
+  if p_items is not null then
+    if jsonb_array_length(p_items) = 0 then
+      raise exception 'Order must have at least one item';
+    end if;
+
+    delete from sales_order_items where order_id = p_order_id;
+
+    insert into sales_order_items (
+      order_id,
+      product_id,
+      product_name,
+      product_sku,
+      quantity,
+      unit_price,
+      discount_amount,
+      tax_amount,
+      subtotal,
+      promotion_id,
+      discounted_units,
+      notes
+    )
+    select
+      p_order_id,
+      item.product_id,
+      item.product_name,
+      item.product_sku,
+      item.quantity,
+      item.unit_price,
+      coalesce(item.discount_amount, 0),
+      item.tax_amount,
+      item.subtotal,
+      item.promotion_id,
+      item.discounted_units,
+      item.notes
+    from jsonb_populate_recordset(null::sales_order_items, p_items) as item;
+  end if;
+
+  -- Cancelled orders have given their redemptions back
+  if p_redemptions is not null and v_order.status <> 'cancelled' then
+    perform record_promotion_redemptions(
+      p_company_id,
+      v_order.customer_id,
+      null,
+      p_order_id,
+      p_redemptions,
+      p_updated_by
+    );
+  end if;
+
+  return v_order;
+end;
+$$;
+
+revoke execute on function update_sales_order(uuid, uuid, jsonb, jsonb, jsonb, uuid)
+  from public, anon, authenticated;
+grant execute on function update_sales_order(uuid, uuid, jsonb, jsonb, jsonb, uuid)
+  to service_role;
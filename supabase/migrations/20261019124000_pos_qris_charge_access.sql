@@ -0,0 +1,135 @@
+-- ============================================================================
+-- POS QRIS Charge Access
+-- Charges are only changed by the server routes that talk to the gateway.
+-- settle_pos_qris_charge is taken away from signed-in users, who could
+-- otherwise mark a charge paid, and void_pos_transaction no longer updates
+-- charges itself (its update hit no rows under the select-only policy):
+-- pending charges are cancelled with the gateway through /api/pos/qris
+-- before the sale is voided.
+-- ============================================================================
+
+revoke execute on function settle_pos_qris_charge(uuid, text)
+  from public, anon, authenticated;
+grant execute on function settle_pos_qris_charge(uuid, text) to service_role;
+
+-- ============================================================================
+-- void_pos_transaction
+-- Same as before, but a sale with a QRIS charge still open is refused, and
+-- charges are left to the gateway routes.
+-- ============================================================================
+
+create or replace function void_pos_transaction(p_transaction_id uuid)
+returns pos_transactions
+language plpgsql
+security invoker
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_company_id uuid;
+  v_transaction pos_transactions;
+  v_warehouse_id uuid;
+  v_item pos_transaction_items;
+begin
+  select company_id into v_company_id from users where id = v_user_id;
+  if v_company_id is null then
+    raise exception 'Failed to get company information';
+  end if;
+
+  select * into v_transaction
+  from pos_transactions
+  where id = p_transaction_id and company_id = v_company_id
+  for update;
+
+  if not found then
+    raise exception 'Transaction not found';
+  end if;
+
+  if v_transaction.payment_status not in ('paid', 'pending') then
+    raise exception 'Only paid or pending transactions can be voided';
+  end if;
+
+  if exists (select 1 from pos_returns where transaction_id = v_transaction.id) then
+    raise exception 'Transactions with returns cannot be voided';
+  end if;
+
+  if exists (
+    select 1 from sales_invoices where pos_transaction_id = v_transaction.id
+  ) then
+    raise exception 'Credit sales cannot be voided; return the items instead';
+  end if;
+
+  -- The gateway must have called off the charge, or it could still be paid
+  if exists (
+    select 1 from pos_qris_charges
+    where transaction_id = v_transaction.id and status = 'pending'
+  ) then
+    raise exception 'Cancel the pending QRIS charge before voiding this sale';
+  end if;
+
+  select warehouse_id into v_warehouse_id
+  from pos_shifts
+  where id = v_transaction.shift_id;
+
+  if v_warehouse_id is null then
+    select id into v_warehouse_id
+    from warehouses
+    where company_id = v_company_id and is_default = true and is_active = true
+    limit 1;
+  end if;
+
+  if v_warehouse_id is null then
+    raise exception 'No warehouse available to restock voided items';
+  end if;
+
+  -- Approval is checked by trg_validate_pos_void_approval
+  update pos_transactions
+  set payment_status = 'cancelled', updated_at = now()
+  where id = v_transaction.id
+  returning * into v_transaction;
+
+  -- Gateway payments still awaited are called off with the sale
+  update pos_payments
+  set status = 'cancelled', updated_at = now()
+  where transaction_id = v_transaction.id and status = 'pending';
+
+  for v_item in
+    select * from pos_transaction_items
+    where transaction_id = v_transaction.id
+    order by product_id
+  loop
+    insert into stock_movements (
+      company_id,
+      product_id,
+      warehouse_id,
+      movement_type,
+      quantity,
+      reference_type,
+      reference_id,
+      notes,
+      created_by
+    ) values (
+      v_company_id,
+      v_item.product_id,
+      v_warehouse_id,
+      'IN',
+      v_item.quantity,
+      'pos_void',
+      v_transaction.id,
+      'POS void ' || v_transaction.transaction_number,
+      v_user_id
+    );
+
+    update stock
+    set quantity = coalesce(quantity, 0) + v_item.quantity,
+        last_updated = now()
+    where product_id = v_item.product_id and warehouse_id = v_warehouse_id;
+
+    if not found then
+      insert into stock (company_id, product_id, warehouse_id, quantity)
+      values (v_company_id, v_item.product_id, v_warehouse_id, v_item.quantity);
+    end if;
+  end loop;
+
+  return v_transaction;
+end;
+$$;
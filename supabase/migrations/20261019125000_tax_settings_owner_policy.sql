@@ -0,0 +1,31 @@
+-- ============================================================================
+-- Tax Settings Access
+-- Everyone in the company reads the PPN settings to price sales; only owners
+-- change the rate or the pricing mode.
+-- ============================================================================
+
+drop policy if exists "Users can manage their company tax settings" on tax_settings;
+
+create policy "Owners can create their company tax settings"
+  on tax_settings for insert
+  with check (
+    company_id = (
+      select company_id from users
+      where id = auth.uid() and role in ('owner', 'dev')
+    )
+  );
+
+create policy "Owners can update their company tax settings"
+  on tax_settings for update
+  using (
+    company_id = (
+      select company_id from users
+      where id = auth.uid() and role in ('owner', 'dev')
+    )
+  )
+  with check (
+    company_id = (
+      select company_id from users
+      where id = auth.uid() and role in ('owner', 'dev')
+    )
+  );
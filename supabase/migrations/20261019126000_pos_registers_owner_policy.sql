@@ -0,0 +1,41 @@
+-- ============================================================================
+-- POS Register Access
+-- Cashiers read the registers to open a shift on one; only owners add,
+-- change or remove them, since a register decides which warehouse a sale
+-- takes stock from.
+-- ============================================================================
+
+drop policy if exists "Users can manage their company POS registers" on pos_registers;
+
+create policy "Owners can create their company POS registers"
+  on pos_registers for insert
+  with check (
+    company_id = (
+      select company_id from users
+      where id = auth.uid() and role in ('owner', 'dev')
+    )
+  );
+
+create policy "Owners can update their company POS registers"
+  on pos_registers for update
+  using (
+    company_id = (
+      select company_id from users
+      where id = auth.uid() and role in ('owner', 'dev')
+    )
+  )
+  with check (
+    company_id = (
+      select company_id from users
+      where id = auth.uid() and role in ('owner', 'dev')
+    )
+  );
+
+create policy "Owners can delete their company POS registers"
+  on pos_registers for delete
+  using (
+    company_id = (
+      select company_id from users
+      where id = auth.uid() and role in ('owner', 'dev')
+    )
+  );
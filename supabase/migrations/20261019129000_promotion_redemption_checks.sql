@@ -0,0 +1,222 @@
+-- ============================================================================
+-- Promotion Redemption Checks
+-- The ledger no longer records whatever it is handed: a redemption needs a
+-- promotion that is active and within its dates and hours in the company's
+-- time zone, when the sale was made or the order priced, and a discount no
+-- larger than the promotion could give on the document's lines. An offline
+-- sale a supervisor approved over the limits is still let through on dates.
+-- ============================================================================
+
+-- ============================================================================
+-- record_promotion_redemptions
+-- Same as before, plus: each promotion is checked with promotion_is_valid_at
+-- and its discount against promotion_discount_cap and its minimum purchase.
+-- ============================================================================
+
+create or replace function record_promotion_redemptions(
+  p_company_id uuid,
+  p_customer_id uuid,
+  p_transaction_id uuid,
+  p_order_id uuid,
+  p_redemptions jsonb,
+  p_created_by uuid default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_line record;
+  v_promotion promotions;
+  v_voucher promotion_vouchers;
+  v_redemption_id uuid;
+  v_used integer;
+  v_enforce_limits boolean;
+  v_redeemed_at timestamptz := now();
+  v_gross numeric;
+  v_lines integer;
+begin
+  -- Signed-in callers may only write for their own company
+  if auth.uid() is not null and not exists (
+    select 1 from users where id = auth.uid() and company_id = p_company_id
+  ) then
+    raise exception 'Not allowed to redeem promotions for this company';
+  end if;
+
+  if (p_transaction_id is null) = (p_order_id is null) then
+    raise exception 'Redemptions belong to either a POS sale or a sales order';
+  end if;
+
+  -- Only an offline sale a supervisor approved goes over the limits
+  v_enforce_limits := not exists (
+    select 1 from pos_approvals
+    where transaction_id = p_transaction_id
+      and company_id = p_company_id
+      and action = 'promotion_limit'
+  );
+
+  -- A sale is judged when it was made, an order when it is priced; the
+  -- discounts are bounded by the document's lines
+  if p_transaction_id is not null then
+    select transaction_date into v_redeemed_at
+    from pos_transactions
+    where id = p_transaction_id and company_id = p_company_id;
+
+    select coalesce(sum(quantity * unit_price), 0), count(*)
+    into v_gross, v_lines
+    from pos_transaction_items
+    where transaction_id = p_transaction_id;
+  else
+    select coalesce(sum(quantity * unit_price), 0), count(*)
+    into v_gross, v_lines
+    from sales_order_items
+    where order_id = p_order_id;
+  end if;
+
+  update promotion_vouchers
+  set status = 'issued', redemption_id = null, redeemed_at = null
+  where redemption_id in (
+    select id from promotion_redemptions
+    where company_id = p_company_id
+      and (pos_transaction_id = p_transaction_id or sales_order_id = p_order_id)
+  );
+
+  delete from promotion_redemptions
+  where company_id = p_company_id
+    and (pos_transaction_id = p_transaction_id or sales_order_id = p_order_id);
+
+  for v_line in
+    select
+      redemption.promotion_id,
+      sum(coalesce(redemption.discount_amount, 0)) as discount_amount,
+      max(nullif(upper(trim(redemption.code)), '')) as code
+    from jsonb_to_recordset(coalesce(p_redemptions, '[]'::jsonb)) as redemption(
+      promotion_id uuid,
+      discount_amount numeric,
+      code text
+    )
+    group by redemption.promotion_id
+    order by redemption.promotion_id
+  loop
+    select * into v_promotion
+    from promotions
+    where id = v_line.promotion_id and company_id = p_company_id
+    for update;
+
+    if not found then
+      raise exception 'Promotion not found';
+    end if;
+
+    if v_enforce_limits
+       and not promotion_is_valid_at(v_promotion, coalesce(v_redeemed_at, now())) then
+      raise exception 'Promotion % is not running', v_promotion.name;
+    end if;
+
+    if v_line.discount_amount <= 0
+       or v_line.discount_amount > promotion_discount_cap(v_promotion, v_gross, v_lines) + 1 then
+      raise exception 'Promotion % cannot give a discount of %',
+        v_promotion.name, v_line.discount_amount;
+    end if;
+
+    if v_gross < coalesce(v_promotion.min_purchase_amount, 0) then
+      raise exception 'Promotion % needs a minimum purchase of %',
+        v_promotion.name, v_promotion.min_purchase_amount;
+    end if;
+
+    v_voucher := null;
+    if v_promotion.uses_vouchers then
+      select * into v_voucher
+      from promotion_vouchers
+      where company_id = p_company_id
+        and promotion_id = v_promotion.id
+        and code = coalesce(v_line.code, '')
+      for update;
+
+      if not found then
+        raise exception 'Promotion % needs one of its vouchers', v_promotion.name;
+      end if;
+
+      if v_enforce_limits and v_voucher.status = 'redeemed' then
+        raise exception 'Voucher % has already been used', v_voucher.code;
+      end if;
+
+      if v_enforce_limits and (
+        v_voucher.status = 'expired' or v_voucher.expires_at <= now()
+      ) then
+        raise exception 'Voucher % has expired', v_voucher.code;
+      end if;
+    elsif v_promotion.requires_code
+       and coalesce(v_line.code, '') <> upper(v_promotion.code) then
+      raise exception 'Promotion % needs its coupon code', v_promotion.name;
+    end if;
+
+    if v_enforce_limits and v_promotion.usage_limit is not null then
+      select count(*) into v_used
+      from promotion_redemptions
+      where promotion_id = v_promotion.id and status = 'applied';
+
+      if v_used >= v_promotion.usage_limit then
+        raise exception 'Promotion % has reached its usage limit of %',
+          v_promotion.name, v_promotion.usage_limit;
+      end if;
+    end if;
+
+    if v_enforce_limits and v_promotion.usage_limit_per_customer is not null then
+      if p_customer_id is null then
+        raise exception 'Promotion % needs a customer', v_promotion.name;
+      end if;
+
+      select count(*) into v_used
+      from promotion_redemptions
+      where promotion_id = v_promotion.id
+        and customer_id = p_customer_id
+        and status = 'applied';
+
+      if v_used >= v_promotion.usage_limit_per_customer then
+        raise exception 'The customer has already used promotion % % time(s)',
+          v_promotion.name, v_used;
+      end if;
+    end if;
+
+    insert into promotion_redemptions (
+      company_id,
+      promotion_id,
+      customer_id,
+      pos_transaction_id,
+      sales_order_id,
+      code,
+      discount_amount,
+      created_by
+    ) values (
+      p_company_id,
+      v_promotion.id,
+      p_customer_id,
+      p_transaction_id,
+      p_order_id,
+      v_line.code,
+      v_line.discount_amount,
+      coalesce(auth.uid(), p_created_by)
+    )
+    returning id into v_redemption_id;
+
+    if v_voucher.id is not null and v_voucher.status = 'issued' then
+      update promotion_vouchers
+      set status = 'redeemed',
+          redemption_id = v_redemption_id,
+          redeemed_at = now()
+      where id = v_voucher.id;
+    end if;
+  end loop;
+end;
+$$;
+
+revoke execute on function record_promotion_redemptions(uuid, uuid, uuid, uuid, jsonb, uuid)
+  from public, anon, authenticated;
+grant execute on function record_promotion_redemptions(uuid, uuid, uuid, uuid, jsonb, uuid)
+  to service_role;
+
+revoke execute on function record_promotion_redemptions(uuid, uuid, uuid, uuid, jsonb, uuid)
+  from public, anon, authenticated;
+grant execute on function record_promotion_redemptions(uuid, uuid, uuid, uuid, jsonb, uuid)
+  to service_role;
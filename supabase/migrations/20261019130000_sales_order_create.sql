@@ -0,0 +1,286 @@
+-- ============================================================================
+-- Sales Order Creation
+-- A new order is saved in one transaction like an edited one: the order, its
+-- lines and its redemptions, with nothing to clean up when a step fails.
+-- Orders are only edited while draft or confirmed, and their customer and
+-- salesman must belong to the company.
+-- ============================================================================
+
+-- The customer and, when set, the salesman of an order are the company's
+create or replace function check_sales_order_parties(
+  p_company_id uuid,
+  p_customer_id uuid,
+  p_salesman_id uuid
+)
+returns void
+language plpgsql
+stable
+set search_path = public
+as $$
+begin
+  if not exists (
+    select 1 from customers
+    where id = p_customer_id and company_id = p_company_id
+  ) then
+    raise exception 'Customer not found';
+  end if;
+
+  if p_salesman_id is not null and not exists (
+    select 1 from users
+    where id = p_salesman_id and company_id = p_company_id
+  ) then
+    raise exception 'Salesman not found';
+  end if;
+end;
+$$;
+
+-- ============================================================================
+-- create_sales_order
+-- Called by /api/sales/orders with the service role after pricing. p_order
+-- holds the order's columns; the number comes from the document sequence.
+-- ============================================================================
+
+create or replace function create_sales_order(
+  p_company_id uuid,
+  p_order jsonb,
+  p_items jsonb,
+  p_redemptions jsonb default '[]'::jsonb,
+  p_created_by uuid default null
+)
+returns sales_orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_input sales_orders := jsonb_populate_record(null::sales_orders, p_order);
+  v_order sales_orders;
+begin
+  if jsonb_array_length(coalesce(p_items, '[]'::jsonb)) = 0 then
+    raise exception 'Order must have at least one item';
+  end if;
+
+  if coalesce(v_input.status, 'draft') not in ('draft', 'confirmed') then
+    raise exception 'A new order is draft or confirmed';
+  end if;
+
+  perform check_sales_order_parties(
+    p_company_id,
+    v_input.customer_id,
+    v_input.salesman_id
+  );
+
+  insert into sales_orders (
+    company_id,
+    customer_id,
+    salesman_id,
+    order_date,
+    status,
+    subtotal,
+    discount_amount,
+    tax_amount,
+    tax_rate,
+    prices_include_tax,
+    dpp_amount,
+    shipping_amount,
+    grand_total,
+    pricing_snapshot,
+    coupon_code,
+    notes,
+    terms,
+    created_by
+  ) values (
+    p_company_id,
+    v_input.customer_id,
+    v_input.salesman_id,
+    v_input.order_date,
+    coalesce(v_input.status, 'draft'),
+    v_input.subtotal,
+    coalesce(v_input.discount_amount, 0),
+    coalesce(v_input.tax_amount, 0),
+    coalesce(v_input.tax_rate, 0),
+    coalesce(v_input.prices_include_tax, false),
+    coalesce(v_input.dpp_amount, 0),
+    coalesce(v_input.shipping_amount, 0),
+    v_input.grand_total,
+    v_input.pricing_snapshot,
+    v_input.coupon_code,
+    v_input.notes,
+    v_input.terms,
+    p_created_by
+  )
+  returning * into v_order;
+
+  insert into sales_order_items (
+    order_id,
+    product_id,
+    product_name,
+    product_sku,
+    quantity,
+    unit_price,
+    discount_amount,
+    tax_amount,
+    subtotal,
+    promotion_id,
+    discounted_units,
+    notes
+  )
+  select
+    v_order.id,
+    item.product_id,
+    item.product_name,
+    item.product_sku,
+    item.quantity,
+    item.unit_price,
+    coalesce(item.discount_amount, 0),
+    item.tax_amount,
+    item.subtotal,
+    item.promotion_id,
+    item.discounted_units,
+    item.notes
+  from jsonb_populate_recordset(null::sales_order_items, p_items) as item;
+
+  perform record_promotion_redemptions(
+    p_company_id,
+    v_order.customer_id,
+    null,
+    v_order.id,
+    coalesce(p_redemptions, '[]'::jsonb),
+    p_created_by
+  );
+
+  return v_order;
+end;
+$$;
+
+revoke execute on function create_sales_order(uuid, jsonb, jsonb, jsonb, uuid)
+  from public, anon, authenticated;
+grant execute on function create_sales_order(uuid, jsonb, jsonb, jsonb, uuid)
+  to service_role;
+
+-- ============================================================================
+-- update_sales_order
+-- Same as before, plus: only draft and confirmed orders are edited, they
+-- stay so, and the customer and salesman are checked against the company.
+-- ============================================================================
+
+create or replace function update_sales_order(
+  p_company_id uuid,
+  p_order_id uuid,
+  p_order jsonb,
+  p_items jsonb default null,
+  p_redemptions jsonb default null,
+  p_updated_by uuid default null
+)
+returns sales_orders
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_order sales_orders;
+  v_changes sales_orders;
+begin
+  select * into v_order
+  from sales_orders
+  where id = p_order_id and company_id = p_company_id
+  for update;
+
+  if not found then
+    raise exception 'Order not found';
+  end if;
+
+  if v_order.status not in ('draft', 'confirmed') then
+    raise exception 'Only draft and confirmed orders can be edited';
+  end if;
+
+  v_changes := jsonb_populate_record(v_order, coalesce(p_order, '{}'::jsonb));
+
+  if v_changes.status not in ('draft', 'confirmed') then
+    raise exception 'An edited order stays draft or confirmed';
+  end if;
+
+  perform check_sales_order_parties(
+    p_company_id,
+    v_changes.customer_id,
+    v_changes.salesman_id
+  );
+
+  update sales_orders
+  set customer_id = v_changes.customer_id,
+      salesman_id = v_changes.salesman_id,
+      order_date = v_changes.order_date,
+      status = v_changes.status,
+      subtotal = v_changes.subtotal,
+      discount_amount = v_changes.discount_amount,
+      tax_amount = v_changes.tax_amount,
+      tax_rate = v_changes.tax_rate,
+      prices_include_tax = v_changes.prices_include_tax,
+      dpp_amount = v_changes.dpp_amount,
+      shipping_amount = v_changes.shipping_amount,
+      grand_total = v_changes.grand_total,
+      pricing_snapshot = v_changes.pricing_snapshot,
+      coupon_code = v_changes.coupon_code,
+      notes = v_changes.notes,
+      terms = v_changes.terms,
+      updated_at = now()
+  where id = p_order_id
+  returning * into v_order;
+
+  if p_items is not null then
+    if jsonb_array_length(p_items) = 0 then
+      raise exception 'Order must have at least one item';
+    end if;
+
+    delete from sales_order_items where order_id = p_order_id;
+
+    insert into sales_order_items (
+      order_id,
+      product_id,
+      product_name,
+      product_sku,
+      quantity,
+      unit_price,
+      discount_amount,
+      tax_amount,
+      subtotal,
+      promotion_id,
+      discounted_units,
+      notes
+    )
+    select
+      p_order_id,
+      item.product_id,
+      item.product_name,
+      item.product_sku,
+      item.quantity,
+      item.unit_price,
+      coalesce(item.discount_amount, 0),
+      item.tax_amount,
+      item.subtotal,
+      item.promotion_id,
+      item.discounted_units,
+      item.notes
+    from jsonb_populate_recordset(null::sales_order_items, p_items) as item;
+  end if;
+
+  -- Cancelled orders have given their redemptions back
+  if p_redemptions is not null and v_order.status <> 'cancelled' then
+    perform record_promotion_redemptions(
+      p_company_id,
+      v_order.customer_id,
+      null,
+      p_order_id,
+      p_redemptions,
+      p_updated_by
+    );
+  end if;
+
+  return v_order;
+end;
+$$;
+
+revoke execute on function update_sales_order(uuid, uuid, jsonb, jsonb, jsonb, uuid)
+  from public, anon, authenticated;
+grant execute on function update_sales_order(uuid, uuid, jsonb, jsonb, jsonb, uuid)
+  to service_role;
@@ -0,0 +1,106 @@
+-- ============================================================================
+-- Sales Payment Receipt
+-- A customer payment is recorded in one transaction with the invoice it
+-- settles: the invoice row is locked, a payment above what is still owed is
+-- refused, and the paid amount, remaining amount and status move together.
+-- Payments are dated in the company's time zone unless a date is given.
+-- ============================================================================
+
+-- ============================================================================
+-- receive_sales_payment
+-- p_payment: invoice_id, shift_id, payment_date, payment_method, amount,
+-- reference_number, notes. The payment number comes from the document
+-- sequence.
+-- ============================================================================
+
+create or replace function receive_sales_payment(p_payment jsonb)
+returns sales_payments
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_company_id uuid;
+  v_invoice sales_invoices;
+  v_payment sales_payments;
+  v_amount numeric := (p_payment->>'amount')::numeric;
+  v_shift_id uuid := nullif(p_payment->>'shift_id', '')::uuid;
+begin
+  select company_id into v_company_id from users where id = v_user_id;
+  if v_company_id is null then
+    raise exception 'Failed to get company information';
+  end if;
+
+  select * into v_invoice
+  from sales_invoices
+  where id = nullif(p_payment->>'invoice_id', '')::uuid
+    and company_id = v_company_id
+  for update;
+
+  if not found then
+    raise exception 'Invoice not found';
+  end if;
+
+  if v_invoice.status in ('paid', 'cancelled') then
+    raise exception 'Invoice % is %', v_invoice.invoice_number, v_invoice.status;
+  end if;
+
+  if coalesce(v_amount, 0) <= 0 then
+    raise exception 'Payment amount must be positive';
+  end if;
+
+  if v_amount > v_invoice.remaining_amount then
+    raise exception 'Payment of % exceeds the outstanding balance of %',
+      v_amount, v_invoice.remaining_amount;
+  end if;
+
+  -- Collected at the register: into one of the company's open shifts
+  if v_shift_id is not null and not exists (
+    select 1 from pos_shifts
+    where id = v_shift_id and company_id = v_company_id and status = 'open'
+  ) then
+    raise exception 'Shift is not open';
+  end if;
+
+  insert into sales_payments (
+    company_id,
+    invoice_id,
+    shift_id,
+    payment_date,
+    payment_method,
+    amount,
+    reference_number,
+    notes,
+    created_by
+  ) values (
+    v_company_id,
+    v_invoice.id,
+    v_shift_id,
+    coalesce(
+      nullif(p_payment->>'payment_date', '')::date,
+      company_today(v_company_id)
+    ),
+    p_payment->>'payment_method',
+    v_amount,
+    nullif(p_payment->>'reference_number', ''),
+    nullif(p_payment->>'notes', ''),
+    v_user_id
+  )
+  returning * into v_payment;
+
+  update sales_invoices
+  set paid_amount = paid_amount + v_amount,
+      remaining_amount = remaining_amount - v_amount,
+      status = case
+        when remaining_amount - v_amount <= 0 then 'paid'
+        else 'partial'
+      end,
+      updated_at = now()
+  where id = v_invoice.id;
+
+  return v_payment;
+end;
+$$;
+
+grant execute on function receive_sales_payment(jsonb) to authenticated;
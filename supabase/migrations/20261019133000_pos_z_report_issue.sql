@@ -0,0 +1,271 @@
+-- ============================================================================
+-- POS Z-Report Issue
+-- A Z-report's figures are worked out by the database from the shift's
+-- transactions, payments, returns, receivable payments and cash movements,
+-- the same way buildShiftReport lays them out (src/lib/pos/shift-report.ts).
+-- issue_pos_z_report is the only way to issue one: the register can no
+-- longer insert a report with figures of its own.
+-- ============================================================================
+
+drop policy if exists "Users can issue their company Z-reports" on pos_z_reports;
+
+-- ============================================================================
+-- issue_pos_z_report
+-- Issues the Z-report of one of the caller's company's closed shifts, once
+-- ============================================================================
+
+create or replace function issue_pos_z_report(p_shift_id uuid)
+returns pos_z_reports
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_company_id uuid;
+  v_shift pos_shifts;
+  v_z_report pos_z_reports;
+  v_sales jsonb;
+  v_items jsonb;
+  v_cash jsonb;
+  v_payments jsonb;
+  v_categories jsonb;
+  v_top_products jsonb;
+  v_promotions jsonb;
+  v_expected_cash numeric;
+begin
+  select company_id into v_company_id from users where id = v_user_id;
+  if v_company_id is null then
+    raise exception 'Failed to get company information';
+  end if;
+
+  select * into v_shift
+  from pos_shifts
+  where id = p_shift_id and company_id = v_company_id
+  for update;
+
+  if not found then
+    raise exception 'Shift not found';
+  end if;
+
+  if v_shift.status <> 'closed' then
+    raise exception 'Close the shift before issuing its Z-report';
+  end if;
+
+  select * into v_z_report from pos_z_reports where shift_id = p_shift_id;
+  if found then
+    raise exception 'Z-report % was already issued for this shift',
+      v_z_report.report_number;
+  end if;
+
+  -- Sales count paid and later refunded transactions; voids are separate
+  select jsonb_build_object(
+    'total_transactions', count(*) filter (where payment_status in ('paid', 'refunded')),
+    'net_sales', coalesce(sum(total) filter (where payment_status in ('paid', 'refunded')), 0),
+    'dpp_amount', coalesce(sum(dpp_amount) filter (where payment_status in ('paid', 'refunded')), 0),
+    'tax_amount', coalesce(sum(tax_amount) filter (where payment_status in ('paid', 'refunded')), 0),
+    'void_count', count(*) filter (where payment_status = 'cancelled'),
+    'void_amount', coalesce(sum(total) filter (where payment_status = 'cancelled'), 0)
+  ) into v_sales
+  from pos_transactions
+  where shift_id = p_shift_id;
+
+  select jsonb_build_object(
+    'gross_sales', coalesce(sum(ti.quantity * ti.unit_price), 0),
+    'discount_amount', coalesce(sum(ti.discount_amount), 0),
+    'manual_discount_amount', coalesce(sum(ti.discount_amount)
+      filter (where ti.discount_amount > 0 and ti.promotion_id is null), 0)
+  ) into v_items
+  from pos_transaction_items ti
+  join pos_transactions t on t.id = ti.transaction_id
+  where t.shift_id = p_shift_id and t.payment_status in ('paid', 'refunded');
+
+  -- Payment lines of the sales, by what each line paid
+  select coalesce(jsonb_agg(jsonb_build_object(
+    'label', method.label,
+    'count', method.count,
+    'amount', method.amount
+  ) order by method.first_paid_at), '[]'::jsonb)
+  into v_payments
+  from (
+    select
+      case p.payment_method
+        when 'cash' then 'Cash'
+        when 'card' then 'Card'
+        when 'transfer' then 'Transfer'
+        when 'e-wallet' then 'E-Wallet'
+        when 'credit' then 'Credit'
+        else p.payment_method
+      end as label,
+      count(*) as count,
+      sum(p.amount) as amount,
+      min(t.transaction_date) as first_paid_at
+    from pos_payments p
+    join pos_transactions t on t.id = p.transaction_id
+    where t.shift_id = p_shift_id and t.payment_status in ('paid', 'refunded')
+    group by 1
+  ) as method;
+
+  select coalesce(jsonb_agg(jsonb_build_object(
+    'label', category.label,
+    'count', category.count,
+    'amount', category.amount
+  ) order by category.amount desc), '[]'::jsonb)
+  into v_categories
+  from (
+    select
+      coalesce(pc.name, 'Uncategorized') as label,
+      sum(ti.quantity) as count,
+      sum(ti.subtotal) as amount
+    from pos_transaction_items ti
+    join pos_transactions t on t.id = ti.transaction_id
+    left join products pr on pr.id = ti.product_id
+    left join product_categories pc on pc.id = pr.category_id
+    where t.shift_id = p_shift_id and t.payment_status in ('paid', 'refunded')
+    group by 1
+  ) as category;
+
+  select coalesce(jsonb_agg(jsonb_build_object(
+    'label', product.label,
+    'count', product.count,
+    'amount', product.amount
+  ) order by product.amount desc), '[]'::jsonb)
+  into v_top_products
+  from (
+    select
+      coalesce(pr.name, 'Unknown Product') as label,
+      sum(ti.quantity) as count,
+      sum(ti.subtotal) as amount
+    from pos_transaction_items ti
+    join pos_transactions t on t.id = ti.transaction_id
+    left join products pr on pr.id = ti.product_id
+    where t.shift_id = p_shift_id and t.payment_status in ('paid', 'refunded')
+    group by 1
+    order by 3 desc
+    limit 10
+  ) as product;
+
+  select coalesce(jsonb_agg(jsonb_build_object(
+    'label', promotion.label,
+    'count', promotion.count,
+    'amount', promotion.amount
+  ) order by promotion.amount desc), '[]'::jsonb)
+  into v_promotions
+  from (
+    select
+      pm.name as label,
+      count(*) as count,
+      sum(ti.discount_amount) as amount
+    from pos_transaction_items ti
+    join pos_transactions t on t.id = ti.transaction_id
+    join promotions pm on pm.id = ti.promotion_id
+    where t.shift_id = p_shift_id
+      and t.payment_status in ('paid', 'refunded')
+      and ti.discount_amount > 0
+    group by 1
+  ) as promotion;
+
+  -- The drawer: cash sales and collections in, cash refunds and pay-outs
+  -- out. What a credit sale's return took off its invoice never left it.
+  select jsonb_build_object(
+    'cash_sales', coalesce((
+      select sum(p.amount)
+      from pos_payments p
+      join pos_transactions t on t.id = p.transaction_id
+      where t.shift_id = p_shift_id
+        and t.payment_status in ('paid', 'refunded')
+        and p.payment_method = 'cash'
+    ), 0),
+    'receivable_payments', coalesce((
+      select sum(amount) from sales_payments where shift_id = p_shift_id
+    ), 0),
+    'cash_receivable_payments', coalesce((
+      select sum(amount) from sales_payments
+      where shift_id = p_shift_id and payment_method = 'cash'
+    ), 0),
+    'refund_count', (
+      select count(*) from pos_returns where shift_id = p_shift_id
+    ),
+    'total_refunds', coalesce((
+      select sum(refund_amount) from pos_returns where shift_id = p_shift_id
+    ), 0),
+    'cash_refunds', coalesce((
+      select sum(refund_amount - coalesce(credited_amount, 0))
+      from pos_returns
+      where shift_id = p_shift_id and refund_method = 'cash'
+    ), 0),
+    'cash_pay_ins', coalesce((
+      select sum(amount) from pos_cash_movements
+      where shift_id = p_shift_id and movement_type = 'pay_in'
+    ), 0),
+    'cash_pay_outs', coalesce((
+      select sum(amount) from pos_cash_movements
+      where shift_id = p_shift_id and movement_type = 'pay_out'
+    ), 0)
+  ) into v_cash;
+
+  v_expected_cash := v_shift.opening_cash
+    + (v_cash->>'cash_sales')::numeric
+    + (v_cash->>'cash_receivable_payments')::numeric
+    + (v_cash->>'cash_pay_ins')::numeric
+    - (v_cash->>'cash_refunds')::numeric
+    - (v_cash->>'cash_pay_outs')::numeric;
+
+  insert into pos_z_reports (company_id, shift_id, report, issued_by)
+  values (
+    v_company_id,
+    p_shift_id,
+    jsonb_build_object(
+      'report_type', 'Z',
+      'report_number', null,
+      'generated_at', now(),
+      'shift_id', v_shift.id,
+      'cashier', coalesce(
+        (select name from users where id = v_shift.cashier_id),
+        'Unknown'
+      ),
+      'warehouse', (select name from warehouses where id = v_shift.warehouse_id),
+      'register', (select name from pos_registers where id = v_shift.register_id),
+      'opened_at', v_shift.opened_at,
+      'closed_at', v_shift.closed_at,
+      'total_transactions', (v_sales->>'total_transactions')::integer,
+      'gross_sales', (v_items->>'gross_sales')::numeric,
+      'discount_amount', (v_items->>'discount_amount')::numeric,
+      'net_sales', (v_sales->>'net_sales')::numeric,
+      'dpp_amount', (v_sales->>'dpp_amount')::numeric,
+      'tax_amount', (v_sales->>'tax_amount')::numeric,
+      'payments', v_payments,
+      'categories', v_categories,
+      'top_products', v_top_products,
+      'promotions', v_promotions,
+      'manual_discount_amount', (v_items->>'manual_discount_amount')::numeric,
+      'refunds', jsonb_build_object(
+        'label', 'Refunds',
+        'count', (v_cash->>'refund_count')::integer,
+        'amount', (v_cash->>'total_refunds')::numeric
+      ),
+      'cash_refunds', (v_cash->>'cash_refunds')::numeric,
+      'voids', jsonb_build_object(
+        'label', 'Voids',
+        'count', (v_sales->>'void_count')::integer,
+        'amount', (v_sales->>'void_amount')::numeric
+      ),
+      'receivable_payments', (v_cash->>'receivable_payments')::numeric,
+      'opening_cash', v_shift.opening_cash,
+      'cash_sales', (v_cash->>'cash_sales')::numeric,
+      'cash_receivable_payments', (v_cash->>'cash_receivable_payments')::numeric,
+      'cash_pay_ins', (v_cash->>'cash_pay_ins')::numeric,
+      'cash_pay_outs', (v_cash->>'cash_pay_outs')::numeric,
+      'expected_cash', v_expected_cash,
+      'actual_cash', v_shift.actual_cash,
+      'variance', v_shift.variance
+    ),
+    v_user_id
+  )
+  returning * into v_z_report;
+
+  return v_z_report;
+end;
+$$;
+
+grant execute on function issue_pos_z_report(uuid) to authenticated;